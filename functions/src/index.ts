@@ -14,6 +14,347 @@ try {
 
 const db = admin.firestore();
 
+// --- Order status transitions ---
+// Mirrors ORDER_STATUS_TRANSITIONS in src/lib/orders/status-machine.ts (edges only; guards such as
+// "refunds need prior payment" are checked by the app's server actions). Keep both in sync.
+const ORDER_STATUS_TRANSITIONS: Record<string, string[]> = {
+  'Pending Payment': ['Processing', 'Cancelled'],
+  'Processing': ['Pending Payment', 'Partially Shipped', 'Shipped', 'Delivered', 'Cancelled'],
+  'Partially Shipped': ['Shipped', 'Delivered', 'Processing'],
+  'Shipped': ['Delivered', 'Partially Shipped', 'Processing'],
+  'Delivered': ['Shipped', 'Partially Shipped', 'Refunded'],
+  'Cancelled': ['Pending Payment', 'Refunded'],
+  'Refunded': [],
+};
+
+// Statuses a new order may start in
+const INITIAL_ORDER_STATUSES = ['Pending Payment', 'Processing'];
+
+// How long stock stays reserved for a 'Pending Payment' order before it is released.
+// Set RESERVATION_EXPIRY_HOURS in the functions environment to change it.
+const RESERVATION_EXPIRY_HOURS = Number(process.env.RESERVATION_EXPIRY_HOURS) || 48;
+
+const isOrderTransitionAllowed = (from: string, to: string): boolean =>
+  (ORDER_STATUS_TRANSITIONS[from] || []).includes(to);
+
+// --- Committed stock ---
+// Each order keeps a `stockCommitted` map (doorId -> units) of the stock it has actually taken out of
+// inventory. Whenever an order is created, edited, cancelled, reopened or deleted, the functions below
+// move stock by the difference between what the order should hold now and what it has committed, in
+// one transaction, and append every move to the `stockMovements` ledger (same shape as
+// src/lib/inventory/stock-ledger.ts) so it can be traced to the order write. Creating, editing and reopening
+// an order in the app already takes its units (and backorders what isn't there) in the same transaction
+// as the write (src/lib/inventory/reservations.ts), so for those the sync normally finds nothing to take.
+// While an order is 'Pending Payment' its committed units are also counted in the item's `reserved`
+// (mirrored on the order as `stockReserved`), and the reservation expires after RESERVATION_EXPIRY_HOURS.
+
+type StockCommitment = Record<string, number>;
+
+type OrderStockEvent = 'order_created' | 'order_updated' | 'order_cancelled' | 'order_reopened' | 'order_deleted' | 'reservation_released';
+
+// Once goods have left the showroom, deleting the order must not put them back on the shelf
+const DEPARTED_ORDER_STATUSES = ['Partially Shipped', 'Shipped', 'Delivered', 'Refunded'];
+
+// Units per doorId the order's items take from stock (lines with the same door are added together).
+// Backordered units were never available, so they aren't taken.
+function sumItemsByDoorId(orderId: string, items: any): StockCommitment {
+  const totals: StockCommitment = {};
+  if (!Array.isArray(items)) return totals;
+
+  for (const [index, item] of items.entries()) {
+    const inventoryItemId = item?.doorId;
+    const orderedQuantity = item?.quantity;
+
+    if (!inventoryItemId || typeof inventoryItemId !== 'string' || inventoryItemId.trim() === '') {
+      console.warn(`[Order: ${orderId}] Item ${index + 1}: Ignoring line for stock due to invalid or missing doorId.`);
+      continue;
+    }
+    if (typeof orderedQuantity !== 'number' || !Number.isInteger(orderedQuantity) || orderedQuantity <= 0) {
+      console.warn(`[Order: ${orderId}] Item ${index + 1} (doorId: ${inventoryItemId}): Ignoring line for stock due to invalid quantity: ${orderedQuantity}. Must be a positive integer.`);
+      continue;
+    }
+    const backordered = Number.isInteger(item.backorderedQuantity) ? Math.min(Math.max(item.backorderedQuantity, 0), orderedQuantity) : 0;
+    if (orderedQuantity - backordered === 0) continue;
+    totals[inventoryItemId] = (totals[inventoryItemId] || 0) + orderedQuantity - backordered;
+  }
+  return totals;
+}
+
+// What the order has already taken from stock. Orders written before `stockCommitted` existed
+// had their items deducted on creation and restocked on cancellation, so derive it from those.
+function getCommittedStock(orderId: string, orderData: any): StockCommitment {
+  if (!orderData) return {};
+  if (orderData.stockCommitted && typeof orderData.stockCommitted === 'object') {
+    return { ...orderData.stockCommitted };
+  }
+  if (orderData.status === 'Cancelled') return {};
+  return sumItemsByDoorId(orderId, orderData.items);
+}
+
+// What the order should hold for its current status and items
+function getTargetStock(orderId: string, orderData: any, committed: StockCommitment): StockCommitment {
+  if (orderData.status === 'Cancelled') return {};
+  // Refunds don't move goods: a refunded delivery stays out of stock, a refunded cancellation stays restocked
+  if (orderData.status === 'Refunded') return committed;
+  return sumItemsByDoorId(orderId, orderData.items);
+}
+
+function getOrderStockEvent(fromStatus: string | undefined, toStatus: string): OrderStockEvent {
+  if (toStatus === 'Cancelled' && fromStatus !== 'Cancelled') return 'order_cancelled';
+  if (fromStatus === 'Cancelled' && toStatus !== 'Cancelled') return 'order_reopened';
+  return 'order_updated';
+}
+
+type InventorySnapshots = Map<string, admin.firestore.DocumentSnapshot>;
+
+// Reads the inventory docs a sync will touch. Firestore transactions don't allow reads after
+// writes, so this runs before applyStockDelta / applyReservedDelta.
+async function readInventoryDocs(transaction: admin.firestore.Transaction, ...maps: StockCommitment[]): Promise<InventorySnapshots> {
+  const doorIds = Array.from(new Set(maps.flatMap((map) => Object.keys(map))));
+  const snapshots = await Promise.all(doorIds.map((doorId) => transaction.get(db.collection("inventory").doc(doorId))));
+  return new Map(doorIds.map((doorId, index) => [doorId, snapshots[index]]));
+}
+
+// --- Payment summary ---
+// Mirrors getOrderPaymentSummary in src/lib/orders/payments.ts. The orders list filters on the stored
+// `payment` summary, which depends on the status, so every status the functions write carries it too.
+const NOTHING_OWED_ORDER_STATUSES = ['Cancelled', 'Refunded'];
+const LEGACY_PAID_METHODS = ['Paid', 'Completed', 'Delivered'];
+
+type OrderPaymentSummary = { status: string; amountPaid: number; balanceDue: number };
+
+const roundToPaise = (amount: number) => Math.round(amount * 100) / 100;
+
+function getOrderPaymentSummary(orderData: any): OrderPaymentSummary {
+  const amountOwed = NOTHING_OWED_ORDER_STATUSES.includes(orderData?.status || '') || typeof orderData?.totalAmount !== 'number'
+    ? 0
+    : roundToPaise(Math.max(0, orderData.totalAmount - (orderData.returnTotal || 0)));
+
+  if (Array.isArray(orderData?.payments)) {
+    const active = orderData.payments.filter((payment: any) => !payment?.voided);
+    const sumOf = (kind: string) => active
+      .filter((payment: any) => (payment?.kind === 'refund' ? 'refund' : 'payment') === kind)
+      .reduce((sum: number, payment: any) => sum + (typeof payment?.amount === 'number' ? payment.amount : 0), 0);
+    const refunded = sumOf('refund');
+    const amountPaid = roundToPaise(sumOf('payment') - refunded);
+    const balanceDue = roundToPaise(Math.max(0, amountOwed - amountPaid));
+    let status: string;
+    if (refunded > 0 && amountPaid <= 0) status = 'refunded';
+    else if (amountPaid <= 0) status = 'unpaid';
+    else if (amountPaid < amountOwed) status = 'partially_paid';
+    else if (amountPaid > amountOwed) status = 'overpaid';
+    else status = 'paid';
+    return { status, amountPaid, balanceDue };
+  }
+
+  const legacyMethod = orderData?.paymentInfo?.paymentMethod;
+  if (legacyMethod === 'Refunded') return { status: 'refunded', amountPaid: 0, balanceDue: 0 };
+  if (LEGACY_PAID_METHODS.includes(legacyMethod) || (legacyMethod === 'COD' && orderData?.status === 'Delivered')) {
+    const orderTotal = typeof orderData?.totalAmount === 'number' ? orderData.totalAmount : 0;
+    return { status: 'paid', amountPaid: orderTotal, balanceDue: 0 };
+  }
+  return { status: 'unpaid', amountPaid: 0, balanceDue: amountOwed };
+}
+
+// --- Location stock ---
+// Mirrors src/lib/inventory/location-stock.ts: `stockByLocation` splits `stock` between locations, and
+// stock not in the map (items from before locations) counts as the default location's.
+const DEFAULT_LOCATION_ID = 'main';
+
+type LocationStock = Record<string, number>;
+
+function getLocationStock(itemData: any): LocationStock {
+  const byLocation: LocationStock = {};
+  Object.entries(itemData?.stockByLocation || {}).forEach(([locationId, units]) => {
+    if (typeof units === 'number' && units > 0) byLocation[locationId] = units;
+  });
+  const assigned = Object.values(byLocation).reduce((sum, units) => sum + units, 0);
+  const stock = typeof itemData?.stock === 'number' ? itemData.stock : 0;
+  if (stock > assigned) {
+    byLocation[DEFAULT_LOCATION_ID] = (byLocation[DEFAULT_LOCATION_ID] || 0) + stock - assigned;
+  }
+  return byLocation;
+}
+
+// Where an order's committed units came from, and where its current items should be taken from.
+// Goods that have left (or a refund) stay charged to the location they left from.
+function getOrderLocations(orderData: any): { from: string; to: string } {
+  const from = orderData?.stockLocationId || orderData?.fulfillmentLocationId || DEFAULT_LOCATION_ID;
+  const isDeparted = DEPARTED_ORDER_STATUSES.includes(orderData?.status);
+  return { from, to: isDeparted ? from : (orderData?.fulfillmentLocationId || from) };
+}
+
+// Moves inventory from `committed` (held at `locations.from`) to `target` (taken from `locations.to`)
+// and returns what is committed afterwards. A location's stock is clamped at 0 (as before); units that
+// couldn't be taken stay uncommitted, so cancelling later never returns more than was removed.
+// When the order's location changes, everything committed goes back to the old location first.
+function applyStockDelta(
+  transaction: admin.firestore.Transaction,
+  orderId: string,
+  inventoryDocs: InventorySnapshots,
+  committed: StockCommitment,
+  target: StockCommitment,
+  locations: { from: string; to: string },
+  details: { event: OrderStockEvent; orderStatus: string | null; actor: any; orderUpdatedAt: any }
+): { committed: StockCommitment; movements: Record<string, any>[] } {
+  const isMove = locations.from !== locations.to;
+  const doorIds = Array.from(new Set([...Object.keys(committed), ...Object.keys(target)]))
+    .filter((doorId) => isMove || (target[doorId] || 0) !== (committed[doorId] || 0));
+
+  const nextCommitted: StockCommitment = { ...committed };
+  const movements: Record<string, any>[] = [];
+
+  doorIds.forEach((doorId) => {
+    const inventoryDoc = inventoryDocs.get(doorId);
+    if (!inventoryDoc?.exists) {
+      console.error(`[Order: ${orderId}] Inventory item '${doorId}' not found in 'inventory' collection. Cannot adjust stock.`);
+      return;
+    }
+
+    const currentStock = inventoryDoc.data()?.stock;
+    if (typeof currentStock !== 'number' || !Number.isInteger(currentStock)) {
+      console.error(`[Order: ${orderId}] Inventory item '${doorId}' has invalid stock data type or value: ${currentStock}. Cannot adjust stock.`);
+      return;
+    }
+
+    // Negative takes stock, positive returns it
+    const changes: { locationId: string; requested: number }[] = isMove
+      ? [{ locationId: locations.from, requested: committed[doorId] || 0 }, { locationId: locations.to, requested: -(target[doorId] || 0) }]
+      : [{ locationId: locations.to, requested: (committed[doorId] || 0) - (target[doorId] || 0) }];
+
+    const byLocation = getLocationStock(inventoryDoc.data());
+    let stock = currentStock;
+    let committedUnits = committed[doorId] || 0;
+    changes.forEach(({ locationId, requested }) => {
+      if (requested === 0) return;
+      const before = byLocation[locationId] || 0;
+      const after = Math.max(0, before + requested);
+      const applied = after - before;
+      if (applied !== requested) {
+        console.warn(`[Order: ${orderId}] Inventory item '${doorId}': Requested change ${requested} exceeds stock at '${locationId}' (${before}). Setting it to 0.`);
+      }
+      if (applied === 0) return;
+      if (after > 0) byLocation[locationId] = after; else delete byLocation[locationId];
+
+      console.log(`[Order: ${orderId}] Inventory item '${doorId}': Adjusting stock at '${locationId}' from ${before} to ${after} (${details.event}).`);
+      movements.push({
+        inventoryId: doorId,
+        type: applied < 0 ? 'sale' : 'cancellation_restock',
+        quantity: applied,
+        requestedQuantity: requested,
+        balanceBefore: stock,
+        balanceAfter: stock + applied,
+        locationId,
+        orderId,
+        orderEvent: details.event,
+        orderStatus: details.orderStatus,
+        actor: details.actor ?? null, // The order's updatedBy/createdBy at the time of the write
+        orderUpdatedAt: details.orderUpdatedAt ?? null, // Matches the audit entry for the order edit
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      stock += applied;
+      committedUnits -= applied;
+    });
+
+    if (stock === currentStock && !isMove) return;
+    transaction.update(inventoryDoc.ref, {
+      stock,
+      stockByLocation: byLocation,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    if (committedUnits > 0) {
+      nextCommitted[doorId] = committedUnits;
+    } else {
+      delete nextCommitted[doorId];
+    }
+  });
+
+  return { committed: nextCommitted, movements };
+}
+
+// Moves the items' `reserved` counters from `reserved` to `targetReserved`
+function applyReservedDelta(
+  transaction: admin.firestore.Transaction,
+  orderId: string,
+  inventoryDocs: InventorySnapshots,
+  reserved: StockCommitment,
+  targetReserved: StockCommitment
+) {
+  const doorIds = new Set([...Object.keys(reserved), ...Object.keys(targetReserved)]);
+  doorIds.forEach((doorId) => {
+    const delta = (targetReserved[doorId] || 0) - (reserved[doorId] || 0);
+    const inventoryDoc = inventoryDocs.get(doorId);
+    if (delta === 0 || !inventoryDoc?.exists) return;
+    const currentReserved = inventoryDoc.data()?.reserved;
+    const newReserved = Math.max(0, (typeof currentReserved === 'number' ? currentReserved : 0) + delta);
+    console.log(`[Order: ${orderId}] Inventory item '${doorId}': Reserved ${currentReserved ?? 0} -> ${newReserved}.`);
+    transaction.update(inventoryDoc.ref, { reserved: newReserved });
+  });
+}
+
+const isSameCommitment = (a: StockCommitment, b: StockCommitment): boolean => {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return Array.from(keys).every((key) => (a[key] || 0) === (b[key] || 0));
+};
+
+// Brings an existing order's stock in line with its current document. Re-reads the order inside
+// the transaction so overlapping triggers see each other's `stockCommitted`. `fallbackCommitted` is
+// used for orders that don't have the field yet (new orders, or legacy orders before this write).
+async function syncOrderStock(orderId: string, event: OrderStockEvent, fallbackCommitted: StockCommitment) {
+  const orderRef = db.collection("orders").doc(orderId);
+
+  return db.runTransaction(async (transaction) => {
+    const orderDoc = await transaction.get(orderRef);
+    if (!orderDoc.exists) {
+      console.log(`[Order: ${orderId}] Order no longer exists. Stock is released by the delete trigger.`);
+      return;
+    }
+    const orderData = orderDoc.data()!;
+
+    const hasCommitmentField = !!orderData.stockCommitted;
+    const committed = hasCommitmentField ? { ...orderData.stockCommitted } : fallbackCommitted;
+    const target = getTargetStock(orderId, orderData, committed);
+    const reserved: StockCommitment = orderData.stockReserved || {};
+
+    const locations = getOrderLocations(orderData);
+    const inventoryDocs = await readInventoryDocs(transaction, committed, target, reserved);
+    const result = applyStockDelta(transaction, orderId, inventoryDocs, committed, target, locations, {
+      event,
+      orderStatus: orderData.status ?? null,
+      actor: orderData.updatedBy ?? orderData.createdBy,
+      orderUpdatedAt: orderData.updatedAt ?? orderData.orderDate,
+    });
+    result.movements.forEach((movement) => transaction.set(db.collection("stockMovements").doc(), movement));
+
+    // Unpaid orders hold their stock as a reservation until payment, cancellation or expiry
+    const targetReserved = orderData.status === 'Pending Payment' ? result.committed : {};
+    applyReservedDelta(transaction, orderId, inventoryDocs, reserved, targetReserved);
+
+    // Only write what changed; this also stops our own writes from looping through the update trigger
+    const orderUpdate: Record<string, any> = {};
+    if (!hasCommitmentField || !isSameCommitment(committed, result.committed)) {
+      orderUpdate.stockCommitted = result.committed;
+    }
+    if (!isSameCommitment(reserved, targetReserved)) {
+      orderUpdate.stockReserved = targetReserved;
+    }
+    if (orderData.stockLocationId !== locations.to) {
+      orderUpdate.stockLocationId = locations.to;
+    }
+    const isReserving = Object.keys(targetReserved).length > 0;
+    if (isReserving && !orderData.reservationExpiresAt) {
+      orderUpdate.reservationExpiresAt = admin.firestore.Timestamp.fromMillis(Date.now() + RESERVATION_EXPIRY_HOURS * 60 * 60 * 1000);
+    } else if (!isReserving && orderData.reservationExpiresAt) {
+      orderUpdate.reservationExpiresAt = admin.firestore.FieldValue.delete();
+    }
+    if (Object.keys(orderUpdate).length > 0) {
+      transaction.update(orderRef, orderUpdate);
+    }
+    console.log(`[Order: ${orderId}] Stock sync committed with ${result.movements.length} movement(s).`);
+  });
+}
+
+
 // --- Function to DECREASE stock when an order is CREATED ---
 // This function will now be triggered whenever *any* new order document is created
 // in the 'orders' collection, including orders placed from your E-commerce app.
@@ -25,90 +366,24 @@ export const decreaseInventoryOnOrderCreate = functions.firestore
 
     console.log(`[Order: ${orderId}] New order detected. Processing stock decrease...`);
 
-    if (!orderData || !orderData.items || !Array.isArray(orderData.items) || orderData.items.length === 0) {
-      console.log(`[Order: ${orderId}] Order has no valid items array. No stock decrease needed.`);
-      return null;
+    // Orders written outside the app (e.g. the e-commerce site) must also start in an initial status.
+    // The reset is marked like a rejected transition so handleOrderUpdate lets it through as our own
+    // correction instead of checking (and reverting) it as a move out of the illegal status.
+    // Such orders may also come without the stored payment summary, which is filled in here.
+    const createUpdate: Record<string, any> = {};
+    if (orderData?.status && !INITIAL_ORDER_STATUSES.includes(orderData.status)) {
+      console.warn(`[Order: ${orderId}] Created with status '${orderData.status}', which is not an initial status. Resetting to 'Pending Payment'.`);
+      createUpdate.status = 'Pending Payment';
+      createUpdate.statusTransitionRejected = { from: 'Pending Payment', to: orderData.status, at: admin.firestore.FieldValue.serverTimestamp() };
+    }
+    if (createUpdate.status || !orderData?.payment?.status) {
+      createUpdate.payment = getOrderPaymentSummary({ ...orderData, ...createUpdate });
+    }
+    if (Object.keys(createUpdate).length > 0) {
+      await snap.ref.update(createUpdate);
     }
 
-    console.log(`[Order: ${orderId}] Found ${orderData.items.length} item(s) in the order.`);
-
-    // Use a transaction for atomic updates
-    return db.runTransaction(async (transaction) => {
-      const updatePromises: Promise<void>[] = [];
-
-      for (const [index, item] of orderData.items.entries()) {
-        console.log(`[Order: ${orderId}] Processing item ${index + 1}/${orderData.items.length}...`);
-
-        // Use 'doorId' to match the inventory item ID
-        const inventoryItemId = item.doorId;
-        const orderedQuantity = item.quantity;
-
-        console.log(`[Order: ${orderId}] Item ${index + 1}: Attempting to use doorId: '${inventoryItemId}', quantity: ${orderedQuantity}`);
-
-        if (!inventoryItemId || typeof inventoryItemId !== 'string' || inventoryItemId.trim() === '') {
-          console.warn(`[Order: ${orderId}] Item ${index + 1}: Skipping stock decrease due to invalid or missing doorId.`);
-          continue;
-        }
-         if (typeof orderedQuantity !== 'number' || !Number.isInteger(orderedQuantity) || orderedQuantity <= 0) {
-           console.warn(`[Order: ${orderId}] Item ${index + 1} (doorId: ${inventoryItemId}): Skipping stock decrease due to invalid quantity: ${orderedQuantity}. Must be a positive integer.`);
-           continue;
-         }
-
-        const inventoryItemRef = db.collection("inventory").doc(inventoryItemId);
-
-        try {
-            console.log(`[Order: ${orderId}] Item ${index + 1}: Getting inventory document: inventory/${inventoryItemId}`);
-            const inventoryDoc = await transaction.get(inventoryItemRef);
-
-            if (!inventoryDoc.exists) {
-              console.error(`[Order: ${orderId}] Item ${index + 1}: Inventory item '${inventoryItemId}' not found in 'inventory' collection. Cannot decrease stock. Check if doorId is correct.`);
-              // Decide how to handle: Continue? Throw error to fail transaction?
-              // Continuing for now, but this should be monitored.
-              continue;
-            }
-
-            const inventoryData = inventoryDoc.data();
-            const currentStock = inventoryData?.stock;
-
-            console.log(`[Order: ${orderId}] Item ${index + 1} (doorId: ${inventoryItemId}): Found inventory item. Current stock: ${currentStock}`);
-
-            if (typeof currentStock !== 'number' || !Number.isInteger(currentStock)) {
-               console.error(`[Order: ${orderId}] Item ${index + 1} (doorId: ${inventoryItemId}): Inventory item has invalid stock data type or value: ${currentStock}. Cannot decrease stock.`);
-               continue; // Skip this item
-            }
-
-            const newStock = currentStock - orderedQuantity;
-
-            if (newStock < 0) {
-                // This should ideally be prevented by checks in the ordering system (Ecomm app)
-                console.warn(`[Order: ${orderId}] Item ${index + 1} (doorId: ${inventoryItemId}): Order quantity (${orderedQuantity}) exceeds current stock (${currentStock}). Setting stock to 0.`);
-                 updatePromises.push(
-                   transaction.update(inventoryItemRef, {
-                     stock: 0,
-                     // Consider adding an 'outOfStock' flag or similar
-                     updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-                   })
-                 );
-            } else {
-                console.log(`[Order: ${orderId}] Item ${index + 1} (doorId: ${inventoryItemId}): Decreasing stock from ${currentStock} to ${newStock}.`);
-                updatePromises.push(
-                  transaction.update(inventoryItemRef, {
-                    stock: newStock,
-                    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-                  })
-                );
-            }
-        } catch (error) {
-            console.error(`[Order: ${orderId}] Item ${index + 1} (doorId: ${inventoryItemId}): Error processing item in transaction:`, error);
-            // Throw the error to abort the transaction if any single item fails critically
-            throw new Error(`[Order: ${orderId}] Failed to process stock for item ${inventoryItemId}`);
-        }
-      } // end for loop
-
-      await Promise.all(updatePromises);
-      console.log(`[Order: ${orderId}] Transaction committed. Inventory successfully updated for new order.`);
-
-    }).catch(error => {
+    return syncOrderStock(orderId, 'order_created', {}).catch(error => {
       console.error(`[Order: ${orderId}] Stock decrease transaction failed:`, error);
       // Consider adding retry logic or logging for monitoring
       return null; // Indicate failure, but don't crash the function execution unless necessary
@@ -116,94 +391,132 @@ export const decreaseInventoryOnOrderCreate = functions.firestore
   });
 
 
-// --- Existing Function to RESTOCK inventory when an order is CANCELLED ---
-// Ensure this function also uses 'doorId' correctly.
-export const restockInventoryOnOrderCancel = functions.firestore
+// --- Enforce order status transitions and keep stock in line with the order ---
+// Illegal status changes (e.g. written directly by another app) are reverted. The revert (like the reset
+// of an order created in a non-initial status) records `statusTransitionRejected` so the follow-up
+// update isn't treated as a new transition.
+// Every other update (item edits, cancel, reopen) moves stock by the change in the order's items.
+export const handleOrderUpdate = functions.firestore
   .document("orders/{orderId}")
   .onUpdate(async (change, context) => {
     const beforeData = change.before.data();
     const afterData = change.after.data();
     const orderId = context.params.orderId;
 
-    // Check if status changed to 'Cancelled'
-    if (beforeData?.status !== 'Cancelled' && afterData?.status === 'Cancelled') {
-      console.log(`[Order: ${orderId}] Order status changed to 'Cancelled'. Processing inventory restock...`);
-
-      if (!afterData.items || !Array.isArray(afterData.items) || afterData.items.length === 0) {
-        console.log(`[Order: ${orderId}] Cancelled order has no valid items array. No restock needed.`);
-        return null;
+    const fromStatus = beforeData?.status;
+    const toStatus = afterData?.status;
+
+    if (fromStatus && toStatus && fromStatus !== toStatus) {
+      // Skip the status check for the update produced by our own revert
+      const rejection = afterData.statusTransitionRejected;
+      const previousRejection = beforeData.statusTransitionRejected;
+      const isOwnRevert = rejection && rejection.from === toStatus && rejection.to === fromStatus &&
+        !(previousRejection?.at && rejection.at && previousRejection.at.isEqual(rejection.at));
+
+      if (isOwnRevert) {
+        console.log(`[Order: ${orderId}] Status reverted to ${toStatus} after rejected transition.`);
+      } else if (!isOrderTransitionAllowed(fromStatus, toStatus)) {
+        // Stock is left alone; it's synced when the revert comes back through this trigger
+        console.warn(`[Order: ${orderId}] Illegal status transition ${fromStatus} -> ${toStatus}. Reverting.`);
+        return change.after.ref.update({
+          status: fromStatus,
+          payment: getOrderPaymentSummary({ ...afterData, status: fromStatus }),
+          statusTransitionRejected: { from: fromStatus, to: toStatus, at: admin.firestore.FieldValue.serverTimestamp() },
+        });
       }
-       console.log(`[Order: ${orderId}] Found ${afterData.items.length} item(s) in the cancelled order.`);
-
-      // Use a transaction for atomic updates
-      return db.runTransaction(async (transaction) => {
-        const updatePromises: Promise<void>[] = [];
-
-        for (const [index, item] of afterData.items.entries()) {
-           console.log(`[Order: ${orderId}] Processing item ${index + 1}/${afterData.items.length} for restock...`);
-          const inventoryItemId = item.doorId; // Use doorId
-          const orderedQuantity = item.quantity;
-
-          console.log(`[Order: ${orderId}] Item ${index + 1}: Attempting restock for doorId: '${inventoryItemId}', quantity: ${orderedQuantity}`);
-
-          if (!inventoryItemId || typeof inventoryItemId !== 'string' || inventoryItemId.trim() === '') {
-            console.warn(`[Order: ${orderId}] Item ${index + 1}: Skipping restock due to invalid or missing doorId.`);
-            continue;
-          }
-           if (typeof orderedQuantity !== 'number' || !Number.isInteger(orderedQuantity) || orderedQuantity <= 0) {
-             console.warn(`[Order: ${orderId}] Item ${index + 1} (doorId: ${inventoryItemId}): Skipping restock due to invalid quantity: ${orderedQuantity}. Must be a positive integer.`);
-             continue;
-           }
-
-          const inventoryItemRef = db.collection("inventory").doc(inventoryItemId);
-
-          try {
-              console.log(`[Order: ${orderId}] Item ${index + 1}: Getting inventory document: inventory/${inventoryItemId}`);
-              const inventoryDoc = await transaction.get(inventoryItemRef);
-
-              if (!inventoryDoc.exists) {
-                // If item doesn't exist anymore, we can't restock it. Log an error.
-                console.error(`[Order: ${orderId}] Item ${index + 1}: Inventory item '${inventoryItemId}' not found in 'inventory' collection. Cannot restock.`);
-                continue; // Skip this item
-              }
-
-              const inventoryData = inventoryDoc.data();
-              const currentStock = inventoryData?.stock;
-
-              console.log(`[Order: ${orderId}] Item ${index + 1} (doorId: ${inventoryItemId}): Found inventory item. Current stock: ${currentStock}`);
-
-              if (typeof currentStock !== 'number' || !Number.isInteger(currentStock)) {
-                 console.error(`[Order: ${orderId}] Item ${index + 1} (doorId: ${inventoryItemId}): Inventory item has invalid stock data type or value: ${currentStock}. Cannot restock.`);
-                 continue; // Skip this item
-              }
-
-              const newStock = currentStock + orderedQuantity; // Add back the quantity
-
-              console.log(`[Order: ${orderId}] Item ${index + 1} (doorId: ${inventoryItemId}): Restocking inventory from ${currentStock} to ${newStock}.`);
-
-              updatePromises.push(
-                transaction.update(inventoryItemRef, {
-                  stock: newStock,
-                  updatedAt: admin.firestore.FieldValue.serverTimestamp(), // Use Admin SDK timestamp
-                })
-              );
-          } catch (error) {
-               console.error(`[Order: ${orderId}] Item ${index + 1} (doorId: ${inventoryItemId}): Error processing item in restock transaction:`, error);
-               throw new Error(`[Order: ${orderId}] Failed to process restock for item ${inventoryItemId}`);
-          }
-        } // end for loop
-
-        await Promise.all(updatePromises);
-        console.log(`[Order: ${orderId}] Transaction committed. Inventory successfully restocked for cancelled order.`);
-      }).catch(error => {
-        console.error(`[Order: ${orderId}] Restock transaction failed:`, error);
-        return null;
-      });
-    } else {
-      // Status did not change to 'Cancelled' or other irrelevant update
-      // console.log(`Order ${orderId} update detected, but not a cancellation to 'Cancelled'. No restock needed.`);
+    }
+
+    const releasedAt = afterData?.reservationReleasedAt;
+    const isRelease = !!releasedAt && !(beforeData?.reservationReleasedAt && beforeData.reservationReleasedAt.isEqual(releasedAt));
+    const event = isRelease ? 'reservation_released' : getOrderStockEvent(fromStatus, toStatus);
+    return syncOrderStock(orderId, event, getCommittedStock(orderId, beforeData)).catch(error => {
+      console.error(`[Order: ${orderId}] Stock adjustment transaction failed:`, error);
+      return null;
+    });
+  });
+
+
+// --- Return committed stock when an order is DELETED ---
+export const restockInventoryOnOrderDelete = functions.firestore
+  .document("orders/{orderId}")
+  .onDelete(async (snap, context) => {
+    const orderData = snap.data();
+    const orderId = context.params.orderId;
+
+    if (DEPARTED_ORDER_STATUSES.includes(orderData?.status)) {
+      console.warn(`[Order: ${orderId}] Deleted order was '${orderData.status}'; its goods have left the showroom, so stock is not returned.`);
+      return null;
+    }
+
+    const committed = getCommittedStock(orderId, orderData);
+    const reserved: StockCommitment = orderData?.stockReserved || {};
+    if (Object.keys(committed).length === 0 && Object.keys(reserved).length === 0) {
+      console.log(`[Order: ${orderId}] Deleted order held no stock. No restock needed.`);
       return null;
     }
+
+    console.log(`[Order: ${orderId}] Order deleted. Returning committed stock...`);
+    return db.runTransaction(async (transaction) => {
+      const inventoryDocs = await readInventoryDocs(transaction, committed, reserved);
+      applyReservedDelta(transaction, orderId, inventoryDocs, reserved, {});
+      const { from } = getOrderLocations(orderData);
+      const result = applyStockDelta(transaction, orderId, inventoryDocs, committed, {}, { from, to: from }, {
+        event: 'order_deleted',
+        orderStatus: orderData?.status ?? null,
+        actor: orderData?.updatedBy ?? orderData?.createdBy,
+        orderUpdatedAt: orderData?.updatedAt ?? orderData?.orderDate,
+      });
+      result.movements.forEach((movement) => transaction.set(db.collection("stockMovements").doc(), movement));
+      console.log(`[Order: ${orderId}] Transaction committed. Returned stock for ${result.movements.length} item(s).`);
+    }).catch(error => {
+      console.error(`[Order: ${orderId}] Restock transaction failed:`, error);
+      return null;
+    });
   });
 
-    
\ No newline at end of file
+
+// --- Release expired reservations ---
+// A 'Pending Payment' order whose reservation has run out keeps its status and payment, but gives its
+// stock back: its lines are put on backorder, and the update trigger's stock sync then returns the units
+// (with ledger entries) and clears the reservation. Once paid, the lines are filled like any backorder.
+export const expireStockReservations = functions.pubsub
+  .schedule("every 30 minutes")
+  .onRun(async () => {
+    const now = admin.firestore.Timestamp.now();
+    // Range on one field only (no composite index); the status is checked per order
+    const expiredSnap = await db.collection("orders").where("reservationExpiresAt", "<=", now).get();
+
+    let released = 0;
+    for (const orderDoc of expiredSnap.docs) {
+      try {
+        const isReleased = await db.runTransaction(async (transaction) => {
+          const orderSnap = await transaction.get(orderDoc.ref);
+          const orderData = orderSnap.data();
+          if (!orderData || orderData.status !== 'Pending Payment') return false;
+          const expiresAt = orderData.reservationExpiresAt;
+          if (!expiresAt || expiresAt.toMillis() > now.toMillis()) return false;
+
+          // Made-to-order lines never held stock; every other line now waits for supply in full
+          const items = (Array.isArray(orderData.items) ? orderData.items : []).map((item: any) =>
+            ['made_to_order', 'ready'].includes(item?.fulfillmentState) || !(item?.quantity > 0)
+              ? item
+              : { ...item, backorderedQuantity: item.quantity, fulfillmentState: 'backordered' }
+          );
+          transaction.update(orderDoc.ref, {
+            items,
+            reservationReleasedAt: admin.firestore.FieldValue.serverTimestamp(),
+            reservationExpiresAt: admin.firestore.FieldValue.delete(),
+            payment: getOrderPaymentSummary(orderData), // Unchanged unless the order predates the stored summary
+            updatedBy: { id: 'system', name: 'Reservation expiry' },
+            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+          });
+          return true;
+        });
+        if (isReleased) released++;
+      } catch (error) {
+        console.error(`[Order: ${orderDoc.id}] Failed to release an expired reservation:`, error);
+      }
+    }
+    console.log(`Reservation expiry: released stock for ${released} of ${expiredSnap.size} order(s) past their reservation.`);
+    return null;
+  });
@@ -0,0 +1,99 @@
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import { Home, History, AlertTriangle } from 'lucide-react';
+import Link from 'next/link';
+import { db, collection, getDocs } from '@/lib/firebase/firebase';
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import { getAuditLog, type AuditLogFilters } from '@/lib/audit';
+import { AuditEntityTypeEnum } from '@/schemas/audit';
+import { AuditFilters } from "@/components/audit/audit-filters";
+import { AuditHistory } from "@/components/audit/audit-history";
+
+type AuditSearchParams = { entity?: string; entityId?: string; user?: string; from?: string; to?: string };
+
+// Staff list for the "User" filter
+async function getUserOptions(): Promise<{ id: string; name: string }[]> {
+  if (!db) return [];
+  try {
+    const snapshot = await getDocs(collection(db, 'users'));
+    return snapshot.docs
+      .map((docSnap) => ({ id: docSnap.id, name: (docSnap.data().name as string) || docSnap.id }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error("Error fetching users for audit filter:", error);
+    return [];
+  }
+}
+
+// Parses a yyyy-mm-dd date input; `endOfDay` makes the "to" filter inclusive
+function parseDateParam(value: string | undefined, endOfDay = false): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00'}`);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+export default async function AuditLogPage({ searchParams }: { searchParams: Promise<AuditSearchParams> }) {
+  const params = await searchParams;
+  const entityType = AuditEntityTypeEnum.safeParse(params.entity);
+  const filters: AuditLogFilters = {
+    entityType: entityType.success ? entityType.data : undefined,
+    entityId: params.entityId || undefined,
+    actorId: params.user || undefined,
+    from: parseDateParam(params.from),
+    to: parseDateParam(params.to, true),
+  };
+
+  const [{ entries, error }, users] = await Promise.all([getAuditLog(filters), getUserOptions()]);
+
+  return (
+    <div className="container mx-auto py-6 animate-subtle-fade-in space-y-6">
+      {/* Breadcrumbs */}
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild><Link href="/"><Home className="h-4 w-4"/></Link></BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbPage>Audit Log</BreadcrumbPage>
+          </BreadcrumbItem>
+        </BreadcrumbList>
+      </Breadcrumb>
+
+      <h1 className="text-3xl font-semibold text-foreground">Audit Log</h1>
+
+      <Card className="shadow-md border border-border/50">
+        <CardContent className="pt-6">
+          <AuditFilters users={users} />
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Error Loading Audit Log</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card className="shadow-md border border-border/50">
+        <CardHeader>
+          <CardTitle className="text-xl flex items-center gap-2"><History className="h-5 w-5 text-primary" /> Changes</CardTitle>
+          <CardDescription>Showing {entries.length} entr{entries.length === 1 ? 'y' : 'ies'} (at most the 500 most recent that match these filters).</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <AuditHistory entries={entries} showEntity emptyMessage="No audit entries match these filters." />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,72 @@
+import { CustomerForm } from "@/components/customers/customer-form";
+import { ArrowLeft, Home, AlertTriangle } from "lucide-react";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import { getCustomer } from '@/lib/customers/customers';
+
+export default async function EditCustomerPage({ params }: { params: { customerId: string } }) {
+  const { customer, error } = await getCustomer(params.customerId);
+
+  if (error) {
+    return (
+      <div className="container mx-auto py-6 space-y-6">
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Error Loading Customer</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+  if (!customer) {
+    notFound();
+  }
+
+  return (
+    <div className="container mx-auto py-6 animate-subtle-fade-in space-y-6">
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild><Link href="/"><Home className="h-4 w-4"/></Link></BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild><Link href="/customers">Customers</Link></BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild><Link href={`/customers/${customer.id}`}>{customer.name}</Link></BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbPage>Edit</BreadcrumbPage>
+          </BreadcrumbItem>
+        </BreadcrumbList>
+      </Breadcrumb>
+
+      <div className="flex items-center justify-between">
+        <Button variant="outline" size="sm" asChild>
+          <Link href={`/customers/${customer.id}`}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Customer
+          </Link>
+        </Button>
+        <h1 className="text-2xl font-semibold text-foreground hidden md:block">Edit {customer.name}</h1>
+      </div>
+
+      <CustomerForm customer={customer} />
+    </div>
+  );
+}
+
+export const dynamic = 'force-dynamic';
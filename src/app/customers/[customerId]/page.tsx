@@ -0,0 +1,261 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Home, AlertTriangle, User, MapPin, Users, ShoppingCart, Pencil, StickyNote, Landmark, Download } from 'lucide-react';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { format } from 'date-fns';
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { getAuditHistory } from '@/lib/audit';
+import { getCurrentUser } from '@/lib/auth/server';
+import { hasPermission } from '@/lib/auth/permissions';
+import { getCustomer, getCustomerOrders } from '@/lib/customers/customers';
+import { AuditHistory } from "@/components/audit/audit-history";
+import { isOnAccount } from '@/lib/customers/trade-accounts';
+import { CUSTOMER_TYPE_LABELS, PAYMENT_TERMS_LABELS, PRICE_TIERS } from '@/schemas/customer';
+
+export default async function CustomerDetailPage({ params }: { params: { customerId: string } }) {
+  const [{ customer, error }, { orders, stats, error: ordersError }, { entries: historyEntries, error: historyError }, currentUser] = await Promise.all([
+    getCustomer(params.customerId),
+    getCustomerOrders(params.customerId),
+    getAuditHistory('customer', params.customerId),
+    getCurrentUser(),
+  ]);
+
+  if (error) {
+    return (
+      <div className="container mx-auto py-6 space-y-6">
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Error Loading Customer</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+  if (!customer) {
+    notFound();
+  }
+
+  const canManage = hasPermission(currentUser?.role, 'customers:manage');
+  const statCards = [
+    { label: 'Lifetime Value', value: `₹${stats.lifetimeValue.toFixed(2)}`, hint: 'Order totals less returns, leaving out cancelled orders' },
+    { label: 'Open Balance', value: `₹${stats.openBalance.toFixed(2)}`, hint: 'Still to be paid across their orders', highlight: stats.openBalance > 0 },
+    { label: 'Orders', value: String(stats.orderCount) },
+    { label: 'Last Order', value: stats.lastOrderDate ? format(new Date(stats.lastOrderDate), 'PP') : '—' },
+  ];
+  const onAccount = isOnAccount(customer);
+  const availableCredit = customer.creditLimit - stats.openBalance;
+
+  return (
+    <div className="container mx-auto py-6 animate-subtle-fade-in space-y-6">
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild><Link href="/"><Home className="h-4 w-4"/></Link></BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild><Link href="/customers">Customers</Link></BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbPage>{customer.name}</BreadcrumbPage>
+          </BreadcrumbItem>
+        </BreadcrumbList>
+      </Breadcrumb>
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="space-y-1">
+          <h1 className="text-2xl font-semibold text-foreground flex flex-wrap items-center gap-3">
+            {customer.name}
+            <Badge variant="outline">{CUSTOMER_TYPE_LABELS[customer.type]}</Badge>
+            {customer.taxExempt && <Badge variant="secondary">Tax exempt</Badge>}
+            {onAccount && <Badge variant="secondary">On account</Badge>}
+          </h1>
+          {customer.createdAt && (
+            <p className="text-sm text-muted-foreground">Customer since {format(new Date(customer.createdAt), 'PP')}</p>
+          )}
+        </div>
+        {canManage && (
+          <Button size="sm" variant="outline" asChild>
+            <Link href={`/customers/${customer.id}/edit`}><Pencil className="mr-2 h-4 w-4" /> Edit</Link>
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {statCards.map((stat) => (
+          <Card key={stat.label} className="shadow-md border border-border/50">
+            <CardHeader className="pb-2">
+              <CardDescription>{stat.label}</CardDescription>
+              <CardTitle className={`text-2xl ${stat.highlight ? 'text-destructive' : ''}`}>{stat.value}</CardTitle>
+            </CardHeader>
+            {stat.hint && <CardContent className="text-xs text-muted-foreground">{stat.hint}</CardContent>}
+          </Card>
+        ))}
+      </div>
+
+      <Tabs defaultValue="details" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="details">Details</TabsTrigger>
+          <TabsTrigger value="orders">Orders ({orders.length})</TabsTrigger>
+          <TabsTrigger value="history">History ({historyEntries.length})</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="details" className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <Card className="shadow-md">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2"><User className="h-5 w-5 text-muted-foreground" /> Contact Details</CardTitle>
+              </CardHeader>
+              <CardContent className="text-sm space-y-1">
+                <p>{customer.email || <span className="text-muted-foreground">No email</span>}</p>
+                <p>{customer.phone || <span className="text-muted-foreground">No phone</span>}</p>
+                {customer.gstin && <p className="text-muted-foreground">GSTIN: {customer.gstin}</p>}
+                {customer.taxExempt && <p className="text-muted-foreground">Orders and quotes are saved without GST.</p>}
+              </CardContent>
+            </Card>
+            <Card className="shadow-md">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2"><MapPin className="h-5 w-5 text-muted-foreground" /> Addresses</CardTitle>
+              </CardHeader>
+              <CardContent className="text-sm space-y-3">
+                {customer.addresses.length === 0 ? (
+                  <p className="text-muted-foreground italic">No saved addresses.</p>
+                ) : customer.addresses.map((address, index) => (
+                  <div key={index}>
+                    <p className="font-medium">
+                      {address.label || (address.kind === 'billing' ? 'Billing' : 'Shipping')}
+                      {address.label && <span className="ml-2 text-xs font-normal text-muted-foreground">{address.kind === 'billing' ? 'Billing' : 'Shipping'}</span>}
+                    </p>
+                    <p className="text-muted-foreground">{[address.address, address.city, address.state, address.zipCode].join(', ')}</p>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+            <Card className="shadow-md">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2"><Users className="h-5 w-5 text-muted-foreground" /> Contacts</CardTitle>
+              </CardHeader>
+              <CardContent className="text-sm space-y-3">
+                {customer.contacts.length === 0 ? (
+                  <p className="text-muted-foreground italic">No other contacts.</p>
+                ) : customer.contacts.map((contact, index) => (
+                  <div key={index}>
+                    <p className="font-medium">{contact.name}{contact.role && <span className="font-normal text-muted-foreground"> · {contact.role}</span>}</p>
+                    <p className="text-muted-foreground">{[contact.phone, contact.email].filter(Boolean).join(' · ') || '—'}</p>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+            <Card className="shadow-md">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2"><Landmark className="h-5 w-5 text-muted-foreground" /> Trade Account</CardTitle>
+              </CardHeader>
+              <CardContent className="text-sm space-y-3">
+                <div className="grid grid-cols-2 gap-2">
+                  <span className="text-muted-foreground">Price tier</span>
+                  <span>{PRICE_TIERS[customer.priceTier].label}{PRICE_TIERS[customer.priceTier].percentOff > 0 && ` (${PRICE_TIERS[customer.priceTier].percentOff}% off)`}</span>
+                  <span className="text-muted-foreground">Payment terms</span>
+                  <span>{PAYMENT_TERMS_LABELS[customer.paymentTerms]}</span>
+                  {onAccount && (
+                    <>
+                      <span className="text-muted-foreground">Credit limit</span>
+                      <span>₹{customer.creditLimit.toFixed(2)}</span>
+                      <span className="text-muted-foreground">Available credit</span>
+                      <span className={availableCredit < 0 ? 'text-destructive font-medium' : ''}>₹{availableCredit.toFixed(2)}</span>
+                    </>
+                  )}
+                </div>
+                <form action={`/customers/${customer.id}/statement`} className="flex flex-wrap items-center gap-2 border-t pt-3">
+                  <Input type="month" name="period" defaultValue={format(new Date(), 'yyyy-MM')} className="w-44" aria-label="Statement month" />
+                  <Button type="submit" size="sm" variant="outline"><Download className="mr-2 h-4 w-4" /> Statement</Button>
+                </form>
+              </CardContent>
+            </Card>
+            <Card className="shadow-md">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2"><StickyNote className="h-5 w-5 text-muted-foreground" /> Notes</CardTitle>
+              </CardHeader>
+              <CardContent className="text-sm">
+                {customer.notes ? <p className="whitespace-pre-wrap">{customer.notes}</p> : <p className="text-muted-foreground italic">No notes.</p>}
+              </CardContent>
+            </Card>
+          </div>
+        </TabsContent>
+
+        <TabsContent value="orders">
+          <Card className="shadow-md">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2"><ShoppingCart className="h-5 w-5 text-muted-foreground" /> Orders</CardTitle>
+              <CardDescription>
+                Orders placed for this customer, newest first. <Link href={`/orders?customer=${customer.id}`} className="text-primary hover:underline">Filter them in the orders list</Link>
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {ordersError ? (
+                <p className="text-sm text-destructive">{ordersError}</p>
+              ) : orders.length === 0 ? (
+                <p className="text-sm text-muted-foreground italic text-center py-6">No orders for this customer yet.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Order</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Total</TableHead>
+                      <TableHead className="text-right">Balance Due</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {orders.map((order) => (
+                      <TableRow key={order.id}>
+                        <TableCell>
+                          <Link href={`/orders/${order.id}`} className="font-medium hover:underline">{order.id.substring(0, 8)}...</Link>
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">{format(new Date(order.orderDate), 'PP')}</TableCell>
+                        <TableCell><Badge variant="outline" className="whitespace-nowrap">{order.status}</Badge></TableCell>
+                        <TableCell className="text-right">₹{order.totalAmount.toFixed(2)}</TableCell>
+                        <TableCell className={`text-right font-medium ${order.balanceDue > 0 ? 'text-destructive' : ''}`}>₹{order.balanceDue.toFixed(2)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="history">
+          <Card className="shadow-md">
+            <CardHeader>
+              <CardTitle>Change History</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {historyError ? (
+                <p className="text-sm text-destructive">{historyError}</p>
+              ) : (
+                <AuditHistory entries={historyEntries} emptyMessage="No changes recorded for this customer yet." />
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,54 @@
+// Downloads a customer's account statement as a PDF: /customers/<id>/statement?period=YYYY-MM, for the
+// current month without a period.
+
+import { createHash } from 'crypto';
+import { NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/server';
+import { getCustomer } from '@/lib/customers/customers';
+import { getAccountStatement } from '@/lib/customers/statements';
+import { getAccountStatementReference, renderAccountStatementDocument } from '@/lib/documents/order-documents';
+import { parseReportPeriod } from '@/lib/reports/gstr1';
+import { DEFAULT_BRANDING, getBrandingSettings } from '@/lib/settings/branding-settings';
+import { getTaxSettings } from '@/lib/settings/tax-settings';
+
+export async function GET(request: Request, { params }: { params: Promise<{ customerId: string }> }) {
+  const { customerId } = await params;
+  const auth = await authorize();
+  if (!auth.ok) {
+    return NextResponse.json({ message: auth.message, error: auth.error }, { status: auth.error.code === 'unauthenticated' ? 401 : 403 });
+  }
+
+  const { period } = parseReportPeriod(new URL(request.url).searchParams.get('period') ?? undefined);
+  const { customer, error } = await getCustomer(customerId);
+  if (error) return NextResponse.json({ message: error }, { status: 500 });
+  if (!customer) return NextResponse.json({ message: `Customer ${customerId} not found.` }, { status: 404 });
+
+  const { statement, error: statementError } = await getAccountStatement(customerId, period);
+  if (!statement) return NextResponse.json({ message: statementError }, { status: 500 });
+
+  try {
+    const [{ settings: branding }, { settings: taxSettings }] = await Promise.all([getBrandingSettings(), getTaxSettings()]);
+    const source = {
+      customer,
+      statement,
+      branding: branding ?? DEFAULT_BRANDING,
+      sellerGstin: taxSettings?.gstin || undefined,
+    };
+    const pdf = renderAccountStatementDocument(source);
+
+    return new NextResponse(Buffer.from(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${getAccountStatementReference(source)}.pdf"`,
+        'Content-Length': String(pdf.byteLength),
+        'Cache-Control': 'private, no-cache',
+        ETag: `"${createHash('sha256').update(pdf).digest('hex')}"`,
+      },
+    });
+  } catch (error) {
+    console.error(`Error generating the ${period} statement for customer ${customerId}:`, error);
+    return NextResponse.json({ message: "Failed to generate the document." }, { status: 500 });
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,265 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { db, collection, doc, addDoc, getDoc, getDocs, updateDoc, serverTimestamp, writeBatch } from '@/lib/firebase/firebase';
+import { authorize } from '@/lib/auth/server';
+import { hasPermission, type AuthError } from '@/lib/auth/permissions';
+import { recordAudit } from '@/lib/audit';
+import { findMatchingCustomer, isSameAddress, mapCustomer, normalizeEmail, normalizePhone } from '@/lib/customers/customers';
+import { CustomerSchema, type CustomerAddress, type CustomerInput } from '@/schemas/customer';
+import type { SessionUser } from '@/schemas/user';
+
+type CustomerActionResult = { success: boolean; message: string; customerId?: string; errors?: Record<string, any> | null; error?: AuthError };
+
+const MAX_ADDRESSES = 10; // Mirrors CustomerSchema
+const BATCH_SIZE = 400; // Firestore allows 500 writes per batch
+
+const toUserStamp = (user: SessionUser) => ({ id: user.id, name: user.name, role: user.role });
+
+// Empty optional strings are stored as blanks so a cleared field is cleared on update
+function toCustomerData(values: CustomerInput) {
+  return {
+    ...values,
+    email: values.email || '',
+    phone: values.phone || '',
+    gstin: values.gstin || '',
+    notes: values.notes || '',
+    contacts: values.contacts.map((contact) => ({ name: contact.name, role: contact.role || '', email: contact.email || '', phone: contact.phone || '' })),
+    addresses: values.addresses.map((address) => ({ ...address, label: address.label || '' })),
+  };
+}
+
+const DEFAULT_TRADE_TERMS: Pick<CustomerInput, 'priceTier' | 'paymentTerms' | 'creditLimit'> = { priceTier: 'standard', paymentTerms: 'due_on_order', creditLimit: 0 };
+
+// Price tier, payment terms and credit limit are set by whoever manages trade accounts; anyone else saving
+// the customer has to leave them as they were
+function checkTradeTerms(values: CustomerInput, current: Pick<CustomerInput, 'priceTier' | 'paymentTerms' | 'creditLimit'>, user: SessionUser): CustomerActionResult | null {
+  const changed = values.priceTier !== current.priceTier || values.paymentTerms !== current.paymentTerms || values.creditLimit !== current.creditLimit;
+  if (!changed || hasPermission(user.role, 'accounts:manage')) return null;
+  return {
+    success: false,
+    message: "Only someone who manages trade accounts can change a customer's price tier, payment terms or credit limit.",
+    errors: null,
+    error: { code: 'forbidden', permission: 'accounts:manage', role: user.role },
+  };
+}
+
+// Two customers can't share an email or phone number, or orders couldn't be matched to one of them
+async function findDuplicate(values: CustomerInput, excludeId?: string): Promise<{ field: 'email' | 'phone'; name: string } | null> {
+  const snapshot = await getDocs(collection(db!, 'customers'));
+  const others = snapshot.docs.filter((docSnap) => docSnap.id !== excludeId).map((docSnap) => mapCustomer(docSnap.id, docSnap.data()));
+  const email = normalizeEmail(values.email);
+  const phone = normalizePhone(values.phone || undefined);
+  const byEmail = email && others.find((customer) => normalizeEmail(customer.email) === email);
+  if (byEmail) return { field: 'email', name: byEmail.name };
+  const byPhone = phone && others.find((customer) => normalizePhone(customer.phone) === phone);
+  return byPhone ? { field: 'phone', name: byPhone.name } : null;
+}
+
+export async function createCustomerAction(values: CustomerInput): Promise<CustomerActionResult> {
+  if (!db) return { success: false, message: "Database configuration error.", errors: null };
+
+  const auth = await authorize('customers:manage');
+  if (!auth.ok) return { success: false, message: auth.message, errors: null, error: auth.error };
+
+  const validationResult = CustomerSchema.safeParse(values);
+  if (!validationResult.success) {
+    return { success: false, message: "Validation failed. Please check the form fields.", errors: validationResult.error.flatten().fieldErrors };
+  }
+  const customerData = toCustomerData(validationResult.data);
+  const tradeTermsError = checkTradeTerms(validationResult.data, DEFAULT_TRADE_TERMS, auth.user);
+  if (tradeTermsError) return tradeTermsError;
+
+  try {
+    const duplicate = await findDuplicate(validationResult.data);
+    if (duplicate) {
+      const message = `${duplicate.name} already has this ${duplicate.field === 'email' ? 'email' : 'phone number'}.`;
+      return { success: false, message, errors: { [duplicate.field]: [message] } };
+    }
+
+    const docRef = await addDoc(collection(db, 'customers'), {
+      ...customerData,
+      createdBy: toUserStamp(auth.user),
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+    await recordAudit({
+      actor: auth.user,
+      entityType: 'customer',
+      entityId: docRef.id,
+      entityLabel: customerData.name,
+      action: 'create',
+      before: null,
+      after: customerData,
+    });
+
+    revalidatePath('/customers');
+    return { success: true, message: `Customer "${customerData.name}" added.`, customerId: docRef.id, errors: null };
+  } catch (error) {
+    console.error("Error creating customer:", error);
+    return { success: false, message: "Failed to add the customer. Please try again.", errors: null };
+  }
+}
+
+export async function updateCustomerAction(customerId: string, values: CustomerInput): Promise<CustomerActionResult> {
+  if (!db) return { success: false, message: "Database configuration error.", errors: null };
+  if (!customerId) return { success: false, message: "Customer ID is required.", errors: null };
+
+  const auth = await authorize('customers:manage');
+  if (!auth.ok) return { success: false, message: auth.message, errors: null, error: auth.error };
+
+  const validationResult = CustomerSchema.safeParse(values);
+  if (!validationResult.success) {
+    return { success: false, message: "Validation failed. Please check the form fields.", errors: validationResult.error.flatten().fieldErrors };
+  }
+  const customerData = toCustomerData(validationResult.data);
+
+  try {
+    const customerRef = doc(db, 'customers', customerId);
+    const existingSnap = await getDoc(customerRef);
+    if (!existingSnap.exists()) return { success: false, message: "Customer not found.", errors: null };
+    const tradeTermsError = checkTradeTerms(validationResult.data, mapCustomer(customerId, existingSnap.data()), auth.user);
+    if (tradeTermsError) return tradeTermsError;
+
+    const duplicate = await findDuplicate(validationResult.data, customerId);
+    if (duplicate) {
+      const message = `${duplicate.name} already has this ${duplicate.field === 'email' ? 'email' : 'phone number'}.`;
+      return { success: false, message, errors: { [duplicate.field]: [message] } };
+    }
+
+    const updateData = { ...customerData, updatedBy: toUserStamp(auth.user), updatedAt: serverTimestamp() };
+    await updateDoc(customerRef, updateData);
+    await recordAudit({
+      actor: auth.user,
+      entityType: 'customer',
+      entityId: customerId,
+      entityLabel: customerData.name,
+      action: 'update',
+      before: existingSnap.data(),
+      after: updateData,
+    });
+
+    revalidatePath('/customers');
+    revalidatePath(`/customers/${customerId}`);
+    return { success: true, message: `Customer "${customerData.name}" updated.`, customerId, errors: null };
+  } catch (error) {
+    console.error(`Error updating customer ${customerId}:`, error);
+    return { success: false, message: "Failed to update the customer. Please try again.", errors: null };
+  }
+}
+
+// Links orders that have no customer (older orders, or ones where none was picked) to the customer with
+// the same email, or failing that the same phone number. Orders nobody matches start a new retail
+// customer from their shipping details, and each order's address is saved on its customer if it's new.
+// Orders with neither an email nor a phone number are left alone. Safe to run again.
+export async function matchOrdersToCustomersAction(): Promise<{ success: boolean; message: string; linked?: number; created?: number; error?: AuthError }> {
+  if (!db) return { success: false, message: "Database configuration error." };
+  const firestore = db;
+
+  const auth = await authorize('customers:manage');
+  if (!auth.ok) return { success: false, message: auth.message, error: auth.error };
+
+  try {
+    const [customersSnap, ordersSnap] = await Promise.all([getDocs(collection(firestore, 'customers')), getDocs(collection(firestore, 'orders'))]);
+    const customers = customersSnap.docs.map((docSnap) => ({
+      ...mapCustomer(docSnap.id, docSnap.data()),
+      isNew: false,
+      addressesChanged: false,
+      orderIds: [] as string[],
+    }));
+
+    // Newest first, so a customer started from several orders takes the latest name and details
+    const unlinkedOrders = ordersSnap.docs
+      .filter((orderDoc) => !orderDoc.data().customerId && orderDoc.data().shippingInfo)
+      .sort((a, b) => (b.data().orderDate?.toMillis?.() ?? 0) - (a.data().orderDate?.toMillis?.() ?? 0));
+    let skipped = 0;
+
+    for (const orderDoc of unlinkedOrders) {
+      const shippingInfo = orderDoc.data().shippingInfo;
+      if (!normalizeEmail(shippingInfo.email) && !normalizePhone(shippingInfo.phone)) {
+        skipped += 1;
+        continue;
+      }
+      let customer = findMatchingCustomer(customers, shippingInfo);
+      if (!customer) {
+        customer = {
+          id: doc(collection(firestore, 'customers')).id,
+          name: shippingInfo.name || 'Unnamed customer',
+          email: shippingInfo.email || '',
+          phone: shippingInfo.phone || '',
+          gstin: shippingInfo.gstin || '',
+          type: 'retail',
+          taxExempt: false,
+          notes: '',
+          contacts: [],
+          addresses: [],
+          ...DEFAULT_TRADE_TERMS,
+          isNew: true,
+          addressesChanged: false,
+          orderIds: [],
+        };
+        customers.push(customer);
+      } else if (customer.isNew) {
+        // Fill in what the newer orders didn't have
+        customer.email ||= shippingInfo.email || '';
+        customer.phone ||= shippingInfo.phone || '';
+        customer.gstin ||= shippingInfo.gstin || '';
+      }
+      const address: CustomerAddress = { kind: 'shipping', label: '', address: shippingInfo.address || '', city: shippingInfo.city || '', state: shippingInfo.state || '', zipCode: shippingInfo.zipCode || '' };
+      const isCompleteAddress = address.address && address.city && address.state && address.zipCode;
+      if (isCompleteAddress && customer.addresses.length < MAX_ADDRESSES && !customer.addresses.some((saved) => isSameAddress(saved, address))) {
+        customer.addresses = [...customer.addresses, address];
+        customer.addressesChanged = true;
+      }
+      customer.orderIds.push(orderDoc.id);
+    }
+
+    const touched = customers.filter((customer) => customer.orderIds.length > 0);
+    const writes: ((batch: ReturnType<typeof writeBatch>) => void)[] = [];
+    for (const customer of touched) {
+      const customerRef = doc(firestore, 'customers', customer.id);
+      if (customer.isNew) {
+        const { isNew, addressesChanged, orderIds, id, ...customerData } = customer;
+        writes.push((batch) => batch.set(customerRef, { ...customerData, createdBy: toUserStamp(auth.user), createdAt: serverTimestamp(), updatedAt: serverTimestamp() }));
+      } else if (customer.addressesChanged) {
+        writes.push((batch) => batch.update(customerRef, { addresses: customer.addresses, updatedBy: toUserStamp(auth.user), updatedAt: serverTimestamp() }));
+      }
+      for (const orderId of customer.orderIds) {
+        writes.push((batch) => batch.update(doc(firestore, 'orders', orderId), { customerId: customer.id }));
+      }
+    }
+    for (let start = 0; start < writes.length; start += BATCH_SIZE) {
+      const batch = writeBatch(firestore);
+      writes.slice(start, start + BATCH_SIZE).forEach((write) => write(batch));
+      await batch.commit();
+    }
+
+    for (const customer of touched) {
+      await recordAudit({
+        actor: auth.user,
+        entityType: 'customer',
+        entityId: customer.id,
+        entityLabel: customer.name,
+        action: customer.isNew ? 'create' : 'update',
+        before: null,
+        after: { linkedOrderIds: customer.orderIds, ...(customer.addressesChanged && { addresses: customer.addresses }) },
+      });
+    }
+
+    const linked = touched.reduce((sum, customer) => sum + customer.orderIds.length, 0);
+    const created = touched.filter((customer) => customer.isNew).length;
+    revalidatePath('/customers');
+    touched.forEach((customer) => revalidatePath(`/customers/${customer.id}`));
+    return {
+      success: true,
+      message: linked === 0 && skipped === 0
+        ? "Every order already has a customer."
+        : `Linked ${linked} order(s), adding ${created} new customer(s).${skipped > 0 ? ` ${skipped} order(s) have no email or phone to match on.` : ''}`,
+      linked,
+      created,
+    };
+  } catch (error) {
+    console.error("Error matching orders to customers:", error);
+    return { success: false, message: "Failed to match orders to customers. Please try again." };
+  }
+}
@@ -0,0 +1,51 @@
+import { CustomerForm } from "@/components/customers/customer-form";
+import { ArrowLeft, Home } from "lucide-react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+
+export default function NewCustomerPage() {
+  return (
+    <div className="container mx-auto py-6 animate-subtle-fade-in space-y-6">
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild><Link href="/"><Home className="h-4 w-4"/></Link></BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild><Link href="/customers">Customers</Link></BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbPage>New Customer</BreadcrumbPage>
+          </BreadcrumbItem>
+        </BreadcrumbList>
+      </Breadcrumb>
+
+      <div className="flex items-center justify-between">
+        <Button variant="outline" size="sm" asChild>
+          <Link href="/customers">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Customers
+          </Link>
+        </Button>
+        <h1 className="text-2xl font-semibold text-foreground hidden md:block">New Customer</h1>
+      </div>
+
+      <CustomerForm />
+    </div>
+  );
+}
+
+export const metadata = {
+  title: 'New Customer | Showroom Manager',
+  description: 'Add a customer to the directory.',
+};
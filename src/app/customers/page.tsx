@@ -0,0 +1,129 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Home, Contact, AlertTriangle, PlusCircle, Search } from 'lucide-react';
+import Link from 'next/link';
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import { getCurrentUser } from '@/lib/auth/server';
+import { hasPermission } from '@/lib/auth/permissions';
+import { getCustomers } from '@/lib/customers/customers';
+import { MatchOrdersButton } from "@/components/customers/match-orders-button";
+import { CUSTOMER_TYPE_LABELS } from '@/schemas/customer';
+
+export default async function CustomersPage({ searchParams }: { searchParams: Promise<{ q?: string }> }) {
+  const { q } = await searchParams;
+  const searchTerm = q?.trim() ?? '';
+  const [{ customers: allCustomers, error }, currentUser] = await Promise.all([getCustomers(), getCurrentUser()]);
+  const canManage = hasPermission(currentUser?.role, 'customers:manage');
+
+  const term = searchTerm.toLowerCase();
+  const customers = term
+    ? allCustomers.filter((customer) => [customer.name, customer.email, customer.phone, customer.gstin].some((value) => value?.toLowerCase().includes(term)))
+    : allCustomers;
+
+  return (
+    <div className="container mx-auto py-6 animate-subtle-fade-in space-y-6">
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild><Link href="/"><Home className="h-4 w-4"/></Link></BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbPage>Customers</BreadcrumbPage>
+          </BreadcrumbItem>
+        </BreadcrumbList>
+      </Breadcrumb>
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h1 className="text-3xl font-semibold text-foreground">Customers</h1>
+        {canManage && (
+          <div className="flex flex-wrap gap-2">
+            <MatchOrdersButton />
+            <Button asChild>
+              <Link href="/customers/new"><PlusCircle className="mr-2 h-4 w-4" /> New Customer</Link>
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Error Loading Customers</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <form action="/customers" className="flex max-w-md gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input name="q" defaultValue={searchTerm} placeholder="Search by name, email, phone or GSTIN" className="pl-8" />
+        </div>
+        <Button type="submit" variant="outline">Search</Button>
+      </form>
+
+      <Card className="shadow-md border border-border/50">
+        <CardHeader>
+          <CardTitle className="text-xl flex items-center gap-2"><Contact className="h-5 w-5 text-primary" /> {searchTerm ? `Customers matching "${searchTerm}"` : 'All Customers'}</CardTitle>
+          <CardDescription>Pick a customer on the order form to fill in their details and save the order to their history.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {customers.length === 0 ? (
+            <p className="text-sm text-muted-foreground italic text-center py-6">
+              {searchTerm ? 'No customers match your search.' : 'No customers yet. Add one, or match existing orders to start the directory.'}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Contact</TableHead>
+                  <TableHead>City</TableHead>
+                  <TableHead className="text-center">Addresses</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {customers.map((customer) => (
+                  <TableRow key={customer.id}>
+                    <TableCell>
+                      <Link href={`/customers/${customer.id}`} className="font-medium hover:underline">{customer.name}</Link>
+                      {customer.gstin && <div className="text-xs text-muted-foreground">GSTIN {customer.gstin}</div>}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        <Badge variant="outline">{CUSTOMER_TYPE_LABELS[customer.type]}</Badge>
+                        {customer.taxExempt && <Badge variant="secondary">Tax exempt</Badge>}
+                        {customer.paymentTerms !== 'due_on_order' && <Badge variant="secondary">On account</Badge>}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {customer.phone && <div>{customer.phone}</div>}
+                      {customer.email && <div className="text-muted-foreground">{customer.email}</div>}
+                      {!customer.phone && !customer.email && <span className="text-muted-foreground">—</span>}
+                    </TableCell>
+                    <TableCell>{customer.addresses[0]?.city || '—'}</TableCell>
+                    <TableCell className="text-center">{customer.addresses.length}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export const dynamic = 'force-dynamic';
@@ -15,6 +15,7 @@ import { db, doc, getDoc, Timestamp } from '@/lib/firebase/firebase';
 import type { AddItemInput } from '@/schemas/inventory';
 import { notFound } from 'next/navigation';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { getSuppliers } from '@/lib/purchasing/suppliers';
 
 // Define the structure of an inventory item including its ID and serializable timestamps
 // Removed imageHint from AddItemInput Omit
@@ -76,7 +77,7 @@ async function getItemForEdit(itemId: string): Promise<{ item: InventoryItem | n
 }
 
 export default async function EditInventoryItemPage({ params }: { params: { itemId: string } }) {
-  const { item, error: fetchError } = await getItemForEdit(params.itemId);
+  const [{ item, error: fetchError }, { suppliers }] = await Promise.all([getItemForEdit(params.itemId), getSuppliers()]);
 
   // Handle fetch error first
   if (fetchError) {
@@ -152,7 +153,7 @@ export default async function EditInventoryItemPage({ params }: { params: { item
        </div>
 
        {/* Edit Form Component - Pass the fetched item data */}
-       <EditItemForm item={item} />
+       <EditItemForm item={item} suppliers={suppliers.map(({ id, name }) => ({ id, name }))} />
     </div>
   );
 }
@@ -4,7 +4,7 @@ import { Card, CardHeader, CardTitle, CardContent, CardDescription, CardFooter }
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
 import Image from 'next/image';
-import { ArrowLeft, Edit, Package, Truck, AlertTriangle, Home, Box, ChevronRight, Tag, Ruler, Weight, Clock, Info } from 'lucide-react'; // Added more icons
+import { ArrowLeft, Edit, Package, Truck, AlertTriangle, Home, Box, ChevronRight, Tag, Ruler, Weight, Clock, Info, History, Boxes, Factory } from 'lucide-react'; // Added more icons
 import Link from 'next/link';
 import { db, doc, getDoc, collection, query, where, getDocs, Timestamp } from '@/lib/firebase/firebase'; // Import Firestore instance and functions
 import type { AddItemInput } from '@/schemas/inventory'; // Import the type for structure
@@ -21,6 +21,20 @@ import {
   BreadcrumbSeparator,
 } from "@/components/ui/breadcrumb" // Import Breadcrumb components
 import { format, formatDistanceToNow } from 'date-fns'; // For formatting dates
+import { getCurrentUser } from '@/lib/auth/server';
+import { hasAnyPermission, INVENTORY_EDIT_PERMISSIONS } from '@/lib/auth/permissions';
+import { getAuditHistory } from '@/lib/audit';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { AuditHistory } from "@/components/audit/audit-history";
+import { getStockMovements, getLedgerBalance } from '@/lib/inventory/stock-ledger';
+import { getSupplier } from '@/lib/purchasing/suppliers';
+import { getReorderPoint, isAtReorderPoint } from '@/lib/inventory/reorder';
+import { getLocationStock } from '@/lib/inventory/location-stock';
+import { getLocations } from '@/lib/inventory/locations';
+import { StockMovementHistory } from "@/components/inventory/stock-movement-history";
+import { StockLedgerActions } from "@/components/inventory/stock-ledger-actions";
+import { StockBalanceLineChart } from "@/components/charts/stock-balance-line-chart";
+import { stockBalanceChartConfig } from "@/components/charts/chart-configs";
 
 // Define the structure of an inventory item including its ID and related data
 // Removed imageHint from AddItemInput Omit
@@ -38,6 +52,9 @@ interface InventoryItem extends Omit<AddItemInput, 'imageHint'> {
   dimensions: string;
   stock: number;
   price: number;
+  landedCost?: number; // Maintained by purchase order receiving
+  stockByLocation?: Record<string, number>; // Splits `stock` between locations
+  inTransit?: number; // Units on dispatched transfer orders
   // Removed imageHint property from interface
 }
 
@@ -177,8 +194,22 @@ const StatusBadge = ({ status }: { status: string }) => {
 
 
 export default async function InventoryItemPage({ params }: { params: { itemId: string } }) {
-  const { item, error: fetchError } = await getItemDetails(params.itemId);
-  const isLowStock = item ? item.stock < 10 : false;
+  const [{ item, error: fetchError }, currentUser, { entries: historyEntries, error: historyError }, { movements, error: movementsError }, { locations }] = await Promise.all([
+    getItemDetails(params.itemId),
+    getCurrentUser(),
+    getAuditHistory('inventory', params.itemId),
+    getStockMovements(params.itemId),
+    getLocations(),
+  ]);
+  const { supplier } = item?.supplierId ? await getSupplier(item.supplierId) : { supplier: null };
+  const canEdit = hasAnyPermission(currentUser?.role, INVENTORY_EDIT_PERMISSIONS);
+  const isLowStock = item ? isAtReorderPoint(item) : false;
+  // Structured days (used for expected ready dates) alongside the free-text note
+  const leadTimeLabel = [typeof item?.leadTimeDays === 'number' ? `${item.leadTimeDays} day(s)` : null, item?.leadTime || null].filter(Boolean).join(' · ') || 'N/A';
+  // The stock field should equal the sum of the ledger; a gap means stock changed outside it (or predates it)
+  const ledgerBalance = getLedgerBalance(movements);
+  const ledgerDifference = item && !movementsError ? item.stock - ledgerBalance : 0;
+  const locationStock = item ? getLocationStock(item) : {};
 
   // Handle fetch error first
   if (fetchError) {
@@ -236,15 +267,25 @@ export default async function InventoryItemPage({ params }: { params: { itemId:
             Back to Inventory
           </Link>
         </Button>
-         {/* Enable Edit Button and link to edit page */}
-         <Button size="sm" asChild>
-           <Link href={`/inventory/${item.id}/edit`}>
-             <Edit className="mr-2 h-4 w-4" />
-             Edit Item
-           </Link>
-         </Button>
+         {/* Edit Button, only for roles that can change some part of the item */}
+         {canEdit && (
+           <Button size="sm" asChild>
+             <Link href={`/inventory/${item.id}/edit`}>
+               <Edit className="mr-2 h-4 w-4" />
+               Edit Item
+             </Link>
+           </Button>
+         )}
       </div>
 
+      <Tabs defaultValue="details" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="details">Details</TabsTrigger>
+          <TabsTrigger value="stock">Stock ({movements.length})</TabsTrigger>
+          <TabsTrigger value="history">History ({historyEntries.length})</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="details">
       <Card className="overflow-hidden shadow-md">
          <div className="grid md:grid-cols-3 gap-0">
            {/* Image Column */}
@@ -289,7 +330,18 @@ export default async function InventoryItemPage({ params }: { params: { itemId:
                         <div className="flex items-center gap-2"><Tag className="h-4 w-4 text-muted-foreground/70"/> <span className="font-medium">SKU:</span> {item.sku}</div>
                         <div className="flex items-center gap-2"><Ruler className="h-4 w-4 text-muted-foreground/70"/> <span className="font-medium">Dimensions:</span> {item.dimensions}</div>
                         <div className="flex items-center gap-2"><Weight className="h-4 w-4 text-muted-foreground/70"/> <span className="font-medium">Weight:</span> {item.weight || 'N/A'}</div>
-                        <div className="flex items-center gap-2"><Clock className="h-4 w-4 text-muted-foreground/70"/> <span className="font-medium">Lead Time:</span> {item.leadTime || 'N/A'}</div>
+                        <div className="flex items-center gap-2"><Clock className="h-4 w-4 text-muted-foreground/70"/> <span className="font-medium">Lead Time:</span> {leadTimeLabel}</div>
+                        <div className="flex items-center gap-2">
+                            <Factory className="h-4 w-4 text-muted-foreground/70"/> <span className="font-medium">Supplier:</span>
+                            {supplier ? <Link href={`/purchasing/suppliers/${supplier.id}`} className="hover:underline">{supplier.name}</Link> : 'N/A'}
+                            {item.supplierSku && <span className="text-muted-foreground">({item.supplierSku})</span>}
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <span className="font-medium">Reorder At:</span> {getReorderPoint(item)} units{typeof item.reorderPoint === 'number' ? '' : ' (default)'}
+                            {typeof item.reorderQuantity === 'number' && <span className="text-muted-foreground">· buy {item.reorderQuantity}</span>}
+                        </div>
+                        <div className="flex items-center gap-2"><span className="font-medium">Landed Cost:</span> {typeof item.landedCost === 'number' ? `₹${item.landedCost.toFixed(2)}` : 'N/A'}</div>
+                        <div className="flex items-center gap-2"><span className="font-medium">GST:</span> {typeof item.gstRate === 'number' ? `${item.gstRate}%` : 'Default rate'}{item.hsnCode ? ` · HSN ${item.hsnCode}` : ''}</div>
                          <div className="flex items-center gap-2">
                              <span className="font-medium">Stock Level:</span>
                             <Badge variant={isLowStock ? "destructive" : "secondary"}>
@@ -357,6 +409,97 @@ export default async function InventoryItemPage({ params }: { params: { itemId:
            </div>
          </div>
        </Card>
+        </TabsContent>
+
+        {/* Stock movement ledger */}
+        <TabsContent value="stock" className="space-y-4">
+          <Card className="shadow-md">
+            <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+              <div className="space-y-1.5">
+                <CardTitle className="flex items-center gap-2"><Boxes className="h-5 w-5 text-muted-foreground"/> Stock Ledger</CardTitle>
+                <CardDescription>Running balance from every receipt, sale, restock, adjustment, damage and transfer.</CardDescription>
+              </div>
+              <StockLedgerActions itemId={item.id} locations={locations} ledgerDifference={ledgerDifference} />
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm">
+                <div>
+                  <div className="text-muted-foreground">Stock Level</div>
+                  <div className="text-2xl font-bold">{item.stock}</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Ledger Balance</div>
+                  <div className="text-2xl font-bold">{movementsError ? '—' : ledgerBalance}</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Reconciliation</div>
+                  <div className="pt-1">
+                    {movementsError ? (
+                      <span className="text-destructive">{movementsError}</span>
+                    ) : ledgerDifference === 0 ? (
+                      <Badge variant="outline">In sync</Badge>
+                    ) : (
+                      <Badge variant="destructive">Differs by {ledgerDifference > 0 ? '+' : ''}{ledgerDifference}</Badge>
+                    )}
+                  </div>
+                </div>
+              </div>
+              <div className="space-y-1 text-sm">
+                <div className="text-muted-foreground">By Location</div>
+                <div className="flex flex-wrap gap-2">
+                  {locations.map((location) => (
+                    <Badge key={location.id} variant={locationStock[location.id] ? 'secondary' : 'outline'}>
+                      {location.name}: {locationStock[location.id] || 0}
+                    </Badge>
+                  ))}
+                  {(item.inTransit || 0) > 0 && (
+                    <Badge variant="outline">
+                      <Link href="/inventory/transfers" className="hover:underline">In transit: {item.inTransit}</Link>
+                    </Badge>
+                  )}
+                </div>
+              </div>
+              {movements.length > 0 && (
+                <StockBalanceLineChart
+                  data={movements.map((movement) => ({ date: movement.createdAt, balance: movement.balanceAfter }))}
+                  config={stockBalanceChartConfig}
+                />
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="shadow-md">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2"><History className="h-5 w-5 text-muted-foreground"/> Movement History</CardTitle>
+              <CardDescription>Every stock movement for this item, newest first.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {movementsError ? (
+                <p className="text-sm text-destructive">{movementsError}</p>
+              ) : (
+                <StockMovementHistory movements={movements} locations={locations} />
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {/* Change history from the audit log */}
+        <TabsContent value="history">
+          <Card className="shadow-md">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2"><History className="h-5 w-5 text-muted-foreground"/> Change History</CardTitle>
+              <CardDescription>Every recorded change to this item, newest first.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {historyError ? (
+                <p className="text-sm text-destructive">{historyError}</p>
+              ) : (
+                <AuditHistory entries={historyEntries} />
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
 
     </div>
   );
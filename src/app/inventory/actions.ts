@@ -1,19 +1,31 @@
 'use server';
 
 import { revalidatePath } from 'next/cache';
-import { AddItemSchema, type AddItemInput } from '@/schemas/inventory'; // Use AddItemInput directly
+import { AddItemSchema, ItemOptionsSchema, type AddItemInput, type ItemOptions } from '@/schemas/inventory'; // Use AddItemInput directly
 import {
     db,
     collection,
-    addDoc,
     doc,
     deleteDoc,
     updateDoc,
     serverTimestamp,
     Timestamp,
     getDoc, // Keep getDoc for checking existence in delete
+    addDoc,
+    setDoc,
+    writeBatch,
     // Removed Storage imports
 } from '@/lib/firebase/firebase'; // Import Firestore instance and functions
+import { authorize } from '@/lib/auth/server';
+import type { AuthError, Permission } from '@/lib/auth/permissions';
+import { recordAudit } from '@/lib/audit';
+import { applyStockMovement, buildStockMovementData, reconcileStockLedger } from '@/lib/inventory/stock-ledger';
+import { ManualStockMovementSchema, type ManualStockMovementInput } from '@/schemas/stock-movement';
+import { LocationSchema, type LocationInput } from '@/schemas/location';
+import { TransferOrderSchema, type TransferOrderInput } from '@/schemas/transfer-order';
+import { getLocation } from '@/lib/inventory/locations';
+import { moveTransferOrderStock } from '@/lib/inventory/transfers';
+import { recordCatalogueFacetValues } from '@/lib/inventory/catalogue';
 
 // Helper function to check Firestore initialization
 function checkFirebaseInitialization() {
@@ -26,14 +38,53 @@ function checkFirebaseInitialization() {
 }
 
 
+// Maps the fields an update actually changes to the permissions it needs.
+// Price is split out so e.g. warehouse can edit details without touching prices.
+// Stock isn't edited here; it only changes through stock movements.
+function getRequiredUpdatePermissions(existing: Record<string, any>, updated: Omit<AddItemInput, 'stock'>): Permission[] {
+  const required = new Set<Permission>();
+  (Object.keys(updated) as (keyof typeof updated)[]).forEach((key) => {
+    const before = existing[key] ?? "";
+    const after = updated[key] ?? "";
+    if (key === 'options') {
+      // Option modifiers are pricing; compare them parsed so stored key order doesn't matter
+      const parsedBefore = ItemOptionsSchema.safeParse(existing.options);
+      const optionsBefore = cleanItemOptions(parsedBefore.success ? parsedBefore.data : undefined);
+      if (JSON.stringify(optionsBefore ?? null) !== JSON.stringify(cleanItemOptions(updated.options) ?? null)) required.add('inventory:edit_price');
+      return;
+    }
+    if (before === after) return;
+    if (key === 'price' || key === 'gstRate') required.add('inventory:edit_price');
+    else required.add('inventory:edit_details');
+  });
+  return Array.from(required);
+}
+
+// Drops option groups with no choices; undefined if the item offers no options at all
+function cleanItemOptions(options: ItemOptions | undefined): ItemOptions | undefined {
+  if (!options) return undefined;
+  const cleaned: ItemOptions = {};
+  (['materials', 'finishes', 'hardware'] as const).forEach((group) => {
+    if (options[group]?.length) cleaned[group] = options[group];
+  });
+  if (options.size) cleaned.size = options.size;
+  return Object.keys(cleaned).length > 0 ? cleaned : undefined;
+}
+
 // Server Action to add a new inventory item to Firestore
-export async function addItemAction(payload: AddItemInput): Promise<{ success: boolean; message: string; itemId?: string; errors?: Record<string, string[]> | null }> {
+export async function addItemAction(payload: AddItemInput): Promise<{ success: boolean; message: string; itemId?: string; errors?: Record<string, string[]> | null; error?: AuthError }> {
   console.log("addItemAction started. Received payload:", Object.keys(payload));
   const firebaseCheck = checkFirebaseInitialization();
-  if (!firebaseCheck.initialized) {
+  if (!firebaseCheck.initialized || !db) {
     console.error("Firebase initialization check failed.");
     return { success: false, message: firebaseCheck.message, errors: null };
   }
+  const firestore = db;
+
+  const auth = await authorize('inventory:create');
+  if (!auth.ok) {
+    return { success: false, message: auth.message, errors: null, error: auth.error };
+  }
 
   // Validate the item data
   const validationResult = AddItemSchema.safeParse(payload);
@@ -56,7 +107,10 @@ export async function addItemAction(payload: AddItemInput): Promise<{ success: b
   // Prepare the final data for Firestore
   const newItemData = {
       ...validatedData,
+      options: cleanItemOptions(validatedData.options),
       // imageUrl is already part of validatedData
+      createdBy: auth.user.id,
+      updatedBy: auth.user.id,
       createdAt: serverTimestamp(),
       updatedAt: serverTimestamp(),
   };
@@ -73,11 +127,34 @@ export async function addItemAction(payload: AddItemInput): Promise<{ success: b
 
   try {
     console.log("Attempting to add item document to Firestore with data keys:", JSON.stringify(Object.keys(newItemData)));
-    const inventoryCollectionRef = collection(db, 'inventory');
-    const docRef = await addDoc(inventoryCollectionRef, newItemData);
+    const docRef = doc(collection(firestore, 'inventory'));
+    // The starting stock is the item's first ledger entry
+    const batch = writeBatch(firestore);
+    batch.set(docRef, newItemData);
+    if (newItemData.stock > 0) {
+      batch.set(doc(collection(firestore, 'stockMovements')), buildStockMovementData({
+        inventoryId: docRef.id,
+        type: 'receipt',
+        quantity: newItemData.stock,
+        actor: auth.user,
+        note: 'Opening stock',
+      }, 0, newItemData.stock));
+    }
+    await batch.commit();
+    await recordCatalogueFacetValues(newItemData);
 
     console.log(`Successfully added item with ID: ${docRef.id}`);
 
+    await recordAudit({
+      actor: auth.user,
+      entityType: 'inventory',
+      entityId: docRef.id,
+      entityLabel: newItemData.name,
+      action: 'create',
+      before: null,
+      after: newItemData,
+    });
+
     // Revalidate the inventory list page cache to show the new item
     revalidatePath('/inventory');
     revalidatePath('/'); // Also revalidate dashboard
@@ -143,11 +220,12 @@ export async function addItemAction(payload: AddItemInput): Promise<{ success: b
 export async function updateItemAction(
   itemId: string,
   data: AddItemInput // Use AddItemInput directly
-): Promise<{ success: boolean; message: string; errors?: Record<string, string[]> | null }> {
+): Promise<{ success: boolean; message: string; errors?: Record<string, string[]> | null; error?: AuthError }> {
   const firebaseCheck = checkFirebaseInitialization();
-  if (!firebaseCheck.initialized) {
+  if (!firebaseCheck.initialized || !db) {
     return { success: false, message: firebaseCheck.message, errors: null };
   }
+  const firestore = db;
 
   if (!itemId) {
       return { success: false, message: "Item ID is required for update.", errors: null };
@@ -165,11 +243,37 @@ export async function updateItemAction(
     };
   }
 
+  // Stock is changed through recordStockMovementAction so every change lands in the ledger
+  const { stock: _stock, ...detailsData } = validationResult.data;
+
+  // Work out which permissions this edit needs by comparing against the stored item
+  let requiredPermissions: Permission[];
+  let existingItemData: Record<string, any>; // Kept for the audit diff
+  try {
+    const existingSnap = await getDoc(doc(firestore, 'inventory', itemId));
+    if (!existingSnap.exists()) {
+      return { success: false, message: `Item with ID ${itemId} not found. Cannot update.`, errors: null };
+    }
+    existingItemData = existingSnap.data();
+    requiredPermissions = getRequiredUpdatePermissions(existingItemData, detailsData);
+  } catch (error) {
+    console.error(`Error loading item ${itemId} before update:`, error);
+    return { success: false, message: "Failed to load the item for update. Please try again.", errors: null };
+  }
+
+  const auth = await authorize(...requiredPermissions);
+  if (!auth.ok) {
+    return { success: false, message: auth.message, errors: null, error: auth.error };
+  }
+
   // Image URL is part of validationResult.data if provided and valid
 
   // Prepare the data for Firestore update
-  const itemDataToUpdate: Partial<AddItemInput & { updatedAt: any }> = {
-    ...validationResult.data,
+  const itemDataToUpdate: Partial<AddItemInput & { updatedAt: any; updatedBy: string }> = {
+    ...detailsData,
+    // Options are replaced whole; clearing them all leaves an empty map so old choices don't linger
+    options: cleanItemOptions(detailsData.options) ?? (existingItemData.options ? {} : undefined),
+    updatedBy: auth.user.id,
     updatedAt: serverTimestamp(),
   };
 
@@ -190,11 +294,22 @@ export async function updateItemAction(
 
   try {
     console.log(`Attempting to update item with ID: ${itemId} with data:`, itemDataToUpdate);
-    const itemDocRef = doc(db, 'inventory', itemId);
+    const itemDocRef = doc(firestore, 'inventory', itemId);
     await updateDoc(itemDocRef, itemDataToUpdate); // Use updateDoc with partial data
+    await recordCatalogueFacetValues(detailsData);
 
     console.log(`Successfully updated item with ID: ${itemId}`);
 
+    await recordAudit({
+      actor: auth.user,
+      entityType: 'inventory',
+      entityId: itemId,
+      entityLabel: itemDataToUpdate.name,
+      action: 'update',
+      before: existingItemData,
+      after: itemDataToUpdate,
+    });
+
     // Revalidate relevant paths
     revalidatePath('/inventory');
     revalidatePath(`/inventory/${itemId}`);
@@ -256,8 +371,187 @@ export async function updateItemAction(
 }
 
 
+// Server Action to record a manual stock movement (receipt, adjustment, damage or transfer)
+export async function recordStockMovementAction(
+  itemId: string,
+  payload: ManualStockMovementInput
+): Promise<{ success: boolean; message: string; errors?: Record<string, string[]> | null; error?: AuthError }> {
+  const firebaseCheck = checkFirebaseInitialization();
+  if (!firebaseCheck.initialized) {
+    return { success: false, message: firebaseCheck.message, errors: null };
+  }
+  if (!itemId) {
+    return { success: false, message: "Item ID is required.", errors: null };
+  }
+
+  const auth = await authorize('inventory:adjust_stock');
+  if (!auth.ok) {
+    return { success: false, message: auth.message, errors: null, error: auth.error };
+  }
+
+  const validationResult = ManualStockMovementSchema.safeParse(payload);
+  if (!validationResult.success) {
+    console.error("Stock Movement Validation Errors:", validationResult.error.flatten().fieldErrors);
+    return { success: false, message: "Validation failed. Please check the form fields.", errors: validationResult.error.flatten().fieldErrors };
+  }
+  const movement = validationResult.data;
+  if (!(await getLocation(movement.locationId))) {
+    return { success: false, message: "That location no longer exists.", errors: { locationId: ["Choose a location."] } };
+  }
+
+  // Receipts always add stock and damage always removes it; adjustments and transfers go either way
+  const isOutgoing = movement.type === 'damage' || ((movement.type === 'adjustment' || movement.type === 'transfer') && movement.direction === 'out');
+  const result = await applyStockMovement({
+    inventoryId: itemId,
+    type: movement.type,
+    quantity: isOutgoing ? -movement.quantity : movement.quantity,
+    actor: auth.user,
+    locationId: movement.locationId,
+    reasonCode: movement.type === 'adjustment' ? movement.reasonCode : undefined,
+    transferLocation: movement.type === 'transfer' ? movement.transferLocation : undefined,
+    note: movement.note,
+  });
+  if (!result.success) {
+    return { success: false, message: result.message, errors: null };
+  }
+
+  await recordAudit({
+    actor: auth.user,
+    entityType: 'inventory',
+    entityId: itemId,
+    action: 'update',
+    before: { stock: result.balanceBefore },
+    after: { stock: result.balanceAfter },
+  });
+
+  revalidatePath('/inventory');
+  revalidatePath(`/inventory/${itemId}`);
+  revalidatePath('/');
+
+  return { success: true, message: result.message, errors: null };
+}
+
+// Server Action to account for any gap between an item's stock field and its ledger
+export async function reconcileStockAction(itemId: string): Promise<{ success: boolean; message: string; error?: AuthError }> {
+  const firebaseCheck = checkFirebaseInitialization();
+  if (!firebaseCheck.initialized) {
+    return { success: false, message: firebaseCheck.message };
+  }
+  if (!itemId) {
+    return { success: false, message: "Item ID is required." };
+  }
+
+  const auth = await authorize('inventory:adjust_stock');
+  if (!auth.ok) {
+    return { success: false, message: auth.message, error: auth.error };
+  }
+
+  const result = await reconcileStockLedger(itemId, auth.user);
+  if (result.success) {
+    revalidatePath(`/inventory/${itemId}`);
+  }
+  return { success: result.success, message: result.message };
+}
+
+// Server Action for the catalogue table's inline price edit
+export async function updateItemPriceAction(
+  itemId: string,
+  price: number
+): Promise<{ success: boolean; message: string; errors?: Record<string, string[]> | null; error?: AuthError }> {
+  if (!db) return { success: false, message: "Database configuration error.", errors: null };
+  if (!itemId) return { success: false, message: "Item ID is required.", errors: null };
+
+  const auth = await authorize('inventory:edit_price');
+  if (!auth.ok) return { success: false, message: auth.message, errors: null, error: auth.error };
+
+  const validationResult = AddItemSchema.shape.price.safeParse(price);
+  if (!validationResult.success) {
+    return { success: false, message: validationResult.error.errors[0].message, errors: { price: validationResult.error.errors.map((issue) => issue.message) } };
+  }
+  const newPrice = validationResult.data;
+
+  try {
+    const itemRef = doc(db, 'inventory', itemId);
+    const itemSnap = await getDoc(itemRef);
+    if (!itemSnap.exists()) {
+      return { success: false, message: `Item with ID ${itemId} not found.`, errors: null };
+    }
+    const itemData = itemSnap.data();
+    await updateDoc(itemRef, { price: newPrice, updatedBy: auth.user.id, updatedAt: serverTimestamp() });
+    await recordAudit({
+      actor: auth.user,
+      entityType: 'inventory',
+      entityId: itemId,
+      entityLabel: itemData.name,
+      action: 'update',
+      before: { price: itemData.price },
+      after: { price: newPrice },
+    });
+
+    revalidatePath('/inventory');
+    revalidatePath(`/inventory/${itemId}`);
+    revalidatePath('/');
+    return { success: true, message: `Price of '${itemData.name}' set to ₹${newPrice.toFixed(2)}.`, errors: null };
+  } catch (error) {
+    console.error(`Error updating the price of item ${itemId}:`, error);
+    return { success: false, message: "Failed to update the price. Please try again.", errors: null };
+  }
+}
+
+// Server Action for the catalogue table's inline stock edit: a counted quantity at one location, recorded
+// as a count correction. `counted` is what the table showed, so a count made against a stale page is refused.
+export async function setItemStockCountAction(
+  itemId: string,
+  payload: { locationId: string; counted: number; quantity: number }
+): Promise<{ success: boolean; message: string; errors?: Record<string, string[]> | null; error?: AuthError }> {
+  if (!db) return { success: false, message: "Database configuration error.", errors: null };
+  if (!itemId) return { success: false, message: "Item ID is required.", errors: null };
+
+  const auth = await authorize('inventory:adjust_stock');
+  if (!auth.ok) return { success: false, message: auth.message, errors: null, error: auth.error };
+
+  const validationResult = AddItemSchema.shape.stock.safeParse(payload.quantity);
+  if (!validationResult.success) {
+    return { success: false, message: validationResult.error.errors[0].message, errors: { stock: validationResult.error.errors.map((issue) => issue.message) } };
+  }
+  if (!(await getLocation(payload.locationId))) {
+    return { success: false, message: "That location no longer exists.", errors: null };
+  }
+  const delta = validationResult.data - payload.counted;
+  if (delta === 0) return { success: true, message: "Stock is unchanged.", errors: null };
+
+  const result = await applyStockMovement({
+    inventoryId: itemId,
+    type: 'adjustment',
+    quantity: delta,
+    actor: auth.user,
+    locationId: payload.locationId,
+    expectedAtLocation: payload.counted,
+    reasonCode: 'count_correction',
+  });
+  if (!result.success) {
+    return { success: false, message: result.message, errors: null };
+  }
+
+  await recordAudit({
+    actor: auth.user,
+    entityType: 'inventory',
+    entityId: itemId,
+    action: 'update',
+    before: { stock: result.balanceBefore },
+    after: { stock: result.balanceAfter },
+  });
+
+  revalidatePath('/inventory');
+  revalidatePath(`/inventory/${itemId}`);
+  revalidatePath('/');
+
+  return { success: true, message: result.message, errors: null };
+}
+
+
 // Server Action to delete an inventory item from Firestore (no image deletion needed)
-export async function deleteItemAction(itemId: string): Promise<{ success: boolean; message: string; }> {
+export async function deleteItemAction(itemId: string): Promise<{ success: boolean; message: string; error?: AuthError }> {
   const firebaseCheck = checkFirebaseInitialization();
   if (!firebaseCheck.initialized) {
     return { success: false, message: firebaseCheck.message };
@@ -267,6 +561,11 @@ export async function deleteItemAction(itemId: string): Promise<{ success: boole
       return { success: false, message: "Item ID is required." };
   }
 
+  const auth = await authorize('inventory:delete');
+  if (!auth.ok) {
+    return { success: false, message: auth.message, error: auth.error };
+  }
+
   const itemDocRef = doc(db, 'inventory', itemId);
 
   try {
@@ -285,6 +584,18 @@ export async function deleteItemAction(itemId: string): Promise<{ success: boole
     await deleteDoc(itemDocRef);
     console.log(`Successfully deleted Firestore document for item ID: ${itemId}`);
 
+    // Keep a full snapshot of the deleted item in the audit log
+    const deletedItemData = docSnap.data();
+    await recordAudit({
+      actor: auth.user,
+      entityType: 'inventory',
+      entityId: itemId,
+      entityLabel: deletedItemData.name,
+      action: 'delete',
+      before: deletedItemData,
+      after: null,
+    });
+
     // --- Image deletion logic removed ---
 
     // Revalidate paths after successful deletion
@@ -330,3 +641,235 @@ export async function deleteItemAction(itemId: string): Promise<{ success: boole
     };
   }
 }
+
+
+// --- LOCATIONS ---
+export async function createLocationAction(
+  values: LocationInput
+): Promise<{ success: boolean; message: string; errors?: Record<string, string[]> | null; error?: AuthError }> {
+  if (!db) return { success: false, message: "Database configuration error.", errors: null };
+
+  const auth = await authorize('inventory:manage_locations');
+  if (!auth.ok) return { success: false, message: auth.message, errors: null, error: auth.error };
+
+  const validationResult = LocationSchema.safeParse(values);
+  if (!validationResult.success) {
+    return { success: false, message: "Validation failed. Please check the form fields.", errors: validationResult.error.flatten().fieldErrors };
+  }
+  const { address, ...locationData } = validationResult.data;
+
+  try {
+    const newLocation = {
+      ...locationData,
+      ...(address && { address }),
+      createdBy: { id: auth.user.id, name: auth.user.name, role: auth.user.role },
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    };
+    const docRef = await addDoc(collection(db, 'locations'), newLocation);
+    await recordAudit({
+      actor: auth.user,
+      entityType: 'location',
+      entityId: docRef.id,
+      entityLabel: locationData.name,
+      action: 'create',
+      before: null,
+      after: newLocation,
+    });
+
+    revalidatePath('/inventory/locations');
+    return { success: true, message: `Location "${locationData.name}" added.`, errors: null };
+  } catch (error) {
+    console.error("Error creating location:", error);
+    return { success: false, message: "Failed to add the location. Please try again.", errors: null };
+  }
+}
+
+// Also saves the default location the first time it's renamed (it's readable before it's stored)
+export async function updateLocationAction(
+  locationId: string,
+  values: LocationInput
+): Promise<{ success: boolean; message: string; errors?: Record<string, string[]> | null; error?: AuthError }> {
+  if (!db) return { success: false, message: "Database configuration error.", errors: null };
+  if (!locationId) return { success: false, message: "Location ID is required.", errors: null };
+
+  const auth = await authorize('inventory:manage_locations');
+  if (!auth.ok) return { success: false, message: auth.message, errors: null, error: auth.error };
+
+  const validationResult = LocationSchema.safeParse(values);
+  if (!validationResult.success) {
+    return { success: false, message: "Validation failed. Please check the form fields.", errors: validationResult.error.flatten().fieldErrors };
+  }
+
+  try {
+    const existing = await getLocation(locationId);
+    if (!existing) return { success: false, message: "Location not found.", errors: null };
+
+    const updateData = {
+      ...validationResult.data,
+      address: validationResult.data.address || '',
+      updatedBy: { id: auth.user.id, name: auth.user.name, role: auth.user.role },
+      updatedAt: serverTimestamp(),
+    };
+    await setDoc(doc(db, 'locations', locationId), updateData, { merge: true });
+    await recordAudit({
+      actor: auth.user,
+      entityType: 'location',
+      entityId: locationId,
+      entityLabel: updateData.name,
+      action: 'update',
+      before: { name: existing.name, type: existing.type, address: existing.address },
+      after: updateData,
+    });
+
+    revalidatePath('/inventory/locations');
+    revalidatePath('/inventory');
+    return { success: true, message: `Location "${updateData.name}" updated.`, errors: null };
+  } catch (error) {
+    console.error(`Error updating location ${locationId}:`, error);
+    return { success: false, message: "Failed to update the location. Please try again.", errors: null };
+  }
+}
+
+
+// --- TRANSFER ORDERS ---
+// Drafts a transfer; nothing moves until it's dispatched
+export async function createTransferOrderAction(
+  values: TransferOrderInput
+): Promise<{ success: boolean; message: string; transferId?: string; errors?: Record<string, any> | null; error?: AuthError }> {
+  if (!db) return { success: false, message: "Database configuration error.", errors: null };
+  const firestore = db;
+
+  const auth = await authorize('inventory:transfer');
+  if (!auth.ok) return { success: false, message: auth.message, errors: null, error: auth.error };
+
+  const validationResult = TransferOrderSchema.safeParse(values);
+  if (!validationResult.success) {
+    return { success: false, message: "Validation failed. Please check the form fields.", errors: validationResult.error.flatten().fieldErrors };
+  }
+  const { fromLocationId, toLocationId, notes, items } = validationResult.data;
+
+  const duplicateIndex = items.findIndex((item, index) => items.findIndex((other) => other.inventoryId === item.inventoryId) !== index);
+  if (duplicateIndex !== -1) {
+    const message = "This item is already on the transfer; change that line's quantity instead.";
+    return { success: false, message, errors: { items: { [`${duplicateIndex}.inventoryId`]: [message] } } };
+  }
+
+  try {
+    const [fromLocation, toLocation] = await Promise.all([getLocation(fromLocationId), getLocation(toLocationId)]);
+    if (!fromLocation || !toLocation) {
+      return { success: false, message: "One of the locations no longer exists.", errors: null };
+    }
+    const itemSnaps = await Promise.all(items.map((item) => getDoc(doc(firestore, 'inventory', item.inventoryId))));
+    const missingIndex = itemSnaps.findIndex((itemSnap) => !itemSnap.exists());
+    if (missingIndex !== -1) {
+      const message = `Inventory item ${items[missingIndex].inventoryId} not found.`;
+      return { success: false, message, errors: { items: { [`${missingIndex}.inventoryId`]: [message] } } };
+    }
+
+    const transferData = {
+      fromLocationId,
+      fromLocationName: fromLocation.name,
+      toLocationId,
+      toLocationName: toLocation.name,
+      status: 'Draft',
+      items: items.map((item, index) => ({
+        inventoryId: item.inventoryId,
+        name: itemSnaps[index].data()!.name || 'Unknown',
+        sku: itemSnaps[index].data()!.sku || '',
+        quantity: item.quantity,
+      })),
+      ...(notes?.trim() && { notes: notes.trim() }),
+      createdBy: { id: auth.user.id, name: auth.user.name, role: auth.user.role },
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    };
+    const docRef = await addDoc(collection(firestore, 'transferOrders'), transferData);
+
+    await recordAudit({
+      actor: auth.user,
+      entityType: 'transfer_order',
+      entityId: docRef.id,
+      entityLabel: `${fromLocation.name} → ${toLocation.name}`,
+      action: 'create',
+      before: null,
+      after: transferData,
+    });
+
+    revalidatePath('/inventory/transfers');
+    return { success: true, message: "Transfer drafted.", transferId: docRef.id, errors: null };
+  } catch (error) {
+    console.error("Error creating transfer order:", error);
+    return { success: false, message: "Failed to draft the transfer. Please try again.", errors: null };
+  }
+}
+
+async function runTransferStep(transferId: string, step: 'dispatch' | 'receive'): Promise<{ success: boolean; message: string; error?: AuthError }> {
+  if (!db) return { success: false, message: "Database configuration error." };
+  if (!transferId) return { success: false, message: "Transfer ID is required." };
+
+  const auth = await authorize('inventory:transfer');
+  if (!auth.ok) return { success: false, message: auth.message, error: auth.error };
+
+  const result = await moveTransferOrderStock(transferId, step, auth.user);
+  if (!result.success) return { success: false, message: result.message };
+
+  await recordAudit({
+    actor: auth.user,
+    entityType: 'transfer_order',
+    entityId: transferId,
+    action: 'status_change',
+    before: result.before ?? null,
+    after: result.after ?? null,
+  });
+
+  revalidatePath('/inventory');
+  revalidatePath('/inventory/transfers');
+  revalidatePath(`/inventory/transfers/${transferId}`);
+  return { success: true, message: result.message };
+}
+
+export async function dispatchTransferOrderAction(transferId: string): Promise<{ success: boolean; message: string; error?: AuthError }> {
+  return runTransferStep(transferId, 'dispatch');
+}
+
+export async function receiveTransferOrderAction(transferId: string): Promise<{ success: boolean; message: string; error?: AuthError }> {
+  return runTransferStep(transferId, 'receive');
+}
+
+export async function cancelTransferOrderAction(transferId: string): Promise<{ success: boolean; message: string; error?: AuthError }> {
+  if (!db) return { success: false, message: "Database configuration error." };
+  if (!transferId) return { success: false, message: "Transfer ID is required." };
+
+  const auth = await authorize('inventory:transfer');
+  if (!auth.ok) return { success: false, message: auth.message, error: auth.error };
+
+  try {
+    const transferRef = doc(db, 'transferOrders', transferId);
+    const transferSnap = await getDoc(transferRef);
+    if (!transferSnap.exists()) return { success: false, message: "Transfer not found." };
+    const transferData = transferSnap.data();
+    // Once dispatched the goods are on the road; receive them back with a new transfer instead
+    if (transferData.status !== 'Draft') {
+      return { success: false, message: `Only draft transfers can be cancelled; this one is ${transferData.status}.` };
+    }
+
+    const updateData = { status: 'Cancelled', updatedAt: serverTimestamp() };
+    await updateDoc(transferRef, updateData);
+    await recordAudit({
+      actor: auth.user,
+      entityType: 'transfer_order',
+      entityId: transferId,
+      action: 'cancel',
+      before: transferData,
+      after: updateData,
+    });
+
+    revalidatePath('/inventory/transfers');
+    revalidatePath(`/inventory/transfers/${transferId}`);
+    return { success: true, message: "Transfer cancelled." };
+  } catch (error) {
+    console.error(`Error cancelling transfer ${transferId}:`, error);
+    return { success: false, message: "Failed to cancel the transfer. Please try again." };
+  }
+}
@@ -0,0 +1,119 @@
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Home, MapPin, AlertTriangle } from 'lucide-react';
+import Link from 'next/link';
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import { db, collection, getDocs } from '@/lib/firebase/firebase';
+import { getLocations } from '@/lib/inventory/locations';
+import { getLocationStock } from '@/lib/inventory/location-stock';
+import { LOCATION_TYPE_LABELS } from '@/schemas/location';
+import { LocationFormDialog } from "@/components/inventory/location-form-dialog";
+
+interface LocationTotals {
+  units: number;
+  items: number;
+}
+
+// Units and distinct items held at each location
+async function getLocationTotals(): Promise<Map<string, LocationTotals>> {
+  const totals = new Map<string, LocationTotals>();
+  if (!db) return totals;
+  try {
+    const snapshot = await getDocs(collection(db, 'inventory'));
+    snapshot.forEach((itemDoc) => {
+      Object.entries(getLocationStock(itemDoc.data())).forEach(([locationId, units]) => {
+        const current = totals.get(locationId) || { units: 0, items: 0 };
+        totals.set(locationId, { units: current.units + units, items: current.items + 1 });
+      });
+    });
+  } catch (error) {
+    console.error("Error totalling stock by location:", error);
+  }
+  return totals;
+}
+
+export default async function LocationsPage() {
+  const [{ locations, error }, totals] = await Promise.all([getLocations(), getLocationTotals()]);
+
+  return (
+    <div className="container mx-auto py-6 animate-subtle-fade-in space-y-6">
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild><Link href="/"><Home className="h-4 w-4"/></Link></BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild><Link href="/inventory">Inventory</Link></BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbPage>Locations</BreadcrumbPage>
+          </BreadcrumbItem>
+        </BreadcrumbList>
+      </Breadcrumb>
+
+      <div className="flex items-center justify-between gap-4">
+        <h1 className="text-3xl font-semibold text-foreground">Locations</h1>
+        <LocationFormDialog />
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Error Loading Locations</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card className="shadow-md border border-border/50">
+        <CardHeader>
+          <CardTitle className="text-xl flex items-center gap-2"><MapPin className="h-5 w-5 text-primary" /> All Locations</CardTitle>
+          <CardDescription>
+            Stock from before locations were set up is counted at the default location. Move stock between locations with a <Link href="/inventory/transfers" className="underline">transfer</Link>.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Address</TableHead>
+                <TableHead className="text-center">Items</TableHead>
+                <TableHead className="text-center">Units</TableHead>
+                <TableHead className="text-right"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {locations.map((location) => (
+                <TableRow key={location.id}>
+                  <TableCell className="font-medium">
+                    {location.name}
+                    {location.isDefault && <Badge variant="outline" className="ml-2">Default</Badge>}
+                  </TableCell>
+                  <TableCell>{LOCATION_TYPE_LABELS[location.type]}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground whitespace-pre-wrap">{location.address || '—'}</TableCell>
+                  <TableCell className="text-center">{totals.get(location.id)?.items || 0}</TableCell>
+                  <TableCell className="text-center">{totals.get(location.id)?.units || 0}</TableCell>
+                  <TableCell className="text-right"><LocationFormDialog location={location} /></TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export const dynamic = 'force-dynamic';
@@ -11,9 +11,12 @@ import {
   BreadcrumbPage,
   BreadcrumbSeparator,
 } from "@/components/ui/breadcrumb" // Import Breadcrumb components
+import { getSuppliers } from '@/lib/purchasing/suppliers';
 
 
-export default function AddInventoryItemPage() {
+export default async function AddInventoryItemPage() {
+  const { suppliers } = await getSuppliers();
+
   return (
     <div className="container mx-auto py-6 animate-subtle-fade-in space-y-6"> {/* Added spacing */}
        {/* Breadcrumbs */}
@@ -45,7 +48,7 @@ export default function AddInventoryItemPage() {
        </div>
 
        {/* Form Component */}
-      <AddItemForm />
+      <AddItemForm suppliers={suppliers.map(({ id, name }) => ({ id, name }))} />
     </div>
   );
 }
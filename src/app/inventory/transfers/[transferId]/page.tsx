@@ -0,0 +1,138 @@
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Home, AlertTriangle, ArrowLeftRight, Calendar, Truck, PackageCheck } from 'lucide-react';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { format } from 'date-fns';
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { getAuditHistory } from '@/lib/audit';
+import { getTransferOrder } from '@/lib/inventory/transfers';
+import { AuditHistory } from "@/components/audit/audit-history";
+import { TransferOrderStatusBadge } from "@/components/inventory/transfer-order-status-badge";
+import { TransferOrderActions } from "@/components/inventory/transfer-order-actions";
+
+export default async function TransferOrderDetailPage({ params }: { params: { transferId: string } }) {
+  const [{ transferOrder: transfer, error }, { entries: historyEntries, error: historyError }] = await Promise.all([
+    getTransferOrder(params.transferId),
+    getAuditHistory('transfer_order', params.transferId),
+  ]);
+
+  if (error) {
+    return (
+      <div className="container mx-auto py-6 space-y-6">
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Error Loading Transfer</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+  if (!transfer) {
+    notFound();
+  }
+
+  const totalUnits = transfer.items.reduce((sum, line) => sum + line.quantity, 0);
+
+  return (
+    <div className="container mx-auto py-6 animate-subtle-fade-in space-y-6">
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild><Link href="/"><Home className="h-4 w-4"/></Link></BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild><Link href="/inventory">Inventory</Link></BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild><Link href="/inventory/transfers">Transfers</Link></BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbPage>Transfer {transfer.id.substring(0, 8)}...</BreadcrumbPage>
+          </BreadcrumbItem>
+        </BreadcrumbList>
+      </Breadcrumb>
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="space-y-1">
+          <h1 className="text-2xl font-semibold text-foreground flex items-center gap-3">
+            Transfer {transfer.id.substring(0, 8)}... <TransferOrderStatusBadge status={transfer.status} />
+          </h1>
+          <div className="text-sm text-muted-foreground flex flex-wrap gap-x-4 gap-y-1">
+            <span className="flex items-center gap-1"><ArrowLeftRight className="h-4 w-4" /> {transfer.fromLocationName} → {transfer.toLocationName}</span>
+            <span className="flex items-center gap-1"><Calendar className="h-4 w-4" /> Drafted {format(new Date(transfer.createdAt), 'PP')}{transfer.createdBy ? ` by ${transfer.createdBy.name}` : ''}</span>
+            {transfer.dispatchedAt && <span className="flex items-center gap-1"><Truck className="h-4 w-4" /> Dispatched {format(new Date(transfer.dispatchedAt), 'PP')}{transfer.dispatchedBy ? ` by ${transfer.dispatchedBy.name}` : ''}</span>}
+            {transfer.receivedAt && <span className="flex items-center gap-1"><PackageCheck className="h-4 w-4" /> Received {format(new Date(transfer.receivedAt), 'PP')}{transfer.receivedBy ? ` by ${transfer.receivedBy.name}` : ''}</span>}
+          </div>
+        </div>
+        <TransferOrderActions transferId={transfer.id} status={transfer.status} />
+      </div>
+
+      <Tabs defaultValue="details" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="details">Details</TabsTrigger>
+          <TabsTrigger value="history">History ({historyEntries.length})</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="details">
+          <Card className="shadow-md">
+            <CardHeader>
+              <CardTitle>Lines ({totalUnits} unit{totalUnits === 1 ? '' : 's'})</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Item</TableHead>
+                    <TableHead className="text-center">Quantity</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {transfer.items.map((line) => (
+                    <TableRow key={line.inventoryId}>
+                      <TableCell>
+                        <Link href={`/inventory/${line.inventoryId}`} className="font-medium hover:underline">{line.name}</Link>
+                        <div className="text-xs text-muted-foreground">{line.sku}</div>
+                      </TableCell>
+                      <TableCell className="text-center">{line.quantity}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {transfer.notes && <p className="mt-4 text-sm text-muted-foreground whitespace-pre-wrap">{transfer.notes}</p>}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="history">
+          <Card className="shadow-md">
+            <CardHeader>
+              <CardTitle>Change History</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {historyError ? (
+                <p className="text-sm text-destructive">{historyError}</p>
+              ) : (
+                <AuditHistory entries={historyEntries} emptyMessage="No changes recorded for this transfer yet." />
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,68 @@
+import { Home } from "lucide-react";
+import Link from "next/link";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import { db, collection, getDocs } from '@/lib/firebase/firebase';
+import { getLocations } from '@/lib/inventory/locations';
+import { CreateTransferOrderForm, type TransferableItem } from "@/components/inventory/create-transfer-order-form";
+
+async function getTransferableItems(): Promise<{ items: TransferableItem[]; error?: string }> {
+  if (!db) return { items: [], error: "Database initialization failed." };
+  try {
+    const snapshot = await getDocs(collection(db, 'inventory'));
+    const items = snapshot.docs
+      .map((docSnap) => {
+        const data = docSnap.data();
+        return {
+          id: docSnap.id,
+          name: data.name || 'Unknown',
+          sku: data.sku || '',
+          stock: typeof data.stock === 'number' ? data.stock : 0,
+          stockByLocation: data.stockByLocation || undefined,
+        };
+      })
+      .sort((a, b) => a.name.localeCompare(b.name));
+    return { items };
+  } catch (error) {
+    console.error("Error fetching inventory for transfer:", error);
+    return { items: [], error: "Failed to load inventory data." };
+  }
+}
+
+export default async function NewTransferOrderPage() {
+  const [{ locations, error: locationsError }, { items, error: itemsError }] = await Promise.all([getLocations(), getTransferableItems()]);
+
+  return (
+    <div className="container mx-auto py-6 animate-subtle-fade-in space-y-6">
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild><Link href="/"><Home className="h-4 w-4"/></Link></BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild><Link href="/inventory">Inventory</Link></BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild><Link href="/inventory/transfers">Transfers</Link></BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbPage>New Transfer</BreadcrumbPage>
+          </BreadcrumbItem>
+        </BreadcrumbList>
+      </Breadcrumb>
+
+      <CreateTransferOrderForm locations={locations} inventoryItems={items} fetchError={locationsError || itemsError} />
+    </div>
+  );
+}
+
+export const dynamic = 'force-dynamic';
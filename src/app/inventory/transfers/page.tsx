@@ -0,0 +1,107 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Home, ArrowLeftRight, AlertTriangle, PlusCircle, MapPin } from 'lucide-react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import { getCurrentUser } from '@/lib/auth/server';
+import { hasPermission } from '@/lib/auth/permissions';
+import { getTransferOrders } from '@/lib/inventory/transfers';
+import { TransferOrderStatusBadge } from "@/components/inventory/transfer-order-status-badge";
+
+export default async function TransfersPage() {
+  const [{ transferOrders, error }, currentUser] = await Promise.all([getTransferOrders(), getCurrentUser()]);
+  const canTransfer = hasPermission(currentUser?.role, 'inventory:transfer');
+  const inTransitCount = transferOrders.filter((transfer) => transfer.status === 'In Transit').length;
+
+  return (
+    <div className="container mx-auto py-6 animate-subtle-fade-in space-y-6">
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild><Link href="/"><Home className="h-4 w-4"/></Link></BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild><Link href="/inventory">Inventory</Link></BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbPage>Transfers</BreadcrumbPage>
+          </BreadcrumbItem>
+        </BreadcrumbList>
+      </Breadcrumb>
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h1 className="text-3xl font-semibold text-foreground">Transfers</h1>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <Link href="/inventory/locations"><MapPin className="mr-2 h-4 w-4" /> Locations</Link>
+          </Button>
+          {canTransfer && (
+            <Button asChild>
+              <Link href="/inventory/transfers/new"><PlusCircle className="mr-2 h-4 w-4" /> New Transfer</Link>
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Error Loading Transfers</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card className="shadow-md border border-border/50">
+        <CardHeader>
+          <CardTitle className="text-xl flex items-center gap-2"><ArrowLeftRight className="h-5 w-5 text-primary" /> All Transfers</CardTitle>
+          <CardDescription>{transferOrders.length} transfer(s), {inTransitCount} in transit.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {transferOrders.length === 0 ? (
+            <p className="text-sm text-muted-foreground italic text-center py-6">No transfers yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Transfer</TableHead>
+                  <TableHead>From</TableHead>
+                  <TableHead>To</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-center">Units</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {transferOrders.map((transfer) => (
+                  <TableRow key={transfer.id}>
+                    <TableCell>
+                      <Link href={`/inventory/transfers/${transfer.id}`} className="font-medium hover:underline">{transfer.id.substring(0, 8)}...</Link>
+                      <div className="text-xs text-muted-foreground">{format(new Date(transfer.createdAt), 'PP')}</div>
+                    </TableCell>
+                    <TableCell>{transfer.fromLocationName}</TableCell>
+                    <TableCell>{transfer.toLocationName}</TableCell>
+                    <TableCell><TransferOrderStatusBadge status={transfer.status} /></TableCell>
+                    <TableCell className="text-center">{transfer.items.reduce((sum, line) => sum + line.quantity, 0)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export const dynamic = 'force-dynamic';
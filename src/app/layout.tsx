@@ -18,9 +18,10 @@ import {
   SidebarInset,
 } from '@/components/ui/sidebar';
 import Link from 'next/link';
-import { Home, Truck, Package, Box, LogOut } from 'lucide-react'; // Line-based icons
+import { Home, Truck, Package, Box, LogOut, Users, History, Hourglass, ClipboardList, ArrowLeftRight, Receipt, Settings, Tag, Undo2, FileText, Contact, Landmark } from 'lucide-react'; // Line-based icons
 import { Toaster } from '@/components/ui/toaster'; // Import Toaster
 import { LogoutButton } from '@/components/auth/logout-button'; // Import LogoutButton
+import { CurrentUserProvider, useCurrentUser } from '@/hooks/use-current-user';
 
 const inter = Inter({
   subsets: ['latin'],
@@ -33,6 +34,75 @@ const inter = Inter({
 //   description: 'Manage your furniture showroom inventory, orders, and logistics.',
 // };
 
+// Admin links, only shown to roles with the matching permission
+function AdminMenuItems() {
+  const { can } = useCurrentUser();
+  return (
+    <>
+      {can('users:manage') && (
+        <SidebarMenuItem>
+          <SidebarMenuButton asChild>
+            <Link href="/users">
+              <Users />
+              Users
+            </Link>
+          </SidebarMenuButton>
+        </SidebarMenuItem>
+      )}
+      {can('audit:view') && (
+        <SidebarMenuItem>
+          <SidebarMenuButton asChild>
+            <Link href="/audit">
+              <History />
+              Audit Log
+            </Link>
+          </SidebarMenuButton>
+        </SidebarMenuItem>
+      )}
+      {can('promotions:manage') && (
+        <SidebarMenuItem>
+          <SidebarMenuButton asChild>
+            <Link href="/promotions">
+              <Tag />
+              Promo Codes
+            </Link>
+          </SidebarMenuButton>
+        </SidebarMenuItem>
+      )}
+      {can('reports:view') && (
+        <SidebarMenuItem>
+          <SidebarMenuButton asChild>
+            <Link href="/reports/gstr1">
+              <Receipt />
+              GST Report
+            </Link>
+          </SidebarMenuButton>
+        </SidebarMenuItem>
+      )}
+      {can('reports:view') && (
+        <SidebarMenuItem>
+          <SidebarMenuButton asChild>
+            <Link href="/reports/receivables">
+              <Landmark />
+              Receivables
+            </Link>
+          </SidebarMenuButton>
+        </SidebarMenuItem>
+      )}
+      {can('settings:manage') && (
+        <SidebarMenuItem>
+          <SidebarMenuButton asChild>
+            <Link href="/settings">
+              <Settings />
+              Settings
+            </Link>
+          </SidebarMenuButton>
+        </SidebarMenuItem>
+      )}
+    </>
+  );
+}
+
 export default function RootLayout({
   children,
 }: Readonly<{
@@ -57,6 +127,7 @@ export default function RootLayout({
           </>
         ) : (
           // Render full layout for authenticated pages
+          <CurrentUserProvider>
           <SidebarProvider>
             <Sidebar>
               <SidebarHeader>
@@ -88,6 +159,14 @@ export default function RootLayout({
                       </Link>
                     </SidebarMenuButton>
                   </SidebarMenuItem>
+                  <SidebarMenuItem>
+                    <SidebarMenuButton asChild>
+                      <Link href="/inventory/transfers">
+                        <ArrowLeftRight />
+                        Transfers
+                      </Link>
+                    </SidebarMenuButton>
+                  </SidebarMenuItem>
                   <SidebarMenuItem>
                     <SidebarMenuButton asChild>
                       <Link href="/orders">
@@ -96,6 +175,38 @@ export default function RootLayout({
                       </Link>
                     </SidebarMenuButton>
                   </SidebarMenuItem>
+                  <SidebarMenuItem>
+                    <SidebarMenuButton asChild>
+                      <Link href="/quotes">
+                        <FileText />
+                        Quotes
+                      </Link>
+                    </SidebarMenuButton>
+                  </SidebarMenuItem>
+                  <SidebarMenuItem>
+                    <SidebarMenuButton asChild>
+                      <Link href="/customers">
+                        <Contact />
+                        Customers
+                      </Link>
+                    </SidebarMenuButton>
+                  </SidebarMenuItem>
+                  <SidebarMenuItem>
+                    <SidebarMenuButton asChild>
+                      <Link href="/orders/backorders">
+                        <Hourglass />
+                        Backorders
+                      </Link>
+                    </SidebarMenuButton>
+                  </SidebarMenuItem>
+                  <SidebarMenuItem>
+                    <SidebarMenuButton asChild>
+                      <Link href="/orders/returns">
+                        <Undo2 />
+                        Returns
+                      </Link>
+                    </SidebarMenuButton>
+                  </SidebarMenuItem>
                   <SidebarMenuItem>
                     <SidebarMenuButton asChild>
                       <Link href="/logistics">
@@ -104,6 +215,15 @@ export default function RootLayout({
                       </Link>
                     </SidebarMenuButton>
                   </SidebarMenuItem>
+                  <SidebarMenuItem>
+                    <SidebarMenuButton asChild>
+                      <Link href="/purchasing">
+                        <ClipboardList />
+                        Purchasing
+                      </Link>
+                    </SidebarMenuButton>
+                  </SidebarMenuItem>
+                  <AdminMenuItems />
                 </SidebarMenu>
               </SidebarContent>
               <SidebarFooter>
@@ -124,6 +244,7 @@ export default function RootLayout({
               <Toaster /> {/* Add Toaster for notifications */}
             </SidebarInset>
           </SidebarProvider>
+          </CurrentUserProvider>
         )}
       </body>
     </html>
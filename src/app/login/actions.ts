@@ -1,54 +1,133 @@
-
 "use server";
 
 import { cookies } from "next/headers";
-import { z } from "zod";
+import {
+  db,
+  collection,
+  query,
+  where,
+  limit,
+  getDocs,
+  addDoc,
+  doc,
+  updateDoc,
+  getCountFromServer,
+  serverTimestamp,
+} from "@/lib/firebase/firebase";
+import { LoginSchema, UserRoleEnum, type LoginInput, type SessionUser } from "@/schemas/user";
+import { hashPassword, verifyPassword } from "@/lib/auth/password";
+import { createSessionToken, isSessionConfigured, SESSION_COOKIE_NAME, SESSION_MAX_AGE_SECONDS } from "@/lib/auth/session";
+import { getCurrentUser } from "@/lib/auth/server";
 
-// Hardcoded credentials (NOT RECOMMENDED FOR PRODUCTION)
-const ADMIN_USERNAME = "admin@wonderDoors";
-const ADMIN_PASSWORD = "admin@123"; // Store passwords securely in real apps
+// Creates the first owner account from BOOTSTRAP_OWNER_EMAIL / BOOTSTRAP_OWNER_PASSWORD,
+// but only while the `users` collection is still empty.
+async function bootstrapOwnerIfNeeded(values: LoginInput): Promise<SessionUser | null> {
+  if (!db) return null;
+  const bootstrapEmail = process.env.BOOTSTRAP_OWNER_EMAIL?.toLowerCase();
+  const bootstrapPassword = process.env.BOOTSTRAP_OWNER_PASSWORD;
+  if (!bootstrapEmail || !bootstrapPassword) return null;
+  if (values.email.toLowerCase() !== bootstrapEmail || values.password !== bootstrapPassword) return null;
 
-const loginSchema = z.object({
-  username: z.string(),
-  password: z.string(),
-});
+  const usersCount = await getCountFromServer(collection(db, 'users'));
+  if (usersCount.data().count > 0) return null;
 
-type LoginInput = z.infer<typeof loginSchema>;
+  console.log("Login action: No users found, bootstrapping owner account.");
+  const name = "Owner";
+  const docRef = await addDoc(collection(db, 'users'), {
+    name,
+    email: bootstrapEmail,
+    passwordHash: await hashPassword(bootstrapPassword),
+    role: 'owner',
+    active: true,
+    createdAt: serverTimestamp(),
+    lastLoginAt: serverTimestamp(),
+  });
+  return { id: docRef.id, name, email: bootstrapEmail, role: 'owner' };
+}
 
 export async function loginAction(
   values: LoginInput
 ): Promise<{ success: boolean; message: string }> {
-  // Basic validation (more robust validation can be added)
-  if (!values.username || !values.password) {
-    return { success: false, message: "Username and password are required." };
+  const validationResult = LoginSchema.safeParse(values);
+  if (!validationResult.success) {
+    return { success: false, message: "Email and password are required." };
+  }
+  if (!db) {
+    console.error("loginAction: Firestore database is not initialized.");
+    return { success: false, message: "Database configuration error." };
+  }
+  if (!isSessionConfigured()) {
+    return { success: false, message: "Session secret is not configured. Set SESSION_SECRET in .env.local." };
   }
 
-  // Check credentials
-  if (
-    values.username === ADMIN_USERNAME &&
-    values.password === ADMIN_PASSWORD
-  ) {
-    // Set a session cookie (simple example, consider more secure methods)
-    const cookieStore = cookies();
-    cookieStore.set("session-token", "user-logged-in", {
-      // httpOnly: true, // Recommended for security, but needs API route/server component for JS access check
-      // secure: process.env.NODE_ENV === 'production', // Use secure cookies in production
-      // sameSite: 'strict', // Protect against CSRF
-      maxAge: 60 * 60 * 24 * 7, // 1 week
+  const email = validationResult.data.email.toLowerCase();
+  const invalidMessage = "Invalid email or password.";
+
+  try {
+    let sessionUser: SessionUser | null = null;
+
+    const usersQuery = query(collection(db, 'users'), where('email', '==', email), limit(1));
+    const usersSnapshot = await getDocs(usersQuery);
+
+    if (usersSnapshot.empty) {
+      sessionUser = await bootstrapOwnerIfNeeded(validationResult.data);
+      if (!sessionUser) {
+        console.log("Login action: Unknown email.");
+        return { success: false, message: invalidMessage };
+      }
+    } else {
+      const userDoc = usersSnapshot.docs[0];
+      const data = userDoc.data();
+
+      const passwordMatches = await verifyPassword(validationResult.data.password, data.passwordHash);
+      if (!passwordMatches) {
+        console.log(`Login action: Invalid password for user ${userDoc.id}.`);
+        return { success: false, message: invalidMessage };
+      }
+      if (data.active === false) {
+        console.log(`Login action: User ${userDoc.id} is deactivated.`);
+        return { success: false, message: "This account has been deactivated. Contact the owner." };
+      }
+      const role = UserRoleEnum.safeParse(data.role);
+      if (!role.success) {
+        console.error(`Login action: User ${userDoc.id} has an invalid role: ${data.role}`);
+        return { success: false, message: "This account has no valid role assigned. Contact the owner." };
+      }
+
+      sessionUser = { id: userDoc.id, name: data.name || email, email, role: role.data };
+      await updateDoc(doc(db, 'users', userDoc.id), { lastLoginAt: serverTimestamp() });
+    }
+
+    const token = await createSessionToken(sessionUser);
+    if (!token) {
+      return { success: false, message: "Could not create a session. Please try again." };
+    }
+
+    const cookieStore = await cookies();
+    cookieStore.set(SESSION_COOKIE_NAME, token, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'strict',
+      maxAge: SESSION_MAX_AGE_SECONDS,
       path: "/",
     });
 
-    console.log("Login action: Credentials valid, setting cookie.");
+    console.log(`Login action: User ${sessionUser.id} (${sessionUser.role}) logged in.`);
     return { success: true, message: "Login successful!" };
-  } else {
-    console.log("Login action: Invalid credentials.");
-    return { success: false, message: "Invalid username or password." };
+  } catch (error) {
+    console.error("Login action error:", error);
+    return { success: false, message: "An unexpected error occurred during login." };
   }
 }
 
 export async function logoutAction(): Promise<void> {
     console.log("Logout action: Clearing session cookie.");
-    const cookieStore = cookies();
-    cookieStore.delete('session-token');
+    const cookieStore = await cookies();
+    cookieStore.delete(SESSION_COOKIE_NAME);
     // No need to redirect here, client-side will handle after action completes
 }
+
+// Returns the logged-in user for client components (role-aware UI). Never trust this for enforcement.
+export async function getSessionUserAction(): Promise<SessionUser | null> {
+  return getCurrentUser();
+}
@@ -0,0 +1,283 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, Home, AlertTriangle, Truck, MapPin, Package, Calendar, History, Navigation } from 'lucide-react';
+import Link from 'next/link';
+import { db, doc, getDoc, Timestamp } from '@/lib/firebase/firebase';
+import type { Shipment, ShipmentStatus } from '@/schemas/shipment';
+import { notFound } from 'next/navigation';
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { format } from 'date-fns';
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import { ShipmentStatusUpdater } from "@/components/logistics/shipment-status-updater";
+import { getAuditHistory } from '@/lib/audit';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { AuditHistory } from "@/components/audit/audit-history";
+
+// Linear statuses, used to find where an exception interrupted the shipment
+const progressStatuses: ShipmentStatus[] = ['Label Created', 'Picked Up', 'In Transit', 'Out for Delivery', 'Delivered'];
+
+const toIsoString = (value: unknown): string | undefined =>
+  value instanceof Timestamp ? value.toDate().toISOString() : typeof value === 'string' ? value : undefined;
+
+// Fetch a single shipment, converting Timestamps to ISO strings for rendering
+async function getShipmentDetails(shipmentId: string): Promise<{ shipment: Shipment | null; error?: string }> {
+  if (!db) {
+    console.error("Firestore database is not initialized.");
+    return { shipment: null, error: "Database initialization failed. Please check configuration." };
+  }
+
+  try {
+    const docSnap = await getDoc(doc(db, 'shipments', shipmentId));
+    if (!docSnap.exists()) {
+      console.log("No such document found for shipment ID:", shipmentId);
+      return { shipment: null };
+    }
+    const data = docSnap.data();
+    const shipment: Shipment = {
+      id: docSnap.id,
+      orderId: data.orderId,
+      customerName: data.customerName,
+      carrier: data.carrier,
+      trackingNumber: data.trackingNumber,
+      status: data.status,
+      origin: data.origin,
+      destination: data.destination,
+      estimatedDelivery: data.estimatedDelivery,
+      pieces: data.pieces,
+      weight: data.weight,
+      dimensions: data.dimensions,
+      notes: data.notes,
+      items: Array.isArray(data.items) ? data.items : undefined,
+      history: Array.isArray(data.history) ? data.history : [],
+      actualDelivery: toIsoString(data.actualDelivery) ?? null,
+      createdAt: toIsoString(data.createdAt) || new Date().toISOString(),
+      updatedAt: toIsoString(data.updatedAt),
+      createdBy: data.createdBy,
+      updatedBy: data.updatedBy,
+    };
+    return { shipment };
+  } catch (error) {
+    console.error(`Error fetching shipment ${shipmentId}: ${error instanceof Error ? error.message : String(error)}`);
+    return { shipment: null, error: "Failed to load shipment details due to a database error." };
+  }
+}
+
+const getShipmentStatusVariant = (status?: string): "default" | "secondary" | "outline" | "destructive" => {
+  switch (status) {
+    case 'Label Created':
+      return 'default';
+    case 'Picked Up':
+    case 'In Transit':
+    case 'Out for Delivery':
+      return 'secondary';
+    case 'Delivered':
+      return 'outline';
+    case 'Exception':
+    case 'Delayed':
+      return 'destructive';
+    default:
+      return 'secondary';
+  }
+};
+
+export default async function ShipmentDetailPage({ params }: { params: { shipmentId: string } }) {
+  const [{ shipment, error: fetchError }, { entries: historyEntries, error: historyError }] = await Promise.all([
+    getShipmentDetails(params.shipmentId),
+    getAuditHistory('shipment', params.shipmentId),
+  ]);
+
+  if (fetchError) {
+    return (
+      <div className="container mx-auto py-6 space-y-6">
+        <Breadcrumb>
+          <BreadcrumbList>
+            <BreadcrumbItem><BreadcrumbLink asChild><Link href="/"><Home className="h-4 w-4"/></Link></BreadcrumbLink></BreadcrumbItem>
+            <BreadcrumbSeparator />
+            <BreadcrumbItem><BreadcrumbLink asChild><Link href="/logistics">Logistics</Link></BreadcrumbLink></BreadcrumbItem>
+            <BreadcrumbSeparator />
+            <BreadcrumbItem><BreadcrumbPage>Error</BreadcrumbPage></BreadcrumbItem>
+          </BreadcrumbList>
+        </Breadcrumb>
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Error Loading Shipment</AlertTitle>
+          <AlertDescription>{fetchError}</AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  if (!shipment) {
+    notFound();
+  }
+
+  // Newest event first for the timeline
+  const timeline = [...shipment.history].reverse();
+  const lastProgressStatus = timeline.find((event) => progressStatuses.includes(event.status as ShipmentStatus))?.status as ShipmentStatus | undefined;
+
+  return (
+    <div className="container mx-auto py-6 animate-subtle-fade-in space-y-6">
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem><BreadcrumbLink asChild><Link href="/"><Home className="h-4 w-4"/></Link></BreadcrumbLink></BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem><BreadcrumbLink asChild><Link href="/logistics">Logistics</Link></BreadcrumbLink></BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem><BreadcrumbPage>Shipment {shipment.id.substring(0, 8)}...</BreadcrumbPage></BreadcrumbItem>
+        </BreadcrumbList>
+      </Breadcrumb>
+
+      <div className="flex items-center justify-between">
+        <Button variant="outline" size="sm" asChild>
+          <Link href="/logistics">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Logistics
+          </Link>
+        </Button>
+        <Button variant="outline" size="sm" asChild>
+          <Link href={`/orders/${shipment.orderId}`}>View Order</Link>
+        </Button>
+      </div>
+
+      <Card className="shadow-md">
+        <CardHeader className="flex flex-row items-start justify-between pb-4 gap-4">
+          <div>
+            <CardTitle className="text-2xl lg:text-3xl font-bold">Shipment #{shipment.id}</CardTitle>
+            <CardDescription className="flex items-center gap-2 text-sm text-muted-foreground mt-1">
+              <Calendar className="h-4 w-4"/> Created on {format(new Date(shipment.createdAt), 'PPP p')}
+              {shipment.createdBy && <span>by {shipment.createdBy.name}</span>}
+            </CardDescription>
+          </div>
+          <Badge variant={getShipmentStatusVariant(shipment.status)} className="text-lg px-3 py-1 whitespace-nowrap shrink-0">
+            {shipment.status}
+          </Badge>
+        </CardHeader>
+        <Separator />
+        <CardContent className="pt-6 grid md:grid-cols-3 gap-6">
+          <div className="space-y-2">
+            <h3 className="text-lg font-semibold flex items-center gap-2"><Truck className="h-5 w-5 text-muted-foreground" /> Carrier</h3>
+            <p className="text-sm"><span className="text-muted-foreground">Carrier:</span> {shipment.carrier || 'TBD'}</p>
+            <p className="text-sm flex items-center gap-1">
+              <span className="text-muted-foreground">Tracking #:</span> {shipment.trackingNumber || 'Pending'}
+              {shipment.trackingNumber && shipment.trackingNumber !== 'Pending' && <Navigation className="inline h-3 w-3 ml-1 text-muted-foreground" />}
+            </p>
+            <p className="text-sm">
+              <span className="text-muted-foreground">Order:</span>{' '}
+              <Link href={`/orders/${shipment.orderId}`} className="text-primary hover:underline">{shipment.orderId.substring(0, 8)}...</Link>
+            </p>
+          </div>
+          <div className="space-y-2">
+            <h3 className="text-lg font-semibold flex items-center gap-2"><MapPin className="h-5 w-5 text-muted-foreground" /> Route</h3>
+            <p className="text-sm font-medium">{shipment.customerName}</p>
+            <p className="text-sm"><span className="text-muted-foreground">From:</span> {shipment.origin}</p>
+            <p className="text-sm"><span className="text-muted-foreground">To:</span> {shipment.destination}</p>
+            <p className="text-sm">
+              <span className="text-muted-foreground">Estimated Delivery:</span>{' '}
+              {shipment.estimatedDelivery ? format(new Date(shipment.estimatedDelivery), 'PP') : 'N/A'}
+            </p>
+            {shipment.actualDelivery && (
+              <p className="text-sm"><span className="text-muted-foreground">Delivered:</span> {format(new Date(shipment.actualDelivery), 'PPP p')}</p>
+            )}
+          </div>
+          <div className="space-y-2">
+            <h3 className="text-lg font-semibold flex items-center gap-2"><Package className="h-5 w-5 text-muted-foreground" /> Package</h3>
+            <p className="text-sm"><span className="text-muted-foreground">Pieces:</span> {shipment.pieces ?? 'N/A'}</p>
+            <p className="text-sm"><span className="text-muted-foreground">Weight:</span> {shipment.weight || 'N/A'}</p>
+            <p className="text-sm"><span className="text-muted-foreground">Dimensions:</span> {shipment.dimensions || 'N/A'}</p>
+            {shipment.notes && <p className="text-sm text-muted-foreground italic">{shipment.notes}</p>}
+            <div className="text-sm pt-2">
+              <span className="text-muted-foreground">Items:</span>
+              {shipment.items ? (
+                <ul className="mt-1 space-y-0.5">
+                  {shipment.items.map((item) => (
+                    <li key={item.cartItemId}>{item.quantity} × {item.name} <span className="text-xs text-muted-foreground">({item.sku})</span></li>
+                  ))}
+                </ul>
+              ) : (
+                <span> Entire order</span>
+              )}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Tabs defaultValue="tracking" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="tracking">Tracking</TabsTrigger>
+          <TabsTrigger value="history">History ({historyEntries.length})</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="tracking" className="space-y-6">
+          <ShipmentStatusUpdater shipmentId={shipment.id} currentStatus={shipment.status} lastProgressStatus={lastProgressStatus} />
+
+          <Card className="shadow-md">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2"><MapPin className="h-5 w-5 text-muted-foreground"/> Timeline</CardTitle>
+              <CardDescription>Status updates recorded for this shipment, newest first.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {timeline.length === 0 ? (
+                <p className="text-sm text-muted-foreground italic text-center py-6">No tracking events recorded yet.</p>
+              ) : (
+                <ol className="relative border-l border-border ml-2 space-y-6">
+                  {timeline.map((event, index) => (
+                    <li key={`${event.timestamp}-${index}`} className="ml-6">
+                      <span className={`absolute -left-[7px] mt-1.5 h-3 w-3 rounded-full border-2 border-background ${index === 0 ? 'bg-primary' : 'bg-muted-foreground/50'}`} />
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Badge variant={getShipmentStatusVariant(event.status)}>{event.status}</Badge>
+                        <time className="text-xs text-muted-foreground">{format(new Date(event.timestamp), 'PPP p')}</time>
+                      </div>
+                      {event.location && (
+                        <p className="text-sm mt-1 flex items-center gap-1"><MapPin className="h-3 w-3 text-muted-foreground" /> {event.location}</p>
+                      )}
+                      {event.notes && <p className="text-sm text-muted-foreground mt-1">{event.notes}</p>}
+                      {event.recordedBy && <p className="text-xs text-muted-foreground mt-1">Recorded by {event.recordedBy}</p>}
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {/* Change history from the audit log */}
+        <TabsContent value="history">
+          <Card className="shadow-md">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2"><History className="h-5 w-5 text-muted-foreground"/> Change History</CardTitle>
+              <CardDescription>Every recorded change to this shipment, newest first.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {historyError ? (
+                <p className="text-sm text-destructive">{historyError}</p>
+              ) : (
+                <AuditHistory entries={historyEntries} />
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
+
+// Generate dynamic metadata
+export async function generateMetadata({ params }: { params: { shipmentId: string } }) {
+  const { shipment } = await getShipmentDetails(params.shipmentId);
+  return {
+    title: shipment ? `Shipment #${shipment.id.substring(0, 8)}... | Showroom Manager` : 'Shipment Not Found | Showroom Manager',
+    description: shipment ? `Tracking for ${shipment.customerName}'s shipment.` : 'View shipment details.',
+  };
+}
+
+// Ensure dynamic rendering because data is fetched on each request
+export const dynamic = 'force-dynamic';
@@ -1,147 +1,325 @@
-
 'use server';
 
 import { revalidatePath } from 'next/cache';
-import { db, collection, addDoc, doc, updateDoc, serverTimestamp, Timestamp, arrayUnion, getDoc } from '@/lib/firebase/firebase';
-// Schemas might need updates or removal depending on how shipments are handled now
-import { ShipmentSchema, type CreateShipmentInternal, type Shipment } from '@/schemas/shipment';
-import { linkShipmentToOrderAction } from '@/app/orders/actions'; // This action also needs update
+import { db, collection, doc, serverTimestamp, Timestamp, runTransaction } from '@/lib/firebase/firebase';
+import type { Transaction } from 'firebase/firestore';
+import {
+  ShipmentSchema,
+  UpdateShipmentStatusSchema,
+  type CreateShipmentInternal,
+  type ShipmentHistoryEvent,
+  type ShipmentInput,
+  type ShipmentStatus,
+} from '@/schemas/shipment';
+import { authorize } from '@/lib/auth/server';
+import type { AuthError } from '@/lib/auth/permissions';
+import { recordAudit } from '@/lib/audit';
+import { computeLineFulfillment, deriveFulfillmentStatus, getOrderLineKey, mapFulfillmentShipment } from '@/lib/orders/fulfillment';
+import { isSystemOrderTransitionAllowed } from '@/lib/orders/status-machine';
+import { getOrderPaymentSummary } from '@/lib/orders/payments';
 
-// --- CREATE SHIPMENT ACTION (LIKELY OBSOLETE or NEEDS REWORK) ---
-// Shipment creation is now likely handled within createOrderAction
-/*
-export async function createShipmentAction(data: CreateShipmentInput): Promise<{ success: boolean; message: string; shipmentId?: string; errors?: Record<string, string[]> | null }> {
-  // ... Firestore check ...
+// Orders in these states can't get a new shipment
+const nonShippableOrderStatuses = ['Pending Payment', 'Cancelled', 'Refunded', 'Delivered'];
 
-  const validationResult = ShipmentSchema.safeParse(data);
-  if (!validationResult.success) {
-    // ... handle validation errors ...
-    return { success: false, message: "Validation failed.", errors: validationResult.error.flatten().fieldErrors };
+// Order statuses set from shipping progress; reset to Processing if every departed shipment is reverted
+const fulfillmentOrderStatuses = ['Partially Shipped', 'Shipped', 'Delivered'];
+
+// IDs of every shipment on an order, including the single `trackingInfo.shipmentId` of older orders
+function getOrderShipmentIds(orderData: Record<string, any>): string[] {
+  const ids = new Set<string>(Array.isArray(orderData.shipmentIds) ? orderData.shipmentIds : []);
+  if (orderData.trackingInfo?.shipmentId) ids.add(orderData.trackingInfo.shipmentId);
+  return Array.from(ids);
+}
+
+// Reads an order's other shipments inside a transaction (queries aren't allowed there, so we go by ID)
+async function getShipmentsInTransaction(transaction: Transaction, firestore: NonNullable<typeof db>, shipmentIds: string[]) {
+  const snaps = await Promise.all(shipmentIds.map((id) => transaction.get(doc(firestore, 'shipments', id))));
+  return snaps.filter((snap) => snap.exists()).map((snap) => ({ id: snap.id, ...snap.data() } as Record<string, any>));
+}
+
+// Order status implied by all of its shipments, or null to leave the current status alone.
+// Only edges declared in the status machine are applied.
+function getOrderStatusUpdate(orderData: Record<string, any>, shipments: Record<string, any>[]): string | null {
+  const derived = deriveFulfillmentStatus(computeLineFulfillment(orderData.items || [], shipments.map(mapFulfillmentShipment)));
+  const next = derived ?? (fulfillmentOrderStatuses.includes(orderData.status) ? 'Processing' : null);
+  if (!next || next === orderData.status) return null;
+  if (!isSystemOrderTransitionAllowed(orderData.status, next)) {
+    console.warn(`Order status ${orderData.status} → ${next} implied by shipments is not allowed; leaving status unchanged.`);
+    return null;
   }
+  return next;
+}
 
-  const initialHistoryEvent = {
-      timestamp: Timestamp.now().toISOString(),
-      status: validationResult.data.status,
-      location: validationResult.data.origin,
+// Builds a history event, leaving out empty optional fields (Firestore rejects undefined)
+function buildHistoryEvent(status: ShipmentStatus, recordedBy: string, location?: string, notes?: string): ShipmentHistoryEvent {
+  const event: ShipmentHistoryEvent = {
+    timestamp: new Date().toISOString(),
+    status,
+    recordedBy,
   };
+  if (location?.trim()) event.location = location.trim();
+  if (notes?.trim()) event.notes = notes.trim();
+  return event;
+}
 
-  const newShipmentData: CreateShipmentInternal = { // Use internal type if needed
-    ...validationResult.data,
-    createdAt: Timestamp.now(), // Use Firestore Timestamp for creation
-    updatedAt: Timestamp.now(), // Use Firestore Timestamp for creation
-    history: [initialHistoryEvent],
-    actualDelivery: null,
-  };
+
+// --- CREATE SHIPMENT ACTION ---
+// Creates a document in `shipments` for an order and links it from order.trackingInfo in one transaction.
+export async function createShipmentAction(
+  data: ShipmentInput
+): Promise<{ success: boolean; message: string; shipmentId?: string; errors?: Record<string, string[]> | null; error?: AuthError }> {
+  if (!db) {
+    console.error("createShipmentAction: Firestore database is not initialized.");
+    return { success: false, message: "Database configuration error.", errors: null };
+  }
+
+  const auth = await authorize('shipments:create');
+  if (!auth.ok) return { success: false, message: auth.message, errors: null, error: auth.error };
+
+  const validationResult = ShipmentSchema.safeParse(data);
+  if (!validationResult.success) {
+    console.error("Create Shipment Validation Errors:", validationResult.error.flatten().fieldErrors);
+    return { success: false, message: "Validation failed. Please check the form fields.", errors: validationResult.error.flatten().fieldErrors };
+  }
+  const validatedData = validationResult.data;
+  const actor = { id: auth.user.id, name: auth.user.name, role: auth.user.role };
+
+  const firestore = db; // Narrowed reference for use inside the transaction callback
+  const orderDocRef = doc(firestore, 'orders', validatedData.orderId);
+  const shipmentDocRef = doc(collection(firestore, 'shipments')); // Pre-generate the ID so the order can reference it
 
   try {
-    const shipmentsCollectionRef = collection(db, 'shipments');
-    const docRef = await addDoc(shipmentsCollectionRef, newShipmentData);
+    const { orderBefore, shipmentData, orderUpdate } = await runTransaction(firestore, async (transaction) => {
+      const orderSnap = await transaction.get(orderDocRef);
+      if (!orderSnap.exists()) {
+        throw new Error(`Order ${validatedData.orderId} not found.`);
+      }
+      const orderData = orderSnap.data();
+      if (nonShippableOrderStatuses.includes(orderData.status)) {
+        throw new Error(`Order is ${orderData.status} and cannot be shipped.`);
+      }
+      const shipmentIds = getOrderShipmentIds(orderData);
+      const existingShipments = await getShipmentsInTransaction(transaction, firestore, shipmentIds);
+
+      // Check each requested line against what is still unallocated on the order. Lines are checked one by
+      // one, so a line listed twice is refused rather than shipped past what's left.
+      if (new Set(validatedData.items.map((item) => item.cartItemId)).size !== validatedData.items.length) {
+        throw new Error("Each order line can only be listed once on a shipment.");
+      }
+      const orderLines: any[] = orderData.items || [];
+      const fulfillment = computeLineFulfillment(orderLines, existingShipments.map(mapFulfillmentShipment));
+      const shipmentItems = validatedData.items.map((item) => {
+        const lineIndex = orderLines.findIndex((line, index) => getOrderLineKey(line, index) === item.cartItemId);
+        const line = fulfillment[lineIndex];
+        if (lineIndex === -1 || !line) {
+          throw new Error(`Item ${item.name || item.cartItemId} is not on this order.`);
+        }
+        if (item.quantity > line.shippable) {
+          const waiting = Math.min(line.awaitingSupply, line.remaining);
+          throw new Error(`Only ${line.shippable} of ${line.name} can ship now (requested ${item.quantity})${waiting > 0 ? `; ${waiting} still backordered or being made` : ''}.`);
+        }
+        // Name/SKU come from the order, not the client
+        return { cartItemId: item.cartItemId, doorId: orderLines[lineIndex].doorId, name: line.name, sku: line.sku, quantity: item.quantity };
+      });
+
+      const now = Timestamp.now();
+      const newShipment: CreateShipmentInternal = {
+        ...validatedData,
+        items: shipmentItems,
+        createdAt: now,
+        updatedAt: now,
+        history: [buildHistoryEvent(validatedData.status, auth.user.name, validatedData.origin, validatedData.notes)],
+        actualDelivery: null,
+        createdBy: actor,
+      };
+      // Remove empty optional fields before writing
+      (Object.keys(newShipment) as (keyof CreateShipmentInternal)[]).forEach((key) => {
+        if (newShipment[key] === undefined || newShipment[key] === '') delete newShipment[key];
+      });
 
-    // Link shipment to order (this action also needs update)
-    // const linkResult = await linkShipmentToOrderAction(newShipmentData.orderId, docRef.id);
-    // ... handle link result ...
+      // trackingInfo mirrors the newest shipment; the full list is in shipmentIds
+      const trackingInfo: Record<string, any> = {
+        shipmentId: shipmentDocRef.id,
+        status: validatedData.status,
+        carrier: validatedData.carrier || orderData.trackingInfo?.carrier,
+        trackingNumber: validatedData.trackingNumber,
+        estimatedDelivery: validatedData.estimatedDelivery,
+        actualDelivery: null,
+      };
+      Object.keys(trackingInfo).forEach((key) => {
+        if (trackingInfo[key] === undefined || trackingInfo[key] === '') delete trackingInfo[key];
+      });
+
+      const update: Record<string, any> = {
+        trackingInfo,
+        shipmentIds: [...shipmentIds, shipmentDocRef.id],
+        updatedBy: actor,
+        updatedAt: serverTimestamp(),
+      };
+      const statusUpdate = getOrderStatusUpdate(orderData, [...existingShipments, newShipment]);
+      if (statusUpdate) {
+        update.status = statusUpdate;
+        update.payment = getOrderPaymentSummary({ ...orderData, status: statusUpdate }); // e.g. a delivered COD order
+      }
+
+      transaction.set(shipmentDocRef, newShipment);
+      transaction.update(orderDocRef, update);
+      return { orderBefore: orderData, shipmentData: newShipment, orderUpdate: update };
+    });
+    console.log(`Shipment ${shipmentDocRef.id} created for order ${validatedData.orderId}.`);
+
+    await recordAudit({
+      actor: auth.user,
+      entityType: 'shipment',
+      entityId: shipmentDocRef.id,
+      entityLabel: validatedData.customerName,
+      action: 'create',
+      before: null,
+      after: shipmentData as unknown as Record<string, unknown>,
+    });
+    await recordAudit({
+      actor: auth.user,
+      entityType: 'order',
+      entityId: validatedData.orderId,
+      entityLabel: orderBefore.shippingInfo?.name,
+      action: 'link_shipment',
+      before: orderBefore,
+      after: orderUpdate,
+    });
 
     revalidatePath('/logistics');
-    revalidatePath(`/logistics/${docRef.id}`);
+    revalidatePath(`/logistics/${shipmentDocRef.id}`);
+    revalidatePath('/orders');
+    revalidatePath(`/orders/${validatedData.orderId}`);
     revalidatePath('/');
 
-    return {
-      success: true,
-      message: `Shipment ${docRef.id} created successfully!`, // Adjust message
-      shipmentId: docRef.id,
-    };
+    return { success: true, message: "Shipment created successfully.", shipmentId: shipmentDocRef.id, errors: null };
   } catch (error) {
-    // ... error handling ...
-    return { success: false, message: "Failed to create shipment.", errors: null };
+    console.error(`Error creating shipment for order ${validatedData.orderId}:`, error);
+    const errorMessage = error instanceof Error ? error.message : "Failed to create shipment due to a server error.";
+    return { success: false, message: errorMessage, errors: null };
   }
 }
-*/
 
-// --- UPDATE SHIPMENT STATUS ACTION (NEEDS REWORK) ---
-// This action now needs to update the 'trackingInfo' within the specific ORDER document.
-/*
+
+// --- UPDATE SHIPMENT STATUS ACTION ---
+// Appends a history event to the shipment and mirrors the status onto the linked order in one transaction.
 export async function updateShipmentStatusAction(
-  orderId: string, // Need Order ID to find the document
-  newStatus: string, // Use string as enum might change
+  shipmentId: string,
+  newStatus: ShipmentStatus,
   location?: string,
   notes?: string
-): Promise<{ success: boolean; message: string }> {
+): Promise<{ success: boolean; message: string; error?: AuthError }> {
   if (!db) return { success: false, message: "Database config error." };
-  if (!orderId) return { success: false, message: "Order ID is required." };
+  if (!shipmentId) return { success: false, message: "Shipment ID is required." };
 
-  // Optional: Validate newStatus against expected values if needed
+  const auth = await authorize('shipments:update_status');
+  if (!auth.ok) return { success: false, message: auth.message, error: auth.error };
 
-  const now = Timestamp.now();
-  const historyEvent = {
-    timestamp: now.toDate().toISOString(),
-    status: newStatus,
-    location: location || "Update Recorded",
-    notes: notes || undefined,
-  };
-   if (historyEvent.notes === undefined) delete historyEvent.notes;
+  const validationResult = UpdateShipmentStatusSchema.safeParse({ status: newStatus, location, notes });
+  if (!validationResult.success) {
+    console.warn(`Invalid shipment status update for ${shipmentId}:`, validationResult.error.flatten().fieldErrors);
+    return { success: false, message: `Invalid status update: ${validationResult.error.errors[0]?.message}` };
+  }
+  const update = validationResult.data;
+  const actor = { id: auth.user.id, name: auth.user.name, role: auth.user.role };
+
+  const firestore = db; // Narrowed reference for use inside the transaction callback
+  const shipmentDocRef = doc(firestore, 'shipments', shipmentId);
 
   try {
-    console.log(`Attempting to update tracking status for order ID: ${orderId} to ${newStatus}`);
-    const orderDocRef = doc(db, 'orders', orderId);
-
-    // Prepare update for the 'trackingInfo' map field
-    const updateData: any = {
-        // Use dot notation to update specific fields in the map
-        'trackingInfo.status': newStatus,
-        'trackingInfo.updatedAt': now, // Add/update an updatedAt within trackingInfo?
-        // Add history event? Firestore doesn't directly support arrayUnion within a map update easily.
-        // Might need to read the order, update the history array, then update the whole trackingInfo map.
-        // OR store history separately if it gets complex.
-    };
-
-    // Handle 'Delivered' status - update trackingInfo and maybe top-level order status
-    if (newStatus === 'Delivered') {
-        updateData['trackingInfo.actualDelivery'] = now; // Add actualDelivery to trackingInfo
-        // Optionally update the main order status as well
-        // updateData['status'] = 'Delivered'; // Update top-level status
-    }
+    const result = await runTransaction(firestore, async (transaction) => {
+      const shipmentSnap = await transaction.get(shipmentDocRef);
+      if (!shipmentSnap.exists()) {
+        throw new Error(`Shipment ${shipmentId} not found.`);
+      }
+      const shipmentData = shipmentSnap.data();
+      if (shipmentData.status === update.status) {
+        throw new Error(`Shipment is already ${update.status}.`);
+      }
+
+      // Reads must all happen before writes in a transaction
+      const orderDocRef = doc(firestore, 'orders', shipmentData.orderId);
+      const orderSnap = await transaction.get(orderDocRef);
+      const otherShipments = orderSnap.exists()
+        ? await getShipmentsInTransaction(transaction, firestore, getOrderShipmentIds(orderSnap.data()).filter((id) => id !== shipmentId))
+        : [];
+
+      const historyEvent = buildHistoryEvent(update.status, auth.user.name, update.location, update.notes);
+      const isDelivered = update.status === 'Delivered';
+      const actualDelivery = isDelivered ? Timestamp.now() : null; // Cleared if a delivery is reverted
 
-    // --- Read-Modify-Write for History (Example) ---
-    const orderSnap = await getDoc(orderDocRef);
-    if (orderSnap.exists()) {
+      const shipmentUpdate: Record<string, any> = {
+        status: update.status,
+        history: [...(shipmentData.history || []), historyEvent],
+        actualDelivery,
+        updatedBy: actor,
+        updatedAt: serverTimestamp(),
+      };
+      transaction.update(shipmentDocRef, shipmentUpdate);
+
+      let orderUpdate: Record<string, any> | null = null;
+      if (orderSnap.exists()) {
         const orderData = orderSnap.data();
-        const currentTrackingInfo = orderData.trackingInfo || {};
-        const currentHistory = currentTrackingInfo.history || [];
-        currentHistory.push(historyEvent); // Add new event
-        updateData['trackingInfo.history'] = currentHistory; // Update the whole history array
-    } else {
-        return { success: false, message: `Order ${orderId} not found.` };
-    }
-     // --- End Read-Modify-Write ---
+        // trackingInfo mirrors the shipment updated most recently
+        orderUpdate = {
+          'trackingInfo.status': update.status,
+          'trackingInfo.shipmentId': shipmentId,
+          'trackingInfo.actualDelivery': actualDelivery ? actualDelivery.toDate().toISOString() : null,
+          shipmentIds: getOrderShipmentIds({ ...orderData, shipmentIds: [...(orderData.shipmentIds || []), shipmentId] }),
+          updatedBy: actor,
+          updatedAt: serverTimestamp(),
+        };
+        if (shipmentData.carrier) orderUpdate['trackingInfo.carrier'] = shipmentData.carrier;
+        if (shipmentData.trackingNumber) orderUpdate['trackingInfo.trackingNumber'] = shipmentData.trackingNumber;
+        // Order status follows all shipments, e.g. one delivered load of two leaves it Partially Shipped
+        const statusUpdate = getOrderStatusUpdate(orderData, [...otherShipments, { ...shipmentData, ...shipmentUpdate }]);
+        if (statusUpdate) {
+          orderUpdate.status = statusUpdate;
+          orderUpdate.payment = getOrderPaymentSummary({ ...orderData, status: statusUpdate }); // The stored summary follows the status
+        }
+        transaction.update(orderDocRef, orderUpdate);
+      } else {
+        console.warn(`Shipment ${shipmentId} references missing order ${shipmentData.orderId}; only the shipment was updated.`);
+      }
 
+      return { shipmentBefore: shipmentData, shipmentUpdate, orderBefore: orderSnap.exists() ? orderSnap.data() : null, orderUpdate };
+    });
+    console.log(`Shipment ${shipmentId} status updated to ${update.status}.`);
 
-    await updateDoc(orderDocRef, updateData);
-    console.log(`Successfully updated tracking status for order ID: ${orderId}`);
+    const orderId: string = result.shipmentBefore.orderId;
+    await recordAudit({
+      actor: auth.user,
+      entityType: 'shipment',
+      entityId: shipmentId,
+      entityLabel: result.shipmentBefore.customerName,
+      action: 'status_change',
+      before: result.shipmentBefore,
+      // The history array is append-only, so only the status fields are diffed
+      after: { status: result.shipmentUpdate.status, actualDelivery: result.shipmentUpdate.actualDelivery },
+    });
+    if (result.orderBefore && result.orderUpdate) {
+      await recordAudit({
+        actor: auth.user,
+        entityType: 'order',
+        entityId: orderId,
+        entityLabel: result.orderBefore.shippingInfo?.name,
+        action: 'status_change',
+        before: result.orderBefore,
+        after: result.orderUpdate,
+      });
+    }
 
-    // --- Revalidate Paths ---
-    revalidatePath('/logistics'); // Revalidate logistics list (derived from orders)
-    revalidatePath(`/orders/${orderId}`); // Revalidate the order detail page
+    revalidatePath('/logistics');
+    revalidatePath(`/logistics/${shipmentId}`);
+    revalidatePath('/orders');
+    revalidatePath(`/orders/${orderId}`);
     revalidatePath('/');
 
     return { success: true, message: "Shipment status updated successfully." };
   } catch (error) {
-    // ... error handling ...
-    return { success: false, message: "Failed to update shipment status." };
+    console.error(`Error updating shipment status for ${shipmentId}:`, error);
+    const errorMessage = error instanceof Error ? error.message : "Failed to update shipment status due to a server error.";
+    return { success: false, message: errorMessage };
   }
 }
-*/
-
-
-// --- Placeholder Functions ---
-export async function createShipmentAction(data: any): Promise<any> {
-    console.warn("createShipmentAction is likely obsolete or needs rework.");
-    return { success: false, message: "Shipment creation now handled via orders." };
-}
-
-export async function updateShipmentStatusAction(orderId: string, newStatus: string, location?: string, notes?: string): Promise<any> {
-    console.warn("updateShipmentStatusAction needs rework to update order's trackingInfo.");
-    return { success: false, message: "Shipment status update needs rework." };
-}
-
-// Delete Shipment action is likely irrelevant now as shipments are part of orders.
-// Deleting an order should handle associated data.
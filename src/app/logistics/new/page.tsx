@@ -0,0 +1,106 @@
+import { CreateShipmentForm, type ShippableOrderOption } from "@/components/logistics/create-shipment-form";
+import { ArrowLeft, Home } from "lucide-react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import { db, collection, getDocs, query, orderBy } from '@/lib/firebase/firebase';
+import { computeLineFulfillment } from '@/lib/orders/fulfillment';
+
+// Orders in these states can't be shipped (mirrors the check in createShipmentAction)
+const nonShippableOrderStatuses = ['Pending Payment', 'Cancelled', 'Refunded', 'Delivered'];
+
+// Orders with quantity not yet on any shipment, newest first
+async function getShippableOrders(): Promise<{ orders: ShippableOrderOption[]; error?: string }> {
+  if (!db) {
+    console.error("Firestore database is not initialized. Cannot fetch orders for shipment creation.");
+    return { orders: [], error: "Database initialization failed." };
+  }
+
+  try {
+    const ordersQuery = query(collection(db, 'orders'), orderBy('orderDate', 'desc'));
+    const [ordersSnapshot, shipmentsSnapshot] = await Promise.all([getDocs(ordersQuery), getDocs(collection(db, 'shipments'))]);
+
+    // Group existing shipments by order so remaining quantities can be computed per line
+    const shipmentsByOrder = new Map<string, any[]>();
+    shipmentsSnapshot.forEach((docSnap) => {
+      const data = docSnap.data();
+      shipmentsByOrder.set(data.orderId, [...(shipmentsByOrder.get(data.orderId) || []), data]);
+    });
+
+    const orders: ShippableOrderOption[] = [];
+    ordersSnapshot.forEach((docSnap) => {
+      const data = docSnap.data();
+      if (nonShippableOrderStatuses.includes(data.status)) return;
+      const items: any[] = data.items || [];
+      const lines = computeLineFulfillment(items, shipmentsByOrder.get(docSnap.id) || [])
+        .map((line, index) => ({ cartItemId: line.lineKey, doorId: items[index].doorId, name: line.name, sku: line.sku, ordered: line.ordered, remaining: line.shippable }))
+        .filter((line) => line.remaining > 0);
+      if (lines.length === 0) return;
+      const shippingInfo = data.shippingInfo || {};
+      orders.push({
+        id: docSnap.id,
+        customerName: shippingInfo.name || 'N/A',
+        destination: [shippingInfo.address, shippingInfo.city, shippingInfo.state, shippingInfo.zipCode].filter(Boolean).join(', '),
+        status: data.status,
+        lines,
+      });
+    });
+    return { orders };
+  } catch (error) {
+    console.error(`Error fetching orders for shipment creation: ${error instanceof Error ? error.message : String(error)}`);
+    return { orders: [], error: "Failed to load orders." };
+  }
+}
+
+export default async function CreateShipmentPage({ searchParams }: { searchParams: Promise<{ orderId?: string }> }) {
+  const { orderId } = await searchParams;
+  const { orders, error: fetchError } = await getShippableOrders();
+
+  return (
+    <div className="container mx-auto py-6 animate-subtle-fade-in space-y-6">
+      {/* Breadcrumbs */}
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild><Link href="/"><Home className="h-4 w-4"/></Link></BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild><Link href="/logistics">Logistics</Link></BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbPage>Create Shipment</BreadcrumbPage>
+          </BreadcrumbItem>
+        </BreadcrumbList>
+      </Breadcrumb>
+
+      <div className="flex items-center justify-between">
+        <Button variant="outline" size="sm" asChild>
+          <Link href={orderId ? `/orders/${orderId}` : "/logistics"}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            {orderId ? "Back to Order" : "Back to Logistics"}
+          </Link>
+        </Button>
+        <h1 className="text-2xl font-semibold text-foreground hidden md:block">Create Shipment</h1>
+      </div>
+
+      <CreateShipmentForm orders={orders} defaultOrderId={orderId} fetchError={fetchError} />
+    </div>
+  );
+}
+
+export const metadata = {
+  title: 'Create Shipment | Showroom Manager',
+  description: 'Schedule a shipment for an order.',
+};
+
+// Ensure dynamic rendering because order data is fetched
+export const dynamic = 'force-dynamic';
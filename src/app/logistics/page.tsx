@@ -17,28 +17,27 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { db, collection, getDocs, Timestamp, query, orderBy, where } from '@/lib/firebase/firebase';
-// Import Order type as logistics data now comes from the Order collection's trackingInfo
-import type { Order, TrackingInfoSchema } from '@/schemas/order';
+import { db, collection, getDocs, Timestamp, query, orderBy } from '@/lib/firebase/firebase';
 import Link from 'next/link';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { format } from 'date-fns';
 import { Skeleton } from '@/components/ui/skeleton'; // Import Skeleton
+import { useCurrentUser } from '@/hooks/use-current-user';
 
-// Define a structure for displaying logistics data derived from orders
+// Row shown in the shipments table, read from the `shipments` collection
 interface LogisticsDisplayItem {
-    id: string; // Order ID
-    orderId: string; // Order ID again for clarity
-    customerName: string; // From shippingInfo
-    carrier?: string; // From trackingInfo
-    trackingNumber?: string; // From trackingInfo
-    destination: string; // From shippingInfo address (simplified)
-    estimatedDelivery?: string; // Not directly available in new structure, maybe add later
-    status?: string; // From trackingInfo
-    createdAt: string; // Order creation date
+    id: string; // Shipment ID
+    orderId: string; // Linked order
+    customerName: string;
+    carrier?: string;
+    trackingNumber?: string;
+    destination: string;
+    estimatedDelivery?: string;
+    status?: string;
+    createdAt: string; // Shipment creation date
 }
 
-// Function to fetch logistics data derived from orders
+// Function to fetch shipments, newest first
 async function getLogisticsData(): Promise<{ items: LogisticsDisplayItem[]; error?: string }> {
    if (!db) {
      const errorMessage = "Firestore database is not initialized. Cannot fetch logistics data.";
@@ -47,38 +46,31 @@ async function getLogisticsData(): Promise<{ items: LogisticsDisplayItem[]; erro
    }
 
    try {
-     console.log("Attempting to fetch logistics data from orders...");
-     const ordersCollectionRef = collection(db, 'orders');
-     // Fetch orders that have tracking information (or all orders if tracking is optional)
-     // const q = query(ordersCollectionRef, where('trackingInfo', '!=', null), orderBy('orderDate', 'desc'));
-     const q = query(ordersCollectionRef, orderBy('orderDate', 'desc')); // Fetch all for now
+     console.log("Attempting to fetch shipments...");
+     const q = query(collection(db, 'shipments'), orderBy('createdAt', 'desc'));
      const querySnapshot = await getDocs(q);
 
      const logisticsItems: LogisticsDisplayItem[] = [];
      querySnapshot.forEach((doc) => {
-        const data = doc.data() as Order; // Use the Order type
-
-        // Only include orders that have some form of tracking info or are relevant for logistics view
-        // if (data.trackingInfo) { // Can filter here if needed
-             logisticsItems.push({
-                 id: doc.id,
-                 orderId: doc.id,
-                 customerName: data.shippingInfo?.name || 'N/A',
-                 carrier: data.trackingInfo?.carrier,
-                 trackingNumber: data.trackingInfo?.trackingNumber,
-                 // Simplify destination display
-                 destination: `${data.shippingInfo?.city || ''}, ${data.shippingInfo?.state || ''}`,
-                 status: data.trackingInfo?.status || data.status, // Fallback to main order status if tracking status missing
-                 createdAt: data.orderDate, // Use order date
-             });
-        // }
+        const data = doc.data();
+        logisticsItems.push({
+            id: doc.id,
+            orderId: data.orderId,
+            customerName: data.customerName || 'N/A',
+            carrier: data.carrier,
+            trackingNumber: data.trackingNumber,
+            destination: data.destination || '',
+            estimatedDelivery: data.estimatedDelivery || undefined,
+            status: data.status,
+            createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate().toISOString() : new Date().toISOString(),
+        });
      });
-     console.log(`Fetched ${logisticsItems.length} logistics-relevant orders.`);
+     console.log(`Fetched ${logisticsItems.length} shipments.`);
      return { items: logisticsItems };
    } catch (error) {
-     let errorMessage = `Error fetching logistics data from orders: ${error instanceof Error ? error.message : String(error)}`;
+     let errorMessage = `Error fetching shipments: ${error instanceof Error ? error.message : String(error)}`;
         if (error instanceof Error && error.message.toLowerCase().includes("index")) {
-            errorMessage = "Firestore query failed: A required index is missing. Please check the Firebase console (Firestore Database > Indexes) for the 'orders' collection, ordered by 'orderDate' descending.";
+            errorMessage = "Firestore query failed: A required index is missing. Please check the Firebase console (Firestore Database > Indexes) for the 'shipments' collection, ordered by 'createdAt' descending.";
             console.warn(errorMessage);
         }
      console.error(errorMessage);
@@ -90,10 +82,12 @@ async function getLogisticsData(): Promise<{ items: LogisticsDisplayItem[]; erro
 const getLogisticsStatusVariant = (status?: string): "default" | "secondary" | "outline" | "destructive" => {
     switch (status?.toLowerCase()) {
      case 'processing':
-     case 'shipment information received':
+     case 'label created':
        return 'default';
      case 'shipped':
+     case 'picked up':
      case 'in transit':
+     case 'out for delivery':
        return 'secondary';
      case 'delivered':
        return 'outline';
@@ -120,6 +114,7 @@ const getDistinctLogisticsStatuses = (items: LogisticsDisplayItem[]): string[] =
 
 
 export default function LogisticsPage() {
+  const { can } = useCurrentUser();
   const [logisticsItems, setLogisticsItems] = React.useState<LogisticsDisplayItem[]>([]);
   const [isLoading, setIsLoading] = React.useState(true);
   const [fetchError, setFetchError] = React.useState<string | null>(null);
@@ -158,6 +153,7 @@ export default function LogisticsPage() {
     return logisticsItems.filter(item => {
       const searchLower = searchQuery.toLowerCase();
       const matchesSearch = searchQuery === "" ||
+        item.id.toLowerCase().includes(searchLower) ||
         (item.orderId && item.orderId.toLowerCase().includes(searchLower)) ||
         (item.trackingNumber && item.trackingNumber.toLowerCase().includes(searchLower)) ||
         (item.customerName && item.customerName.toLowerCase().includes(searchLower)) ||
@@ -173,10 +169,13 @@ export default function LogisticsPage() {
     <div className="container mx-auto py-6 animate-subtle-fade-in space-y-8">
       <div className="flex flex-col md:flex-row justify-between md:items-center gap-4">
         <h1 className="text-4xl font-bold text-foreground">Logistics</h1>
-        {/* Shipment creation is now tied to order creation */}
-        <Button disabled className="btn-primary-gradient">
-          <PlusCircle className="mr-2 h-4 w-4" /> Schedule Shipment (Auto via Order)
-        </Button>
+        {can('shipments:create') && (
+          <Button asChild className="btn-primary-gradient">
+            <Link href="/logistics/new">
+              <PlusCircle className="mr-2 h-4 w-4" /> Schedule Shipment
+            </Link>
+          </Button>
+        )}
       </div>
 
       {/* Display Error if fetching failed */}
@@ -193,7 +192,7 @@ export default function LogisticsPage() {
                )}
                 {fetchError.includes("index") && (
                  <span className="block mt-2 text-xs">
-                    A Firestore index might be required. Please check the Firebase console under Firestore Database &gt; Indexes. Create an index on the 'orders' collection for the 'orderDate' field (descending).
+                    A Firestore index might be required. Please check the Firebase console under Firestore Database &gt; Indexes. Create an index on the 'shipments' collection for the 'createdAt' field (descending).
                  </span>
                 )}
              </AlertDescription>
@@ -206,7 +205,7 @@ export default function LogisticsPage() {
            <div className="relative flex-grow w-full md:w-auto">
              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
              <Input
-               placeholder="Search Order ID, Tracking, Customer, Dest..."
+               placeholder="Search Shipment, Order ID, Tracking, Customer..."
                className="pl-10"
                value={searchQuery}
                onChange={(e) => setSearchQuery(e.target.value)}
@@ -262,6 +261,7 @@ export default function LogisticsPage() {
              <Table>
                <TableHeader>
                  <TableRow>
+                   <TableHead><Skeleton className="h-5 w-20" /></TableHead> {/* Shipment */}
                    <TableHead><Skeleton className="h-5 w-20" /></TableHead> {/* Order ID */}
                    <TableHead><Skeleton className="h-5 w-24" /></TableHead> {/* Carrier */}
                    <TableHead><Skeleton className="h-5 w-32" /></TableHead> {/* Tracking */}
@@ -274,6 +274,7 @@ export default function LogisticsPage() {
                <TableBody>
                  {Array.from({ length: 5 }).map((_, index) => (
                    <TableRow key={index}>
+                     <TableCell><Skeleton className="h-5 w-20" /></TableCell>
                      <TableCell><Skeleton className="h-5 w-20" /></TableCell>
                      <TableCell><Skeleton className="h-5 w-24" /></TableCell>
                      <TableCell><Skeleton className="h-5 w-32" /></TableCell>
@@ -291,12 +292,13 @@ export default function LogisticsPage() {
        <Card className="shadow-md">
          <CardHeader>
            <CardTitle>Shipment Tracking</CardTitle>
-           <CardDescription>Monitor shipment status based on order tracking information.</CardDescription>
+           <CardDescription>Monitor shipments and their delivery status.</CardDescription>
          </CardHeader>
          <CardContent>
            <Table>
              <TableHeader>
                <TableRow>
+                 <TableHead>Shipment</TableHead>
                  <TableHead>Order ID</TableHead>
                  <TableHead>Carrier</TableHead>
                  <TableHead>Tracking #</TableHead>
@@ -312,6 +314,11 @@ export default function LogisticsPage() {
                {filteredItems.map((item) => (
                  <TableRow key={item.id}>
                    <TableCell className="font-medium">
+                     <Link href={`/logistics/${item.id}`} className="text-primary hover:underline">
+                        {item.id.substring(0, 8)}...
+                     </Link>
+                   </TableCell>
+                   <TableCell>
                      {/* Link to the order detail page */}
                      <Link href={`/orders/${item.orderId}`} className="text-primary hover:underline">
                         {item.orderId.substring(0, 8)}...
@@ -342,13 +349,12 @@ export default function LogisticsPage() {
                        </DropdownMenuTrigger>
                        <DropdownMenuContent align="end">
                          <DropdownMenuLabel>Actions</DropdownMenuLabel>
-                         {/* Link to order details instead of non-existent logistics detail */}
+                         <DropdownMenuItem asChild>
+                            <Link href={`/logistics/${item.id}`}>View Shipment Details</Link>
+                         </DropdownMenuItem>
                          <DropdownMenuItem asChild>
                             <Link href={`/orders/${item.orderId}`}>View Order Details</Link>
                         </DropdownMenuItem>
-                         {/* Logistics detail page needs rework or removal */}
-                         <DropdownMenuItem disabled>View Shipment Details (soon)</DropdownMenuItem>
-                         <DropdownMenuItem disabled>Update Status (soon)</DropdownMenuItem>
                          <DropdownMenuItem disabled>Print Label (soon)</DropdownMenuItem>
                          <DropdownMenuSeparator />
                           <DropdownMenuItem disabled={!item.trackingNumber || item.trackingNumber === 'Pending'}>
@@ -371,7 +377,7 @@ export default function LogisticsPage() {
               <p className="text-sm mt-2">
                  {searchQuery || selectedStatus !== 'all' || selectedCarrier !== 'all'
                    ? "Try adjusting your search or filters."
-                   : "Shipment information is linked to orders."}
+                   : "Shipments scheduled for orders will appear here."}
               </p>
             </div>
          </Card>
@@ -0,0 +1,75 @@
+// Downloads an order document as a PDF: /orders/<id>/documents/<invoice|packing_slip|delivery_note>,
+// with ?shipmentId=<id> to limit a packing slip or delivery note to one shipment.
+// An invoice is only rendered once it has been issued (issueInvoiceAction); downloading never numbers one,
+// and prints from the snapshot taken when it was issued.
+
+import { createHash } from 'crypto';
+import { NextResponse } from 'next/server';
+import { db, doc, getDoc } from '@/lib/firebase/firebase';
+import { authorize } from '@/lib/auth/server';
+import { getOrderDocumentReference, renderOrderDocument } from '@/lib/documents/order-documents';
+import { getInvoiceDocumentSource } from '@/lib/documents/invoices';
+import { DEFAULT_BRANDING, getBrandingSettings } from '@/lib/settings/branding-settings';
+import { getTaxSettings } from '@/lib/settings/tax-settings';
+import { OrderDocumentTypeEnum } from '@/schemas/document';
+
+export async function GET(request: Request, { params }: { params: Promise<{ orderId: string; documentType: string }> }) {
+  const { orderId, documentType } = await params;
+  const parsedType = OrderDocumentTypeEnum.safeParse(documentType);
+  if (!parsedType.success) {
+    return NextResponse.json({ message: `Unknown document type "${documentType}".` }, { status: 404 });
+  }
+  const type = parsedType.data;
+
+  const auth = type === 'invoice' ? await authorize('orders:invoice') : await authorize();
+  if (!auth.ok) {
+    return NextResponse.json({ message: auth.message, error: auth.error }, { status: auth.error.code === 'unauthenticated' ? 401 : 403 });
+  }
+  if (!db) return NextResponse.json({ message: "Database initialization failed." }, { status: 500 });
+
+  try {
+    const orderRef = doc(db, 'orders', orderId);
+    const orderSnap = await getDoc(orderRef);
+    if (!orderSnap.exists()) return NextResponse.json({ message: `Order ${orderId} not found.` }, { status: 404 });
+    const order = orderSnap.data();
+    if (type === 'invoice' && !order.invoice?.number) {
+      return NextResponse.json({ message: "This order hasn't been invoiced yet; issue the invoice from the order page first." }, { status: 409 });
+    }
+
+    let shipment: { id: string; data: Record<string, any> } | undefined;
+    const shipmentId = new URL(request.url).searchParams.get('shipmentId');
+    if (shipmentId && type !== 'invoice') {
+      const shipmentSnap = await getDoc(doc(db, 'shipments', shipmentId));
+      if (!shipmentSnap.exists() || shipmentSnap.data().orderId !== orderId) {
+        return NextResponse.json({ message: `Shipment ${shipmentId} not found on this order.` }, { status: 404 });
+      }
+      shipment = { id: shipmentSnap.id, data: shipmentSnap.data() };
+    }
+
+    const [{ settings: branding }, { settings: taxSettings }] = await Promise.all([getBrandingSettings(), getTaxSettings()]);
+    const liveSource = {
+      orderId,
+      order,
+      branding: branding ?? DEFAULT_BRANDING,
+      sellerGstin: taxSettings?.gstin || undefined,
+      shipment,
+    };
+    const source = type === 'invoice' ? getInvoiceDocumentSource(liveSource) : liveSource;
+    const pdf = renderOrderDocument(type, source);
+
+    return new NextResponse(Buffer.from(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${getOrderDocumentReference(type, source)}.pdf"`,
+        'Content-Length': String(pdf.byteLength),
+        'Cache-Control': 'private, no-cache',
+        ETag: `"${createHash('sha256').update(pdf).digest('hex')}"`,
+      },
+    });
+  } catch (error) {
+    console.error(`Error generating the ${type} for order ${orderId}:`, error);
+    return NextResponse.json({ message: "Failed to generate the document." }, { status: 500 });
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -11,7 +11,12 @@ import {
   BreadcrumbSeparator,
 } from "@/components/ui/breadcrumb";
 import { db, doc, getDoc, Timestamp, collection, getDocs } from '@/lib/firebase/firebase';
-import type { Order, OrderInput, PaymentStatusEnum } from '@/schemas/order'; // Import needed types
+import { getLocations } from '@/lib/inventory/locations';
+import { getTaxSettings } from '@/lib/settings/tax-settings';
+import { getCustomer } from '@/lib/customers/customers';
+import type { Order } from '@/schemas/order';
+import { PAYMENT_STATUS_LABELS } from '@/schemas/payment';
+import { getOrderPaymentSummary } from '@/lib/orders/payments';
 import type { AddItemInput } from '@/schemas/inventory';
 import { notFound } from 'next/navigation';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
@@ -32,7 +37,7 @@ interface SerializableOrder extends Omit<Order, 'orderDate' | 'createdAt' | 'upd
 
 
 // Function to fetch a single order's details for editing
-async function getOrderForEdit(orderId: string): Promise<{ order: SerializableOrder | null; error?: string }> {
+async function getOrderForEdit(orderId: string): Promise<{ order: SerializableOrder | null; invoiceNumber?: string; error?: string }> {
   if (!db) {
     const errorMessage = "Database configuration error. Unable to fetch order details.";
     console.error(errorMessage);
@@ -61,11 +66,16 @@ async function getOrderForEdit(orderId: string): Promise<{ order: SerializableOr
       id: docSnap.id,
       // Spread the rest of the data, ensuring types match SerializableOrder expectations
       items: data.items || [],
-      paymentInfo: data.paymentInfo || { paymentMethod: 'Pending' }, // Ensure paymentInfo exists
       shippingInfo: data.shippingInfo || { name: '', address: '', city: '', state: '', zipCode: '' }, // Ensure shippingInfo exists
       status: data.status || 'Processing',
       totalAmount: typeof data.totalAmount === 'number' ? data.totalAmount : 0,
+      totals: data.totals,
+      gst: data.gst,
+      discounts: data.discounts,
+      customerId: data.customerId,
+      paymentTerms: data.paymentTerms,
       trackingInfo: data.trackingInfo,
+      fulfillmentLocationId: data.fulfillmentLocationId,
       userId: data.userId || '',
       // Add serializable dates
       orderDate: orderDateISO,
@@ -82,13 +92,13 @@ async function getOrderForEdit(orderId: string): Promise<{ order: SerializableOr
            state: data.shippingInfo?.state,
            zipCode: data.shippingInfo?.zipCode,
        },
-       paymentStatus: data.paymentInfo?.paymentMethod || data.status,
+       paymentStatus: PAYMENT_STATUS_LABELS[getOrderPaymentSummary(data).status],
        shipmentId: data.trackingInfo?.trackingNumber,
        shippingMethod: data.trackingInfo?.carrier,
 
     };
 
-    return { order: serializableOrderData };
+    return { order: serializableOrderData, invoiceNumber: data.invoice?.number };
 
   } catch (error) {
     const errorMessage = `Error fetching order for edit (ID ${orderId}): ${error instanceof Error ? error.message : String(error)}`;
@@ -137,8 +147,11 @@ async function getInventoryItemsForSelection(): Promise<{ items: InventorySelect
 
 export default async function EditOrderPage({ params }: { params: { orderId: string } }) {
   // Fetch serializable order data
-  const { order, error: orderFetchError } = await getOrderForEdit(params.orderId);
+  const { order, invoiceNumber, error: orderFetchError } = await getOrderForEdit(params.orderId);
   const { items: inventoryItems, error: inventoryFetchError } = await getInventoryItemsForSelection();
+  const { locations } = await getLocations();
+  const { settings: taxSettings } = await getTaxSettings();
+  const { customer } = order?.customerId ? await getCustomer(order.customerId) : { customer: null };
   const fetchError = orderFetchError || inventoryFetchError;
 
   // Handle fetch error first
@@ -214,8 +227,18 @@ export default async function EditOrderPage({ params }: { params: { orderId: str
           <h1 className="text-2xl font-semibold text-foreground hidden md:block">Edit Order</h1>
        </div>
 
-       {/* Edit Form Component - Pass the serializable order and inventory data */}
-       <EditOrderForm order={order} inventoryItems={inventoryItems} />
+       {/* Edit Form Component - Pass the serializable order and inventory data; invoiced orders are locked */}
+       {invoiceNumber ? (
+         <Alert>
+           <AlertTriangle className="h-4 w-4" />
+           <AlertTitle>Order Invoiced</AlertTitle>
+           <AlertDescription>
+             This order has been invoiced as {invoiceNumber}, so its lines, prices and addresses can no longer be changed.
+           </AlertDescription>
+         </Alert>
+       ) : (
+         <EditOrderForm order={order} inventoryItems={inventoryItems} locations={locations} taxSettings={customer?.taxExempt ? null : taxSettings} priceTier={customer?.priceTier} creditLimit={customer?.creditLimit} />
+       )}
     </div>
   );
 }
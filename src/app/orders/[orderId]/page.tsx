@@ -5,9 +5,13 @@ import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import Image from 'next/image';
-import { ArrowLeft, Edit, Printer, Truck, Package, User, Calendar, Hash, DollarSign, Home, ChevronRight, AlertTriangle, PlusCircle } from 'lucide-react';
+import { ArrowLeft, Edit, Printer, Truck, Package, User, Calendar, Hash, DollarSign, Home, ChevronRight, AlertTriangle, PlusCircle, History, ChevronDown, FileText } from 'lucide-react';
 import Link from 'next/link';
-import { db, doc, getDoc, Timestamp } from '@/lib/firebase/firebase';
+import { db, doc, getDoc, getDocs, collection, query, where, Timestamp } from '@/lib/firebase/firebase';
+import type { Shipment } from '@/schemas/shipment';
+import { computeLineFulfillment, getOrderLineKey } from '@/lib/orders/fulfillment';
+import { getLineFulfillmentState, LINE_FULFILLMENT_STATE_LABELS } from '@/lib/orders/backorders';
+import { BackorderLineActions } from "@/components/orders/backorder-line-actions";
 import type { Order, OrderItemSchema, ShippingInfoSchema, PaymentInfoSchema, TrackingInfoSchema } from '@/schemas/order'; // Import updated Order type
 import { notFound } from 'next/navigation';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
@@ -20,7 +24,28 @@ import {
   BreadcrumbPage,
   BreadcrumbSeparator,
 } from "@/components/ui/breadcrumb";
-import { OrderStatusUpdater } from "@/components/orders/order-status-updater"; // Assuming this component needs updates too
+import { OrderStatusUpdater } from "@/components/orders/order-status-updater";
+import { OrderTotalsSummary } from "@/components/orders/order-totals-summary";
+import { getCurrentUser } from '@/lib/auth/server';
+import { hasPermission } from '@/lib/auth/permissions';
+import { getAuditHistory } from '@/lib/audit';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { AuditHistory } from "@/components/audit/audit-history";
+import { getLocation } from '@/lib/inventory/locations';
+import { DEFAULT_LOCATION_ID } from '@/lib/inventory/location-stock';
+import { getLineTaxAmount, getStateName } from '@/lib/orders/tax';
+import { formatDiscount } from '@/lib/orders/discounts';
+import { getOrderPaymentSummary, mapPaymentRecord } from '@/lib/orders/payments';
+import { PAYMENT_STATUS_LABELS } from '@/schemas/payment';
+import { PAYMENT_TERMS_LABELS } from '@/schemas/customer';
+import { OrderPayments } from "@/components/orders/order-payments";
+import { getRefundDue, getReturnableLines, getReturns } from '@/lib/orders/returns';
+import { getLocations } from '@/lib/inventory/locations';
+import { OrderReturns } from "@/components/orders/order-returns";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { ORDER_DOCUMENT_LABELS } from '@/schemas/document';
+import { NOT_INVOICEABLE_STATUSES } from '@/lib/documents/invoices';
+import { IssueInvoiceButton } from "@/components/orders/issue-invoice-button";
 
 // Function to fetch a single order's details from Firestore (new structure)
 async function getOrderDetails(orderId: string): Promise<{ order: Order | null; error?: string }> {
@@ -49,8 +74,18 @@ async function getOrderDetails(orderId: string): Promise<{ order: Order | null;
                  sku: item.sku,
                  quantity: item.quantity,
                  finalPrice: item.finalPrice,
+                 basePrice: item.basePrice,
+                 priceAdjustments: item.priceAdjustments,
+                 priceOverride: item.priceOverride,
+                 tax: item.tax,
+                 discount: item.discount,
                  imageUrl: item.imageUrl,
                  customizations: item.customizations,
+                 backorderedQuantity: item.backorderedQuantity,
+                 fulfillmentState: item.fulfillmentState,
+                 expectedReadyDate: item.expectedReadyDate instanceof Timestamp ? item.expectedReadyDate.toDate().toISOString() : undefined,
+                 readyAt: item.readyAt instanceof Timestamp ? item.readyAt.toDate().toISOString() : undefined,
+                 returnedQuantity: item.returnedQuantity,
             })),
             // Convert Firestore Timestamp to ISO string
             orderDate: data.orderDate instanceof Timestamp ? data.orderDate.toDate().toISOString() : new Date().toISOString(), // Fallback
@@ -58,7 +93,29 @@ async function getOrderDetails(orderId: string): Promise<{ order: Order | null;
             shippingInfo: data.shippingInfo as z.infer<typeof ShippingInfoSchema>,
             status: data.status as string,
             totalAmount: typeof data.totalAmount === 'number' ? data.totalAmount : 0,
+            totals: data.totals,
+            gst: data.gst,
+            payments: Array.isArray(data.payments) ? data.payments.map(mapPaymentRecord) : undefined,
+            payment: getOrderPaymentSummary(data),
+            discounts: Array.isArray(data.discounts) ? data.discounts : undefined,
+            returnTotal: typeof data.returnTotal === 'number' ? data.returnTotal : undefined,
+            invoice: data.invoice?.number ? {
+                number: data.invoice.number,
+                issuedAt: data.invoice.issuedAt instanceof Timestamp ? data.invoice.issuedAt.toDate().toISOString() : new Date().toISOString(),
+                ...(data.invoice.dueDate && { dueDate: data.invoice.dueDate }),
+                issuedBy: data.invoice.issuedBy,
+            } : undefined,
+            paymentTerms: data.paymentTerms,
+            creditApproval: data.creditApproval,
+            quoteId: data.quoteId,
+            customerId: data.customerId,
             trackingInfo: data.trackingInfo as z.infer<typeof TrackingInfoSchema> | undefined,
+            shipmentIds: Array.isArray(data.shipmentIds) ? data.shipmentIds : undefined,
+            fulfillmentLocationId: data.fulfillmentLocationId,
+            stockLocationId: data.stockLocationId,
+            reservationExpiresAt: data.reservationExpiresAt instanceof Timestamp ? data.reservationExpiresAt.toDate().toISOString() : undefined,
+            reservationReleasedAt: data.reservationReleasedAt instanceof Timestamp ? data.reservationReleasedAt.toDate().toISOString() : undefined,
+            cancellationReason: data.cancellationReason,
             userId: data.userId as string,
              // --- Compatibility mappings ---
              createdAt: data.orderDate instanceof Timestamp ? data.orderDate.toDate().toISOString() : new Date().toISOString(),
@@ -69,7 +126,7 @@ async function getOrderDetails(orderId: string): Promise<{ order: Order | null;
                  phone: data.shippingInfo?.phone,
                  address: data.shippingInfo?.address || 'N/A',
              },
-             paymentStatus: data.paymentInfo?.paymentMethod || data.status,
+             paymentStatus: PAYMENT_STATUS_LABELS[getOrderPaymentSummary(data).status],
              shipmentId: data.trackingInfo?.trackingNumber, // Use tracking number
         };
 
@@ -85,12 +142,43 @@ async function getOrderDetails(orderId: string): Promise<{ order: Order | null;
   }
 }
 
+// Shipments for the order, oldest first. Equality-only query so no composite index is needed.
+async function getOrderShipments(orderId: string): Promise<Shipment[]> {
+  if (!db) return [];
+  try {
+    const snapshot = await getDocs(query(collection(db, 'shipments'), where('orderId', '==', orderId)));
+    return snapshot.docs
+      .map((docSnap) => {
+        const data = docSnap.data();
+        return {
+          id: docSnap.id,
+          orderId: data.orderId,
+          customerName: data.customerName,
+          carrier: data.carrier,
+          trackingNumber: data.trackingNumber,
+          status: data.status,
+          origin: data.origin,
+          destination: data.destination,
+          pieces: data.pieces,
+          items: data.items,
+          history: Array.isArray(data.history) ? data.history : [],
+          createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate().toISOString() : new Date().toISOString(),
+        } as Shipment;
+      })
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  } catch (error) {
+    console.error(`Error fetching shipments for order ${orderId}:`, error);
+    return [];
+  }
+}
+
 // Reuse status variant logic - adjust as needed for new statuses
 const getStatusVariant = (status: string): "default" | "secondary" | "outline" | "destructive" => {
     switch (status?.toLowerCase()) {
      case 'processing':
      case 'shipment information received':
        return 'default';
+     case 'partially shipped':
      case 'shipped':
      case 'in transit':
        return 'secondary';
@@ -112,7 +200,17 @@ const getStatusVariant = (status: string): "default" | "secondary" | "outline" |
  };
 
 export default async function OrderDetailPage({ params }: { params: { orderId: string } }) {
-  const { order, error: fetchError } = await getOrderDetails(params.orderId);
+  const [{ order, error: fetchError }, currentUser, { entries: historyEntries, error: historyError }, shipments, { returns }, { locations }] = await Promise.all([
+    getOrderDetails(params.orderId),
+    getCurrentUser(),
+    getAuditHistory('order', params.orderId),
+    getOrderShipments(params.orderId),
+    getReturns(params.orderId),
+    getLocations(),
+  ]);
+  const canEdit = hasPermission(currentUser?.role, 'orders:edit') && !order?.invoice; // Invoiced orders are locked
+  const fulfillmentLocation = order ? await getLocation(order.fulfillmentLocationId || DEFAULT_LOCATION_ID) : null;
+  const canCreateShipment = hasPermission(currentUser?.role, 'shipments:create');
 
    if (fetchError) {
       return (
@@ -147,6 +245,18 @@ export default async function OrderDetailPage({ params }: { params: { orderId: s
    }
 
    const displayTotal = order.totalAmount;
+   // Per-line shipping progress across all of the order's shipments
+   const fulfillment = computeLineFulfillment(order.items, shipments);
+   const hasRemainingToShip = fulfillment.some((line) => line.remaining > 0);
+   const hasShippableItems = fulfillment.some((line) => line.shippable > 0);
+   const canShipMore = canCreateShipment && hasShippableItems && !['Pending Payment', 'Cancelled', 'Refunded', 'Delivered'].includes(order.status);
+   // What the order is worth once goods received back on returns are taken off
+   const netTotal = Math.max(0, order.totalAmount - (order.returnTotal ?? 0));
+   const refundDue = Object.fromEntries(returns.filter((orderReturn) => orderReturn.status === 'Received').map((orderReturn) => [orderReturn.id, getRefundDue(orderReturn, order)]));
+   const lastPayment = order.payments?.filter((payment) => !payment.voided && payment.kind === 'payment').pop();
+   // An invoice is downloadable once issued; issuing numbers it, which pending and cancelled orders can't be
+   const canInvoice = hasPermission(currentUser?.role, 'orders:invoice');
+   const canIssueInvoice = canInvoice && !order.invoice && !NOT_INVOICEABLE_STATUSES.includes(order.status);
 
   return (
     <div className="container mx-auto py-6 animate-subtle-fade-in space-y-6">
@@ -168,17 +278,49 @@ export default async function OrderDetailPage({ params }: { params: { orderId: s
            </Link>
          </Button>
          <div className="flex gap-2">
-            <Button variant="outline" size="sm" disabled>
-              <Printer className="mr-2 h-4 w-4" />
-              Print Invoice (soon)
-            </Button>
-            {/* Link to edit page */}
-           <Button size="sm" asChild>
-             <Link href={`/orders/${order.id}/edit`}>
-                <Edit className="mr-2 h-4 w-4" />
-                Edit Order
-             </Link>
-           </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm">
+                  <Printer className="mr-2 h-4 w-4" />
+                  Documents
+                  <ChevronDown className="ml-2 h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel>Download PDF</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                {canInvoice && order.invoice && (
+                  <DropdownMenuItem asChild>
+                    <a href={`/orders/${order.id}/documents/invoice`}>
+                      <FileText className="mr-2 h-4 w-4" />
+                      Invoice {order.invoice.number}
+                    </a>
+                  </DropdownMenuItem>
+                )}
+                <DropdownMenuItem asChild>
+                  <a href={`/orders/${order.id}/documents/packing_slip`}>
+                    <Package className="mr-2 h-4 w-4" />
+                    {ORDER_DOCUMENT_LABELS.packing_slip}
+                  </a>
+                </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <a href={`/orders/${order.id}/documents/delivery_note`}>
+                    <Truck className="mr-2 h-4 w-4" />
+                    {ORDER_DOCUMENT_LABELS.delivery_note}
+                  </a>
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            {canIssueInvoice && <IssueInvoiceButton orderId={order.id} />}
+            {/* Link to edit page (only for roles that can edit orders) */}
+           {canEdit && (
+             <Button size="sm" asChild>
+               <Link href={`/orders/${order.id}/edit`}>
+                  <Edit className="mr-2 h-4 w-4" />
+                  Edit Order
+               </Link>
+             </Button>
+           )}
          </div>
        </div>
 
@@ -189,6 +331,17 @@ export default async function OrderDetailPage({ params }: { params: { orderId: s
               <CardDescription className="flex items-center gap-2 text-sm text-muted-foreground mt-1">
                  <Calendar className="h-4 w-4"/> Placed on {format(new Date(order.orderDate), 'PPP p')}
                </CardDescription>
+               {order.invoice && (
+                 <CardDescription className="flex items-center gap-2 text-sm text-muted-foreground mt-1">
+                   <FileText className="h-4 w-4"/> Invoice {order.invoice.number} issued on {format(new Date(order.invoice.issuedAt), 'PP')}
+                   {order.invoice.dueDate && `, due ${format(new Date(`${order.invoice.dueDate}T00:00:00`), 'PP')}`}
+                 </CardDescription>
+               )}
+               {order.quoteId && (
+                 <CardDescription className="flex items-center gap-2 text-sm text-muted-foreground mt-1">
+                   <FileText className="h-4 w-4"/> From <Link href={`/quotes/${order.quoteId}`} className="hover:underline">quote {order.quoteId.substring(0, 8)}...</Link>
+                 </CardDescription>
+               )}
                 {/* Add updatedAt if available in your data */}
                 {/* {order.updatedAt && order.updatedAt !== order.createdAt && (
                      <CardDescription className="flex items-center gap-2 text-xs text-muted-foreground/80 mt-1">
@@ -208,11 +361,14 @@ export default async function OrderDetailPage({ params }: { params: { orderId: s
              {/* Customer/Shipping Info */}
             <div className="space-y-2">
                <h3 className="text-lg font-semibold flex items-center gap-2"><User className="h-5 w-5 text-muted-foreground" /> Shipping Details</h3>
-               <p className="text-sm font-medium">{order.shippingInfo.name}</p>
+               <p className="text-sm font-medium">
+                 {order.customerId ? <Link href={`/customers/${order.customerId}`} className="hover:underline">{order.shippingInfo.name}</Link> : order.shippingInfo.name}
+               </p>
                {order.shippingInfo.email && <p className="text-sm text-muted-foreground">{order.shippingInfo.email}</p>}
                {order.shippingInfo.phone && <p className="text-sm text-muted-foreground">{order.shippingInfo.phone}</p>}
                <p className="text-sm text-muted-foreground">{order.shippingInfo.address}</p>
                <p className="text-sm text-muted-foreground">{order.shippingInfo.city}, {order.shippingInfo.state} {order.shippingInfo.zipCode}</p>
+               {order.shippingInfo.gstin && <p className="text-sm text-muted-foreground">GSTIN: {order.shippingInfo.gstin}</p>}
             </div>
 
              {/* Order Summary */}
@@ -220,43 +376,99 @@ export default async function OrderDetailPage({ params }: { params: { orderId: s
                 <h3 className="text-lg font-semibold flex items-center gap-2"><Hash className="h-5 w-5 text-muted-foreground" /> Order Summary</h3>
                  {/* Payment Info */}
                  <div className="text-sm flex items-center gap-2">
-                   <span className="text-muted-foreground">Payment Method:</span>
-                   <Badge variant={getStatusVariant(order.paymentInfo.paymentMethod)}>{order.paymentInfo.paymentMethod}</Badge>
+                   <span className="text-muted-foreground">Payment:</span>
+                   <Badge variant={getStatusVariant(order.paymentStatus || '')}>{order.paymentStatus}</Badge>
+                   {!!order.payment?.balanceDue && <span className="text-muted-foreground">₹{order.payment.balanceDue.toFixed(2)} due</span>}
                  </div>
+                 {order.paymentTerms && <p className="text-sm"><span className="text-muted-foreground">Terms:</span> {PAYMENT_TERMS_LABELS[order.paymentTerms]} account</p>}
+                 {order.creditApproval && (
+                   <p className="text-xs text-muted-foreground">
+                     Approved over the ₹{order.creditApproval.creditLimit.toFixed(2)} credit limit by {order.creditApproval.by.name}: {order.creditApproval.reason}
+                   </p>
+                 )}
+                 <p className="text-sm"><span className="text-muted-foreground">Pick From:</span> {fulfillmentLocation?.name || 'Unknown location'}</p>
                  {/* Tracking Info */}
-                 {order.trackingInfo?.trackingNumber ? (
+                 {order.trackingInfo?.trackingNumber || order.trackingInfo?.shipmentId ? (
                     <>
                         <p className="text-sm"><span className="text-muted-foreground">Carrier:</span> {order.trackingInfo.carrier || 'N/A'}</p>
                         {/* Change parent from <p> to <div> for valid HTML nesting */}
                         <div className="text-sm flex items-center gap-2">
                           <span className="text-muted-foreground">Tracking #:</span>
-                           {/* Add link to logistics page if applicable, might need Shipment ID */}
-                            <span className="ml-1">{order.trackingInfo.trackingNumber}</span>
+                            <span className="ml-1">{order.trackingInfo.trackingNumber || 'Pending'}</span>
                         </div>
                          {/* Change parent from <p> to <div> for valid HTML nesting */}
                          <div className="text-sm flex items-center gap-2">
                            <span className="text-muted-foreground">Shipment Status:</span>
                            <Badge variant={getStatusVariant(order.trackingInfo.status || 'N/A')}>{order.trackingInfo.status || 'N/A'}</Badge>
                          </div>
+                         {shipments.length > 1 && (
+                           <p className="text-xs text-muted-foreground">Latest of {shipments.length} shipments</p>
+                         )}
                     </>
                  ) : (
                      <p className="text-sm italic text-muted-foreground">No shipment information available yet.</p>
                  )}
                  <p className="text-sm"><span className="text-muted-foreground">Total Items:</span> {order.items.reduce((sum, item) => sum + item.quantity, 0)}</p>
+                 {order.status === 'Pending Payment' && order.reservationExpiresAt && (
+                   <p className="text-sm"><span className="text-muted-foreground">Stock reserved until:</span> {format(new Date(order.reservationExpiresAt), 'PP p')}</p>
+                 )}
+                 {order.status === 'Pending Payment' && order.reservationReleasedAt && !order.reservationExpiresAt && (
+                   <p className="text-sm text-destructive">Stock released on {format(new Date(order.reservationReleasedAt), 'PP p')}: payment wasn&apos;t received before the reservation expired, so the items are backordered.</p>
+                 )}
+                 {order.cancellationReason === 'reservation_expired' && (
+                   <p className="text-sm text-destructive">Cancelled automatically: payment wasn't received before the stock reservation expired.</p>
+                 )}
+                 {order.gst && (
+                   <p className="text-sm">
+                     <span className="text-muted-foreground">Place of Supply:</span> {getStateName(order.gst.placeOfSupplyCode ?? order.gst.homeStateCode)}
+                     {' '}({order.gst.supplyType === 'intra_state' ? 'CGST + SGST' : 'IGST'}{order.gst.buyerGstin ? ', B2B' : ''})
+                   </p>
+                 )}
                  <p className="text-sm"><span className="text-muted-foreground">User ID:</span> {order.userId.substring(0, 10)}...</p>
              </div>
 
               {/* Totals */}
              <div className="space-y-2 md:text-right">
                  <h3 className="text-lg font-semibold flex items-center gap-2 md:justify-end"><DollarSign className="h-5 w-5 text-muted-foreground" /> Order Total</h3>
-                 <p className="text-2xl font-bold text-primary">₹{displayTotal.toFixed(2)}</p>
-                 <p className="text-xs text-muted-foreground md:text-right">(Includes items, shipping, taxes)</p>
+                 {order.totals ? (
+                   <OrderTotalsSummary totals={order.totals} gst={order.gst} returnTotal={order.returnTotal} className="md:ml-auto md:max-w-xs" />
+                 ) : (
+                   <>
+                     <p className="text-2xl font-bold text-primary">₹{displayTotal.toFixed(2)}</p>
+                     {!!order.returnTotal && <p className="text-sm text-muted-foreground">Net of returns: ₹{netTotal.toFixed(2)}</p>}
+                   </>
+                 )}
+                 {order.discounts?.map((discount, index) => (
+                   <p key={index} className="text-xs text-muted-foreground">
+                     {discount.promoCode ? `Promo ${discount.promoCode}` : 'Order discount'}: {formatDiscount(discount)} (−₹{discount.amount.toFixed(2)})
+                     {discount.reason ? `, ${discount.reason}` : ''} · applied by {discount.appliedBy.name}
+                   </p>
+                 ))}
              </div>
           </CardContent>
        </Card>
 
+      <Tabs defaultValue="details" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="details">Details</TabsTrigger>
+          <TabsTrigger value="history">History ({historyEntries.length})</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="details" className="space-y-6">
         {/* Order Status Updater Card */}
-        <OrderStatusUpdater orderId={order.id} currentStatus={order.status} />
+        <OrderStatusUpdater
+          orderId={order.id}
+          currentStatus={order.status}
+          transitionContext={{ paymentStatus: order.payment!.status, shipmentCount: shipments.length, hasUnshippedItems: hasRemainingToShip, hasShippableItems }}
+        />
+
+        <OrderPayments
+          orderId={order.id}
+          orderTotal={netTotal}
+          orderStatus={order.status}
+          payments={order.payments || []}
+          summary={order.payment!}
+        />
 
         <Card className="shadow-md">
          <CardHeader>
@@ -270,12 +482,14 @@ export default async function OrderDetailPage({ params }: { params: { orderId: s
                  <TableHead>Product</TableHead>
                  <TableHead>SKU</TableHead>
                  <TableHead className="text-center">Quantity</TableHead>
+                 <TableHead className="text-center">Shipped</TableHead>
+                 <TableHead className="text-center">To Ship</TableHead>
                  <TableHead className="text-right">Unit Price</TableHead>
                  <TableHead className="text-right">Line Total</TableHead>
                </TableRow>
              </TableHeader>
              <TableBody>
-               {order.items.map((item) => (
+               {order.items.map((item, index) => (
                  <TableRow key={item.cartItemId}> {/* Use cartItemId as key */}
                    <TableCell>
                      <Image
@@ -294,15 +508,77 @@ export default async function OrderDetailPage({ params }: { params: { orderId: s
                       {/* Display customizations if they exist */}
                        {item.customizations && (
                            <div className="text-xs text-muted-foreground mt-1">
-                               {item.customizations.material && <span>Mat: {item.customizations.material}</span>}
-                               {item.customizations.size && <span> | Size: {item.customizations.size.width}x{item.customizations.size.height}</span>}
+                               {[
+                                 item.customizations.material && `Mat: ${item.customizations.material}`,
+                                 item.customizations.finish && `Finish: ${item.customizations.finish}`,
+                                 item.customizations.hardware && `Hardware: ${item.customizations.hardware}`,
+                                 item.customizations.size && `Size: ${item.customizations.size.width}x${item.customizations.size.height} in`,
+                               ].filter(Boolean).join(' | ')}
+                           </div>
+                       )}
+                       {/* How the unit price was built up from the item's base price */}
+                       {typeof item.basePrice === 'number' && item.priceAdjustments && item.priceAdjustments.length > 0 && (
+                           <div className="text-xs text-muted-foreground">
+                               ₹{item.basePrice.toFixed(2)} base{item.priceAdjustments.map((adjustment) => ` ${adjustment.amount < 0 ? '−' : '+'} ₹${Math.abs(adjustment.amount).toFixed(2)} ${adjustment.label}`).join('')}
                            </div>
                        )}
                     </TableCell>
                    <TableCell>{item.sku}</TableCell>
-                   <TableCell className="text-center">{item.quantity}</TableCell>
-                   <TableCell className="text-right">₹{item.finalPrice.toFixed(2)}</TableCell>
-                   <TableCell className="text-right font-medium">₹{(item.finalPrice * item.quantity).toFixed(2)}</TableCell>
+                   <TableCell className="text-center">
+                     {item.quantity}
+                     {getLineFulfillmentState(item) !== 'allocated' && (
+                       <div className="mt-1 space-y-1">
+                         <Badge variant={getLineFulfillmentState(item) === 'ready' ? 'outline' : 'secondary'} className="whitespace-nowrap">
+                           {getLineFulfillmentState(item) === 'backordered'
+                             ? `${item.backorderedQuantity} ${LINE_FULFILLMENT_STATE_LABELS.backordered.toLowerCase()}`
+                             : LINE_FULFILLMENT_STATE_LABELS[getLineFulfillmentState(item)]}
+                         </Badge>
+                         {fulfillment[index]?.awaitingSupply > 0 && item.expectedReadyDate && (
+                           <div className="text-xs text-muted-foreground">Expected {format(new Date(item.expectedReadyDate), 'PP')}</div>
+                         )}
+                         {!['Cancelled', 'Refunded'].includes(order.status) && (
+                           <BackorderLineActions orderId={order.id} lineKey={getOrderLineKey(item, index)} state={getLineFulfillmentState(item)} />
+                         )}
+                       </div>
+                     )}
+                   </TableCell>
+                   <TableCell className="text-center">
+                     {fulfillment[index]?.shipped ?? 0}
+                     {!!item.returnedQuantity && (
+                       <div className="mt-1"><Badge variant="outline" className="whitespace-nowrap">{item.returnedQuantity} returned</Badge></div>
+                     )}
+                   </TableCell>
+                   <TableCell className="text-center">
+                     {/* Remaining = not yet on any shipment; allocated-but-not-departed shows separately */}
+                     <span className={fulfillment[index]?.remaining ? 'font-medium' : 'text-muted-foreground'}>{fulfillment[index]?.remaining ?? item.quantity}</span>
+                     {!!fulfillment[index]?.remaining && fulfillment[index].shippable < fulfillment[index].remaining && (
+                       <div className="text-xs text-muted-foreground">{fulfillment[index].remaining - fulfillment[index].shippable} awaiting supply</div>
+                     )}
+                     {fulfillment[index] && fulfillment[index].allocated > fulfillment[index].shipped && (
+                       <div className="text-xs text-muted-foreground">{fulfillment[index].allocated - fulfillment[index].shipped} awaiting pickup</div>
+                     )}
+                   </TableCell>
+                   <TableCell className="text-right">
+                     ₹{item.finalPrice.toFixed(2)}
+                     {item.priceOverride && (
+                       <div className="text-xs text-muted-foreground" title={`Set by ${item.priceOverride.by.name}`}>
+                         List <span className="line-through">₹{item.priceOverride.listPrice.toFixed(2)}</span>: {item.priceOverride.reason}
+                       </div>
+                     )}
+                   </TableCell>
+                   <TableCell className="text-right font-medium">
+                     ₹{(item.finalPrice * item.quantity - (item.discount?.amount ?? 0)).toFixed(2)}
+                     {item.discount && (
+                       <div className="text-xs font-normal text-muted-foreground" title={`Given by ${item.discount.appliedBy.name}`}>
+                         {formatDiscount(item.discount)} (−₹{item.discount.amount.toFixed(2)}){item.discount.reason ? `: ${item.discount.reason}` : ''}
+                       </div>
+                     )}
+                     {item.tax && (
+                       <div className="text-xs font-normal text-muted-foreground">
+                         + GST {item.tax.rate}%{item.tax.hsnCode ? ` (HSN ${item.tax.hsnCode})` : ''}: ₹{getLineTaxAmount(item.tax).toFixed(2)}
+                       </div>
+                     )}
+                   </TableCell>
                  </TableRow>
                ))}
              </TableBody>
@@ -310,6 +586,92 @@ export default async function OrderDetailPage({ params }: { params: { orderId: s
          </CardContent>
        </Card>
 
+        <OrderReturns
+          orderId={order.id}
+          returnableLines={getReturnableLines(order, shipments, returns)}
+          returns={returns}
+          refundDue={refundDue}
+          refundMethod={lastPayment?.method || 'cash'}
+          locations={locations}
+        />
+
+        <Card className="shadow-md">
+          <CardHeader className="flex flex-row items-center justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2"><Truck className="h-5 w-5 text-muted-foreground"/> Shipments</CardTitle>
+              <CardDescription>Large orders can go out in several loads.</CardDescription>
+            </div>
+            {canShipMore && (
+              <Button size="sm" variant="outline" asChild>
+                <Link href={`/logistics/new?orderId=${order.id}`}>
+                  <PlusCircle className="mr-2 h-4 w-4" /> Create Shipment
+                </Link>
+              </Button>
+            )}
+          </CardHeader>
+          <CardContent>
+            {shipments.length === 0 ? (
+              <p className="text-sm text-muted-foreground italic text-center py-6">No shipments yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Shipment</TableHead>
+                    <TableHead>Created</TableHead>
+                    <TableHead>Carrier</TableHead>
+                    <TableHead>Tracking #</TableHead>
+                    <TableHead>Items</TableHead>
+                    <TableHead className="text-center">Status</TableHead>
+                    <TableHead className="text-right">Documents</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {shipments.map((shipment) => (
+                    <TableRow key={shipment.id}>
+                      <TableCell className="font-medium">
+                        <Link href={`/logistics/${shipment.id}`} className="text-primary hover:underline">{shipment.id.substring(0, 8)}...</Link>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{format(new Date(shipment.createdAt), 'PP')}</TableCell>
+                      <TableCell>{shipment.carrier || 'TBD'}</TableCell>
+                      <TableCell>{shipment.trackingNumber || 'Pending'}</TableCell>
+                      <TableCell className="text-sm">
+                        {shipment.items
+                          ? shipment.items.map((item) => `${item.quantity} × ${item.name}`).join(', ')
+                          : 'Entire order'}
+                      </TableCell>
+                      <TableCell className="text-center"><Badge variant={getStatusVariant(shipment.status)}>{shipment.status}</Badge></TableCell>
+                      <TableCell className="text-right text-sm whitespace-nowrap">
+                        <a href={`/orders/${order.id}/documents/packing_slip?shipmentId=${shipment.id}`} className="text-primary hover:underline">Packing slip</a>
+                        {' · '}
+                        <a href={`/orders/${order.id}/documents/delivery_note?shipmentId=${shipment.id}`} className="text-primary hover:underline">Delivery note</a>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+        </TabsContent>
+
+        {/* Change history from the audit log */}
+        <TabsContent value="history">
+          <Card className="shadow-md">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2"><History className="h-5 w-5 text-muted-foreground"/> Change History</CardTitle>
+              <CardDescription>Every recorded change to this order, newest first.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {historyError ? (
+                <p className="text-sm text-destructive">{historyError}</p>
+              ) : (
+                <AuditHistory entries={historyEntries} />
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
     </div>
   );
 }
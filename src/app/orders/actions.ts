@@ -2,76 +2,92 @@
 'use server';
 
 import { revalidatePath } from 'next/cache';
-import { db, collection, addDoc, doc, updateDoc, serverTimestamp, Timestamp, getDoc, writeBatch } from '@/lib/firebase/firebase';
-import { OrderSchema, type CreateOrderInput, type Order, type OrderInput, PaymentInfoSchema, TrackingInfoSchema, ShippingInfoSchema, OrderStatusEnum, PaymentStatusEnum } from '@/schemas/order'; // Import Order types/schemas
+import { z } from 'zod';
+import { db, collection, doc, updateDoc, serverTimestamp, Timestamp, getDoc, getDocs, query, where, orderBy, limit, startAfter, documentId, writeBatch, runTransaction } from '@/lib/firebase/firebase';
+import { OrderSchema, type CreateOrderInput, type CreditApproval, type Order, type OrderInput, TrackingInfoSchema, ShippingInfoSchema, OrderStatusEnum } from '@/schemas/order'; // Import Order types/schemas
 import type { AddItemInput } from '@/schemas/inventory'; // For fetching item details
-import { AddItemSchema } from '@/schemas/inventory'; // Import AddItemSchema for validation
+import { authorize } from '@/lib/auth/server';
+import { hasPermission, type AuthError } from '@/lib/auth/permissions';
+import { recordAudit } from '@/lib/audit';
+import { computeLineFulfillment, getOrderLineKey, mapFulfillmentShipment, type FulfillmentShipment } from '@/lib/orders/fulfillment';
+import { checkManualOrderTransition, getOrderStatusTransition, INITIAL_ORDER_STATUSES, type OrderTransitionContext } from '@/lib/orders/status-machine';
+import { createShipmentAction } from '@/app/logistics/actions';
+import { allocateBackorderedLine, createOrderWithReservation, updateOrderWithReservation } from '@/lib/inventory/reservations';
+import { getLineFulfillmentState, isMadeToOrderLine } from '@/lib/orders/backorders';
+import { getLocation } from '@/lib/inventory/locations';
+import { DEFAULT_LOCATION_ID } from '@/lib/inventory/location-stock';
+import { isSameLineChoices } from '@/lib/orders/pricing';
+import type { SessionUser } from '@/schemas/user';
+import { getLineTaxAmount } from '@/lib/orders/tax';
+import { getPromoCodeProblem } from '@/lib/orders/discounts';
+import { getPromoCode, adjustPromoCodeDiscount, redeemPromoCode, releasePromoCode } from '@/lib/promotions/promo-codes';
+import type { AppliedDiscount, DiscountType } from '@/schemas/discount';
+import { getAmountOwed, getOrderPaymentSummary, mapPaymentRecord, summarizePayments } from '@/lib/orders/payments';
+import { PaymentInputSchema, type PaymentInput } from '@/schemas/payment';
+import { authoriseReturn, receiveReturn, refundReturn } from '@/lib/orders/returns';
+import {
+  ReceiveReturnSchema,
+  ReturnAuthorisationSchema,
+  ReturnRefundSchema,
+  type ReceiveReturnInput,
+  type ReturnAuthorisationInput,
+  type ReturnRefundInput,
+} from '@/schemas/return';
+import { buildOrderTotals, getInventoryItem, priceFormLines, priceOrderLine, resolveOrderDiscounts, resolvePriceOverride, taxOrderLines } from '@/lib/orders/order-pricing';
+import { getQuoteStatus, OPEN_QUOTE_STATUSES } from '@/lib/orders/quotes';
+import { issueInvoice } from '@/lib/documents/invoices';
+import { getCustomer, getCustomerOrders } from '@/lib/customers/customers';
+import { checkCreditLimit, isOnAccount, resolveCreditApproval } from '@/lib/customers/trade-accounts';
+import { PAYMENT_TERMS_LABELS, type Customer } from '@/schemas/customer';
 
 // --- HELPER FUNCTIONS ---
+const BATCH_SIZE = 400; // Firestore allows 500 writes per batch
 
-// Helper function to fetch current item details (removed stock check specific parts)
-async function getInventoryItem(itemId: string): Promise<(AddItemInput & { id: string }) | null> {
-    if (!db) {
-        console.error("getInventoryItem: Firestore database is not initialized.");
-        return null;
-    }
-    try {
-        const itemDocRef = doc(db, 'inventory', itemId);
-        const docSnap = await getDoc(itemDocRef);
-        if (docSnap.exists()) {
-            const data = docSnap.data();
-            const validatedData = AddItemSchema.safeParse(data);
-            if (validatedData.success) {
-                return {
-                    id: docSnap.id,
-                    ...validatedData.data,
-                 };
-            } else {
-                console.warn(`Inventory item ${itemId} data validation failed:`, validatedData.error);
-                 const stock = typeof data?.stock === 'number' ? data.stock : 0;
-                 const price = typeof data?.price === 'number' ? data.price : 0;
-                 const name = typeof data?.name === 'string' ? data.name : 'Unknown';
-                 const sku = typeof data?.sku === 'string' ? data.sku : 'Unknown';
-                 const style = typeof data?.style === 'string' ? data.style : 'Unknown';
-                 const material = typeof data?.material === 'string' ? data.material : 'Unknown';
-                 const dimensions = typeof data?.dimensions === 'string' ? data.dimensions : 'Unknown';
-                 const imageUrl = typeof data?.imageUrl === 'string' ? data.imageUrl : undefined;
-
-                // Construct fallback data more carefully
-                const fallbackData: AddItemInput = {
-                    name, sku, style, material, dimensions, stock, price,
-                    // Only include optional fields if they exist in source data
-                    ...(data?.description && { description: data.description }),
-                    ...(data?.weight && { weight: data.weight }),
-                    ...(data?.leadTime && { leadTime: data.leadTime }),
-                    ...(imageUrl && { imageUrl }),
-                };
-                return { id: docSnap.id, ...fallbackData };
-            }
-        }
-        console.log(`getInventoryItem: Item ${itemId} not found.`);
-        return null;
-    } catch (error) {
-        console.error(`Error fetching inventory item ${itemId}:`, error);
-        return null;
-    }
+// A payment record as stored in the order's `payments` list (serverTimestamp can't be used inside arrays)
+function buildPaymentRecord(values: PaymentInput, user: SessionUser, kind: 'payment' | 'refund' = 'payment') {
+  return {
+    id: crypto.randomUUID(),
+    kind,
+    amount: values.amount,
+    method: values.method,
+    ...(values.reference && { reference: values.reference }),
+    paidOn: values.paidOn,
+    recordedBy: { id: user.id, name: user.name, role: user.role },
+    recordedAt: Timestamp.now(),
+  };
 }
 
-
-// Function to calculate order total based on items in the order input
-function calculateOrderTotal(items: { price: number; quantity: number }[]): number {
-  return items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+// Loads the order's shipments and builds the facts the status machine's guards need
+async function getOrderTransitionContext(orderId: string, orderData: Record<string, any>): Promise<{ context: OrderTransitionContext; shipments: FulfillmentShipment[] }> {
+  const shipmentsSnap = await getDocs(query(collection(db!, 'shipments'), where('orderId', '==', orderId)));
+  const shipments = shipmentsSnap.docs.map((shipmentDoc) => mapFulfillmentShipment(shipmentDoc.data()));
+  const fulfillment = computeLineFulfillment(orderData.items || [], shipments);
+  return {
+    shipments,
+    context: {
+      paymentStatus: getOrderPaymentSummary(orderData).status,
+      shipmentCount: shipments.length,
+      hasUnshippedItems: fulfillment.some((line) => line.remaining > 0),
+      hasShippableItems: fulfillment.some((line) => line.shippable > 0),
+    },
+  };
 }
 
 
 // --- CREATE ORDER ACTION ---
-// REMOVED Stock check and inventory update logic. Cloud Function handles this.
-export async function createOrderAction(data: CreateOrderInput): Promise<{ success: boolean; message: string; orderId?: string; errors?: Record<string, any> | null }> {
+// Reserves stock atomically with the order (see createOrderWithReservation); units beyond available
+// stock are backordered, and custom-size lines are made to order.
+export async function createOrderAction(data: CreateOrderInput): Promise<{ success: boolean; message: string; orderId?: string; errors?: Record<string, any> | null; error?: AuthError }> {
   if (!db) {
       console.error("createOrderAction: Firestore database is not initialized.");
       return { success: false, message: "Database configuration error.", errors: null };
   }
 
+  const auth = await authorize('orders:create');
+  if (!auth.ok) {
+    return { success: false, message: auth.message, errors: null, error: auth.error };
+  }
+
   // --- VALIDATION ---
   const validationResult = OrderSchema.safeParse(data);
   if (!validationResult.success) {
@@ -79,84 +95,214 @@ export async function createOrderAction(data: CreateOrderInput): Promise<{ succe
     return { success: false, message: "Validation failed.", errors: validationResult.error.flatten().fieldErrors };
   }
   const validatedInputData = validationResult.data;
+  if (!INITIAL_ORDER_STATUSES.includes(validatedInputData.status)) {
+    return { success: false, message: `New orders must start as ${INITIAL_ORDER_STATUSES.join(' or ')}.`, errors: { status: [`Choose ${INITIAL_ORDER_STATUSES.join(' or ')}.`] } };
+  }
+  const fulfillmentLocationId = validatedInputData.fulfillmentLocationId || DEFAULT_LOCATION_ID;
+  if (!(await getLocation(fulfillmentLocationId))) {
+    return { success: false, message: "That location no longer exists.", errors: { fulfillmentLocationId: ["Choose a location."] } };
+  }
 
-  // --- CHECK ITEM EXISTENCE (NEW) ---
-  console.log("Checking existence of order items...");
-  for (const item of validatedInputData.items) {
-      const inventoryItem = await getInventoryItem(item.itemId);
-      if (!inventoryItem) {
-          const errorMessage = `Inventory item '${item.name || 'Unknown'}' (ID: ${item.itemId}) not found. Order cannot be placed.`;
-          console.error(errorMessage);
-          // Return a specific error structure that the form can potentially handle
-          return {
-              success: false,
-              message: errorMessage,
-              errors: { items: { [`${validatedInputData.items.indexOf(item)}.itemId`]: [errorMessage] } } // Point error to specific item
-          };
+  // --- QUOTE BEING CONVERTED ---
+  // Lines kept from the quote keep its prices and discounts; its promo code is checked and counted afresh
+  let quoteData: Record<string, any> | undefined;
+  if (validatedInputData.quoteId) {
+      const quoteSnap = await getDoc(doc(db, 'quotes', validatedInputData.quoteId));
+      if (!quoteSnap.exists()) {
+          return { success: false, message: "The quote this order is made from no longer exists.", errors: null };
+      }
+      quoteData = quoteSnap.data();
+      const quoteStatus = getQuoteStatus(quoteData);
+      if (quoteData.orderId || !OPEN_QUOTE_STATUSES.includes(quoteStatus)) {
+          return { success: false, message: quoteData.orderId ? "This quote has already been converted into an order." : `A quote that is ${quoteStatus} can't be converted; revise it first.`, errors: null };
       }
-      console.log(`Item ${item.itemId} found.`);
   }
-  console.log("All order items found in inventory.");
-  // --- END CHECK ITEM EXISTENCE ---
+
+  // --- CUSTOMER FROM THE DIRECTORY ---
+  // A tax-exempt customer's order is saved without GST; a trade customer's lines are priced at their tier
+  let customer: Customer | null = null;
+  if (validatedInputData.customerId) {
+      const { customer: found, error: customerError } = await getCustomer(validatedInputData.customerId);
+      if (!found) {
+          return { success: false, message: customerError || "The chosen customer no longer exists.", errors: { customerId: ["Choose the customer again."] } };
+      }
+      customer = found;
+  }
+  const taxExempt = customer?.taxExempt === true;
+  const accountTerms = customer && isOnAccount(customer) ? customer.paymentTerms : undefined;
+
+  // --- PRICE LINES FROM INVENTORY ---
+  const priced = await priceFormLines(validatedInputData.items, auth.user, quoteData?.items, customer?.priceTier);
+  if (!priced.ok) {
+      return { success: false, message: priced.message, errors: priced.errors, error: priced.error };
+  }
+  const linePrices = priced.lines;
+
+  // --- DISCOUNTS ---
+  const discounts = await resolveOrderDiscounts(
+    validatedInputData.items.map((item, index) => ({ finalPrice: linePrices[index].finalPrice, quantity: item.quantity, discount: item.discount, existingDiscount: linePrices[index].pricedLine?.discount })),
+    { orderDiscount: validatedInputData.orderDiscount, promoCode: validatedInputData.promoCode || undefined },
+    auth.user,
+    (quoteData?.discounts || []).filter((discount: AppliedDiscount) => !discount.promoCode)
+  );
+  if (!discounts.ok) {
+    return { success: false, message: discounts.message, errors: discounts.errors };
+  }
+  const taxed = await taxOrderLines(linePrices.map((line, index) => ({ ...line, taxableValue: discounts.taxableValues[index] })), { ...validatedInputData.customer, taxExempt });
+  const orderTotals = buildOrderTotals(validatedInputData.items.map((item, index) => ({ finalPrice: linePrices[index].finalPrice, quantity: item.quantity })), validatedInputData.shippingCharge, taxed ? getLineTaxAmount(taxed.gst) : undefined, discounts.discountTotal); // Server prices, not the form's
+
+  // --- DEPOSIT OR PAYMENT TAKEN WITH THE ORDER ---
+  // A paid order doesn't need its stock held pending payment, so it starts in Processing
+  const { initialPayment } = validatedInputData;
+  if (initialPayment && !hasPermission(auth.user.role, 'payments:record')) {
+    return { success: false, message: "You don't have permission to record payments.", errors: null, error: { code: 'forbidden', permission: 'payments:record', role: auth.user.role } };
+  }
+  if (initialPayment && initialPayment.amount > orderTotals.totalAmount) {
+    const message = `The payment can't be more than the order total of ₹${orderTotals.totalAmount.toFixed(2)}.`;
+    return { success: false, message, errors: { initialPayment: [message] } };
+  }
+  const payments = initialPayment ? [buildPaymentRecord(initialPayment, auth.user)] : [];
+
+  // --- TRADE ACCOUNT ---
+  // An order on account is delivered on credit, so it doesn't wait in Pending Payment either. What the
+  // customer owes with it (less any payment taken now) has to stay within their credit limit.
+  let creditApproval: CreditApproval | undefined;
+  if (customer && accountTerms) {
+      const { stats, error: balanceError } = await getCustomerOrders(customer.id);
+      if (balanceError) {
+          return { success: false, message: balanceError, errors: null };
+      }
+      const check = checkCreditLimit(customer.creditLimit, stats.openBalance, orderTotals.totalAmount - (initialPayment?.amount ?? 0));
+      const approval = resolveCreditApproval(check, validatedInputData.creditApprovalReason, auth.user);
+      if (!approval.ok) {
+          return { success: false, message: approval.message, errors: approval.errors, error: approval.error };
+      }
+      creditApproval = approval.approval;
+  }
+  const initialStatus = initialPayment || accountTerms ? 'Processing' : validatedInputData.status;
 
   const now = Timestamp.now();
 
   // --- PREPARE FIRESTORE DATA ---
-  const ordersCollectionRef = collection(db, 'orders');
-
   const firestoreOrderData = {
-      items: validatedInputData.items.map(item => ({
+      items: validatedInputData.items.map((item, index) => ({
           cartItemId: `${item.itemId}-${Date.now()}`, // Use itemId for consistency
           doorId: item.itemId, // Keep doorId as it seems to be used by Cloud Functions
           name: item.name,
           sku: item.sku,
           quantity: item.quantity,
-          finalPrice: item.price,
+          finalPrice: linePrices[index].finalPrice,
+          basePrice: linePrices[index].basePrice,
+          priceAdjustments: linePrices[index].adjustments,
+          ...(linePrices[index].override && { priceOverride: linePrices[index].override }),
+          ...(discounts.lineDiscounts[index] && { discount: discounts.lineDiscounts[index] }),
+          ...(taxed && { tax: taxed.lineTaxes[index] }),
           imageUrl: item.image || '',
           customizations: item.customizations || {},
       })),
       orderDate: now,
       shippingInfo: validatedInputData.customer as z.infer<typeof ShippingInfoSchema>,
-      paymentInfo: {
-          paymentMethod: validatedInputData.paymentStatus,
-          // Add transactionId or other fields if needed later
-      } as z.infer<typeof PaymentInfoSchema>,
-      status: validatedInputData.status, // Use status from validated data
-      totalAmount: calculateOrderTotal(validatedInputData.items), // Use calculated total
+      status: initialStatus,
+      ...orderTotals,
+      payments,
+      payment: summarizePayments(payments, getAmountOwed({ status: initialStatus, totalAmount: orderTotals.totalAmount })),
+      ...(taxed && { gst: taxed.gst }),
+      ...(discounts.orderDiscounts.length > 0 && { discounts: discounts.orderDiscounts }),
       trackingInfo: { // Initialize tracking info
           status: 'Shipment Information Received', // Default status
           carrier: validatedInputData.shippingMethod || undefined, // Optional carrier
           trackingNumber: undefined, // No tracking number initially
           // Add other tracking fields if necessary
       } as z.infer<typeof TrackingInfoSchema>,
-      userId: "admin_placeholder_user_id", // Replace with actual user ID later if auth is added
+      fulfillmentLocationId, // Stock is taken from here (see createOrderWithReservation)
+      ...(validatedInputData.quoteId && { quoteId: validatedInputData.quoteId }),
+      ...(validatedInputData.customerId && { customerId: validatedInputData.customerId }),
+      ...(accountTerms && { paymentTerms: accountTerms }),
+      ...(creditApproval && { creditApproval }),
+      userId: auth.user.id, // The staff member who created the order
+      createdBy: { id: auth.user.id, name: auth.user.name, role: auth.user.role },
       createdAt: now, // Add createdAt timestamp
       updatedAt: now, // Add updatedAt timestamp
   };
 
-  // --- ADD ORDER TO FIRESTORE ---
+  // The promo code's use is counted first so two orders can't take its last use; it's given back if the order fails
+  if (discounts.promo) {
+      const redeemed = await redeemPromoCode(discounts.promo.code, firestoreOrderData.totals.subtotal, discounts.promo.amount);
+      if (!redeemed.success) {
+          return { success: false, message: redeemed.message, errors: { promoCode: [redeemed.message] } };
+      }
+  }
+  const releasePromo = async () => {
+      if (discounts.promo) await releasePromoCode(discounts.promo.code, discounts.promo.amount);
+  };
+
+  // --- ADD ORDER TO FIRESTORE AND RESERVE STOCK ---
   try {
-      console.log("Adding order to Firestore...");
-      // Using addDoc will auto-generate an ID
-      const docRef = await addDoc(ordersCollectionRef, firestoreOrderData);
-      const newOrderId = docRef.id; // Get the generated ID
+      console.log("Adding order to Firestore and reserving stock...");
+      const reservation = await createOrderWithReservation(
+        firestoreOrderData,
+        validatedInputData.items.map((item) => ({ doorId: item.itemId, name: item.name, quantity: item.quantity, madeToOrder: isMadeToOrderLine(item) })),
+        auth.user
+      );
+      if (!reservation.success) {
+        await releasePromo();
+        const lineErrors = reservation.lineErrors || {};
+        // Point each error at the line's product
+        const itemErrors = Object.fromEntries(Object.entries(lineErrors).map(([index, message]) => [`${index}.itemId`, [message]]));
+        const firstError = Object.values(lineErrors)[0];
+        return {
+          success: false,
+          message: firstError && Object.keys(lineErrors).length === 1 ? firstError : reservation.message,
+          errors: Object.keys(itemErrors).length > 0 ? { items: itemErrors } : null,
+        };
+      }
+      const newOrderId = reservation.orderId;
+      const madeToOrderUnits = validatedInputData.items.reduce((sum, item) => sum + (isMadeToOrderLine(item) ? item.quantity : 0), 0);
+      const backorderedUnits = Object.values(reservation.backordered).reduce((sum, quantity) => sum + quantity, 0) - madeToOrderUnits;
       console.log(`Order added successfully with ID: ${newOrderId}`);
 
+      await recordAudit({
+        actor: auth.user,
+        entityType: 'order',
+        entityId: newOrderId,
+        entityLabel: firestoreOrderData.shippingInfo.name,
+        action: 'create',
+        before: null,
+        after: firestoreOrderData,
+      });
+
+      if (validatedInputData.quoteId) {
+        const quoteUpdate = { status: 'accepted', orderId: newOrderId, acceptedAt: serverTimestamp(), updatedAt: serverTimestamp() };
+        await updateDoc(doc(db, 'quotes', validatedInputData.quoteId), quoteUpdate);
+        await recordAudit({
+          actor: auth.user,
+          entityType: 'quote',
+          entityId: validatedInputData.quoteId,
+          entityLabel: firestoreOrderData.shippingInfo.name,
+          action: 'status_change',
+          before: quoteData,
+          after: quoteUpdate,
+        });
+        revalidatePath('/quotes');
+        revalidatePath(`/quotes/${validatedInputData.quoteId}`);
+      }
+
       // Revalidate paths
       revalidatePath('/orders');
       revalidatePath(`/orders/${newOrderId}`); // Revalidate detail page
-      revalidatePath('/inventory'); // Inventory will be updated by Cloud Function
+      revalidatePath('/inventory'); // Stock was reserved with the order
       revalidatePath('/logistics');
       revalidatePath('/');
 
       return {
         success: true,
-        message: `Order created successfully. Inventory will be updated automatically.`,
+        message: `Order created successfully${accountTerms ? ` on ${PAYMENT_TERMS_LABELS[accountTerms]} account terms` : ''}${initialPayment ? ` with ₹${initialPayment.amount.toFixed(2)} paid` : ''}. Stock has been ${firestoreOrderData.status === 'Pending Payment' ? 'reserved until payment' : 'allocated'}${backorderedUnits > 0 ? `; ${backorderedUnits} unit(s) are backordered` : ''}${madeToOrderUnits > 0 ? `; ${madeToOrderUnits} unit(s) will be made to order` : ''}.`,
         orderId: newOrderId, // Return the new ID
       };
 
   } catch (error) {
       console.error("Error during order creation:", error);
+      await releasePromo();
        let errorMessage = "Failed to create order due to a server error.";
        if (error instanceof Error) {
            errorMessage = `Failed to create order: ${error.message}`;
@@ -170,10 +316,13 @@ export async function createOrderAction(data: CreateOrderInput): Promise<{ succe
 export async function updateOrderAction(
   orderId: string,
   data: OrderInput
-): Promise<{ success: boolean; message: string; errors?: Record<string, any> | null }> {
+): Promise<{ success: boolean; message: string; errors?: Record<string, any> | null; error?: AuthError }> {
    if (!db) return { success: false, message: "Database config error.", errors: null };
    if (!orderId) return { success: false, message: "Order ID is required.", errors: null };
 
+   const auth = await authorize('orders:edit');
+   if (!auth.ok) return { success: false, message: auth.message, errors: null, error: auth.error };
+
    const validationResult = OrderSchema.safeParse(data);
    if (!validationResult.success) {
        console.error("Update Order Validation Errors:", validationResult.error.flatten().fieldErrors);
@@ -181,10 +330,9 @@ export async function updateOrderAction(
    }
    const validatedUpdateData = validationResult.data;
 
-   console.warn(`Updating order ${orderId}. Inventory stock NOT automatically adjusted by this action. Manual stock adjustment may be needed if items/quantities changed significantly.`);
-
    // --- CHECK ITEM EXISTENCE (FOR UPDATED ITEMS) ---
    console.log("Checking existence of updated order items...");
+   const inventoryItems = new Map<string, AddItemInput>(); // Kept for pricing changed lines below
    for (const item of validatedUpdateData.items) {
        const inventoryItem = await getInventoryItem(item.itemId);
        if (!inventoryItem) {
@@ -197,6 +345,7 @@ export async function updateOrderAction(
            };
        }
        console.log(`Item ${item.itemId} found.`);
+       inventoryItems.set(item.itemId, inventoryItem);
    }
    console.log("All updated order items found in inventory.");
    // --- END CHECK ITEM EXISTENCE ---
@@ -205,12 +354,9 @@ export async function updateOrderAction(
    const firestoreUpdateData: Record<string, any> = {
        shippingInfo: validatedUpdateData.customer as z.infer<typeof ShippingInfoSchema>,
        status: validatedUpdateData.status,
-       paymentInfo: {
-           paymentMethod: validatedUpdateData.paymentStatus,
-       } as z.infer<typeof PaymentInfoSchema>,
        'trackingInfo.carrier': validatedUpdateData.shippingMethod, // Use dot notation for nested field
        items: validatedUpdateData.items.map(item => ({
-            cartItemId: `${item.itemId}-${Date.now()}`, // Generate a new cartItemId? Or keep original? Needs consideration.
+            cartItemId: `${item.itemId}-${Date.now()}`, // Replaced below with the existing key for lines already on the order
             doorId: item.itemId,
             name: item.name,
             sku: item.sku,
@@ -219,7 +365,7 @@ export async function updateOrderAction(
             imageUrl: item.image || '',
             customizations: item.customizations || {},
         })),
-       totalAmount: calculateOrderTotal(validatedUpdateData.items),
+       updatedBy: { id: auth.user.id, name: auth.user.name, role: auth.user.role },
        updatedAt: serverTimestamp(),
    };
 
@@ -232,19 +378,211 @@ export async function updateOrderAction(
 
   try {
     const orderDocRef = doc(db, 'orders', orderId);
+    const existingOrderSnap = await getDoc(orderDocRef); // Needed for the audit diff
+    if (!existingOrderSnap.exists()) {
+      return { success: false, message: `Order ${orderId} not found.`, errors: null };
+    }
+    // A numbered invoice is a tax document; the order it was raised for can't be changed under it
+    const existingInvoiceNumber: string | undefined = existingOrderSnap.data().invoice?.number;
+    if (existingInvoiceNumber) {
+      return { success: false, message: `Order ${orderId} has been invoiced as ${existingInvoiceNumber} and can no longer be edited.`, errors: null };
+    }
+    const existingItems: any[] = existingOrderSnap.data().items || [];
+    const customerId: string | undefined = existingOrderSnap.data().customerId;
+    const { customer } = customerId ? await getCustomer(customerId) : { customer: null };
+
+    // Keep the key of lines that were already on the order so shipment allocations still point at them,
+    // and their supply state so the stock sync doesn't take stock the line was never given.
+    // New custom-size lines are made to order like they are at creation.
+    // Lines kept with the same choices keep the list price (and GST rate) they were sold at; the rest are priced
+    // again, at the customer's price tier.
+    const usedLineIndexes = new Set<number>();
+    const lineTaxRates: { gstRate?: number; hsnCode?: string }[] = [];
+    const matchedLines: (Record<string, any> | undefined)[] = [];
+    for (const [lineIndex, item] of (firestoreUpdateData.items as { cartItemId: string; doorId: string; quantity: number; customizations: Record<string, any>; [field: string]: any }[]).entries()) {
+      const matchIndex = existingItems.findIndex((existing, index) => !usedLineIndexes.has(index) && existing.doorId === item.doorId);
+      const matched = matchIndex === -1 ? undefined : existingItems[matchIndex];
+      matchedLines[lineIndex] = matched;
+      let listPrice: number;
+      if (matched && typeof matched.finalPrice === 'number' && isSameLineChoices(matched.customizations, item.customizations)) {
+        listPrice = matched.priceOverride?.listPrice ?? matched.finalPrice;
+        if (typeof matched.basePrice === 'number') item.basePrice = matched.basePrice;
+        if (matched.priceAdjustments) item.priceAdjustments = matched.priceAdjustments;
+        const inventoryItem = inventoryItems.get(item.doorId)!;
+        lineTaxRates[lineIndex] = matched.tax ? { gstRate: matched.tax.rate, hsnCode: matched.tax.hsnCode } : { gstRate: inventoryItem.gstRate, hsnCode: inventoryItem.hsnCode };
+      } else {
+        const priced = priceOrderLine(inventoryItems.get(item.doorId)!, validatedUpdateData.items[lineIndex], lineIndex, customer?.priceTier);
+        if (!priced.price) {
+          return { success: false, message: priced.message, errors: priced.errors };
+        }
+        listPrice = priced.price.unitPrice;
+        Object.assign(item, { basePrice: priced.price.basePrice, priceAdjustments: priced.price.adjustments });
+        const inventoryItem = inventoryItems.get(item.doorId)!;
+        lineTaxRates[lineIndex] = { gstRate: inventoryItem.gstRate, hsnCode: inventoryItem.hsnCode };
+      }
+      const override = resolvePriceOverride(validatedUpdateData.items[lineIndex], listPrice, lineIndex, auth.user, matched);
+      if (!override.ok) {
+        return { success: false, message: override.message, errors: override.errors, error: override.error };
+      }
+      item.finalPrice = override.finalPrice;
+      if (override.override) item.priceOverride = override.override;
+      if (matchIndex === -1) {
+        if (isMadeToOrderLine(item)) Object.assign(item, { backorderedQuantity: item.quantity, fulfillmentState: 'made_to_order' });
+        continue;
+      }
+      usedLineIndexes.add(matchIndex);
+      const existing = existingItems[matchIndex];
+      item.cartItemId = getOrderLineKey(existing, matchIndex);
+      const state = getLineFulfillmentState(existing);
+      item.fulfillmentState = state;
+      // Made-to-order lines (waiting or finished) never take stock
+      const backordered = state === 'made_to_order' || state === 'ready' ? item.quantity : Math.min(existing.backorderedQuantity || 0, item.quantity);
+      if (backordered > 0) item.backorderedQuantity = backordered;
+      if (existing.expectedReadyDate) item.expectedReadyDate = existing.expectedReadyDate;
+      if (existing.readyAt) item.readyAt = existing.readyAt;
+      if (existing.returnedQuantity) {
+        if (item.quantity < existing.returnedQuantity) {
+          return { success: false, message: `${item.name} has ${existing.returnedQuantity} returned and can't be reduced below that.`, errors: null };
+        }
+        item.returnedQuantity = existing.returnedQuantity;
+      }
+    }
+    // Shipping stays as it was unless the form sent a new charge
+    const shippingCharge = validatedUpdateData.shippingCharge ?? existingOrderSnap.data().totals?.shippingTotal;
+    const existingDiscounts: AppliedDiscount[] = existingOrderSnap.data().discounts || [];
+    const discounts = await resolveOrderDiscounts(
+      firestoreUpdateData.items.map((item: { finalPrice: number; quantity: number }, index: number) => ({
+        finalPrice: item.finalPrice,
+        quantity: item.quantity,
+        discount: validatedUpdateData.items[index].discount,
+        existingDiscount: matchedLines[index]?.discount,
+      })),
+      { orderDiscount: validatedUpdateData.orderDiscount, promoCode: validatedUpdateData.promoCode || undefined },
+      auth.user,
+      existingDiscounts
+    );
+    if (!discounts.ok) {
+      return { success: false, message: discounts.message, errors: discounts.errors };
+    }
+    firestoreUpdateData.items.forEach((item: Record<string, any>, index: number) => {
+      if (discounts.lineDiscounts[index]) item.discount = discounts.lineDiscounts[index];
+    });
+    firestoreUpdateData.discounts = discounts.orderDiscounts;
+    const taxExempt = customer?.taxExempt === true;
+    const taxed = await taxOrderLines(lineTaxRates.map((rates, index) => ({ ...rates, taxableValue: discounts.taxableValues[index] })), { ...validatedUpdateData.customer, taxExempt });
+    if (taxed) {
+      firestoreUpdateData.items.forEach((item: Record<string, any>, index: number) => { item.tax = taxed.lineTaxes[index]; });
+      firestoreUpdateData.gst = taxed.gst;
+    } else if (taxExempt) {
+      firestoreUpdateData.gst = null;
+    }
+    Object.assign(firestoreUpdateData, buildOrderTotals(firestoreUpdateData.items, shippingCharge, taxed ? getLineTaxAmount(taxed.gst) : undefined, discounts.discountTotal));
+
+    const existingData = existingOrderSnap.data();
+    const { context: transitionContext, shipments } = await getOrderTransitionContext(orderId, existingData);
+    firestoreUpdateData.payment = getOrderPaymentSummary({ ...existingData, ...firestoreUpdateData }); // The balance follows the new total
+
+    // An order on account that now owes more has to keep the customer within their credit limit, as when it was placed
+    const balanceIncrease = firestoreUpdateData.payment.balanceDue - getOrderPaymentSummary(existingData).balanceDue;
+    if (customer && existingData.paymentTerms && balanceIncrease > 0) {
+      const { stats, error: balanceError } = await getCustomerOrders(customer.id);
+      if (balanceError) {
+        return { success: false, message: balanceError, errors: null };
+      }
+      const approval = resolveCreditApproval(checkCreditLimit(customer.creditLimit, stats.openBalance, balanceIncrease), validatedUpdateData.creditApprovalReason, auth.user);
+      if (!approval.ok) {
+        return { success: false, message: approval.message, errors: approval.errors, error: approval.error };
+      }
+      if (approval.approval) firestoreUpdateData.creditApproval = approval.approval;
+    }
+
+    // Status changes from the edit form must be plain manual transitions; ones with side effects go through the status controls
+    if (firestoreUpdateData.status !== existingData.status) {
+      const check = checkManualOrderTransition(existingData.status, firestoreUpdateData.status, transitionContext);
+      if (!check.ok) {
+        return { success: false, message: check.message, errors: { status: [check.message] } };
+      }
+      if (check.transition.effects.length > 0) {
+        const message = `Use the status controls on the order page to move it to ${firestoreUpdateData.status}.`;
+        return { success: false, message, errors: { status: [message] } };
+      }
+      if (check.transition.permission && !hasPermission(auth.user.role, check.transition.permission)) {
+        return { success: false, message: "You don't have permission to make this status change.", errors: null, error: { code: 'forbidden', permission: check.transition.permission, role: auth.user.role } };
+      }
+    }
+
+    // Changing where the order is picked from moves its committed stock (the Cloud Function returns it to
+    // the old location and takes it from the new one), so it's only allowed before anything has shipped
+    const currentLocationId = existingData.fulfillmentLocationId || DEFAULT_LOCATION_ID;
+    if (validatedUpdateData.fulfillmentLocationId && validatedUpdateData.fulfillmentLocationId !== currentLocationId) {
+      if (shipments.length > 0) {
+        const message = "The pick location can't change once the order has shipments.";
+        return { success: false, message, errors: { fulfillmentLocationId: [message] } };
+      }
+      if (!(await getLocation(validatedUpdateData.fulfillmentLocationId))) {
+        return { success: false, message: "That location no longer exists.", errors: { fulfillmentLocationId: ["Choose a location."] } };
+      }
+      firestoreUpdateData.fulfillmentLocationId = validatedUpdateData.fulfillmentLocationId;
+    }
+
+    // A line can't be removed or reduced below the quantity already put on shipments
+    if (shipments.length > 0) {
+      const fulfillment = computeLineFulfillment(existingItems, shipments);
+      for (const line of fulfillment) {
+        if (line.allocated === 0) continue;
+        const updatedLine = firestoreUpdateData.items.find((item: { cartItemId: string }) => item.cartItemId === line.lineKey);
+        if (!updatedLine || updatedLine.quantity < line.allocated) {
+          return { success: false, message: `${line.name} already has ${line.allocated} on shipments and can't be reduced below that.`, errors: null };
+        }
+      }
+    }
+
+    // A newly added promo code is counted before saving; one taken off (or replaced) is given back after
+    const previousPromo = existingDiscounts.find((discount) => discount.promoCode);
+    if (discounts.promo?.isNew) {
+      const redeemed = await redeemPromoCode(discounts.promo.code, firestoreUpdateData.totals.subtotal, discounts.promo.amount);
+      if (!redeemed.success) {
+        return { success: false, message: redeemed.message, errors: { promoCode: [redeemed.message] } };
+      }
+    }
+
+    // Extra units a line now needs are taken from stock as the order is saved; what the location can't cover is backordered
     console.log(`Attempting to update order ${orderId} with data:`, Object.keys(firestoreUpdateData));
-    await updateDoc(orderDocRef, firestoreUpdateData);
+    const saved = await updateOrderWithReservation(orderId, firestoreUpdateData as Record<string, any> & { items: Record<string, any>[]; status: string }, auth.user);
+    if (!saved.success) {
+      if (discounts.promo?.isNew) await releasePromoCode(discounts.promo.code, discounts.promo.amount);
+      return { success: false, message: saved.message, errors: null };
+    }
     console.log(`Order ${orderId} updated successfully.`);
 
+    if (previousPromo?.promoCode && previousPromo.promoCode !== discounts.promo?.code) {
+      await releasePromoCode(previousPromo.promoCode, previousPromo.amount);
+    } else if (previousPromo?.promoCode && discounts.promo && discounts.promo.amount !== previousPromo.amount) {
+      await adjustPromoCodeDiscount(previousPromo.promoCode, discounts.promo.amount - previousPromo.amount);
+    }
+
+    await recordAudit({
+      actor: auth.user,
+      entityType: 'order',
+      entityId: orderId,
+      entityLabel: firestoreUpdateData.shippingInfo?.name,
+      action: 'update',
+      before: existingOrderSnap.data(),
+      after: saved.after,
+    });
+
     revalidatePath('/orders');
     revalidatePath(`/orders/${orderId}`);
     revalidatePath(`/orders/${orderId}/edit`);
     revalidatePath('/logistics');
     revalidatePath('/');
 
+    const backorderedUnits = Object.values(saved.backordered).reduce((sum, units) => sum + units, 0);
     return {
       success: true,
-      message: `Order '${orderId}' updated successfully! Remember to manually adjust stock if items changed.`,
+      message: backorderedUnits > 0
+        ? `Order '${orderId}' updated. ${backorderedUnits} unit(s) weren't in stock at the order's location and are on backorder.`
+        : `Order '${orderId}' updated successfully! Stock will be adjusted automatically for any item changes.`,
     };
 
   } catch (error) {
@@ -258,60 +596,165 @@ export async function updateOrderAction(
 }
 
 
+// --- PROMO CODE CHECK ---
+// Lets the order forms preview a promo code's discount. Nothing is counted here; the code is checked
+// again (and its use recorded) when the order is saved.
+export async function checkPromoCodeAction(
+  code: string,
+  orderValue: number,
+  orderId?: string
+): Promise<{ success: boolean; message: string; promo?: { code: string; type: DiscountType; value: number }; error?: AuthError }> {
+  const auth = await authorize(orderId ? 'orders:edit' : 'orders:create');
+  if (!auth.ok) return { success: false, message: auth.message, error: auth.error };
+
+  const { promoCode, error } = await getPromoCode(code);
+  if (!promoCode) return { success: false, message: error || `Promo code ${code.trim().toUpperCase()} doesn't exist.` };
+  const problem = getPromoCodeProblem(promoCode, orderValue);
+  if (problem) return { success: false, message: problem };
+  return {
+    success: true,
+    message: `${promoCode.code}: ${promoCode.description || 'promo code applied'}.`,
+    promo: { code: promoCode.code, type: promoCode.type, value: promoCode.value },
+  };
+}
+
+
 // --- UPDATE ORDER STATUS ACTION ---
-export async function updateOrderStatusAction(orderId: string, newStatus: string): Promise<{ success: boolean; message: string }> {
+// Applies a manual transition from the status machine and runs its side effects.
+export async function updateOrderStatusAction(orderId: string, newStatus: string): Promise<{ success: boolean; message: string; error?: AuthError }> {
    if (!db) return { success: false, message: "Database config error." };
    if (!orderId) return { success: false, message: "Order ID required." };
    if (!newStatus) return { success: false, message: "New status is required." };
 
-   // Optional: Validate if newStatus is one of the expected enum values
-   const isValidStatus = OrderStatusEnum.safeParse(newStatus);
-   if (!isValidStatus.success) {
-        // Check if it's a valid payment status instead (for edit form compatibility)
-       const isValidPaymentStatus = PaymentStatusEnum.safeParse(newStatus);
-       if (!isValidPaymentStatus.success) {
-           console.warn(`Invalid status provided: ${newStatus}`);
-            // Decide how to handle: error out or proceed cautiously? Erroring out is safer.
-            return { success: false, message: `Invalid status value: ${newStatus}` };
-       }
-        // If it's a valid payment status, map it to a relevant order status if needed
-        // For now, we'll allow setting the main status to a payment status if passed from edit form
-        console.log(`Updating status with payment status value: ${newStatus}`);
+   const auth = await authorize('orders:update_status');
+   if (!auth.ok) return { success: false, message: auth.message, error: auth.error };
+
+   if (!OrderStatusEnum.safeParse(newStatus).success) {
+     console.warn(`Invalid status provided: ${newStatus}`);
+     return { success: false, message: `Invalid status value: ${newStatus}` };
    }
 
+   // Cancellation has its own action (and permission check)
+   if (newStatus === 'Cancelled') {
+     return cancelOrderAction(orderId);
+   }
 
    try {
      const orderDocRef = doc(db, 'orders', orderId);
+     const existingOrderSnap = await getDoc(orderDocRef);
+     if (!existingOrderSnap.exists()) {
+       return { success: false, message: `Order ${orderId} not found.` };
+     }
+     const orderData = existingOrderSnap.data();
+
+     const { context, shipments } = await getOrderTransitionContext(orderId, orderData);
+     const check = checkManualOrderTransition(orderData.status, newStatus, context);
+     if (!check.ok) {
+       return { success: false, message: check.message };
+     }
+     const { transition } = check;
+     if (transition.permission && !hasPermission(auth.user.role, transition.permission)) {
+       return {
+         success: false,
+         message: "You don't have permission to make this status change.",
+         error: { code: 'forbidden', permission: transition.permission, role: auth.user.role },
+       };
+     }
+
+     // --- Side effect: ship everything not yet on a shipment ---
+     // The shipment sync sets the order status (Shipped, or Partially Shipped if other loads haven't left)
+     if (transition.effects.includes('create_shipment')) {
+       const fulfillment = computeLineFulfillment(orderData.items || [], shipments);
+       const items = fulfillment
+         .map((line, index) => ({ cartItemId: line.lineKey, doorId: orderData.items[index].doorId, name: line.name, sku: line.sku, quantity: line.shippable }))
+         .filter((item) => item.quantity > 0);
+       const shippingInfo = orderData.shippingInfo || {};
+       const shipmentResult = await createShipmentAction({
+         orderId,
+         customerName: shippingInfo.name || 'N/A',
+         carrier: orderData.trackingInfo?.carrier || 'TBD',
+         trackingNumber: 'Pending',
+         status: 'Picked Up',
+         origin: 'Showroom',
+         destination: [shippingInfo.address, shippingInfo.city, shippingInfo.state, shippingInfo.zipCode].filter(Boolean).join(', ') || 'N/A',
+         items,
+         notes: 'Created when the order was marked Shipped.',
+       });
+       if (!shipmentResult.success) {
+         return { success: false, message: `Could not create the shipment: ${shipmentResult.message}`, error: shipmentResult.error };
+       }
+       return { success: true, message: "Remaining items were put on a new shipment and the order status was updated." };
+     }
 
      const updateData: Record<string, any> = {
          updatedAt: serverTimestamp(),
-         status: newStatus, // Update the main order status
+         updatedBy: { id: auth.user.id, name: auth.user.name, role: auth.user.role },
+         status: newStatus,
      };
 
-      // Also update tracking status based on the new main status for consistency
-      if (newStatus === 'Shipped') {
-          updateData['trackingInfo.status'] = 'Shipped';
-      } else if (newStatus === 'Delivered') {
-          updateData['trackingInfo.status'] = 'Delivered';
-      } else if (newStatus === 'Processing') {
-           updateData['trackingInfo.status'] = 'Shipment Information Received'; // Or 'Processing' if preferred
-      } else if (newStatus === 'Cancelled' || newStatus === 'Refunded') {
-           updateData['trackingInfo.status'] = 'Cancelled';
-      } else if (newStatus === 'Pending Payment') {
-           updateData['trackingInfo.status'] = 'Pending'; // Example mapping
-      }
-      // Add more mappings as needed based on your statuses
+     // --- Side effect: refund record ---
+     // Orders with payment records get a refund entry for what was paid, made the way it was last paid;
+     // older orders only have their payment method to mark
+     const batch = writeBatch(db);
+     const updatedOrder: Record<string, any> = { ...orderData, status: newStatus };
+     if (transition.effects.includes('refund_record')) {
+       const { amountPaid } = getOrderPaymentSummary(orderData);
+       if (Array.isArray(orderData.payments)) {
+         const lastPayment = orderData.payments.map(mapPaymentRecord).filter((payment) => !payment.voided && payment.kind === 'payment').pop();
+         const refund = buildPaymentRecord({ amount: amountPaid, method: lastPayment?.method || 'cash', paidOn: new Date().toISOString().slice(0, 10) }, auth.user, 'refund');
+         updateData.payments = updatedOrder.payments = [...orderData.payments, refund];
+       } else {
+         updateData['paymentInfo.paymentMethod'] = 'Refunded';
+         updatedOrder.paymentInfo = { paymentMethod: 'Refunded' };
+       }
+       batch.set(doc(collection(db, 'refunds')), {
+         orderId,
+         amount: amountPaid,
+         previousPaymentMethod: orderData.paymentInfo?.paymentMethod || null, // Older orders only
+         previousPaymentStatus: getOrderPaymentSummary(orderData).status,
+         fromStatus: orderData.status,
+         createdBy: { id: auth.user.id, name: auth.user.name, role: auth.user.role },
+         createdAt: serverTimestamp(),
+       });
+     }
+     updateData.payment = getOrderPaymentSummary(updatedOrder);
 
-     console.log(`Attempting to update status for order ${orderId} to ${newStatus} with data:`, updateData);
-     await updateDoc(orderDocRef, updateData);
+     // --- Side effect: take the stock back ---
+     // A reopened order takes its units in the same transaction as the status change; units sold since it was
+     // cancelled are backordered rather than left for the stock sync to skip
+     console.log(`Attempting to update status for order ${orderId} from ${orderData.status} to ${newStatus}.`);
+     let backorderedUnits = 0;
+     let after: Record<string, any> = updateData;
+     if (transition.effects.includes('deduct_stock')) {
+       const reopened = await updateOrderWithReservation(orderId, { ...updateData, items: orderData.items || [], status: newStatus }, auth.user, 'order_reopened');
+       if (!reopened.success) return { success: false, message: reopened.message };
+       backorderedUnits = Object.values(reopened.backordered).reduce((sum, units) => sum + units, 0);
+       after = reopened.after;
+     } else {
+       batch.update(orderDocRef, updateData);
+     }
+     await batch.commit();
      console.log(`Order ${orderId} status updated successfully.`);
 
+     await recordAudit({
+       actor: auth.user,
+       entityType: 'order',
+       entityId: orderId,
+       entityLabel: orderData.shippingInfo?.name,
+       action: 'status_change',
+       before: orderData,
+       after,
+     });
+
      revalidatePath('/orders');
      revalidatePath(`/orders/${orderId}`);
      revalidatePath('/logistics');
      revalidatePath('/');
 
-     return { success: true, message: "Order status updated successfully." };
+     return {
+       success: true,
+       message: `Order status updated to ${newStatus}.${backorderedUnits > 0 ? ` ${backorderedUnits} unit(s) are no longer in stock and are on backorder.` : ''}`,
+     };
    } catch (error) {
       console.error(`Error updating order status for ${orderId}:`, error);
       let errorMessage = "Failed to update order status due to a database error.";
@@ -324,11 +767,14 @@ export async function updateOrderStatusAction(orderId: string, newStatus: string
 
 
 // --- CANCEL ORDER ACTION ---
-// Assumes a Cloud Function handles inventory restock triggered by status change.
-export async function cancelOrderAction(orderId: string): Promise<{ success: boolean; message: string }> {
+// Inventory is restocked by the Cloud Function's stock sync when the status changes.
+export async function cancelOrderAction(orderId: string): Promise<{ success: boolean; message: string; error?: AuthError }> {
     if (!db) return { success: false, message: "Database config error." };
     if (!orderId) return { success: false, message: "Order ID required." };
 
+    const auth = await authorize('orders:cancel');
+    if (!auth.ok) return { success: false, message: auth.message, error: auth.error };
+
     const orderDocRef = doc(db, 'orders', orderId);
 
     try {
@@ -341,28 +787,40 @@ export async function cancelOrderAction(orderId: string): Promise<{ success: boo
 
         const orderData = orderSnap.data();
         const currentStatus = orderData.status;
-        const nonCancellableStatuses = ['Shipped', 'Delivered', 'Cancelled', 'Refunded'];
 
-        if (nonCancellableStatuses.includes(currentStatus)) {
-            console.log(`Order ${orderId} is already ${currentStatus} and cannot be cancelled.`);
-            return { success: false, message: `Order is already ${currentStatus} and cannot be cancelled.` };
+        // The status machine decides whether this order can still be cancelled
+        const { context } = await getOrderTransitionContext(orderId, orderData);
+        const check = checkManualOrderTransition(currentStatus, 'Cancelled', context);
+        if (!check.ok) {
+            console.log(`Order ${orderId} (${currentStatus}) cannot be cancelled: ${check.message}`);
+            return { success: false, message: currentStatus === 'Cancelled' ? "Order is already cancelled." : check.message };
         }
 
         // --- Prepare Order Update ---
-        await updateDoc(orderDocRef, {
+        // Payment is left as-is; refunding a paid order is its own transition (Cancelled → Refunded)
+        const cancelUpdate: Record<string, any> = {
             status: 'Cancelled', // Set main status to Cancelled
-            paymentInfo: { // Update payment info
-                ...orderData.paymentInfo, // Keep existing info if needed
-                paymentMethod: 'Refunded', // Or keep original method and add refunded flag? Needs business logic decision.
-            },
+            payment: getOrderPaymentSummary({ ...orderData, status: 'Cancelled' }), // Nothing is owed any more; anything paid shows as overpaid
              // Update tracking status if tracking info exists
              ...(orderData.trackingInfo && { 'trackingInfo.status': 'Cancelled' }),
+            updatedBy: { id: auth.user.id, name: auth.user.name, role: auth.user.role },
             updatedAt: serverTimestamp(),
-        });
+        };
+        await updateDoc(orderDocRef, cancelUpdate);
         console.log(`Order ${orderId} status updated to Cancelled.`);
 
-        // --- Inventory Restock Handled by a Separate Cloud Function ---
-        console.log(`Inventory restock for cancelled order ${orderId} should be handled by a Cloud Function triggered by the status update.`);
+        await recordAudit({
+          actor: auth.user,
+          entityType: 'order',
+          entityId: orderId,
+          entityLabel: orderData.shippingInfo?.name,
+          action: 'cancel',
+          before: orderData,
+          after: cancelUpdate,
+        });
+
+        // --- Inventory Restock Handled by the Cloud Function's stock sync ---
+        console.log(`Inventory restock for cancelled order ${orderId} will be applied by the order update trigger.`);
 
         // --- Revalidate Paths ---
         revalidatePath('/orders');
@@ -370,7 +828,7 @@ export async function cancelOrderAction(orderId: string): Promise<{ success: boo
         revalidatePath('/logistics');
         revalidatePath('/');
 
-        let successMessage = `Order ${orderId} cancelled successfully. Inventory restock will be processed automatically if configured.`;
+        let successMessage = `Order ${orderId} cancelled successfully. Its items will be returned to stock automatically.`;
 
         return { success: true, message: successMessage };
 
@@ -385,45 +843,456 @@ export async function cancelOrderAction(orderId: string): Promise<{ success: boo
 }
 
 
-// --- LINK SHIPMENT ACTION ---
-// Updates tracking info within the order document
-export async function linkShipmentToOrderAction(orderId: string, trackingData: { carrier: string; trackingNumber: string; status?: string }): Promise<{ success: boolean; message: string }> {
+// --- BACKORDER ACTIONS ---
+// Fills a backordered line from stock received since the order was placed
+export async function allocateBackorderedLineAction(orderId: string, lineKey: string): Promise<{ success: boolean; message: string; error?: AuthError }> {
+   if (!orderId || !lineKey) return { success: false, message: "Order ID and line are required." };
+
+   const auth = await authorize('orders:update_status');
+   if (!auth.ok) return { success: false, message: auth.message, error: auth.error };
+
+   const result = await allocateBackorderedLine(orderId, lineKey, auth.user);
+   if (!result.success) return { success: false, message: result.message };
+
+   await recordAudit({
+     actor: auth.user,
+     entityType: 'order',
+     entityId: orderId,
+     entityLabel: result.before?.shippingInfo?.name,
+     action: 'update',
+     before: result.before ?? null,
+     after: result.after ?? null,
+   });
+
+   revalidatePath('/orders');
+   revalidatePath('/orders/backorders');
+   revalidatePath(`/orders/${orderId}`);
+   revalidatePath('/inventory');
+   revalidatePath('/logistics/new');
+
+   return { success: true, message: result.message };
+}
+
+// Marks a made-to-order line as finished so it can go on a shipment
+export async function markLineReadyAction(orderId: string, lineKey: string): Promise<{ success: boolean; message: string; error?: AuthError }> {
    if (!db) return { success: false, message: "Database config error." };
-   if (!orderId || !trackingData || !trackingData.carrier || !trackingData.trackingNumber) {
-       return { success: false, message: "Order ID, carrier, and tracking number are required." };
-   }
+   if (!orderId || !lineKey) return { success: false, message: "Order ID and line are required." };
+
+   const auth = await authorize('orders:update_status');
+   if (!auth.ok) return { success: false, message: auth.message, error: auth.error };
 
    try {
      const orderDocRef = doc(db, 'orders', orderId);
-     console.log(`Linking tracking info to order ${orderId}:`, trackingData);
-
-     // Prepare the trackingInfo object to update
-     const trackingInfoUpdate: z.infer<typeof TrackingInfoSchema> = {
-          carrier: trackingData.carrier,
-          trackingNumber: trackingData.trackingNumber,
-          status: trackingData.status || 'Shipped', // Default to 'Shipped' if no status provided
-          // Add any other relevant fields from your TrackingInfoSchema here
-     };
+     const existingOrderSnap = await getDoc(orderDocRef);
+     if (!existingOrderSnap.exists()) {
+       return { success: false, message: `Order ${orderId} not found.` };
+     }
+     const existingData = existingOrderSnap.data();
+     const items: any[] = existingData.items || [];
+     const lineIndex = items.findIndex((item, index) => getOrderLineKey(item, index) === lineKey);
+     if (lineIndex === -1) {
+       return { success: false, message: "This line is no longer on the order." };
+     }
+     if (getLineFulfillmentState(items[lineIndex]) !== 'made_to_order') {
+       return { success: false, message: `${items[lineIndex].name} isn't waiting on production.` };
+     }
 
-     await updateDoc(orderDocRef, {
-       trackingInfo: trackingInfoUpdate, // Update the entire trackingInfo map
-       status: 'Shipped', // Update the main order status to 'Shipped'
+     // The line's units never came from stock, so its backordered quantity stays as it is
+     const readyUpdate = {
+       items: items.map((item, index) => (index === lineIndex ? { ...item, fulfillmentState: 'ready', readyAt: Timestamp.now() } : item)),
+       updatedBy: { id: auth.user.id, name: auth.user.name, role: auth.user.role },
        updatedAt: serverTimestamp(),
+     };
+     await updateDoc(orderDocRef, readyUpdate);
+
+     await recordAudit({
+       actor: auth.user,
+       entityType: 'order',
+       entityId: orderId,
+       entityLabel: existingData.shippingInfo?.name,
+       action: 'update',
+       before: existingData,
+       after: readyUpdate,
      });
-     console.log(`Tracking info linked to order ${orderId} successfully.`);
 
      revalidatePath('/orders');
+     revalidatePath('/orders/backorders');
      revalidatePath(`/orders/${orderId}`);
-     revalidatePath('/logistics');
-     revalidatePath('/');
+     revalidatePath('/logistics/new');
 
-     return { success: true, message: "Shipment linked to order successfully." };
+     return { success: true, message: `${items[lineIndex].name} is ready to ship.` };
    } catch (error) {
-     console.error(`Error linking shipment to order ${orderId}:`, error);
-     let errorMessage = "Failed to link shipment due to a database error.";
+     console.error(`Error marking line ${lineKey} of order ${orderId} ready:`, error);
+     let errorMessage = "Failed to update the line due to a database error.";
      if (error instanceof Error) {
-         errorMessage = `Failed to link shipment: ${error.message}`;
+         errorMessage = `Failed to update the line: ${error.message}`;
      }
      return { success: false, message: errorMessage };
    }
 }
+
+
+// --- INVOICE ---
+// Takes the next number in the GST invoice series, so it's a deliberate step rather than a side effect of
+// downloading the PDF (see src/lib/documents/invoices.ts)
+export async function issueInvoiceAction(orderId: string): Promise<{ success: boolean; message: string; error?: AuthError }> {
+  if (!db) return { success: false, message: "Database config error." };
+  if (!orderId) return { success: false, message: "Order ID is required." };
+
+  const auth = await authorize('orders:invoice');
+  if (!auth.ok) return { success: false, message: auth.message, error: auth.error };
+
+  const result = await issueInvoice(orderId, auth.user);
+  if (!result.success) return { success: false, message: result.message };
+  if (result.issued) {
+    await recordAudit({
+      actor: auth.user,
+      entityType: 'order',
+      entityId: orderId,
+      entityLabel: result.before?.shippingInfo?.name,
+      action: 'issue_invoice',
+      before: result.before,
+      after: result.after,
+    });
+    revalidatePath(`/orders/${orderId}`);
+    revalidatePath('/orders');
+  }
+  return { success: true, message: result.message };
+}
+
+// --- PAYMENTS ---
+// Payment records live in the order's `payments` list; the status and balance stored next to them are
+// recomputed in the same transaction so two people recording payments at once can't lose one.
+async function changeOrderPayments(
+  orderId: string,
+  change: (orderData: Record<string, any>, payments: Record<string, any>[]) => { payments: Record<string, any>[]; extra?: Record<string, any> } | { error: string },
+  user: SessionUser
+): Promise<{ success: true; before: Record<string, any>; after: Record<string, any> } | { success: false; message: string }> {
+  const firestore = db!;
+  const orderDocRef = doc(firestore, 'orders', orderId);
+  return runTransaction(firestore, async (transaction) => {
+    const orderSnap = await transaction.get(orderDocRef);
+    if (!orderSnap.exists()) return { success: false as const, message: `Order ${orderId} not found.` };
+    const orderData = orderSnap.data();
+    const result = change(orderData, Array.isArray(orderData.payments) ? orderData.payments : []);
+    if ('error' in result) return { success: false as const, message: result.error };
+
+    const updatedOrder = { ...orderData, ...result.extra, payments: result.payments };
+    const paymentUpdate = {
+      ...result.extra,
+      payments: result.payments,
+      payment: getOrderPaymentSummary(updatedOrder),
+      updatedBy: { id: user.id, name: user.name, role: user.role },
+      updatedAt: serverTimestamp(),
+    };
+    transaction.update(orderDocRef, paymentUpdate);
+    return { success: true as const, before: orderData, after: paymentUpdate };
+  });
+}
+
+// Stores the payment summary on orders from before payments were recorded one by one, so the orders
+// list's payment filters find them. Only orders without a summary are written; safe to run again.
+// A one-off maintenance job over every order, so it's kept to owners (settings:manage) and pages through
+// the orders BATCH_SIZE at a time rather than reading them all at once.
+export async function backfillPaymentSummariesAction(): Promise<{ success: boolean; message: string; updated?: number; error?: AuthError }> {
+  if (!db) return { success: false, message: "Database config error." };
+  const firestore = db;
+
+  const auth = await authorize('settings:manage');
+  if (!auth.ok) return { success: false, message: auth.message, error: auth.error };
+
+  try {
+    let updated = 0;
+    let lastOrderId: string | undefined;
+    while (true) {
+      const pageQuery = lastOrderId
+        ? query(collection(firestore, 'orders'), orderBy(documentId()), startAfter(lastOrderId), limit(BATCH_SIZE))
+        : query(collection(firestore, 'orders'), orderBy(documentId()), limit(BATCH_SIZE));
+      const pageSnap = await getDocs(pageQuery);
+      if (pageSnap.empty) break;
+
+      const missing = pageSnap.docs.filter((orderDoc) => !orderDoc.data().payment?.status);
+      if (missing.length > 0) {
+        const batch = writeBatch(firestore);
+        missing.forEach((orderDoc) => {
+          batch.update(orderDoc.ref, { payment: getOrderPaymentSummary(orderDoc.data()) });
+        });
+        await batch.commit();
+        updated += missing.length;
+      }
+      if (pageSnap.docs.length < BATCH_SIZE) break;
+      lastOrderId = pageSnap.docs[pageSnap.docs.length - 1].id;
+    }
+
+    if (updated > 0) {
+      await recordAudit({
+        actor: auth.user,
+        entityType: 'settings',
+        entityId: 'payment_summaries',
+        entityLabel: 'Order payment summaries backfill',
+        action: 'update',
+        before: null,
+        after: { ordersUpdated: updated },
+      });
+      revalidatePath('/orders');
+    }
+    return {
+      success: true,
+      message: updated === 0 ? "Every order already has a payment summary." : `Filled in the payment summary of ${updated} order(s).`,
+      updated,
+    };
+  } catch (error) {
+    console.error("Error backfilling order payment summaries:", error);
+    return { success: false, message: "Failed to fill in payment summaries. Please try again." };
+  }
+}
+
+// Records a deposit, instalment or COD collection. An order waiting on payment moves on to Processing.
+export async function recordPaymentAction(
+  orderId: string,
+  values: PaymentInput
+): Promise<{ success: boolean; message: string; errors?: Record<string, string[]> | null; error?: AuthError }> {
+  if (!db) return { success: false, message: "Database config error.", errors: null };
+  if (!orderId) return { success: false, message: "Order ID required.", errors: null };
+
+  const auth = await authorize('payments:record');
+  if (!auth.ok) return { success: false, message: auth.message, errors: null, error: auth.error };
+
+  const validationResult = PaymentInputSchema.safeParse(values);
+  if (!validationResult.success) {
+    return { success: false, message: "Validation failed. Please check the form fields.", errors: validationResult.error.flatten().fieldErrors };
+  }
+  const payment = buildPaymentRecord(validationResult.data, auth.user);
+
+  try {
+    let movedToProcessing = false;
+    const result = await changeOrderPayments(orderId, (orderData, payments) => {
+      if (orderData.status === 'Cancelled' || orderData.status === 'Refunded') {
+        return { error: `Payments can't be recorded on a ${orderData.status.toLowerCase()} order.` };
+      }
+      const { balanceDue } = getOrderPaymentSummary(orderData);
+      if (payment.amount > balanceDue) {
+        return { error: balanceDue > 0 ? `That's more than the ₹${balanceDue.toFixed(2)} still owed.` : "Nothing is owed on this order." };
+      }
+      movedToProcessing = orderData.status === 'Pending Payment' && !!getOrderStatusTransition('Pending Payment', 'Processing')?.manual;
+      return { payments: [...payments, payment], extra: movedToProcessing ? { status: 'Processing' } : undefined };
+    }, auth.user);
+    if (!result.success) return { success: false, message: result.message, errors: { amount: [result.message] } };
+
+    await recordAudit({
+      actor: auth.user,
+      entityType: 'order',
+      entityId: orderId,
+      entityLabel: result.before.shippingInfo?.name,
+      action: 'record_payment',
+      before: result.before,
+      after: result.after,
+    });
+
+    revalidatePath('/orders');
+    revalidatePath(`/orders/${orderId}`);
+    revalidatePath('/');
+
+    const { balanceDue } = result.after.payment;
+    return {
+      success: true,
+      message: `₹${payment.amount.toFixed(2)} recorded. ${balanceDue > 0 ? `₹${balanceDue.toFixed(2)} is still owed.` : 'The order is paid in full.'}${movedToProcessing ? ' The order has moved to Processing.' : ''}`,
+      errors: null,
+    };
+  } catch (error) {
+    console.error(`Error recording a payment on order ${orderId}:`, error);
+    return { success: false, message: "Failed to record the payment. Please try again.", errors: null };
+  }
+}
+
+// Takes a payment (or refund) recorded by mistake out of the totals. The record stays on the order.
+export async function voidPaymentAction(orderId: string, paymentId: string, reason: string): Promise<{ success: boolean; message: string; error?: AuthError }> {
+  if (!db) return { success: false, message: "Database config error." };
+  if (!orderId || !paymentId) return { success: false, message: "Order ID and payment are required." };
+  if (!reason?.trim()) return { success: false, message: "Give a reason for voiding the payment." };
+
+  const auth = await authorize('payments:void');
+  if (!auth.ok) return { success: false, message: auth.message, error: auth.error };
+
+  try {
+    const result = await changeOrderPayments(orderId, (_orderData, payments) => {
+      const target = payments.find((payment) => payment.id === paymentId);
+      if (!target) return { error: "This payment is no longer on the order." };
+      if (target.voided) return { error: "This payment has already been voided." };
+      const voided = { by: { id: auth.user.id, name: auth.user.name, role: auth.user.role }, at: Timestamp.now(), reason: reason.trim() };
+      return { payments: payments.map((payment) => (payment.id === paymentId ? { ...payment, voided } : payment)) };
+    }, auth.user);
+    if (!result.success) return { success: false, message: result.message };
+
+    await recordAudit({
+      actor: auth.user,
+      entityType: 'order',
+      entityId: orderId,
+      entityLabel: result.before.shippingInfo?.name,
+      action: 'void_payment',
+      before: result.before,
+      after: result.after,
+    });
+
+    revalidatePath('/orders');
+    revalidatePath(`/orders/${orderId}`);
+    revalidatePath('/');
+
+    return { success: true, message: `Payment voided. Balance due is now ₹${result.after.payment.balanceDue.toFixed(2)}.` };
+  } catch (error) {
+    console.error(`Error voiding payment ${paymentId} on order ${orderId}:`, error);
+    return { success: false, message: "Failed to void the payment. Please try again." };
+  }
+}
+
+// --- Returns ---
+
+function revalidateReturnPaths(orderId: string) {
+  revalidatePath('/orders');
+  revalidatePath(`/orders/${orderId}`);
+  revalidatePath('/orders/returns');
+  revalidatePath('/');
+}
+
+// Authorises a customer to send back some of the units delivered on an order
+export async function authoriseReturnAction(
+  orderId: string,
+  values: ReturnAuthorisationInput
+): Promise<{ success: boolean; message: string; errors?: Record<string, string[] | undefined> | null; error?: AuthError }> {
+  if (!db) return { success: false, message: "Database config error.", errors: null };
+  if (!orderId) return { success: false, message: "Order ID required.", errors: null };
+
+  const auth = await authorize('returns:manage');
+  if (!auth.ok) return { success: false, message: auth.message, errors: null, error: auth.error };
+
+  const validationResult = ReturnAuthorisationSchema.safeParse(values);
+  if (!validationResult.success) {
+    const flattened = validationResult.error.flatten();
+    return { success: false, message: flattened.fieldErrors.lines?.[0] || "Validation failed. Please check the form fields.", errors: flattened.fieldErrors };
+  }
+
+  const result = await authoriseReturn(orderId, validationResult.data, auth.user);
+  if (!result.success || !result.returnId) return { success: false, message: result.message, errors: null };
+
+  await recordAudit({
+    actor: auth.user,
+    entityType: 'return',
+    entityId: result.returnId,
+    entityLabel: result.after?.customerName,
+    action: 'create',
+    before: null,
+    after: result.after ?? null,
+  });
+
+  revalidateReturnPaths(orderId);
+  return { success: true, message: result.message, errors: null };
+}
+
+// Checks the goods on an authorised return in; restockable units go back into stock
+export async function receiveReturnAction(
+  returnId: string,
+  values: ReceiveReturnInput
+): Promise<{ success: boolean; message: string; errors?: Record<string, any> | null; error?: AuthError }> {
+  if (!returnId) return { success: false, message: "Return ID is required.", errors: null };
+
+  const auth = await authorize('returns:receive');
+  if (!auth.ok) return { success: false, message: auth.message, errors: null, error: auth.error };
+
+  const validationResult = ReceiveReturnSchema.safeParse(values);
+  if (!validationResult.success) {
+    const flattened = validationResult.error.flatten();
+    return { success: false, message: flattened.fieldErrors.locationId?.[0] || "Validation failed.", errors: flattened.fieldErrors };
+  }
+  if (!(await getLocation(validationResult.data.locationId))) {
+    return { success: false, message: "That location no longer exists.", errors: null };
+  }
+
+  const result = await receiveReturn(returnId, validationResult.data, auth.user);
+  if (!result.success || !result.orderId) return { success: false, message: result.message, errors: null };
+
+  await recordAudit({
+    actor: auth.user,
+    entityType: 'return',
+    entityId: returnId,
+    entityLabel: result.before?.customerName,
+    action: 'receive',
+    before: result.before ?? null,
+    after: result.after ?? null,
+  });
+
+  revalidateReturnPaths(result.orderId);
+  revalidatePath('/inventory');
+  (result.before?.lines || []).forEach((line: { doorId: string }) => revalidatePath(`/inventory/${line.doorId}`));
+
+  return { success: true, message: result.message, errors: null };
+}
+
+// Refunds a received return against the order's payments
+export async function refundReturnAction(
+  returnId: string,
+  values: ReturnRefundInput
+): Promise<{ success: boolean; message: string; errors?: Record<string, string[] | undefined> | null; error?: AuthError }> {
+  if (!returnId) return { success: false, message: "Return ID is required.", errors: null };
+
+  const auth = await authorize('returns:manage');
+  if (!auth.ok) return { success: false, message: auth.message, errors: null, error: auth.error };
+
+  const validationResult = ReturnRefundSchema.safeParse(values);
+  if (!validationResult.success) {
+    return { success: false, message: "Validation failed. Please check the form fields.", errors: validationResult.error.flatten().fieldErrors };
+  }
+
+  const result = await refundReturn(returnId, validationResult.data, auth.user);
+  if (!result.success || !result.orderId) return { success: false, message: result.message, errors: { amount: [result.message] } };
+
+  await recordAudit({
+    actor: auth.user,
+    entityType: 'return',
+    entityId: returnId,
+    entityLabel: result.before?.customerName,
+    action: 'refund',
+    before: result.before ?? null,
+    after: result.after ?? null,
+  });
+
+  revalidateReturnPaths(result.orderId);
+  return { success: true, message: result.message, errors: null };
+}
+
+// Withdraws an authorisation before the goods come back
+export async function cancelReturnAction(returnId: string): Promise<{ success: boolean; message: string; error?: AuthError }> {
+  if (!db) return { success: false, message: "Database config error." };
+  if (!returnId) return { success: false, message: "Return ID is required." };
+
+  const auth = await authorize('returns:manage');
+  if (!auth.ok) return { success: false, message: auth.message, error: auth.error };
+
+  try {
+    const returnRef = doc(db, 'returns', returnId);
+    const returnSnap = await getDoc(returnRef);
+    if (!returnSnap.exists()) return { success: false, message: `Return ${returnId} not found.` };
+    const returnData = returnSnap.data();
+    if (returnData.status !== 'Authorised') {
+      return { success: false, message: `Only authorised returns can be cancelled; this one is ${String(returnData.status).toLowerCase()}.` };
+    }
+
+    const after = { status: 'Cancelled', cancelledBy: { id: auth.user.id, name: auth.user.name, role: auth.user.role }, cancelledAt: serverTimestamp() };
+    await updateDoc(returnRef, after);
+
+    await recordAudit({
+      actor: auth.user,
+      entityType: 'return',
+      entityId: returnId,
+      entityLabel: returnData.customerName,
+      action: 'cancel',
+      before: returnData,
+      after,
+    });
+
+    revalidateReturnPaths(returnData.orderId);
+    return { success: true, message: "Return cancelled." };
+  } catch (error) {
+    console.error(`Error cancelling return ${returnId}:`, error);
+    return { success: false, message: "Failed to cancel the return. Please try again." };
+  }
+}
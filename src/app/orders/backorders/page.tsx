@@ -0,0 +1,175 @@
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Home, Hourglass, AlertTriangle } from 'lucide-react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { db, collection, getDocs, Timestamp } from '@/lib/firebase/firebase';
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import { getAwaitingSupply, getLineFulfillmentState, LINE_FULFILLMENT_STATE_LABELS, type LineFulfillmentState } from '@/lib/orders/backorders';
+import { getOrderLineKey } from '@/lib/orders/fulfillment';
+import { BackorderLineActions } from "@/components/orders/backorder-line-actions";
+
+// Orders whose lines no longer wait on anything
+const CLOSED_ORDER_STATUSES = ['Cancelled', 'Refunded', 'Delivered'];
+
+interface BackorderRow {
+  orderId: string;
+  orderStatus: string;
+  customerName: string;
+  lineKey: string;
+  doorId: string;
+  name: string;
+  sku: string;
+  waiting: number;
+  state: LineFulfillmentState;
+  orderDate: string; // ISO string
+  expectedReadyDate?: string; // ISO string
+}
+
+// Lines waiting on supplier receipt or production, soonest expected first (undated lines last)
+async function getBackorderRows(): Promise<{ rows: BackorderRow[]; error?: string }> {
+  if (!db) return { rows: [], error: "Database initialization failed. Please check configuration." };
+  try {
+    const snapshot = await getDocs(collection(db, 'orders'));
+    const rows: BackorderRow[] = [];
+    snapshot.forEach((docSnap) => {
+      const data = docSnap.data();
+      if (CLOSED_ORDER_STATUSES.includes(data.status)) return;
+      (data.items || []).forEach((item: any, index: number) => {
+        const waiting = getAwaitingSupply(item);
+        if (waiting === 0) return;
+        rows.push({
+          orderId: docSnap.id,
+          orderStatus: data.status,
+          customerName: data.shippingInfo?.name || 'N/A',
+          lineKey: getOrderLineKey(item, index),
+          doorId: item.doorId,
+          name: item.name,
+          sku: item.sku,
+          waiting,
+          state: getLineFulfillmentState(item),
+          orderDate: data.orderDate instanceof Timestamp ? data.orderDate.toDate().toISOString() : new Date().toISOString(),
+          expectedReadyDate: item.expectedReadyDate instanceof Timestamp ? item.expectedReadyDate.toDate().toISOString() : undefined,
+        });
+      });
+    });
+    rows.sort((a, b) => {
+      if (a.expectedReadyDate && b.expectedReadyDate) return a.expectedReadyDate.localeCompare(b.expectedReadyDate);
+      if (a.expectedReadyDate || b.expectedReadyDate) return a.expectedReadyDate ? -1 : 1;
+      return a.orderDate.localeCompare(b.orderDate);
+    });
+    return { rows };
+  } catch (error) {
+    console.error("Error fetching backordered lines:", error);
+    return { rows: [], error: "Failed to load backorders due to a database error." };
+  }
+}
+
+export default async function BackordersPage() {
+  const { rows, error } = await getBackorderRows();
+  const now = new Date().toISOString();
+  const backorderedUnits = rows.filter((row) => row.state === 'backordered').reduce((sum, row) => sum + row.waiting, 0);
+  const madeToOrderUnits = rows.filter((row) => row.state === 'made_to_order').reduce((sum, row) => sum + row.waiting, 0);
+
+  return (
+    <div className="container mx-auto py-6 animate-subtle-fade-in space-y-6">
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild><Link href="/"><Home className="h-4 w-4"/></Link></BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild><Link href="/orders">Orders</Link></BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbPage>Backorders</BreadcrumbPage>
+          </BreadcrumbItem>
+        </BreadcrumbList>
+      </Breadcrumb>
+
+      <h1 className="text-3xl font-semibold text-foreground">Backorders</h1>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Error Loading Backorders</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card className="shadow-md border border-border/50">
+        <CardHeader>
+          <CardTitle className="text-xl flex items-center gap-2"><Hourglass className="h-5 w-5 text-primary" /> Waiting on Supply</CardTitle>
+          <CardDescription>
+            {backorderedUnits} unit(s) waiting on supplier receipt, {madeToOrderUnits} unit(s) in production.
+            Expected dates come from each item&apos;s lead time.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {rows.length === 0 ? (
+            <p className="text-sm text-muted-foreground italic text-center py-6">Nothing is waiting on production or supplier receipt.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Order</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Item</TableHead>
+                  <TableHead className="text-center">Waiting</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Expected Ready</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => (
+                  <TableRow key={`${row.orderId}-${row.lineKey}`}>
+                    <TableCell>
+                      <Link href={`/orders/${row.orderId}`} className="font-medium hover:underline">{row.orderId.substring(0, 8)}...</Link>
+                      <div className="text-xs text-muted-foreground">{format(new Date(row.orderDate), 'PP')} · {row.orderStatus}</div>
+                    </TableCell>
+                    <TableCell>{row.customerName}</TableCell>
+                    <TableCell>
+                      <Link href={`/inventory/${row.doorId}`} className="hover:underline">{row.name}</Link>
+                      <div className="text-xs text-muted-foreground">{row.sku}</div>
+                    </TableCell>
+                    <TableCell className="text-center font-medium">{row.waiting}</TableCell>
+                    <TableCell>
+                      <Badge variant="secondary" className="whitespace-nowrap">{LINE_FULFILLMENT_STATE_LABELS[row.state]}</Badge>
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {row.expectedReadyDate ? (
+                        <>
+                          {format(new Date(row.expectedReadyDate), 'PP')}
+                          {row.expectedReadyDate < now && <Badge variant="destructive" className="ml-2">Overdue</Badge>}
+                        </>
+                      ) : (
+                        <span className="text-muted-foreground">No lead time</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <BackorderLineActions orderId={row.orderId} lineKey={row.lineKey} state={row.state} />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export const dynamic = 'force-dynamic';
@@ -13,6 +13,10 @@ import {
 } from "@/components/ui/breadcrumb";
 import { db, collection, getDocs, Timestamp } from '@/lib/firebase/firebase';
 import type { AddItemInput } from '@/schemas/inventory';
+import { getLocations } from '@/lib/inventory/locations';
+import { getTaxSettings } from '@/lib/settings/tax-settings';
+import { getQuote, OPEN_QUOTE_STATUSES } from '@/lib/orders/quotes';
+import { getCustomers } from '@/lib/customers/customers';
 
 // Define the structure of an inventory item for selection
 interface InventorySelectItem extends AddItemInput {
@@ -58,8 +62,17 @@ async function getInventoryItemsForSelection(): Promise<{ items: InventorySelect
   }
 }
 
-export default async function CreateOrderPage() {
-  const { items: inventoryItems, error: fetchError } = await getInventoryItemsForSelection();
+export default async function CreateOrderPage({ searchParams }: { searchParams: Promise<{ quoteId?: string }> }) {
+  const { quoteId } = await searchParams;
+  const [{ items: inventoryItems, error: fetchError }, { locations }, { settings: taxSettings }, { customers }, { quote }] = await Promise.all([
+    getInventoryItemsForSelection(),
+    getLocations(),
+    getTaxSettings(),
+    getCustomers(),
+    quoteId ? getQuote(quoteId) : Promise.resolve({ quote: null }),
+  ]);
+  // Converting a quote: the form starts from its lines and prices. Only open quotes can be converted.
+  const sourceQuote = quote && !quote.orderId && OPEN_QUOTE_STATUSES.includes(quote.status) ? quote : undefined;
 
   // Handle fetch error if necessary (display error in form or block access)
   // For simplicity, we'll pass the error to the form to handle
@@ -95,7 +108,10 @@ export default async function CreateOrderPage() {
        </div>
 
        {/* Form Component */}
-      <CreateOrderForm inventoryItems={inventoryItems} fetchError={fetchError} />
+      {quoteId && !sourceQuote && (
+        <p className="text-sm text-destructive">Quote {quoteId} can't be converted: it was not found, is no longer open, or already has an order.</p>
+      )}
+      <CreateOrderForm inventoryItems={inventoryItems} locations={locations} taxSettings={taxSettings} fetchError={fetchError} customers={customers} quote={sourceQuote} />
     </div>
   );
 }
@@ -1,14 +1,8 @@
-
-"use client"; // Make this a Client Component
-
-import * as React from 'react'; // Import React
 import { Button } from "@/components/ui/button";
-import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
-import { Input } from "@/components/ui/input";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardHeader, CardTitle, CardContent, CardDescription, CardFooter } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
-import { PlusCircle, Filter, Search, Package, MoreHorizontal, AlertTriangle, PackageSearch } from "lucide-react";
+import { PlusCircle, MoreHorizontal, AlertTriangle, PackageSearch, ArrowDown, ArrowUp, ArrowUpDown, ChevronLeft, ChevronRight } from "lucide-react";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -17,79 +11,16 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { db, collection, getDocs, Timestamp, query, orderBy } from '@/lib/firebase/firebase';
-import type { Order, OrderItemSchema, ShippingInfoSchema, PaymentInfoSchema, TrackingInfoSchema } from '@/schemas/order'; // Import updated Order type
 import Link from 'next/link';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { format } from 'date-fns';
-import { Skeleton } from '@/components/ui/skeleton'; // Import Skeleton
-
-// Function to fetch orders from Firestore based on the new structure
-async function getOrders(): Promise<{ orders: Order[]; error?: string }> {
-  if (!db) {
-    const errorMessage = "Firestore database is not initialized. Cannot fetch orders. Please check Firebase configuration.";
-    console.error(errorMessage);
-    return { orders: [], error: "Database initialization failed. Please check configuration." };
-  }
-
-  try {
-    console.log("Attempting to fetch orders from Firestore (new structure)...");
-    const ordersCollectionRef = collection(db, 'orders');
-    // Assuming 'orderDate' is the field to sort by, descending
-    const q = query(ordersCollectionRef, orderBy('orderDate', 'desc'));
-    const querySnapshot = await getDocs(q);
-
-    const orders: Order[] = [];
-    querySnapshot.forEach((doc) => {
-      const data = doc.data();
-
-      // Map Firestore data to the Order interface
-      const orderData: Order = {
-        id: doc.id,
-        items: (data.items || []).map((item: any) => ({ // Map items explicitly
-             cartItemId: item.cartItemId,
-             doorId: item.doorId,
-             name: item.name,
-             sku: item.sku,
-             quantity: item.quantity,
-             finalPrice: item.finalPrice,
-             imageUrl: item.imageUrl,
-             customizations: item.customizations,
-        })),
-        // Convert Firestore Timestamp to ISO string
-        orderDate: data.orderDate instanceof Timestamp ? data.orderDate.toDate().toISOString() : new Date().toISOString(), // Fallback
-        paymentInfo: data.paymentInfo as z.infer<typeof PaymentInfoSchema>,
-        shippingInfo: data.shippingInfo as z.infer<typeof ShippingInfoSchema>,
-        status: data.status as string,
-        totalAmount: typeof data.totalAmount === 'number' ? data.totalAmount : 0,
-        trackingInfo: data.trackingInfo as z.infer<typeof TrackingInfoSchema> | undefined,
-        userId: data.userId as string,
-         // --- Compatibility mappings (optional, based on UI needs) ---
-         createdAt: data.orderDate instanceof Timestamp ? data.orderDate.toDate().toISOString() : new Date().toISOString(),
-         total: typeof data.totalAmount === 'number' ? data.totalAmount : 0,
-         customer: { // Map from shippingInfo
-             name: data.shippingInfo?.name || 'N/A',
-             email: data.shippingInfo?.email,
-             phone: data.shippingInfo?.phone,
-             address: data.shippingInfo?.address || 'N/A',
-         },
-          paymentStatus: data.paymentInfo?.paymentMethod || data.status, // Map payment method or fallback to main status
-         shipmentId: data.trackingInfo?.trackingNumber, // Use tracking number as shipment identifier for links
-      };
-      orders.push(orderData);
-    });
-    console.log(`Fetched ${orders.length} orders.`);
-    return { orders };
-  } catch (error) {
-     let errorMessage = `Error fetching orders from Firestore: ${error instanceof Error ? error.message : String(error)}`;
-       if (error instanceof Error && error.message.toLowerCase().includes("index")) {
-          errorMessage = "Firestore query failed: A required index is missing. Please create the index in the Firebase console (Firestore Database > Indexes) for the 'orders' collection, ordered by 'orderDate' descending.";
-          console.warn(errorMessage);
-        }
-    console.error(errorMessage);
-    return { orders: [], error: errorMessage };
-  }
-}
+import { getCurrentUser } from '@/lib/auth/server';
+import { hasPermission } from '@/lib/auth/permissions';
+import { getCustomers } from '@/lib/customers/customers';
+import { getOrderListHref, getOrderListPage, hasOrderListFilters, parseOrderListParams, ORDER_LIST_PAGE_SIZE, type OrderListParams, type OrderSortKey } from '@/lib/orders/order-list';
+import { OrderListFilters } from "@/components/orders/order-list-filters";
+import { BackfillPaymentsButton } from "@/components/orders/backfill-payments-button";
+import { PAYMENT_STATUS_LABELS } from '@/schemas/payment';
 
 // Status badge logic - may need adjustment based on Firestore status values
 const getStatusVariant = (status: string): "default" | "secondary" | "outline" | "destructive" => {
@@ -97,6 +28,7 @@ const getStatusVariant = (status: string): "default" | "secondary" | "outline" |
     case 'processing':
     case 'shipment information received': // Example shipment status mapping
       return 'default';
+    case 'partially shipped':
     case 'shipped': // Assuming Shipped exists
     case 'in transit': // Example shipment status mapping
       return 'secondary';
@@ -115,77 +47,46 @@ const getStatusVariant = (status: string): "default" | "secondary" | "outline" |
   }
 };
 
-// Get distinct statuses from fetched orders for filtering
-const getDistinctStatuses = (orders: Order[]): string[] => {
-    const statuses = new Set<string>();
-    orders.forEach(order => {
-        statuses.add(order.status); // Add main status
-        if (order.trackingInfo?.status) {
-            statuses.add(order.trackingInfo.status); // Add tracking status if available
-        }
-         if (order.paymentInfo?.paymentMethod) { // Add payment method if relevant
-            statuses.add(order.paymentInfo.paymentMethod);
-         }
-    });
-    return Array.from(statuses).sort();
-};
-
-
-export default function OrdersPage() {
-  const [orders, setOrders] = React.useState<Order[]>([]);
-  const [isLoading, setIsLoading] = React.useState(true);
-  const [fetchError, setFetchError] = React.useState<string | null>(null);
-  const [searchQuery, setSearchQuery] = React.useState("");
-  const [selectedStatus, setSelectedStatus] = React.useState("all");
-  const [availableStatuses, setAvailableStatuses] = React.useState<string[]>([]);
-
-  // Fetch data on component mount
-  React.useEffect(() => {
-    const fetchData = async () => {
-      setIsLoading(true);
-      setFetchError(null);
-      const { orders: fetchedOrders, error } = await getOrders();
-      if (error) {
-        setFetchError(error);
-      } else {
-        setOrders(fetchedOrders);
-        setAvailableStatuses(getDistinctStatuses(fetchedOrders)); // Update available statuses for filter
-      }
-      setIsLoading(false);
-    };
-    fetchData();
-  }, []); // Empty dependency array ensures this runs once on mount
-
-  // Filter orders based on search and status (now includes more comprehensive check)
-  const filteredOrders = React.useMemo(() => {
-    return orders.filter(order => {
-      const searchLower = searchQuery.toLowerCase();
-      const matchesSearch = searchQuery === "" ||
-        order.id.toLowerCase().includes(searchLower) ||
-        order.shippingInfo.name.toLowerCase().includes(searchLower) ||
-        (order.shippingInfo.email && order.shippingInfo.email.toLowerCase().includes(searchLower)) ||
-        (order.trackingInfo?.trackingNumber && order.trackingInfo.trackingNumber.toLowerCase().includes(searchLower)); // Search tracking number
-
-      // Check against main status, tracking status, or payment method if relevant
-      const matchesStatus = selectedStatus === "all" ||
-                            order.status.toLowerCase() === selectedStatus.toLowerCase() ||
-                            (order.trackingInfo?.status && order.trackingInfo.status.toLowerCase() === selectedStatus.toLowerCase()) ||
-                             (order.paymentInfo?.paymentMethod && order.paymentInfo.paymentMethod.toLowerCase() === selectedStatus.toLowerCase());
+// A column header that sorts by its column, and flips the direction when it already does
+function SortableHead({ label, sortKey, params, className }: { label: string; sortKey: OrderSortKey; params: OrderListParams; className?: string }) {
+  const isSorted = params.sort === sortKey;
+  const nextDir = isSorted && params.dir === 'desc' ? 'asc' : isSorted ? 'desc' : sortKey === 'customer' ? 'asc' : 'desc';
+  const Icon = !isSorted ? ArrowUpDown : params.dir === 'asc' ? ArrowUp : ArrowDown;
+  return (
+    <TableHead className={className} aria-sort={isSorted ? (params.dir === 'asc' ? 'ascending' : 'descending') : undefined}>
+      <Link href={getOrderListHref(params, { sort: sortKey, dir: nextDir })} className="inline-flex items-center gap-1 hover:text-foreground">
+        {label}
+        <Icon className={`h-3.5 w-3.5 ${isSorted ? '' : 'text-muted-foreground/60'}`} />
+      </Link>
+    </TableHead>
+  );
+}
 
-      return matchesSearch && matchesStatus;
-    });
-  }, [orders, searchQuery, selectedStatus]);
+export default async function OrdersPage({ searchParams }: { searchParams: Promise<Record<string, string | string[] | undefined>> }) {
+  const params = parseOrderListParams(await searchParams);
+  const [{ orders, total, nextCursor, previousCursor, error: fetchError }, { customers }, currentUser] = await Promise.all([
+    getOrderListPage(params),
+    getCustomers(),
+    getCurrentUser(),
+  ]);
+  const can = (permission: Parameters<typeof hasPermission>[1]) => hasPermission(currentUser?.role, permission);
+  const isFiltered = hasOrderListFilters(params);
+  const customerName = params.customerId ? customers.find((customer) => customer.id === params.customerId)?.name : undefined;
 
   return (
     <div className="container mx-auto py-6 animate-subtle-fade-in space-y-8">
       <div className="flex flex-col md:flex-row justify-between md:items-center gap-4">
         <h1 className="text-4xl font-bold text-foreground">Orders</h1>
-        {/* Link to create order page (assuming it exists or needs update) */}
-        <Button asChild className="btn-primary-gradient" disabled>
-           <Link href="/orders/new">
-             <PlusCircle className="mr-2 h-4 w-4" /> Create New Order (soon)
-           </Link>
-         </Button>
+        <div className="flex flex-wrap gap-2">
+          <BackfillPaymentsButton />
+          {can('orders:create') && (
+            <Button asChild className="btn-primary-gradient">
+               <Link href="/orders/new">
+                 <PlusCircle className="mr-2 h-4 w-4" /> Create New Order
+               </Link>
+             </Button>
+          )}
+        </div>
       </div>
 
        {/* Display Error if fetching failed */}
@@ -200,102 +101,34 @@ export default function OrdersPage() {
                    Please verify your Firebase setup in `.env.local` and restart the application.
                  </span>
                )}
-                {fetchError.includes("index") && (
-                  <span className="block mt-2 text-xs">
-                     A Firestore index might be required. Please check the Firebase console under Firestore Database &gt; Indexes. Create an index on the 'orders' collection for the 'orderDate' field (descending).
-                  </span>
-                 )}
              </AlertDescription>
            </Alert>
        )}
 
-       {/* Filters and Search Section */}
+       {/* Filters Section */}
        <Card className="p-4 md:p-6 shadow-sm card-header-gradient border-none">
-          <div className="flex flex-col md:flex-row gap-4 items-center">
-            <div className="relative flex-grow w-full md:w-auto">
-              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-              <Input
-                placeholder="Search ID, Customer, Email, Tracking..."
-                className="pl-10"
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                disabled={isLoading}
-              />
-            </div>
-            <div className="flex flex-col sm:flex-row gap-4 w-full md:w-auto">
-               <Select
-                 value={selectedStatus}
-                 onValueChange={setSelectedStatus}
-                 disabled={isLoading || availableStatuses.length === 0}
-               >
-                 <SelectTrigger className="w-full sm:w-[180px]">
-                    <Filter className="mr-2 h-4 w-4 text-muted-foreground inline" />
-                   <SelectValue placeholder="Filter by Status" />
-                 </SelectTrigger>
-                 <SelectContent>
-                   <SelectItem value="all">All Statuses</SelectItem>
-                   {/* Use dynamically generated statuses */}
-                   {availableStatuses.map(status => (
-                        <SelectItem key={status} value={status.toLowerCase()}>{status}</SelectItem>
-                   ))}
-                 </SelectContent>
-               </Select>
-            </div>
-          </div>
+          <OrderListFilters key={getOrderListHref(params)} params={params} customers={customers.map(({ id, name }) => ({ id, name }))} />
         </Card>
 
-      {/* Orders Table or Loading Skeletons */}
-      {isLoading ? (
-        <Card className="shadow-md">
-          <CardHeader>
-            <Skeleton className="h-6 w-1/4" />
-            <Skeleton className="h-4 w-1/2 mt-1" />
-          </CardHeader>
-          <CardContent>
-            <Table>
-              <TableHeader>
-                <TableRow>
-                   {/* Define number of columns for skeleton */}
-                  <TableHead><Skeleton className="h-5 w-20" /></TableHead>
-                  <TableHead><Skeleton className="h-5 w-32" /></TableHead>
-                  <TableHead><Skeleton className="h-5 w-24" /></TableHead>
-                  <TableHead className="text-right"><Skeleton className="h-5 w-20" /></TableHead>
-                  <TableHead className="text-center"><Skeleton className="h-5 w-16" /></TableHead>
-                  <TableHead className="text-center"><Skeleton className="h-5 w-24" /></TableHead>
-                  <TableHead><Skeleton className="h-5 w-8" /></TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {Array.from({ length: 5 }).map((_, index) => (
-                  <TableRow key={index}>
-                    <TableCell><Skeleton className="h-5 w-20" /></TableCell>
-                    <TableCell><Skeleton className="h-5 w-32" /></TableCell>
-                    <TableCell><Skeleton className="h-5 w-24" /></TableCell>
-                    <TableCell className="text-right"><Skeleton className="h-5 w-20" /></TableCell>
-                    <TableCell className="text-center"><Skeleton className="h-5 w-16" /></TableCell>
-                    <TableCell className="text-center"><Skeleton className="h-5 w-24" /></TableCell>
-                    <TableCell><Skeleton className="h-8 w-8 rounded-full" /></TableCell>
-                  </TableRow>
-                ))}
-              </TableBody>
-            </Table>
-          </CardContent>
-        </Card>
-      ) : !fetchError && filteredOrders.length > 0 ? (
+      {!fetchError && orders.length > 0 ? (
        <Card className="shadow-md">
          <CardHeader>
            <CardTitle>Order History</CardTitle>
-           <CardDescription>Manage and view customer orders.</CardDescription>
+           <CardDescription>
+             {total} order(s){customerName ? ` for ${customerName}` : ''}{isFiltered ? ' match these filters' : ''}.
+             {params.customerId && ' Orders not yet matched to a customer (Match Existing Orders on the Customers page) only show when searched by name.'}
+           </CardDescription>
          </CardHeader>
          <CardContent>
            <Table>
              <TableHeader>
                <TableRow>
                  <TableHead>Order ID</TableHead>
-                 <TableHead>Customer</TableHead>
-                 <TableHead>Date</TableHead>
-                 <TableHead className="text-right">Total</TableHead>
+                 <SortableHead label="Customer" sortKey="customer" params={params} />
+                 <SortableHead label="Date" sortKey="date" params={params} />
+                 <SortableHead label="Total" sortKey="total" params={params} className="text-right" />
                  <TableHead className="text-center">Items</TableHead>
+                 <TableHead className="text-center">Payment</TableHead>
                  <TableHead className="text-center">Status</TableHead>
                  <TableHead>
                    <span className="sr-only">Actions</span>
@@ -303,19 +136,24 @@ export default function OrdersPage() {
                </TableRow>
              </TableHeader>
              <TableBody>
-               {filteredOrders.map((order) => (
+               {orders.map((order) => (
                  <TableRow key={order.id}>
                    <TableCell className="font-medium">
                      <Link href={`/orders/${order.id}`} className="text-primary hover:underline">
                          {order.id.substring(0, 8)}...
                       </Link>
                     </TableCell>
-                   <TableCell>{order.shippingInfo.name}</TableCell>
+                   <TableCell>
+                     {order.customerId ? <Link href={`/customers/${order.customerId}`} className="hover:underline">{order.customerName}</Link> : order.customerName}
+                   </TableCell>
                     <TableCell>{format(new Date(order.orderDate), 'PP')}</TableCell>
                    <TableCell className="text-right">₹{order.totalAmount.toFixed(2)}</TableCell>
-                    <TableCell className="text-center">{order.items.reduce((sum, item) => sum + item.quantity, 0)}</TableCell>
+                    <TableCell className="text-center">{order.itemCount}</TableCell>
+                   <TableCell className="text-center">
+                     <span className="text-sm">{PAYMENT_STATUS_LABELS[order.paymentStatus]}</span>
+                     {order.balanceDue > 0 && <div className="text-xs text-muted-foreground">₹{order.balanceDue.toFixed(2)} due</div>}
+                   </TableCell>
                    <TableCell className="text-center">
-                     {/* Display main status, consider adding tracking status badge too if needed */}
                      <Badge variant={getStatusVariant(order.status)}>{order.status}</Badge>
                    </TableCell>
                     <TableCell>
@@ -331,19 +169,20 @@ export default function OrdersPage() {
                          <DropdownMenuItem asChild>
                             <Link href={`/orders/${order.id}`}>View Details</Link>
                         </DropdownMenuItem>
-                         {/* Enable Edit when implemented */}
-                          <DropdownMenuItem asChild disabled>
-                             <Link href={`/orders/${order.id}/edit`}>Edit Order (soon)</Link>
-                          </DropdownMenuItem>
-                         <DropdownMenuSeparator />
-                          {order.trackingInfo?.trackingNumber && (
+                          {can('orders:edit') && (
+                            <DropdownMenuItem asChild>
+                               <Link href={`/orders/${order.id}/edit`}>Edit Order</Link>
+                            </DropdownMenuItem>
+                          )}
+                         {order.trackingNumber && (
+                           <>
+                             <DropdownMenuSeparator />
                              <DropdownMenuItem asChild disabled>
                                  {/* Assuming logistics page uses tracking number or a shipment ID */}
-                                 <Link href={`/logistics/${order.trackingInfo.trackingNumber}`}>View Shipment (soon)</Link>
+                                 <Link href={`/logistics/${order.trackingNumber}`}>View Shipment (soon)</Link>
                               </DropdownMenuItem>
-                          )}
-                          {/* Placeholder for Cancel action - Needs update */}
-                         <DropdownMenuItem className="text-destructive" disabled>Cancel Order (soon)</DropdownMenuItem>
+                           </>
+                         )}
                        </DropdownMenuContent>
                      </DropdownMenu>
                    </TableCell>
@@ -352,16 +191,33 @@ export default function OrdersPage() {
              </TableBody>
            </Table>
          </CardContent>
+         <CardFooter className="flex flex-wrap items-center justify-between gap-2">
+           <p className="text-sm text-muted-foreground">Up to {ORDER_LIST_PAGE_SIZE} orders per page.</p>
+           <div className="flex gap-2">
+             {previousCursor ? (
+               <Button variant="outline" size="sm" asChild>
+                 <Link href={getOrderListHref(params, { before: previousCursor })}><ChevronLeft className="mr-1 h-4 w-4" /> Previous</Link>
+               </Button>
+             ) : (
+               <Button variant="outline" size="sm" disabled><ChevronLeft className="mr-1 h-4 w-4" /> Previous</Button>
+             )}
+             {nextCursor ? (
+               <Button variant="outline" size="sm" asChild>
+                 <Link href={getOrderListHref(params, { after: nextCursor })}>Next <ChevronRight className="ml-1 h-4 w-4" /></Link>
+               </Button>
+             ) : (
+               <Button variant="outline" size="sm" disabled>Next <ChevronRight className="ml-1 h-4 w-4" /></Button>
+             )}
+           </div>
+         </CardFooter>
        </Card>
-       ) : !fetchError && filteredOrders.length === 0 ? (
+       ) : !fetchError ? (
          <Card className="col-span-full shadow-sm">
             <div className="text-center py-16 text-muted-foreground">
               <PackageSearch className="mx-auto h-16 w-16 mb-4" />
               <p className="text-lg font-medium">No orders match your criteria.</p>
               <p className="text-sm mt-2">
-                 {searchQuery || selectedStatus !== 'all'
-                   ? "Try adjusting your search or filters."
-                   : "No orders found in the database."}
+                 {isFiltered ? "Try adjusting your filters." : "No orders found in the database."}
               </p>
             </div>
          </Card>
@@ -370,9 +226,9 @@ export default function OrdersPage() {
   );
 }
 
-// export const metadata = {
-//   title: 'Orders | Showroom Manager',
-//   description: 'View and manage customer orders.',
-// };
+export const metadata = {
+  title: 'Orders | Showroom Manager',
+  description: 'View and manage customer orders.',
+};
 
-// export const dynamic = 'force-dynamic';
+export const dynamic = 'force-dynamic';
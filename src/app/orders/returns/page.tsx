@@ -0,0 +1,103 @@
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Home, Undo2, AlertTriangle } from 'lucide-react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import { getReturns, getReturnStatusVariant } from '@/lib/orders/returns';
+import { RETURN_REASON_LABELS } from '@/schemas/return';
+
+export default async function ReturnsPage() {
+  const { returns, error } = await getReturns();
+  const awaitingGoods = returns.filter((orderReturn) => orderReturn.status === 'Authorised');
+  const restocked = returns.flatMap((orderReturn) => orderReturn.lines).reduce((sum, line) => sum + (line.restockable ?? 0), 0);
+  const damaged = returns.flatMap((orderReturn) => orderReturn.lines).reduce((sum, line) => sum + (line.damaged ?? 0), 0);
+
+  return (
+    <div className="container mx-auto py-6 animate-subtle-fade-in space-y-6">
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild><Link href="/"><Home className="h-4 w-4"/></Link></BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild><Link href="/orders">Orders</Link></BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbPage>Returns</BreadcrumbPage>
+          </BreadcrumbItem>
+        </BreadcrumbList>
+      </Breadcrumb>
+
+      <h1 className="text-3xl font-semibold text-foreground">Returns</h1>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Error Loading Returns</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card className="shadow-md border border-border/50">
+        <CardHeader>
+          <CardTitle className="text-xl flex items-center gap-2"><Undo2 className="h-5 w-5 text-primary" /> All Returns</CardTitle>
+          <CardDescription>
+            {awaitingGoods.length} waiting for the goods to come back · {restocked} unit(s) restocked · {damaged} damaged. Returns are authorised, received and refunded from the order page.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {returns.length === 0 && !error ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No returns yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Authorised</TableHead>
+                  <TableHead>Order</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Items</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead className="text-right">Value</TableHead>
+                  <TableHead className="text-right">Refunded</TableHead>
+                  <TableHead className="text-center">Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {returns.map((orderReturn) => (
+                  <TableRow key={orderReturn.id}>
+                    <TableCell className="text-sm text-muted-foreground">{format(new Date(orderReturn.authorisedAt), 'PP')}</TableCell>
+                    <TableCell className="font-medium">
+                      <Link href={`/orders/${orderReturn.orderId}`} className="text-primary hover:underline">{orderReturn.orderId.substring(0, 8)}...</Link>
+                    </TableCell>
+                    <TableCell>{orderReturn.customerName}</TableCell>
+                    <TableCell className="text-sm">
+                      {orderReturn.lines.map((line) => `${line.quantity} × ${line.name}`).join(', ')}
+                    </TableCell>
+                    <TableCell className="text-sm">{RETURN_REASON_LABELS[orderReturn.reason] || orderReturn.reason}</TableCell>
+                    <TableCell className="text-right">₹{orderReturn.value.toFixed(2)}</TableCell>
+                    <TableCell className="text-right">{typeof orderReturn.refundAmount === 'number' ? `₹${orderReturn.refundAmount.toFixed(2)}` : '—'}</TableCell>
+                    <TableCell className="text-center"><Badge variant={getReturnStatusVariant(orderReturn.status)}>{orderReturn.status}</Badge></TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export const dynamic = 'force-dynamic';
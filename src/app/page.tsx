@@ -1,7 +1,7 @@
 
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
 import { Box, Package, Truck, TrendingUp, AlertCircle, PackageSearch, AlertTriangle, BarChart, PieChart as PieChartIcon } from 'lucide-react'; // Added chart icons
-import { db, collection, getDocs, Timestamp, query, where, orderBy, limit, getCountFromServer } from '@/lib/firebase/firebase'; // Import Firestore functions
+import { db, collection, getDocs, Timestamp, query, where, getCountFromServer } from '@/lib/firebase/firebase'; // Import Firestore functions
 import Link from 'next/link';
 import type { AddItemInput } from '@/schemas/inventory'; // Import item type
 import type { Order } from '@/schemas/order'; // Import order type
@@ -10,20 +10,16 @@ import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"; //
 import { InventoryCategoryPieChart, type InventoryCategoryData } from '@/components/charts/inventory-category-pie-chart';
 import { OrderStatusBarChart, type OrderStatusData } from '@/components/charts/order-status-bar-chart';
 import { inventoryChartConfig, orderStatusChartConfig } from '@/components/charts/chart-configs';
+import { getReplenishmentSuggestions, type ReplenishmentSuggestion } from '@/lib/purchasing/replenishment';
 
-interface InventoryItemSummary {
-  id: string;
-  name: string;
-  sku: string;
-  stock: number;
-  style: string;
-  material: string;
-}
+// Items shown in the reorder card
+const REORDER_PREVIEW_COUNT = 5;
 
 // Function to fetch dashboard data dynamically
 async function getDashboardData() {
   let totalItems = 0;
-  let lowStockItems: InventoryItemSummary[] = [];
+  let lowStockItems: ReplenishmentSuggestion[] = [];
+  let lowStockCount = 0;
   let openOrdersCount = 0;
   let inTransitShipmentsCount = 0;
   let inventoryByCategory: InventoryCategoryData[] = [];
@@ -38,6 +34,7 @@ async function getDashboardData() {
     return {
       totalItems,
       lowStockItems,
+      lowStockCount,
       openOrdersCount,
       inTransitShipmentsCount,
       monthlySalesTrend,
@@ -55,25 +52,11 @@ async function getDashboardData() {
     const countSnapshot = await getCountFromServer(inventoryCollectionRef);
     totalItems = countSnapshot.data().count;
 
-    // 2. Get low stock items (stock < 10)
-    const lowStockQuery = query(
-      inventoryCollectionRef,
-      where('stock', '<', 10),
-      orderBy('stock', 'asc'),
-      limit(5)
-    );
-    const lowStockSnapshot = await getDocs(lowStockQuery);
-    lowStockSnapshot.forEach((doc) => {
-      const data = doc.data() as AddItemInput;
-      lowStockItems.push({
-        id: doc.id,
-        name: data.name,
-        sku: data.sku,
-        stock: data.stock,
-        style: data.style,
-        material: data.material,
-      });
-    });
+    // 2. Items at their reorder point, most urgent first (see the Replenishment page for all of them)
+    const { suggestions, error: replenishmentError } = await getReplenishmentSuggestions();
+    if (replenishmentError) error = replenishmentError;
+    lowStockItems = suggestions.slice(0, REORDER_PREVIEW_COUNT);
+    lowStockCount = suggestions.length;
 
     // 3. Aggregate inventory by category (style) for Pie Chart
     const allInventorySnapshot = await getDocs(inventoryCollectionRef);
@@ -157,6 +140,7 @@ async function getDashboardData() {
   return {
       totalItems,
       lowStockItems,
+      lowStockCount,
       openOrdersCount,
       inTransitShipmentsCount,
       monthlySalesTrend, // Still placeholder
@@ -172,6 +156,7 @@ export default async function DashboardPage() {
   const {
       totalItems,
       lowStockItems,
+      lowStockCount,
       openOrdersCount,
       inTransitShipmentsCount,
       monthlySalesTrend,
@@ -311,18 +296,24 @@ export default async function DashboardPage() {
                 <AlertCircle className="h-5 w-5 text-destructive"/>
                 Low Stock Items
              </CardTitle>
-             <CardDescription>Items needing attention or reordering (Top 5).</CardDescription>
+             <CardDescription>
+               Items at or below their reorder point, most urgent first
+               {lowStockCount > lowStockItems.length && ` (${lowStockItems.length} of ${lowStockCount})`}.{' '}
+               <Link href="/purchasing/replenishment" className="underline">View replenishment</Link>
+             </CardDescription>
            </CardHeader>
            <CardContent>
              {lowStockItems.length > 0 ? (
                <div className="space-y-3 max-h-72 overflow-y-auto pr-2">
                  {lowStockItems.map(item => (
-                   <div key={item.id} className="flex justify-between items-center p-3 bg-destructive/10 rounded-md">
+                   <div key={item.inventoryId} className="flex justify-between items-center p-3 bg-destructive/10 rounded-md">
                        <div className="flex-1 overflow-hidden mr-2">
-                            <Link href={`/inventory/${item.id}`} className="font-medium hover:underline truncate" title={`${item.name} (${item.sku})`}>
+                            <Link href={`/inventory/${item.inventoryId}`} className="font-medium hover:underline truncate" title={`${item.name} (${item.sku})`}>
                                 {item.name} ({item.sku})
                            </Link>
-                           <p className="text-xs text-muted-foreground truncate">{item.style} / {item.material}</p>
+                           <p className="text-xs text-muted-foreground truncate">
+                               Reorder point {item.reorderPoint}{item.onOrder > 0 ? ` · ${item.onOrder} on order` : ''} · suggest {item.suggestedQuantity}
+                           </p>
                        </div>
                        <p className="text-sm font-semibold text-destructive shrink-0">{item.stock} units left</p>
                    </div>
@@ -0,0 +1,115 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { db, doc, getDoc, setDoc, updateDoc, serverTimestamp } from '@/lib/firebase/firebase';
+import { authorize } from '@/lib/auth/server';
+import type { AuthError } from '@/lib/auth/permissions';
+import { recordAudit } from '@/lib/audit';
+import { getPromoCode } from '@/lib/promotions/promo-codes';
+import { PromoCodeSchema, type PromoCodeInput } from '@/schemas/discount';
+
+type PromoCodeActionResult = { success: boolean; message: string; errors?: Record<string, string[]> | null; error?: AuthError };
+
+// Empty optional fields are stored as null so an edit can clear them
+function toPromoCodeData(values: Omit<PromoCodeInput, 'code'>) {
+  return {
+    description: values.description || null,
+    type: values.type,
+    value: values.value,
+    validFrom: values.validFrom || null,
+    validUntil: values.validUntil || null,
+    usageLimit: values.usageLimit ?? null,
+    minOrderValue: values.minOrderValue ?? null,
+    active: values.active,
+  };
+}
+
+export async function createPromoCodeAction(values: PromoCodeInput): Promise<PromoCodeActionResult> {
+  if (!db) return { success: false, message: "Database configuration error.", errors: null };
+
+  const auth = await authorize('promotions:manage');
+  if (!auth.ok) return { success: false, message: auth.message, errors: null, error: auth.error };
+
+  const validationResult = PromoCodeSchema.safeParse(values);
+  if (!validationResult.success) {
+    return { success: false, message: "Validation failed. Please check the form fields.", errors: validationResult.error.flatten().fieldErrors };
+  }
+  const { code, ...promoData } = validationResult.data;
+
+  try {
+    const promoRef = doc(db, 'promoCodes', code);
+    if ((await getDoc(promoRef)).exists()) {
+      return { success: false, message: `Promo code ${code} already exists.`, errors: { code: ["This code is already in use."] } };
+    }
+
+    const newPromoCode = {
+      code,
+      ...toPromoCodeData(promoData),
+      timesUsed: 0,
+      discountGiven: 0,
+      createdBy: { id: auth.user.id, name: auth.user.name, role: auth.user.role },
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    };
+    await setDoc(promoRef, newPromoCode);
+    await recordAudit({
+      actor: auth.user,
+      entityType: 'promo_code',
+      entityId: code,
+      entityLabel: code,
+      action: 'create',
+      before: null,
+      after: newPromoCode,
+    });
+
+    revalidatePath('/promotions');
+    return { success: true, message: `Promo code ${code} created.`, errors: null };
+  } catch (error) {
+    console.error("Error creating promo code:", error);
+    return { success: false, message: "Failed to create the promo code. Please try again.", errors: null };
+  }
+}
+
+// The code itself can't change: orders refer to it and it's the document ID. Usage counters are left alone.
+export async function updatePromoCodeAction(code: string, values: PromoCodeInput): Promise<PromoCodeActionResult> {
+  if (!db) return { success: false, message: "Database configuration error.", errors: null };
+  if (!code) return { success: false, message: "Promo code is required.", errors: null };
+
+  const auth = await authorize('promotions:manage');
+  if (!auth.ok) return { success: false, message: auth.message, errors: null, error: auth.error };
+
+  const validationResult = PromoCodeSchema.safeParse({ ...values, code });
+  if (!validationResult.success) {
+    return { success: false, message: "Validation failed. Please check the form fields.", errors: validationResult.error.flatten().fieldErrors };
+  }
+  const { code: promoCodeId, ...promoData } = validationResult.data;
+
+  try {
+    const { promoCode: existing, error } = await getPromoCode(promoCodeId);
+    if (error) return { success: false, message: error, errors: null };
+    if (!existing) return { success: false, message: "Promo code not found.", errors: null };
+
+    const updateData = {
+      ...toPromoCodeData(promoData),
+      updatedBy: { id: auth.user.id, name: auth.user.name, role: auth.user.role },
+      updatedAt: serverTimestamp(),
+    };
+    await updateDoc(doc(db, 'promoCodes', promoCodeId), updateData);
+    const { timesUsed, discountGiven, createdBy, createdAt, updatedAt, id, ...before } = existing;
+    await recordAudit({
+      actor: auth.user,
+      entityType: 'promo_code',
+      entityId: promoCodeId,
+      entityLabel: promoCodeId,
+      action: 'update',
+      before,
+      after: updateData,
+    });
+
+    revalidatePath('/promotions');
+    return { success: true, message: `Promo code ${promoCodeId} updated.`, errors: null };
+  } catch (error) {
+    console.error(`Error updating promo code ${promoCodeId}:`, error);
+    return { success: false, message: "Failed to update the promo code. Please try again.", errors: null };
+  }
+}
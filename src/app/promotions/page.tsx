@@ -0,0 +1,122 @@
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Home, Tag, AlertTriangle } from 'lucide-react';
+import Link from 'next/link';
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import { getPromoCodes } from '@/lib/promotions/promo-codes';
+import { formatDiscount } from '@/lib/orders/discounts';
+import { MAX_DISCOUNT_PERCENT } from '@/lib/auth/permissions';
+import { PromoCodeFormDialog } from "@/components/promotions/promo-code-form-dialog";
+import type { PromoCode } from '@/schemas/discount';
+
+// Whether a code can be used today, leaving aside its minimum order value
+function getPromoCodeStatus(promoCode: PromoCode, today: string): { label: string; variant: 'default' | 'secondary' | 'outline' | 'destructive' } {
+  if (!promoCode.active) return { label: 'Off', variant: 'secondary' };
+  if (promoCode.validFrom && today < promoCode.validFrom) return { label: 'Scheduled', variant: 'outline' };
+  if (promoCode.validUntil && today > promoCode.validUntil) return { label: 'Expired', variant: 'destructive' };
+  if (typeof promoCode.usageLimit === 'number' && promoCode.timesUsed >= promoCode.usageLimit) return { label: 'Used Up', variant: 'destructive' };
+  return { label: 'Active', variant: 'default' };
+}
+
+export default async function PromotionsPage() {
+  const { promoCodes, error } = await getPromoCodes();
+  const today = new Date().toISOString().slice(0, 10);
+
+  return (
+    <div className="container mx-auto py-6 animate-subtle-fade-in space-y-6">
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild><Link href="/"><Home className="h-4 w-4"/></Link></BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbPage>Promo Codes</BreadcrumbPage>
+          </BreadcrumbItem>
+        </BreadcrumbList>
+      </Breadcrumb>
+
+      <div className="flex items-center justify-between gap-4">
+        <h1 className="text-3xl font-semibold text-foreground">Promo Codes</h1>
+        <PromoCodeFormDialog />
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Error Loading Promo Codes</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card className="shadow-md border border-border/50">
+        <CardHeader>
+          <CardTitle className="text-xl flex items-center gap-2"><Tag className="h-5 w-5 text-primary" /> All Promo Codes</CardTitle>
+          <CardDescription>
+            Discounts entered by hand are capped per role (sales: up to {MAX_DISCOUNT_PERCENT.sales}% of the order); promo codes aren&apos;t.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {promoCodes.length === 0 && !error ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No promo codes yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Code</TableHead>
+                  <TableHead>Discount</TableHead>
+                  <TableHead>Valid</TableHead>
+                  <TableHead className="text-center">Used</TableHead>
+                  <TableHead className="text-right">Discount Given</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {promoCodes.map((promoCode) => {
+                  const status = getPromoCodeStatus(promoCode, today);
+                  return (
+                    <TableRow key={promoCode.id}>
+                      <TableCell>
+                        <div className="font-mono font-medium">{promoCode.code}</div>
+                        {promoCode.description && <div className="text-xs text-muted-foreground">{promoCode.description}</div>}
+                      </TableCell>
+                      <TableCell>
+                        {formatDiscount(promoCode)}
+                        {typeof promoCode.minOrderValue === 'number' && (
+                          <div className="text-xs text-muted-foreground">Orders from ₹{promoCode.minOrderValue.toFixed(2)}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {promoCode.validFrom || promoCode.validUntil
+                          ? `${promoCode.validFrom || 'Now'} – ${promoCode.validUntil || 'No end'}`
+                          : <span className="text-muted-foreground">Always</span>}
+                      </TableCell>
+                      <TableCell className="text-center">
+                        {promoCode.timesUsed}{typeof promoCode.usageLimit === 'number' ? ` / ${promoCode.usageLimit}` : ''}
+                      </TableCell>
+                      <TableCell className="text-right">₹{promoCode.discountGiven.toFixed(2)}</TableCell>
+                      <TableCell><Badge variant={status.variant}>{status.label}</Badge></TableCell>
+                      <TableCell className="text-right"><PromoCodeFormDialog promoCode={promoCode} /></TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,215 @@
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Home, AlertTriangle, ClipboardList, PackageCheck, Calendar, Factory } from 'lucide-react';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { format } from 'date-fns';
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { getAuditHistory } from '@/lib/audit';
+import { getLocations } from '@/lib/inventory/locations';
+import { DEFAULT_LOCATION_ID } from '@/lib/inventory/location-stock';
+import { getLandedUnitCost, getOutstandingQuantity, getPurchaseOrder, RECEIVABLE_PO_STATUSES } from '@/lib/purchasing/purchase-orders';
+import { AuditHistory } from "@/components/audit/audit-history";
+import { PurchaseOrderStatusBadge } from "@/components/purchasing/purchase-order-status-badge";
+import { PurchaseOrderActions } from "@/components/purchasing/purchase-order-actions";
+import { ReceivePurchaseOrderForm } from "@/components/purchasing/receive-purchase-order-form";
+
+export default async function PurchaseOrderDetailPage({ params }: { params: { poId: string } }) {
+  const [{ purchaseOrder: po, error }, { entries: historyEntries, error: historyError }, { locations }] = await Promise.all([
+    getPurchaseOrder(params.poId),
+    getAuditHistory('purchase_order', params.poId),
+    getLocations(),
+  ]);
+
+  if (error) {
+    return (
+      <div className="container mx-auto py-6 space-y-6">
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Error Loading Purchase Order</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+  if (!po) {
+    notFound();
+  }
+
+  const itemsById = new Map(po.items.map((line) => [line.inventoryId, line]));
+  const isReceivable = RECEIVABLE_PO_STATUSES.includes(po.status);
+  const locationNames = new Map(locations.map((location) => [location.id, location.name]));
+
+  return (
+    <div className="container mx-auto py-6 animate-subtle-fade-in space-y-6">
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild><Link href="/"><Home className="h-4 w-4"/></Link></BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild><Link href="/purchasing">Purchasing</Link></BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbPage>PO {po.id.substring(0, 8)}...</BreadcrumbPage>
+          </BreadcrumbItem>
+        </BreadcrumbList>
+      </Breadcrumb>
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="space-y-1">
+          <h1 className="text-2xl font-semibold text-foreground flex items-center gap-3">
+            Purchase Order {po.id.substring(0, 8)}... <PurchaseOrderStatusBadge status={po.status} />
+          </h1>
+          <div className="text-sm text-muted-foreground flex flex-wrap gap-x-4 gap-y-1">
+            <span className="flex items-center gap-1"><Factory className="h-4 w-4" /> <Link href={`/purchasing/suppliers/${po.supplierId}`} className="hover:underline">{po.supplierName}</Link></span>
+            <span className="flex items-center gap-1"><Calendar className="h-4 w-4" /> Drafted {format(new Date(po.createdAt), 'PP')}{po.createdBy ? ` by ${po.createdBy.name}` : ''}</span>
+            {po.sentAt && <span>Sent {format(new Date(po.sentAt), 'PP')}</span>}
+            {po.expectedDate && <span>Expected {format(new Date(po.expectedDate), 'PP')}</span>}
+            {po.closedAt && <span>{po.status === 'Cancelled' ? 'Cancelled' : 'Closed'} {format(new Date(po.closedAt), 'PP')}</span>}
+          </div>
+        </div>
+        <PurchaseOrderActions purchaseOrderId={po.id} status={po.status} hasReceipts={po.receipts.length > 0} />
+      </div>
+
+      <Tabs defaultValue="details" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="details">Details</TabsTrigger>
+          <TabsTrigger value="history">History ({historyEntries.length})</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="details" className="space-y-6">
+          <Card className="shadow-md">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2"><ClipboardList className="h-5 w-5 text-muted-foreground" /> Lines</CardTitle>
+              <CardDescription>Landed cost includes each line&apos;s share of ₹{po.freightCost.toFixed(2)} freight and duties, spread by value.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Item</TableHead>
+                    <TableHead className="text-center">Ordered</TableHead>
+                    <TableHead className="text-center">Received</TableHead>
+                    <TableHead className="text-center">Outstanding</TableHead>
+                    <TableHead className="text-right">Unit Cost</TableHead>
+                    <TableHead className="text-right">Landed Unit Cost</TableHead>
+                    <TableHead className="text-right">Line Total</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {po.items.map((line) => (
+                    <TableRow key={line.inventoryId}>
+                      <TableCell>
+                        <Link href={`/inventory/${line.inventoryId}`} className="font-medium hover:underline">{line.name}</Link>
+                        <div className="text-xs text-muted-foreground">{line.sku}{line.supplierSku ? ` · Supplier code ${line.supplierSku}` : ''}</div>
+                      </TableCell>
+                      <TableCell className="text-center">{line.quantityOrdered}</TableCell>
+                      <TableCell className="text-center">{line.quantityReceived}</TableCell>
+                      <TableCell className="text-center">{['Closed', 'Cancelled'].includes(po.status) ? '—' : getOutstandingQuantity(line)}</TableCell>
+                      <TableCell className="text-right">₹{line.unitCost.toFixed(2)}</TableCell>
+                      <TableCell className="text-right">₹{getLandedUnitCost(line.unitCost, po.subtotal, po.freightCost).toFixed(2)}</TableCell>
+                      <TableCell className="text-right font-medium">₹{(line.unitCost * line.quantityOrdered).toFixed(2)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-right">Subtotal</TableCell>
+                    <TableCell className="text-right">₹{po.subtotal.toFixed(2)}</TableCell>
+                  </TableRow>
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-right">Freight & Duties</TableCell>
+                    <TableCell className="text-right">₹{po.freightCost.toFixed(2)}</TableCell>
+                  </TableRow>
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-right font-semibold">Total</TableCell>
+                    <TableCell className="text-right font-semibold">₹{(po.subtotal + po.freightCost).toFixed(2)}</TableCell>
+                  </TableRow>
+                </TableFooter>
+              </Table>
+              {po.notes && <p className="mt-4 text-sm text-muted-foreground whitespace-pre-wrap">{po.notes}</p>}
+            </CardContent>
+          </Card>
+
+          {isReceivable && (
+            <Card className="shadow-md">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2"><PackageCheck className="h-5 w-5 text-muted-foreground" /> Receive Goods</CardTitle>
+                <CardDescription>Received units are added to stock as receipt movements and update each item&apos;s landed cost.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {/* Remount after each receipt so the quantities reset to what is still outstanding */}
+                <ReceivePurchaseOrderForm key={po.receipts.length} purchaseOrderId={po.id} lines={po.items} locations={locations.map(({ id, name }) => ({ id, name }))} />
+              </CardContent>
+            </Card>
+          )}
+
+          <Card className="shadow-md">
+            <CardHeader>
+              <CardTitle>Deliveries</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {po.receipts.length === 0 ? (
+                <p className="text-sm text-muted-foreground italic text-center py-6">Nothing received yet.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>When</TableHead>
+                      <TableHead>Received By</TableHead>
+                      <TableHead>Into</TableHead>
+                      <TableHead>Items</TableHead>
+                      <TableHead>Note</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {[...po.receipts].reverse().map((receipt, index) => (
+                      <TableRow key={`${receipt.receivedAt}-${index}`}>
+                        <TableCell className="text-sm text-muted-foreground whitespace-nowrap">{format(new Date(receipt.receivedAt), 'PP p')}</TableCell>
+                        <TableCell>{receipt.receivedBy?.name || 'Unknown'}</TableCell>
+                        <TableCell>{locationNames.get(receipt.locationId || DEFAULT_LOCATION_ID) || receipt.locationId}</TableCell>
+                        <TableCell className="text-sm">
+                          {receipt.lines.map((line) => `${line.quantity} × ${itemsById.get(line.inventoryId)?.name || line.inventoryId}`).join(', ')}
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">{receipt.note || '—'}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="history">
+          <Card className="shadow-md">
+            <CardHeader>
+              <CardTitle>Change History</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {historyError ? (
+                <p className="text-sm text-destructive">{historyError}</p>
+              ) : (
+                <AuditHistory entries={historyEntries} emptyMessage="No changes recorded for this purchase order yet." />
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
+
+export const dynamic = 'force-dynamic';
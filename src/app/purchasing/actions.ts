@@ -0,0 +1,340 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { db, collection, doc, addDoc, getDoc, updateDoc, serverTimestamp, Timestamp } from '@/lib/firebase/firebase';
+import { SupplierSchema, type SupplierInput } from '@/schemas/supplier';
+import {
+  PurchaseOrderSchema,
+  ReceivePurchaseOrderSchema,
+  type PurchaseOrderInput,
+  type PurchaseOrderStatus,
+  type ReceivePurchaseOrderInput,
+} from '@/schemas/purchase-order';
+import { authorize } from '@/lib/auth/server';
+import type { AuthError } from '@/lib/auth/permissions';
+import { recordAudit } from '@/lib/audit';
+import { receivePurchaseOrder } from '@/lib/purchasing/purchase-orders';
+import { getReplenishmentSuggestions } from '@/lib/purchasing/replenishment';
+import { getLocation } from '@/lib/inventory/locations';
+
+// Empty optional strings are left out rather than stored
+function compactSupplier(values: SupplierInput): Partial<SupplierInput> & { name: string } {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => typeof value === 'string' && value !== '')) as Partial<SupplierInput> & { name: string };
+}
+
+// --- SUPPLIERS ---
+export async function createSupplierAction(
+  values: SupplierInput
+): Promise<{ success: boolean; message: string; supplierId?: string; errors?: Record<string, string[]> | null; error?: AuthError }> {
+  if (!db) return { success: false, message: "Database configuration error.", errors: null };
+
+  const auth = await authorize('purchasing:manage');
+  if (!auth.ok) return { success: false, message: auth.message, errors: null, error: auth.error };
+
+  const validationResult = SupplierSchema.safeParse(values);
+  if (!validationResult.success) {
+    return { success: false, message: "Validation failed. Please check the form fields.", errors: validationResult.error.flatten().fieldErrors };
+  }
+  const supplierData = compactSupplier(validationResult.data);
+
+  try {
+    const docRef = await addDoc(collection(db, 'suppliers'), {
+      ...supplierData,
+      createdBy: { id: auth.user.id, name: auth.user.name, role: auth.user.role },
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+
+    await recordAudit({
+      actor: auth.user,
+      entityType: 'supplier',
+      entityId: docRef.id,
+      entityLabel: supplierData.name,
+      action: 'create',
+      before: null,
+      after: supplierData,
+    });
+
+    revalidatePath('/purchasing/suppliers');
+    return { success: true, message: `Supplier "${supplierData.name}" added.`, supplierId: docRef.id, errors: null };
+  } catch (error) {
+    console.error("Error creating supplier:", error);
+    return { success: false, message: "Failed to add the supplier. Please try again.", errors: null };
+  }
+}
+
+export async function updateSupplierAction(
+  supplierId: string,
+  values: SupplierInput
+): Promise<{ success: boolean; message: string; errors?: Record<string, string[]> | null; error?: AuthError }> {
+  if (!db) return { success: false, message: "Database configuration error.", errors: null };
+  if (!supplierId) return { success: false, message: "Supplier ID is required.", errors: null };
+
+  const auth = await authorize('purchasing:manage');
+  if (!auth.ok) return { success: false, message: auth.message, errors: null, error: auth.error };
+
+  const validationResult = SupplierSchema.safeParse(values);
+  if (!validationResult.success) {
+    return { success: false, message: "Validation failed. Please check the form fields.", errors: validationResult.error.flatten().fieldErrors };
+  }
+  // Every field is written so cleared ones are blanked
+  const supplierData = { contactName: '', email: '', phone: '', address: '', paymentTerms: '', notes: '', ...compactSupplier(validationResult.data) };
+
+  try {
+    const supplierRef = doc(db, 'suppliers', supplierId);
+    const existingSnap = await getDoc(supplierRef);
+    if (!existingSnap.exists()) {
+      return { success: false, message: "Supplier not found.", errors: null };
+    }
+
+    const updateData = {
+      ...supplierData,
+      updatedBy: { id: auth.user.id, name: auth.user.name, role: auth.user.role },
+      updatedAt: serverTimestamp(),
+    };
+    await updateDoc(supplierRef, updateData);
+
+    await recordAudit({
+      actor: auth.user,
+      entityType: 'supplier',
+      entityId: supplierId,
+      entityLabel: supplierData.name,
+      action: 'update',
+      before: existingSnap.data(),
+      after: updateData,
+    });
+
+    revalidatePath('/purchasing/suppliers');
+    revalidatePath(`/purchasing/suppliers/${supplierId}`);
+    return { success: true, message: `Supplier "${supplierData.name}" updated.`, errors: null };
+  } catch (error) {
+    console.error(`Error updating supplier ${supplierId}:`, error);
+    return { success: false, message: "Failed to update the supplier. Please try again.", errors: null };
+  }
+}
+
+// --- PURCHASE ORDERS ---
+// Drafts a PO; item names, SKUs and supplier codes are copied from inventory
+export async function createPurchaseOrderAction(
+  values: PurchaseOrderInput
+): Promise<{ success: boolean; message: string; purchaseOrderId?: string; errors?: Record<string, any> | null; error?: AuthError }> {
+  if (!db) return { success: false, message: "Database configuration error.", errors: null };
+  const firestore = db;
+
+  const auth = await authorize('purchasing:manage');
+  if (!auth.ok) return { success: false, message: auth.message, errors: null, error: auth.error };
+
+  const validationResult = PurchaseOrderSchema.safeParse(values);
+  if (!validationResult.success) {
+    return { success: false, message: "Validation failed. Please check the form fields.", errors: validationResult.error.flatten().fieldErrors };
+  }
+  const { supplierId, expectedDate, freightCost, notes, items } = validationResult.data;
+
+  // One line per item keeps receiving unambiguous
+  const duplicateIndex = items.findIndex((item, index) => items.findIndex((other) => other.inventoryId === item.inventoryId) !== index);
+  if (duplicateIndex !== -1) {
+    const message = "This item is already on the purchase order; change that line's quantity instead.";
+    return { success: false, message, errors: { items: { [`${duplicateIndex}.inventoryId`]: [message] } } };
+  }
+
+  try {
+    const supplierSnap = await getDoc(doc(firestore, 'suppliers', supplierId));
+    if (!supplierSnap.exists()) {
+      return { success: false, message: "Supplier not found.", errors: { supplierId: ["Supplier not found."] } };
+    }
+    const itemSnaps = await Promise.all(items.map((item) => getDoc(doc(firestore, 'inventory', item.inventoryId))));
+    const missingIndex = itemSnaps.findIndex((itemSnap) => !itemSnap.exists());
+    if (missingIndex !== -1) {
+      const message = `Inventory item ${items[missingIndex].inventoryId} not found.`;
+      return { success: false, message, errors: { items: { [`${missingIndex}.inventoryId`]: [message] } } };
+    }
+
+    const poLines = items.map((item, index) => {
+      const itemData = itemSnaps[index].data()!;
+      return {
+        inventoryId: item.inventoryId,
+        name: itemData.name || 'Unknown',
+        sku: itemData.sku || '',
+        // Only this supplier's code applies
+        ...(itemData.supplierId === supplierId && itemData.supplierSku && { supplierSku: itemData.supplierSku }),
+        quantityOrdered: item.quantity,
+        quantityReceived: 0,
+        unitCost: item.unitCost,
+      };
+    });
+    const poData = {
+      supplierId,
+      supplierName: supplierSnap.data().name || 'Unknown supplier',
+      status: 'Draft' as PurchaseOrderStatus,
+      items: poLines,
+      freightCost,
+      subtotal: poLines.reduce((sum, line) => sum + line.quantityOrdered * line.unitCost, 0),
+      ...(expectedDate && { expectedDate: Timestamp.fromDate(new Date(`${expectedDate}T00:00:00`)) }),
+      ...(notes?.trim() && { notes: notes.trim() }),
+      receipts: [],
+      createdBy: { id: auth.user.id, name: auth.user.name, role: auth.user.role },
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    };
+    const docRef = await addDoc(collection(firestore, 'purchaseOrders'), poData);
+
+    await recordAudit({
+      actor: auth.user,
+      entityType: 'purchase_order',
+      entityId: docRef.id,
+      entityLabel: poData.supplierName,
+      action: 'create',
+      before: null,
+      after: poData,
+    });
+
+    revalidatePath('/purchasing');
+    revalidatePath(`/purchasing/suppliers/${supplierId}`);
+    return { success: true, message: "Purchase order drafted.", purchaseOrderId: docRef.id, errors: null };
+  } catch (error) {
+    console.error("Error creating purchase order:", error);
+    return { success: false, message: "Failed to draft the purchase order. Please try again.", errors: null };
+  }
+}
+
+// Drafts one PO for everything this supplier's items need, at the suggested quantities and last prices paid.
+// Suggestions are worked out again here so the PO reflects stock at the moment of the click.
+export async function draftReplenishmentPurchaseOrderAction(
+  supplierId: string
+): Promise<{ success: boolean; message: string; purchaseOrderId?: string; error?: AuthError }> {
+  if (!supplierId) return { success: false, message: "Supplier ID is required." };
+
+  const auth = await authorize('purchasing:manage');
+  if (!auth.ok) return { success: false, message: auth.message, error: auth.error };
+
+  const { suggestions, error } = await getReplenishmentSuggestions();
+  if (error) return { success: false, message: error };
+  const supplierSuggestions = suggestions.filter((suggestion) => suggestion.supplierId === supplierId);
+  if (supplierSuggestions.length === 0) {
+    return { success: false, message: "Nothing from this supplier needs reordering any more." };
+  }
+
+  const result = await createPurchaseOrderAction({
+    supplierId,
+    freightCost: 0,
+    notes: "Drafted from replenishment suggestions.",
+    items: supplierSuggestions.map((suggestion) => ({
+      inventoryId: suggestion.inventoryId,
+      quantity: suggestion.suggestedQuantity,
+      unitCost: suggestion.estimatedUnitCost,
+    })),
+  });
+  if (result.success) revalidatePath('/purchasing/replenishment');
+  return { success: result.success, message: result.message, purchaseOrderId: result.purchaseOrderId, error: result.error };
+}
+
+// Moves a PO between statuses that have no side effects beyond the status itself
+async function setPurchaseOrderStatus(
+  poId: string,
+  allowedFrom: PurchaseOrderStatus[],
+  to: PurchaseOrderStatus,
+  extraFields: Record<string, unknown> = {},
+  check?: (poData: Record<string, any>) => string | null
+): Promise<{ success: boolean; message: string; error?: AuthError }> {
+  if (!db) return { success: false, message: "Database configuration error." };
+  if (!poId) return { success: false, message: "Purchase order ID is required." };
+
+  const auth = await authorize('purchasing:manage');
+  if (!auth.ok) return { success: false, message: auth.message, error: auth.error };
+
+  try {
+    const poRef = doc(db, 'purchaseOrders', poId);
+    const poSnap = await getDoc(poRef);
+    if (!poSnap.exists()) {
+      return { success: false, message: `Purchase order ${poId} not found.` };
+    }
+    const poData = poSnap.data();
+    if (!allowedFrom.includes(poData.status)) {
+      return { success: false, message: `A ${poData.status} purchase order can't be marked ${to}.` };
+    }
+    const blocked = check?.(poData);
+    if (blocked) return { success: false, message: blocked };
+
+    const statusUpdate = {
+      status: to,
+      ...extraFields,
+      updatedBy: { id: auth.user.id, name: auth.user.name, role: auth.user.role },
+      updatedAt: serverTimestamp(),
+    };
+    await updateDoc(poRef, statusUpdate);
+
+    await recordAudit({
+      actor: auth.user,
+      entityType: 'purchase_order',
+      entityId: poId,
+      entityLabel: poData.supplierName,
+      action: to === 'Cancelled' ? 'cancel' : 'status_change',
+      before: poData,
+      after: statusUpdate,
+    });
+
+    revalidatePath('/purchasing');
+    revalidatePath(`/purchasing/${poId}`);
+    revalidatePath(`/purchasing/suppliers/${poData.supplierId}`);
+    return { success: true, message: `Purchase order marked ${to}.` };
+  } catch (error) {
+    console.error(`Error updating purchase order ${poId} to ${to}:`, error);
+    return { success: false, message: "Failed to update the purchase order due to a database error." };
+  }
+}
+
+export async function sendPurchaseOrderAction(poId: string): Promise<{ success: boolean; message: string; error?: AuthError }> {
+  return setPurchaseOrderStatus(poId, ['Draft'], 'Sent', { sentAt: serverTimestamp() });
+}
+
+// Closing accepts what has arrived; anything still outstanding won't be received
+export async function closePurchaseOrderAction(poId: string): Promise<{ success: boolean; message: string; error?: AuthError }> {
+  return setPurchaseOrderStatus(poId, ['Partially Received', 'Received'], 'Closed', { closedAt: serverTimestamp() });
+}
+
+export async function cancelPurchaseOrderAction(poId: string): Promise<{ success: boolean; message: string; error?: AuthError }> {
+  return setPurchaseOrderStatus(poId, ['Draft', 'Sent'], 'Cancelled', { closedAt: serverTimestamp() }, (poData) =>
+    (poData.receipts || []).length > 0 ? "Goods have been received on this purchase order; close it instead." : null
+  );
+}
+
+export async function receivePurchaseOrderAction(
+  poId: string,
+  payload: ReceivePurchaseOrderInput
+): Promise<{ success: boolean; message: string; errors?: Record<string, any> | null; error?: AuthError }> {
+  if (!poId) return { success: false, message: "Purchase order ID is required.", errors: null };
+
+  const auth = await authorize('purchasing:receive');
+  if (!auth.ok) return { success: false, message: auth.message, errors: null, error: auth.error };
+
+  const validationResult = ReceivePurchaseOrderSchema.safeParse(payload);
+  if (!validationResult.success) {
+    const flattened = validationResult.error.flatten();
+    return { success: false, message: flattened.fieldErrors.lines?.[0] || "Validation failed.", errors: flattened.fieldErrors };
+  }
+  if (!(await getLocation(validationResult.data.locationId))) {
+    return { success: false, message: "The receiving location no longer exists.", errors: null };
+  }
+
+  const result = await receivePurchaseOrder(poId, validationResult.data, auth.user);
+  if (!result.success) return { success: false, message: result.message, errors: null };
+
+  await recordAudit({
+    actor: auth.user,
+    entityType: 'purchase_order',
+    entityId: poId,
+    entityLabel: result.before?.supplierName,
+    action: 'receive',
+    before: result.before ?? null,
+    after: result.after ?? null,
+  });
+
+  revalidatePath('/purchasing');
+  revalidatePath(`/purchasing/${poId}`);
+  revalidatePath('/inventory');
+  validationResult.data.lines.forEach((line) => revalidatePath(`/inventory/${line.inventoryId}`));
+  revalidatePath('/orders/backorders'); // Received stock can fill backorders
+  revalidatePath('/');
+
+  return { success: true, message: result.message, errors: null };
+}
@@ -0,0 +1,72 @@
+import { Home } from "lucide-react";
+import Link from "next/link";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import { db, collection, getDocs } from '@/lib/firebase/firebase';
+import { getSuppliers } from '@/lib/purchasing/suppliers';
+import { CreatePurchaseOrderForm, type PurchasableItem } from "@/components/purchasing/create-purchase-order-form";
+
+async function getPurchasableItems(): Promise<{ items: PurchasableItem[]; error?: string }> {
+  if (!db) return { items: [], error: "Database initialization failed." };
+  try {
+    const snapshot = await getDocs(collection(db, 'inventory'));
+    const items = snapshot.docs
+      .map((docSnap) => {
+        const data = docSnap.data();
+        return {
+          id: docSnap.id,
+          name: data.name || 'Unknown',
+          sku: data.sku || '',
+          stock: typeof data.stock === 'number' ? data.stock : 0,
+          supplierId: data.supplierId || undefined,
+          supplierSku: data.supplierSku || undefined,
+          landedCost: typeof data.landedCost === 'number' ? data.landedCost : undefined,
+        };
+      })
+      .sort((a, b) => a.name.localeCompare(b.name));
+    return { items };
+  } catch (error) {
+    console.error("Error fetching inventory for purchase order:", error);
+    return { items: [], error: "Failed to load inventory data." };
+  }
+}
+
+export default async function NewPurchaseOrderPage({ searchParams }: { searchParams: Promise<{ supplierId?: string }> }) {
+  const params = await searchParams;
+  const [{ suppliers, error: suppliersError }, { items, error: itemsError }] = await Promise.all([getSuppliers(), getPurchasableItems()]);
+
+  return (
+    <div className="container mx-auto py-6 animate-subtle-fade-in space-y-6">
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild><Link href="/"><Home className="h-4 w-4"/></Link></BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild><Link href="/purchasing">Purchasing</Link></BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbPage>New Purchase Order</BreadcrumbPage>
+          </BreadcrumbItem>
+        </BreadcrumbList>
+      </Breadcrumb>
+
+      <CreatePurchaseOrderForm
+        suppliers={suppliers.map(({ id, name }) => ({ id, name }))}
+        inventoryItems={items}
+        defaultSupplierId={suppliers.some((supplier) => supplier.id === params.supplierId) ? params.supplierId : undefined}
+        fetchError={suppliersError || itemsError}
+      />
+    </div>
+  );
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,112 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Home, ClipboardList, AlertTriangle, PlusCircle, Factory, RefreshCcw } from 'lucide-react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import { getCurrentUser } from '@/lib/auth/server';
+import { hasPermission } from '@/lib/auth/permissions';
+import { getOutstandingQuantity, getPurchaseOrders } from '@/lib/purchasing/purchase-orders';
+import { PurchaseOrderStatusBadge } from "@/components/purchasing/purchase-order-status-badge";
+
+export default async function PurchasingPage() {
+  const [{ purchaseOrders, error }, currentUser] = await Promise.all([getPurchaseOrders(), getCurrentUser()]);
+  const canManage = hasPermission(currentUser?.role, 'purchasing:manage');
+  const openCount = purchaseOrders.filter((po) => ['Sent', 'Partially Received'].includes(po.status)).length;
+
+  return (
+    <div className="container mx-auto py-6 animate-subtle-fade-in space-y-6">
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild><Link href="/"><Home className="h-4 w-4"/></Link></BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbPage>Purchasing</BreadcrumbPage>
+          </BreadcrumbItem>
+        </BreadcrumbList>
+      </Breadcrumb>
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h1 className="text-3xl font-semibold text-foreground">Purchase Orders</h1>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <Link href="/purchasing/replenishment"><RefreshCcw className="mr-2 h-4 w-4" /> Replenishment</Link>
+          </Button>
+          <Button variant="outline" asChild>
+            <Link href="/purchasing/suppliers"><Factory className="mr-2 h-4 w-4" /> Suppliers</Link>
+          </Button>
+          {canManage && (
+            <Button asChild>
+              <Link href="/purchasing/new"><PlusCircle className="mr-2 h-4 w-4" /> New Purchase Order</Link>
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Error Loading Purchase Orders</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card className="shadow-md border border-border/50">
+        <CardHeader>
+          <CardTitle className="text-xl flex items-center gap-2"><ClipboardList className="h-5 w-5 text-primary" /> All Purchase Orders</CardTitle>
+          <CardDescription>{purchaseOrders.length} purchase order(s), {openCount} awaiting delivery.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {purchaseOrders.length === 0 ? (
+            <p className="text-sm text-muted-foreground italic text-center py-6">No purchase orders yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>PO</TableHead>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-center">Units Outstanding</TableHead>
+                  <TableHead>Expected</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {purchaseOrders.map((po) => (
+                  <TableRow key={po.id}>
+                    <TableCell>
+                      <Link href={`/purchasing/${po.id}`} className="font-medium hover:underline">{po.id.substring(0, 8)}...</Link>
+                      <div className="text-xs text-muted-foreground">{format(new Date(po.createdAt), 'PP')}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Link href={`/purchasing/suppliers/${po.supplierId}`} className="hover:underline">{po.supplierName}</Link>
+                    </TableCell>
+                    <TableCell><PurchaseOrderStatusBadge status={po.status} /></TableCell>
+                    <TableCell className="text-center">
+                      {['Closed', 'Cancelled'].includes(po.status) ? '—' : po.items.reduce((sum, line) => sum + getOutstandingQuantity(line), 0)}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">{po.expectedDate ? format(new Date(po.expectedDate), 'PP') : '—'}</TableCell>
+                    <TableCell className="text-right font-medium">₹{(po.subtotal + po.freightCost).toFixed(2)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,161 @@
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Home, AlertTriangle, Factory, RefreshCcw } from 'lucide-react';
+import Link from 'next/link';
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import { getSuppliers } from '@/lib/purchasing/suppliers';
+import { getReplenishmentSuggestions, SALES_VELOCITY_WINDOW_DAYS, type ReplenishmentSuggestion } from '@/lib/purchasing/replenishment';
+import { DraftReplenishmentButton } from "@/components/purchasing/draft-replenishment-button";
+
+const REORDER_POINT_SOURCE_LABELS: Record<ReplenishmentSuggestion['reorderPointSource'], string> = {
+  item: 'Set on item',
+  velocity: 'From sales',
+  default: 'Default',
+};
+
+function SuggestionsTable({ suggestions }: { suggestions: ReplenishmentSuggestion[] }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Item</TableHead>
+          <TableHead className="text-center">Available</TableHead>
+          <TableHead className="text-center">On Order</TableHead>
+          <TableHead className="text-center">Backordered</TableHead>
+          <TableHead className="text-center">Sold / Day</TableHead>
+          <TableHead className="text-center">Reorder Point</TableHead>
+          <TableHead className="text-center">Days of Cover</TableHead>
+          <TableHead className="text-center">Suggested Qty</TableHead>
+          <TableHead className="text-right">Est. Cost</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {suggestions.map((suggestion) => (
+          <TableRow key={suggestion.inventoryId}>
+            <TableCell>
+              <Link href={`/inventory/${suggestion.inventoryId}`} className="font-medium hover:underline">{suggestion.name}</Link>
+              <div className="text-xs text-muted-foreground">{suggestion.sku}{suggestion.supplierSku ? ` · Supplier code ${suggestion.supplierSku}` : ''}</div>
+            </TableCell>
+            <TableCell className="text-center">{suggestion.stock}</TableCell>
+            <TableCell className="text-center">{suggestion.onOrder || '—'}</TableCell>
+            <TableCell className="text-center">{suggestion.backordered || '—'}</TableCell>
+            <TableCell className="text-center">{suggestion.dailyVelocity > 0 ? suggestion.dailyVelocity.toFixed(2) : '—'}</TableCell>
+            <TableCell className="text-center">
+              {suggestion.reorderPoint}
+              <div className="text-xs text-muted-foreground">{REORDER_POINT_SOURCE_LABELS[suggestion.reorderPointSource]}</div>
+            </TableCell>
+            <TableCell className="text-center">
+              {suggestion.daysOfCover === null ? '—' : (
+                <Badge variant={suggestion.daysOfCover < suggestion.leadTimeDays ? 'destructive' : 'secondary'}>
+                  {Math.floor(suggestion.daysOfCover)} / {suggestion.leadTimeDays} lead
+                </Badge>
+              )}
+            </TableCell>
+            <TableCell className="text-center font-semibold">{suggestion.suggestedQuantity}</TableCell>
+            <TableCell className="text-right">
+              {suggestion.estimatedUnitCost > 0 ? `₹${(suggestion.estimatedUnitCost * suggestion.suggestedQuantity).toFixed(2)}` : '—'}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+export default async function ReplenishmentPage() {
+  const [{ suggestions, error }, { suppliers, error: suppliersError }] = await Promise.all([getReplenishmentSuggestions(), getSuppliers()]);
+
+  // Group by preferred supplier; items without one (or with a deleted one) are listed on their own
+  const suppliersById = new Map(suppliers.map((supplier) => [supplier.id, supplier]));
+  const groups = new Map<string, ReplenishmentSuggestion[]>();
+  const unassigned: ReplenishmentSuggestion[] = [];
+  suggestions.forEach((suggestion) => {
+    if (suggestion.supplierId && suppliersById.has(suggestion.supplierId)) {
+      groups.set(suggestion.supplierId, [...(groups.get(suggestion.supplierId) || []), suggestion]);
+    } else {
+      unassigned.push(suggestion);
+    }
+  });
+
+  return (
+    <div className="container mx-auto py-6 animate-subtle-fade-in space-y-6">
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild><Link href="/"><Home className="h-4 w-4"/></Link></BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild><Link href="/purchasing">Purchasing</Link></BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbPage>Replenishment</BreadcrumbPage>
+          </BreadcrumbItem>
+        </BreadcrumbList>
+      </Breadcrumb>
+
+      <div className="space-y-1">
+        <h1 className="text-3xl font-semibold text-foreground flex items-center gap-2"><RefreshCcw className="h-7 w-7 text-primary" /> Replenishment</h1>
+        <p className="text-sm text-muted-foreground">
+          Items at or below their reorder point, counting stock on open purchase orders and units owed to backordered orders.
+          Sales velocity is taken over the last {SALES_VELOCITY_WINDOW_DAYS} days.
+        </p>
+      </div>
+
+      {(error || suppliersError) && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Error Loading Suggestions</AlertTitle>
+          <AlertDescription>{error || suppliersError}</AlertDescription>
+        </Alert>
+      )}
+
+      {!error && suggestions.length === 0 && (
+        <Card className="shadow-md">
+          <CardContent className="py-10">
+            <p className="text-sm text-muted-foreground italic text-center">Nothing needs reordering right now.</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {[...groups.entries()].map(([supplierId, supplierSuggestions]) => (
+        <Card key={supplierId} className="shadow-md">
+          <CardHeader className="flex flex-row items-center justify-between gap-4">
+            <CardTitle className="flex items-center gap-2">
+              <Factory className="h-5 w-5 text-muted-foreground" />
+              <Link href={`/purchasing/suppliers/${supplierId}`} className="hover:underline">{suppliersById.get(supplierId)!.name}</Link>
+            </CardTitle>
+            <DraftReplenishmentButton supplierId={supplierId} itemCount={supplierSuggestions.length} />
+          </CardHeader>
+          <CardContent>
+            <SuggestionsTable suggestions={supplierSuggestions} />
+          </CardContent>
+        </Card>
+      ))}
+
+      {unassigned.length > 0 && (
+        <Card className="shadow-md">
+          <CardHeader>
+            <CardTitle>No Supplier</CardTitle>
+            <CardDescription>Set a supplier on these items to draft purchase orders for them.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <SuggestionsTable suggestions={unassigned} />
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+export const dynamic = 'force-dynamic';
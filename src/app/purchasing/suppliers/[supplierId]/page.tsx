@@ -0,0 +1,197 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Home, AlertTriangle, Factory, Box, ClipboardList, PlusCircle } from 'lucide-react';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { format } from 'date-fns';
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import { db, collection, getDocs, query, where } from '@/lib/firebase/firebase';
+import { getCurrentUser } from '@/lib/auth/server';
+import { hasPermission } from '@/lib/auth/permissions';
+import { getSupplier } from '@/lib/purchasing/suppliers';
+import { getPurchaseOrders } from '@/lib/purchasing/purchase-orders';
+import { SupplierFormDialog } from "@/components/purchasing/supplier-form-dialog";
+import { PurchaseOrderStatusBadge } from "@/components/purchasing/purchase-order-status-badge";
+
+interface SuppliedItem {
+  id: string;
+  name: string;
+  sku: string;
+  supplierSku?: string;
+  stock: number;
+  landedCost?: number;
+}
+
+// Inventory items that name this supplier as theirs
+async function getSuppliedItems(supplierId: string): Promise<SuppliedItem[]> {
+  if (!db) return [];
+  try {
+    const snapshot = await getDocs(query(collection(db, 'inventory'), where('supplierId', '==', supplierId)));
+    return snapshot.docs
+      .map((docSnap) => {
+        const data = docSnap.data();
+        return {
+          id: docSnap.id,
+          name: data.name || 'Unknown',
+          sku: data.sku || '',
+          supplierSku: data.supplierSku || undefined,
+          stock: typeof data.stock === 'number' ? data.stock : 0,
+          landedCost: typeof data.landedCost === 'number' ? data.landedCost : undefined,
+        };
+      })
+      .sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error(`Error fetching items for supplier ${supplierId}:`, error);
+    return [];
+  }
+}
+
+export default async function SupplierDetailPage({ params }: { params: { supplierId: string } }) {
+  const [{ supplier, error }, items, { purchaseOrders }, currentUser] = await Promise.all([
+    getSupplier(params.supplierId),
+    getSuppliedItems(params.supplierId),
+    getPurchaseOrders(params.supplierId),
+    getCurrentUser(),
+  ]);
+
+  if (error) {
+    return (
+      <div className="container mx-auto py-6 space-y-6">
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Error Loading Supplier</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+  if (!supplier) {
+    notFound();
+  }
+  const canManage = hasPermission(currentUser?.role, 'purchasing:manage');
+
+  return (
+    <div className="container mx-auto py-6 animate-subtle-fade-in space-y-6">
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild><Link href="/"><Home className="h-4 w-4"/></Link></BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild><Link href="/purchasing">Purchasing</Link></BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild><Link href="/purchasing/suppliers">Suppliers</Link></BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbPage>{supplier.name}</BreadcrumbPage>
+          </BreadcrumbItem>
+        </BreadcrumbList>
+      </Breadcrumb>
+
+      <Card className="shadow-md">
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-2xl flex items-center gap-2"><Factory className="h-6 w-6 text-muted-foreground" /> {supplier.name}</CardTitle>
+            {supplier.paymentTerms && <CardDescription>Terms: {supplier.paymentTerms}</CardDescription>}
+          </div>
+          <SupplierFormDialog supplier={supplier} />
+        </CardHeader>
+        <CardContent className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2 text-sm">
+          <div><span className="font-medium">Contact:</span> {supplier.contactName || 'N/A'}</div>
+          <div><span className="font-medium">Phone:</span> {supplier.phone || 'N/A'}</div>
+          <div><span className="font-medium">Email:</span> {supplier.email || 'N/A'}</div>
+          <div><span className="font-medium">Address:</span> {supplier.address || 'N/A'}</div>
+          {supplier.notes && <p className="sm:col-span-2 text-muted-foreground whitespace-pre-wrap">{supplier.notes}</p>}
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-md">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2"><Box className="h-5 w-5 text-muted-foreground" /> Items Supplied ({items.length})</CardTitle>
+          <CardDescription>Set an item&apos;s supplier on its edit page.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {items.length === 0 ? (
+            <p className="text-sm text-muted-foreground italic text-center py-6">No inventory items are linked to this supplier.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead>Supplier Code</TableHead>
+                  <TableHead className="text-center">Stock</TableHead>
+                  <TableHead className="text-right">Landed Cost</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.map((item) => (
+                  <TableRow key={item.id}>
+                    <TableCell>
+                      <Link href={`/inventory/${item.id}`} className="font-medium hover:underline">{item.name}</Link>
+                      <div className="text-xs text-muted-foreground">{item.sku}</div>
+                    </TableCell>
+                    <TableCell>{item.supplierSku || '—'}</TableCell>
+                    <TableCell className="text-center">{item.stock}</TableCell>
+                    <TableCell className="text-right">{typeof item.landedCost === 'number' ? `₹${item.landedCost.toFixed(2)}` : '—'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-md">
+        <CardHeader className="flex flex-row items-center justify-between gap-4">
+          <CardTitle className="flex items-center gap-2"><ClipboardList className="h-5 w-5 text-muted-foreground" /> Purchase Orders ({purchaseOrders.length})</CardTitle>
+          {canManage && (
+            <Button size="sm" variant="outline" asChild>
+              <Link href={`/purchasing/new?supplierId=${supplier.id}`}><PlusCircle className="mr-2 h-4 w-4" /> New Purchase Order</Link>
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          {purchaseOrders.length === 0 ? (
+            <p className="text-sm text-muted-foreground italic text-center py-6">No purchase orders with this supplier yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>PO</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Drafted</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {purchaseOrders.map((po) => (
+                  <TableRow key={po.id}>
+                    <TableCell><Link href={`/purchasing/${po.id}`} className="font-medium hover:underline">{po.id.substring(0, 8)}...</Link></TableCell>
+                    <TableCell><PurchaseOrderStatusBadge status={po.status} /></TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{format(new Date(po.createdAt), 'PP')}</TableCell>
+                    <TableCell className="text-right font-medium">₹{(po.subtotal + po.freightCost).toFixed(2)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,239 @@
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Home, AlertTriangle, FileText, Calendar, User, Package, DollarSign } from 'lucide-react';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { format } from 'date-fns';
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { getAuditHistory } from '@/lib/audit';
+import { getQuote, getQuoteStatusVariant } from '@/lib/orders/quotes';
+import { formatDiscount } from '@/lib/orders/discounts';
+import { AuditHistory } from "@/components/audit/audit-history";
+import { OrderTotalsSummary } from "@/components/orders/order-totals-summary";
+import { QuoteActions } from "@/components/quotes/quote-actions";
+import { QUOTE_STATUS_LABELS } from '@/schemas/quote';
+
+const formatValidUntil = (validUntil: string) => format(new Date(`${validUntil}T00:00:00`), 'PP');
+
+export default async function QuoteDetailPage({ params }: { params: { quoteId: string } }) {
+  const [{ quote, error }, { entries: historyEntries, error: historyError }] = await Promise.all([
+    getQuote(params.quoteId),
+    getAuditHistory('quote', params.quoteId),
+  ]);
+
+  if (error) {
+    return (
+      <div className="container mx-auto py-6 space-y-6">
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Error Loading Quote</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+  if (!quote) {
+    notFound();
+  }
+
+  const customer = quote.shippingInfo;
+
+  return (
+    <div className="container mx-auto py-6 animate-subtle-fade-in space-y-6">
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild><Link href="/"><Home className="h-4 w-4"/></Link></BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild><Link href="/quotes">Quotes</Link></BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbPage>Quote {quote.id.substring(0, 8)}...</BreadcrumbPage>
+          </BreadcrumbItem>
+        </BreadcrumbList>
+      </Breadcrumb>
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="space-y-1">
+          <h1 className="text-2xl font-semibold text-foreground flex items-center gap-3">
+            Quote {quote.id.substring(0, 8)}...
+            <Badge variant={getQuoteStatusVariant(quote.status)} className="whitespace-nowrap">{QUOTE_STATUS_LABELS[quote.status]}</Badge>
+          </h1>
+          <div className="text-sm text-muted-foreground flex flex-wrap gap-x-4 gap-y-1">
+            <span className="flex items-center gap-1"><Calendar className="h-4 w-4" /> Created {format(new Date(quote.createdAt), 'PP')}{quote.createdBy ? ` by ${quote.createdBy.name}` : ''}</span>
+            <span>Revision {quote.revision}, saved {format(new Date(quote.savedAt), 'PP')}{quote.savedBy ? ` by ${quote.savedBy.name}` : ''}</span>
+            <span>Valid until {formatValidUntil(quote.validUntil)}</span>
+            {quote.sentAt && <span>Sent {format(new Date(quote.sentAt), 'PP')}</span>}
+            {quote.acceptedAt && <span>Accepted {format(new Date(quote.acceptedAt), 'PP')}</span>}
+            {quote.declinedAt && <span>Declined {format(new Date(quote.declinedAt), 'PP')}</span>}
+          </div>
+        </div>
+        <QuoteActions quoteId={quote.id} status={quote.status} />
+      </div>
+
+      {quote.orderId && (
+        <Alert>
+          <Package className="h-4 w-4" />
+          <AlertTitle>Converted to an Order</AlertTitle>
+          <AlertDescription>
+            This quote became <Link href={`/orders/${quote.orderId}`} className="font-medium hover:underline">order {quote.orderId.substring(0, 8)}...</Link>.
+          </AlertDescription>
+        </Alert>
+      )}
+      {quote.status === 'declined' && quote.declineReason && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Declined</AlertTitle>
+          <AlertDescription>{quote.declineReason}</AlertDescription>
+        </Alert>
+      )}
+
+      <Tabs defaultValue="details" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="details">Details</TabsTrigger>
+          <TabsTrigger value="revisions">Revisions ({quote.revisions.length + 1})</TabsTrigger>
+          <TabsTrigger value="history">History ({historyEntries.length})</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="details" className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <Card className="shadow-md">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2"><User className="h-5 w-5 text-muted-foreground" /> Customer</CardTitle>
+              </CardHeader>
+              <CardContent className="text-sm space-y-1">
+                <p className="font-medium">{customer?.name || 'N/A'}</p>
+                {customer?.email && <p className="text-muted-foreground">{customer.email}</p>}
+                {customer?.phone && <p className="text-muted-foreground">{customer.phone}</p>}
+                <p className="text-muted-foreground">{[customer?.address, customer?.city, customer?.state, customer?.zipCode].filter(Boolean).join(', ')}</p>
+                {customer?.gstin && <p className="text-muted-foreground">GSTIN: {customer.gstin}</p>}
+              </CardContent>
+            </Card>
+            <Card className="shadow-md">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2"><DollarSign className="h-5 w-5 text-muted-foreground" /> Totals</CardTitle>
+                {quote.shippingMethod && <CardDescription>Shipping: {quote.shippingMethod}</CardDescription>}
+              </CardHeader>
+              <CardContent>
+                {quote.totals && <OrderTotalsSummary totals={quote.totals} gst={quote.gst} />}
+                {quote.discounts?.map((discount, index) => (
+                  <p key={index} className="mt-2 text-xs text-muted-foreground">
+                    {discount.promoCode ? `Promo ${discount.promoCode}` : 'Order discount'}: {formatDiscount(discount)}
+                    {discount.promoCode ? ' (checked again when the quote becomes an order)' : ''}
+                  </p>
+                ))}
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card className="shadow-md">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2"><FileText className="h-5 w-5 text-muted-foreground" /> Lines</CardTitle>
+              <CardDescription>Converting the quote keeps these prices and discounts for lines that aren&apos;t changed.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Item</TableHead>
+                    <TableHead className="text-center">Qty</TableHead>
+                    <TableHead className="text-right">Unit Price</TableHead>
+                    <TableHead className="text-right">Discount</TableHead>
+                    <TableHead className="text-right">Line Total</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {quote.items.map((item, index) => (
+                    <TableRow key={`${item.doorId}-${index}`}>
+                      <TableCell>
+                        <Link href={`/inventory/${item.doorId}`} className="font-medium hover:underline">{item.name}</Link>
+                        <div className="text-xs text-muted-foreground">
+                          {item.sku}
+                          {item.priceAdjustments?.map((adjustment) => ` · ${adjustment.label}`).join('')}
+                          {item.priceOverride ? ` · Price agreed by ${item.priceOverride.by.name}: ${item.priceOverride.reason}` : ''}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-center">{item.quantity}</TableCell>
+                      <TableCell className="text-right">₹{item.finalPrice.toFixed(2)}</TableCell>
+                      <TableCell className="text-right">{item.discount ? `−₹${item.discount.amount.toFixed(2)}` : '—'}</TableCell>
+                      <TableCell className="text-right font-medium">₹{(item.finalPrice * item.quantity - (item.discount?.amount ?? 0)).toFixed(2)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {quote.notes && <p className="mt-4 text-sm text-muted-foreground whitespace-pre-wrap">{quote.notes}</p>}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="revisions">
+          <Card className="shadow-md">
+            <CardHeader>
+              <CardTitle>Revisions</CardTitle>
+              <CardDescription>A quote is saved as a new revision when it&apos;s changed after being sent.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Revision</TableHead>
+                    <TableHead>Saved</TableHead>
+                    <TableHead>By</TableHead>
+                    <TableHead className="text-center">Lines</TableHead>
+                    <TableHead>Valid Until</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {[quote, ...[...quote.revisions].reverse()].map((revision) => (
+                    <TableRow key={revision.revision}>
+                      <TableCell className="font-medium">
+                        {revision.revision}
+                        {revision === quote && <Badge variant="outline" className="ml-2">Current</Badge>}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground whitespace-nowrap">{format(new Date(revision.savedAt), 'PP p')}</TableCell>
+                      <TableCell>{revision.savedBy?.name || 'Unknown'}</TableCell>
+                      <TableCell className="text-center">{revision.items.length}</TableCell>
+                      <TableCell className="whitespace-nowrap">{revision.validUntil ? formatValidUntil(revision.validUntil) : '—'}</TableCell>
+                      <TableCell className="text-right font-medium">₹{(revision.totals?.grandTotal ?? 0).toFixed(2)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="history">
+          <Card className="shadow-md">
+            <CardHeader>
+              <CardTitle>Change History</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {historyError ? (
+                <p className="text-sm text-destructive">{historyError}</p>
+              ) : (
+                <AuditHistory entries={historyEntries} emptyMessage="No changes recorded for this quote yet." />
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,47 @@
+// Downloads a quote as a PDF: /quotes/<id>/pdf prints its current revision.
+
+import { createHash } from 'crypto';
+import { NextResponse } from 'next/server';
+import { db, doc, getDoc } from '@/lib/firebase/firebase';
+import { authorize } from '@/lib/auth/server';
+import { getQuoteDocumentReference, renderQuoteDocument } from '@/lib/documents/order-documents';
+import { DEFAULT_BRANDING, getBrandingSettings } from '@/lib/settings/branding-settings';
+import { getTaxSettings } from '@/lib/settings/tax-settings';
+
+export async function GET(_request: Request, { params }: { params: Promise<{ quoteId: string }> }) {
+  const { quoteId } = await params;
+  const auth = await authorize();
+  if (!auth.ok) {
+    return NextResponse.json({ message: auth.message, error: auth.error }, { status: auth.error.code === 'unauthenticated' ? 401 : 403 });
+  }
+  if (!db) return NextResponse.json({ message: "Database initialization failed." }, { status: 500 });
+
+  try {
+    const quoteSnap = await getDoc(doc(db, 'quotes', quoteId));
+    if (!quoteSnap.exists()) return NextResponse.json({ message: `Quote ${quoteId} not found.` }, { status: 404 });
+
+    const [{ settings: branding }, { settings: taxSettings }] = await Promise.all([getBrandingSettings(), getTaxSettings()]);
+    const source = {
+      quoteId,
+      quote: quoteSnap.data(),
+      branding: branding ?? DEFAULT_BRANDING,
+      sellerGstin: taxSettings?.gstin || undefined,
+    };
+    const pdf = renderQuoteDocument(source);
+
+    return new NextResponse(Buffer.from(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${getQuoteDocumentReference(source)}.pdf"`,
+        'Content-Length': String(pdf.byteLength),
+        'Cache-Control': 'private, no-cache',
+        ETag: `"${createHash('sha256').update(pdf).digest('hex')}"`,
+      },
+    });
+  } catch (error) {
+    console.error(`Error generating the PDF for quote ${quoteId}:`, error);
+    return NextResponse.json({ message: "Failed to generate the document." }, { status: 500 });
+  }
+}
+
+export const dynamic = 'force-dynamic';
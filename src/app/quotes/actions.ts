@@ -0,0 +1,248 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { db, collection, doc, getDoc, addDoc, updateDoc, serverTimestamp, Timestamp } from '@/lib/firebase/firebase';
+import { authorize } from '@/lib/auth/server';
+import type { AuthError } from '@/lib/auth/permissions';
+import { recordAudit } from '@/lib/audit';
+import { buildOrderTotals, priceFormLines, resolveOrderDiscounts, taxOrderLines } from '@/lib/orders/order-pricing';
+import { getLineTaxAmount } from '@/lib/orders/tax';
+import { canReviseQuote, getQuoteStatus } from '@/lib/orders/quotes';
+import { getCustomer } from '@/lib/customers/customers';
+import { DeclineQuoteSchema, QuoteSchema, type QuoteInput, type QuoteStatus } from '@/schemas/quote';
+import type { SessionUser } from '@/schemas/user';
+
+type QuoteActionResult = { success: boolean; message: string; quoteId?: string; errors?: Record<string, any> | null; error?: AuthError };
+
+// Fields that make up one revision of a quote (see QuoteRevision)
+const REVISION_FIELDS = ['revision', 'items', 'totals', 'gst', 'discounts', 'shippingMethod', 'validUntil', 'notes', 'savedAt', 'savedBy'];
+
+const toUserStamp = (user: SessionUser) => ({ id: user.id, name: user.name, role: user.role });
+
+// Prices the form the same way an order is priced. Lines kept from the quote's current revision keep the
+// prices and discounts they were given; new ones are priced at the customer's price tier. A promo code is
+// only checked here; it's counted against its usage limit when the quote becomes an order.
+async function priceQuote(values: QuoteInput, user: SessionUser, current?: Record<string, any>) {
+  const { customer } = values.customerId ? await getCustomer(values.customerId) : { customer: null };
+  if (values.customerId && !customer) {
+    return { ok: false as const, message: "The chosen customer no longer exists.", errors: { customerId: ["Choose the customer again."] }, error: undefined };
+  }
+
+  const priced = await priceFormLines(values.items, user, current?.items || [], customer?.priceTier);
+  if (!priced.ok) return { ok: false as const, message: priced.message, errors: priced.errors, error: priced.error };
+
+  const discounts = await resolveOrderDiscounts(
+    values.items.map((item, index) => ({
+      finalPrice: priced.lines[index].finalPrice,
+      quantity: item.quantity,
+      discount: item.discount,
+      existingDiscount: priced.lines[index].pricedLine?.discount,
+    })),
+    { orderDiscount: values.orderDiscount, promoCode: values.promoCode || undefined },
+    user,
+    current?.discounts || []
+  );
+  if (!discounts.ok) return { ok: false as const, message: discounts.message, errors: discounts.errors, error: undefined };
+
+  const taxed = await taxOrderLines(priced.lines.map((line, index) => ({ ...line, taxableValue: discounts.taxableValues[index] })), { ...values.customer, taxExempt: customer?.taxExempt });
+  const items = values.items.map((item, index) => ({
+    doorId: item.itemId,
+    name: item.name,
+    sku: item.sku,
+    quantity: item.quantity,
+    finalPrice: priced.lines[index].finalPrice,
+    basePrice: priced.lines[index].basePrice,
+    priceAdjustments: priced.lines[index].adjustments,
+    ...(priced.lines[index].override && { priceOverride: priced.lines[index].override }),
+    ...(discounts.lineDiscounts[index] && { discount: discounts.lineDiscounts[index] }),
+    ...(taxed && { tax: taxed.lineTaxes[index] }),
+    imageUrl: item.image || '',
+    customizations: item.customizations || {},
+  }));
+  return {
+    ok: true as const,
+    data: {
+      customerId: values.customerId || null,
+      shippingInfo: values.customer,
+      items,
+      ...buildOrderTotals(items, values.shippingCharge, taxed ? getLineTaxAmount(taxed.gst) : undefined, discounts.discountTotal),
+      gst: taxed?.gst ?? null,
+      discounts: discounts.orderDiscounts,
+      shippingMethod: values.shippingMethod || null,
+      validUntil: values.validUntil,
+      notes: values.notes || null,
+    },
+  };
+}
+
+function validateQuote(values: QuoteInput) {
+  const validationResult = QuoteSchema.safeParse(values);
+  if (!validationResult.success) {
+    return { success: false as const, message: "Validation failed. Please check the form fields.", errors: validationResult.error.flatten().fieldErrors };
+  }
+  if (validationResult.data.validUntil < new Date().toISOString().slice(0, 10)) {
+    return { success: false as const, message: "The valid-until date can't be in the past.", errors: { validUntil: ["Choose today or a later date."] } };
+  }
+  return { success: true as const, data: validationResult.data };
+}
+
+function revalidateQuotePaths(quoteId: string) {
+  revalidatePath('/quotes');
+  revalidatePath(`/quotes/${quoteId}`);
+}
+
+export async function createQuoteAction(values: QuoteInput): Promise<QuoteActionResult> {
+  if (!db) return { success: false, message: "Database configuration error.", errors: null };
+
+  const auth = await authorize('quotes:manage');
+  if (!auth.ok) return { success: false, message: auth.message, errors: null, error: auth.error };
+
+  const validation = validateQuote(values);
+  if (!validation.success) return validation;
+
+  const priced = await priceQuote(validation.data, auth.user);
+  if (!priced.ok) return { success: false, message: priced.message, errors: priced.errors, error: priced.error };
+
+  try {
+    const newQuote = {
+      ...priced.data,
+      status: 'draft',
+      revision: 1,
+      revisions: [],
+      savedAt: Timestamp.now(),
+      savedBy: toUserStamp(auth.user),
+      createdBy: toUserStamp(auth.user),
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    };
+    const quoteRef = await addDoc(collection(db, 'quotes'), newQuote);
+    await recordAudit({
+      actor: auth.user,
+      entityType: 'quote',
+      entityId: quoteRef.id,
+      entityLabel: priced.data.shippingInfo.name,
+      action: 'create',
+      before: null,
+      after: newQuote,
+    });
+
+    revalidateQuotePaths(quoteRef.id);
+    return { success: true, message: `Quote for ${priced.data.shippingInfo.name} saved as a draft.`, quoteId: quoteRef.id, errors: null };
+  } catch (error) {
+    console.error("Error creating quote:", error);
+    return { success: false, message: "Failed to save the quote. Please try again.", errors: null };
+  }
+}
+
+// A draft that hasn't been sent is changed in place. Once the customer has seen it, a change becomes a
+// new revision (the current one is kept in `revisions`) and goes back to draft until it's sent again.
+export async function updateQuoteAction(quoteId: string, values: QuoteInput): Promise<QuoteActionResult> {
+  if (!db) return { success: false, message: "Database configuration error.", errors: null };
+  if (!quoteId) return { success: false, message: "Quote ID is required.", errors: null };
+
+  const auth = await authorize('quotes:manage');
+  if (!auth.ok) return { success: false, message: auth.message, errors: null, error: auth.error };
+
+  const validation = validateQuote(values);
+  if (!validation.success) return validation;
+
+  try {
+    const quoteRef = doc(db, 'quotes', quoteId);
+    const quoteSnap = await getDoc(quoteRef);
+    if (!quoteSnap.exists()) return { success: false, message: `Quote ${quoteId} not found.`, errors: null };
+    const existing = quoteSnap.data();
+    const status = getQuoteStatus(existing);
+    if (!canReviseQuote(status)) {
+      return { success: false, message: `A quote that is ${status} can't be changed.`, errors: null };
+    }
+
+    const priced = await priceQuote(validation.data, auth.user, existing);
+    if (!priced.ok) return { success: false, message: priced.message, errors: priced.errors, error: priced.error };
+
+    const isNewRevision = !!existing.sentAt || status === 'expired';
+    const revision = (existing.revision || 1) + (isNewRevision ? 1 : 0);
+    const previousRevision = Object.fromEntries(REVISION_FIELDS.filter((field) => existing[field] !== undefined && existing[field] !== null).map((field) => [field, existing[field]]));
+    const updateData = {
+      ...priced.data,
+      status: 'draft',
+      revision,
+      ...(isNewRevision && { revisions: [...(existing.revisions || []), previousRevision], sentAt: null }),
+      savedAt: Timestamp.now(),
+      savedBy: toUserStamp(auth.user),
+      updatedAt: serverTimestamp(),
+    };
+    await updateDoc(quoteRef, updateData);
+    await recordAudit({
+      actor: auth.user,
+      entityType: 'quote',
+      entityId: quoteId,
+      entityLabel: priced.data.shippingInfo.name,
+      action: 'update',
+      before: existing,
+      after: updateData,
+    });
+
+    revalidateQuotePaths(quoteId);
+    return { success: true, message: isNewRevision ? `Quote saved as revision ${revision}.` : "Quote updated.", quoteId, errors: null };
+  } catch (error) {
+    console.error(`Error updating quote ${quoteId}:`, error);
+    return { success: false, message: "Failed to update the quote. Please try again.", errors: null };
+  }
+}
+
+// Moves a quote along; accepting happens when it's converted into an order (see createOrderAction)
+async function changeQuoteStatus(
+  quoteId: string,
+  to: Extract<QuoteStatus, 'sent' | 'declined'>,
+  allowedFrom: QuoteStatus[],
+  extra: Record<string, unknown> = {}
+): Promise<{ success: boolean; message: string; error?: AuthError }> {
+  if (!db) return { success: false, message: "Database configuration error." };
+
+  const auth = await authorize('quotes:manage');
+  if (!auth.ok) return { success: false, message: auth.message, error: auth.error };
+
+  try {
+    const quoteRef = doc(db, 'quotes', quoteId);
+    const quoteSnap = await getDoc(quoteRef);
+    if (!quoteSnap.exists()) return { success: false, message: `Quote ${quoteId} not found.` };
+    const existing = quoteSnap.data();
+    const status = getQuoteStatus(existing);
+    if (!allowedFrom.includes(status)) {
+      return { success: false, message: `A quote that is ${status} can't be marked ${to}.` };
+    }
+
+    const updateData = {
+      status: to,
+      ...(to === 'sent' ? { sentAt: serverTimestamp() } : { declinedAt: serverTimestamp() }),
+      ...extra,
+      updatedAt: serverTimestamp(),
+    };
+    await updateDoc(quoteRef, updateData);
+    await recordAudit({
+      actor: auth.user,
+      entityType: 'quote',
+      entityId: quoteId,
+      entityLabel: existing.shippingInfo?.name,
+      action: 'status_change',
+      before: existing,
+      after: updateData,
+    });
+
+    revalidateQuotePaths(quoteId);
+    return { success: true, message: to === 'sent' ? "Quote marked as sent." : "Quote marked as declined." };
+  } catch (error) {
+    console.error(`Error changing quote ${quoteId} to ${to}:`, error);
+    return { success: false, message: "Failed to update the quote. Please try again." };
+  }
+}
+
+export async function markQuoteSentAction(quoteId: string): Promise<{ success: boolean; message: string; error?: AuthError }> {
+  return changeQuoteStatus(quoteId, 'sent', ['draft']);
+}
+
+export async function declineQuoteAction(quoteId: string, values: { reason?: string }): Promise<{ success: boolean; message: string; error?: AuthError }> {
+  const validationResult = DeclineQuoteSchema.safeParse(values);
+  if (!validationResult.success) return { success: false, message: validationResult.error.errors[0]?.message || "Invalid reason." };
+  return changeQuoteStatus(quoteId, 'declined', ['draft', 'sent', 'expired'], { declineReason: validationResult.data.reason || null });
+}
@@ -0,0 +1,109 @@
+import { CreateOrderForm } from "@/components/orders/create-order-form";
+import { ArrowLeft, Home } from "lucide-react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import { db, collection, getDocs, Timestamp } from '@/lib/firebase/firebase';
+import type { AddItemInput } from '@/schemas/inventory';
+import { getLocations } from '@/lib/inventory/locations';
+import { getTaxSettings } from '@/lib/settings/tax-settings';
+import { getCustomers } from '@/lib/customers/customers';
+
+// Define the structure of an inventory item for selection
+interface InventorySelectItem extends AddItemInput {
+  id: string;
+  // Timestamps are not needed for selection, but keep structure consistent
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// Function to fetch inventory items for selection (similar to inventory page fetch)
+async function getInventoryItemsForSelection(): Promise<{ items: InventorySelectItem[]; error?: string }> {
+  if (!db) {
+    const errorMessage = "Database initialization failed. Cannot fetch inventory for quotes.";
+    console.error(errorMessage);
+    return { items: [], error: "Database initialization failed." };
+  }
+
+  try {
+    const inventoryCollectionRef = collection(db, 'inventory');
+    const querySnapshot = await getDocs(inventoryCollectionRef);
+    const items: InventorySelectItem[] = [];
+    querySnapshot.forEach((doc) => {
+      const data = doc.data() as AddItemInput & { createdAt?: Timestamp, updatedAt?: Timestamp };
+
+      // Convert Timestamps to ISO strings for serialization
+      const createdAt = data.createdAt instanceof Timestamp ? data.createdAt.toDate().toISOString() : undefined;
+      const updatedAt = data.updatedAt instanceof Timestamp ? data.updatedAt.toDate().toISOString() : undefined;
+
+      const { createdAt: _, updatedAt: __, ...restData } = data;
+
+      items.push({
+        id: doc.id,
+        ...restData,
+        createdAt,
+        updatedAt,
+      });
+    });
+    return { items };
+  } catch (error) {
+    const errorMessage = `Error fetching inventory items for selection: ${error instanceof Error ? error.message : String(error)}`;
+    console.error(errorMessage);
+    return { items: [], error: "Failed to load inventory data." };
+  }
+}
+
+export default async function CreateQuotePage() {
+  const [{ items: inventoryItems, error: fetchError }, { locations }, { settings: taxSettings }, { customers }] = await Promise.all([
+    getInventoryItemsForSelection(),
+    getLocations(),
+    getTaxSettings(),
+    getCustomers(),
+  ]);
+
+  return (
+    <div className="container mx-auto py-6 animate-subtle-fade-in space-y-6">
+       <Breadcrumb>
+         <BreadcrumbList>
+           <BreadcrumbItem>
+             <BreadcrumbLink asChild><Link href="/"><Home className="h-4 w-4"/></Link></BreadcrumbLink>
+           </BreadcrumbItem>
+           <BreadcrumbSeparator />
+           <BreadcrumbItem>
+             <BreadcrumbLink asChild><Link href="/quotes">Quotes</Link></BreadcrumbLink>
+           </BreadcrumbItem>
+           <BreadcrumbSeparator />
+           <BreadcrumbItem>
+             <BreadcrumbPage>New Quote</BreadcrumbPage>
+           </BreadcrumbItem>
+         </BreadcrumbList>
+       </Breadcrumb>
+
+       <div className="flex items-center justify-between">
+         <Button variant="outline" size="sm" asChild>
+           <Link href="/quotes">
+             <ArrowLeft className="mr-2 h-4 w-4" />
+             Back to Quotes
+           </Link>
+         </Button>
+         <h1 className="text-2xl font-semibold text-foreground hidden md:block">New Quote</h1>
+       </div>
+
+      <CreateOrderForm mode="quote" inventoryItems={inventoryItems} locations={locations} taxSettings={taxSettings} fetchError={fetchError} customers={customers} />
+    </div>
+  );
+}
+
+export const metadata = {
+  title: 'New Quote | Showroom Manager',
+  description: 'Prepare a quote for a customer.',
+};
+
+export const dynamic = 'force-dynamic';
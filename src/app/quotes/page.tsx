@@ -0,0 +1,119 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Home, FileText, AlertTriangle, PlusCircle } from 'lucide-react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import { getCurrentUser } from '@/lib/auth/server';
+import { hasPermission } from '@/lib/auth/permissions';
+import { getQuotes, getQuoteStatusVariant } from '@/lib/orders/quotes';
+import { QUOTE_STATUS_LABELS, QuoteStatusEnum } from '@/schemas/quote';
+
+export default async function QuotesPage({ searchParams }: { searchParams: Promise<{ status?: string }> }) {
+  const { status: statusParam } = await searchParams;
+  const parsedStatus = QuoteStatusEnum.safeParse(statusParam);
+  const status = parsedStatus.success ? parsedStatus.data : undefined;
+  const [{ quotes, error }, currentUser] = await Promise.all([getQuotes(status), getCurrentUser()]);
+  const canManage = hasPermission(currentUser?.role, 'quotes:manage');
+
+  return (
+    <div className="container mx-auto py-6 animate-subtle-fade-in space-y-6">
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild><Link href="/"><Home className="h-4 w-4"/></Link></BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbPage>Quotes</BreadcrumbPage>
+          </BreadcrumbItem>
+        </BreadcrumbList>
+      </Breadcrumb>
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h1 className="text-3xl font-semibold text-foreground">Quotes</h1>
+        {canManage && (
+          <Button asChild>
+            <Link href="/quotes/new"><PlusCircle className="mr-2 h-4 w-4" /> New Quote</Link>
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Error Loading Quotes</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" variant={status ? 'outline' : 'secondary'} asChild>
+          <Link href="/quotes">All</Link>
+        </Button>
+        {QuoteStatusEnum.options.map((option) => (
+          <Button key={option} size="sm" variant={status === option ? 'secondary' : 'outline'} asChild>
+            <Link href={`/quotes?status=${option}`}>{QUOTE_STATUS_LABELS[option]}</Link>
+          </Button>
+        ))}
+      </div>
+
+      <Card className="shadow-md border border-border/50">
+        <CardHeader>
+          <CardTitle className="text-xl flex items-center gap-2"><FileText className="h-5 w-5 text-primary" /> {status ? `${QUOTE_STATUS_LABELS[status]} Quotes` : 'All Quotes'}</CardTitle>
+          <CardDescription>Draft and sent quotes expire after their valid-until date; revise one with a new date to reopen it.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {quotes.length === 0 ? (
+            <p className="text-sm text-muted-foreground italic text-center py-6">No quotes{status ? ` that are ${QUOTE_STATUS_LABELS[status].toLowerCase()}` : ' yet'}.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Quote</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-center">Revision</TableHead>
+                  <TableHead>Valid Until</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {quotes.map((quote) => (
+                  <TableRow key={quote.id}>
+                    <TableCell>
+                      <Link href={`/quotes/${quote.id}`} className="font-medium hover:underline">{quote.id.substring(0, 8)}...</Link>
+                      <div className="text-xs text-muted-foreground">{format(new Date(quote.createdAt), 'PP')}</div>
+                    </TableCell>
+                    <TableCell>{quote.shippingInfo?.name || 'N/A'}</TableCell>
+                    <TableCell>
+                      <Badge variant={getQuoteStatusVariant(quote.status)} className="whitespace-nowrap">{QUOTE_STATUS_LABELS[quote.status]}</Badge>
+                      {quote.orderId && (
+                        <div className="text-xs"><Link href={`/orders/${quote.orderId}`} className="text-muted-foreground hover:underline">Order {quote.orderId.substring(0, 8)}...</Link></div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-center">{quote.revision}</TableCell>
+                    <TableCell className="whitespace-nowrap">{quote.validUntil ? format(new Date(`${quote.validUntil}T00:00:00`), 'PP') : '—'}</TableCell>
+                    <TableCell className="text-right font-medium">₹{quote.totalAmount.toFixed(2)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export const dynamic = 'force-dynamic';
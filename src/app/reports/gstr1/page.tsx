@@ -0,0 +1,252 @@
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Home, Receipt, AlertTriangle } from 'lucide-react';
+import Link from 'next/link';
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import { format } from 'date-fns';
+import { getGstr1Report, parseReportPeriod, B2CL_INVOICE_THRESHOLD, type Gstr1Invoice, type Gstr1TaxAmounts } from '@/lib/reports/gstr1';
+import { getStateName } from '@/lib/orders/tax';
+import { getTaxSettings } from '@/lib/settings/tax-settings';
+import { ReportPeriodPicker } from "@/components/reports/report-period-picker";
+
+const formatAmount = (amount: number) => `₹${amount.toFixed(2)}`;
+
+// GSTR-1 shows places of supply as "27-Maharashtra"
+const formatPlaceOfSupply = (code: string | undefined) => (code ? `${code}-${getStateName(code)}` : 'Unmatched state');
+
+function TaxCells({ amounts }: { amounts: Gstr1TaxAmounts }) {
+  return (
+    <>
+      <TableCell className="text-right">{formatAmount(amounts.taxableValue)}</TableCell>
+      <TableCell className="text-right">{amounts.cgst ? formatAmount(amounts.cgst) : '—'}</TableCell>
+      <TableCell className="text-right">{amounts.sgst ? formatAmount(amounts.sgst) : '—'}</TableCell>
+      <TableCell className="text-right">{amounts.igst ? formatAmount(amounts.igst) : '—'}</TableCell>
+    </>
+  );
+}
+
+function TaxHeads() {
+  return (
+    <>
+      <TableHead className="text-right">Taxable Value</TableHead>
+      <TableHead className="text-right">CGST</TableHead>
+      <TableHead className="text-right">SGST</TableHead>
+      <TableHead className="text-right">IGST</TableHead>
+    </>
+  );
+}
+
+// One row per invoice and rate, as the B2B and B2CL tables are filed
+function InvoicesTable({ invoices, showGstin }: { invoices: Gstr1Invoice[]; showGstin: boolean }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          {showGstin && <TableHead>Buyer GSTIN</TableHead>}
+          <TableHead>Invoice</TableHead>
+          <TableHead>Date</TableHead>
+          <TableHead className="text-right">Invoice Value</TableHead>
+          <TableHead>Place of Supply</TableHead>
+          <TableHead className="text-right">Rate</TableHead>
+          <TaxHeads />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {invoices.flatMap((invoice) => invoice.rates.map((rateRow, index) => (
+          <TableRow key={`${invoice.orderId}-${rateRow.rate}`}>
+            {showGstin && <TableCell className="font-mono text-xs">{index === 0 ? invoice.buyerGstin : ''}</TableCell>}
+            <TableCell>
+              {index === 0 && (
+                <>
+                  <Link href={`/orders/${invoice.orderId}`} className="font-medium hover:underline">{invoice.orderId.substring(0, 8)}...</Link>
+                  <div className="text-xs text-muted-foreground">{invoice.customerName}</div>
+                </>
+              )}
+            </TableCell>
+            <TableCell>{index === 0 ? format(new Date(invoice.invoiceDate), 'dd-MMM-yyyy') : ''}</TableCell>
+            <TableCell className="text-right">{index === 0 ? formatAmount(invoice.invoiceValue) : ''}</TableCell>
+            <TableCell>{index === 0 ? formatPlaceOfSupply(invoice.placeOfSupplyCode) : ''}</TableCell>
+            <TableCell className="text-right">{rateRow.rate}%</TableCell>
+            <TaxCells amounts={rateRow} />
+          </TableRow>
+        )))}
+      </TableBody>
+    </Table>
+  );
+}
+
+function EmptySection({ message }: { message: string }) {
+  return <p className="text-sm text-muted-foreground italic text-center py-6">{message}</p>;
+}
+
+export default async function Gstr1ReportPage({ searchParams }: { searchParams: Promise<{ period?: string }> }) {
+  const params = await searchParams;
+  const { period } = parseReportPeriod(params.period);
+  const [{ report, error }, { settings }] = await Promise.all([getGstr1Report(period), getTaxSettings()]);
+
+  return (
+    <div className="container mx-auto py-6 animate-subtle-fade-in space-y-6">
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild><Link href="/"><Home className="h-4 w-4"/></Link></BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbPage>GST Report</BreadcrumbPage>
+          </BreadcrumbItem>
+        </BreadcrumbList>
+      </Breadcrumb>
+
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div className="space-y-1">
+          <h1 className="text-3xl font-semibold text-foreground flex items-center gap-2"><Receipt className="h-7 w-7 text-primary" /> GSTR-1 Outward Supplies</h1>
+          <p className="text-sm text-muted-foreground">
+            Orders dated in the period, as taxed when they were saved. Cancelled and refunded orders are left out.
+            {settings?.gstin && ` Seller GSTIN ${settings.gstin}.`}
+          </p>
+        </div>
+        <ReportPeriodPicker period={period} basePath="/reports/gstr1" />
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Error Loading Report</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+      {!settings && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>GST Not Set Up</AlertTitle>
+          <AlertDescription>Orders are saved without tax until the home state is saved in <Link href="/settings" className="underline">Settings</Link>.</AlertDescription>
+        </Alert>
+      )}
+      {report && report.untaxedOrderCount > 0 && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Orders Without GST</AlertTitle>
+          <AlertDescription>{report.untaxedOrderCount} order(s) in this period were saved before GST was set up and aren&apos;t included. Edit and save them to tax them.</AlertDescription>
+        </Alert>
+      )}
+
+      {report && (
+        <>
+          <Card className="shadow-md">
+            <CardHeader>
+              <CardTitle>Summary</CardTitle>
+              <CardDescription>{format(new Date(`${report.period}-01T00:00:00`), 'MMMM yyyy')}</CardDescription>
+            </CardHeader>
+            <CardContent className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              {([['Taxable Value', report.totals.taxableValue], ['CGST', report.totals.cgst], ['SGST', report.totals.sgst], ['IGST', report.totals.igst]] as const).map(([label, amount]) => (
+                <div key={label}>
+                  <p className="text-muted-foreground">{label}</p>
+                  <p className="text-xl font-semibold">{formatAmount(amount)}</p>
+                </div>
+              ))}
+              {report.discountTotal > 0 && (
+                <p className="col-span-full text-muted-foreground">Taxable value is after {formatAmount(report.discountTotal)} of discounts and promo codes.</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="shadow-md">
+            <CardHeader>
+              <CardTitle>B2B Invoices ({report.b2b.length})</CardTitle>
+              <CardDescription>Sales to buyers with a GSTIN.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {report.b2b.length > 0 ? <InvoicesTable invoices={report.b2b} showGstin /> : <EmptySection message="No B2B invoices in this period." />}
+            </CardContent>
+          </Card>
+
+          <Card className="shadow-md">
+            <CardHeader>
+              <CardTitle>B2C Large Invoices ({report.b2cl.length})</CardTitle>
+              <CardDescription>Inter-state sales to unregistered buyers above {formatAmount(B2CL_INVOICE_THRESHOLD)}.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {report.b2cl.length > 0 ? <InvoicesTable invoices={report.b2cl} showGstin={false} /> : <EmptySection message="No B2C large invoices in this period." />}
+            </CardContent>
+          </Card>
+
+          <Card className="shadow-md">
+            <CardHeader>
+              <CardTitle>B2C Small</CardTitle>
+              <CardDescription>All other sales to unregistered buyers, by place of supply and rate.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {report.b2cs.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Place of Supply</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead className="text-right">Rate</TableHead>
+                      <TaxHeads />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.b2cs.map((row) => (
+                      <TableRow key={`${row.placeOfSupplyCode || ''}-${row.rate}`}>
+                        <TableCell>{formatPlaceOfSupply(row.placeOfSupplyCode)}</TableCell>
+                        <TableCell>{row.supplyType === 'intra_state' ? 'Intra-state' : 'Inter-state'}</TableCell>
+                        <TableCell className="text-right">{row.rate}%</TableCell>
+                        <TaxCells amounts={row} />
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : <EmptySection message="No B2C sales in this period." />}
+            </CardContent>
+          </Card>
+
+          <Card className="shadow-md">
+            <CardHeader>
+              <CardTitle>HSN Summary</CardTitle>
+              <CardDescription>Quantities and tax by HSN code across all sales in the period.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {report.hsn.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>HSN</TableHead>
+                      <TableHead className="text-right">Quantity</TableHead>
+                      <TaxHeads />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.hsn.map((row) => (
+                      <TableRow key={row.hsnCode || 'none'}>
+                        <TableCell className="font-mono">{row.hsnCode || <span className="font-sans italic text-muted-foreground">No HSN code</span>}</TableCell>
+                        <TableCell className="text-right">{row.quantity}</TableCell>
+                        <TaxCells amounts={row} />
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : <EmptySection message="No sales in this period." />}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
+
+export const metadata = {
+  title: 'GST Report | Showroom Manager',
+  description: 'GSTR-1 outward supplies by month.',
+};
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,165 @@
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Home, Landmark, AlertTriangle } from 'lucide-react';
+import Link from 'next/link';
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import { format } from 'date-fns';
+import { AGING_BUCKETS, AGING_BUCKET_LABELS, getAgedReceivables } from '@/lib/reports/receivables';
+import { PAYMENT_TERMS_LABELS } from '@/schemas/customer';
+
+const formatAmount = (amount: number) => `₹${amount.toFixed(2)}`;
+
+// yyyy-mm-dd as a calendar date, whatever the server's zone
+const formatDay = (day: string) => format(new Date(`${day}T00:00:00`), 'dd-MMM-yyyy');
+
+export default async function ReceivablesReportPage() {
+  const { report, error } = await getAgedReceivables();
+  const orders = report?.accounts.flatMap((account) => account.orders.map((order) => ({ ...order, account }))) ?? [];
+  const overdueOrders = orders.filter((order) => (order.daysOverdue ?? 0) > 0).sort((a, b) => b.daysOverdue! - a.daysOverdue!);
+
+  return (
+    <div className="container mx-auto py-6 animate-subtle-fade-in space-y-6">
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild><Link href="/"><Home className="h-4 w-4"/></Link></BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbPage>Receivables</BreadcrumbPage>
+          </BreadcrumbItem>
+        </BreadcrumbList>
+      </Breadcrumb>
+
+      <div className="space-y-1">
+        <h1 className="text-3xl font-semibold text-foreground flex items-center gap-2"><Landmark className="h-7 w-7 text-primary" /> Aged Receivables</h1>
+        <p className="text-sm text-muted-foreground">
+          What customers still owe, by how long each invoice has been due. Trade account invoices fall due on their payment terms; others on the invoice date.
+          {report && ` As of ${formatDay(report.asOf)}.`}
+        </p>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Error Loading Report</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {report && (
+        <>
+          <Card className="shadow-md">
+            <CardHeader>
+              <CardTitle>Summary</CardTitle>
+              <CardDescription>{formatAmount(report.total)} outstanding across {report.accounts.length} customer(s).</CardDescription>
+            </CardHeader>
+            <CardContent className="grid grid-cols-2 md:grid-cols-6 gap-4 text-sm">
+              {AGING_BUCKETS.map((bucket) => (
+                <div key={bucket}>
+                  <p className="text-muted-foreground">{AGING_BUCKET_LABELS[bucket]}</p>
+                  <p className={`text-xl font-semibold ${bucket.startsWith('days_') && report.buckets[bucket] > 0 ? 'text-destructive' : ''}`}>{formatAmount(report.buckets[bucket])}</p>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          <Card className="shadow-md">
+            <CardHeader>
+              <CardTitle>By Customer</CardTitle>
+              <CardDescription>Orders without a customer are grouped by the name they were placed under.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {report.accounts.length === 0 ? (
+                <p className="text-sm text-muted-foreground italic text-center py-6">Nothing is owed.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Customer</TableHead>
+                      {AGING_BUCKETS.map((bucket) => <TableHead key={bucket} className="text-right whitespace-nowrap">{AGING_BUCKET_LABELS[bucket]}</TableHead>)}
+                      <TableHead className="text-right">Total</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.accounts.map((account) => (
+                      <TableRow key={account.key}>
+                        <TableCell>
+                          {account.customerId
+                            ? <Link href={`/customers/${account.customerId}`} className="font-medium hover:underline">{account.name}</Link>
+                            : <span className="font-medium">{account.name}</span>}
+                          <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+                            {account.paymentTerms && account.paymentTerms !== 'due_on_order' && <Badge variant="outline">{PAYMENT_TERMS_LABELS[account.paymentTerms]}</Badge>}
+                            {account.creditLimit && account.total > account.creditLimit ? <span className="text-destructive">Over its {formatAmount(account.creditLimit)} limit</span> : null}
+                          </div>
+                        </TableCell>
+                        {AGING_BUCKETS.map((bucket) => (
+                          <TableCell key={bucket} className="text-right">{account.buckets[bucket] ? formatAmount(account.buckets[bucket]) : '—'}</TableCell>
+                        ))}
+                        <TableCell className="text-right font-medium">{formatAmount(account.total)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="shadow-md">
+            <CardHeader>
+              <CardTitle>Overdue Invoices ({overdueOrders.length})</CardTitle>
+              <CardDescription>Invoices past their due date, longest overdue first.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {overdueOrders.length === 0 ? (
+                <p className="text-sm text-muted-foreground italic text-center py-6">No invoices are overdue.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Invoice</TableHead>
+                      <TableHead>Customer</TableHead>
+                      <TableHead>Due</TableHead>
+                      <TableHead className="text-right">Days Overdue</TableHead>
+                      <TableHead className="text-right">Balance Due</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {overdueOrders.map((order) => (
+                      <TableRow key={order.orderId}>
+                        <TableCell>
+                          <Link href={`/orders/${order.orderId}`} className="font-medium hover:underline">{order.invoiceNumber}</Link>
+                          <div className="text-xs text-muted-foreground">Order {order.orderId.substring(0, 8)}...</div>
+                        </TableCell>
+                        <TableCell>{order.account.name}</TableCell>
+                        <TableCell className="whitespace-nowrap">{formatDay(order.dueDate!)}</TableCell>
+                        <TableCell className="text-right">{order.daysOverdue}</TableCell>
+                        <TableCell className="text-right font-medium text-destructive">{formatAmount(order.balanceDue)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
+
+export const metadata = {
+  title: 'Receivables | Showroom Manager',
+  description: 'What customers owe, aged by due date.',
+};
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,101 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { db, doc, getDoc, setDoc, serverTimestamp } from '@/lib/firebase/firebase';
+import { TaxSettingsSchema, type TaxSettingsInput } from '@/schemas/tax';
+import { BrandingSettingsSchema, type BrandingSettingsInput } from '@/schemas/document';
+import { authorize } from '@/lib/auth/server';
+import type { AuthError } from '@/lib/auth/permissions';
+import { recordAudit } from '@/lib/audit';
+
+// Server Action to save the showroom's tax settings. Orders saved afterwards are taxed with them;
+// orders already saved keep the tax they were stored with.
+export async function updateTaxSettingsAction(
+  values: TaxSettingsInput
+): Promise<{ success: boolean; message: string; errors?: Record<string, string[]> | null; error?: AuthError }> {
+  if (!db) return { success: false, message: "Database configuration error.", errors: null };
+
+  const auth = await authorize('settings:manage');
+  if (!auth.ok) return { success: false, message: auth.message, errors: null, error: auth.error };
+
+  const validationResult = TaxSettingsSchema.safeParse(values);
+  if (!validationResult.success) {
+    return { success: false, message: "Validation failed. Please check the form fields.", errors: validationResult.error.flatten().fieldErrors };
+  }
+  const settings = validationResult.data;
+  if (settings.gstin && settings.gstin.slice(0, 2) !== settings.homeStateCode) {
+    const message = "The GSTIN is registered in a different state from the one chosen.";
+    return { success: false, message, errors: { gstin: [message] } };
+  }
+
+  try {
+    const settingsRef = doc(db, 'settings', 'tax');
+    const existingSnap = await getDoc(settingsRef);
+    const after = {
+      ...settings,
+      updatedBy: { id: auth.user.id, name: auth.user.name, role: auth.user.role },
+      updatedAt: serverTimestamp(),
+    };
+    await setDoc(settingsRef, after);
+
+    await recordAudit({
+      actor: auth.user,
+      entityType: 'settings',
+      entityId: 'tax',
+      entityLabel: 'Tax settings',
+      action: existingSnap.exists() ? 'update' : 'create',
+      before: existingSnap.exists() ? existingSnap.data() : null,
+      after,
+    });
+
+    revalidatePath('/settings');
+    revalidatePath('/orders/new');
+    return { success: true, message: "Tax settings saved. New and edited orders will be taxed with them." };
+  } catch (error) {
+    console.error("Error saving tax settings:", error);
+    return { success: false, message: "Failed to save tax settings due to a database error.", errors: null };
+  }
+}
+
+// Server Action to save the letterhead printed on invoices, packing slips and delivery notes.
+// Documents are drawn when downloaded, so the next download of any order uses it.
+export async function updateBrandingSettingsAction(
+  values: BrandingSettingsInput
+): Promise<{ success: boolean; message: string; errors?: Record<string, string[]> | null; error?: AuthError }> {
+  if (!db) return { success: false, message: "Database configuration error.", errors: null };
+
+  const auth = await authorize('settings:manage');
+  if (!auth.ok) return { success: false, message: auth.message, errors: null, error: auth.error };
+
+  const validationResult = BrandingSettingsSchema.safeParse(values);
+  if (!validationResult.success) {
+    return { success: false, message: "Validation failed. Please check the form fields.", errors: validationResult.error.flatten().fieldErrors };
+  }
+
+  try {
+    const settingsRef = doc(db, 'settings', 'branding');
+    const existingSnap = await getDoc(settingsRef);
+    const after = {
+      ...validationResult.data,
+      updatedBy: { id: auth.user.id, name: auth.user.name, role: auth.user.role },
+      updatedAt: serverTimestamp(),
+    };
+    await setDoc(settingsRef, after);
+
+    await recordAudit({
+      actor: auth.user,
+      entityType: 'settings',
+      entityId: 'branding',
+      entityLabel: 'Branding settings',
+      action: existingSnap.exists() ? 'update' : 'create',
+      before: existingSnap.exists() ? existingSnap.data() : null,
+      after,
+    });
+
+    revalidatePath('/settings');
+    return { success: true, message: "Branding saved. Documents downloaded from now on will use it." };
+  } catch (error) {
+    console.error("Error saving branding settings:", error);
+    return { success: false, message: "Failed to save branding settings due to a database error.", errors: null };
+  }
+}
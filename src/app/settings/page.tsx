@@ -0,0 +1,89 @@
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import { Home, Receipt, AlertTriangle, FileText } from 'lucide-react';
+import Link from 'next/link';
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import { format } from 'date-fns';
+import { getTaxSettings } from '@/lib/settings/tax-settings';
+import { TaxSettingsForm } from "@/components/settings/tax-settings-form";
+import { DEFAULT_BRANDING, getBrandingSettings } from '@/lib/settings/branding-settings';
+import { BrandingSettingsForm } from "@/components/settings/branding-settings-form";
+
+export default async function SettingsPage() {
+  const [{ settings, error }, { settings: branding, error: brandingError }] = await Promise.all([getTaxSettings(), getBrandingSettings()]);
+
+  return (
+    <div className="container mx-auto py-6 animate-subtle-fade-in space-y-6">
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild><Link href="/"><Home className="h-4 w-4"/></Link></BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbPage>Settings</BreadcrumbPage>
+          </BreadcrumbItem>
+        </BreadcrumbList>
+      </Breadcrumb>
+
+      <h1 className="text-3xl font-semibold text-foreground">Settings</h1>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Error Loading Settings</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+      {brandingError && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Error Loading Branding</AlertTitle>
+          <AlertDescription>{brandingError}</AlertDescription>
+        </Alert>
+      )}
+      {!settings && !error && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>GST Not Set Up</AlertTitle>
+          <AlertDescription>Orders are saved without tax until the home state is saved below.</AlertDescription>
+        </Alert>
+      )}
+
+      <Card className="max-w-2xl shadow-md border border-border/50">
+        <CardHeader>
+          <CardTitle className="text-xl flex items-center gap-2"><Receipt className="h-5 w-5 text-primary" /> GST</CardTitle>
+          <CardDescription>
+            Prices are before tax; GST is added per line at the item&apos;s rate. Outward supplies are summarised in the <Link href="/reports/gstr1" className="underline">GSTR-1 report</Link>.
+            {settings?.updatedAt && ` Last changed ${format(new Date(settings.updatedAt), 'PP')}${settings.updatedBy ? ` by ${settings.updatedBy.name}` : ''}.`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <TaxSettingsForm settings={settings} />
+        </CardContent>
+      </Card>
+
+      <Card className="max-w-2xl shadow-md border border-border/50">
+        <CardHeader>
+          <CardTitle className="text-xl flex items-center gap-2"><FileText className="h-5 w-5 text-primary" /> Documents</CardTitle>
+          <CardDescription>
+            Letterhead for invoices, packing slips and delivery notes. The GSTIN printed on invoices is the one saved above.
+            {branding?.updatedAt && ` Last changed ${format(new Date(branding.updatedAt), 'PP')}${branding.updatedBy ? ` by ${branding.updatedBy.name}` : ''}.`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <BrandingSettingsForm settings={branding ?? DEFAULT_BRANDING} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export const dynamic = 'force-dynamic';
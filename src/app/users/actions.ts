@@ -0,0 +1,136 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import {
+  db,
+  collection,
+  addDoc,
+  doc,
+  getDoc,
+  getDocs,
+  updateDoc,
+  query,
+  where,
+  limit,
+  serverTimestamp,
+} from '@/lib/firebase/firebase';
+import { CreateUserSchema, UserRoleEnum, type CreateUserInput, type UserRole } from '@/schemas/user';
+import { hashPassword } from '@/lib/auth/password';
+import { authorize } from '@/lib/auth/server';
+import type { AuthError } from '@/lib/auth/permissions';
+import { recordAudit } from '@/lib/audit';
+
+// Server Action to create a new staff account
+export async function createUserAction(
+  values: CreateUserInput
+): Promise<{ success: boolean; message: string; userId?: string; errors?: Record<string, string[]> | null; error?: AuthError }> {
+  if (!db) {
+    console.error("createUserAction: Firestore database is not initialized.");
+    return { success: false, message: "Database configuration error.", errors: null };
+  }
+
+  const auth = await authorize('users:manage');
+  if (!auth.ok) return { success: false, message: auth.message, errors: null, error: auth.error };
+
+  const validationResult = CreateUserSchema.safeParse(values);
+  if (!validationResult.success) {
+    console.error("Create user validation errors:", validationResult.error.flatten().fieldErrors);
+    return {
+      success: false,
+      message: "Validation failed. Please check the form fields.",
+      errors: validationResult.error.flatten().fieldErrors,
+    };
+  }
+  const { name, email, password, role } = validationResult.data;
+
+  try {
+    // Emails are the login identifier, so they must be unique
+    const existing = await getDocs(query(collection(db, 'users'), where('email', '==', email), limit(1)));
+    if (!existing.empty) {
+      return { success: false, message: "A user with this email already exists.", errors: { email: ["Email is already in use."] } };
+    }
+
+    const docRef = await addDoc(collection(db, 'users'), {
+      name,
+      email,
+      passwordHash: await hashPassword(password),
+      role,
+      active: true,
+      createdBy: auth.user.id,
+      createdAt: serverTimestamp(),
+    });
+    console.log(`User ${docRef.id} (${role}) created by ${auth.user.id}.`);
+
+    // passwordHash is deliberately left out of the audit entry
+    await recordAudit({
+      actor: auth.user,
+      entityType: 'user',
+      entityId: docRef.id,
+      entityLabel: name,
+      action: 'create',
+      before: null,
+      after: { name, email, role, active: true },
+    });
+
+    revalidatePath('/users');
+    return { success: true, message: `User "${name}" created successfully.`, userId: docRef.id, errors: null };
+  } catch (error) {
+    console.error("Error creating user:", error);
+    return { success: false, message: "Failed to create user. Please try again.", errors: null };
+  }
+}
+
+// Server Action to change a user's role or activate/deactivate them
+export async function updateUserAction(
+  userId: string,
+  changes: { role?: UserRole; active?: boolean }
+): Promise<{ success: boolean; message: string; error?: AuthError }> {
+  if (!db) {
+    console.error("updateUserAction: Firestore database is not initialized.");
+    return { success: false, message: "Database configuration error." };
+  }
+  if (!userId) return { success: false, message: "User ID is required." };
+
+  const auth = await authorize('users:manage');
+  if (!auth.ok) return { success: false, message: auth.message, error: auth.error };
+
+  // Owners can't lock themselves out
+  if (userId === auth.user.id && (changes.active === false || (changes.role && changes.role !== 'owner'))) {
+    return { success: false, message: "You cannot deactivate or demote your own account." };
+  }
+  if (changes.role && !UserRoleEnum.safeParse(changes.role).success) {
+    return { success: false, message: `Invalid role: ${changes.role}` };
+  }
+
+  const updateData: Record<string, any> = { updatedBy: auth.user.id, updatedAt: serverTimestamp() };
+  if (changes.role) updateData.role = changes.role;
+  if (typeof changes.active === 'boolean') updateData.active = changes.active;
+
+  try {
+    const userDocRef = doc(db, 'users', userId);
+    const userSnap = await getDoc(userDocRef);
+    if (!userSnap.exists()) {
+      return { success: false, message: "User not found." };
+    }
+
+    await updateDoc(userDocRef, updateData);
+    console.log(`User ${userId} updated by ${auth.user.id}:`, changes);
+
+    await recordAudit({
+      actor: auth.user,
+      entityType: 'user',
+      entityId: userId,
+      entityLabel: userSnap.data().name,
+      action: 'update',
+      before: userSnap.data(),
+      after: updateData,
+    });
+
+    // Open sessions pick up the new role or deactivation on their next request (see getCurrentUser)
+    revalidatePath('/users');
+    return { success: true, message: "User updated successfully." };
+  } catch (error) {
+    console.error(`Error updating user ${userId}:`, error);
+    return { success: false, message: "Failed to update user. Please try again." };
+  }
+}
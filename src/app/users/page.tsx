@@ -0,0 +1,101 @@
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import { Home, Users, AlertTriangle } from 'lucide-react';
+import Link from 'next/link';
+import { db, collection, getDocs, query, orderBy, Timestamp } from '@/lib/firebase/firebase';
+import type { User } from '@/schemas/user';
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import { getCurrentUser } from '@/lib/auth/server';
+import { AddUserForm } from "@/components/users/add-user-form";
+import { UsersTable } from "@/components/users/users-table";
+
+// Fetch all staff accounts. passwordHash is deliberately left out of the mapped result.
+async function getUsers(): Promise<{ users: User[]; error?: string }> {
+  if (!db) {
+    console.error("Firestore database is not initialized.");
+    return { users: [], error: "Database initialization failed. Please check configuration." };
+  }
+
+  try {
+    const usersQuery = query(collection(db, 'users'), orderBy('name', 'asc'));
+    const snapshot = await getDocs(usersQuery);
+    const users: User[] = snapshot.docs.map((docSnap) => {
+      const data = docSnap.data();
+      return {
+        id: docSnap.id,
+        name: data.name || 'Unnamed',
+        email: data.email || '',
+        role: data.role,
+        active: data.active !== false,
+        createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate().toISOString() : undefined,
+        lastLoginAt: data.lastLoginAt instanceof Timestamp ? data.lastLoginAt.toDate().toISOString() : undefined,
+      };
+    });
+    return { users };
+  } catch (error) {
+    console.error("Error fetching users from Firestore:", error);
+    return { users: [], error: "Failed to load users due to a database error." };
+  }
+}
+
+export default async function UsersPage() {
+  const [{ users, error }, currentUser] = await Promise.all([getUsers(), getCurrentUser()]);
+
+  return (
+    <div className="container mx-auto py-6 animate-subtle-fade-in space-y-6">
+      {/* Breadcrumbs */}
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild><Link href="/"><Home className="h-4 w-4"/></Link></BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbPage>Users</BreadcrumbPage>
+          </BreadcrumbItem>
+        </BreadcrumbList>
+      </Breadcrumb>
+
+      <h1 className="text-3xl font-semibold text-foreground">Users</h1>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Error Loading Users</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="lg:col-span-2 shadow-md border border-border/50">
+          <CardHeader>
+            <CardTitle className="text-xl flex items-center gap-2"><Users className="h-5 w-5 text-primary" /> Staff Accounts</CardTitle>
+            <CardDescription>Change roles or deactivate accounts. Deactivated users cannot log in.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <UsersTable users={users} currentUserId={currentUser?.id} />
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-md border border-border/50">
+          <CardHeader>
+            <CardTitle className="text-xl">Add User</CardTitle>
+            <CardDescription>Create a login for a staff member.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <AddUserForm />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+export const dynamic = 'force-dynamic';
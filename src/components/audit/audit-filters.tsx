@@ -0,0 +1,93 @@
+"use client";
+
+import * as React from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Filter, RotateCcw } from "lucide-react";
+import { AuditEntityTypeEnum } from "@/schemas/audit";
+
+interface AuditFiltersProps {
+  users: { id: string; name: string }[];
+}
+
+// Filters are kept in the URL so the server page can query with them and links can be shared
+export function AuditFilters({ users }: AuditFiltersProps) {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [entityType, setEntityType] = React.useState(searchParams.get('entity') || 'all');
+  const [entityId, setEntityId] = React.useState(searchParams.get('entityId') || '');
+  const [actorId, setActorId] = React.useState(searchParams.get('user') || 'all');
+  const [from, setFrom] = React.useState(searchParams.get('from') || '');
+  const [to, setTo] = React.useState(searchParams.get('to') || '');
+
+  const applyFilters = (event: React.FormEvent) => {
+    event.preventDefault();
+    const params = new URLSearchParams();
+    if (entityType !== 'all') params.set('entity', entityType);
+    if (entityId.trim()) params.set('entityId', entityId.trim());
+    if (actorId !== 'all') params.set('user', actorId);
+    if (from) params.set('from', from);
+    if (to) params.set('to', to);
+    const queryString = params.toString();
+    router.push(queryString ? `/audit?${queryString}` : '/audit');
+  };
+
+  const resetFilters = () => {
+    setEntityType('all');
+    setEntityId('');
+    setActorId('all');
+    setFrom('');
+    setTo('');
+    router.push('/audit');
+  };
+
+  return (
+    <form onSubmit={applyFilters} className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4 items-end">
+      <div className="space-y-2">
+        <Label>Entity</Label>
+        <Select value={entityType} onValueChange={setEntityType}>
+          <SelectTrigger><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Entities</SelectItem>
+            {AuditEntityTypeEnum.options.map((type) => (
+              <SelectItem key={type} value={type} className="capitalize">{type.replace('_', ' ')}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="audit-entity-id">Entity ID</Label>
+        <Input id="audit-entity-id" placeholder="Any" value={entityId} onChange={(e) => setEntityId(e.target.value)} />
+      </div>
+      <div className="space-y-2">
+        <Label>User</Label>
+        <Select value={actorId} onValueChange={setActorId}>
+          <SelectTrigger><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Users</SelectItem>
+            {users.map((user) => (
+              <SelectItem key={user.id} value={user.id}>{user.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="audit-from">From</Label>
+        <Input id="audit-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="audit-to">To</Label>
+        <Input id="audit-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+      </div>
+      <div className="flex gap-2">
+        <Button type="submit" className="flex-1"><Filter className="mr-2 h-4 w-4" /> Apply</Button>
+        <Button type="button" variant="outline" size="icon" onClick={resetFilters} aria-label="Reset filters">
+          <RotateCcw className="h-4 w-4" />
+        </Button>
+      </div>
+    </form>
+  );
+}
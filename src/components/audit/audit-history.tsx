@@ -0,0 +1,146 @@
+import Link from "next/link";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { AuditAction, AuditEntry } from "@/schemas/audit";
+
+interface AuditHistoryProps {
+  entries: AuditEntry[];
+  showEntity?: boolean; // Show the entity column (used on the global /audit page)
+  emptyMessage?: string;
+}
+
+const actionLabels: Record<AuditAction, string> = {
+  create: 'Created',
+  update: 'Updated',
+  delete: 'Deleted',
+  status_change: 'Status Changed',
+  cancel: 'Cancelled',
+  link_shipment: 'Shipment Linked',
+  receive: 'Goods Received',
+  record_payment: 'Payment Recorded',
+  void_payment: 'Payment Voided',
+  refund: 'Refunded',
+  issue_invoice: 'Invoice Issued',
+};
+
+const getActionVariant = (action: AuditAction): "default" | "secondary" | "outline" | "destructive" => {
+  switch (action) {
+    case 'create':
+      return 'default';
+    case 'delete':
+    case 'cancel':
+    case 'void_payment':
+      return 'destructive';
+    case 'status_change':
+    case 'link_shipment':
+    case 'receive':
+    case 'record_payment':
+    case 'refund':
+    case 'issue_invoice':
+      return 'outline';
+    default:
+      return 'secondary';
+  }
+};
+
+// Link to the entity's detail page where one exists
+const getEntityHref = (entry: AuditEntry): string | null => {
+  switch (entry.entityType) {
+    case 'inventory':
+      return entry.action === 'delete' ? null : `/inventory/${entry.entityId}`;
+    case 'order':
+      return `/orders/${entry.entityId}`;
+    case 'shipment':
+      return `/logistics/${entry.entityId}`;
+    case 'supplier':
+      return `/purchasing/suppliers/${entry.entityId}`;
+    case 'purchase_order':
+      return `/purchasing/${entry.entityId}`;
+    case 'location':
+      return '/inventory/locations';
+    case 'transfer_order':
+      return `/inventory/transfers/${entry.entityId}`;
+    case 'settings':
+      return '/settings';
+    case 'promo_code':
+      return '/promotions';
+    case 'return':
+      return '/orders/returns';
+    case 'quote':
+      return `/quotes/${entry.entityId}`;
+    case 'customer':
+      return `/customers/${entry.entityId}`;
+    default:
+      return null;
+  }
+};
+
+// Compact rendering of a before/after value
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'number') return Number.isInteger(value) ? String(value) : value.toFixed(2);
+  if (typeof value === 'string') return value.length > 80 ? `${value.substring(0, 77)}...` : value;
+  if (Array.isArray(value)) return `${value.length} item${value.length === 1 ? '' : 's'}`;
+  return JSON.stringify(value);
+};
+
+export function AuditHistory({ entries, showEntity = false, emptyMessage = "No changes recorded yet." }: AuditHistoryProps) {
+  if (entries.length === 0) {
+    return <p className="text-sm text-muted-foreground italic text-center py-6">{emptyMessage}</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-[170px]">When</TableHead>
+          {showEntity && <TableHead>Entity</TableHead>}
+          <TableHead>Action</TableHead>
+          <TableHead>By</TableHead>
+          <TableHead>Changes</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {entries.map((entry) => {
+          const entityHref = getEntityHref(entry);
+          return (
+            <TableRow key={entry.id} className="align-top">
+              <TableCell className="text-sm text-muted-foreground whitespace-nowrap">{format(new Date(entry.timestamp), 'PP p')}</TableCell>
+              {showEntity && (
+                <TableCell className="text-sm">
+                  <div className="capitalize text-xs text-muted-foreground">{entry.entityType.replace('_', ' ')}</div>
+                  {entityHref ? (
+                    <Link href={entityHref} className="text-primary hover:underline">{entry.entityLabel || `${entry.entityId.substring(0, 8)}...`}</Link>
+                  ) : (
+                    <span>{entry.entityLabel || `${entry.entityId.substring(0, 8)}...`}</span>
+                  )}
+                </TableCell>
+              )}
+              <TableCell><Badge variant={getActionVariant(entry.action)}>{actionLabels[entry.action] || entry.action}</Badge></TableCell>
+              <TableCell className="text-sm">
+                <div className="font-medium">{entry.actor?.name || 'Unknown'}</div>
+                <div className="text-xs text-muted-foreground capitalize">{entry.actor?.role}</div>
+              </TableCell>
+              <TableCell className="text-sm">
+                {entry.changes.length === 0 ? (
+                  <span className="text-muted-foreground italic">No field changes</span>
+                ) : (
+                  <ul className="space-y-1">
+                    {entry.changes.map((change) => (
+                      <li key={change.field}>
+                        <span className="font-mono text-xs text-muted-foreground">{change.field}</span>{' '}
+                        <span className="line-through text-muted-foreground">{formatValue(change.before)}</span>{' → '}
+                        <span className="font-medium">{formatValue(change.after)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
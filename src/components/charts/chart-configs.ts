@@ -77,3 +77,10 @@ export const orderStatusChartConfig = {
       color: "hsl(var(--muted))",
    }
 } satisfies ChartConfig
+
+export const stockBalanceChartConfig = {
+  balance: {
+    label: "Stock",
+    color: "hsl(var(--chart-3))",
+  },
+} satisfies ChartConfig
@@ -0,0 +1,63 @@
+"use client"
+
+import * as React from "react"
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts"
+import { format } from "date-fns"
+
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart"
+
+export interface StockBalancePoint {
+  date: string; // ISO string of the movement
+  balance: number; // Stock right after the movement
+}
+
+interface StockBalanceLineChartProps {
+  data: StockBalancePoint[]; // Oldest first
+  config: ChartConfig;
+}
+
+// Running stock balance from the movement ledger; a step line since stock only changes at each movement
+export function StockBalanceLineChart({ data, config }: StockBalanceLineChartProps) {
+  return (
+    <ChartContainer config={config} className="min-h-[220px] w-full">
+      <LineChart
+        accessibilityLayer
+        data={data}
+        margin={{ top: 20, right: 20, left: 0, bottom: 10 }}
+      >
+        <CartesianGrid vertical={false} />
+        <YAxis
+          dataKey="balance"
+          tickLine={false}
+          axisLine={false}
+          tickMargin={8}
+          allowDecimals={false}
+        />
+        <XAxis
+          dataKey="date"
+          tickLine={false}
+          axisLine={false}
+          tickMargin={8}
+          minTickGap={24}
+          tickFormatter={(value) => format(new Date(value), 'd MMM')}
+        />
+        <ChartTooltip
+          cursor={false}
+          content={<ChartTooltipContent labelFormatter={(_, payload) => payload?.[0] ? format(new Date(payload[0].payload.date), 'PP p') : ''} />}
+        />
+        <Line
+          dataKey="balance"
+          type="stepAfter"
+          stroke="var(--color-balance)"
+          strokeWidth={2}
+          dot={{ r: 3 }}
+        />
+      </LineChart>
+    </ChartContainer>
+  )
+}
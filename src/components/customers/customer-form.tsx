@@ -0,0 +1,380 @@
+"use client";
+
+import * as React from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useFieldArray, useForm } from "react-hook-form";
+import { useRouter } from "next/navigation";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardFooter } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { createCustomerAction, updateCustomerAction } from "@/app/customers/actions";
+import {
+  CUSTOMER_TYPE_LABELS,
+  CustomerSchema,
+  CustomerTypeEnum,
+  PAYMENT_TERMS_LABELS,
+  PRICE_TIERS,
+  PaymentTermsEnum,
+  PriceTierEnum,
+  type Customer,
+  type CustomerInput,
+} from "@/schemas/customer";
+import { Loader2, PlusCircle, Trash2 } from "lucide-react";
+
+interface CustomerFormProps {
+  customer?: Customer; // Edit this customer; otherwise add a new one
+}
+
+const EMPTY_ADDRESS = { kind: 'shipping' as const, label: '', address: '', city: '', state: '', zipCode: '' };
+const EMPTY_CONTACT = { name: '', role: '', email: '', phone: '' };
+
+export function CustomerForm({ customer }: CustomerFormProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const { can } = useCurrentUser();
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const canManageAccounts = can('accounts:manage');
+
+  const form = useForm<CustomerInput>({
+    resolver: zodResolver(CustomerSchema),
+    defaultValues: {
+      name: customer?.name || "",
+      email: customer?.email || "",
+      phone: customer?.phone || "",
+      gstin: customer?.gstin || "",
+      type: customer?.type || "retail",
+      taxExempt: customer?.taxExempt ?? false,
+      notes: customer?.notes || "",
+      contacts: customer?.contacts ?? [],
+      addresses: customer?.addresses.length ? customer.addresses : [EMPTY_ADDRESS],
+      priceTier: customer?.priceTier ?? "standard",
+      paymentTerms: customer?.paymentTerms ?? "due_on_order",
+      creditLimit: customer?.creditLimit ?? 0,
+    },
+  });
+  const addresses = useFieldArray({ control: form.control, name: "addresses" });
+  const contacts = useFieldArray({ control: form.control, name: "contacts" });
+
+  const onSubmit = async (values: CustomerInput) => {
+    setIsSubmitting(true);
+    try {
+      const result = customer ? await updateCustomerAction(customer.id, values) : await createCustomerAction(values);
+      if (result.success) {
+        toast({ title: customer ? "Customer Updated" : "Customer Added", description: result.message });
+        router.push(`/customers/${result.customerId}`);
+        router.refresh();
+      } else {
+        if (result.errors) {
+          Object.entries(result.errors).forEach(([field, messages]) => {
+            if (Array.isArray(messages)) form.setError(field as keyof CustomerInput, { type: 'server', message: messages.join(', ') });
+          });
+        }
+        toast({ variant: "destructive", title: "Save Failed", description: result.message });
+      }
+    } catch (error) {
+      console.error("Error saving customer:", error);
+      toast({ variant: "destructive", title: "Error", description: "An unexpected error occurred while saving the customer." });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className="max-w-4xl mx-auto shadow-md">
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)}>
+          <CardContent className="space-y-8 pt-6">
+            <div className="space-y-4">
+              <h3 className="text-lg font-semibold border-b pb-2">Customer</h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Name *</FormLabel>
+                      <FormControl><Input placeholder="e.g., Priya Sharma or Sharma Interiors" {...field} disabled={isSubmitting} /></FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="type"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Type *</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value} disabled={isSubmitting}>
+                        <FormControl>
+                          <SelectTrigger><SelectValue /></SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {CustomerTypeEnum.options.map((type) => (
+                            <SelectItem key={type} value={type}>{CUSTOMER_TYPE_LABELS[type]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email</FormLabel>
+                      <FormControl><Input type="email" {...field} value={field.value ?? ''} disabled={isSubmitting} /></FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="phone"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Phone</FormLabel>
+                      <FormControl><Input type="tel" {...field} value={field.value ?? ''} disabled={isSubmitting} /></FormControl>
+                      <FormDescription>Orders are matched to customers on email, then phone.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="gstin"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>GSTIN</FormLabel>
+                      <FormControl><Input placeholder="e.g., 27ABCDE1234F1Z5" {...field} value={field.value ?? ''} disabled={isSubmitting} /></FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="taxExempt"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4">
+                      <FormControl>
+                        <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} disabled={isSubmitting} />
+                      </FormControl>
+                      <div className="space-y-1 leading-none">
+                        <FormLabel>Tax exempt</FormLabel>
+                        <FormDescription>Orders and quotes for this customer are saved without GST.</FormDescription>
+                      </div>
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="notes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Notes</FormLabel>
+                    <FormControl><Textarea rows={3} placeholder="e.g., Prefers delivery after 6pm." {...field} value={field.value ?? ''} disabled={isSubmitting} /></FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="space-y-4">
+              <h3 className="text-lg font-semibold border-b pb-2">Trade Account</h3>
+              <p className="text-sm text-muted-foreground">
+                {canManageAccounts
+                  ? "Customers on Net 15 or Net 30 terms are invoiced on account and pay by the due date, up to their credit limit."
+                  : "Only someone who manages trade accounts can change these."}
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="priceTier"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Price Tier</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value} disabled={isSubmitting || !canManageAccounts}>
+                        <FormControl>
+                          <SelectTrigger><SelectValue /></SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {PriceTierEnum.options.map((tier) => (
+                            <SelectItem key={tier} value={tier}>
+                              {PRICE_TIERS[tier].label}{PRICE_TIERS[tier].percentOff > 0 && ` (${PRICE_TIERS[tier].percentOff}% off)`}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="paymentTerms"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Payment Terms</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value} disabled={isSubmitting || !canManageAccounts}>
+                        <FormControl>
+                          <SelectTrigger><SelectValue /></SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {PaymentTermsEnum.options.map((terms) => (
+                            <SelectItem key={terms} value={terms}>{PAYMENT_TERMS_LABELS[terms]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="creditLimit"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Credit Limit (₹)</FormLabel>
+                      <FormControl><Input type="number" min="0" step="1" {...field} disabled={isSubmitting || !canManageAccounts} /></FormControl>
+                      <FormDescription>The most they may owe across open orders.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-4">
+              <div className="flex items-center justify-between border-b pb-2">
+                <h3 className="text-lg font-semibold">Addresses</h3>
+                <Button type="button" variant="outline" size="sm" onClick={() => addresses.append(EMPTY_ADDRESS)} disabled={isSubmitting || addresses.fields.length >= 10}>
+                  <PlusCircle className="mr-2 h-4 w-4" /> Add Address
+                </Button>
+              </div>
+              <p className="text-sm text-muted-foreground">The first shipping address is filled in on new orders; others can be picked on the order form.</p>
+              {addresses.fields.map((address, index) => (
+                <div key={address.id} className="grid grid-cols-1 md:grid-cols-6 gap-3 rounded-md border p-3">
+                  <FormField
+                    control={form.control}
+                    name={`addresses.${index}.kind`}
+                    render={({ field }) => (
+                      <FormItem className="md:col-span-2">
+                        <FormLabel>Kind</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value} disabled={isSubmitting}>
+                          <FormControl>
+                            <SelectTrigger><SelectValue /></SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="shipping">Shipping</SelectItem>
+                            <SelectItem value="billing">Billing</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`addresses.${index}.label`}
+                    render={({ field }) => (
+                      <FormItem className="md:col-span-3">
+                        <FormLabel>Label</FormLabel>
+                        <FormControl><Input placeholder="e.g., Site office" {...field} value={field.value ?? ''} disabled={isSubmitting} /></FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <div className="flex items-end justify-end">
+                    <Button type="button" variant="ghost" size="icon" onClick={() => addresses.remove(index)} disabled={isSubmitting} aria-label="Remove address">
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                  <FormField
+                    control={form.control}
+                    name={`addresses.${index}.address`}
+                    render={({ field }) => (
+                      <FormItem className="md:col-span-6">
+                        <FormLabel>Address *</FormLabel>
+                        <FormControl><Input {...field} disabled={isSubmitting} /></FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  {(['city', 'state', 'zipCode'] as const).map((part) => (
+                    <FormField
+                      key={part}
+                      control={form.control}
+                      name={`addresses.${index}.${part}`}
+                      render={({ field }) => (
+                        <FormItem className="md:col-span-2">
+                          <FormLabel>{part === 'zipCode' ? 'Zip Code' : part === 'city' ? 'City' : 'State'} *</FormLabel>
+                          <FormControl><Input {...field} disabled={isSubmitting} /></FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  ))}
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-4">
+              <div className="flex items-center justify-between border-b pb-2">
+                <h3 className="text-lg font-semibold">Contacts</h3>
+                <Button type="button" variant="outline" size="sm" onClick={() => contacts.append(EMPTY_CONTACT)} disabled={isSubmitting || contacts.fields.length >= 10}>
+                  <PlusCircle className="mr-2 h-4 w-4" /> Add Contact
+                </Button>
+              </div>
+              {contacts.fields.length === 0 && <p className="text-sm text-muted-foreground">No other contacts, e.g. a site manager or the designer&apos;s assistant.</p>}
+              {contacts.fields.map((contact, index) => (
+                <div key={contact.id} className="grid grid-cols-1 md:grid-cols-9 gap-3 rounded-md border p-3">
+                  {(['name', 'role', 'email', 'phone'] as const).map((part) => (
+                    <FormField
+                      key={part}
+                      control={form.control}
+                      name={`contacts.${index}.${part}`}
+                      render={({ field }) => (
+                        <FormItem className="md:col-span-2">
+                          <FormLabel>{{ name: 'Name *', role: 'Role', email: 'Email', phone: 'Phone' }[part]}</FormLabel>
+                          <FormControl><Input {...field} value={field.value ?? ''} disabled={isSubmitting} /></FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  ))}
+                  <div className="flex items-end justify-end">
+                    <Button type="button" variant="ghost" size="icon" onClick={() => contacts.remove(index)} disabled={isSubmitting} aria-label="Remove contact">
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+          <CardFooter className="flex justify-end">
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {customer ? "Save Customer" : "Add Customer"}
+            </Button>
+          </CardFooter>
+        </form>
+      </Form>
+    </Card>
+  );
+}
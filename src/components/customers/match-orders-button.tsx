@@ -0,0 +1,71 @@
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { matchOrdersToCustomersAction } from "@/app/customers/actions";
+import { Link2, Loader2 } from "lucide-react";
+
+export function MatchOrdersButton() {
+  const router = useRouter();
+  const { toast } = useToast();
+  const { can } = useCurrentUser();
+  const [isMatching, setIsMatching] = React.useState(false);
+
+  if (!can('customers:manage')) return null;
+
+  const handleMatch = async () => {
+    setIsMatching(true);
+    try {
+      const result = await matchOrdersToCustomersAction();
+      if (result.success) {
+        toast({ title: "Orders Matched", description: result.message });
+        router.refresh();
+      } else {
+        toast({ variant: "destructive", title: "Matching Failed", description: result.message });
+      }
+    } catch (error) {
+      console.error("Error matching orders to customers:", error);
+      toast({ variant: "destructive", title: "Error", description: "An unexpected error occurred while matching orders." });
+    } finally {
+      setIsMatching(false);
+    }
+  };
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button variant="outline" disabled={isMatching}>
+          {isMatching ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Link2 className="mr-2 h-4 w-4" />}
+          Match Existing Orders
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Match orders to customers?</AlertDialogTitle>
+          <AlertDialogDescription>
+            Orders without a customer are linked to the customer with the same email, or failing that the same phone number.
+            Orders that match nobody start a new retail customer, and new shipping addresses are saved on their customer.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={handleMatch}>Match Orders</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -22,11 +22,24 @@ import { Card, CardContent, CardHeader, CardDescription, CardFooter } from "@/co
 import { useToast } from "@/hooks/use-toast";
 import { addItemAction } from "@/app/inventory/actions";
 import { AddItemSchema, type AddItemInput } from "@/schemas/inventory"; // Use AddItemInput directly
+import { GST_RATES } from "@/schemas/tax";
 import { Loader2, Upload, AlertCircle } from "lucide-react";
 import { Separator } from "@/components/ui/separator";
+import { ItemOptionsFields } from "@/components/inventory/item-options-fields";
 import { Alert, AlertTitle } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { Supplier } from "@/schemas/supplier";
 
-export function AddItemForm() {
+// Select items can't have an empty value; stands for "no supplier" (stored as '')
+const NO_SUPPLIER = 'none';
+// Stands for "use the default rate from tax settings" (no rate stored)
+const DEFAULT_GST_RATE = 'default';
+
+interface AddItemFormProps {
+  suppliers: Pick<Supplier, 'id' | 'name'>[];
+}
+
+export function AddItemForm({ suppliers }: AddItemFormProps) {
   const router = useRouter();
   const { toast } = useToast();
   const [isSubmitting, setIsSubmitting] = React.useState(false);
@@ -46,7 +59,14 @@ export function AddItemForm() {
       weight: "",
       stock: 0,
       price: 0,
+      hsnCode: "",
+      gstRate: undefined,
       leadTime: "",
+      leadTimeDays: undefined,
+      reorderPoint: undefined,
+      reorderQuantity: undefined,
+      supplierId: "",
+      supplierSku: "",
       description: "",
       imageUrl: "", // Keep imageUrl for potential URL input
       // imageHint removed
@@ -385,6 +405,41 @@ export function AddItemForm() {
                       </FormItem>
                     )}
                   />
+                    <FormField
+                     control={form.control}
+                     name="hsnCode"
+                     render={({ field }) => (
+                       <FormItem>
+                         <FormLabel>HSN Code</FormLabel>
+                         <FormControl>
+                           <Input placeholder="e.g., 4418" {...field} value={field.value ?? ''} aria-invalid={!!form.formState.errors.hsnCode} />
+                         </FormControl>
+                         <FormDescription>Printed on invoices and the GST report.</FormDescription>
+                         <FormMessage />
+                       </FormItem>
+                     )}
+                   />
+                    <FormField
+                     control={form.control}
+                     name="gstRate"
+                     render={({ field }) => (
+                       <FormItem>
+                         <FormLabel>GST Rate</FormLabel>
+                         <Select value={field.value === undefined ? DEFAULT_GST_RATE : String(field.value)} onValueChange={(value) => field.onChange(value === DEFAULT_GST_RATE ? undefined : Number(value))}>
+                           <FormControl>
+                             <SelectTrigger><SelectValue /></SelectTrigger>
+                           </FormControl>
+                           <SelectContent>
+                             <SelectItem value={DEFAULT_GST_RATE}>Default rate</SelectItem>
+                             {GST_RATES.map((rate) => (
+                               <SelectItem key={rate} value={String(rate)}>{rate}%</SelectItem>
+                             ))}
+                           </SelectContent>
+                         </Select>
+                         <FormMessage />
+                       </FormItem>
+                     )}
+                   />
                     <FormField
                      control={form.control}
                      name="leadTime"
@@ -398,9 +453,92 @@ export function AddItemForm() {
                        </FormItem>
                      )}
                    />
+                    <FormField
+                     control={form.control}
+                     name="leadTimeDays"
+                     render={({ field }) => (
+                       <FormItem>
+                         <FormLabel>Lead Time (Days)</FormLabel>
+                         <FormControl>
+                           <Input type="number" min={0} step={1} placeholder="e.g., 14" {...field} value={field.value ?? ''} onChange={e => field.onChange(e.target.value === '' ? undefined : parseInt(e.target.value, 10))} aria-invalid={!!form.formState.errors.leadTimeDays} />
+                         </FormControl>
+                         <FormDescription>Used to estimate when backordered and made-to-order lines will be ready.</FormDescription>
+                         <FormMessage />
+                       </FormItem>
+                     )}
+                   />
+                    <FormField
+                     control={form.control}
+                     name="supplierId"
+                     render={({ field }) => (
+                       <FormItem>
+                         <FormLabel>Supplier</FormLabel>
+                         <Select value={field.value || NO_SUPPLIER} onValueChange={(value) => field.onChange(value === NO_SUPPLIER ? '' : value)}>
+                           <FormControl>
+                             <SelectTrigger><SelectValue /></SelectTrigger>
+                           </FormControl>
+                           <SelectContent>
+                             <SelectItem value={NO_SUPPLIER}>No supplier</SelectItem>
+                             {suppliers.map((supplier) => (
+                               <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+                             ))}
+                           </SelectContent>
+                         </Select>
+                         <FormMessage />
+                       </FormItem>
+                     )}
+                   />
+                    <FormField
+                     control={form.control}
+                     name="supplierSku"
+                     render={({ field }) => (
+                       <FormItem>
+                         <FormLabel>Supplier Code</FormLabel>
+                         <FormControl>
+                           <Input placeholder="The supplier's SKU for this item" {...field} value={field.value ?? ''} />
+                         </FormControl>
+                         <FormMessage />
+                       </FormItem>
+                     )}
+                   />
+                    <FormField
+                     control={form.control}
+                     name="reorderPoint"
+                     render={({ field }) => (
+                       <FormItem>
+                         <FormLabel>Reorder Point</FormLabel>
+                         <FormControl>
+                           <Input type="number" min={0} step={1} placeholder="Worked out from sales" {...field} value={field.value ?? ''} onChange={e => field.onChange(e.target.value === '' ? undefined : parseInt(e.target.value, 10))} aria-invalid={!!form.formState.errors.reorderPoint} />
+                         </FormControl>
+                         <FormDescription>Reorder when available plus on-order stock falls to this. Leave empty to use sales velocity.</FormDescription>
+                         <FormMessage />
+                       </FormItem>
+                     )}
+                   />
+                    <FormField
+                     control={form.control}
+                     name="reorderQuantity"
+                     render={({ field }) => (
+                       <FormItem>
+                         <FormLabel>Reorder Quantity</FormLabel>
+                         <FormControl>
+                           <Input type="number" min={1} step={1} placeholder="Worked out from sales" {...field} value={field.value ?? ''} onChange={e => field.onChange(e.target.value === '' ? undefined : parseInt(e.target.value, 10))} aria-invalid={!!form.formState.errors.reorderQuantity} />
+                         </FormControl>
+                         <FormDescription>Usual quantity to buy at a time, such as the supplier's minimum.</FormDescription>
+                         <FormMessage />
+                       </FormItem>
+                     )}
+                   />
                 </div>
             </div>
 
+             {/* Options Section - priced on top of the item's price when ordered */}
+             <div className="space-y-4">
+                <h3 className="text-lg font-semibold border-b pb-2">Options (Optional)</h3>
+                 <p className="text-sm text-muted-foreground">Choices offered on order lines. Each adds its amount to the price above.</p>
+                 <ItemOptionsFields />
+             </div>
+
              {/* Media Section - URL Input or File Upload */}
              <div className="space-y-4">
                 <h3 className="text-lg font-semibold border-b pb-2">Media (Optional)</h3>
@@ -0,0 +1,151 @@
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  CATALOGUE_FACET_KEYS,
+  CATALOGUE_FACET_LABELS,
+  CATALOGUE_SORTS,
+  DEFAULT_CATALOGUE_PARAMS,
+  getCatalogueHref,
+  hasCatalogueFilters,
+  type CatalogueFacetKey,
+  type CatalogueFacets,
+  type CatalogueParams,
+  type CatalogueSort,
+} from "@/lib/inventory/catalogue";
+import { ArrowDownUp, Loader2, MapPin, Search, X } from "lucide-react";
+
+// Select items can't have an empty value; stands for "any"
+const ANY = 'all';
+
+interface CatalogueSearchBarProps {
+  params: CatalogueParams;
+  locations: { id: string; name: string }[];
+}
+
+// SKU search, location and sort. Like the facets, they're kept in the URL (see getCatalogueHref) so the
+// server page queries with them and the view can be bookmarked.
+export function CatalogueSearchBar({ params, locations }: CatalogueSearchBarProps) {
+  const router = useRouter();
+  const [search, setSearch] = React.useState(params.search ?? '');
+
+  const applySearch = (event: React.FormEvent) => {
+    event.preventDefault();
+    router.push(getCatalogueHref(params, { search: search.trim().toUpperCase() || undefined }));
+  };
+
+  return (
+    <div className="flex flex-col md:flex-row gap-4 items-center">
+      <form onSubmit={applySearch} className="relative flex-grow w-full md:w-auto">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          placeholder="SKU starts with... (press Enter)"
+          className="pl-10"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          aria-label="Search by SKU"
+        />
+      </form>
+      <div className="flex flex-col sm:flex-row gap-4 w-full md:w-auto">
+        <Select
+          value={params.locationId ?? ANY}
+          onValueChange={(value) => router.push(getCatalogueHref(params, { locationId: value === ANY ? undefined : value }))}
+          disabled={locations.length < 2} // Nothing to filter with a single location
+        >
+          <SelectTrigger className="w-full sm:w-[180px]">
+            <MapPin className="mr-2 h-4 w-4 text-muted-foreground inline" />
+            <SelectValue placeholder="Filter by Location" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>All Locations</SelectItem>
+            {locations.map((location) => (
+              <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={params.sort} onValueChange={(value) => router.push(getCatalogueHref(params, { sort: value as CatalogueSort }))}>
+          <SelectTrigger className="w-full sm:w-[200px]">
+            <ArrowDownUp className="mr-2 h-4 w-4 text-muted-foreground inline" />
+            <SelectValue placeholder="Sort" />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(CATALOGUE_SORTS) as CatalogueSort[]).map((sort) => (
+              <SelectItem key={sort} value={sort}>{CATALOGUE_SORTS[sort].label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
+
+interface CatalogueFacetPanelProps {
+  params: CatalogueParams;
+  facets: CatalogueFacets | null; // Null when they couldn't be counted
+}
+
+// Any number of values can be ticked in each facet: values within a facet widen the results, facets
+// narrow each other. Counts are what ticking the value would give on its own.
+export function CatalogueFacetPanel({ params, facets }: CatalogueFacetPanelProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = React.useTransition();
+
+  const toggleValue = (facet: CatalogueFacetKey, value: string, checked: boolean) => {
+    const current = params[facet] as string[];
+    const values = checked ? [...current, value] : current.filter((entry) => entry !== value);
+    startTransition(() => router.push(getCatalogueHref(params, { [facet]: values })));
+  };
+
+  const clearFilters = () =>
+    startTransition(() => router.push(getCatalogueHref({ ...DEFAULT_CATALOGUE_PARAMS, sort: params.sort, view: params.view })));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold flex items-center gap-2">
+          Filters {isPending && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+        </h2>
+        {hasCatalogueFilters(params) && (
+          <Button type="button" variant="ghost" size="sm" onClick={clearFilters}><X className="mr-1 h-4 w-4" /> Clear</Button>
+        )}
+      </div>
+      {!facets ? (
+        <p className="text-sm text-muted-foreground italic">Facet counts aren&apos;t available for this search.</p>
+      ) : (
+        CATALOGUE_FACET_KEYS.map((facet) => (
+          <fieldset key={facet} className="space-y-2">
+            <legend className="text-sm font-medium mb-2">{CATALOGUE_FACET_LABELS[facet]}</legend>
+            {facets[facet].length === 0 ? (
+              <p className="text-xs text-muted-foreground italic">None to choose from.</p>
+            ) : (
+              facets[facet].map((option) => {
+                const id = `facet-${facet}-${option.value}`;
+                return (
+                  <div key={option.value} className="flex items-center gap-2">
+                    <Checkbox
+                      id={id}
+                      checked={option.selected}
+                      onCheckedChange={(checked) => toggleValue(facet, option.value, checked === true)}
+                      disabled={isPending || (option.count === 0 && !option.selected)}
+                    />
+                    <Label htmlFor={id} className={`flex-grow font-normal ${option.count === 0 && !option.selected ? 'text-muted-foreground' : ''}`}>
+                      {option.label}
+                    </Label>
+                    <span className="text-xs text-muted-foreground tabular-nums">{option.count}</span>
+                  </div>
+                );
+              })
+            )}
+          </fieldset>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+"use client";
+
+import * as React from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useFieldArray, useForm, useWatch, type FieldPath } from "react-hook-form";
+import { useRouter } from "next/navigation";
+
+import { Button } from "@/components/ui/button";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
+import { createTransferOrderAction } from "@/app/inventory/actions";
+import { TransferOrderSchema, type TransferOrderInput } from "@/schemas/transfer-order";
+import type { Location } from "@/schemas/location";
+import { getStockAtLocation } from "@/lib/inventory/location-stock";
+import { Loader2, PlusCircle, Trash2, AlertTriangle } from "lucide-react";
+
+// Inventory item offered on transfer lines
+export interface TransferableItem {
+  id: string;
+  name: string;
+  sku: string;
+  stock: number;
+  stockByLocation?: Record<string, number>;
+}
+
+interface CreateTransferOrderFormProps {
+  locations: Location[];
+  inventoryItems: TransferableItem[];
+  fetchError?: string;
+}
+
+export function CreateTransferOrderForm({ locations, inventoryItems, fetchError }: CreateTransferOrderFormProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const itemsById = React.useMemo(() => new Map(inventoryItems.map((item) => [item.id, item])), [inventoryItems]);
+
+  const form = useForm<TransferOrderInput>({
+    resolver: zodResolver(TransferOrderSchema),
+    defaultValues: {
+      fromLocationId: locations[0]?.id ?? "",
+      toLocationId: locations[1]?.id ?? "",
+      notes: "",
+      items: [{ inventoryId: "", quantity: 1 }],
+    },
+  });
+
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: "items" });
+  const lines = useWatch({ control: form.control, name: 'items' });
+  const fromLocationId = useWatch({ control: form.control, name: 'fromLocationId' });
+
+  // Items held at the source location first
+  const sortedItems = React.useMemo(
+    () => [...inventoryItems].sort((a, b) =>
+      Number(getStockAtLocation(b, fromLocationId) > 0) - Number(getStockAtLocation(a, fromLocationId) > 0) || a.name.localeCompare(b.name)
+    ),
+    [inventoryItems, fromLocationId]
+  );
+
+  async function onSubmit(values: TransferOrderInput) {
+    setIsSubmitting(true);
+    try {
+      const result = await createTransferOrderAction(values);
+      if (result.success && result.transferId) {
+        toast({ title: "Transfer Drafted", description: "Dispatch it from its page when the stock leaves." });
+        router.push(`/inventory/transfers/${result.transferId}`);
+      } else {
+        toast({ variant: "destructive", title: "Failed to Draft Transfer", description: result.message });
+        if (result.errors) {
+          Object.entries(result.errors).forEach(([field, messages]) => {
+            if (field === 'items' && messages && typeof messages === 'object' && !Array.isArray(messages)) {
+              Object.entries(messages as Record<string, string[]>).forEach(([path, lineMessages]) => {
+                form.setError(`items.${path}` as FieldPath<TransferOrderInput>, { type: 'server', message: lineMessages.join(', ') });
+              });
+            } else if (Array.isArray(messages)) {
+              form.setError(field as keyof TransferOrderInput, { type: 'server', message: messages.join(', ') });
+            }
+          });
+        }
+      }
+    } catch (error) {
+      console.error("Error drafting transfer order:", error);
+      toast({ variant: "destructive", title: "Error", description: "An unexpected error occurred while drafting the transfer." });
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  if (fetchError) {
+    return (
+      <Alert variant="destructive">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertTitle>Error Loading Data</AlertTitle>
+        <AlertDescription>{fetchError}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (locations.length < 2) {
+    return (
+      <Alert>
+        <AlertTriangle className="h-4 w-4" />
+        <AlertTitle>Only One Location</AlertTitle>
+        <AlertDescription>Add another location before drafting a transfer.</AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <Card className="shadow-md">
+      <CardHeader>
+        <CardTitle>New Transfer</CardTitle>
+        <CardDescription>The transfer is saved as a draft; stock only moves when it&apos;s dispatched and received.</CardDescription>
+      </CardHeader>
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)}>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {(['fromLocationId', 'toLocationId'] as const).map((name) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{name === 'fromLocationId' ? 'From *' : 'To *'}</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange} disabled={isSubmitting}>
+                        <FormControl>
+                          <SelectTrigger><SelectValue placeholder="Select a location" /></SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {locations.map((location) => (
+                            <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+
+            <div className="space-y-4">
+              <h3 className="text-lg font-semibold border-b pb-2">Items</h3>
+              {fields.map((field, index) => {
+                const selected = itemsById.get(lines[index]?.inventoryId);
+                const available = selected ? getStockAtLocation(selected, fromLocationId) : 0;
+                return (
+                  <div key={field.id} className="grid grid-cols-1 md:grid-cols-[3fr_1fr_auto] gap-4 items-start border-b pb-4">
+                    <FormField
+                      control={form.control}
+                      name={`items.${index}.inventoryId`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Item *</FormLabel>
+                          <Select value={field.value} onValueChange={field.onChange} disabled={isSubmitting}>
+                            <FormControl>
+                              <SelectTrigger><SelectValue placeholder="Select an item" /></SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {sortedItems.map((item) => (
+                                <SelectItem key={item.id} value={item.id}>
+                                  {item.name} ({item.sku}) - Here: {getStockAtLocation(item, fromLocationId)}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`items.${index}.quantity`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Quantity *</FormLabel>
+                          <FormControl>
+                            <Input type="number" min={1} {...field} onChange={e => field.onChange(parseInt(e.target.value, 10) || 1)} disabled={isSubmitting} />
+                          </FormControl>
+                          {selected && Number(field.value) > available && (
+                            <p className="text-xs text-muted-foreground">Only {available} at the source; it can&apos;t be dispatched until more arrives.</p>
+                          )}
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="text-destructive hover:bg-destructive/10 md:mt-8"
+                      onClick={() => remove(index)}
+                      disabled={isSubmitting || fields.length <= 1}
+                      aria-label="Remove item"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                );
+              })}
+              <Button type="button" variant="outline" size="sm" onClick={() => append({ inventoryId: "", quantity: 1 })} disabled={isSubmitting}>
+                <PlusCircle className="mr-2 h-4 w-4" /> Add Item
+              </Button>
+            </div>
+
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes</FormLabel>
+                  <FormControl>
+                    <Textarea rows={3} placeholder="Vehicle, packing, who is receiving..." {...field} value={field.value ?? ''} disabled={isSubmitting} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </CardContent>
+          <CardFooter className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => router.push('/inventory/transfers')} disabled={isSubmitting}>Cancel</Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Draft
+            </Button>
+          </CardFooter>
+        </form>
+      </Form>
+    </Card>
+  );
+}
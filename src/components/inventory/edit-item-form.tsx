@@ -22,9 +22,19 @@ import { Card, CardContent, CardHeader, CardDescription, CardFooter } from "@/co
 import { useToast } from "@/hooks/use-toast";
 import { updateItemAction } from "@/app/inventory/actions"; // Import update action
 import { AddItemSchema, type AddItemInput } from "@/schemas/inventory";
+import { GST_RATES } from "@/schemas/tax";
 import { Loader2, Upload, AlertCircle } from "lucide-react"; // Add icons
 import { Separator } from "@/components/ui/separator";
+import { ItemOptionsFields } from "@/components/inventory/item-options-fields";
 import { Alert, AlertTitle } from "@/components/ui/alert"; // Add Alert
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { Supplier } from "@/schemas/supplier";
+
+// Select items can't have an empty value; stands for "no supplier" (stored as '')
+const NO_SUPPLIER = 'none';
+// Stands for "use the default rate from tax settings" (no rate stored)
+const DEFAULT_GST_RATE = 'default';
 
 
 // Define the structure of an inventory item as passed from the edit page
@@ -35,11 +45,17 @@ interface InventoryItem extends AddItemInput {
 
 interface EditItemFormProps {
   item: InventoryItem; // Receive the full item data
+  suppliers: Pick<Supplier, 'id' | 'name'>[];
 }
 
-export function EditItemForm({ item }: EditItemFormProps) {
+export function EditItemForm({ item, suppliers }: EditItemFormProps) {
   const router = useRouter();
   const { toast } = useToast();
+  const { can } = useCurrentUser();
+  // Field groups the current role may change; the action re-checks on save
+  const canEditDetails = can('inventory:edit_details');
+  const canAdjustStock = can('inventory:adjust_stock');
+  const canEditPrice = can('inventory:edit_price');
   const [isSubmitting, setIsSubmitting] = React.useState(false);
   const [selectedFileName, setSelectedFileName] = React.useState<string | null>(null);
   // Initialize imageDataUrl with existing item.imageUrl if it looks like a data URL, otherwise null
@@ -62,7 +78,15 @@ export function EditItemForm({ item }: EditItemFormProps) {
       weight: item.weight || "",
       stock: item.stock ?? 0,
       price: item.price ?? 0,
+      hsnCode: item.hsnCode || "",
+      gstRate: item.gstRate,
       leadTime: item.leadTime || "",
+      leadTimeDays: item.leadTimeDays,
+      reorderPoint: item.reorderPoint,
+      reorderQuantity: item.reorderQuantity,
+      supplierId: item.supplierId || "",
+      supplierSku: item.supplierSku || "",
+      options: item.options,
       description: item.description || "",
       // Use imageUrl only if it's not a data URL
       imageUrl: item.imageUrl && !item.imageUrl.startsWith('data:image/') ? item.imageUrl : "",
@@ -226,7 +250,7 @@ export function EditItemForm({ item }: EditItemFormProps) {
            <CardContent className="space-y-8">
 
              {/* Basic Information Section */}
-             <div className="space-y-4">
+             <fieldset disabled={!canEditDetails} className="space-y-4 disabled:opacity-70">
                 <h3 className="text-lg font-semibold border-b pb-2">Basic Information</h3>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                   <FormField
@@ -300,10 +324,10 @@ export function EditItemForm({ item }: EditItemFormProps) {
                     )}
                   />
                 </div>
-            </div>
+            </fieldset>
 
             {/* Specifications Section */}
-             <div className="space-y-4">
+             <fieldset disabled={!canEditDetails} className="space-y-4 disabled:opacity-70">
                 <h3 className="text-lg font-semibold border-b pb-2">Specifications</h3>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                   <FormField
@@ -333,7 +357,7 @@ export function EditItemForm({ item }: EditItemFormProps) {
                     )}
                   />
                 </div>
-             </div>
+             </fieldset>
 
             {/* Inventory & Pricing Section */}
             <div className="space-y-4">
@@ -344,10 +368,13 @@ export function EditItemForm({ item }: EditItemFormProps) {
                     name="stock"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Stock Quantity *</FormLabel>
+                        <FormLabel>Stock Quantity</FormLabel>
                         <FormControl>
-                          <Input type="number" placeholder="0" {...field} onChange={e => field.onChange(parseInt(e.target.value, 10) || 0)} aria-invalid={!!form.formState.errors.stock}/>
+                          <Input type="number" placeholder="0" {...field} aria-invalid={!!form.formState.errors.stock} disabled/>
                         </FormControl>
+                        <FormDescription>
+                          {canAdjustStock ? "Record a stock movement on the item page to change this." : "Stock changes through stock movements."}
+                        </FormDescription>
                         <FormMessage />
                       </FormItem>
                     )}
@@ -359,12 +386,47 @@ export function EditItemForm({ item }: EditItemFormProps) {
                       <FormItem>
                         <FormLabel>Price (₹) *</FormLabel>
                         <FormControl>
-                          <Input type="number" step="0.01" placeholder="0.00" {...field} onChange={e => field.onChange(parseFloat(e.target.value) || 0)} aria-invalid={!!form.formState.errors.price}/>
+                          <Input type="number" step="0.01" placeholder="0.00" {...field} onChange={e => field.onChange(parseFloat(e.target.value) || 0)} aria-invalid={!!form.formState.errors.price} disabled={!canEditPrice}/>
                         </FormControl>
                         <FormMessage />
                       </FormItem>
                     )}
                   />
+                    <FormField
+                     control={form.control}
+                     name="hsnCode"
+                     render={({ field }) => (
+                       <FormItem>
+                         <FormLabel>HSN Code</FormLabel>
+                         <FormControl>
+                           <Input placeholder="e.g., 4418" {...field} value={field.value ?? ''} aria-invalid={!!form.formState.errors.hsnCode} disabled={!canEditDetails} />
+                         </FormControl>
+                         <FormDescription>Printed on invoices and the GST report.</FormDescription>
+                         <FormMessage />
+                       </FormItem>
+                     )}
+                   />
+                    <FormField
+                     control={form.control}
+                     name="gstRate"
+                     render={({ field }) => (
+                       <FormItem>
+                         <FormLabel>GST Rate</FormLabel>
+                         <Select value={field.value === undefined ? DEFAULT_GST_RATE : String(field.value)} onValueChange={(value) => field.onChange(value === DEFAULT_GST_RATE ? undefined : Number(value))} disabled={!canEditPrice}>
+                           <FormControl>
+                             <SelectTrigger><SelectValue /></SelectTrigger>
+                           </FormControl>
+                           <SelectContent>
+                             <SelectItem value={DEFAULT_GST_RATE}>Default rate</SelectItem>
+                             {GST_RATES.map((rate) => (
+                               <SelectItem key={rate} value={String(rate)}>{rate}%</SelectItem>
+                             ))}
+                           </SelectContent>
+                         </Select>
+                         <FormMessage />
+                       </FormItem>
+                     )}
+                   />
                     <FormField
                      control={form.control}
                      name="leadTime"
@@ -372,17 +434,100 @@ export function EditItemForm({ item }: EditItemFormProps) {
                        <FormItem>
                          <FormLabel>Lead Time (Optional)</FormLabel>
                          <FormControl>
-                           <Input placeholder="e.g., 2 weeks" {...field} aria-invalid={!!form.formState.errors.leadTime} />
+                           <Input placeholder="e.g., 2 weeks" {...field} aria-invalid={!!form.formState.errors.leadTime} disabled={!canEditDetails} />
                          </FormControl>
                          <FormMessage />
                        </FormItem>
                      )}
                    />
+                    <FormField
+                     control={form.control}
+                     name="leadTimeDays"
+                     render={({ field }) => (
+                       <FormItem>
+                         <FormLabel>Lead Time (Days)</FormLabel>
+                         <FormControl>
+                           <Input type="number" min={0} step={1} placeholder="e.g., 14" {...field} value={field.value ?? ''} onChange={e => field.onChange(e.target.value === '' ? undefined : parseInt(e.target.value, 10))} aria-invalid={!!form.formState.errors.leadTimeDays} disabled={!canEditDetails} />
+                         </FormControl>
+                         <FormDescription>Used to estimate when backordered and made-to-order lines will be ready.</FormDescription>
+                         <FormMessage />
+                       </FormItem>
+                     )}
+                   />
+                    <FormField
+                     control={form.control}
+                     name="supplierId"
+                     render={({ field }) => (
+                       <FormItem>
+                         <FormLabel>Supplier</FormLabel>
+                         <Select value={field.value || NO_SUPPLIER} onValueChange={(value) => field.onChange(value === NO_SUPPLIER ? '' : value)} disabled={!canEditDetails}>
+                           <FormControl>
+                             <SelectTrigger><SelectValue /></SelectTrigger>
+                           </FormControl>
+                           <SelectContent>
+                             <SelectItem value={NO_SUPPLIER}>No supplier</SelectItem>
+                             {suppliers.map((supplier) => (
+                               <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+                             ))}
+                           </SelectContent>
+                         </Select>
+                         <FormMessage />
+                       </FormItem>
+                     )}
+                   />
+                    <FormField
+                     control={form.control}
+                     name="supplierSku"
+                     render={({ field }) => (
+                       <FormItem>
+                         <FormLabel>Supplier Code</FormLabel>
+                         <FormControl>
+                           <Input placeholder="The supplier's SKU for this item" {...field} value={field.value ?? ''} disabled={!canEditDetails} />
+                         </FormControl>
+                         <FormMessage />
+                       </FormItem>
+                     )}
+                   />
+                    <FormField
+                     control={form.control}
+                     name="reorderPoint"
+                     render={({ field }) => (
+                       <FormItem>
+                         <FormLabel>Reorder Point</FormLabel>
+                         <FormControl>
+                           <Input type="number" min={0} step={1} placeholder="Worked out from sales" {...field} value={field.value ?? ''} onChange={e => field.onChange(e.target.value === '' ? undefined : parseInt(e.target.value, 10))} aria-invalid={!!form.formState.errors.reorderPoint} disabled={!canEditDetails} />
+                         </FormControl>
+                         <FormDescription>Reorder when available plus on-order stock falls to this. Leave empty to use sales velocity.</FormDescription>
+                         <FormMessage />
+                       </FormItem>
+                     )}
+                   />
+                    <FormField
+                     control={form.control}
+                     name="reorderQuantity"
+                     render={({ field }) => (
+                       <FormItem>
+                         <FormLabel>Reorder Quantity</FormLabel>
+                         <FormControl>
+                           <Input type="number" min={1} step={1} placeholder="Worked out from sales" {...field} value={field.value ?? ''} onChange={e => field.onChange(e.target.value === '' ? undefined : parseInt(e.target.value, 10))} aria-invalid={!!form.formState.errors.reorderQuantity} disabled={!canEditDetails} />
+                         </FormControl>
+                         <FormDescription>Usual quantity to buy at a time, such as the supplier's minimum.</FormDescription>
+                         <FormMessage />
+                       </FormItem>
+                     )}
+                   />
                 </div>
             </div>
 
+             {/* Options Section - priced on top of the item's price when ordered */}
+             <fieldset disabled={!canEditPrice} className="space-y-4 disabled:opacity-70">
+                 <h3 className="text-lg font-semibold border-b pb-2">Options (Optional)</h3>
+                 <p className="text-sm text-muted-foreground">Choices offered on order lines. Each adds its amount to the price above.</p>
+                 <ItemOptionsFields disabled={!canEditPrice} />
+             </fieldset>
+
              {/* Media Section - URL Input or File Upload */}
-             <div className="space-y-4">
+             <fieldset disabled={!canEditDetails} className="space-y-4 disabled:opacity-70">
                  <h3 className="text-lg font-semibold border-b pb-2">Media (Optional)</h3>
                  <p className="text-sm text-muted-foreground">Provide an image URL OR upload a new image file (PNG, JPG, JPEG - Max 5MB).</p>
                  <FormField
@@ -444,7 +589,7 @@ export function EditItemForm({ item }: EditItemFormProps) {
                          </div>
                      </div>
                  )}
-             </div>
+             </fieldset>
 
 
            </CardContent>
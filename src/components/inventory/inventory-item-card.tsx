@@ -22,6 +22,10 @@ import { deleteItemAction } from '@/app/inventory/actions'; // Import the delete
 import type { AddItemInput } from '@/schemas/inventory'; // Import the type for structure
 import { Badge } from "@/components/ui/badge"; // Import Badge
 import { cn } from "@/lib/utils"; // Import cn utility
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { isAtReorderPoint } from "@/lib/inventory/reorder";
+import { getLocationStock } from "@/lib/inventory/location-stock";
+import type { Location } from "@/schemas/location";
 
 // Expect timestamps as strings (ISO format) from the Server Component
 // Removed imageHint from AddItemInput Omit
@@ -37,20 +41,27 @@ interface InventoryItem extends Omit<AddItemInput, 'imageHint'> {
   dimensions: string;
   stock: number;
   price: number;
+  stockByLocation?: Record<string, number>;
+  inTransit?: number; // Units on dispatched transfer orders
   // Removed imageHint property
 }
 
 
 interface InventoryItemCardProps {
   item: InventoryItem;
+  locations: Location[];
 }
 
-export function InventoryItemCard({ item }: InventoryItemCardProps) {
+export function InventoryItemCard({ item, locations }: InventoryItemCardProps) {
   const { toast } = useToast();
+  const { can } = useCurrentUser();
   const [isDeleting, setIsDeleting] = React.useState(false);
   const [isAlertDialogOpen, setIsAlertDialogOpen] = React.useState(false); // State to control dialog visibility
 
-  const isLowStock = item.stock < 10;
+  const isLowStock = isAtReorderPoint(item);
+  // Only locations holding the item, in the order the locations are listed
+  const locationStock = getLocationStock(item);
+  const stockedLocations = locations.filter((location) => locationStock[location.id] > 0);
 
   const handleDelete = async (event: React.MouseEvent) => {
     // No need for event prevention here, happens within dialog action
@@ -125,13 +136,24 @@ export function InventoryItemCard({ item }: InventoryItemCardProps) {
                  Stock: {item.stock} units {isLowStock ? '(Low)' : ''}
                </Badge>
            </div>
+           {(stockedLocations.length > 1 || (stockedLocations.length === 1 && !stockedLocations[0].isDefault) || (item.inTransit || 0) > 0) && (
+             <ul className="mt-2 text-xs text-muted-foreground space-y-0.5">
+               {stockedLocations.map((location) => (
+                 <li key={location.id} className="flex justify-between"><span>{location.name}</span><span>{locationStock[location.id]}</span></li>
+               ))}
+               {(item.inTransit || 0) > 0 && (
+                 <li className="flex justify-between italic"><span>In transit</span><span>{item.inTransit}</span></li>
+               )}
+             </ul>
+           )}
         </CardContent>
       </Link>
 
-       {/* Footer: Price and Delete Button */}
+       {/* Footer: Price and Delete Button (permission-gated) */}
        <CardFooter className="p-4 pt-2 flex justify-between items-center border-t mt-auto"> {/* Added border-t and mt-auto */}
            <p className="text-xl font-bold text-primary">₹{item.price?.toFixed(2) || 'N/A'}</p>
-           {/* Control AlertDialog visibility with state */}
+           {/* Control AlertDialog visibility with state; hidden for roles that can't delete */}
+         {can('inventory:delete') && (
          <AlertDialog open={isAlertDialogOpen} onOpenChange={setIsAlertDialogOpen}>
            <AlertDialogTrigger asChild>
               <Button
@@ -178,6 +200,7 @@ export function InventoryItemCard({ item }: InventoryItemCardProps) {
              </AlertDialogFooter>
            </AlertDialogContent>
          </AlertDialog>
+         )}
        </CardFooter>
     </Card>
   );
@@ -0,0 +1,184 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { setItemStockCountAction, updateItemPriceAction } from "@/app/inventory/actions";
+import type { CatalogueItem } from "@/lib/inventory/catalogue";
+import { getLocationStock, DEFAULT_LOCATION_ID } from "@/lib/inventory/location-stock";
+import { isAtReorderPoint } from "@/lib/inventory/reorder";
+import type { Location } from "@/schemas/location";
+import { Check, Loader2, Pencil, X } from "lucide-react";
+
+interface InlineNumberCellProps {
+  value: number;
+  display: React.ReactNode;
+  label: string; // For screen readers, e.g. "Price of Teak Door"
+  step: string;
+  canEdit: boolean;
+  onSave: (value: number) => Promise<boolean>; // False keeps the editor open
+}
+
+// Shows a value with a pencil to edit it in place. Enter saves, Escape cancels.
+function InlineNumberCell({ value, display, label, step, canEdit, onSave }: InlineNumberCellProps) {
+  const [isEditing, setIsEditing] = React.useState(false);
+  const [draft, setDraft] = React.useState(String(value));
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  const startEditing = () => {
+    setDraft(String(value));
+    setIsEditing(true);
+  };
+
+  const save = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSaving(true);
+    const saved = await onSave(Number(draft));
+    setIsSaving(false);
+    if (saved) setIsEditing(false);
+  };
+
+  if (!isEditing) {
+    return (
+      <div className="flex items-center justify-end gap-1">
+        {display}
+        {canEdit && (
+          <Button type="button" variant="ghost" size="icon" className="h-7 w-7 text-muted-foreground" onClick={startEditing} aria-label={`Edit ${label}`}>
+            <Pencil className="h-3.5 w-3.5" />
+          </Button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={save} className="flex items-center justify-end gap-1">
+      <Input
+        type="number"
+        min={0}
+        step={step}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => { if (e.key === 'Escape') setIsEditing(false); }}
+        className="h-8 w-24 text-right"
+        aria-label={label}
+        autoFocus
+        disabled={isSaving}
+      />
+      <Button type="submit" variant="ghost" size="icon" className="h-7 w-7" disabled={isSaving || draft.trim() === ''} aria-label="Save">
+        {isSaving ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Check className="h-3.5 w-3.5" />}
+      </Button>
+      <Button type="button" variant="ghost" size="icon" className="h-7 w-7" onClick={() => setIsEditing(false)} disabled={isSaving} aria-label="Cancel">
+        <X className="h-3.5 w-3.5" />
+      </Button>
+    </form>
+  );
+}
+
+interface InventoryTableProps {
+  items: CatalogueItem[];
+  locations: Location[];
+  suppliers: { id: string; name: string }[];
+  locationId?: string; // The catalogue's location filter; stock is shown and counted there
+}
+
+// The catalogue's dense view. Price and stock can be edited in place: a price edit needs
+// inventory:edit_price, and a stock edit is a counted quantity recorded as a count correction in the
+// ledger, so it's made at one location - the filtered one, or the only one holding the item.
+export function InventoryTable({ items, locations, suppliers, locationId }: InventoryTableProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const { can } = useCurrentUser();
+  const supplierNames = React.useMemo(() => new Map(suppliers.map((supplier) => [supplier.id, supplier.name])), [suppliers]);
+  const defaultLocationId = locations.find((location) => location.isDefault)?.id ?? DEFAULT_LOCATION_ID;
+  const locationName = (id: string) => locations.find((location) => location.id === id)?.name ?? 'this location';
+
+  const savePrice = async (item: CatalogueItem, price: number) => {
+    const result = await updateItemPriceAction(item.id, price);
+    toast(result.success
+      ? { title: "Price Updated", description: result.message }
+      : { variant: "destructive", title: "Failed to Update Price", description: result.message });
+    if (result.success) router.refresh();
+    return result.success;
+  };
+
+  const saveStock = async (item: CatalogueItem, stockLocationId: string, counted: number, quantity: number) => {
+    const result = await setItemStockCountAction(item.id, { locationId: stockLocationId, counted, quantity });
+    toast(result.success
+      ? { title: "Stock Updated", description: result.message }
+      : { variant: "destructive", title: "Failed to Update Stock", description: result.message });
+    if (result.success) router.refresh();
+    return result.success;
+  };
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Item</TableHead>
+          <TableHead>Style</TableHead>
+          <TableHead>Material</TableHead>
+          <TableHead>Supplier</TableHead>
+          <TableHead className="text-right">{locationId ? `Stock at ${locationName(locationId)}` : 'Stock'}</TableHead>
+          <TableHead className="text-right">Price</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {items.map((item) => {
+          const locationStock = getLocationStock(item);
+          const stockedLocationIds = Object.keys(locationStock);
+          // Where a stock edit is counted; none when the item is spread over several locations
+          const stockLocationId = locationId
+            ?? (stockedLocationIds.length === 0 ? defaultLocationId : stockedLocationIds.length === 1 ? stockedLocationIds[0] : undefined);
+          const shownStock = locationId ? locationStock[locationId] || 0 : item.stock;
+          const isLowStock = isAtReorderPoint(item);
+          return (
+            <TableRow key={item.id}>
+              <TableCell>
+                <Link href={`/inventory/${item.id}`} className="font-medium hover:underline">{item.name}</Link>
+                <div className="text-xs text-muted-foreground">{item.sku}</div>
+              </TableCell>
+              <TableCell>{item.style}</TableCell>
+              <TableCell>{item.material}</TableCell>
+              <TableCell className="text-sm">{item.supplierId ? supplierNames.get(item.supplierId) ?? '—' : '—'}</TableCell>
+              <TableCell className="text-right">
+                <InlineNumberCell
+                  value={shownStock}
+                  label={`stock of ${item.name}${stockLocationId ? ` at ${locationName(stockLocationId)}` : ''}`}
+                  step="1"
+                  canEdit={can('inventory:adjust_stock') && !!stockLocationId}
+                  onSave={(quantity) => saveStock(item, stockLocationId!, shownStock, quantity)}
+                  display={
+                    <span className="flex flex-col items-end">
+                      <Badge variant={isLowStock ? "destructive" : "secondary"}>{shownStock}{isLowStock ? ' (Low)' : ''}</Badge>
+                      {locationId
+                        ? <span className="text-xs text-muted-foreground">{item.stock} in all</span>
+                        : !stockLocationId && <span className="text-xs text-muted-foreground">{stockedLocationIds.length} locations</span>}
+                    </span>
+                  }
+                />
+              </TableCell>
+              <TableCell className="text-right">
+                <InlineNumberCell
+                  value={item.price}
+                  label={`price of ${item.name}`}
+                  step="0.01"
+                  canEdit={can('inventory:edit_price')}
+                  onSave={(price) => savePrice(item, price)}
+                  display={<span className="font-medium">₹{item.price?.toFixed(2) || 'N/A'}</span>}
+                />
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
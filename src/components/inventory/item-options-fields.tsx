@@ -0,0 +1,181 @@
+"use client";
+
+import * as React from "react";
+import { useFieldArray, useFormContext, useWatch } from "react-hook-form";
+
+import { Button } from "@/components/ui/button";
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { PriceModifierTypeEnum, PRICE_MODIFIER_TYPE_LABELS, type AddItemInput, type SizeOption } from "@/schemas/inventory";
+import { PlusCircle, Trash2 } from "lucide-react";
+
+type ChoiceGroup = 'materials' | 'finishes' | 'hardware';
+
+const CHOICE_GROUPS: { group: ChoiceGroup; title: string; placeholder: string }[] = [
+  { group: 'materials', title: 'Materials', placeholder: 'e.g., Teak' },
+  { group: 'finishes', title: 'Finishes', placeholder: 'e.g., Walnut polish' },
+  { group: 'hardware', title: 'Hardware', placeholder: 'e.g., Brass lever handle' },
+];
+
+// A new size range starts at a common single-door size
+const DEFAULT_SIZE_OPTION: SizeOption = {
+  standardHeight: 84,
+  standardWidth: 36,
+  minHeight: 72,
+  maxHeight: 96,
+  minWidth: 24,
+  maxWidth: 48,
+  modifier: { type: 'per_sq_ft', amount: 0 },
+};
+
+// Amount and rule pair shared by every choice and the size range
+function ModifierFields({ name, disabled }: { name: `options.${ChoiceGroup}.${number}.modifier` | 'options.size.modifier'; disabled?: boolean }) {
+  const form = useFormContext<AddItemInput>();
+  return (
+    <>
+      <FormField
+        control={form.control}
+        name={`${name}.type`}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel className="sr-only">Price rule</FormLabel>
+            <Select value={field.value} onValueChange={field.onChange} disabled={disabled}>
+              <FormControl>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                {PriceModifierTypeEnum.options.map((type) => (
+                  <SelectItem key={type} value={type}>{PRICE_MODIFIER_TYPE_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={form.control}
+        name={`${name}.amount`}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel className="sr-only">Amount</FormLabel>
+            <FormControl>
+              <Input type="number" step="0.01" placeholder="0" {...field} onChange={e => field.onChange(parseFloat(e.target.value) || 0)} disabled={disabled} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </>
+  );
+}
+
+function ChoiceGroupFields({ group, title, placeholder, disabled }: { group: ChoiceGroup; title: string; placeholder: string; disabled?: boolean }) {
+  const form = useFormContext<AddItemInput>();
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: `options.${group}` });
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium">{title}</h4>
+        <Button type="button" variant="outline" size="sm" onClick={() => append({ value: "", modifier: { type: 'flat', amount: 0 } })} disabled={disabled}>
+          <PlusCircle className="mr-2 h-4 w-4" /> Add
+        </Button>
+      </div>
+      {fields.length === 0 && <p className="text-sm text-muted-foreground">Not offered.</p>}
+      {fields.map((field, index) => (
+        <div key={field.id} className="grid grid-cols-[2fr_1fr_1fr_auto] gap-2 items-start">
+          <FormField
+            control={form.control}
+            name={`options.${group}.${index}.value`}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="sr-only">Choice</FormLabel>
+                <FormControl>
+                  <Input placeholder={placeholder} {...field} disabled={disabled} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <ModifierFields name={`options.${group}.${index}.modifier`} disabled={disabled} />
+          <Button type="button" variant="ghost" size="icon" className="text-destructive hover:bg-destructive/10" onClick={() => remove(index)} disabled={disabled} aria-label="Remove choice">
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+const SIZE_FIELDS: { name: Exclude<keyof SizeOption, 'modifier'>; label: string }[] = [
+  { name: 'standardHeight', label: 'Standard Height' },
+  { name: 'standardWidth', label: 'Standard Width' },
+  { name: 'minHeight', label: 'Min Height' },
+  { name: 'maxHeight', label: 'Max Height' },
+  { name: 'minWidth', label: 'Min Width' },
+  { name: 'maxWidth', label: 'Max Width' },
+];
+
+interface ItemOptionsFieldsProps {
+  disabled?: boolean;
+}
+
+// Options offered when the item is put on an order, each with the price rule it adds to the item's price
+export function ItemOptionsFields({ disabled }: ItemOptionsFieldsProps) {
+  const form = useFormContext<AddItemInput>();
+  const size = useWatch({ control: form.control, name: 'options.size' });
+
+  const toggleSizes = (enabled: boolean) => {
+    if (enabled) {
+      form.setValue('options.size', DEFAULT_SIZE_OPTION, { shouldDirty: true });
+    } else {
+      form.unregister('options.size');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {CHOICE_GROUPS.map((group) => (
+        <ChoiceGroupFields key={group.group} {...group} disabled={disabled} />
+      ))}
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h4 className="font-medium">Custom Sizes</h4>
+          <Switch checked={!!size} onCheckedChange={toggleSizes} disabled={disabled} aria-label="Made in custom sizes" />
+        </div>
+        {size ? (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+              {SIZE_FIELDS.map(({ name, label }) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={`options.size.${name}`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{label} (in)</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="0.5" {...field} onChange={e => field.onChange(parseFloat(e.target.value) || 0)} disabled={disabled} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-2 items-start">
+              <ModifierFields name="options.size.modifier" disabled={disabled} />
+            </div>
+            <FormDescription>Charged on custom-size lines. Per sq ft only charges for area beyond the standard size. Custom sizes are made to order.</FormDescription>
+          </>
+        ) : (
+          <p className="text-sm text-muted-foreground">Only made in the standard size.</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+"use client";
+
+import * as React from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { createLocationAction, updateLocationAction } from "@/app/inventory/actions";
+import { LocationSchema, LocationTypeEnum, LOCATION_TYPE_LABELS, type Location, type LocationInput } from "@/schemas/location";
+import { Loader2, PlusCircle, Edit } from "lucide-react";
+
+interface LocationFormDialogProps {
+  location?: Location; // Edit this location; otherwise add a new one
+}
+
+export function LocationFormDialog({ location }: LocationFormDialogProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const { can } = useCurrentUser();
+  const [isOpen, setIsOpen] = React.useState(false);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+  const form = useForm<LocationInput>({
+    resolver: zodResolver(LocationSchema),
+    defaultValues: {
+      name: location?.name || "",
+      type: location?.type || 'warehouse',
+      address: location?.address || "",
+    },
+  });
+
+  const onSubmit = async (values: LocationInput) => {
+    setIsSubmitting(true);
+    try {
+      const result = location ? await updateLocationAction(location.id, values) : await createLocationAction(values);
+      if (result.success) {
+        toast({ title: location ? "Location Updated" : "Location Added", description: result.message });
+        if (!location) form.reset();
+        setIsOpen(false);
+        router.refresh();
+      } else {
+        toast({ variant: "destructive", title: "Save Failed", description: result.message });
+        if (result.errors) {
+          Object.entries(result.errors).forEach(([field, messages]) => {
+            form.setError(field as keyof LocationInput, { type: 'server', message: messages?.join(', ') });
+          });
+        }
+      }
+    } catch (error) {
+      console.error("Error saving location:", error);
+      toast({ variant: "destructive", title: "Error", description: "An unexpected error occurred while saving the location." });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!can('inventory:manage_locations')) {
+    return null;
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!isSubmitting) setIsOpen(open); }}>
+      <DialogTrigger asChild>
+        {location ? (
+          <Button size="sm" variant="ghost"><Edit className="mr-2 h-4 w-4" /> Edit</Button>
+        ) : (
+          <Button size="sm"><PlusCircle className="mr-2 h-4 w-4" /> Add Location</Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{location ? 'Edit Location' : 'Add Location'}</DialogTitle>
+          <DialogDescription>Stock is counted per location and moved between them on transfer orders.</DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name *</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., Bhiwandi Warehouse" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Type *</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {LocationTypeEnum.options.map((type) => (
+                          <SelectItem key={type} value={type}>{LOCATION_TYPE_LABELS[type]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="address"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Address</FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} {...field} value={field.value ?? ''} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsOpen(false)} disabled={isSubmitting}>Cancel</Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {location ? 'Save Changes' : 'Add Location'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,299 @@
+"use client";
+
+import * as React from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { recordStockMovementAction, reconcileStockAction } from "@/app/inventory/actions";
+import {
+  ManualStockMovementSchema,
+  ManualStockMovementTypeEnum,
+  StockAdjustmentReasonEnum,
+  STOCK_ADJUSTMENT_REASON_LABELS,
+  STOCK_MOVEMENT_TYPE_LABELS,
+  type ManualStockMovementInput,
+} from "@/schemas/stock-movement";
+import type { Location } from "@/schemas/location";
+import { Loader2, PlusCircle, Scale } from "lucide-react";
+
+interface StockLedgerActionsProps {
+  itemId: string;
+  locations: Location[];
+  ledgerDifference: number; // stock field minus ledger balance; non-zero offers Reconcile
+}
+
+export function StockLedgerActions({ itemId, locations, ledgerDifference }: StockLedgerActionsProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const { can } = useCurrentUser();
+  const [isDialogOpen, setIsDialogOpen] = React.useState(false);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const [isReconciling, setIsReconciling] = React.useState(false);
+
+  const form = useForm<ManualStockMovementInput>({
+    resolver: zodResolver(ManualStockMovementSchema),
+    defaultValues: { type: 'receipt', direction: 'in', quantity: 1, locationId: locations[0]?.id ?? '', reasonCode: undefined, transferLocation: "", note: "" },
+  });
+  const movementType = form.watch('type');
+  const hasDirection = movementType === 'adjustment' || movementType === 'transfer';
+
+  const onSubmit = async (values: ManualStockMovementInput) => {
+    setIsSubmitting(true);
+    try {
+      const result = await recordStockMovementAction(itemId, values);
+      if (result.success) {
+        toast({ title: "Stock Movement Recorded", description: result.message });
+        form.reset();
+        setIsDialogOpen(false);
+        router.refresh(); // Reload the ledger, chart and stock level
+      } else {
+        toast({ variant: "destructive", title: "Failed to Record Movement", description: result.message });
+        if (result.errors) {
+          Object.entries(result.errors).forEach(([field, messages]) => {
+            form.setError(field as keyof ManualStockMovementInput, { type: 'server', message: messages?.join(', ') });
+          });
+        }
+      }
+    } catch (error) {
+      console.error("Error recording stock movement:", error);
+      toast({ variant: "destructive", title: "Error", description: "An unexpected error occurred while recording the movement." });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleReconcile = async () => {
+    setIsReconciling(true);
+    try {
+      const result = await reconcileStockAction(itemId);
+      if (result.success) {
+        toast({ title: "Ledger Reconciled", description: result.message });
+        router.refresh();
+      } else {
+        toast({ variant: "destructive", title: "Reconcile Failed", description: result.message });
+      }
+    } catch (error) {
+      console.error("Error reconciling stock ledger:", error);
+      toast({ variant: "destructive", title: "Error", description: "An unexpected error occurred while reconciling." });
+    } finally {
+      setIsReconciling(false);
+    }
+  };
+
+  if (!can('inventory:adjust_stock')) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {ledgerDifference !== 0 && (
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="outline" size="sm" disabled={isReconciling}>
+              {isReconciling ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Scale className="mr-2 h-4 w-4" />}
+              Reconcile
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Reconcile ledger with stock?</AlertDialogTitle>
+              <AlertDialogDescription>
+                The stock level differs from the movement ledger by {ledgerDifference > 0 ? '+' : ''}{ledgerDifference}.
+                A reconciliation adjustment will be added to the ledger; the stock level stays as it is.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Back</AlertDialogCancel>
+              <AlertDialogAction onClick={handleReconcile}>Reconcile</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={(open) => { if (!isSubmitting) setIsDialogOpen(open); }}>
+        <DialogTrigger asChild>
+          <Button size="sm">
+            <PlusCircle className="mr-2 h-4 w-4" />
+            Record Movement
+          </Button>
+        </DialogTrigger>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Record Stock Movement</DialogTitle>
+            <DialogDescription>Sales and cancellation restocks are recorded automatically from orders; moves between your own locations go on a transfer order.</DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="type"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Type *</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger><SelectValue /></SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {ManualStockMovementTypeEnum.options.map((type) => (
+                            <SelectItem key={type} value={type}>{STOCK_MOVEMENT_TYPE_LABELS[type]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="quantity"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Quantity *</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={1} {...field} onChange={e => field.onChange(parseInt(e.target.value, 10) || 0)} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="locationId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Location *</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger><SelectValue placeholder="Select a location" /></SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {locations.map((location) => (
+                          <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {hasDirection && (
+                <FormField
+                  control={form.control}
+                  name="direction"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Direction *</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger><SelectValue /></SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="in">{movementType === 'transfer' ? 'Transfer in (add stock)' : 'Increase stock'}</SelectItem>
+                          <SelectItem value="out">{movementType === 'transfer' ? 'Transfer out (remove stock)' : 'Decrease stock'}</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              {movementType === 'adjustment' && (
+                <FormField
+                  control={form.control}
+                  name="reasonCode"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Reason *</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger><SelectValue placeholder="Select a reason" /></SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {StockAdjustmentReasonEnum.options.filter((reason) => reason !== 'reconciliation').map((reason) => (
+                            <SelectItem key={reason} value={reason}>{STOCK_ADJUSTMENT_REASON_LABELS[reason]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              {movementType === 'transfer' && (
+                <FormField
+                  control={form.control}
+                  name="transferLocation"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{form.watch('direction') === 'out' ? 'Destination *' : 'Source *'}</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g. Polishing workshop" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              <FormField
+                control={form.control}
+                name="note"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Note</FormLabel>
+                    <FormControl>
+                      <Textarea rows={2} placeholder="Supplier invoice, damage details..." {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)} disabled={isSubmitting}>Cancel</Button>
+                <Button type="submit" disabled={isSubmitting}>
+                  {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Record
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import Link from "next/link";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  STOCK_ADJUSTMENT_REASON_LABELS,
+  STOCK_MOVEMENT_TYPE_LABELS,
+  type StockMovement,
+  type StockMovementType,
+} from "@/schemas/stock-movement";
+import type { Location } from "@/schemas/location";
+import { DEFAULT_LOCATION_ID } from "@/lib/inventory/location-stock";
+
+interface StockMovementHistoryProps {
+  movements: StockMovement[]; // Oldest first, as returned by getStockMovements
+  emptyMessage?: string;
+  locations?: Pick<Location, 'id' | 'name'>[]; // Names the location each movement happened at
+}
+
+const orderEventLabels: Record<string, string> = {
+  order_created: 'Order placed',
+  order_updated: 'Order edited',
+  order_cancelled: 'Order cancelled',
+  order_reopened: 'Order reopened',
+  order_deleted: 'Order deleted',
+  backorder_allocated: 'Backorder filled',
+  reservation_released: 'Reservation expired',
+};
+
+const getTypeVariant = (type: StockMovementType): "default" | "secondary" | "outline" | "destructive" => {
+  switch (type) {
+    case 'receipt':
+      return 'default';
+    case 'damage':
+      return 'destructive';
+    case 'sale':
+    case 'cancellation_restock':
+    case 'return_restock':
+      return 'outline';
+    default:
+      return 'secondary';
+  }
+};
+
+// Where it happened, and what the movement was for: reason code, transfer location and/or note
+const getDetails = (movement: StockMovement, locationNames: Map<string, string>): string[] => {
+  const details: string[] = [];
+  // Movements from before locations have none; they were all at the default location
+  const locationName = locationNames.get(movement.locationId || DEFAULT_LOCATION_ID);
+  if (locationName && locationNames.size > 1) details.push(`At ${locationName}`);
+  if (movement.orderEvent) details.push(orderEventLabels[movement.orderEvent] || movement.orderEvent);
+  if (movement.reasonCode) details.push(STOCK_ADJUSTMENT_REASON_LABELS[movement.reasonCode] || movement.reasonCode);
+  if (movement.transferLocation) details.push(`${movement.quantity < 0 ? 'To' : 'From'} ${movement.transferLocation}`);
+  if (movement.note) details.push(movement.note);
+  return details;
+};
+
+export function StockMovementHistory({ movements, emptyMessage = "No stock movements recorded yet.", locations = [] }: StockMovementHistoryProps) {
+  const locationNames = new Map(locations.map((location) => [location.id, location.name]));
+  if (movements.length === 0) {
+    return <p className="text-sm text-muted-foreground italic text-center py-6">{emptyMessage}</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-[170px]">When</TableHead>
+          <TableHead>Type</TableHead>
+          <TableHead className="text-right">Change</TableHead>
+          <TableHead className="text-right">Balance</TableHead>
+          <TableHead>Source</TableHead>
+          <TableHead>Details</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {[...movements].reverse().map((movement) => (
+          <TableRow key={movement.id} className="align-top">
+            <TableCell className="text-sm text-muted-foreground whitespace-nowrap">{format(new Date(movement.createdAt), 'PP p')}</TableCell>
+            <TableCell><Badge variant={getTypeVariant(movement.type)}>{STOCK_MOVEMENT_TYPE_LABELS[movement.type] || movement.type}</Badge></TableCell>
+            <TableCell className={`text-right font-medium ${movement.quantity < 0 ? 'text-destructive' : 'text-green-600'}`}>
+              {movement.quantity > 0 ? `+${movement.quantity}` : movement.quantity}
+            </TableCell>
+            <TableCell className="text-right">{movement.balanceAfter}</TableCell>
+            <TableCell className="text-sm">
+              {movement.orderId && (
+                <Link href={`/orders/${movement.orderId}`} className="text-primary hover:underline">Order {movement.orderId.substring(0, 8)}...</Link>
+              )}
+              {movement.purchaseOrderId && (
+                <Link href={`/purchasing/${movement.purchaseOrderId}`} className="text-primary hover:underline">PO {movement.purchaseOrderId.substring(0, 8)}...</Link>
+              )}
+              {movement.transferOrderId && (
+                <Link href={`/inventory/transfers/${movement.transferOrderId}`} className="text-primary hover:underline">Transfer {movement.transferOrderId.substring(0, 8)}...</Link>
+              )}
+              <div className={movement.orderId || movement.purchaseOrderId || movement.transferOrderId ? "text-xs text-muted-foreground" : "font-medium"}>{movement.actor?.name || (movement.orderId ? 'External order' : 'Unknown')}</div>
+            </TableCell>
+            <TableCell className="text-sm text-muted-foreground">{getDetails(movement, locationNames).join(' · ') || '—'}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
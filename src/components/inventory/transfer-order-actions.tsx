@@ -0,0 +1,119 @@
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { dispatchTransferOrderAction, receiveTransferOrderAction, cancelTransferOrderAction } from "@/app/inventory/actions";
+import type { TransferOrderStatus } from "@/schemas/transfer-order";
+import { Loader2, Truck, PackageCheck, XCircle } from "lucide-react";
+
+interface TransferOrderActionsProps {
+  transferId: string;
+  status: TransferOrderStatus;
+}
+
+type TransferCommand = 'dispatch' | 'receive' | 'cancel';
+
+const COMMANDS: Record<TransferCommand, { label: string; title: string; description: string; run: (transferId: string) => Promise<{ success: boolean; message: string }> }> = {
+  dispatch: {
+    label: 'Dispatch',
+    title: 'Dispatch this transfer?',
+    description: "The units leave the source location's stock and are counted as in transit until received.",
+    run: dispatchTransferOrderAction,
+  },
+  receive: {
+    label: 'Receive',
+    title: 'Receive this transfer?',
+    description: "Every line is added to the destination location's stock.",
+    run: receiveTransferOrderAction,
+  },
+  cancel: {
+    label: 'Cancel Transfer',
+    title: 'Cancel this transfer?',
+    description: "Nothing has moved yet, so no stock changes.",
+    run: cancelTransferOrderAction,
+  },
+};
+
+const COMMAND_ICONS: Record<TransferCommand, React.ReactNode> = {
+  dispatch: <Truck className="mr-2 h-4 w-4" />,
+  receive: <PackageCheck className="mr-2 h-4 w-4" />,
+  cancel: <XCircle className="mr-2 h-4 w-4" />,
+};
+
+// Commands that apply to a transfer in this state (mirrors the checks in the inventory actions)
+const getAvailableCommands = (status: TransferOrderStatus): TransferCommand[] => {
+  switch (status) {
+    case 'Draft': return ['dispatch', 'cancel'];
+    case 'In Transit': return ['receive'];
+    default: return [];
+  }
+};
+
+export function TransferOrderActions({ transferId, status }: TransferOrderActionsProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const { can } = useCurrentUser();
+  const [pendingCommand, setPendingCommand] = React.useState<TransferCommand | null>(null);
+
+  const commands = getAvailableCommands(status);
+  if (!can('inventory:transfer') || commands.length === 0) {
+    return null;
+  }
+
+  const runCommand = async (command: TransferCommand) => {
+    setPendingCommand(command);
+    try {
+      const result = await COMMANDS[command].run(transferId);
+      if (result.success) {
+        toast({ title: "Transfer Updated", description: result.message });
+        router.refresh();
+      } else {
+        toast({ variant: "destructive", title: "Update Failed", description: result.message });
+      }
+    } catch (error) {
+      console.error(`Error running ${command} on transfer:`, error);
+      toast({ variant: "destructive", title: "Error", description: "An unexpected error occurred while updating the transfer." });
+    } finally {
+      setPendingCommand(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {commands.map((command) => (
+        <AlertDialog key={command}>
+          <AlertDialogTrigger asChild>
+            <Button size="sm" variant={command === 'cancel' ? 'destructive' : 'default'} disabled={!!pendingCommand}>
+              {pendingCommand === command ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : COMMAND_ICONS[command]}
+              {COMMANDS[command].label}
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>{COMMANDS[command].title}</AlertDialogTitle>
+              <AlertDialogDescription>{COMMANDS[command].description}</AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Back</AlertDialogCancel>
+              <AlertDialogAction onClick={() => runCommand(command)}>{COMMANDS[command].label}</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+import { Badge } from "@/components/ui/badge";
+import type { TransferOrderStatus } from "@/schemas/transfer-order";
+
+const getStatusVariant = (status: TransferOrderStatus): "default" | "secondary" | "outline" | "destructive" => {
+  switch (status) {
+    case 'In Transit':
+      return 'default';
+    case 'Received':
+      return 'outline';
+    case 'Cancelled':
+      return 'destructive';
+    default:
+      return 'secondary';
+  }
+};
+
+export function TransferOrderStatusBadge({ status }: { status: TransferOrderStatus }) {
+  return <Badge variant={getStatusVariant(status)} className="whitespace-nowrap">{status}</Badge>;
+}
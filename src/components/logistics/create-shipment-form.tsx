@@ -0,0 +1,419 @@
+"use client";
+
+import * as React from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { useRouter } from "next/navigation";
+
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardHeader, CardDescription, CardFooter } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
+import { createShipmentAction } from "@/app/logistics/actions";
+import { ShipmentSchema, ShipmentStatusEnum, type ShipmentInput } from "@/schemas/shipment";
+import { Loader2, AlertCircle } from "lucide-react";
+
+// Line items are picked in the table below rather than through react-hook-form
+const ShipmentFormSchema = ShipmentSchema.omit({ items: true });
+type ShipmentFormValues = Omit<ShipmentInput, 'items'>;
+
+// An order line that still has quantity to ship
+export interface ShippableOrderLine {
+  cartItemId: string; // Order line key
+  doorId: string;
+  name: string;
+  sku: string;
+  ordered: number;
+  remaining: number; // Can ship now: not yet on a shipment and not waiting on a backorder or production
+}
+
+// Order summary used to pick the order being shipped
+export interface ShippableOrderOption {
+  id: string;
+  customerName: string;
+  destination: string; // Full shipping address on one line
+  status: string;
+  lines: ShippableOrderLine[];
+}
+
+interface CreateShipmentFormProps {
+  orders: ShippableOrderOption[];
+  defaultOrderId?: string;
+  fetchError?: string;
+}
+
+export function CreateShipmentForm({ orders, defaultOrderId, fetchError }: CreateShipmentFormProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+  const defaultOrder = orders.find((order) => order.id === defaultOrderId);
+  // Quantity to put on this shipment per order line, defaulting to everything still remaining
+  const [lineQuantities, setLineQuantities] = React.useState<Record<string, number>>(
+    () => Object.fromEntries((defaultOrder?.lines || []).map((line) => [line.cartItemId, line.remaining]))
+  );
+
+  const form = useForm<ShipmentFormValues>({
+    resolver: zodResolver(ShipmentFormSchema),
+    defaultValues: {
+      orderId: defaultOrder?.id || "",
+      customerName: defaultOrder?.customerName || "",
+      carrier: "",
+      trackingNumber: "",
+      status: "Label Created",
+      origin: "",
+      destination: defaultOrder?.destination || "",
+      estimatedDelivery: "",
+      pieces: 1,
+      weight: "",
+      dimensions: "",
+      notes: "",
+    },
+    mode: "onBlur",
+  });
+
+  // Prefill customer and destination from the selected order's shipping info
+  const handleOrderChange = (orderId: string) => {
+    form.setValue('orderId', orderId, { shouldValidate: true });
+    const order = orders.find((o) => o.id === orderId);
+    if (order) {
+      form.setValue('customerName', order.customerName, { shouldValidate: true });
+      form.setValue('destination', order.destination, { shouldValidate: true });
+    }
+    setLineQuantities(Object.fromEntries((order?.lines || []).map((line) => [line.cartItemId, line.remaining])));
+  };
+
+  const selectedOrder = orders.find((order) => order.id === form.watch('orderId'));
+
+  const handleQuantityChange = (line: ShippableOrderLine, value: string) => {
+    const quantity = value === '' ? 0 : Math.min(line.remaining, Math.max(0, parseInt(value, 10) || 0));
+    setLineQuantities((current) => ({ ...current, [line.cartItemId]: quantity }));
+  };
+
+  async function onSubmit(values: ShipmentFormValues) {
+    const items = (selectedOrder?.lines || [])
+      .filter((line) => (lineQuantities[line.cartItemId] || 0) > 0)
+      .map((line) => ({ cartItemId: line.cartItemId, doorId: line.doorId, name: line.name, sku: line.sku, quantity: lineQuantities[line.cartItemId] }));
+    if (items.length === 0) {
+      toast({ variant: "destructive", title: "No Items Selected", description: "Enter a quantity for at least one item on this shipment." });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      // Empty carrier/tracking fields fall back to the placeholders the schema allows
+      const payload: ShipmentInput = {
+        ...values,
+        items,
+        carrier: values.carrier?.trim() || 'TBD',
+        trackingNumber: values.trackingNumber?.trim() || 'Pending',
+      };
+      const result = await createShipmentAction(payload);
+
+      if (result.success && result.shipmentId) {
+        toast({ title: "Shipment Created", description: result.message });
+        router.push(`/logistics/${result.shipmentId}`);
+        router.refresh();
+        return;
+      }
+
+      if (result.errors) {
+        Object.entries(result.errors).forEach(([field, messages]) => {
+          const fieldName = field as keyof ShipmentFormValues;
+          if (fieldName in form.getValues()) {
+            form.setError(fieldName, { type: 'server', message: messages?.[0] || "Server validation failed" });
+          }
+        });
+      }
+      toast({
+        variant: "destructive",
+        title: "Failed to Create Shipment",
+        description: result.message || "Please check the form and try again.",
+      });
+    } catch (error) {
+      console.error("Shipment submission error:", error);
+      toast({
+        variant: "destructive",
+        title: "Submission Error",
+        description: "An unexpected client-side error occurred. Please try again.",
+      });
+    }
+    setIsSubmitting(false);
+  }
+
+  return (
+    <Card className="max-w-4xl mx-auto shadow-md">
+      <CardHeader>
+        <CardDescription>Schedule a shipment for some or all of an order's items. The order's tracking details and status are updated automatically. Fields marked with * are required.</CardDescription>
+      </CardHeader>
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)}>
+          <CardContent className="space-y-8">
+            {fetchError && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>Error Loading Orders</AlertTitle>
+                <AlertDescription>{fetchError}</AlertDescription>
+              </Alert>
+            )}
+
+            {/* Order Section */}
+            <div className="space-y-4">
+              <h3 className="text-lg font-semibold border-b pb-2">Order</h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <FormField
+                  control={form.control}
+                  name="orderId"
+                  render={({ field }) => (
+                    <FormItem className="md:col-span-2">
+                      <FormLabel>Order *</FormLabel>
+                      <Select value={field.value} onValueChange={handleOrderChange} disabled={orders.length === 0}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder={orders.length === 0 ? "No orders awaiting shipment" : "Select an order"} />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {orders.map((order) => (
+                            <SelectItem key={order.id} value={order.id}>
+                              {order.id.substring(0, 8)}... — {order.customerName} ({order.status})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>Only orders with items left to ship are listed.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="customerName"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Customer Name *</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="status"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Initial Status *</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger><SelectValue /></SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {ShipmentStatusEnum.options.filter((status) => status !== 'Delivered').map((status) => (
+                            <SelectItem key={status} value={status}>{status}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            </div>
+
+            {/* Items Section */}
+            {selectedOrder && (
+              <div className="space-y-4">
+                <h3 className="text-lg font-semibold border-b pb-2">Items on This Shipment</h3>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Product</TableHead>
+                      <TableHead>SKU</TableHead>
+                      <TableHead className="text-center">Ordered</TableHead>
+                      <TableHead className="text-center">Left to Ship</TableHead>
+                      <TableHead className="w-[120px] text-right">This Shipment</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {selectedOrder.lines.map((line) => (
+                      <TableRow key={line.cartItemId}>
+                        <TableCell className="font-medium">{line.name}</TableCell>
+                        <TableCell>{line.sku}</TableCell>
+                        <TableCell className="text-center">{line.ordered}</TableCell>
+                        <TableCell className="text-center">{line.remaining}</TableCell>
+                        <TableCell className="text-right">
+                          <Input
+                            type="number"
+                            min={0}
+                            max={line.remaining}
+                            className="w-20 ml-auto text-right"
+                            value={lineQuantities[line.cartItemId] ?? 0}
+                            onChange={(e) => handleQuantityChange(line, e.target.value)}
+                            aria-label={`Quantity of ${line.name} on this shipment`}
+                          />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                <p className="text-sm text-muted-foreground">Set a quantity to 0 to leave that item for a later shipment.</p>
+              </div>
+            )}
+
+            {/* Carrier & Route Section */}
+            <div className="space-y-4">
+              <h3 className="text-lg font-semibold border-b pb-2">Carrier & Route</h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <FormField
+                  control={form.control}
+                  name="carrier"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Carrier (Optional)</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., Delhivery, Blue Dart (blank = TBD)" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="trackingNumber"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Tracking Number (Optional)</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Blank = Pending" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="origin"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Origin *</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., Showroom warehouse, Pune" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="destination"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Destination *</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="estimatedDelivery"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Estimated Delivery (Optional)</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            </div>
+
+            {/* Package Section */}
+            <div className="space-y-4">
+              <h3 className="text-lg font-semibold border-b pb-2">Package</h3>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <FormField
+                  control={form.control}
+                  name="pieces"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Pieces</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={1} {...field} value={field.value ?? ''} onChange={e => field.onChange(e.target.value === '' ? undefined : parseInt(e.target.value, 10))} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="weight"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Weight (Optional)</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., 40 kg" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="dimensions"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Dimensions (Optional)</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., 210 x 95 x 10 cm" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="notes"
+                  render={({ field }) => (
+                    <FormItem className="md:col-span-3">
+                      <FormLabel>Notes (Optional)</FormLabel>
+                      <FormControl>
+                        <Textarea placeholder="Handling instructions, delivery window..." className="resize-y" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            </div>
+          </CardContent>
+          <CardFooter className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => router.back()} disabled={isSubmitting}>Cancel</Button>
+            <Button type="submit" disabled={isSubmitting || orders.length === 0}>
+              {isSubmitting ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Creating...</> : "Create Shipment"}
+            </Button>
+          </CardFooter>
+        </form>
+      </Form>
+    </Card>
+  );
+}
@@ -7,7 +7,10 @@ import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input"; // For location/notes
 import { Button } from "@/components/ui/button"; // For save button
+import { Separator } from "@/components/ui/separator";
+import { useRouter } from "next/navigation";
 import { useToast } from "@/hooks/use-toast";
+import { useCurrentUser } from "@/hooks/use-current-user";
 import { updateShipmentStatusAction } from "@/app/logistics/actions"; // Import the server action
 import type { Shipment } from "@/schemas/shipment";
 import { Loader2, PackageCheck, Truck, MapPin, CheckCircle, XCircle } from "lucide-react"; // Added more icons
@@ -15,6 +18,7 @@ import { Loader2, PackageCheck, Truck, MapPin, CheckCircle, XCircle } from "luci
 interface ShipmentStatusUpdaterProps {
   shipmentId: string;
   currentStatus: Shipment['status'];
+  lastProgressStatus?: Shipment['status']; // Last linear status before an exception, used by "Resolve Issue"
 }
 
 type StatusStep = Shipment['status'];
@@ -22,8 +26,10 @@ type StatusStep = Shipment['status'];
 const statusOrder: StatusStep[] = ['Label Created', 'Picked Up', 'In Transit', 'Out for Delivery', 'Delivered'];
 const exceptionStatuses: StatusStep[] = ['Exception', 'Delayed']; // Non-linear statuses
 
-export function ShipmentStatusUpdater({ shipmentId, currentStatus }: ShipmentStatusUpdaterProps) {
+export function ShipmentStatusUpdater({ shipmentId, currentStatus, lastProgressStatus }: ShipmentStatusUpdaterProps) {
+  const router = useRouter();
   const { toast } = useToast();
+  const { can } = useCurrentUser();
   const [isUpdating, setIsUpdating] = React.useState(false);
   const [localStatus, setLocalStatus] = React.useState<StatusStep>(currentStatus);
   const [updateLocation, setUpdateLocation] = React.useState<string>('');
@@ -53,6 +59,7 @@ export function ShipmentStatusUpdater({ shipmentId, currentStatus }: ShipmentSta
         setLocalStatus(newStatus); // Update local state
         setUpdateLocation(''); // Clear inputs on success
         setUpdateNotes('');
+        router.refresh(); // Reload the timeline from the server
       } else {
         toast({
           variant: "destructive",
@@ -88,6 +95,11 @@ export function ShipmentStatusUpdater({ shipmentId, currentStatus }: ShipmentSta
   const isExceptionStatus = exceptionStatuses.includes(localStatus);
   const currentStatusIndex = statusOrder.indexOf(localStatus);
 
+  // Roles that can't update shipments only see the timeline on the page
+  if (!can('shipments:update_status')) {
+    return null;
+  }
+
   return (
     <Card className="shadow-md">
       <CardHeader>
@@ -179,7 +191,7 @@ export function ShipmentStatusUpdater({ shipmentId, currentStatus }: ShipmentSta
                   variant="outline"
                   size="sm"
                   className="flex-1"
-                  onClick={() => handleStatusChange(statusOrder[currentStatusIndex] || 'Label Created')} // Revert to known linear status
+                  onClick={() => handleStatusChange(lastProgressStatus || 'Label Created')} // Revert to last linear status
                   disabled={isUpdating}
               >
                   {isUpdating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CheckCircle className="mr-2 h-4 w-4"/>}
@@ -0,0 +1,71 @@
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { backfillPaymentSummariesAction } from "@/app/orders/actions";
+import { Loader2, Wallet } from "lucide-react";
+
+export function BackfillPaymentsButton() {
+  const router = useRouter();
+  const { toast } = useToast();
+  const { can } = useCurrentUser();
+  const [isUpdating, setIsUpdating] = React.useState(false);
+
+  if (!can('settings:manage')) return null;
+
+  const handleBackfill = async () => {
+    setIsUpdating(true);
+    try {
+      const result = await backfillPaymentSummariesAction();
+      if (result.success) {
+        toast({ title: "Payment Summaries Updated", description: result.message });
+        router.refresh();
+      } else {
+        toast({ variant: "destructive", title: "Update Failed", description: result.message });
+      }
+    } catch (error) {
+      console.error("Error backfilling payment summaries:", error);
+      toast({ variant: "destructive", title: "Error", description: "An unexpected error occurred while updating payment summaries." });
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button variant="outline" disabled={isUpdating}>
+          {isUpdating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Wallet className="mr-2 h-4 w-4" />}
+          Fill In Payment Status
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Fill in payment status on older orders?</AlertDialogTitle>
+          <AlertDialogDescription>
+            Orders from before payments were recorded one by one have no stored payment status, so the payment filter can&apos;t find them.
+            Their status and balance are worked out from what they already show and saved on each order. Orders that have one are left as they are.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={handleBackfill}>Fill In</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,61 @@
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { allocateBackorderedLineAction, markLineReadyAction } from "@/app/orders/actions";
+import type { LineFulfillmentState } from "@/lib/orders/backorders";
+import { Loader2, PackagePlus, Hammer } from "lucide-react";
+
+interface BackorderLineActionsProps {
+  orderId: string;
+  lineKey: string; // Order line key (cartItemId)
+  state: LineFulfillmentState;
+}
+
+// Fill a backordered line from stock, or mark a made-to-order line as finished
+export function BackorderLineActions({ orderId, lineKey, state }: BackorderLineActionsProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const { can } = useCurrentUser();
+  const [isPending, setIsPending] = React.useState(false);
+
+  if (!can('orders:update_status') || (state !== 'backordered' && state !== 'made_to_order')) {
+    return null;
+  }
+
+  const handleClick = async () => {
+    setIsPending(true);
+    try {
+      const result = state === 'backordered'
+        ? await allocateBackorderedLineAction(orderId, lineKey)
+        : await markLineReadyAction(orderId, lineKey);
+      if (result.success) {
+        toast({ title: state === 'backordered' ? "Stock Allocated" : "Line Ready", description: result.message });
+        router.refresh();
+      } else {
+        toast({ variant: "destructive", title: "Update Failed", description: result.message });
+      }
+    } catch (error) {
+      console.error("Error updating backordered line:", error);
+      toast({ variant: "destructive", title: "Error", description: "An unexpected error occurred while updating the line." });
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  return (
+    <Button size="sm" variant="outline" onClick={handleClick} disabled={isPending}>
+      {isPending ? (
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+      ) : state === 'backordered' ? (
+        <PackagePlus className="mr-2 h-4 w-4" />
+      ) : (
+        <Hammer className="mr-2 h-4 w-4" />
+      )}
+      {state === 'backordered' ? 'Allocate Stock' : 'Mark Ready'}
+    </Button>
+  );
+}
@@ -22,13 +22,32 @@ import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { createOrderAction } from "@/app/orders/actions";
+import { createQuoteAction, updateQuoteAction } from "@/app/quotes/actions";
 // Import the enums along with the types/schema
-import { OrderSchema, type CreateOrderInput, type OrderInput, OrderStatusEnum, PaymentStatusEnum } from "@/schemas/order";
+import { OrderSchema, type CreateOrderInput, type OrderInput } from "@/schemas/order";
+import { INITIAL_ORDER_STATUSES } from "@/lib/orders/status-machine";
+import { DEFAULT_LOCATION_ID, getStockAtLocation } from "@/lib/inventory/location-stock";
+import type { Location } from "@/schemas/location";
 import type { AddItemInput } from '@/schemas/inventory';
 import { Loader2, PlusCircle, Trash2, DollarSign, AlertTriangle } from "lucide-react";
 import { Separator } from "@/components/ui/separator";
+import { LineOptionsFields } from "@/components/orders/line-options-fields";
+import { LinePriceOverrideFields } from "@/components/orders/line-price-override-fields";
+import { OrderTotalsSummary } from "@/components/orders/order-totals-summary";
+import { calculateOrderTotals, getLineSellingPrice, priceLine } from "@/lib/orders/pricing";
+import { calculateOrderGst, getLineTaxAmount } from "@/lib/orders/tax";
+import { calculateOrderDiscounts } from "@/lib/orders/discounts";
+import { LineDiscountFields } from "@/components/orders/line-discount-fields";
+import { OrderDiscountFields, type PromoTerms } from "@/components/orders/order-discount-fields";
+import { InitialPaymentFields } from "@/components/orders/initial-payment-fields";
+import { CreditApprovalFields } from "@/components/orders/credit-approval-fields";
+import type { TaxSettings } from "@/schemas/tax";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { QUOTE_VALIDITY_DAYS, QuoteSchema, type Quote, type QuoteInput } from "@/schemas/quote";
+import type { Resolver } from "react-hook-form";
+import { CustomerPickerFields } from "@/components/orders/customer-picker-fields";
+import type { Customer } from "@/schemas/customer";
 
 // Define the structure of an inventory item passed for selection
 interface InventorySelectItem extends AddItemInput {
@@ -38,23 +57,66 @@ interface InventorySelectItem extends AddItemInput {
   imageUrl?: string; // Keep explicit
   name: string; // Ensure required fields
   sku: string;
-  stock: number;
+  stock: number; // Available to promise
+  reserved?: number; // Held for unpaid orders
+  stockByLocation?: Record<string, number>;
 }
 
 interface CreateOrderFormProps {
   inventoryItems: InventorySelectItem[];
+  locations: Location[];
+  taxSettings: TaxSettings | null; // For the GST preview; null until GST is set up
   fetchError?: string; // Optional error message from server fetching
+  customers?: Customer[]; // The customer directory, to search and fill in from
+  mode?: 'order' | 'quote'; // A quote has no status, pick location or payment, but a valid-until date and notes
+  quote?: Quote; // Order mode: the quote being converted. Quote mode: the quote being revised.
 }
 
-export function CreateOrderForm({ inventoryItems, fetchError }: CreateOrderFormProps) {
+// Order form values; validUntil and notes are only used in quote mode
+type OrderFormValues = CreateOrderInput & Partial<Pick<QuoteInput, 'validUntil' | 'notes'>>;
+
+const addDays = (days: number) => new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+// Starts the form from a quote's customer, lines (at their list price, with any hand-set price) and discounts
+function getQuoteFormValues(quote: Quote): Pick<OrderFormValues, 'customerId' | 'customer' | 'items' | 'shippingMethod' | 'shippingCharge' | 'orderDiscount' | 'promoCode' | 'validUntil' | 'notes'> {
+  const manualDiscount = quote.discounts?.find((discount) => !discount.promoCode);
+  return {
+    customerId: quote.customerId,
+    customer: { ...quote.shippingInfo, email: quote.shippingInfo.email || "", phone: quote.shippingInfo.phone || "", gstin: quote.shippingInfo.gstin || "" },
+    items: quote.items.map((item) => ({
+      itemId: item.doorId,
+      name: item.name,
+      sku: item.sku,
+      quantity: item.quantity,
+      price: item.priceOverride?.listPrice ?? item.finalPrice,
+      image: item.imageUrl || '',
+      customizations: item.customizations,
+      priceOverride: item.priceOverride ? item.finalPrice : undefined,
+      priceOverrideReason: item.priceOverride?.reason,
+      discount: item.discount ? { type: item.discount.type, value: item.discount.value, reason: item.discount.reason } : undefined,
+    })),
+    shippingMethod: quote.shippingMethod || "",
+    shippingCharge: quote.totals?.shippingTotal ?? 0,
+    orderDiscount: manualDiscount ? { type: manualDiscount.type, value: manualDiscount.value, reason: manualDiscount.reason } : undefined,
+    promoCode: quote.discounts?.find((discount) => discount.promoCode)?.promoCode || "",
+    validUntil: quote.validUntil,
+    notes: quote.notes || "",
+  };
+}
+
+export function CreateOrderForm({ inventoryItems, locations, taxSettings, fetchError, customers = [], mode = 'order', quote }: CreateOrderFormProps) {
   const router = useRouter();
   const { toast } = useToast();
   const [isSubmitting, setIsSubmitting] = React.useState(false);
-  const [selectedItemDetails, setSelectedItemDetails] = React.useState<Record<number, InventorySelectItem | null>>({});
+  const isQuote = mode === 'quote';
+  const [selectedItemDetails, setSelectedItemDetails] = React.useState<Record<number, InventorySelectItem | null>>(() =>
+    Object.fromEntries((quote?.items ?? []).map((item, index) => [index, inventoryItems.find((inventoryItem) => inventoryItem.id === item.doorId) || null]))
+  );
 
-  const form = useForm<CreateOrderInput>({
-    resolver: zodResolver(OrderSchema),
+  const form = useForm<OrderFormValues>({
+    resolver: (isQuote ? zodResolver(QuoteSchema) : zodResolver(OrderSchema)) as Resolver<OrderFormValues>,
     defaultValues: {
+      customerId: undefined,
       customer: {
         name: "",
         email: "",
@@ -63,11 +125,20 @@ export function CreateOrderForm({ inventoryItems, fetchError }: CreateOrderFormP
         city: "",
         state: "",
         zipCode: "",
+        gstin: "",
       },
       items: [{ itemId: "", name: "", sku: "", quantity: 1, price: 0, image: "" }],
       status: "Processing", // Default status from enum
-      paymentStatus: "Pending", // Default payment status from enum
+      initialPayment: undefined,
       shippingMethod: "",
+      shippingCharge: 0,
+      fulfillmentLocationId: locations[0]?.id ?? DEFAULT_LOCATION_ID,
+      orderDiscount: undefined,
+      promoCode: "",
+      validUntil: addDays(QUOTE_VALIDITY_DAYS),
+      notes: "",
+      ...(quote && getQuoteFormValues(quote)),
+      ...(quote && !isQuote && { quoteId: quote.id }),
     },
   });
 
@@ -82,11 +153,38 @@ export function CreateOrderForm({ inventoryItems, fetchError }: CreateOrderFormP
     name: 'items',
   });
 
-  const calculateTotal = React.useCallback(() => {
-    return items.reduce((sum, item) => sum + (item.price * item.quantity), 0);
-  }, [items]);
+  // Preview only; the server prices every line again and works out the stored totals
+  const shippingCharge = useWatch({ control: form.control, name: 'shippingCharge' });
+  const [customerId, customerState, customerGstin, orderDiscount] = useWatch({ control: form.control, name: ['customerId', 'customer.state', 'customer.gstin', 'orderDiscount'] });
+  const selectedCustomer = customerId ? customers.find((customer) => customer.id === customerId) : undefined;
+  const isTaxExempt = selectedCustomer?.taxExempt === true;
+  const priceTier = selectedCustomer?.priceTier;
+  const quotedPromo = quote?.discounts?.find((discount) => discount.promoCode);
+  const [promo, setPromo] = React.useState<PromoTerms | null>(
+    quotedPromo?.promoCode ? { code: quotedPromo.promoCode, type: quotedPromo.type, value: quotedPromo.value } : null
+  );
+  const discountBreakdown = React.useMemo(
+    () => calculateOrderDiscounts(items.map((item) => ({ unitPrice: getLineSellingPrice(item), quantity: item.quantity, discount: item.discount })), [orderDiscount, promo]),
+    [items, orderDiscount, promo]
+  );
+  const orderGst = React.useMemo(
+    () => calculateOrderGst(
+      items.map((item, index) => ({ taxableValue: discountBreakdown.taxableValues[index], gstRate: selectedItemDetails[index]?.gstRate })),
+      { settings: isTaxExempt ? null : taxSettings, shippingState: customerState, buyerGstin: customerGstin || undefined }
+    )?.gst ?? null,
+    [items, discountBreakdown, selectedItemDetails, taxSettings, isTaxExempt, customerState, customerGstin]
+  );
+  const orderTotals = React.useMemo(
+    () => calculateOrderTotals(
+      items.map((item) => ({ unitPrice: getLineSellingPrice(item), quantity: item.quantity })),
+      { discount: discountBreakdown.discountTotal, shipping: shippingCharge, tax: orderGst ? getLineTaxAmount(orderGst) : undefined }
+    ),
+    [items, discountBreakdown, shippingCharge, orderGst]
+  );
 
-  const orderTotal = calculateTotal();
+  // Availability shown for each product is at the location the order is picked from
+  const fulfillmentLocationId = useWatch({ control: form.control, name: 'fulfillmentLocationId' }) || DEFAULT_LOCATION_ID;
+  const availableAt = (item: InventorySelectItem) => getStockAtLocation(item, fulfillmentLocationId);
 
 
   // Handle item selection change
@@ -96,9 +194,13 @@ export function CreateOrderForm({ inventoryItems, fetchError }: CreateOrderFormP
       form.setValue(`items.${index}.itemId`, selectedItem.id);
       form.setValue(`items.${index}.name`, selectedItem.name);
       form.setValue(`items.${index}.sku`, selectedItem.sku);
-      form.setValue(`items.${index}.price`, selectedItem.price || 0);
+      form.setValue(`items.${index}.price`, priceLine(selectedItem, undefined, priceTier).unitPrice);
       form.trigger(`items.${index}.price`);
       form.setValue(`items.${index}.image`, selectedItem.imageUrl || '');
+      form.setValue(`items.${index}.customizations`, {}); // Options differ per product; start from the standard build
+      form.setValue(`items.${index}.priceOverride`, undefined);
+      form.setValue(`items.${index}.priceOverrideReason`, undefined);
+      form.setValue(`items.${index}.discount`, undefined);
       setSelectedItemDetails(prev => ({ ...prev, [index]: selectedItem }));
       // Clear item-specific error if selection is now valid
       form.clearErrors(`items.${index}.itemId`);
@@ -114,7 +216,19 @@ export function CreateOrderForm({ inventoryItems, fetchError }: CreateOrderFormP
      form.trigger(`items.${index}.itemId`);
   };
 
-  async function onSubmit(values: CreateOrderInput) {
+  // Picking a customer on another price tier reprices the lines already chosen. Not on the first render,
+  // so lines converted from a quote keep their quoted prices.
+  const pricedTier = React.useRef(priceTier);
+  React.useEffect(() => {
+    if (pricedTier.current === priceTier) return;
+    pricedTier.current = priceTier;
+    form.getValues('items').forEach((item, index) => {
+      const details = selectedItemDetails[index];
+      if (details) form.setValue(`items.${index}.price`, priceLine(details, item.customizations, priceTier).unitPrice, { shouldDirty: true });
+    });
+  }, [priceTier, selectedItemDetails, form]);
+
+  async function onSubmit(values: OrderFormValues) {
     setIsSubmitting(true);
     try {
         // Ensure all items have a valid itemId before submission
@@ -129,14 +243,17 @@ export function CreateOrderForm({ inventoryItems, fetchError }: CreateOrderFormP
             return;
         }
 
-      const result = await createOrderAction(values);
+      const result = isQuote
+        ? await (quote ? updateQuoteAction(quote.id, values as QuoteInput) : createQuoteAction(values as QuoteInput))
+        : await createOrderAction(values);
+      const savedId = 'quoteId' in result ? result.quoteId : 'orderId' in result ? result.orderId : undefined;
 
-      if (result.success && result.orderId) {
+      if (result.success && savedId) {
         toast({
-          title: "Success!",
+          title: isQuote ? "Quote Saved" : "Success!",
           description: result.message,
         });
-        router.push(`/orders/${result.orderId}`); // Redirect to the newly created order's detail page
+        router.push(isQuote ? `/quotes/${savedId}` : `/orders/${savedId}`); // Redirect to the saved quote or new order's detail page
 
       } else {
         if (result.errors) {
@@ -164,10 +281,13 @@ export function CreateOrderForm({ inventoryItems, fetchError }: CreateOrderFormP
                     });
                 } else if (typeof value === 'object' && value !== null && '_errors' in value) {
                     // Handle top-level schema errors
-                    form.setError(key as keyof CreateOrderInput, { message: (value as any)._errors?.[0] });
+                    form.setError(key as keyof OrderFormValues, { message: (value as any)._errors?.[0] });
                     if (!firstErrorField) firstErrorField = key;
                 } else if (typeof value === 'string') { // Handle direct string errors for fields
-                     form.setError(key as keyof CreateOrderInput, { message: value });
+                     form.setError(key as keyof OrderFormValues, { message: value });
+                     if (!firstErrorField) firstErrorField = key;
+                } else if (Array.isArray(value) && typeof value[0] === 'string') { // Field errors from the action, e.g. { promoCode: [message] }
+                     form.setError(key as keyof OrderFormValues, { message: value[0] });
                      if (!firstErrorField) firstErrorField = key;
                 }
             });
@@ -245,13 +365,20 @@ export function CreateOrderForm({ inventoryItems, fetchError }: CreateOrderFormP
          <form onSubmit={form.handleSubmit(onSubmit)}>
           <CardHeader>
             {/* Title handled by page */}
-             <CardDescription>Enter customer details and select items to create a new order.</CardDescription>
+             <CardDescription>
+               {isQuote
+                 ? "Enter customer details and select items to quote. Prices are worked out the same way as for an order."
+                 : quote
+                   ? "Lines kept from the quote keep their quoted prices and discounts. Choose where to pick from and take any payment."
+                   : "Enter customer details and select items to create a new order."}
+             </CardDescription>
           </CardHeader>
            <CardContent className="space-y-8">
 
              {/* Customer Details Section */}
              <div className="space-y-4">
                 <h3 className="text-lg font-semibold border-b pb-2">Customer Information</h3>
+                 <CustomerPickerFields customers={customers} disabled={isSubmitting} />
                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                      <FormField
                         control={form.control}
@@ -344,6 +471,20 @@ export function CreateOrderForm({ inventoryItems, fetchError }: CreateOrderFormP
                         </FormItem>
                         )}
                       />
+                       <FormField
+                        control={form.control}
+                        name="customer.gstin"
+                        render={({ field }) => (
+                        <FormItem>
+                            <FormLabel>Customer GSTIN (Optional)</FormLabel>
+                            <FormControl>
+                            <Input placeholder="e.g., 27ABCDE1234F1Z5" {...field} value={field.value ?? ''} className="uppercase" aria-invalid={!!form.formState.errors.customer?.gstin}/>
+                            </FormControl>
+                            <FormDescription>For business customers claiming input tax credit.</FormDescription>
+                            <FormMessage />
+                        </FormItem>
+                        )}
+                      />
                  </div>
             </div>
 
@@ -403,8 +544,8 @@ export function CreateOrderForm({ inventoryItems, fetchError }: CreateOrderFormP
                                     </FormControl>
                                     <SelectContent>
                                         {inventoryItems.length > 0 ? inventoryItems.map((item) => (
-                                        <SelectItem key={item.id} value={item.id} disabled={item.stock <= 0}>
-                                            {item.name} ({item.sku}) - Stock: {item.stock <= 0 ? 'Out of Stock' : item.stock}
+                                        <SelectItem key={item.id} value={item.id}>
+                                            {item.name} ({item.sku}) - {availableAt(item) <= 0 ? 'Out of Stock' : `Available: ${availableAt(item)}`}{item.reserved ? ` · Reserved: ${item.reserved}` : ''}
                                         </SelectItem>
                                         )) : <SelectItem value="no-items" disabled>No inventory items available</SelectItem>}
                                     </SelectContent>
@@ -424,21 +565,21 @@ export function CreateOrderForm({ inventoryItems, fetchError }: CreateOrderFormP
                                     <Input
                                         type="number"
                                         min="1"
-                                        max={selectedItemDetails[index]?.stock ?? 1} // Set max based on stock
                                         {...field}
                                         onChange={e => {
-                                            const maxStock = selectedItemDetails[index]?.stock ?? 1;
                                             let value = parseInt(e.target.value, 10) || 1;
-                                            if (value > maxStock) value = maxStock; // Cap at max stock
                                             if (value < 1) value = 1; // Ensure minimum 1
                                             field.onChange(value);
                                         }}
                                         aria-invalid={!!form.formState.errors.items?.[index]?.quantity}
-                                        disabled={isSubmitting || !selectedItemDetails[index] || selectedItemDetails[index]?.stock <= 0} // Disable if no item selected or out of stock
+                                        disabled={isSubmitting || !selectedItemDetails[index]} // Disable if no item selected
                                         />
                                     </FormControl>
-                                     {selectedItemDetails[index] && field.value > selectedItemDetails[index]!.stock && (
-                                        <p className="text-sm font-medium text-destructive">Cannot exceed available stock ({selectedItemDetails[index]!.stock}).</p>
+                                     {selectedItemDetails[index] && field.value > availableAt(selectedItemDetails[index]!) && (
+                                        <p className="text-sm text-muted-foreground">
+                                            Only {availableAt(selectedItemDetails[index]!)} available{selectedItemDetails[index]!.reserved ? ` (${selectedItemDetails[index]!.reserved} reserved)` : ''}; the rest will be backordered
+                                            {typeof selectedItemDetails[index]!.leadTimeDays === 'number' ? `, expected in about ${selectedItemDetails[index]!.leadTimeDays} day(s)` : ''}.
+                                        </p>
                                      )}
                                     <FormMessage />
                                 </FormItem>
@@ -469,9 +610,12 @@ export function CreateOrderForm({ inventoryItems, fetchError }: CreateOrderFormP
                             <FormItem>
                                 <FormLabel>Line Total</FormLabel>
                                 <div className="h-10 flex items-center px-3 py-2 text-sm font-medium text-muted-foreground">
-                                 ₹{(form.getValues(`items.${index}.price`) * form.getValues(`items.${index}.quantity`)).toFixed(2)}
+                                 ₹{(getLineSellingPrice(form.getValues(`items.${index}`)) * form.getValues(`items.${index}.quantity`) - (discountBreakdown.lineDiscounts[index] || 0)).toFixed(2)}
                                 </div>
                              </FormItem>
+                            <LineOptionsFields index={index} item={selectedItemDetails[index]} priceTier={priceTier} disabled={isSubmitting} />
+                            <LinePriceOverrideFields index={index} disabled={isSubmitting || !selectedItemDetails[index]} />
+                            <LineDiscountFields index={index} amount={discountBreakdown.lineDiscounts[index] || 0} disabled={isSubmitting || !selectedItemDetails[index]} />
                          </div>
 
                          {/* Remove Button */}
@@ -494,8 +638,24 @@ export function CreateOrderForm({ inventoryItems, fetchError }: CreateOrderFormP
              <div className="grid grid-cols-1 md:grid-cols-3 gap-6 pt-4">
                 {/* Order Settings */}
                  <div className="md:col-span-2 space-y-4">
-                     <h3 className="text-lg font-semibold border-b pb-2">Order Settings</h3>
+                     <h3 className="text-lg font-semibold border-b pb-2">{isQuote ? "Quote Settings" : "Order Settings"}</h3>
                      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                         {isQuote ? (
+                         <FormField
+                            control={form.control}
+                            name="validUntil"
+                            render={({ field }) => (
+                            <FormItem>
+                                <FormLabel>Valid Until *</FormLabel>
+                                <FormControl>
+                                <Input type="date" {...field} value={field.value ?? ''} aria-invalid={!!form.formState.errors.validUntil} disabled={isSubmitting}/>
+                                </FormControl>
+                                <FormDescription>Prices hold until the end of this day.</FormDescription>
+                                <FormMessage />
+                            </FormItem>
+                            )}
+                        />
+                         ) : (
                          <FormField
                             control={form.control}
                             name="status"
@@ -510,7 +670,8 @@ export function CreateOrderForm({ inventoryItems, fetchError }: CreateOrderFormP
                                     </SelectTrigger>
                                 </FormControl>
                                 <SelectContent>
-                                    {OrderStatusEnum.options.map(status => (
+                                    {/* New orders can only start in an initial state of the status machine */}
+                                    {INITIAL_ORDER_STATUSES.map(status => (
                                         <SelectItem key={status} value={status}>{status}</SelectItem>
                                     ))}
                                 </SelectContent>
@@ -519,50 +680,94 @@ export function CreateOrderForm({ inventoryItems, fetchError }: CreateOrderFormP
                             </FormItem>
                             )}
                         />
-                         <FormField
+                         )}
+                        <FormField
                             control={form.control}
-                            name="paymentStatus"
+                            name="shippingMethod"
                             render={({ field }) => (
                             <FormItem>
-                                <FormLabel>Payment Status *</FormLabel>
-                                {/* Use enum values for Select */}
+                                <FormLabel>Shipping Method (Optional)</FormLabel>
+                                <FormControl>
+                                <Input placeholder="e.g., Standard Ground" {...field} value={field.value ?? ''} aria-invalid={!!form.formState.errors.shippingMethod} disabled={isSubmitting}/>
+                                </FormControl>
+                                <FormMessage />
+                            </FormItem>
+                            )}
+                        />
+                        <FormField
+                            control={form.control}
+                            name="shippingCharge"
+                            render={({ field }) => (
+                            <FormItem>
+                                <FormLabel>Shipping Charge (₹)</FormLabel>
+                                <FormControl>
+                                <Input type="number" step="0.01" min={0} placeholder="0.00" {...field} value={field.value ?? ''} onChange={e => field.onChange(e.target.value === '' ? undefined : parseFloat(e.target.value))} aria-invalid={!!form.formState.errors.shippingCharge} disabled={isSubmitting}/>
+                                </FormControl>
+                                <FormMessage />
+                            </FormItem>
+                            )}
+                        />
+                        {!isQuote && (
+                        <FormField
+                            control={form.control}
+                            name="fulfillmentLocationId"
+                            render={({ field }) => (
+                            <FormItem>
+                                <FormLabel>Pick From *</FormLabel>
                                 <Select onValueChange={field.onChange} defaultValue={field.value} disabled={isSubmitting}>
                                 <FormControl>
-                                    <SelectTrigger aria-invalid={!!form.formState.errors.paymentStatus}>
-                                    <SelectValue placeholder="Select payment status" />
+                                    <SelectTrigger aria-invalid={!!form.formState.errors.fulfillmentLocationId}>
+                                    <SelectValue placeholder="Select location" />
                                     </SelectTrigger>
                                 </FormControl>
                                 <SelectContent>
-                                     {PaymentStatusEnum.options.map(status => (
-                                        <SelectItem key={status} value={status}>{status}</SelectItem>
-                                     ))}
+                                    {locations.map(location => (
+                                        <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                                    ))}
                                 </SelectContent>
                                 </Select>
+                                <FormDescription>Stock is taken from this location.</FormDescription>
                                 <FormMessage />
                             </FormItem>
                             )}
                         />
+                        )}
+                     </div>
+                     {isQuote && (
                         <FormField
                             control={form.control}
-                            name="shippingMethod"
+                            name="notes"
                             render={({ field }) => (
                             <FormItem>
-                                <FormLabel>Shipping Method (Optional)</FormLabel>
+                                <FormLabel>Notes (Optional)</FormLabel>
                                 <FormControl>
-                                <Input placeholder="e.g., Standard Ground" {...field} value={field.value ?? ''} aria-invalid={!!form.formState.errors.shippingMethod} disabled={isSubmitting}/>
+                                <Textarea rows={3} placeholder="e.g., Installation quoted separately." {...field} value={field.value ?? ''} disabled={isSubmitting}/>
                                 </FormControl>
+                                <FormDescription>Printed on the quote.</FormDescription>
                                 <FormMessage />
                             </FormItem>
                             )}
                         />
-                     </div>
+                     )}
+                     <h3 className="text-lg font-semibold border-b pb-2">Discounts</h3>
+                     <OrderDiscountFields
+                       promo={promo}
+                       onPromoChange={setPromo}
+                       orderValue={orderTotals.subtotal}
+                       amounts={{ manual: discountBreakdown.orderDiscounts[0], promo: discountBreakdown.orderDiscounts[1] }}
+                       applied={quote?.discounts}
+                       disabled={isSubmitting}
+                     />
+                     {!isQuote && <InitialPaymentFields orderTotal={orderTotals.grandTotal} disabled={isSubmitting} />}
+                     {!isQuote && selectedCustomer && selectedCustomer.paymentTerms !== 'due_on_order' && (
+                       <CreditApprovalFields paymentTerms={selectedCustomer.paymentTerms} creditLimit={selectedCustomer.creditLimit} disabled={isSubmitting} />
+                     )}
                  </div>
 
                 {/* Order Total */}
                  <div className="space-y-2 self-end">
-                    <h3 className="text-lg font-semibold border-b pb-2 flex items-center gap-2 justify-end"><DollarSign className="h-5 w-5 text-muted-foreground" /> Order Total</h3>
-                    <p className="text-3xl font-bold text-primary text-right">₹{orderTotal.toFixed(2)}</p>
-                    <p className="text-xs text-muted-foreground text-right">(Excludes tax/shipping for now)</p>
+                    <h3 className="text-lg font-semibold border-b pb-2 flex items-center gap-2 justify-end"><DollarSign className="h-5 w-5 text-muted-foreground" /> {isQuote ? "Quote Total" : "Order Total"}</h3>
+                    <OrderTotalsSummary totals={orderTotals} gst={orderGst} />
                  </div>
              </div>
 
@@ -574,7 +779,9 @@ export function CreateOrderForm({ inventoryItems, fetchError }: CreateOrderFormP
               </Button>
               <Button type="submit" disabled={isSubmitting || items.length === 0 || items.some(item => !item.itemId)}>
                  {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                {isSubmitting ? "Creating Order..." : "Create Order"}
+                {isQuote
+                  ? (isSubmitting ? "Saving Quote..." : quote ? "Save Quote" : "Create Quote")
+                  : (isSubmitting ? "Creating Order..." : "Create Order")}
               </Button>
             </CardFooter>
          </form>
@@ -0,0 +1,51 @@
+"use client";
+
+import * as React from "react";
+import { useFormContext } from "react-hook-form";
+
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { PAYMENT_TERM_DAYS } from "@/lib/customers/trade-accounts";
+import { PAYMENT_TERMS_LABELS, type PaymentTerms } from "@/schemas/customer";
+import type { OrderInput } from "@/schemas/order";
+
+interface CreditApprovalFieldsProps {
+  paymentTerms: PaymentTerms; // The account's terms; anything but due on order
+  creditLimit?: number; // The customer's, when known
+  disabled?: boolean;
+}
+
+// Shown for orders on a trade account. The server checks the credit limit when the order is saved; only
+// someone who manages trade accounts can take the account over it, by giving a reason here.
+export function CreditApprovalFields({ paymentTerms, creditLimit, disabled }: CreditApprovalFieldsProps) {
+  const form = useFormContext<OrderInput>();
+  const { can } = useCurrentUser();
+  const hasError = !!form.formState.errors.creditApprovalReason;
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-lg font-semibold border-b pb-2">Trade Account</h3>
+      <p className="text-sm text-muted-foreground">
+        On {PAYMENT_TERMS_LABELS[paymentTerms]} terms{typeof creditLimit === 'number' && creditLimit > 0 && `, up to a ₹${creditLimit.toFixed(2)} credit limit`}.
+        The order goes ahead without payment, and its invoice falls due {PAYMENT_TERM_DAYS[paymentTerms]} days after it&apos;s issued.
+      </p>
+      {(can('accounts:manage') || hasError) && (
+        <FormField
+          control={form.control}
+          name="creditApprovalReason"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Over-Limit Approval Reason</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g., Cheque for last month's invoices received" {...field} value={field.value ?? ''} disabled={disabled || !can('accounts:manage')} />
+              </FormControl>
+              <FormDescription>Only needed if this order takes the account over its credit limit.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { useFormContext, useWatch } from "react-hook-form";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { findMatchingCustomer, getDefaultAddress } from "@/lib/customers/customers";
+import { CUSTOMER_TYPE_LABELS, PAYMENT_TERMS_LABELS, PRICE_TIERS, type Customer, type CustomerAddress } from "@/schemas/customer";
+import type { OrderInput } from "@/schemas/order";
+import { Search, UserCheck, X } from "lucide-react";
+
+interface CustomerPickerFieldsProps {
+  customers: Customer[];
+  disabled?: boolean;
+}
+
+const MAX_RESULTS = 6;
+
+const describeAddress = (address: CustomerAddress) =>
+  `${address.label ? `${address.label}: ` : ''}${address.address}, ${address.city} (${address.kind === 'billing' ? 'billing' : 'shipping'})`;
+
+// Finds a saved customer and fills in the customer fields from them. The details stay editable: what the
+// form holds is what's copied onto the order.
+export function CustomerPickerFields({ customers, disabled }: CustomerPickerFieldsProps) {
+  const form = useFormContext<OrderInput>();
+  const [customerId, email, phone] = useWatch({ control: form.control, name: ['customerId', 'customer.email', 'customer.phone'] });
+  const [search, setSearch] = React.useState('');
+
+  const selected = customerId ? customers.find((customer) => customer.id === customerId) : undefined;
+  const results = React.useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return [];
+    return customers
+      .filter((customer) => [customer.name, customer.email, customer.phone, customer.gstin].some((value) => value?.toLowerCase().includes(term)))
+      .slice(0, MAX_RESULTS);
+  }, [customers, search]);
+  // Typed details that belong to a saved customer, so they can be linked instead of retyped
+  const typedMatch = !customerId ? findMatchingCustomer(customers, { email, phone }) : undefined;
+
+  const fillAddress = (address: CustomerAddress | undefined) => {
+    if (!address) return;
+    const options = { shouldDirty: true, shouldValidate: true };
+    form.setValue('customer.address', address.address, options);
+    form.setValue('customer.city', address.city, options);
+    form.setValue('customer.state', address.state, options);
+    form.setValue('customer.zipCode', address.zipCode, options);
+  };
+
+  const pickCustomer = (customer: Customer) => {
+    const options = { shouldDirty: true, shouldValidate: true };
+    form.setValue('customerId', customer.id, { shouldDirty: true });
+    form.setValue('customer.name', customer.name, options);
+    form.setValue('customer.email', customer.email || '', options);
+    form.setValue('customer.phone', customer.phone || '', options);
+    form.setValue('customer.gstin', customer.gstin || '', options);
+    fillAddress(getDefaultAddress(customer, 'shipping'));
+    setSearch('');
+  };
+
+  if (selected) {
+    return (
+      <div className="rounded-md border bg-muted/30 p-3 space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <UserCheck className="h-4 w-4 text-primary" />
+            <Link href={`/customers/${selected.id}`} className="font-medium hover:underline" target="_blank">{selected.name}</Link>
+            <Badge variant="outline">{CUSTOMER_TYPE_LABELS[selected.type]}</Badge>
+            {selected.taxExempt && <Badge variant="secondary">Tax exempt: no GST</Badge>}
+            {selected.priceTier !== 'standard' && <Badge variant="secondary">{PRICE_TIERS[selected.priceTier].label}: {PRICE_TIERS[selected.priceTier].percentOff}% off</Badge>}
+            {selected.paymentTerms !== 'due_on_order' && <Badge variant="secondary">{PAYMENT_TERMS_LABELS[selected.paymentTerms]} account</Badge>}
+          </div>
+          <Button type="button" variant="ghost" size="sm" onClick={() => form.setValue('customerId', undefined, { shouldDirty: true })} disabled={disabled}>
+            <X className="mr-1 h-4 w-4" /> Unlink
+          </Button>
+        </div>
+        {selected.addresses.length > 1 && (
+          <div className="space-y-1">
+            <Label>Saved Addresses</Label>
+            <Select onValueChange={(value) => fillAddress(selected.addresses[Number(value)])} disabled={disabled}>
+              <SelectTrigger><SelectValue placeholder="Ship to another saved address" /></SelectTrigger>
+              <SelectContent>
+                {selected.addresses.map((address, index) => (
+                  <SelectItem key={index} value={String(index)}>{describeAddress(address)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="customer-search">Find a Saved Customer</Label>
+      <div className="relative">
+        <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+        <Input
+          id="customer-search"
+          className="pl-8"
+          placeholder="Search by name, email, phone or GSTIN"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          disabled={disabled}
+          autoComplete="off"
+        />
+      </div>
+      {search.trim() && (
+        <div className="rounded-md border divide-y">
+          {results.length === 0 ? (
+            <p className="p-2 text-sm text-muted-foreground">No saved customer matches. Enter their details below.</p>
+          ) : results.map((customer) => (
+            <button
+              key={customer.id}
+              type="button"
+              className="w-full p-2 text-left text-sm hover:bg-muted/50"
+              onClick={() => pickCustomer(customer)}
+              disabled={disabled}
+            >
+              <span className="font-medium">{customer.name}</span>
+              <span className="text-muted-foreground"> · {[customer.phone, customer.email].filter(Boolean).join(' · ') || CUSTOMER_TYPE_LABELS[customer.type]}</span>
+            </button>
+          ))}
+        </div>
+      )}
+      {typedMatch && (
+        <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+          These details match <span className="font-medium text-foreground">{typedMatch.name}</span>.
+          <Button type="button" variant="link" size="sm" className="h-auto p-0" onClick={() => pickCustomer(typedMatch)} disabled={disabled}>Use saved customer</Button>
+        </div>
+      )}
+    </div>
+  );
+}
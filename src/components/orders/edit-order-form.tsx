@@ -22,12 +22,26 @@ import { Card, CardContent, CardHeader, CardDescription, CardFooter } from "@/co
 import { useToast } from "@/hooks/use-toast";
 import { updateOrderAction } from "@/app/orders/actions"; // Use update action
 // Import the enums along with the types/schema
-import { OrderSchema, type OrderInput, type Order, OrderStatusEnum, PaymentStatusEnum } from "@/schemas/order";
+import { OrderSchema, type OrderInput, type Order, OrderStatusEnum } from "@/schemas/order";
 import type { AddItemInput } from '@/schemas/inventory';
 import { Loader2, PlusCircle, Trash2, DollarSign } from "lucide-react";
 import { Separator } from "@/components/ui/separator";
+import { LineOptionsFields } from "@/components/orders/line-options-fields";
+import { LinePriceOverrideFields } from "@/components/orders/line-price-override-fields";
+import { OrderTotalsSummary } from "@/components/orders/order-totals-summary";
+import { calculateOrderTotals, getLineSellingPrice, priceLine } from "@/lib/orders/pricing";
+import { calculateOrderGst, getLineTaxAmount } from "@/lib/orders/tax";
+import { calculateOrderDiscounts } from "@/lib/orders/discounts";
+import { LineDiscountFields } from "@/components/orders/line-discount-fields";
+import { OrderDiscountFields, type PromoTerms } from "@/components/orders/order-discount-fields";
+import { CreditApprovalFields } from "@/components/orders/credit-approval-fields";
+import type { TaxSettings } from "@/schemas/tax";
+import type { PriceTier } from "@/schemas/customer";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import {z} from "zod";
+import { ORDER_STATUS_TRANSITIONS } from "@/lib/orders/status-machine";
+import { DEFAULT_LOCATION_ID } from "@/lib/inventory/location-stock";
+import type { Location } from "@/schemas/location";
 
 // Structure for inventory items used in selection dropdown
 interface InventorySelectItem extends AddItemInput {
@@ -52,12 +66,23 @@ interface SerializableOrder extends Omit<Order, 'orderDate' | 'createdAt' | 'upd
 interface EditOrderFormProps {
   order: SerializableOrder; // Expect the serializable order data
   inventoryItems: InventorySelectItem[];
+  locations: Location[];
+  taxSettings: TaxSettings | null; // For the GST preview; null until GST is set up
+  priceTier?: PriceTier; // The customer's, for lines priced again
+  creditLimit?: number; // The customer's, for orders on account
 }
 
-export function EditOrderForm({ order, inventoryItems }: EditOrderFormProps) {
+export function EditOrderForm({ order, inventoryItems, locations, taxSettings, priceTier, creditLimit }: EditOrderFormProps) {
   const router = useRouter();
   const { toast } = useToast();
   const [isSubmitting, setIsSubmitting] = React.useState(false);
+  // The server re-checks guards; this only hides statuses that are never reachable from here
+  const editableStatuses = React.useMemo(() => [
+    order.status,
+    ...ORDER_STATUS_TRANSITIONS
+      .filter((transition) => transition.from === order.status && transition.manual && transition.effects.length === 0)
+      .map((transition) => transition.to),
+  ], [order.status]);
   const [selectedItemDetails, setSelectedItemDetails] = React.useState<Record<number, InventorySelectItem | null>>(() => {
       const initialDetails: Record<number, InventorySelectItem | null> = {};
       order.items.forEach((item, index) => {
@@ -68,6 +93,10 @@ export function EditOrderForm({ order, inventoryItems }: EditOrderFormProps) {
       return initialDetails;
   });
 
+  // Order-level discounts saved on the order: at most one entered by hand and one promo code
+  const savedOrderDiscount = order.discounts?.find((discount) => !discount.promoCode);
+  const savedPromo = order.discounts?.find((discount) => discount.promoCode);
+
   const form = useForm<OrderInput>({
     resolver: zodResolver(OrderSchema),
     defaultValues: {
@@ -80,19 +109,26 @@ export function EditOrderForm({ order, inventoryItems }: EditOrderFormProps) {
            city: order.shippingInfo.city,
            state: order.shippingInfo.state,
            zipCode: order.shippingInfo.zipCode,
+           gstin: order.shippingInfo.gstin || "",
        },
       items: order.items.map(item => ({
           itemId: item.doorId, // Map doorId from DB to itemId in form
           name: item.name,
           sku: item.sku,
           quantity: item.quantity,
-          price: item.finalPrice, // Map finalPrice from DB to price in form
+          price: item.priceOverride?.listPrice ?? item.finalPrice, // List price; a hand-set price is kept in priceOverride
           image: item.imageUrl || '', // Map imageUrl from DB to image in form
           customizations: item.customizations, // Pass customizations through
+          priceOverride: item.priceOverride ? item.finalPrice : undefined,
+          priceOverrideReason: item.priceOverride?.reason,
+          discount: item.discount ? { type: item.discount.type, value: item.discount.value, reason: item.discount.reason } : undefined,
       })),
       status: order.status as z.infer<typeof OrderStatusEnum>, // Cast existing status to enum type
-      paymentStatus: order.paymentInfo.paymentMethod as z.infer<typeof PaymentStatusEnum>, // Cast payment method to enum type
       shippingMethod: order.trackingInfo?.carrier || "", // Map carrier to shippingMethod
+      shippingCharge: order.totals?.shippingTotal ?? 0,
+      fulfillmentLocationId: order.fulfillmentLocationId || DEFAULT_LOCATION_ID,
+      orderDiscount: savedOrderDiscount ? { type: savedOrderDiscount.type, value: savedOrderDiscount.value, reason: savedOrderDiscount.reason } : undefined,
+      promoCode: savedPromo?.promoCode || "",
     },
   });
 
@@ -107,11 +143,34 @@ export function EditOrderForm({ order, inventoryItems }: EditOrderFormProps) {
     name: 'items',
   });
 
-  const calculateTotal = React.useCallback(() => {
-    return items.reduce((sum, item) => sum + (item.price * item.quantity), 0);
-  }, [items]);
-
-  const orderTotal = calculateTotal();
+  // Preview only; the server prices every line again and works out the stored totals
+  const shippingCharge = useWatch({ control: form.control, name: 'shippingCharge' });
+  const [customerState, customerGstin, orderDiscount] = useWatch({ control: form.control, name: ['customer.state', 'customer.gstin', 'orderDiscount'] });
+  const [promo, setPromo] = React.useState<PromoTerms | null>(
+    savedPromo?.promoCode ? { code: savedPromo.promoCode, type: savedPromo.type, value: savedPromo.value } : null
+  );
+  const discountBreakdown = React.useMemo(
+    () => calculateOrderDiscounts(items.map((item) => ({ unitPrice: getLineSellingPrice(item), quantity: item.quantity, discount: item.discount })), [orderDiscount, promo]),
+    [items, orderDiscount, promo]
+  );
+  const orderGst = React.useMemo(
+    () => calculateOrderGst(
+      items.map((item, index) => ({
+        taxableValue: discountBreakdown.taxableValues[index],
+        // Lines already on the order keep the rate they were taxed at
+        gstRate: order.items[index]?.doorId === item.itemId && order.items[index].tax ? order.items[index].tax!.rate : selectedItemDetails[index]?.gstRate,
+      })),
+      { settings: taxSettings, shippingState: customerState, buyerGstin: customerGstin || undefined }
+    )?.gst ?? null,
+    [items, discountBreakdown, order.items, selectedItemDetails, taxSettings, customerState, customerGstin]
+  );
+  const orderTotals = React.useMemo(
+    () => calculateOrderTotals(
+      items.map((item) => ({ unitPrice: getLineSellingPrice(item), quantity: item.quantity })),
+      { discount: discountBreakdown.discountTotal, shipping: shippingCharge, tax: orderGst ? getLineTaxAmount(orderGst) : undefined }
+    ),
+    [items, discountBreakdown, shippingCharge, orderGst]
+  );
 
   // Handle item selection change
   const handleItemChange = (index: number, selectedItemId: string) => {
@@ -120,9 +179,13 @@ export function EditOrderForm({ order, inventoryItems }: EditOrderFormProps) {
       form.setValue(`items.${index}.itemId`, selectedItem.id);
       form.setValue(`items.${index}.name`, selectedItem.name);
       form.setValue(`items.${index}.sku`, selectedItem.sku);
-      form.setValue(`items.${index}.price`, selectedItem.price || 0); // Use price from selected inventory item
+      form.setValue(`items.${index}.price`, priceLine(selectedItem, undefined, priceTier).unitPrice); // At the customer's price tier
       form.trigger(`items.${index}.price`);
       form.setValue(`items.${index}.image`, selectedItem.imageUrl || '');
+      form.setValue(`items.${index}.customizations`, {}); // Options differ per product; start from the standard build
+      form.setValue(`items.${index}.priceOverride`, undefined);
+      form.setValue(`items.${index}.priceOverrideReason`, undefined);
+      form.setValue(`items.${index}.discount`, undefined);
       setSelectedItemDetails(prev => ({ ...prev, [index]: selectedItem }));
        // Clear item-specific error if selection is now valid
        form.clearErrors(`items.${index}.itemId`);
@@ -193,6 +256,9 @@ export function EditOrderForm({ order, inventoryItems }: EditOrderFormProps) {
                  } else if (typeof value === 'string') { // Handle direct string errors for fields
                       form.setError(key as keyof OrderInput, { message: value });
                       if (!firstErrorField) firstErrorField = key;
+                 } else if (Array.isArray(value) && typeof value[0] === 'string') { // Field errors from the action, e.g. { promoCode: [message] }
+                      form.setError(key as keyof OrderInput, { message: value[0] });
+                      if (!firstErrorField) firstErrorField = key;
                  }
              });
 
@@ -349,6 +415,20 @@ export function EditOrderForm({ order, inventoryItems }: EditOrderFormProps) {
                         </FormItem>
                         )}
                       />
+                       <FormField
+                        control={form.control}
+                        name="customer.gstin"
+                        render={({ field }) => (
+                        <FormItem>
+                            <FormLabel>Customer GSTIN (Optional)</FormLabel>
+                            <FormControl>
+                            <Input placeholder="e.g., 27ABCDE1234F1Z5" {...field} value={field.value ?? ''} className="uppercase" aria-invalid={!!form.formState.errors.customer?.gstin}/>
+                            </FormControl>
+                            <FormDescription>For business customers claiming input tax credit.</FormDescription>
+                            <FormMessage />
+                        </FormItem>
+                        )}
+                      />
                  </div>
             </div>
 
@@ -478,9 +558,17 @@ export function EditOrderForm({ order, inventoryItems }: EditOrderFormProps) {
                             <FormItem>
                                 <FormLabel>Line Total</FormLabel>
                                 <div className="h-10 flex items-center px-3 py-2 text-sm font-medium text-muted-foreground">
-                                 ₹{(form.getValues(`items.${index}.price`) * form.getValues(`items.${index}.quantity`)).toFixed(2)}
+                                 ₹{(getLineSellingPrice(form.getValues(`items.${index}`)) * form.getValues(`items.${index}.quantity`) - (discountBreakdown.lineDiscounts[index] || 0)).toFixed(2)}
                                 </div>
                              </FormItem>
+                            <LineOptionsFields index={index} item={selectedItemDetails[index]} priceTier={priceTier} disabled={isSubmitting} />
+                            <LinePriceOverrideFields index={index} disabled={isSubmitting || !selectedItemDetails[index]} />
+                            <LineDiscountFields
+                              index={index}
+                              amount={discountBreakdown.lineDiscounts[index] || 0}
+                              applied={order.items[index]?.doorId === items[index]?.itemId ? order.items[index].discount : undefined}
+                              disabled={isSubmitting || !selectedItemDetails[index]}
+                            />
                          </div>
 
                          {/* Remove Button */}
@@ -518,7 +606,8 @@ export function EditOrderForm({ order, inventoryItems }: EditOrderFormProps) {
                                     </SelectTrigger>
                                 </FormControl>
                                 <SelectContent>
-                                     {OrderStatusEnum.options.map(status => (
+                                     {/* Current status plus plain manual transitions; ones with side effects live on the order page */}
+                                     {editableStatuses.map(status => (
                                         <SelectItem key={status} value={status}>{status}</SelectItem>
                                      ))}
                                 </SelectContent>
@@ -527,50 +616,73 @@ export function EditOrderForm({ order, inventoryItems }: EditOrderFormProps) {
                             </FormItem>
                             )}
                         />
-                         <FormField
+                        <FormField
                             control={form.control}
-                            name="paymentStatus"
+                            name="shippingMethod"
                             render={({ field }) => (
                             <FormItem>
-                                <FormLabel>Payment Status *</FormLabel>
-                                {/* Use UPDATED enum values for Select */}
-                                <Select onValueChange={field.onChange} value={field.value} disabled={isSubmitting}>
+                                <FormLabel>Shipping Method (Optional)</FormLabel>
                                 <FormControl>
-                                    <SelectTrigger aria-invalid={!!form.formState.errors.paymentStatus}>
-                                    <SelectValue placeholder="Select payment status" />
-                                    </SelectTrigger>
+                                <Input placeholder="e.g., Standard Ground" {...field} value={field.value ?? ''} aria-invalid={!!form.formState.errors.shippingMethod} disabled={isSubmitting}/>
                                 </FormControl>
-                                <SelectContent>
-                                     {PaymentStatusEnum.options.map(status => (
-                                        <SelectItem key={status} value={status}>{status}</SelectItem>
-                                     ))}
-                                </SelectContent>
-                                </Select>
                                 <FormMessage />
                             </FormItem>
                             )}
                         />
                         <FormField
                             control={form.control}
-                            name="shippingMethod"
+                            name="shippingCharge"
                             render={({ field }) => (
                             <FormItem>
-                                <FormLabel>Shipping Method (Optional)</FormLabel>
+                                <FormLabel>Shipping Charge (₹)</FormLabel>
                                 <FormControl>
-                                <Input placeholder="e.g., Standard Ground" {...field} value={field.value ?? ''} aria-invalid={!!form.formState.errors.shippingMethod} disabled={isSubmitting}/>
+                                <Input type="number" step="0.01" min={0} placeholder="0.00" {...field} value={field.value ?? ''} onChange={e => field.onChange(e.target.value === '' ? undefined : parseFloat(e.target.value))} aria-invalid={!!form.formState.errors.shippingCharge} disabled={isSubmitting}/>
+                                </FormControl>
+                                <FormMessage />
+                            </FormItem>
+                            )}
+                        />
+                        <FormField
+                            control={form.control}
+                            name="fulfillmentLocationId"
+                            render={({ field }) => (
+                            <FormItem>
+                                <FormLabel>Pick From *</FormLabel>
+                                <Select onValueChange={field.onChange} defaultValue={field.value} disabled={isSubmitting}>
+                                <FormControl>
+                                    <SelectTrigger aria-invalid={!!form.formState.errors.fulfillmentLocationId}>
+                                    <SelectValue placeholder="Select location" />
+                                    </SelectTrigger>
                                 </FormControl>
+                                <SelectContent>
+                                    {locations.map(location => (
+                                        <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                                </Select>
+                                <FormDescription>Changing this moves the order&apos;s stock; not possible once anything has shipped.</FormDescription>
                                 <FormMessage />
                             </FormItem>
                             )}
                         />
                      </div>
+                     <h3 className="text-lg font-semibold border-b pb-2">Discounts</h3>
+                     <OrderDiscountFields
+                       promo={promo}
+                       onPromoChange={setPromo}
+                       orderValue={orderTotals.subtotal}
+                       amounts={{ manual: discountBreakdown.orderDiscounts[0], promo: discountBreakdown.orderDiscounts[1] }}
+                       applied={order.discounts}
+                       orderId={order.id}
+                       disabled={isSubmitting}
+                     />
+                     {order.paymentTerms && <CreditApprovalFields paymentTerms={order.paymentTerms} creditLimit={creditLimit} disabled={isSubmitting} />}
                  </div>
 
                 {/* Order Total */}
                  <div className="space-y-2 self-end">
                     <h3 className="text-lg font-semibold border-b pb-2 flex items-center gap-2 justify-end"><DollarSign className="h-5 w-5 text-muted-foreground" /> Order Total</h3>
-                    <p className="text-3xl font-bold text-primary text-right">₹{orderTotal.toFixed(2)}</p>
-                    <p className="text-xs text-muted-foreground text-right">(Excludes tax/shipping for now)</p>
+                    <OrderTotalsSummary totals={orderTotals} gst={orderGst} />
                  </div>
              </div>
 
@@ -0,0 +1,102 @@
+"use client";
+
+import * as React from "react";
+import { useFormContext, useWatch } from "react-hook-form";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { DEPOSIT_PERCENT, getDepositAmount } from "@/lib/orders/payments";
+import { PAYMENT_METHOD_LABELS, PaymentMethodEnum, type PaymentMethod } from "@/schemas/payment";
+import type { OrderInput } from "@/schemas/order";
+
+interface InitialPaymentFieldsProps {
+  orderTotal: number; // Grand total from the form's preview
+  disabled?: boolean;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+// Money taken when the order is placed, usually a deposit on custom doors. Left empty, nothing is recorded.
+export function InitialPaymentFields({ orderTotal, disabled }: InitialPaymentFieldsProps) {
+  const form = useFormContext<OrderInput>();
+  const { can } = useCurrentUser();
+  const payment = useWatch({ control: form.control, name: 'initialPayment' });
+  const [method, setMethod] = React.useState<PaymentMethod>(payment?.method ?? 'cash');
+  const [reference, setReference] = React.useState(payment?.reference ?? '');
+
+  if (!can('payments:record')) {
+    return null;
+  }
+
+  const setPayment = (amount: number | undefined, changes: { method?: PaymentMethod; reference?: string } = {}) => {
+    const nextMethod = changes.method ?? method;
+    const nextReference = changes.reference ?? reference;
+    form.setValue(
+      'initialPayment',
+      amount ? { amount, method: nextMethod, reference: nextReference || undefined, paidOn: payment?.paidOn ?? today() } : undefined,
+      { shouldDirty: true }
+    );
+    form.clearErrors('initialPayment');
+  };
+  const error = form.formState.errors.initialPayment;
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-lg font-semibold border-b pb-2">Payment</h3>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 items-end">
+        <div className="space-y-2">
+          <Label htmlFor="initial-payment-amount">Amount Received (₹)</Label>
+          <Input
+            id="initial-payment-amount"
+            type="number"
+            step="0.01"
+            min={0}
+            placeholder="None"
+            value={payment?.amount ?? ''}
+            onChange={(e) => setPayment(e.target.value === '' ? undefined : parseFloat(e.target.value))}
+            disabled={disabled}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Method</Label>
+          <Select
+            value={method}
+            onValueChange={(value) => { setMethod(value as PaymentMethod); setPayment(payment?.amount, { method: value as PaymentMethod }); }}
+            disabled={disabled}
+          >
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {PaymentMethodEnum.options.map((option) => (
+                <SelectItem key={option} value={option}>{PAYMENT_METHOD_LABELS[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="initial-payment-reference">Reference</Label>
+          <Input
+            id="initial-payment-reference"
+            placeholder="Slip, UTR or cheque no."
+            value={reference}
+            onChange={(e) => { setReference(e.target.value); setPayment(payment?.amount, { reference: e.target.value }); }}
+            disabled={disabled}
+          />
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+        <Button type="button" variant="link" size="sm" className="h-auto p-0" onClick={() => setPayment(getDepositAmount(orderTotal))} disabled={disabled || orderTotal <= 0}>
+          Take a {DEPOSIT_PERCENT}% deposit (₹{getDepositAmount(orderTotal).toFixed(2)})
+        </Button>
+        <span>·</span>
+        <Button type="button" variant="link" size="sm" className="h-auto p-0" onClick={() => setPayment(orderTotal)} disabled={disabled || orderTotal <= 0}>
+          Paid in full
+        </Button>
+        {payment?.amount ? <span>· The order starts in Processing once paid.</span> : null}
+      </div>
+      {error?.message && <p className="text-sm font-medium text-destructive">{error.message}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { issueInvoiceAction } from "@/app/orders/actions";
+import { FileText, Loader2 } from "lucide-react";
+
+interface IssueInvoiceButtonProps {
+  orderId: string;
+}
+
+// Gives the order the next invoice number. The number can't be taken back, so it's confirmed first.
+export function IssueInvoiceButton({ orderId }: IssueInvoiceButtonProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const { can } = useCurrentUser();
+  const [isPending, setIsPending] = React.useState(false);
+
+  if (!can('orders:invoice')) {
+    return null;
+  }
+
+  const handleIssue = async () => {
+    setIsPending(true);
+    try {
+      const result = await issueInvoiceAction(orderId);
+      if (result.success) {
+        toast({ title: "Invoice Issued", description: result.message });
+        router.refresh();
+      } else {
+        toast({ variant: "destructive", title: "Failed to Issue Invoice", description: result.message });
+      }
+    } catch (error) {
+      console.error("Error issuing invoice:", error);
+      toast({ variant: "destructive", title: "Error", description: "An unexpected error occurred while issuing the invoice." });
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button size="sm" variant="outline" disabled={isPending}>
+          {isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileText className="mr-2 h-4 w-4" />}
+          Issue Invoice
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Issue an invoice for this order?</AlertDialogTitle>
+          <AlertDialogDescription>
+            The order takes the next number in this year&apos;s invoice series and keeps it. The invoice is printed as the order stands now, and the order can no longer be edited.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Back</AlertDialogCancel>
+          <AlertDialogAction onClick={handleIssue}>Issue Invoice</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
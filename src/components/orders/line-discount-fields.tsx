@@ -0,0 +1,125 @@
+"use client";
+
+import * as React from "react";
+import { useFormContext, useWatch } from "react-hook-form";
+
+import { Button } from "@/components/ui/button";
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { MAX_DISCOUNT_PERCENT } from "@/lib/auth/permissions";
+import { formatDiscount, hasDiscount } from "@/lib/orders/discounts";
+import { DISCOUNT_TYPE_LABELS, DiscountTypeEnum, type AppliedDiscount } from "@/schemas/discount";
+import type { OrderInput } from "@/schemas/order";
+import { Percent, X } from "lucide-react";
+
+interface LineDiscountFieldsProps {
+  index: number;
+  amount: number; // ₹ the discount takes off the line, from the form's preview
+  applied?: AppliedDiscount; // The discount saved on the line, to show who gave it
+  disabled?: boolean;
+}
+
+// A discount off one order line. The server checks it against the role's limit again when the order is saved.
+export function LineDiscountFields({ index, amount, applied, disabled }: LineDiscountFieldsProps) {
+  const form = useFormContext<OrderInput>();
+  const { user } = useCurrentUser();
+  const maxPercent = user ? MAX_DISCOUNT_PERCENT[user.role] : 0;
+  const discount = useWatch({ control: form.control, name: `items.${index}.discount` });
+  const isUnchanged = !!applied && !!discount && applied.type === discount.type && applied.value === discount.value && (applied.reason || '') === (discount.reason || '');
+
+  const clearDiscount = () => {
+    form.setValue(`items.${index}.discount`, undefined, { shouldDirty: true });
+    form.clearErrors(`items.${index}.discount`);
+  };
+
+  if (maxPercent === 0) {
+    // Roles that can't give discounts still see one given earlier
+    return hasDiscount(discount) ? (
+      <p className="sm:col-span-2 md:col-span-4 text-xs text-muted-foreground">
+        {formatDiscount(discount)} (−₹{amount.toFixed(2)}){discount.reason ? `: ${discount.reason}` : ''}{applied ? `, given by ${applied.appliedBy.name}` : ''}
+      </p>
+    ) : null;
+  }
+
+  if (!discount) {
+    return (
+      <div className="sm:col-span-2 md:col-span-4">
+        <Button
+          type="button"
+          variant="link"
+          size="sm"
+          className="h-auto p-0"
+          onClick={() => form.setValue(`items.${index}.discount`, { type: 'percentage', value: 0 }, { shouldDirty: true })}
+          disabled={disabled}
+        >
+          <Percent className="mr-1 h-3 w-3" /> Add line discount
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="sm:col-span-2 md:col-span-4 space-y-2 rounded-md border border-dashed p-3">
+      <div className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_2fr_auto] gap-4 items-start">
+        <FormField
+          control={form.control}
+          name={`items.${index}.discount.type`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Discount</FormLabel>
+              <Select value={field.value} onValueChange={field.onChange} disabled={disabled}>
+                <FormControl>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {DiscountTypeEnum.options.map((type) => (
+                    <SelectItem key={type} value={type}>{DISCOUNT_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name={`items.${index}.discount.value`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{discount.type === 'percentage' ? 'Percent' : 'Amount (₹)'}</FormLabel>
+              <FormControl>
+                <Input type="number" step="0.01" min={0} {...field} value={field.value ?? ''} onChange={e => field.onChange(parseFloat(e.target.value) || 0)} disabled={disabled} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name={`items.${index}.discount.reason`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Reason</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g., Floor model" {...field} value={field.value ?? ''} disabled={disabled} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="button" variant="ghost" size="sm" className="sm:mt-8" onClick={clearDiscount} disabled={disabled}>
+          <X className="mr-1 h-4 w-4" /> Remove
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        −₹{amount.toFixed(2)} off this line · up to {maxPercent}% for your role
+        {isUnchanged && ` · given by ${applied!.appliedBy.name}`}
+      </p>
+      {form.formState.errors.items?.[index]?.discount?.message && (
+        <p className="text-sm font-medium text-destructive">{form.formState.errors.items[index]!.discount!.message}</p>
+      )}
+    </div>
+  );
+}
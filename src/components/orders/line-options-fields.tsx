@@ -0,0 +1,128 @@
+"use client";
+
+import * as React from "react";
+import { useFormContext, useWatch } from "react-hook-form";
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { ItemOptions } from "@/schemas/inventory";
+import type { OrderInput } from "@/schemas/order";
+import type { PriceTier } from "@/schemas/customer";
+import { formatPriceModifier, priceLine, validateLineChoices } from "@/lib/orders/pricing";
+
+// Select items can't have an empty value; stands for the standard build (no choice stored)
+const STANDARD_CHOICE = 'standard';
+
+type LineChoices = NonNullable<OrderInput['items'][number]['customizations']>;
+
+const CHOICE_FIELDS: { field: 'material' | 'finish' | 'hardware'; group: 'materials' | 'finishes' | 'hardware'; label: string }[] = [
+  { field: 'material', group: 'materials', label: 'Material' },
+  { field: 'finish', group: 'finishes', label: 'Finish' },
+  { field: 'hardware', group: 'hardware', label: 'Hardware' },
+];
+
+// Leaves out anything not chosen so the saved customizations only hold real choices
+function cleanChoices(choices: LineChoices): LineChoices {
+  const cleaned: LineChoices = {};
+  CHOICE_FIELDS.forEach(({ field }) => {
+    if (choices[field]) cleaned[field] = choices[field];
+  });
+  const { height, width } = choices.size || {};
+  if (typeof height === 'number' || typeof width === 'number') {
+    cleaned.size = {
+      ...(typeof height === 'number' && { height }),
+      ...(typeof width === 'number' && { width }),
+    };
+  }
+  return cleaned;
+}
+
+interface LineOptionsFieldsProps {
+  index: number;
+  item: { price: number; options?: ItemOptions } | null | undefined; // The line's inventory item
+  priceTier?: PriceTier; // The customer's, so the preview matches what the server charges
+  disabled?: boolean;
+}
+
+// Option pickers for an order line. Each change reprices the line's unit price from the item's options;
+// the server prices the line again when the order is saved.
+export function LineOptionsFields({ index, item, priceTier, disabled }: LineOptionsFieldsProps) {
+  const form = useFormContext<OrderInput>();
+  const choices = useWatch({ control: form.control, name: `items.${index}.customizations` }) || {};
+  const options = item?.options;
+  const offered = CHOICE_FIELDS.filter(({ group }) => (options?.[group]?.length || 0) > 0);
+
+  if (!item || (!offered.length && !options?.size)) {
+    return null;
+  }
+
+  const updateChoices = (patch: Partial<LineChoices>) => {
+    const next = cleanChoices({ ...choices, ...patch });
+    form.setValue(`items.${index}.customizations`, next, { shouldDirty: true });
+    form.setValue(`items.${index}.price`, priceLine(item, next, priceTier).unitPrice, { shouldDirty: true });
+    form.clearErrors(`items.${index}.customizations`);
+  };
+
+  const updateSize = (dimension: 'height' | 'width', value: string) => {
+    const parsed = parseFloat(value);
+    updateChoices({ size: { ...choices.size, [dimension]: Number.isNaN(parsed) ? undefined : parsed } });
+  };
+
+  const { adjustments } = priceLine(item, choices, priceTier);
+  const problems = Object.values(validateLineChoices(item, choices));
+  const serverError = form.formState.errors.items?.[index]?.customizations?.message;
+
+  return (
+    <div className="sm:col-span-2 md:col-span-4 space-y-2">
+      <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-4 gap-4">
+        {offered.map(({ field, group, label }) => (
+          <div key={field} className="space-y-2">
+            <Label>{label}</Label>
+            <Select
+              value={choices[field] || STANDARD_CHOICE}
+              onValueChange={(value) => updateChoices({ [field]: value === STANDARD_CHOICE ? undefined : value })}
+              disabled={disabled}
+            >
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={STANDARD_CHOICE}>Standard</SelectItem>
+                {options![group]!.map((choice) => (
+                  <SelectItem key={choice.value} value={choice.value}>
+                    {choice.value} ({formatPriceModifier(choice.modifier)})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+        {options?.size && (['width', 'height'] as const).map((dimension) => (
+          <div key={dimension} className="space-y-2">
+            <Label>Custom {dimension === 'height' ? 'Height' : 'Width'} (in)</Label>
+            <Input
+              type="number"
+              step="0.5"
+              placeholder={String(dimension === 'height' ? options.size!.standardHeight : options.size!.standardWidth)}
+              value={choices.size?.[dimension] ?? ''}
+              onChange={(e) => updateSize(dimension, e.target.value)}
+              disabled={disabled}
+            />
+          </div>
+        ))}
+      </div>
+      {options?.size && (
+        <p className="text-xs text-muted-foreground">
+          Standard size {options.size.standardWidth}×{options.size.standardHeight} in; custom sizes from {options.size.minWidth}×{options.size.minHeight} to {options.size.maxWidth}×{options.size.maxHeight} in (W×H) are made to order.
+        </p>
+      )}
+      {adjustments.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          ₹{item.price.toFixed(2)} base{adjustments.map((adjustment) => ` ${adjustment.amount < 0 ? '−' : '+'} ₹${Math.abs(adjustment.amount).toFixed(2)} ${adjustment.label}`).join('')}
+        </p>
+      )}
+      {(problems[0] || serverError) && (
+        <p className="text-sm font-medium text-destructive">{problems[0] || serverError}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+"use client";
+
+import * as React from "react";
+import { useFormContext, useWatch } from "react-hook-form";
+
+import { Button } from "@/components/ui/button";
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import type { OrderInput } from "@/schemas/order";
+import { Pencil, X } from "lucide-react";
+
+interface LinePriceOverrideFieldsProps {
+  index: number;
+  disabled?: boolean;
+}
+
+// Lets permitted roles sell a line at a hand-set unit price. The list price stays on the line;
+// the server checks the permission and the reason again when the order is saved.
+export function LinePriceOverrideFields({ index, disabled }: LinePriceOverrideFieldsProps) {
+  const form = useFormContext<OrderInput>();
+  const { can } = useCurrentUser();
+  const canOverride = can('orders:override_price');
+  const [listPrice, priceOverride, reason] = useWatch({
+    control: form.control,
+    name: [`items.${index}.price`, `items.${index}.priceOverride`, `items.${index}.priceOverrideReason`],
+  });
+  const isOverridden = typeof priceOverride === 'number';
+
+  const clearOverride = () => {
+    form.setValue(`items.${index}.priceOverride`, undefined, { shouldDirty: true });
+    form.setValue(`items.${index}.priceOverrideReason`, undefined, { shouldDirty: true });
+    form.clearErrors([`items.${index}.priceOverride`, `items.${index}.priceOverrideReason`]);
+  };
+
+  if (!canOverride) {
+    // Roles without the permission can see an override made earlier but not change it
+    return isOverridden ? (
+      <p className="sm:col-span-2 md:col-span-4 text-xs text-muted-foreground">
+        Sold at ₹{priceOverride.toFixed(2)} instead of ₹{listPrice.toFixed(2)}{reason ? `: ${reason}` : ''}
+      </p>
+    ) : null;
+  }
+
+  if (!isOverridden) {
+    return (
+      <div className="sm:col-span-2 md:col-span-4">
+        <Button
+          type="button"
+          variant="link"
+          size="sm"
+          className="h-auto p-0"
+          onClick={() => form.setValue(`items.${index}.priceOverride`, listPrice, { shouldDirty: true })}
+          disabled={disabled}
+        >
+          <Pencil className="mr-1 h-3 w-3" /> Override price
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="sm:col-span-2 md:col-span-4 grid grid-cols-1 sm:grid-cols-[1fr_3fr_auto] gap-4 items-start rounded-md border border-dashed p-3">
+      <FormField
+        control={form.control}
+        name={`items.${index}.priceOverride`}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Sell At (₹)</FormLabel>
+            <FormControl>
+              <Input type="number" step="0.01" min={0} {...field} value={field.value ?? ''} onChange={e => field.onChange(parseFloat(e.target.value) || 0)} disabled={disabled} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={form.control}
+        name={`items.${index}.priceOverrideReason`}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Reason *</FormLabel>
+            <FormControl>
+              <Input placeholder="e.g., Matched competitor quote" {...field} value={field.value ?? ''} disabled={disabled} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <Button type="button" variant="ghost" size="sm" className="sm:mt-8" onClick={clearOverride} disabled={disabled}>
+        <X className="mr-1 h-4 w-4" /> Use List Price
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+"use client";
+
+import * as React from "react";
+import { useFormContext, useWatch } from "react-hook-form";
+
+import { Button } from "@/components/ui/button";
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { useToast } from "@/hooks/use-toast";
+import { checkPromoCodeAction } from "@/app/orders/actions";
+import { MAX_DISCOUNT_PERCENT } from "@/lib/auth/permissions";
+import { formatDiscount } from "@/lib/orders/discounts";
+import { DISCOUNT_TYPE_LABELS, DiscountTypeEnum, type AppliedDiscount, type DiscountType } from "@/schemas/discount";
+import type { OrderInput } from "@/schemas/order";
+import { Loader2, Tag, X } from "lucide-react";
+
+// A promo code's terms, kept by the form for the totals preview
+export interface PromoTerms {
+  code: string;
+  type: DiscountType;
+  value: number;
+}
+
+interface OrderDiscountFieldsProps {
+  promo: PromoTerms | null;
+  onPromoChange: (promo: PromoTerms | null) => void;
+  orderValue: number; // Lines at their selling price, for the promo code's minimum order value
+  amounts: { manual: number; promo: number }; // ₹ each discount takes off, from the form's preview
+  applied?: AppliedDiscount[]; // Order discounts already saved, to show who gave them
+  orderId?: string; // Set when editing
+  disabled?: boolean;
+}
+
+// Whole-order discounts: one entered by hand (within the role's limit) and a promo code
+export function OrderDiscountFields({ promo, onPromoChange, orderValue, amounts, applied = [], orderId, disabled }: OrderDiscountFieldsProps) {
+  const form = useFormContext<OrderInput>();
+  const { toast } = useToast();
+  const { user } = useCurrentUser();
+  const maxPercent = user ? MAX_DISCOUNT_PERCENT[user.role] : 0;
+  const orderDiscount = useWatch({ control: form.control, name: 'orderDiscount' });
+  const [codeInput, setCodeInput] = React.useState('');
+  const [isChecking, setIsChecking] = React.useState(false);
+
+  const savedManual = applied.find((discount) => !discount.promoCode);
+  const savedPromo = applied.find((discount) => discount.promoCode);
+  const manualUnchanged = !!savedManual && !!orderDiscount && savedManual.type === orderDiscount.type && savedManual.value === orderDiscount.value && (savedManual.reason || '') === (orderDiscount.reason || '');
+
+  const applyPromoCode = async () => {
+    if (!codeInput.trim()) return;
+    setIsChecking(true);
+    try {
+      const result = await checkPromoCodeAction(codeInput, orderValue, orderId);
+      if (result.success && result.promo) {
+        form.setValue('promoCode', result.promo.code, { shouldDirty: true });
+        form.clearErrors('promoCode');
+        onPromoChange(result.promo);
+        setCodeInput('');
+        toast({ title: "Promo Code Applied", description: result.message });
+      } else {
+        form.setError('promoCode', { message: result.message });
+      }
+    } catch (error) {
+      console.error("Error checking promo code:", error);
+      form.setError('promoCode', { message: "Couldn't check the promo code." });
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const removePromoCode = () => {
+    form.setValue('promoCode', '', { shouldDirty: true });
+    form.clearErrors('promoCode');
+    onPromoChange(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 items-start">
+        <FormField
+          control={form.control}
+          name="orderDiscount.type"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Order Discount</FormLabel>
+              <Select
+                value={field.value ?? 'percentage'}
+                onValueChange={(type) => form.setValue('orderDiscount', { type: type as DiscountType, value: orderDiscount?.value ?? 0, reason: orderDiscount?.reason }, { shouldDirty: true })}
+                disabled={disabled || maxPercent === 0}
+              >
+                <FormControl>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {DiscountTypeEnum.options.map((type) => (
+                    <SelectItem key={type} value={type}>{DISCOUNT_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="orderDiscount.value"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{orderDiscount?.type === 'fixed' ? 'Amount (₹)' : 'Percent'}</FormLabel>
+              <FormControl>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min={0}
+                  placeholder="0"
+                  {...field}
+                  value={field.value || ''}
+                  onChange={e => form.setValue('orderDiscount', { type: orderDiscount?.type ?? 'percentage', value: parseFloat(e.target.value) || 0, reason: orderDiscount?.reason }, { shouldDirty: true })}
+                  disabled={disabled || maxPercent === 0}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="orderDiscount.reason"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Reason</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g., Bulk order" {...field} value={field.value ?? ''} disabled={disabled || maxPercent === 0 || !orderDiscount?.value} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {amounts.manual > 0 ? `−₹${amounts.manual.toFixed(2)} off the order · ` : ''}
+        {maxPercent === 0 ? "Your role can't give discounts." : `Up to ${maxPercent}% for your role, line and order discounts together.`}
+        {manualUnchanged && ` Given by ${savedManual!.appliedBy.name}.`}
+      </p>
+      {form.formState.errors.orderDiscount?.message && (
+        <p className="text-sm font-medium text-destructive">{form.formState.errors.orderDiscount.message}</p>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="promo-code">Promo Code</Label>
+        {promo ? (
+          <div className="flex items-center gap-2 text-sm">
+            <Tag className="h-4 w-4 text-primary" />
+            <span className="font-mono font-medium">{promo.code}</span>
+            <span className="text-muted-foreground">
+              {formatDiscount(promo)} (−₹{amounts.promo.toFixed(2)})
+              {savedPromo?.promoCode === promo.code && ` · applied by ${savedPromo.appliedBy.name}`}
+            </span>
+            <Button type="button" variant="ghost" size="sm" onClick={removePromoCode} disabled={disabled}>
+              <X className="mr-1 h-4 w-4" /> Remove
+            </Button>
+          </div>
+        ) : (
+          <div className="flex gap-2 max-w-sm">
+            <Input
+              id="promo-code"
+              placeholder="e.g., DIWALI10"
+              value={codeInput}
+              onChange={(e) => setCodeInput(e.target.value.toUpperCase())}
+              onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); applyPromoCode(); } }}
+              className="font-mono uppercase"
+              disabled={disabled || isChecking}
+            />
+            <Button type="button" variant="outline" onClick={applyPromoCode} disabled={disabled || isChecking || !codeInput.trim()}>
+              {isChecking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Apply
+            </Button>
+          </div>
+        )}
+        {form.formState.errors.promoCode?.message && (
+          <p className="text-sm font-medium text-destructive">{form.formState.errors.promoCode.message}</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DEFAULT_ORDER_LIST_PARAMS, getOrderListHref, hasOrderListFilters, type OrderListParams } from "@/lib/orders/order-list";
+import { OrderStatusEnum } from "@/schemas/order";
+import { PAYMENT_STATUS_LABELS, PaymentStatusEnum, type PaymentStatus } from "@/schemas/payment";
+import { Filter, X } from "lucide-react";
+
+// Select items can't have an empty value; stands for "any"
+const ANY = 'all';
+
+interface OrderListFiltersProps {
+  params: OrderListParams;
+  customers: { id: string; name: string }[];
+}
+
+const parseAmount = (value: string) => (value.trim() === '' ? undefined : Math.max(0, Number(value)) || 0);
+
+// The filters are kept in the URL (see getOrderListHref) so the server page queries with them and the
+// view can be bookmarked. Applying them goes back to the first page; the sort is kept.
+export function OrderListFilters({ params, customers }: OrderListFiltersProps) {
+  const router = useRouter();
+  const [status, setStatus] = React.useState(params.status ?? ANY);
+  const [payment, setPayment] = React.useState<string>(params.payment ?? ANY);
+  const [customerId, setCustomerId] = React.useState(params.customerId ?? ANY);
+  const [search, setSearch] = React.useState(params.search ?? '');
+  const [from, setFrom] = React.useState(params.from ?? '');
+  const [to, setTo] = React.useState(params.to ?? '');
+  const [minTotal, setMinTotal] = React.useState(params.minTotal?.toString() ?? '');
+  const [maxTotal, setMaxTotal] = React.useState(params.maxTotal?.toString() ?? '');
+
+  const applyFilters = (event: React.FormEvent) => {
+    event.preventDefault();
+    router.push(getOrderListHref(params, {
+      status: status === ANY ? undefined : status,
+      payment: payment === ANY ? undefined : (payment as PaymentStatus),
+      customerId: customerId === ANY ? undefined : customerId,
+      search: search.trim() || undefined,
+      from: from || undefined,
+      to: to || undefined,
+      minTotal: parseAmount(minTotal),
+      maxTotal: parseAmount(maxTotal),
+    }));
+  };
+
+  const clearFilters = () => router.push(getOrderListHref({ ...DEFAULT_ORDER_LIST_PARAMS, sort: params.sort, dir: params.dir }));
+
+  return (
+    <form onSubmit={applyFilters} className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 items-end">
+      <div className="space-y-2">
+        <Label>Status</Label>
+        <Select value={status} onValueChange={setStatus}>
+          <SelectTrigger><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>All Statuses</SelectItem>
+            {OrderStatusEnum.options.map((option) => <SelectItem key={option} value={option}>{option}</SelectItem>)}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label>Payment</Label>
+        <Select value={payment} onValueChange={setPayment}>
+          <SelectTrigger><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Any Payment State</SelectItem>
+            {PaymentStatusEnum.options.map((option) => <SelectItem key={option} value={option}>{PAYMENT_STATUS_LABELS[option]}</SelectItem>)}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2 sm:col-span-2">
+        <Label>Customer</Label>
+        <Select value={customerId} onValueChange={setCustomerId}>
+          <SelectTrigger><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>All Customers</SelectItem>
+            {customers.map((customer) => <SelectItem key={customer.id} value={customer.id}>{customer.name}</SelectItem>)}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2 sm:col-span-2">
+        <Label htmlFor="orders-search">Customer Name</Label>
+        <Input id="orders-search" placeholder="Starts with... (as typed on the order)" value={search} onChange={(e) => setSearch(e.target.value)} />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="orders-from">Ordered From</Label>
+        <Input id="orders-from" type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="orders-to">Ordered To</Label>
+        <Input id="orders-to" type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="orders-min-total">Total From (₹)</Label>
+        <Input id="orders-min-total" type="number" min={0} step="0.01" placeholder="Any" value={minTotal} onChange={(e) => setMinTotal(e.target.value)} />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="orders-max-total">Total To (₹)</Label>
+        <Input id="orders-max-total" type="number" min={0} step="0.01" placeholder="Any" value={maxTotal} onChange={(e) => setMaxTotal(e.target.value)} />
+      </div>
+      <div className="flex gap-2 sm:col-span-2 justify-end">
+        {hasOrderListFilters(params) && (
+          <Button type="button" variant="ghost" onClick={clearFilters}><X className="mr-2 h-4 w-4" /> Clear Filters</Button>
+        )}
+        <Button type="submit" variant="outline"><Filter className="mr-2 h-4 w-4" /> Apply Filters</Button>
+      </div>
+    </form>
+  );
+}
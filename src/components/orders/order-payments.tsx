@@ -0,0 +1,308 @@
+"use client";
+
+import * as React from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { useRouter } from "next/navigation";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { recordPaymentAction, voidPaymentAction } from "@/app/orders/actions";
+import { DEPOSIT_PERCENT, getAmountOwed, getDepositAmount } from "@/lib/orders/payments";
+import {
+  PaymentInputSchema,
+  PaymentMethodEnum,
+  PAYMENT_METHOD_LABELS,
+  PAYMENT_STATUS_LABELS,
+  type OrderPaymentSummary,
+  type PaymentInput,
+  type PaymentRecord,
+  type PaymentStatus,
+} from "@/schemas/payment";
+import { Ban, CreditCard, Loader2, PlusCircle } from "lucide-react";
+
+interface OrderPaymentsProps {
+  orderId: string;
+  orderTotal: number;
+  orderStatus: string;
+  payments: PaymentRecord[];
+  summary: OrderPaymentSummary;
+}
+
+const getPaymentStatusVariant = (status: PaymentStatus): "default" | "secondary" | "outline" | "destructive" => {
+  switch (status) {
+    case 'paid':
+      return 'default';
+    case 'partially_paid':
+      return 'secondary';
+    case 'overpaid':
+    case 'refunded':
+      return 'destructive';
+    default:
+      return 'outline';
+  }
+};
+
+// Payments taken against the order, with the balance still owed
+export function OrderPayments({ orderId, orderTotal, orderStatus, payments, summary }: OrderPaymentsProps) {
+  const { can } = useCurrentUser();
+  const canRecord = can('payments:record') && summary.balanceDue > 0 && !['Cancelled', 'Refunded'].includes(orderStatus);
+
+  return (
+    <Card className="shadow-md">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2"><CreditCard className="h-5 w-5 text-muted-foreground" /> Payments</CardTitle>
+          <CardDescription className="flex flex-wrap items-center gap-2">
+            <Badge variant={getPaymentStatusVariant(summary.status)}>{PAYMENT_STATUS_LABELS[summary.status]}</Badge>
+            <span>₹{summary.amountPaid.toFixed(2)} paid of ₹{orderTotal.toFixed(2)}</span>
+            {summary.balanceDue > 0 && <span className="font-medium text-foreground">· ₹{summary.balanceDue.toFixed(2)} due</span>}
+            {summary.status === 'overpaid' && <span className="font-medium text-destructive">· ₹{(summary.amountPaid - getAmountOwed({ status: orderStatus, totalAmount: orderTotal })).toFixed(2)} to give back</span>}
+          </CardDescription>
+        </div>
+        {canRecord && <RecordPaymentDialog orderId={orderId} summary={summary} />}
+      </CardHeader>
+      <CardContent>
+        {payments.length === 0 ? (
+          <p className="text-sm text-muted-foreground italic">No payments recorded yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Method</TableHead>
+                <TableHead>Reference</TableHead>
+                <TableHead>Recorded By</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead className="text-right"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {payments.map((payment) => (
+                <TableRow key={payment.id} className={payment.voided ? 'text-muted-foreground' : undefined}>
+                  <TableCell>{format(new Date(`${payment.paidOn}T00:00:00`), 'PP')}</TableCell>
+                  <TableCell>
+                    {PAYMENT_METHOD_LABELS[payment.method] || payment.method}
+                    {payment.kind === 'refund' && <Badge variant="outline" className="ml-2">Refund</Badge>}
+                  </TableCell>
+                  <TableCell className="text-sm">{payment.reference || '—'}</TableCell>
+                  <TableCell className="text-sm">{payment.recordedBy?.name || 'Unknown'}</TableCell>
+                  <TableCell className={`text-right font-medium ${payment.voided ? 'line-through' : ''}`}>
+                    {payment.kind === 'refund' ? '−' : ''}₹{payment.amount.toFixed(2)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {payment.voided ? (
+                      <span className="text-xs" title={`By ${payment.voided.by.name} on ${format(new Date(payment.voided.at), 'PP')}`}>Voided: {payment.voided.reason}</span>
+                    ) : (
+                      can('payments:void') && <VoidPaymentDialog orderId={orderId} payment={payment} />
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function RecordPaymentDialog({ orderId, summary }: { orderId: string; summary: OrderPaymentSummary }) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = React.useState(false);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  // Nothing paid yet: suggest the usual deposit; otherwise what's left
+  const suggestedAmount = summary.amountPaid > 0 ? summary.balanceDue : getDepositAmount(summary.balanceDue);
+
+  const form = useForm<PaymentInput>({
+    resolver: zodResolver(PaymentInputSchema),
+    defaultValues: { amount: suggestedAmount, method: 'cash', reference: "", paidOn: new Date().toISOString().slice(0, 10) },
+  });
+
+  const onSubmit = async (values: PaymentInput) => {
+    setIsSubmitting(true);
+    try {
+      const result = await recordPaymentAction(orderId, values);
+      if (result.success) {
+        toast({ title: "Payment Recorded", description: result.message });
+        setIsOpen(false);
+        router.refresh();
+      } else {
+        toast({ variant: "destructive", title: "Payment Not Recorded", description: result.message });
+        if (result.errors) {
+          Object.entries(result.errors).forEach(([field, messages]) => {
+            form.setError(field as keyof PaymentInput, { type: 'server', message: messages?.join(', ') });
+          });
+        }
+      }
+    } catch (error) {
+      console.error("Error recording payment:", error);
+      toast({ variant: "destructive", title: "Error", description: "An unexpected error occurred while recording the payment." });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!isSubmitting) { setIsOpen(open); if (open) form.reset({ ...form.getValues(), amount: suggestedAmount }); } }}>
+      <DialogTrigger asChild>
+        <Button size="sm"><PlusCircle className="mr-2 h-4 w-4" /> Record Payment</Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Record Payment</DialogTitle>
+          <DialogDescription>₹{summary.balanceDue.toFixed(2)} is still owed on this order.</DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Amount (₹) *</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" min={0} {...field} value={field.value ?? ''} onChange={e => field.onChange(e.target.value === '' ? undefined : parseFloat(e.target.value))} />
+                    </FormControl>
+                    {summary.amountPaid === 0 && (
+                      <FormDescription>Suggested: a {DEPOSIT_PERCENT}% deposit.</FormDescription>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="method"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Method *</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {PaymentMethodEnum.options.map((method) => (
+                          <SelectItem key={method} value={method}>{PAYMENT_METHOD_LABELS[method]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="paidOn"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Received On *</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="reference"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Reference</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Slip, UTR or cheque no." {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsOpen(false)} disabled={isSubmitting}>Cancel</Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Record Payment
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function VoidPaymentDialog({ orderId, payment }: { orderId: string; payment: PaymentRecord }) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = React.useState(false);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const [reason, setReason] = React.useState('');
+
+  const handleVoid = async () => {
+    setIsSubmitting(true);
+    try {
+      const result = await voidPaymentAction(orderId, payment.id, reason);
+      if (result.success) {
+        toast({ title: "Payment Voided", description: result.message });
+        setIsOpen(false);
+        setReason('');
+        router.refresh();
+      } else {
+        toast({ variant: "destructive", title: "Void Failed", description: result.message });
+      }
+    } catch (error) {
+      console.error("Error voiding payment:", error);
+      toast({ variant: "destructive", title: "Error", description: "An unexpected error occurred while voiding the payment." });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!isSubmitting) setIsOpen(open); }}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="ghost"><Ban className="mr-2 h-4 w-4" /> Void</Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Void this {payment.kind}?</DialogTitle>
+          <DialogDescription>
+            ₹{payment.amount.toFixed(2)} by {PAYMENT_METHOD_LABELS[payment.method] || payment.method} will stay on the order but no longer count towards what&apos;s been paid.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor={`void-reason-${payment.id}`}>Reason *</Label>
+          <Textarea id={`void-reason-${payment.id}`} rows={2} placeholder="e.g., Cheque bounced" value={reason} onChange={(e) => setReason(e.target.value)} />
+        </div>
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => setIsOpen(false)} disabled={isSubmitting}>Cancel</Button>
+          <Button type="button" variant="destructive" onClick={handleVoid} disabled={isSubmitting || !reason.trim()}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Void Payment
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,525 @@
+"use client";
+
+import * as React from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { useRouter } from "next/navigation";
+import { format } from "date-fns";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { authoriseReturnAction, cancelReturnAction, receiveReturnAction, refundReturnAction } from "@/app/orders/actions";
+import { getReturnStatusVariant, type ReturnableLine } from "@/lib/orders/returns";
+import { PaymentMethodEnum, PAYMENT_METHOD_LABELS, type PaymentMethod } from "@/schemas/payment";
+import {
+  RETURN_REASON_LABELS,
+  ReturnReasonEnum,
+  ReturnRefundSchema,
+  type OrderReturn,
+  type ReturnReason,
+  type ReturnRefundInput,
+} from "@/schemas/return";
+import type { Location } from "@/schemas/location";
+import { Ban, Loader2, PackageCheck, PlusCircle, Undo2, Wallet } from "lucide-react";
+
+interface OrderReturnsProps {
+  orderId: string;
+  returnableLines: ReturnableLine[];
+  returns: OrderReturn[];
+  refundDue: Record<string, number>; // Return id -> most that can be refunded on it now
+  refundMethod: PaymentMethod; // How the order was last paid; refunds usually go back the same way
+  locations: Pick<Location, 'id' | 'name'>[]; // Default location first
+}
+
+// Returns taken against the order, from authorisation through check-in and refund
+export function OrderReturns({ orderId, returnableLines, returns, refundDue, refundMethod, locations }: OrderReturnsProps) {
+  const { can } = useCurrentUser();
+  const canAuthorise = can('returns:manage') && returnableLines.some((line) => line.returnable > 0);
+
+  return (
+    <Card className="shadow-md">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2"><Undo2 className="h-5 w-5 text-muted-foreground" /> Returns</CardTitle>
+          <CardDescription>Delivered goods the customer is sending back. Only restockable units go back into stock.</CardDescription>
+        </div>
+        {canAuthorise && <AuthoriseReturnDialog orderId={orderId} lines={returnableLines.filter((line) => line.returnable > 0)} />}
+      </CardHeader>
+      <CardContent>
+        {returns.length === 0 ? (
+          <p className="text-sm text-muted-foreground italic">No returns on this order.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Authorised</TableHead>
+                <TableHead>Items</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead className="text-right">Value</TableHead>
+                <TableHead className="text-center">Status</TableHead>
+                <TableHead className="text-right"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {returns.map((orderReturn) => (
+                <TableRow key={orderReturn.id}>
+                  <TableCell className="text-sm">
+                    {format(new Date(orderReturn.authorisedAt), 'PP')}
+                    <div className="text-xs text-muted-foreground">{orderReturn.authorisedBy?.name || 'Unknown'}</div>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {orderReturn.lines.map((line) => (
+                      <div key={line.lineKey}>
+                        {line.quantity} × {line.name}
+                        {typeof line.restockable === 'number' && (
+                          <span className="text-xs text-muted-foreground"> ({line.restockable} restocked{line.damaged ? `, ${line.damaged} damaged` : ''})</span>
+                        )}
+                      </div>
+                    ))}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {RETURN_REASON_LABELS[orderReturn.reason] || orderReturn.reason}
+                    {orderReturn.note && <div className="text-xs text-muted-foreground">{orderReturn.note}</div>}
+                  </TableCell>
+                  <TableCell className="text-right font-medium">
+                    ₹{orderReturn.value.toFixed(2)}
+                    {typeof orderReturn.refundAmount === 'number' && (
+                      <div className="text-xs font-normal text-muted-foreground">₹{orderReturn.refundAmount.toFixed(2)} refunded</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-center"><Badge variant={getReturnStatusVariant(orderReturn.status)}>{orderReturn.status}</Badge></TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      {orderReturn.status === 'Authorised' && can('returns:receive') && <ReceiveReturnDialog orderReturn={orderReturn} locations={locations} />}
+                      {orderReturn.status === 'Authorised' && can('returns:manage') && <CancelReturnButton returnId={orderReturn.id} />}
+                      {orderReturn.status === 'Received' && (
+                        (refundDue[orderReturn.id] ?? 0) > 0
+                          ? can('returns:manage') && <RefundReturnDialog orderReturn={orderReturn} refundDue={refundDue[orderReturn.id]} refundMethod={refundMethod} />
+                          : <span className="text-xs text-muted-foreground">No refund due</span>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function AuthoriseReturnDialog({ orderId, lines }: { orderId: string; lines: ReturnableLine[] }) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = React.useState(false);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const [quantities, setQuantities] = React.useState<Record<string, number>>({});
+  const [reason, setReason] = React.useState<ReturnReason>('defective');
+  const [note, setNote] = React.useState("");
+  const value = lines.reduce((sum, line) => sum + (quantities[line.lineKey] || 0) * line.unitValue, 0);
+
+  const setQuantity = (line: ReturnableLine, input: string) => {
+    const quantity = input === '' ? 0 : Math.min(line.returnable, Math.max(0, parseInt(input, 10) || 0));
+    setQuantities((prev) => ({ ...prev, [line.lineKey]: quantity }));
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    try {
+      const result = await authoriseReturnAction(orderId, {
+        lines: lines.map((line) => ({ lineKey: line.lineKey, quantity: quantities[line.lineKey] || 0 })),
+        reason,
+        note: note.trim() || undefined,
+      });
+      if (result.success) {
+        toast({ title: "Return Authorised", description: result.message });
+        setIsOpen(false);
+        setQuantities({});
+        setNote("");
+        router.refresh();
+      } else {
+        toast({ variant: "destructive", title: "Return Not Authorised", description: result.errors?.note?.[0] || result.message });
+      }
+    } catch (error) {
+      console.error("Error authorising return:", error);
+      toast({ variant: "destructive", title: "Error", description: "An unexpected error occurred while authorising the return." });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!isSubmitting) setIsOpen(open); }}>
+      <DialogTrigger asChild>
+        <Button size="sm"><PlusCircle className="mr-2 h-4 w-4" /> Authorise Return</Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Authorise Return</DialogTitle>
+          <DialogDescription>Enter how many of each delivered item the customer is sending back.</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead className="text-center">Returnable</TableHead>
+                <TableHead className="text-right">Unit Value</TableHead>
+                <TableHead className="w-[110px] text-right">Return</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {lines.map((line) => (
+                <TableRow key={line.lineKey}>
+                  <TableCell>
+                    <div className="font-medium">{line.name}</div>
+                    <div className="text-xs text-muted-foreground">{line.sku}</div>
+                  </TableCell>
+                  <TableCell className="text-center">{line.returnable}</TableCell>
+                  <TableCell className="text-right">₹{line.unitValue.toFixed(2)}</TableCell>
+                  <TableCell className="text-right">
+                    <Input
+                      type="number"
+                      min={0}
+                      max={line.returnable}
+                      className="h-8 w-20 ml-auto text-right"
+                      value={quantities[line.lineKey] ?? 0}
+                      onChange={(e) => setQuantity(line, e.target.value)}
+                      disabled={isSubmitting}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Reason *</Label>
+              <Select value={reason} onValueChange={(value) => setReason(value as ReturnReason)} disabled={isSubmitting}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {ReturnReasonEnum.options.map((option) => (
+                    <SelectItem key={option} value={option}>{RETURN_REASON_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="return-note">Note{reason === 'other' ? ' *' : ''}</Label>
+              <Textarea id="return-note" rows={2} placeholder="e.g., Hinge side scratched" value={note} onChange={(e) => setNote(e.target.value)} disabled={isSubmitting} />
+            </div>
+          </div>
+          <DialogFooter className="items-center">
+            <span className="mr-auto text-sm text-muted-foreground">Value to come back: ₹{value.toFixed(2)}</span>
+            <Button type="button" variant="outline" onClick={() => setIsOpen(false)} disabled={isSubmitting}>Cancel</Button>
+            <Button type="submit" disabled={isSubmitting || value === 0}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Authorise Return
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Every unit comes back either fit to sell again or damaged; defaults to all restockable
+function ReceiveReturnDialog({ orderReturn, locations }: { orderReturn: OrderReturn; locations: Pick<Location, 'id' | 'name'>[] }) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = React.useState(false);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const [restockable, setRestockable] = React.useState<Record<string, number>>(
+    () => Object.fromEntries(orderReturn.lines.map((line) => [line.lineKey, line.quantity]))
+  );
+  const [locationId, setLocationId] = React.useState(locations[0]?.id ?? "");
+  const [note, setNote] = React.useState("");
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    try {
+      const result = await receiveReturnAction(orderReturn.id, {
+        lines: orderReturn.lines.map((line) => ({
+          lineKey: line.lineKey,
+          restockable: restockable[line.lineKey] ?? 0,
+          damaged: line.quantity - (restockable[line.lineKey] ?? 0),
+        })),
+        locationId,
+        note: note.trim() || undefined,
+      });
+      if (result.success) {
+        toast({ title: "Return Received", description: result.message });
+        setIsOpen(false);
+        router.refresh();
+      } else {
+        toast({ variant: "destructive", title: "Return Not Received", description: result.message });
+      }
+    } catch (error) {
+      console.error("Error receiving return:", error);
+      toast({ variant: "destructive", title: "Error", description: "An unexpected error occurred while receiving the return." });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!isSubmitting) setIsOpen(open); }}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline"><PackageCheck className="mr-2 h-4 w-4" /> Receive</Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Receive Return</DialogTitle>
+          <DialogDescription>Check each unit: restockable ones go back into stock, damaged ones are written off.</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead className="text-center">Returned</TableHead>
+                <TableHead className="w-[110px] text-right">Restockable</TableHead>
+                <TableHead className="text-center">Damaged</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {orderReturn.lines.map((line) => (
+                <TableRow key={line.lineKey}>
+                  <TableCell>
+                    <div className="font-medium">{line.name}</div>
+                    <div className="text-xs text-muted-foreground">{line.sku}</div>
+                  </TableCell>
+                  <TableCell className="text-center">{line.quantity}</TableCell>
+                  <TableCell className="text-right">
+                    <Input
+                      type="number"
+                      min={0}
+                      max={line.quantity}
+                      className="h-8 w-20 ml-auto text-right"
+                      value={restockable[line.lineKey] ?? 0}
+                      onChange={(e) => setRestockable((prev) => ({ ...prev, [line.lineKey]: Math.min(line.quantity, Math.max(0, parseInt(e.target.value, 10) || 0)) }))}
+                      disabled={isSubmitting}
+                    />
+                  </TableCell>
+                  <TableCell className="text-center">{line.quantity - (restockable[line.lineKey] ?? 0)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Restock At *</Label>
+              <Select value={locationId} onValueChange={setLocationId} disabled={isSubmitting}>
+                <SelectTrigger><SelectValue placeholder="Choose a location" /></SelectTrigger>
+                <SelectContent>
+                  {locations.map((location) => (
+                    <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`receive-return-note-${orderReturn.id}`}>Note</Label>
+              <Textarea id={`receive-return-note-${orderReturn.id}`} rows={2} placeholder="e.g., Frame cracked on one unit" value={note} onChange={(e) => setNote(e.target.value)} disabled={isSubmitting} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setIsOpen(false)} disabled={isSubmitting}>Cancel</Button>
+            <Button type="submit" disabled={isSubmitting || !locationId}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Receive Return
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function RefundReturnDialog({ orderReturn, refundDue, refundMethod }: { orderReturn: OrderReturn; refundDue: number; refundMethod: PaymentMethod }) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = React.useState(false);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+  const form = useForm<ReturnRefundInput>({
+    resolver: zodResolver(ReturnRefundSchema),
+    defaultValues: { amount: refundDue, method: refundMethod, reference: "" },
+  });
+
+  const onSubmit = async (values: ReturnRefundInput) => {
+    setIsSubmitting(true);
+    try {
+      const result = await refundReturnAction(orderReturn.id, values);
+      if (result.success) {
+        toast({ title: "Refund Recorded", description: result.message });
+        setIsOpen(false);
+        router.refresh();
+      } else {
+        toast({ variant: "destructive", title: "Refund Not Recorded", description: result.message });
+        if (result.errors) {
+          Object.entries(result.errors).forEach(([field, messages]) => {
+            form.setError(field as keyof ReturnRefundInput, { type: 'server', message: messages?.join(', ') });
+          });
+        }
+      }
+    } catch (error) {
+      console.error("Error refunding return:", error);
+      toast({ variant: "destructive", title: "Error", description: "An unexpected error occurred while recording the refund." });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!isSubmitting) { setIsOpen(open); if (open) form.reset({ ...form.getValues(), amount: refundDue }); } }}>
+      <DialogTrigger asChild>
+        <Button size="sm"><Wallet className="mr-2 h-4 w-4" /> Refund</Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Refund Return</DialogTitle>
+          <DialogDescription>
+            The goods were worth ₹{orderReturn.value.toFixed(2)}; up to ₹{refundDue.toFixed(2)} of what was paid can go back.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Amount (₹) *</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" min={0} max={refundDue} {...field} value={field.value ?? ''} onChange={e => field.onChange(e.target.value === '' ? undefined : parseFloat(e.target.value))} />
+                    </FormControl>
+                    <FormDescription>Recorded as a refund in the order&apos;s payments.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="method"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Method *</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {PaymentMethodEnum.options.map((method) => (
+                          <SelectItem key={method} value={method}>{PAYMENT_METHOD_LABELS[method]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="reference"
+                render={({ field }) => (
+                  <FormItem className="col-span-2">
+                    <FormLabel>Reference</FormLabel>
+                    <FormControl>
+                      <Input placeholder="UTR or cheque no." {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsOpen(false)} disabled={isSubmitting}>Cancel</Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Record Refund
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function CancelReturnButton({ returnId }: { returnId: string }) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+  const handleCancel = async () => {
+    setIsSubmitting(true);
+    try {
+      const result = await cancelReturnAction(returnId);
+      if (result.success) {
+        toast({ title: "Return Cancelled", description: result.message });
+        router.refresh();
+      } else {
+        toast({ variant: "destructive", title: "Cancel Failed", description: result.message });
+      }
+    } catch (error) {
+      console.error("Error cancelling return:", error);
+      toast({ variant: "destructive", title: "Error", description: "An unexpected error occurred while cancelling the return." });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button size="sm" variant="ghost" disabled={isSubmitting}>
+          {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Ban className="mr-2 h-4 w-4" />}
+          Cancel
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Cancel this return?</AlertDialogTitle>
+          <AlertDialogDescription>The customer keeps the goods, and the units can be returned again later.</AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Back</AlertDialogCancel>
+          <AlertDialogAction onClick={handleCancel}>Cancel Return</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -1,131 +1,159 @@
-
 "use client";
 
 import * as React from "react";
+import { useRouter } from "next/navigation";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
-import { Switch } from "@/components/ui/switch";
-import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
-// import { updateOrderStatusAction, cancelOrderAction } from "@/app/orders/actions"; // Actions might need update too
-import type { Order } from "@/schemas/order"; // Schema needs update
-import { Loader2, Truck, PackageCheck, RotateCcw, XCircle } from "lucide-react";
+import { updateOrderStatusAction, cancelOrderAction } from "@/app/orders/actions";
+import { getAvailableOrderTransitions, type OrderStatusTransition, type OrderTransitionContext } from "@/lib/orders/status-machine";
+import { Loader2, Truck, PackageCheck, RotateCcw, XCircle, ArrowRight, Undo2 } from "lucide-react";
+import { useCurrentUser } from "@/hooks/use-current-user";
 
 interface OrderStatusUpdaterProps {
   orderId: string;
-  currentStatus: string; // Use string for now as enum might change
+  currentStatus: string;
+  transitionContext: OrderTransitionContext; // Facts for the status machine's guards
 }
 
-export function OrderStatusUpdater({ orderId, currentStatus }: OrderStatusUpdaterProps) {
+const getTransitionIcon = (transition: OrderStatusTransition) => {
+  switch (transition.to) {
+    case 'Cancelled': return <XCircle className="mr-2 h-4 w-4" />;
+    case 'Refunded': return <RotateCcw className="mr-2 h-4 w-4" />;
+    case 'Pending Payment': return transition.from === 'Cancelled' ? <Undo2 className="mr-2 h-4 w-4" /> : <ArrowRight className="mr-2 h-4 w-4" />;
+    case 'Shipped': return <Truck className="mr-2 h-4 w-4" />;
+    case 'Delivered': return <PackageCheck className="mr-2 h-4 w-4" />;
+    default: return <ArrowRight className="mr-2 h-4 w-4" />;
+  }
+};
+
+// Explains what a transition will do before it is confirmed
+const describeEffects = (transition: OrderStatusTransition): string => {
+  const notes: string[] = [];
+  if (transition.effects.includes('restock')) notes.push("The order's items will be returned to stock.");
+  if (transition.effects.includes('deduct_stock')) notes.push("The order's items will be taken out of stock again; any no longer in stock are backordered.");
+  if (transition.effects.includes('refund_record')) notes.push("A refund of everything paid on the order will be recorded.");
+  if (transition.effects.includes('create_shipment')) notes.push("Every in-stock item not yet on a shipment will be put on a new shipment marked Picked Up; backordered and made-to-order units stay behind.");
+  return notes.join(' ');
+};
+
+export function OrderStatusUpdater({ orderId, currentStatus, transitionContext }: OrderStatusUpdaterProps) {
+  const router = useRouter();
   const { toast } = useToast();
-  const [isUpdating, setIsUpdating] = React.useState(false);
-  const [isCancelling, setIsCancelling] = React.useState(false);
-  const [localStatus, setLocalStatus] = React.useState<string>(currentStatus);
+  const { can } = useCurrentUser();
+  const [pendingStatus, setPendingStatus] = React.useState<string | null>(null); // Transition being applied
+  const [confirmTransition, setConfirmTransition] = React.useState<OrderStatusTransition | null>(null);
 
-  React.useEffect(() => {
-    setLocalStatus(currentStatus);
-  }, [currentStatus]);
+  // Legal next states the current user is allowed to apply
+  const transitions = getAvailableOrderTransitions(currentStatus, transitionContext)
+    .filter((transition) => !transition.permission || can(transition.permission));
 
-  const handleStatusChange = async (newStatus: string) => {
-    // Basic prevention
-    if (isUpdating || isCancelling || newStatus === localStatus || localStatus === 'Cancelled') { // Assuming 'Cancelled' status exists
-      return;
-    }
-    console.warn("Status update logic needs rework for the new data structure.");
-    toast({ variant: "destructive", title: "Feature Disabled", description: "Order status update needs rework." });
-    // Original logic commented out
-    /*
-    setIsUpdating(true);
+  const applyTransition = async (transition: OrderStatusTransition) => {
+    if (pendingStatus) return;
+    setPendingStatus(transition.to);
     try {
-      // const result = await updateOrderStatusAction(orderId, newStatus); // Action needs update
-      // if (result.success) { ... } else { ... }
-    } catch (error) { ... } finally { setIsUpdating(false); }
-    */
+      const result = transition.to === 'Cancelled'
+        ? await cancelOrderAction(orderId)
+        : await updateOrderStatusAction(orderId, transition.to);
+      if (result.success) {
+        toast({ title: "Status Updated", description: result.message });
+        router.refresh(); // Reload order, shipments and history from the server
+      } else {
+        toast({ variant: "destructive", title: "Update Failed", description: result.message });
+      }
+    } catch (error) {
+      console.error("Error updating order status:", error);
+      toast({ variant: "destructive", title: "Error", description: "An unexpected error occurred while updating the status." });
+    } finally {
+      setPendingStatus(null);
+      setConfirmTransition(null);
+    }
   };
 
-    const handleCancelOrder = async () => {
-        if (isUpdating || isCancelling || localStatus === 'Cancelled') {
-            return;
-        }
-        console.warn("Order cancellation logic needs rework for the new data structure.");
-        toast({ variant: "destructive", title: "Feature Disabled", description: "Order cancellation needs rework." });
-        // Original logic commented out
-        /*
-        setIsCancelling(true);
-        try {
-            // const result = await cancelOrderAction(orderId); // Action needs update
-            // if (result.success) { ... } else { ... }
-        } catch (error) { ... } finally { setIsCancelling(false); }
-        */
-    };
+  // Transitions with side effects are confirmed first
+  const handleTransitionClick = (transition: OrderStatusTransition) => {
+    if (transition.effects.length > 0) {
+      setConfirmTransition(transition);
+    } else {
+      applyTransition(transition);
+    }
+  };
 
-  // Determine switch states based on simplified logic for now
-  const isProcessing = localStatus.toLowerCase().includes('processing') || localStatus.toLowerCase().includes('pending');
-  const isShipped = localStatus.toLowerCase().includes('shipped') || localStatus.toLowerCase().includes('transit');
-  const isDelivered = localStatus.toLowerCase().includes('delivered');
-  const isCancelled = localStatus.toLowerCase().includes('cancelled');
+  // Roles without status permission shouldn't see this card at all
+  if (!can('orders:update_status')) {
+    return null;
+  }
 
   return (
-    <Card className="shadow-md opacity-50 pointer-events-none"> {/* Disable visually and functionally */}
+    <Card className="shadow-md">
       <CardHeader>
-        <CardTitle className="flex items-center gap-2"><Truck className="h-5 w-5 text-muted-foreground"/> Order Status (Disabled)</CardTitle>
-        <CardDescription>This component needs updates for the new order data structure.</CardDescription>
+        <CardTitle className="flex items-center gap-2"><Truck className="h-5 w-5 text-muted-foreground"/> Order Status</CardTitle>
+        <CardDescription className="flex items-center gap-2">
+          Currently <Badge variant="secondary">{currentStatus}</Badge>
+        </CardDescription>
       </CardHeader>
-      <CardContent className="space-y-4 pt-4">
-        {isCancelled ? (
-             <div className="flex items-center space-x-3 p-4 bg-destructive/10 rounded-md border border-destructive/50">
-                <XCircle className="h-5 w-5 text-destructive" />
-                <Label className="text-destructive font-medium">Order Cancelled</Label>
-             </div>
+      <CardContent className="space-y-4">
+        {transitions.length === 0 ? (
+          <p className="text-sm text-muted-foreground italic">
+            {['Partially Shipped', 'Shipped'].includes(currentStatus)
+              ? "This status follows the order's shipments. Update them from the Shipments section."
+              : "No further status changes are available for this order."}
+          </p>
         ) : (
-            <>
-                {/* Placeholder switches */}
-                <div className="flex items-center justify-between space-x-3 p-4 bg-muted/30 rounded-md border">
-                 <div className="flex items-center gap-2">
-                    <PackageCheck className={`h-5 w-5 ${isProcessing ? 'text-primary' : 'text-muted-foreground'}`} />
-                     <Label htmlFor={`status-processing-${orderId}`} className="font-medium flex-1">
-                     Processing/Pending
-                     </Label>
-                 </div>
-                 <Switch id={`status-processing-${orderId}`} checked={isProcessing} disabled />
-                </div>
-
-                <div className="flex items-center justify-between space-x-3 p-4 bg-muted/30 rounded-md border">
-                 <div className="flex items-center gap-2">
-                    <Truck className={`h-5 w-5 ${isShipped ? 'text-primary' : 'text-muted-foreground'}`} />
-                     <Label htmlFor={`status-shipped-${orderId}`} className="font-medium flex-1">
-                     Shipped/In Transit
-                     </Label>
-                 </div>
-                  <Switch id={`status-shipped-${orderId}`} checked={isShipped} disabled />
-                </div>
-
-                <div className="flex items-center justify-between space-x-3 p-4 bg-muted/30 rounded-md border">
-                  <div className="flex items-center gap-2">
-                     <PackageCheck className={`h-5 w-5 ${isDelivered ? 'text-green-600' : 'text-muted-foreground'}`} />
-                     <Label htmlFor={`status-delivered-${orderId}`} className="font-medium flex-1">
-                     Delivered
-                     </Label>
-                  </div>
-                  <Switch id={`status-delivered-${orderId}`} checked={isDelivered} disabled />
-                 </div>
-            </>
-        )}
-
-         {!isCancelled && (
-             <Button
-                variant="destructive"
-                size="sm"
-                className="w-full mt-4"
-                disabled
+          <div className="flex flex-wrap gap-2">
+            {transitions.map((transition) => {
+              const isDestructive = transition.to === 'Cancelled' || transition.to === 'Refunded';
+              return (
+                <Button
+                  key={transition.to}
+                  variant={isDestructive ? 'destructive' : 'outline'}
+                  size="sm"
+                  disabled={!!pendingStatus}
+                  onClick={() => handleTransitionClick(transition)}
                 >
-                 <RotateCcw className="mr-2 h-4 w-4"/>
-                 Cancel Order
-             </Button>
-          )}
+                  {pendingStatus === transition.to ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : getTransitionIcon(transition)}
+                  {transition.label || transition.to}
+                </Button>
+              );
+            })}
+          </div>
+        )}
 
+        <AlertDialog open={!!confirmTransition} onOpenChange={(open) => { if (!open && !pendingStatus) setConfirmTransition(null); }}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Move order to {confirmTransition?.to}?</AlertDialogTitle>
+              <AlertDialogDescription>
+                {confirmTransition && describeEffects(confirmTransition)}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={!!pendingStatus}>Back</AlertDialogCancel>
+              <AlertDialogAction
+                disabled={!!pendingStatus}
+                onClick={(event) => {
+                  event.preventDefault(); // Keep the dialog open until the action finishes
+                  if (confirmTransition) applyTransition(confirmTransition);
+                }}
+              >
+                {pendingStatus ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                {confirmTransition?.label || 'Confirm'}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
       </CardContent>
     </Card>
   );
 }
-
@@ -0,0 +1,52 @@
+import type { OrderTotals } from "@/schemas/order";
+import type { OrderGst } from "@/schemas/tax";
+import { cn } from "@/lib/utils";
+
+interface OrderTotalsSummaryProps {
+  totals: OrderTotals;
+  gst?: OrderGst | null; // Splits the tax row into CGST + SGST or IGST
+  returnTotal?: number; // Goods received back on returns; shown under the total with what's left
+  className?: string;
+}
+
+// Subtotal through grand total; discount and tax rows only show when there is one
+export function OrderTotalsSummary({ totals, gst, returnTotal, className }: OrderTotalsSummaryProps) {
+  const taxRows = gst
+    ? gst.supplyType === 'intra_state'
+      ? [{ label: 'CGST', amount: gst.cgst, show: true }, { label: 'SGST', amount: gst.sgst, show: true }]
+      : [{ label: 'IGST', amount: gst.igst, show: true }]
+    : [{ label: 'Tax', amount: totals.taxTotal, show: totals.taxTotal > 0 }];
+  const rows: { label: string; amount: number; show: boolean }[] = [
+    { label: 'Subtotal', amount: totals.subtotal, show: true },
+    { label: 'Discounts', amount: -totals.discountTotal, show: totals.discountTotal > 0 },
+    ...taxRows,
+    { label: 'Shipping', amount: totals.shippingTotal, show: true },
+  ];
+
+  return (
+    <div className={cn("space-y-1 text-sm", className)}>
+      {rows.filter((row) => row.show).map((row) => (
+        <div key={row.label} className="flex justify-between gap-4 text-muted-foreground">
+          <span>{row.label}</span>
+          <span>{row.amount < 0 ? '−' : ''}₹{Math.abs(row.amount).toFixed(2)}</span>
+        </div>
+      ))}
+      <div className="flex justify-between gap-4 border-t pt-2 text-lg font-bold text-primary">
+        <span>Total</span>
+        <span>₹{totals.grandTotal.toFixed(2)}</span>
+      </div>
+      {!!returnTotal && (
+        <>
+          <div className="flex justify-between gap-4 text-muted-foreground">
+            <span>Returned</span>
+            <span>−₹{returnTotal.toFixed(2)}</span>
+          </div>
+          <div className="flex justify-between gap-4 font-semibold">
+            <span>Net Total</span>
+            <span>₹{Math.max(0, totals.grandTotal - returnTotal).toFixed(2)}</span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
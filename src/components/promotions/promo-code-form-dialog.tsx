@@ -0,0 +1,246 @@
+"use client";
+
+import * as React from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm, useWatch } from "react-hook-form";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { createPromoCodeAction, updatePromoCodeAction } from "@/app/promotions/actions";
+import { DISCOUNT_TYPE_LABELS, DiscountTypeEnum, PromoCodeSchema, type PromoCode, type PromoCodeInput } from "@/schemas/discount";
+import { Loader2, PlusCircle, Edit } from "lucide-react";
+
+interface PromoCodeFormDialogProps {
+  promoCode?: PromoCode; // Edit this code; otherwise create a new one
+}
+
+export function PromoCodeFormDialog({ promoCode }: PromoCodeFormDialogProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const { can } = useCurrentUser();
+  const [isOpen, setIsOpen] = React.useState(false);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+  const form = useForm<PromoCodeInput>({
+    resolver: zodResolver(PromoCodeSchema),
+    defaultValues: {
+      code: promoCode?.code || "",
+      description: promoCode?.description || "",
+      type: promoCode?.type || 'percentage',
+      value: promoCode?.value,
+      validFrom: promoCode?.validFrom || "",
+      validUntil: promoCode?.validUntil || "",
+      usageLimit: promoCode?.usageLimit,
+      minOrderValue: promoCode?.minOrderValue,
+      active: promoCode?.active ?? true,
+    },
+  });
+  const discountType = useWatch({ control: form.control, name: 'type' });
+
+  const onSubmit = async (values: PromoCodeInput) => {
+    setIsSubmitting(true);
+    try {
+      const result = promoCode ? await updatePromoCodeAction(promoCode.code, values) : await createPromoCodeAction(values);
+      if (result.success) {
+        toast({ title: promoCode ? "Promo Code Updated" : "Promo Code Created", description: result.message });
+        if (!promoCode) form.reset();
+        setIsOpen(false);
+        router.refresh();
+      } else {
+        toast({ variant: "destructive", title: "Save Failed", description: result.message });
+        if (result.errors) {
+          Object.entries(result.errors).forEach(([field, messages]) => {
+            form.setError(field as keyof PromoCodeInput, { type: 'server', message: messages?.join(', ') });
+          });
+        }
+      }
+    } catch (error) {
+      console.error("Error saving promo code:", error);
+      toast({ variant: "destructive", title: "Error", description: "An unexpected error occurred while saving the promo code." });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!can('promotions:manage')) {
+    return null;
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!isSubmitting) setIsOpen(open); }}>
+      <DialogTrigger asChild>
+        {promoCode ? (
+          <Button size="sm" variant="ghost"><Edit className="mr-2 h-4 w-4" /> Edit</Button>
+        ) : (
+          <Button size="sm"><PlusCircle className="mr-2 h-4 w-4" /> New Promo Code</Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{promoCode ? `Edit ${promoCode.code}` : 'New Promo Code'}</DialogTitle>
+          <DialogDescription>Customers quote the code at checkout; it comes off the order after any line discounts.</DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="code"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Code *</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="e.g., DIWALI10"
+                        className="font-mono uppercase"
+                        {...field}
+                        onChange={e => field.onChange(e.target.value.toUpperCase())}
+                        disabled={!!promoCode}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., Diwali sale" {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Discount *</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {DiscountTypeEnum.options.map((type) => (
+                          <SelectItem key={type} value={type}>{DISCOUNT_TYPE_LABELS[type]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="value"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{discountType === 'fixed' ? 'Amount (₹) *' : 'Percent *'}</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" min={0} {...field} value={field.value ?? ''} onChange={e => field.onChange(e.target.value === '' ? undefined : parseFloat(e.target.value))} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="validFrom"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Valid From</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="validUntil"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Valid Until</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="usageLimit"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Usage Limit</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={1} step={1} placeholder="Unlimited" {...field} value={field.value ?? ''} onChange={e => field.onChange(e.target.value === '' ? undefined : parseInt(e.target.value, 10))} />
+                    </FormControl>
+                    <FormDescription>Orders that can use the code{promoCode ? ` (used ${promoCode.timesUsed} so far)` : ''}.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="minOrderValue"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Minimum Order (₹)</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" min={0} placeholder="None" {...field} value={field.value ?? ''} onChange={e => field.onChange(e.target.value === '' ? undefined : parseFloat(e.target.value))} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="active"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-md border p-3">
+                  <div>
+                    <FormLabel>Active</FormLabel>
+                    <FormDescription>Switched-off codes can't be applied to new orders.</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsOpen(false)} disabled={isSubmitting}>Cancel</Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {promoCode ? 'Save Changes' : 'Create Code'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,302 @@
+"use client";
+
+import * as React from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useFieldArray, useForm, useWatch, type FieldPath } from "react-hook-form";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+
+import { Button } from "@/components/ui/button";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
+import { createPurchaseOrderAction } from "@/app/purchasing/actions";
+import { PurchaseOrderSchema, type PurchaseOrderInput } from "@/schemas/purchase-order";
+import type { Supplier } from "@/schemas/supplier";
+import { Loader2, PlusCircle, Trash2, AlertTriangle } from "lucide-react";
+
+// Inventory item offered on PO lines
+export interface PurchasableItem {
+  id: string;
+  name: string;
+  sku: string;
+  stock: number;
+  supplierId?: string;
+  supplierSku?: string;
+  landedCost?: number; // Suggested unit cost for new lines
+}
+
+interface CreatePurchaseOrderFormProps {
+  suppliers: Pick<Supplier, 'id' | 'name'>[];
+  inventoryItems: PurchasableItem[];
+  defaultSupplierId?: string;
+  fetchError?: string;
+}
+
+export function CreatePurchaseOrderForm({ suppliers, inventoryItems, defaultSupplierId, fetchError }: CreatePurchaseOrderFormProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const itemsById = React.useMemo(() => new Map(inventoryItems.map((item) => [item.id, item])), [inventoryItems]);
+
+  const form = useForm<PurchaseOrderInput>({
+    resolver: zodResolver(PurchaseOrderSchema),
+    defaultValues: {
+      supplierId: defaultSupplierId || "",
+      expectedDate: "",
+      freightCost: 0,
+      notes: "",
+      items: [{ inventoryId: "", quantity: 1, unitCost: 0 }],
+    },
+  });
+
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: "items" });
+  const lines = useWatch({ control: form.control, name: 'items' });
+  const supplierId = useWatch({ control: form.control, name: 'supplierId' });
+  const freightCost = useWatch({ control: form.control, name: 'freightCost' });
+  const subtotal = lines.reduce((sum, line) => sum + (Number(line.unitCost) || 0) * (Number(line.quantity) || 0), 0);
+
+  // The chosen supplier's items first, then everything else
+  const sortedItems = React.useMemo(
+    () => [...inventoryItems].sort((a, b) => Number(b.supplierId === supplierId) - Number(a.supplierId === supplierId) || a.name.localeCompare(b.name)),
+    [inventoryItems, supplierId]
+  );
+
+  const handleItemChange = (index: number, inventoryId: string) => {
+    form.setValue(`items.${index}.inventoryId`, inventoryId);
+    const item = itemsById.get(inventoryId);
+    if (item?.landedCost && !form.getValues(`items.${index}.unitCost`)) {
+      form.setValue(`items.${index}.unitCost`, item.landedCost);
+    }
+    form.trigger(`items.${index}.inventoryId`);
+  };
+
+  async function onSubmit(values: PurchaseOrderInput) {
+    setIsSubmitting(true);
+    try {
+      const result = await createPurchaseOrderAction(values);
+      if (result.success && result.purchaseOrderId) {
+        toast({ title: "Purchase Order Drafted", description: result.message });
+        router.push(`/purchasing/${result.purchaseOrderId}`);
+      } else {
+        toast({ variant: "destructive", title: "Failed to Draft Purchase Order", description: result.message });
+        if (result.errors) {
+          Object.entries(result.errors).forEach(([field, messages]) => {
+            if (field === 'items' && messages && typeof messages === 'object' && !Array.isArray(messages)) {
+              Object.entries(messages as Record<string, string[]>).forEach(([path, lineMessages]) => {
+                form.setError(`items.${path}` as FieldPath<PurchaseOrderInput>, { type: 'server', message: lineMessages.join(', ') });
+              });
+            } else if (Array.isArray(messages)) {
+              form.setError(field as keyof PurchaseOrderInput, { type: 'server', message: messages.join(', ') });
+            }
+          });
+        }
+      }
+    } catch (error) {
+      console.error("Error drafting purchase order:", error);
+      toast({ variant: "destructive", title: "Error", description: "An unexpected error occurred while drafting the purchase order." });
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  if (fetchError) {
+    return (
+      <Alert variant="destructive">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertTitle>Error Loading Data</AlertTitle>
+        <AlertDescription>{fetchError}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (suppliers.length === 0) {
+    return (
+      <Alert>
+        <AlertTriangle className="h-4 w-4" />
+        <AlertTitle>No Suppliers Yet</AlertTitle>
+        <AlertDescription>
+          Add a supplier on the <Link href="/purchasing/suppliers" className="underline">Suppliers</Link> page before drafting a purchase order.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <Card className="shadow-md">
+      <CardHeader>
+        <CardTitle>New Purchase Order</CardTitle>
+        <CardDescription>The PO is saved as a draft; send it to the supplier from its page.</CardDescription>
+      </CardHeader>
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)}>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="supplierId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Supplier *</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange} disabled={isSubmitting}>
+                      <FormControl>
+                        <SelectTrigger><SelectValue placeholder="Select a supplier" /></SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {suppliers.map((supplier) => (
+                          <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="expectedDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Expected Delivery</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} value={field.value ?? ''} disabled={isSubmitting} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="freightCost"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Freight & Duties (₹)</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" min={0} {...field} onChange={e => field.onChange(parseFloat(e.target.value) || 0)} disabled={isSubmitting} />
+                    </FormControl>
+                    <FormDescription>Spread over the lines by value for landed cost.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="space-y-4">
+              <h3 className="text-lg font-semibold border-b pb-2">Items</h3>
+              {fields.map((field, index) => {
+                const selected = itemsById.get(lines[index]?.inventoryId);
+                return (
+                  <div key={field.id} className="grid grid-cols-1 md:grid-cols-[2fr_1fr_1fr_1fr_auto] gap-4 items-start border-b pb-4">
+                    <FormField
+                      control={form.control}
+                      name={`items.${index}.inventoryId`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Item *</FormLabel>
+                          <Select value={field.value} onValueChange={(value) => handleItemChange(index, value)} disabled={isSubmitting}>
+                            <FormControl>
+                              <SelectTrigger><SelectValue placeholder="Select an item" /></SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {sortedItems.map((item) => (
+                                <SelectItem key={item.id} value={item.id}>
+                                  {item.name} ({item.sku}){item.supplierId === supplierId && item.supplierSku ? ` · ${item.supplierSku}` : ''} - Stock: {item.stock}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          {selected && supplierId && selected.supplierId && selected.supplierId !== supplierId && (
+                            <p className="text-xs text-muted-foreground">Usually bought from another supplier.</p>
+                          )}
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`items.${index}.quantity`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Quantity *</FormLabel>
+                          <FormControl>
+                            <Input type="number" min={1} {...field} onChange={e => field.onChange(parseInt(e.target.value, 10) || 1)} disabled={isSubmitting} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`items.${index}.unitCost`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Unit Cost (₹) *</FormLabel>
+                          <FormControl>
+                            <Input type="number" step="0.01" min={0} {...field} onChange={e => field.onChange(parseFloat(e.target.value) || 0)} disabled={isSubmitting} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormItem>
+                      <FormLabel>Line Total</FormLabel>
+                      <div className="h-10 flex items-center px-3 py-2 text-sm font-medium text-muted-foreground">
+                        ₹{((Number(lines[index]?.unitCost) || 0) * (Number(lines[index]?.quantity) || 0)).toFixed(2)}
+                      </div>
+                    </FormItem>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="text-destructive hover:bg-destructive/10 md:mt-8"
+                      onClick={() => remove(index)}
+                      disabled={isSubmitting || fields.length <= 1}
+                      aria-label="Remove item"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                );
+              })}
+              <Button type="button" variant="outline" size="sm" onClick={() => append({ inventoryId: "", quantity: 1, unitCost: 0 })} disabled={isSubmitting}>
+                <PlusCircle className="mr-2 h-4 w-4" /> Add Item
+              </Button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <FormField
+                control={form.control}
+                name="notes"
+                render={({ field }) => (
+                  <FormItem className="md:col-span-2">
+                    <FormLabel>Notes</FormLabel>
+                    <FormControl>
+                      <Textarea rows={3} placeholder="Finish, delivery instructions..." {...field} value={field.value ?? ''} disabled={isSubmitting} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="space-y-2 text-sm rounded-md border p-4 bg-muted/30">
+                <div className="flex justify-between"><span>Subtotal</span><span>₹{subtotal.toFixed(2)}</span></div>
+                <div className="flex justify-between"><span>Freight & Duties</span><span>₹{(Number(freightCost) || 0).toFixed(2)}</span></div>
+                <div className="flex justify-between font-semibold border-t pt-2"><span>Total</span><span>₹{(subtotal + (Number(freightCost) || 0)).toFixed(2)}</span></div>
+              </div>
+            </div>
+          </CardContent>
+          <CardFooter className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => router.push('/purchasing')} disabled={isSubmitting}>Cancel</Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Draft
+            </Button>
+          </CardFooter>
+        </form>
+      </Form>
+    </Card>
+  );
+}
@@ -0,0 +1,52 @@
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { draftReplenishmentPurchaseOrderAction } from "@/app/purchasing/actions";
+import { Loader2, FilePlus2 } from "lucide-react";
+
+interface DraftReplenishmentButtonProps {
+  supplierId: string;
+  itemCount: number;
+}
+
+// Turns one supplier's group of suggestions into a draft PO and opens it for review
+export function DraftReplenishmentButton({ supplierId, itemCount }: DraftReplenishmentButtonProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const { can } = useCurrentUser();
+  const [isDrafting, setIsDrafting] = React.useState(false);
+
+  if (!can('purchasing:manage')) {
+    return null;
+  }
+
+  const handleDraft = async () => {
+    setIsDrafting(true);
+    try {
+      const result = await draftReplenishmentPurchaseOrderAction(supplierId);
+      if (result.success && result.purchaseOrderId) {
+        toast({ title: "Purchase Order Drafted", description: "Check the quantities and prices, then mark it sent." });
+        router.push(`/purchasing/${result.purchaseOrderId}`);
+      } else {
+        toast({ variant: "destructive", title: "Draft Failed", description: result.message });
+        router.refresh();
+      }
+    } catch (error) {
+      console.error("Error drafting replenishment purchase order:", error);
+      toast({ variant: "destructive", title: "Error", description: "An unexpected error occurred while drafting the purchase order." });
+    } finally {
+      setIsDrafting(false);
+    }
+  };
+
+  return (
+    <Button size="sm" onClick={handleDraft} disabled={isDrafting}>
+      {isDrafting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FilePlus2 className="mr-2 h-4 w-4" />}
+      Draft PO ({itemCount} item{itemCount === 1 ? '' : 's'})
+    </Button>
+  );
+}
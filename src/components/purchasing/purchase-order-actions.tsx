@@ -0,0 +1,122 @@
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { sendPurchaseOrderAction, closePurchaseOrderAction, cancelPurchaseOrderAction } from "@/app/purchasing/actions";
+import type { PurchaseOrderStatus } from "@/schemas/purchase-order";
+import { Loader2, Send, CheckCircle2, XCircle } from "lucide-react";
+
+interface PurchaseOrderActionsProps {
+  purchaseOrderId: string;
+  status: PurchaseOrderStatus;
+  hasReceipts: boolean;
+}
+
+type PurchaseOrderCommand = 'send' | 'close' | 'cancel';
+
+const COMMANDS: Record<PurchaseOrderCommand, { label: string; title: string; description: string; run: (poId: string) => Promise<{ success: boolean; message: string }> }> = {
+  send: {
+    label: 'Mark Sent',
+    title: 'Mark this purchase order as sent?',
+    description: "Do this once the PO has gone to the supplier. Its lines can't be changed afterwards.",
+    run: sendPurchaseOrderAction,
+  },
+  close: {
+    label: 'Close PO',
+    title: 'Close this purchase order?',
+    description: "Anything not yet received will no longer be expected from the supplier.",
+    run: closePurchaseOrderAction,
+  },
+  cancel: {
+    label: 'Cancel PO',
+    title: 'Cancel this purchase order?',
+    description: "The supplier should be told separately if the PO was already sent.",
+    run: cancelPurchaseOrderAction,
+  },
+};
+
+const COMMAND_ICONS: Record<PurchaseOrderCommand, React.ReactNode> = {
+  send: <Send className="mr-2 h-4 w-4" />,
+  close: <CheckCircle2 className="mr-2 h-4 w-4" />,
+  cancel: <XCircle className="mr-2 h-4 w-4" />,
+};
+
+// Commands that apply to a PO in this state (mirrors the checks in the purchasing actions)
+const getAvailableCommands = (status: PurchaseOrderStatus, hasReceipts: boolean): PurchaseOrderCommand[] => {
+  switch (status) {
+    case 'Draft': return ['send', 'cancel'];
+    case 'Sent': return hasReceipts ? [] : ['cancel'];
+    case 'Partially Received':
+    case 'Received': return ['close'];
+    default: return [];
+  }
+};
+
+export function PurchaseOrderActions({ purchaseOrderId, status, hasReceipts }: PurchaseOrderActionsProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const { can } = useCurrentUser();
+  const [pendingCommand, setPendingCommand] = React.useState<PurchaseOrderCommand | null>(null);
+
+  const commands = getAvailableCommands(status, hasReceipts);
+  if (!can('purchasing:manage') || commands.length === 0) {
+    return null;
+  }
+
+  const runCommand = async (command: PurchaseOrderCommand) => {
+    setPendingCommand(command);
+    try {
+      const result = await COMMANDS[command].run(purchaseOrderId);
+      if (result.success) {
+        toast({ title: "Purchase Order Updated", description: result.message });
+        router.refresh();
+      } else {
+        toast({ variant: "destructive", title: "Update Failed", description: result.message });
+      }
+    } catch (error) {
+      console.error(`Error running ${command} on purchase order:`, error);
+      toast({ variant: "destructive", title: "Error", description: "An unexpected error occurred while updating the purchase order." });
+    } finally {
+      setPendingCommand(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {commands.map((command) => (
+        <AlertDialog key={command}>
+          <AlertDialogTrigger asChild>
+            <Button size="sm" variant={command === 'cancel' ? 'destructive' : 'default'} disabled={!!pendingCommand}>
+              {pendingCommand === command ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : COMMAND_ICONS[command]}
+              {COMMANDS[command].label}
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>{COMMANDS[command].title}</AlertDialogTitle>
+              <AlertDialogDescription>{COMMANDS[command].description}</AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Back</AlertDialogCancel>
+              <AlertDialogAction onClick={() => runCommand(command)}>{COMMANDS[command].label}</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      ))}
+    </div>
+  );
+}
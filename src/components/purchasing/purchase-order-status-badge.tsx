@@ -0,0 +1,21 @@
+import { Badge } from "@/components/ui/badge";
+import type { PurchaseOrderStatus } from "@/schemas/purchase-order";
+
+const getStatusVariant = (status: PurchaseOrderStatus): "default" | "secondary" | "outline" | "destructive" => {
+  switch (status) {
+    case 'Sent':
+    case 'Partially Received':
+      return 'default';
+    case 'Received':
+    case 'Closed':
+      return 'outline';
+    case 'Cancelled':
+      return 'destructive';
+    default:
+      return 'secondary';
+  }
+};
+
+export function PurchaseOrderStatusBadge({ status }: { status: PurchaseOrderStatus }) {
+  return <Badge variant={getStatusVariant(status)} className="whitespace-nowrap">{status}</Badge>;
+}
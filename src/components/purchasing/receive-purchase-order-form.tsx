@@ -0,0 +1,129 @@
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { receivePurchaseOrderAction } from "@/app/purchasing/actions";
+import type { PurchaseOrderLine } from "@/schemas/purchase-order";
+import type { Location } from "@/schemas/location";
+import { Loader2, PackageCheck } from "lucide-react";
+
+interface ReceivePurchaseOrderFormProps {
+  purchaseOrderId: string;
+  lines: PurchaseOrderLine[];
+  locations: Pick<Location, 'id' | 'name'>[]; // Default location first
+}
+
+const getOutstanding = (line: PurchaseOrderLine) => Math.max(0, line.quantityOrdered - line.quantityReceived);
+
+// Enter what arrived in this delivery; defaults to everything still outstanding
+export function ReceivePurchaseOrderForm({ purchaseOrderId, lines, locations }: ReceivePurchaseOrderFormProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const { can } = useCurrentUser();
+  const outstandingLines = lines.filter((line) => getOutstanding(line) > 0);
+  const [quantities, setQuantities] = React.useState<Record<string, number>>(
+    () => Object.fromEntries(outstandingLines.map((line) => [line.inventoryId, getOutstanding(line)]))
+  );
+  const [locationId, setLocationId] = React.useState(locations[0]?.id ?? "");
+  const [note, setNote] = React.useState("");
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+  if (!can('purchasing:receive') || outstandingLines.length === 0) {
+    return null;
+  }
+
+  const setQuantity = (line: PurchaseOrderLine, value: string) => {
+    const quantity = value === '' ? 0 : Math.min(getOutstanding(line), Math.max(0, parseInt(value, 10) || 0));
+    setQuantities((prev) => ({ ...prev, [line.inventoryId]: quantity }));
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    try {
+      const result = await receivePurchaseOrderAction(purchaseOrderId, {
+        lines: outstandingLines.map((line) => ({ inventoryId: line.inventoryId, quantity: quantities[line.inventoryId] || 0 })),
+        locationId,
+        note: note.trim() || undefined,
+      });
+      if (result.success) {
+        toast({ title: "Goods Received", description: result.message });
+        setNote("");
+        router.refresh();
+      } else {
+        toast({ variant: "destructive", title: "Receiving Failed", description: result.message });
+      }
+    } catch (error) {
+      console.error("Error receiving purchase order:", error);
+      toast({ variant: "destructive", title: "Error", description: "An unexpected error occurred while recording the receipt." });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Item</TableHead>
+            <TableHead className="text-center">Outstanding</TableHead>
+            <TableHead className="w-[140px] text-right">Received Now</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {outstandingLines.map((line) => (
+            <TableRow key={line.inventoryId}>
+              <TableCell>
+                <div className="font-medium">{line.name}</div>
+                <div className="text-xs text-muted-foreground">{line.sku}{line.supplierSku ? ` · ${line.supplierSku}` : ''}</div>
+              </TableCell>
+              <TableCell className="text-center">{getOutstanding(line)}</TableCell>
+              <TableCell className="text-right">
+                <Input
+                  type="number"
+                  min={0}
+                  max={getOutstanding(line)}
+                  value={quantities[line.inventoryId] ?? 0}
+                  onChange={(e) => setQuantity(line, e.target.value)}
+                  className="w-24 ml-auto text-right"
+                  disabled={isSubmitting}
+                  aria-label={`Quantity of ${line.name} received`}
+                />
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      <div className="space-y-2">
+        <Label htmlFor="receipt-location">Delivered To</Label>
+        <Select value={locationId} onValueChange={setLocationId} disabled={isSubmitting}>
+          <SelectTrigger id="receipt-location" className="max-w-xs"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {locations.map((location) => (
+              <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="receipt-note">Note</Label>
+        <Textarea id="receipt-note" rows={2} placeholder="Delivery challan number, condition of goods..." value={note} onChange={(e) => setNote(e.target.value)} disabled={isSubmitting} />
+      </div>
+      <div className="flex justify-end">
+        <Button type="submit" disabled={isSubmitting || Object.values(quantities).every((quantity) => !quantity)}>
+          {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <PackageCheck className="mr-2 h-4 w-4" />}
+          Receive into Stock
+        </Button>
+      </div>
+    </form>
+  );
+}
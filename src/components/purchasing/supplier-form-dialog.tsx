@@ -0,0 +1,171 @@
+"use client";
+
+import * as React from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { createSupplierAction, updateSupplierAction } from "@/app/purchasing/actions";
+import { SupplierSchema, type Supplier, type SupplierInput } from "@/schemas/supplier";
+import { Loader2, PlusCircle, Edit } from "lucide-react";
+
+interface SupplierFormDialogProps {
+  supplier?: Supplier; // Edit this supplier; otherwise add a new one
+}
+
+const TEXT_FIELDS: { name: keyof SupplierInput; label: string; placeholder?: string }[] = [
+  { name: 'contactName', label: 'Contact Person' },
+  { name: 'email', label: 'Email', placeholder: 'orders@supplier.com' },
+  { name: 'phone', label: 'Phone' },
+  { name: 'paymentTerms', label: 'Payment Terms', placeholder: 'e.g., 50% advance, balance on delivery' },
+];
+
+export function SupplierFormDialog({ supplier }: SupplierFormDialogProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const { can } = useCurrentUser();
+  const [isOpen, setIsOpen] = React.useState(false);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+  const form = useForm<SupplierInput>({
+    resolver: zodResolver(SupplierSchema),
+    defaultValues: {
+      name: supplier?.name || "",
+      contactName: supplier?.contactName || "",
+      email: supplier?.email || "",
+      phone: supplier?.phone || "",
+      address: supplier?.address || "",
+      paymentTerms: supplier?.paymentTerms || "",
+      notes: supplier?.notes || "",
+    },
+  });
+
+  const onSubmit = async (values: SupplierInput) => {
+    setIsSubmitting(true);
+    try {
+      const result = supplier ? await updateSupplierAction(supplier.id, values) : await createSupplierAction(values);
+      if (result.success) {
+        toast({ title: supplier ? "Supplier Updated" : "Supplier Added", description: result.message });
+        if (!supplier) form.reset();
+        setIsOpen(false);
+        router.refresh();
+      } else {
+        toast({ variant: "destructive", title: "Save Failed", description: result.message });
+        if (result.errors) {
+          Object.entries(result.errors).forEach(([field, messages]) => {
+            form.setError(field as keyof SupplierInput, { type: 'server', message: messages?.join(', ') });
+          });
+        }
+      }
+    } catch (error) {
+      console.error("Error saving supplier:", error);
+      toast({ variant: "destructive", title: "Error", description: "An unexpected error occurred while saving the supplier." });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!can('purchasing:manage')) {
+    return null;
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!isSubmitting) setIsOpen(open); }}>
+      <DialogTrigger asChild>
+        {supplier ? (
+          <Button size="sm" variant="outline"><Edit className="mr-2 h-4 w-4" /> Edit Supplier</Button>
+        ) : (
+          <Button size="sm"><PlusCircle className="mr-2 h-4 w-4" /> Add Supplier</Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{supplier ? 'Edit Supplier' : 'Add Supplier'}</DialogTitle>
+          <DialogDescription>Suppliers can be linked to inventory items and used on purchase orders.</DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name *</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., Sharma Timber Works" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 gap-4">
+              {TEXT_FIELDS.map(({ name, label, placeholder }) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{label}</FormLabel>
+                      <FormControl>
+                        <Input placeholder={placeholder} {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+            <FormField
+              control={form.control}
+              name="address"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Address</FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} {...field} value={field.value ?? ''} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes</FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} {...field} value={field.value ?? ''} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsOpen(false)} disabled={isSubmitting}>Cancel</Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {supplier ? 'Save Changes' : 'Add Supplier'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,122 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { declineQuoteAction, markQuoteSentAction } from "@/app/quotes/actions";
+import type { QuoteStatus } from "@/schemas/quote";
+import { Loader2, Send, XCircle, Pencil, ShoppingCart, Download } from "lucide-react";
+
+interface QuoteActionsProps {
+  quoteId: string;
+  status: QuoteStatus;
+}
+
+export function QuoteActions({ quoteId, status }: QuoteActionsProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const { can } = useCurrentUser();
+  const [pendingCommand, setPendingCommand] = React.useState<'send' | 'decline' | null>(null);
+  const [declineReason, setDeclineReason] = React.useState("");
+
+  // Mirrors the checks in the quote actions and createOrderAction
+  const canManage = can('quotes:manage');
+  const isOpen = status === 'draft' || status === 'sent';
+  const canRevise = canManage && status !== 'accepted' && status !== 'declined';
+
+  const runCommand = async (command: 'send' | 'decline') => {
+    setPendingCommand(command);
+    try {
+      const result = command === 'send' ? await markQuoteSentAction(quoteId) : await declineQuoteAction(quoteId, { reason: declineReason.trim() || undefined });
+      if (result.success) {
+        toast({ title: "Quote Updated", description: result.message });
+        router.refresh();
+      } else {
+        toast({ variant: "destructive", title: "Update Failed", description: result.message });
+      }
+    } catch (error) {
+      console.error(`Error running ${command} on quote:`, error);
+      toast({ variant: "destructive", title: "Error", description: "An unexpected error occurred while updating the quote." });
+    } finally {
+      setPendingCommand(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      <Button size="sm" variant="outline" asChild>
+        <a href={`/quotes/${quoteId}/pdf`}><Download className="mr-2 h-4 w-4" /> Download PDF</a>
+      </Button>
+      {canRevise && (
+        <Button size="sm" variant="outline" asChild>
+          <Link href={`/quotes/${quoteId}/edit`}><Pencil className="mr-2 h-4 w-4" /> {status === 'draft' ? 'Edit' : 'Revise'}</Link>
+        </Button>
+      )}
+      {canManage && status === 'draft' && (
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button size="sm" variant="outline" disabled={!!pendingCommand}>
+              {pendingCommand === 'send' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+              Mark Sent
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Mark this quote as sent?</AlertDialogTitle>
+              <AlertDialogDescription>Do this once the quote has gone to the customer. Changing it afterwards saves a new revision.</AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Back</AlertDialogCancel>
+              <AlertDialogAction onClick={() => runCommand('send')}>Mark Sent</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      )}
+      {canManage && (isOpen || status === 'expired') && (
+        <AlertDialog onOpenChange={(open) => !open && setDeclineReason("")}>
+          <AlertDialogTrigger asChild>
+            <Button size="sm" variant="destructive" disabled={!!pendingCommand}>
+              {pendingCommand === 'decline' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <XCircle className="mr-2 h-4 w-4" />}
+              Decline
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Mark this quote as declined?</AlertDialogTitle>
+              <AlertDialogDescription>The quote is closed and can no longer be revised or converted.</AlertDialogDescription>
+            </AlertDialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="decline-reason">Reason (Optional)</Label>
+              <Textarea id="decline-reason" rows={3} maxLength={500} placeholder="e.g., Went with another supplier." value={declineReason} onChange={(e) => setDeclineReason(e.target.value)} />
+            </div>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Back</AlertDialogCancel>
+              <AlertDialogAction onClick={() => runCommand('decline')}>Decline Quote</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      )}
+      {canManage && can('orders:create') && isOpen && (
+        <Button size="sm" asChild>
+          <Link href={`/orders/new?quoteId=${quoteId}`}><ShoppingCart className="mr-2 h-4 w-4" /> Convert to Order</Link>
+        </Button>
+      )}
+    </div>
+  );
+}
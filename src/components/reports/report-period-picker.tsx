@@ -0,0 +1,34 @@
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CalendarDays } from "lucide-react";
+
+interface ReportPeriodPickerProps {
+  period: string; // YYYY-MM
+  basePath: string;
+}
+
+// The month is kept in the URL (?period=YYYY-MM) so the server page can query with it
+export function ReportPeriodPicker({ period, basePath }: ReportPeriodPickerProps) {
+  const router = useRouter();
+  const [value, setValue] = React.useState(period);
+
+  const applyPeriod = (event: React.FormEvent) => {
+    event.preventDefault();
+    router.push(value ? `${basePath}?period=${value}` : basePath);
+  };
+
+  return (
+    <form onSubmit={applyPeriod} className="flex items-end gap-2">
+      <div className="space-y-2">
+        <Label htmlFor="report-period">Return Period</Label>
+        <Input id="report-period" type="month" value={value} onChange={(e) => setValue(e.target.value)} className="w-44" />
+      </div>
+      <Button type="submit" variant="outline"><CalendarDays className="mr-2 h-4 w-4" /> Show</Button>
+    </form>
+  );
+}
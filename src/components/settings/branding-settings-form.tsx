@@ -0,0 +1,185 @@
+"use client";
+
+import * as React from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { useRouter } from "next/navigation";
+
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { updateBrandingSettingsAction } from "@/app/settings/actions";
+import { BrandingSettingsSchema, type BrandingSettings, type BrandingSettingsInput } from "@/schemas/document";
+import { Loader2 } from "lucide-react";
+
+interface BrandingSettingsFormProps {
+  settings: BrandingSettings; // The saved settings, or the defaults documents are printed with
+}
+
+export function BrandingSettingsForm({ settings }: BrandingSettingsFormProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+  const form = useForm<BrandingSettingsInput>({
+    resolver: zodResolver(BrandingSettingsSchema),
+    defaultValues: {
+      companyName: settings.companyName,
+      address: settings.address ?? "",
+      phone: settings.phone ?? "",
+      email: settings.email ?? "",
+      website: settings.website ?? "",
+      accentColor: settings.accentColor,
+      invoiceTerms: settings.invoiceTerms ?? "",
+    },
+  });
+
+  async function onSubmit(values: BrandingSettingsInput) {
+    setIsSubmitting(true);
+    try {
+      const result = await updateBrandingSettingsAction(values);
+      if (result.success) {
+        toast({ title: "Settings Saved", description: result.message });
+        router.refresh();
+      } else {
+        if (result.errors) {
+          Object.entries(result.errors).forEach(([field, messages]) => {
+            form.setError(field as keyof BrandingSettingsInput, { type: "server", message: messages?.[0] });
+          });
+        }
+        toast({ variant: "destructive", title: "Error Saving Settings", description: result.message });
+      }
+    } catch (error) {
+      console.error("Error submitting branding settings:", error);
+      toast({ variant: "destructive", title: "Error", description: "An unexpected error occurred." });
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="companyName"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Company Name *</FormLabel>
+              <FormControl>
+                <Input {...field} disabled={isSubmitting} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="address"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Address</FormLabel>
+              <FormControl>
+                <Textarea rows={3} placeholder={"Street\nCity, State PIN"} {...field} value={field.value ?? ''} disabled={isSubmitting} />
+              </FormControl>
+              <FormDescription>Printed as entered, one line per row.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <FormField
+            control={form.control}
+            name="phone"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Phone</FormLabel>
+                <FormControl>
+                  <Input {...field} value={field.value ?? ''} disabled={isSubmitting} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="email"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Email</FormLabel>
+                <FormControl>
+                  <Input type="email" {...field} value={field.value ?? ''} disabled={isSubmitting} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="website"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Website</FormLabel>
+                <FormControl>
+                  <Input {...field} value={field.value ?? ''} disabled={isSubmitting} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <FormField
+          control={form.control}
+          name="accentColor"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Accent Colour *</FormLabel>
+              <div className="flex items-center gap-2">
+                <FormControl>
+                  <Input className="w-32 font-mono" {...field} disabled={isSubmitting} />
+                </FormControl>
+                <input
+                  type="color"
+                  aria-label="Pick the accent colour"
+                  className="h-9 w-12 cursor-pointer rounded border bg-transparent"
+                  value={/^#[0-9a-fA-F]{6}$/.test(field.value) ? field.value : '#000000'}
+                  onChange={(e) => field.onChange(e.target.value)}
+                  disabled={isSubmitting}
+                />
+              </div>
+              <FormDescription>Used for the company name and table headings.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="invoiceTerms"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Invoice Terms</FormLabel>
+              <FormControl>
+                <Textarea rows={3} placeholder="e.g., Goods once sold are returnable within 7 days in original condition." {...field} value={field.value ?? ''} disabled={isSubmitting} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" disabled={isSubmitting}>
+          {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save Branding
+        </Button>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,131 @@
+"use client";
+
+import * as React from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { useRouter } from "next/navigation";
+
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { updateTaxSettingsAction } from "@/app/settings/actions";
+import { GST_RATES, INDIAN_STATES, TaxSettingsSchema, type TaxSettings, type TaxSettingsInput } from "@/schemas/tax";
+import { Loader2 } from "lucide-react";
+
+interface TaxSettingsFormProps {
+  settings: TaxSettings | null;
+}
+
+export function TaxSettingsForm({ settings }: TaxSettingsFormProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+  const form = useForm<TaxSettingsInput>({
+    resolver: zodResolver(TaxSettingsSchema),
+    defaultValues: {
+      homeStateCode: settings?.homeStateCode ?? "",
+      gstin: settings?.gstin ?? "",
+      defaultGstRate: settings?.defaultGstRate ?? 18,
+    },
+  });
+
+  async function onSubmit(values: TaxSettingsInput) {
+    setIsSubmitting(true);
+    try {
+      const result = await updateTaxSettingsAction(values);
+      if (result.success) {
+        toast({ title: "Settings Saved", description: result.message });
+        router.refresh();
+      } else {
+        if (result.errors) {
+          Object.entries(result.errors).forEach(([field, messages]) => {
+            form.setError(field as keyof TaxSettingsInput, { type: "server", message: messages?.[0] });
+          });
+        }
+        toast({ variant: "destructive", title: "Error Saving Settings", description: result.message });
+      }
+    } catch (error) {
+      console.error("Error submitting tax settings:", error);
+      toast({ variant: "destructive", title: "Error", description: "An unexpected error occurred." });
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="homeStateCode"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Home State *</FormLabel>
+              <Select value={field.value} onValueChange={field.onChange} disabled={isSubmitting}>
+                <FormControl>
+                  <SelectTrigger><SelectValue placeholder="Select the showroom's state" /></SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {INDIAN_STATES.map((state) => (
+                    <SelectItem key={state.code} value={state.code}>{state.code} - {state.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>Sales shipped within this state are charged CGST + SGST; sales to other states are charged IGST.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="gstin"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Showroom GSTIN</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g., 27ABCDE1234F1Z5" {...field} value={field.value ?? ''} onChange={e => field.onChange(e.target.value.toUpperCase())} disabled={isSubmitting} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="defaultGstRate"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Default GST Rate *</FormLabel>
+              <Select value={String(field.value)} onValueChange={(value) => field.onChange(Number(value))} disabled={isSubmitting}>
+                <FormControl>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {GST_RATES.map((rate) => (
+                    <SelectItem key={rate} value={String(rate)}>{rate}%</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>Used for items without their own GST rate.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" disabled={isSubmitting}>
+          {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save Settings
+        </Button>
+      </form>
+    </Form>
+  );
+}
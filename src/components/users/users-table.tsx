@@ -0,0 +1,99 @@
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import { format } from "date-fns";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { updateUserAction } from "@/app/users/actions";
+import { UserRoleEnum, type User, type UserRole } from "@/schemas/user";
+
+interface UsersTableProps {
+  users: User[];
+  currentUserId?: string;
+}
+
+export function UsersTable({ users, currentUserId }: UsersTableProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [pendingUserId, setPendingUserId] = React.useState<string | null>(null);
+
+  const handleUpdate = async (userId: string, changes: { role?: UserRole; active?: boolean }) => {
+    setPendingUserId(userId);
+    try {
+      const result = await updateUserAction(userId, changes);
+      if (result.success) {
+        toast({ title: "User Updated", description: result.message });
+        router.refresh();
+      } else {
+        toast({ variant: "destructive", title: "Update Failed", description: result.message });
+      }
+    } catch (error) {
+      console.error("Error updating user:", error);
+      toast({ variant: "destructive", title: "Error", description: "An unexpected error occurred." });
+    } finally {
+      setPendingUserId(null);
+    }
+  };
+
+  if (users.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-6">No users found.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Name</TableHead>
+          <TableHead>Role</TableHead>
+          <TableHead className="hidden md:table-cell">Last Login</TableHead>
+          <TableHead className="text-right">Active</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {users.map((user) => {
+          const isSelf = user.id === currentUserId;
+          const isPending = pendingUserId === user.id;
+          return (
+            <TableRow key={user.id} className={!user.active ? "opacity-60" : undefined}>
+              <TableCell>
+                <div className="font-medium">{user.name} {isSelf && <Badge variant="outline" className="ml-1">You</Badge>}</div>
+                <div className="text-xs text-muted-foreground">{user.email}</div>
+              </TableCell>
+              <TableCell>
+                <Select
+                  value={user.role}
+                  onValueChange={(value) => handleUpdate(user.id, { role: value as UserRole })}
+                  disabled={isSelf || isPending}
+                >
+                  <SelectTrigger className="w-[130px] h-8 capitalize">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {UserRoleEnum.options.map((role) => (
+                      <SelectItem key={role} value={role} className="capitalize">{role}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </TableCell>
+              <TableCell className="hidden md:table-cell text-sm text-muted-foreground">
+                {user.lastLoginAt ? format(new Date(user.lastLoginAt), 'PPp') : 'Never'}
+              </TableCell>
+              <TableCell className="text-right">
+                <Switch
+                  checked={user.active}
+                  onCheckedChange={(checked) => handleUpdate(user.id, { active: checked })}
+                  disabled={isSelf || isPending}
+                  aria-label={`Toggle ${user.name} active`}
+                />
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
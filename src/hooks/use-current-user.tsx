@@ -0,0 +1,55 @@
+"use client"
+
+import * as React from "react"
+import { getSessionUserAction } from "@/app/login/actions"
+import { hasPermission, type Permission } from "@/lib/auth/permissions"
+import type { SessionUser } from "@/schemas/user"
+
+type CurrentUserContextValue = {
+  user: SessionUser | null
+  isLoading: boolean
+  can: (permission: Permission) => boolean
+}
+
+const CurrentUserContext = React.createContext<CurrentUserContextValue | null>(null)
+
+// Loads the session user once for the app shell. Only used to hide/disable controls;
+// server actions re-check permissions themselves.
+export function CurrentUserProvider({ children }: { children: React.ReactNode }) {
+  const [user, setUser] = React.useState<SessionUser | null>(null)
+  const [isLoading, setIsLoading] = React.useState(true)
+
+  React.useEffect(() => {
+    let cancelled = false
+    getSessionUserAction()
+      .then((sessionUser) => {
+        if (!cancelled) setUser(sessionUser)
+      })
+      .catch((error) => console.error("Failed to load current user:", error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const value = React.useMemo<CurrentUserContextValue>(
+    () => ({
+      user,
+      isLoading,
+      can: (permission) => hasPermission(user?.role, permission),
+    }),
+    [user, isLoading]
+  )
+
+  return <CurrentUserContext.Provider value={value}>{children}</CurrentUserContext.Provider>
+}
+
+export function useCurrentUser() {
+  const context = React.useContext(CurrentUserContext)
+  if (!context) {
+    throw new Error("useCurrentUser must be used within a CurrentUserProvider.")
+  }
+  return context
+}
@@ -0,0 +1,181 @@
+// src/lib/audit.ts
+// Append-only audit trail for server actions. Entries live in the `auditLog` collection.
+
+import {
+  db,
+  collection,
+  addDoc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  limit,
+  serverTimestamp,
+  Timestamp,
+} from '@/lib/firebase/firebase';
+import type { AuditAction, AuditEntityType, AuditEntry, AuditFieldChange } from '@/schemas/audit';
+import type { SessionUser } from '@/schemas/user';
+
+// Bookkeeping fields that change on every write and would only add noise to a diff
+const IGNORED_FIELDS = new Set(['createdAt', 'updatedAt', 'createdBy', 'updatedBy']);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Timestamp);
+}
+
+// Converts a value into something Firestore can store and that compares reliably
+function normalizeValue(value: unknown): unknown {
+  if (value === undefined) return null;
+  if (value instanceof Timestamp) return value.toDate().toISOString();
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(normalizeValue);
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, nested]) => [key, normalizeValue(nested)]));
+  }
+  return value;
+}
+
+function getPath(source: Record<string, unknown> | null | undefined, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (current, key) => (isPlainObject(current) ? current[key] : undefined),
+    source ?? undefined
+  );
+}
+
+function collectChanges(field: string, before: unknown, after: unknown, changes: AuditFieldChange[]) {
+  const normalizedBefore = normalizeValue(before);
+  const normalizedAfter = normalizeValue(after);
+  // Recurse into nested maps so the diff points at e.g. "shippingInfo.city" instead of the whole map
+  if (isPlainObject(normalizedBefore) || isPlainObject(normalizedAfter)) {
+    const beforeMap = isPlainObject(normalizedBefore) ? normalizedBefore : {};
+    const afterMap = isPlainObject(normalizedAfter) ? normalizedAfter : {};
+    const keys = new Set([...Object.keys(beforeMap), ...Object.keys(afterMap)]);
+    keys.forEach((key) => collectChanges(`${field}.${key}`, beforeMap[key], afterMap[key], changes));
+    return;
+  }
+  // Arrays (order items) are compared as a whole
+  if (JSON.stringify(normalizedBefore) !== JSON.stringify(normalizedAfter)) {
+    changes.push({ field, before: normalizedBefore, after: normalizedAfter });
+  }
+}
+
+// Field-level diff between the stored document and the data written.
+// `after` may be a partial update using dot-notation keys (e.g. 'trackingInfo.status').
+// Pass `before: null` for creates and `after: null` for deletes.
+export function diffFields(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined
+): AuditFieldChange[] {
+  const changes: AuditFieldChange[] = [];
+  const fields = after ? Object.keys(after) : Object.keys(before ?? {});
+  fields
+    .filter((field) => !IGNORED_FIELDS.has(field))
+    .forEach((field) => collectChanges(field, getPath(before, field), after ? after[field] : undefined, changes));
+  return changes;
+}
+
+interface RecordAuditInput {
+  actor: SessionUser;
+  entityType: AuditEntityType;
+  entityId: string;
+  entityLabel?: string;
+  action: AuditAction;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+}
+
+// Appends an audit entry. Never throws: a failed audit write is logged but must not
+// fail the mutation that already succeeded.
+export async function recordAudit({ actor, entityType, entityId, entityLabel, action, before, after }: RecordAuditInput): Promise<void> {
+  if (!db) return;
+  try {
+    const changes = diffFields(before, after);
+    await addDoc(collection(db, 'auditLog'), {
+      entityType,
+      entityId,
+      ...(entityLabel && { entityLabel }),
+      action,
+      actor: { id: actor.id, name: actor.name, role: actor.role },
+      changes,
+      changedFields: changes.map((change) => change.field),
+      timestamp: serverTimestamp(),
+    });
+  } catch (error) {
+    console.error(`Failed to record audit entry for ${entityType} ${entityId} (${action}):`, error);
+  }
+}
+
+export function mapAuditEntry(id: string, data: Record<string, any>): AuditEntry {
+  return {
+    id,
+    entityType: data.entityType,
+    entityId: data.entityId,
+    entityLabel: data.entityLabel,
+    action: data.action,
+    actor: data.actor,
+    changes: Array.isArray(data.changes) ? data.changes : [],
+    timestamp: data.timestamp instanceof Timestamp ? data.timestamp.toDate().toISOString() : new Date().toISOString(),
+  };
+}
+
+// History for a single entity, newest first. Equality-only query so no composite index is needed.
+export async function getAuditHistory(entityType: AuditEntityType, entityId: string): Promise<{ entries: AuditEntry[]; error?: string }> {
+  if (!db) return { entries: [], error: "Database initialization failed." };
+  try {
+    const historyQuery = query(
+      collection(db, 'auditLog'),
+      where('entityType', '==', entityType),
+      where('entityId', '==', entityId)
+    );
+    const snapshot = await getDocs(historyQuery);
+    const entries = snapshot.docs
+      .map((docSnap) => mapAuditEntry(docSnap.id, docSnap.data()))
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+    return { entries };
+  } catch (error) {
+    console.error(`Error fetching audit history for ${entityType} ${entityId}:`, error);
+    return { entries: [], error: "Failed to load history." };
+  }
+}
+
+export interface AuditLogFilters {
+  entityType?: AuditEntityType;
+  entityId?: string;
+  actorId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+const AUDIT_LOG_PAGE_SIZE = 500;
+
+// Audit log for the /audit page, the newest AUDIT_LOG_PAGE_SIZE entries matching the filters. Every filter
+// runs in Firestore, so a page is never emptied by filtering afterwards. Filtering on the entity or user
+// needs a composite index on `auditLog` (the equality fields, then `timestamp` descending); Firestore's
+// error links to the index to create.
+export async function getAuditLog(filters: AuditLogFilters): Promise<{ entries: AuditEntry[]; error?: string }> {
+  if (!db) return { entries: [], error: "Database initialization failed. Please check configuration." };
+  try {
+    const constraints = [];
+    if (filters.entityType) constraints.push(where('entityType', '==', filters.entityType));
+    if (filters.entityId) constraints.push(where('entityId', '==', filters.entityId));
+    if (filters.actorId) constraints.push(where('actor.id', '==', filters.actorId));
+    if (filters.from) constraints.push(where('timestamp', '>=', Timestamp.fromDate(filters.from)));
+    if (filters.to) constraints.push(where('timestamp', '<=', Timestamp.fromDate(filters.to)));
+    const auditQuery = query(
+      collection(db, 'auditLog'),
+      ...constraints,
+      orderBy('timestamp', 'desc'),
+      limit(AUDIT_LOG_PAGE_SIZE)
+    );
+    const snapshot = await getDocs(auditQuery);
+    const entries = snapshot.docs.map((docSnap) => mapAuditEntry(docSnap.id, docSnap.data()));
+    return { entries };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error("Error fetching audit log:", error);
+    if (message.toLowerCase().includes('index')) {
+      return { entries: [], error: `These filters need a Firestore index. ${message}` };
+    }
+    return { entries: [], error: "Failed to load the audit log due to a database error." };
+  }
+}
@@ -0,0 +1,33 @@
+// src/lib/auth/password.ts
+// Password hashing for the `users` collection (Node runtime only).
+
+import { randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+
+const KEY_LENGTH = 64;
+const SALT_BYTES = 16;
+
+function deriveKey(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, (error, derivedKey) => {
+      if (error) reject(error);
+      else resolve(derivedKey);
+    });
+  });
+}
+
+// Stored format: scrypt$<salt hex>$<hash hex>
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES);
+  const derivedKey = await deriveKey(password, salt);
+  return `scrypt$${salt.toString('hex')}$${derivedKey.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, storedHash: string | undefined): Promise<boolean> {
+  if (!storedHash) return false;
+  const [scheme, saltHex, hashHex] = storedHash.split('$');
+  if (scheme !== 'scrypt' || !saltHex || !hashHex) return false;
+
+  const expected = Buffer.from(hashHex, 'hex');
+  const derivedKey = await deriveKey(password, Buffer.from(saltHex, 'hex'));
+  return expected.length === derivedKey.length && timingSafeEqual(expected, derivedKey);
+}
@@ -0,0 +1,103 @@
+// src/lib/auth/permissions.ts
+// Declarative role -> permission table. Shared by server actions (enforcement)
+// and client components (hiding/disabling controls), so keep it free of server-only imports.
+
+import type { UserRole } from '@/schemas/user';
+
+export const PERMISSIONS = [
+  'inventory:create',
+  'inventory:edit_details', // Name, style, material, dimensions, description, image...
+  'inventory:adjust_stock',
+  'inventory:edit_price',
+  'inventory:delete',
+  'inventory:transfer', // Drafting, dispatching and receiving transfers between locations
+  'inventory:manage_locations',
+  'orders:create',
+  'orders:edit',
+  'quotes:manage', // Drafting, revising, sending and closing quotes; converting one also needs orders:create
+  'customers:manage', // Adding and editing customers, and matching existing orders to them
+  'accounts:manage', // Customers' price tiers, credit limits and payment terms; approving orders over a credit limit
+  'orders:override_price', // Selling a line below or above its list price, with a reason
+  'promotions:manage', // Creating, changing and switching off promo codes
+  'orders:update_status',
+  'orders:cancel',
+  'orders:link_shipment',
+  'orders:invoice', // Issuing the numbered invoice; packing slips and delivery notes need no permission
+  'payments:record', // Deposits, instalments and cash collected on delivery
+  'payments:void', // Taking a payment recorded by mistake back off the order
+  'returns:manage', // Authorising and cancelling returns, and refunding them once received
+  'returns:receive', // Checking returned goods in and restocking what can be sold again
+  'shipments:create',
+  'shipments:update_status',
+  'purchasing:manage', // Suppliers; drafting, sending, closing and cancelling purchase orders
+  'purchasing:receive',
+  'users:manage',
+  'audit:view',
+  'settings:manage', // Showroom-wide settings such as the home state for GST
+  'reports:view', // Tax and sales reports
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+// Owners can do everything; every other role is listed explicitly
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  owner: PERMISSIONS,
+  sales: [
+    'orders:create',
+    'orders:edit',
+    'quotes:manage',
+    'customers:manage',
+    'orders:update_status',
+    'orders:cancel',
+    'orders:invoice',
+    'payments:record',
+    'returns:manage',
+  ],
+  warehouse: [
+    'inventory:edit_details',
+    'inventory:adjust_stock', // Warehouse can adjust stock but not prices
+    'inventory:transfer',
+    'orders:update_status',
+    'orders:link_shipment',
+    'shipments:create',
+    'shipments:update_status',
+    'purchasing:receive',
+    'returns:receive',
+  ],
+  driver: [
+    'orders:update_status',
+    'orders:link_shipment',
+    'payments:record', // Cash on delivery
+    'shipments:update_status',
+  ],
+};
+
+// Largest hand-entered discount each role may give, as a percent of what it comes off (the line, or
+// the whole order). Promo codes are set up in advance, so they don't count towards it.
+export const MAX_DISCOUNT_PERCENT: Record<UserRole, number> = {
+  owner: 100,
+  sales: 10,
+  warehouse: 0,
+  driver: 0,
+};
+
+export function hasPermission(role: UserRole | null | undefined, permission: Permission): boolean {
+  if (!role) return false;
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+}
+
+export function hasAnyPermission(role: UserRole | null | undefined, permissions: Permission[]): boolean {
+  return permissions.some((permission) => hasPermission(role, permission));
+}
+
+// Any of these lets a role open the inventory edit form (fields are disabled individually)
+export const INVENTORY_EDIT_PERMISSIONS: Permission[] = [
+  'inventory:edit_details',
+  'inventory:adjust_stock',
+  'inventory:edit_price',
+];
+
+// Structured error returned by server actions when authorization fails
+export type AuthError =
+  | { code: 'unauthenticated' }
+  | { code: 'forbidden'; permission: Permission; role: UserRole };
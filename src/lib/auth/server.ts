@@ -0,0 +1,58 @@
+// src/lib/auth/server.ts
+// Server-side helpers to resolve the acting user from the session cookie.
+// Use from Server Components and Server Actions only.
+
+import { cache } from 'react';
+import { cookies } from 'next/headers';
+import { db, doc, getDoc } from '@/lib/firebase/firebase';
+import { UserRoleEnum, type SessionUser } from '@/schemas/user';
+import { SESSION_COOKIE_NAME, verifySessionToken } from './session';
+import { hasPermission, type AuthError, type Permission } from './permissions';
+
+// Returns the session user, or null if not logged in / token invalid or expired. The token only says
+// who signed in: the user document is read again (once per request) so a deactivation or role change
+// applies to sessions that are already open.
+export const getCurrentUser = cache(async (): Promise<SessionUser | null> => {
+  const cookieStore = await cookies();
+  const token = cookieStore.get(SESSION_COOKIE_NAME)?.value;
+  const sessionUser = await verifySessionToken(token);
+  if (!sessionUser || !db) return null;
+
+  try {
+    const userSnap = await getDoc(doc(db, 'users', sessionUser.id));
+    if (!userSnap.exists() || userSnap.data().active === false) return null;
+    const role = UserRoleEnum.safeParse(userSnap.data().role);
+    if (!role.success) return null;
+    return { ...sessionUser, name: userSnap.data().name || sessionUser.name, role: role.data };
+  } catch (error) {
+    console.error(`Error loading user ${sessionUser.id} for the session:`, error);
+    return null;
+  }
+});
+
+type AuthorizeResult =
+  | { ok: true; user: SessionUser }
+  | { ok: false; message: string; error: AuthError };
+
+// Resolves the acting user and checks every listed permission against the role table.
+// Server actions should call this before touching Firestore and return `error` as-is on failure.
+export async function authorize(...permissions: Permission[]): Promise<AuthorizeResult> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return {
+      ok: false,
+      message: "Your session has expired. Please log in again.",
+      error: { code: 'unauthenticated' },
+    };
+  }
+  const missing = permissions.find((permission) => !hasPermission(user.role, permission));
+  if (missing) {
+    console.warn(`Authorization failed: user ${user.id} (${user.role}) lacks ${missing}.`);
+    return {
+      ok: false,
+      message: `Your role (${user.role}) is not allowed to perform this action.`,
+      error: { code: 'forbidden', permission: missing, role: user.role },
+    };
+  }
+  return { ok: true, user };
+}
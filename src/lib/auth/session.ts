@@ -0,0 +1,117 @@
+// src/lib/auth/session.ts
+// Signed, expiring session tokens. Uses Web Crypto only so it runs in both
+// the Edge middleware and Node server actions.
+
+import type { SessionUser } from '@/schemas/user';
+import { UserRoleEnum } from '@/schemas/user';
+
+export const SESSION_COOKIE_NAME = 'session-token';
+export const SESSION_MAX_AGE_SECONDS = 60 * 60 * 12; // 12 hours
+
+interface SessionPayload extends SessionUser {
+  iat: number; // Issued at (seconds since epoch)
+  exp: number; // Expires at (seconds since epoch)
+}
+
+const encoder = new TextEncoder();
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function getSessionSecret(): string | null {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret || secret.length < 32) {
+    console.error("SESSION_SECRET is missing or shorter than 32 characters. Sessions cannot be issued or verified.");
+    return null;
+  }
+  // The placeholder from .env.local.example is public, so anyone could sign tokens with it
+  if (secret.includes('CHANGE_ME')) {
+    console.error("SESSION_SECRET is still the example placeholder. Set it to a random string, e.g. from `openssl rand -hex 32`.");
+    return null;
+  }
+  return secret;
+}
+
+async function getSigningKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+export function isSessionConfigured(): boolean {
+  return getSessionSecret() !== null;
+}
+
+// Creates a signed token of the form `<payload>.<signature>` (both base64url)
+export async function createSessionToken(user: SessionUser): Promise<string | null> {
+  const secret = getSessionSecret();
+  if (!secret) return null;
+
+  const now = Math.floor(Date.now() / 1000);
+  const payload: SessionPayload = {
+    id: user.id,
+    name: user.name,
+    email: user.email,
+    role: user.role,
+    iat: now,
+    exp: now + SESSION_MAX_AGE_SECONDS,
+  };
+
+  const encodedPayload = base64UrlEncode(encoder.encode(JSON.stringify(payload)));
+  const key = await getSigningKey(secret);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(encodedPayload));
+  return `${encodedPayload}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+// Verifies signature and expiry. Returns the session user or null if the token is invalid.
+export async function verifySessionToken(token: string | undefined | null): Promise<SessionUser | null> {
+  if (!token) return null;
+  const secret = getSessionSecret();
+  if (!secret) return null;
+
+  const [encodedPayload, encodedSignature] = token.split('.');
+  if (!encodedPayload || !encodedSignature) return null;
+
+  try {
+    const key = await getSigningKey(secret);
+    const isValid = await crypto.subtle.verify(
+      'HMAC',
+      key,
+      base64UrlDecode(encodedSignature),
+      encoder.encode(encodedPayload)
+    );
+    if (!isValid) return null;
+
+    const payload = JSON.parse(new TextDecoder().decode(base64UrlDecode(encodedPayload))) as SessionPayload;
+    if (typeof payload.exp !== 'number' || payload.exp <= Math.floor(Date.now() / 1000)) {
+      return null; // Expired
+    }
+    const role = UserRoleEnum.safeParse(payload.role);
+    if (!role.success || !payload.id) return null;
+
+    return { id: payload.id, name: payload.name, email: payload.email, role: role.data };
+  } catch (error) {
+    console.warn("Session token verification failed:", error);
+    return null;
+  }
+}
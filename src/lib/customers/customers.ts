@@ -0,0 +1,133 @@
+// src/lib/customers/customers.ts
+// Reads for the `customers` collection. Writes go through the customer server actions. Orders point at
+// their customer with `customerId` but keep their own copy of the name and address in `shippingInfo`,
+// so changing a customer never changes what an order was placed with.
+
+import { db, collection, doc, getDoc, getDocs, query, where, Timestamp } from '@/lib/firebase/firebase';
+import { getAmountOwed, getOrderPaymentSummary } from '@/lib/orders/payments';
+import type { Customer, CustomerAddress, CustomerStats } from '@/schemas/customer';
+
+const roundToPaise = (amount: number) => Math.round(amount * 100) / 100;
+
+const toIsoString = (value: unknown): string | undefined =>
+  value instanceof Timestamp ? value.toDate().toISOString() : typeof value === 'string' ? value : undefined;
+
+export function mapCustomer(id: string, data: Record<string, any>): Customer {
+  return {
+    id,
+    name: data.name || 'Unnamed customer',
+    email: data.email || undefined,
+    phone: data.phone || undefined,
+    gstin: data.gstin || undefined,
+    type: data.type || 'retail',
+    taxExempt: data.taxExempt === true,
+    notes: data.notes || undefined,
+    contacts: Array.isArray(data.contacts) ? data.contacts : [],
+    addresses: Array.isArray(data.addresses) ? data.addresses : [],
+    priceTier: data.priceTier || 'standard',
+    paymentTerms: data.paymentTerms || 'due_on_order',
+    creditLimit: typeof data.creditLimit === 'number' ? data.creditLimit : 0,
+    createdAt: toIsoString(data.createdAt),
+    updatedAt: toIsoString(data.updatedAt),
+    createdBy: data.createdBy,
+    updatedBy: data.updatedBy,
+  };
+}
+
+// --- Matching ---
+// Orders and customers are matched on email, or failing that on phone number
+
+export const normalizeEmail = (email: string | undefined) => email?.trim().toLowerCase() || undefined;
+
+// The last 10 digits, so "+91 98765 43210" and "098765-43210" are the same number
+export function normalizePhone(phone: string | undefined): string | undefined {
+  const digits = phone?.replace(/\D/g, '') ?? '';
+  return digits.length >= 7 ? digits.slice(-10) : undefined;
+}
+
+export function findMatchingCustomer<T extends Pick<Customer, 'email' | 'phone'>>(customers: T[], contact: { email?: string; phone?: string }): T | undefined {
+  const email = normalizeEmail(contact.email);
+  const phone = normalizePhone(contact.phone);
+  return (email && customers.find((customer) => normalizeEmail(customer.email) === email))
+    || (phone && customers.find((customer) => normalizePhone(customer.phone) === phone))
+    || undefined;
+}
+
+// Whether a saved address is the same place as an order's shipping details
+export const isSameAddress = (a: Pick<CustomerAddress, 'address' | 'zipCode'>, b: { address?: string; zipCode?: string }) =>
+  a.address.trim().toLowerCase() === (b.address || '').trim().toLowerCase() && a.zipCode.trim() === (b.zipCode || '').trim();
+
+// The first address of a kind, falling back to any address
+export const getDefaultAddress = (customer: Pick<Customer, 'addresses'>, kind: CustomerAddress['kind']) =>
+  customer.addresses.find((address) => address.kind === kind) ?? customer.addresses[0];
+
+// --- Reads ---
+
+// All customers, by name
+export async function getCustomers(): Promise<{ customers: Customer[]; error?: string }> {
+  if (!db) return { customers: [], error: "Database initialization failed." };
+  try {
+    const snapshot = await getDocs(collection(db, 'customers'));
+    const customers = snapshot.docs
+      .map((docSnap) => mapCustomer(docSnap.id, docSnap.data()))
+      .sort((a, b) => a.name.localeCompare(b.name));
+    return { customers };
+  } catch (error) {
+    console.error("Error fetching customers:", error);
+    return { customers: [], error: "Failed to load customers." };
+  }
+}
+
+export async function getCustomer(customerId: string): Promise<{ customer: Customer | null; error?: string }> {
+  if (!db) return { customer: null, error: "Database initialization failed." };
+  try {
+    const docSnap = await getDoc(doc(db, 'customers', customerId));
+    return { customer: docSnap.exists() ? mapCustomer(docSnap.id, docSnap.data()) : null };
+  } catch (error) {
+    console.error(`Error fetching customer ${customerId}:`, error);
+    return { customer: null, error: "Failed to load the customer." };
+  }
+}
+
+export interface CustomerOrderSummary {
+  id: string;
+  orderDate: string; // ISO string
+  status: string;
+  totalAmount: number;
+  amountOwed: number; // Total less returns; nothing for cancelled and refunded orders
+  balanceDue: number;
+}
+
+// The customer's orders, newest first, with their lifetime value and what they still owe
+export async function getCustomerOrders(customerId: string): Promise<{ orders: CustomerOrderSummary[]; stats: CustomerStats; error?: string }> {
+  const emptyStats: CustomerStats = { orderCount: 0, lifetimeValue: 0, openBalance: 0 };
+  if (!db) return { orders: [], stats: emptyStats, error: "Database initialization failed." };
+  try {
+    const snapshot = await getDocs(query(collection(db, 'orders'), where('customerId', '==', customerId)));
+    const orders = snapshot.docs
+      .map((orderDoc) => {
+        const data = orderDoc.data();
+        return {
+          id: orderDoc.id,
+          orderDate: toIsoString(data.orderDate) ?? new Date(0).toISOString(),
+          status: data.status || 'Unknown',
+          totalAmount: typeof data.totalAmount === 'number' ? data.totalAmount : 0,
+          amountOwed: getAmountOwed(data),
+          balanceDue: getOrderPaymentSummary(data).balanceDue,
+        };
+      })
+      .sort((a, b) => b.orderDate.localeCompare(a.orderDate));
+    return {
+      orders,
+      stats: {
+        orderCount: orders.length,
+        lifetimeValue: roundToPaise(orders.reduce((sum, order) => sum + order.amountOwed, 0)),
+        openBalance: roundToPaise(orders.reduce((sum, order) => sum + order.balanceDue, 0)),
+        lastOrderDate: orders[0]?.orderDate,
+      },
+    };
+  } catch (error) {
+    console.error(`Error fetching orders for customer ${customerId}:`, error);
+    return { orders: [], stats: emptyStats, error: "Failed to load the customer's orders." };
+  }
+}
@@ -0,0 +1,115 @@
+// src/lib/customers/statements.ts
+// Monthly account statements. The account is a ledger built from the customer's orders: each order is
+// a charge for what it's worth now (its total less returns) on its invoice date, or its order date if
+// it hasn't been invoiced, and each payment a credit (a refund a charge) on the day it was paid. Voided
+// payments are left out. Cancelled and refunded orders charge nothing, but any payments and refunds on
+// them still show, so the closing balance is what the customer owes less anything they've overpaid.
+
+import { db, collection, getDocs, query, where, Timestamp } from '@/lib/firebase/firebase';
+import { getAmountOwed, getOrderPaymentSummary, mapPaymentRecord } from '@/lib/orders/payments';
+
+const roundToPaise = (amount: number) => Math.round(amount * 100) / 100;
+
+const IST_OFFSET_MS = 330 * 60 * 1000; // Entries are dated in Indian time, like invoices
+
+// yyyy-mm-dd in Indian time
+function toLocalDate(value: unknown): string | undefined {
+  const date = value instanceof Timestamp ? value.toDate() : typeof value === 'string' ? new Date(value) : null;
+  if (!date || isNaN(date.getTime())) return undefined;
+  return new Date(date.getTime() + IST_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+export interface StatementEntry {
+  date: string; // yyyy-mm-dd
+  orderId: string;
+  description: string;
+  reference?: string; // Invoice number, or the payment's reference
+  debit: number; // Adds to what the customer owes
+  credit: number; // Takes off it
+  balance: number; // Running balance after this entry
+}
+
+export interface AccountStatement {
+  period: string; // YYYY-MM
+  openingBalance: number; // Owed at the start of the month
+  entries: StatementEntry[]; // The month's entries, oldest first
+  totalDebits: number;
+  totalCredits: number;
+  closingBalance: number; // Owed at the end of the month
+}
+
+type LedgerEntry = Omit<StatementEntry, 'balance'>;
+
+function getOrderLedger(orderId: string, data: Record<string, any>): LedgerEntry[] {
+  const entries: LedgerEntry[] = [];
+  const orderDate = toLocalDate(data.orderDate) ?? '1970-01-01';
+  const amountOwed = getAmountOwed(data);
+  if (amountOwed > 0) {
+    const invoiceNumber: string | undefined = data.invoice?.number;
+    entries.push({
+      date: toLocalDate(data.invoice?.issuedAt) ?? orderDate,
+      orderId,
+      description: invoiceNumber ? `Invoice${data.invoice.dueDate ? `, due ${data.invoice.dueDate}` : ''}` : 'Order',
+      reference: invoiceNumber,
+      debit: amountOwed,
+      credit: 0,
+    });
+  }
+
+  if (Array.isArray(data.payments)) {
+    for (const payment of data.payments.map(mapPaymentRecord)) {
+      if (payment.voided || payment.amount <= 0) continue;
+      const isRefund = payment.kind === 'refund';
+      entries.push({
+        date: payment.paidOn || orderDate,
+        orderId,
+        description: isRefund ? 'Refund' : 'Payment',
+        reference: payment.reference,
+        debit: isRefund ? payment.amount : 0,
+        credit: isRefund ? 0 : payment.amount,
+      });
+    }
+  } else {
+    // Orders from before payments were recorded one by one count as paid on the order date
+    const { amountPaid } = getOrderPaymentSummary(data);
+    if (amountPaid > 0) entries.push({ date: orderDate, orderId, description: 'Payment', debit: 0, credit: amountPaid });
+  }
+  return entries;
+}
+
+// The customer's statement for a YYYY-MM month (see parseReportPeriod)
+export async function getAccountStatement(customerId: string, period: string): Promise<{ statement: AccountStatement | null; error?: string }> {
+  if (!db) return { statement: null, error: "Database initialization failed." };
+  try {
+    const snapshot = await getDocs(query(collection(db, 'orders'), where('customerId', '==', customerId)));
+    // Charges before credits on the same day, so the running balance doesn't dip below zero first
+    const ledger = snapshot.docs
+      .flatMap((orderDoc) => getOrderLedger(orderDoc.id, orderDoc.data()))
+      .sort((a, b) => a.date.localeCompare(b.date) || b.debit - a.debit);
+
+    const monthStart = `${period}-01`;
+    let balance = 0;
+    const entries: StatementEntry[] = [];
+    let openingBalance = 0;
+    for (const entry of ledger) {
+      if (entry.date >= monthStart && !entry.date.startsWith(period)) break; // After the month
+      balance = roundToPaise(balance + entry.debit - entry.credit);
+      if (entry.date < monthStart) openingBalance = balance;
+      else entries.push({ ...entry, balance });
+    }
+
+    return {
+      statement: {
+        period,
+        openingBalance,
+        entries,
+        totalDebits: roundToPaise(entries.reduce((sum, entry) => sum + entry.debit, 0)),
+        totalCredits: roundToPaise(entries.reduce((sum, entry) => sum + entry.credit, 0)),
+        closingBalance: balance,
+      },
+    };
+  } catch (error) {
+    console.error(`Error building the ${period} statement for customer ${customerId}:`, error);
+    return { statement: null, error: "Failed to build the account statement." };
+  }
+}
@@ -0,0 +1,64 @@
+// src/lib/customers/trade-accounts.ts
+// Trade accounts: customers who pay after delivery on Net 15/30 terms, up to a credit limit, and who may
+// buy at a trade price tier. Orders on account skip the wait for payment; their invoice falls due the
+// term's days after the invoice date. Going over the credit limit needs someone with accounts:manage to
+// approve the order with a reason. Used by the order actions (enforced) and the order form (preview).
+
+import { hasPermission, type AuthError } from '@/lib/auth/permissions';
+import type { Customer, PaymentTerms } from '@/schemas/customer';
+import type { CreditApproval } from '@/schemas/order';
+import type { SessionUser } from '@/schemas/user';
+
+const roundToPaise = (amount: number) => Math.round(amount * 100) / 100;
+
+const IST_OFFSET_MS = 330 * 60 * 1000; // Due dates are counted in Indian time, like invoice dates
+
+export const PAYMENT_TERM_DAYS: Record<PaymentTerms, number> = {
+  due_on_order: 0,
+  net_15: 15,
+  net_30: 30,
+};
+
+export const isOnAccount = (customer: Pick<Customer, 'paymentTerms'>) => customer.paymentTerms !== 'due_on_order';
+
+// yyyy-mm-dd the invoice falls due, counting from the day it was issued
+export function getInvoiceDueDate(issuedAt: Date, terms: PaymentTerms): string {
+  const local = new Date(issuedAt.getTime() + IST_OFFSET_MS);
+  local.setUTCDate(local.getUTCDate() + PAYMENT_TERM_DAYS[terms]);
+  return local.toISOString().slice(0, 10);
+}
+
+export interface CreditCheck {
+  creditLimit: number;
+  exposure: number; // What the customer would owe: their open balance plus the new amount
+  overBy: number; // 0 when within the limit
+}
+
+export function checkCreditLimit(creditLimit: number, openBalance: number, additional: number): CreditCheck {
+  const exposure = roundToPaise(openBalance + additional);
+  return { creditLimit, exposure, overBy: roundToPaise(Math.max(0, exposure - creditLimit)) };
+}
+
+// An order that keeps the account within its limit needs nothing. One that takes it over is refused,
+// unless the user may approve it and has given a reason, in which case the approval is kept on the order.
+export function resolveCreditApproval(
+  check: CreditCheck,
+  reason: string | undefined,
+  user: SessionUser
+): { ok: true; approval?: CreditApproval } | { ok: false; message: string; errors: Record<string, any> | null; error?: AuthError } {
+  if (check.overBy <= 0) return { ok: true };
+  const summary = `This takes the account to ₹${check.exposure.toFixed(2)}, ₹${check.overBy.toFixed(2)} over its ₹${check.creditLimit.toFixed(2)} credit limit.`;
+  if (!hasPermission(user.role, 'accounts:manage')) {
+    return {
+      ok: false,
+      message: `${summary} Take a payment, or ask someone who manages trade accounts to approve the order.`,
+      errors: null,
+      error: { code: 'forbidden', permission: 'accounts:manage', role: user.role },
+    };
+  }
+  const trimmed = reason?.trim();
+  if (!trimmed) {
+    return { ok: false, message: `${summary} Give a reason to approve it.`, errors: { creditApprovalReason: ["A reason is required to go over the credit limit."] } };
+  }
+  return { ok: true, approval: { creditLimit: check.creditLimit, exposure: check.exposure, reason: trimmed, by: { id: user.id, name: user.name, role: user.role } } };
+}
@@ -0,0 +1,102 @@
+// src/lib/documents/invoices.ts
+// Invoice numbers. GST needs invoices numbered in one unbroken series per financial year, so the number
+// is taken from a counter in `counters/invoices-<year>` in the same transaction that stores it on the
+// order. An order gets its number when someone with orders:invoice issues it from the order page, and keeps
+// it for good; downloading only renders an invoice that has been issued.
+// What the invoice prints (lines, totals, GST, parties and letterhead) is copied onto it when it's issued,
+// so a numbered invoice reads the same however the order or the branding changes afterwards. Payments
+// and returns still come from the order, as they're recorded after the invoice.
+
+import { db, doc, runTransaction, serverTimestamp, Timestamp } from '@/lib/firebase/firebase';
+import { getInvoiceDueDate } from '@/lib/customers/trade-accounts';
+import { DEFAULT_BRANDING, getBrandingSettings } from '@/lib/settings/branding-settings';
+import { getTaxSettings } from '@/lib/settings/tax-settings';
+import type { BrandingSettings } from '@/schemas/document';
+import type { SessionUser } from '@/schemas/user';
+import type { OrderDocumentSource } from './order-documents';
+
+// Orders that can't be invoiced yet (or any more)
+export const NOT_INVOICEABLE_STATUSES = ['Pending Payment', 'Cancelled'];
+
+const IST_OFFSET_MS = 330 * 60 * 1000; // Invoice dates and years are in Indian time whatever the server's zone
+
+// Financial year (April to March) a moment falls in, e.g. "2026-27"
+export function getFinancialYear(date: Date): string {
+  const local = new Date(date.getTime() + IST_OFFSET_MS);
+  const startYear = local.getUTCMonth() >= 3 ? local.getUTCFullYear() : local.getUTCFullYear() - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+}
+
+// Order fields the invoice prints that must not change once it's numbered
+const INVOICE_SNAPSHOT_FIELDS = ['items', 'totals', 'totalAmount', 'discounts', 'gst', 'shippingInfo', 'shippingMethod', 'paymentTerms', 'orderDate'];
+
+export interface InvoiceSnapshot {
+  order: Record<string, any>; // INVOICE_SNAPSHOT_FIELDS as they were when the invoice was issued
+  branding: BrandingSettings;
+  sellerGstin?: string;
+}
+
+// Firestore refuses undefined values
+const withoutUndefined = (values: Record<string, any>) => Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined));
+
+// The invoice's PDF source: its snapshot over the live order, or the live order and letterhead for
+// invoices issued before snapshots were kept
+export function getInvoiceDocumentSource(source: OrderDocumentSource): OrderDocumentSource {
+  const snapshot: InvoiceSnapshot | undefined = source.order.invoice?.snapshot;
+  if (!snapshot) return source;
+  return { ...source, order: { ...source.order, ...snapshot.order }, branding: snapshot.branding, sellerGstin: snapshot.sellerGstin };
+}
+
+export const formatInvoiceNumber = (financialYear: string, sequence: number) => `INV/${financialYear}/${String(sequence).padStart(5, '0')}`;
+
+// Gives the order the next invoice number, unless it already has one
+export async function issueInvoice(
+  orderId: string,
+  actor: SessionUser
+): Promise<{ success: boolean; message: string; issued?: boolean; before?: Record<string, any>; after?: Record<string, any> }> {
+  if (!db) return { success: false, message: "Database initialization failed." };
+  const firestore = db;
+
+  try {
+    const [{ settings: branding }, { settings: taxSettings }] = await Promise.all([getBrandingSettings(), getTaxSettings()]);
+    const { updatedAt, updatedBy, ...letterhead } = branding ?? DEFAULT_BRANDING;
+    return await runTransaction(firestore, async (transaction) => {
+      const orderRef = doc(firestore, 'orders', orderId);
+      const orderSnap = await transaction.get(orderRef);
+      if (!orderSnap.exists()) return { success: false, message: `Order ${orderId} not found.` };
+      const orderData = orderSnap.data();
+      if (orderData.invoice?.number) {
+        return { success: true, message: `Order already invoiced as ${orderData.invoice.number}.`, issued: false };
+      }
+      if (NOT_INVOICEABLE_STATUSES.includes(orderData.status)) {
+        return { success: false, message: `A ${orderData.status.toLowerCase()} order can't be invoiced.` };
+      }
+
+      const issuedAt = Timestamp.now();
+      const financialYear = getFinancialYear(issuedAt.toDate());
+      const counterRef = doc(firestore, 'counters', `invoices-${financialYear}`);
+      const counterSnap = await transaction.get(counterRef);
+      const sequence = (counterSnap.exists() && typeof counterSnap.data().last === 'number' ? counterSnap.data().last : 0) + 1;
+
+      const after = {
+        invoice: {
+          number: formatInvoiceNumber(financialYear, sequence),
+          issuedAt,
+          ...(orderData.paymentTerms && { dueDate: getInvoiceDueDate(issuedAt.toDate(), orderData.paymentTerms) }), // Orders on account
+          issuedBy: { id: actor.id, name: actor.name, role: actor.role },
+          snapshot: withoutUndefined({
+            order: withoutUndefined(Object.fromEntries(INVOICE_SNAPSHOT_FIELDS.map((field) => [field, orderData[field]]))),
+            branding: withoutUndefined(letterhead),
+            sellerGstin: taxSettings?.gstin || undefined,
+          }),
+        },
+      };
+      transaction.set(counterRef, { last: sequence, updatedAt: serverTimestamp() });
+      transaction.update(orderRef, after);
+      return { success: true, message: `Invoice ${after.invoice.number} issued.`, issued: true, before: orderData, after };
+    });
+  } catch (error) {
+    console.error(`Error issuing an invoice for order ${orderId}:`, error);
+    return { success: false, message: "Failed to issue the invoice due to a database error." };
+  }
+}
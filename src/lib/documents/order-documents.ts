@@ -0,0 +1,667 @@
+// src/lib/documents/order-documents.ts
+// Lays out the PDFs downloaded from the order page: the invoice (prices, GST and payments), the packing
+// slip (what to pick, no prices) and the delivery note (what was handed over, with a space for the
+// customer to sign). Quotes are printed the same way as invoices, from the quote's current revision, and
+// trade customers' monthly account statements on the same letterhead. Everything printed comes from the
+// order (and shipment), quote or statement as stored plus the letterhead, and dates are formatted in
+// Indian time, so an unchanged order or quote always gives the same file.
+
+import { Timestamp } from '@/lib/firebase/firebase';
+import { getOrderLineKey } from '@/lib/orders/fulfillment';
+import { getLineTaxAmount, getStateName } from '@/lib/orders/tax';
+import { getOrderPaymentSummary, mapPaymentRecord } from '@/lib/orders/payments';
+import { PAYMENT_METHOD_LABELS, PAYMENT_STATUS_LABELS } from '@/schemas/payment';
+import { PAYMENT_TERMS_LABELS, PRICE_TIERS, type Customer, type PaymentTerms } from '@/schemas/customer';
+import type { BrandingSettings, OrderDocumentType } from '@/schemas/document';
+import type { AccountStatement } from '@/lib/customers/statements';
+import { createPdfWriter, wrapText, PAGE_HEIGHT, PAGE_WIDTH, type PdfColor, type PdfFont, type PdfWriter } from './pdf';
+
+export interface OrderDocumentSource {
+  orderId: string;
+  order: Record<string, any>; // The order document as stored
+  branding: BrandingSettings;
+  sellerGstin?: string; // From the tax settings, for orders saved before GST was set up
+  shipment?: { id: string; data: Record<string, any> }; // Limits the packing slip / delivery note to one shipment
+}
+
+export interface QuoteDocumentSource {
+  quoteId: string;
+  quote: Record<string, any>; // The quote document as stored
+  branding: BrandingSettings;
+  sellerGstin?: string;
+}
+
+export interface AccountStatementSource {
+  customer: Customer;
+  statement: AccountStatement;
+  branding: BrandingSettings;
+  sellerGstin?: string;
+}
+
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const RIGHT = PAGE_WIDTH - MARGIN;
+const BODY_BOTTOM = PAGE_HEIGHT - 60; // Below this is the footer
+const GREY: PdfColor = [0.42, 0.45, 0.5];
+const RULE: PdfColor = [0.85, 0.86, 0.88];
+const WHITE: PdfColor = [1, 1, 1];
+
+const IST_OFFSET_MS = 330 * 60 * 1000;
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// e.g. "19 Oct 2026", in Indian time whatever the server's zone
+function formatDocumentDate(value: unknown): string {
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const [year, month, day] = value.split('-').map(Number);
+    return `${day} ${MONTHS[month - 1]} ${year}`;
+  }
+  const date = value instanceof Timestamp ? value.toDate() : typeof value === 'string' ? new Date(value) : null;
+  if (!date || isNaN(date.getTime())) return '—';
+  const local = new Date(date.getTime() + IST_OFFSET_MS);
+  return `${local.getUTCDate()} ${MONTHS[local.getUTCMonth()]} ${local.getUTCFullYear()}`;
+}
+
+// Indian digit grouping (12,34,567.89) without relying on the runtime's locale data
+function formatAmount(amount: number): string {
+  const [whole, paise] = Math.abs(amount).toFixed(2).split('.');
+  const grouped = whole.length > 3 ? `${whole.slice(0, -3).replace(/\B(?=(\d{2})+(?!\d))/g, ',')},${whole.slice(-3)}` : whole;
+  return `${amount < 0 ? '-' : ''}${grouped}.${paise}`;
+}
+
+const formatMoney = (amount: number) => `₹${formatAmount(amount)}`;
+
+function hexToColor(hex: string): PdfColor {
+  const value = parseInt(hex.slice(1), 16);
+  return [((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255];
+}
+
+function describeCustomizations(customizations: Record<string, any> | undefined): string | undefined {
+  if (!customizations) return undefined;
+  const parts = [
+    customizations.material && `Material: ${customizations.material}`,
+    customizations.finish && `Finish: ${customizations.finish}`,
+    customizations.hardware && `Hardware: ${customizations.hardware}`,
+    (customizations.size?.width || customizations.size?.height) && `Size: ${customizations.size?.width ?? '?'} × ${customizations.size?.height ?? '?'} in`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : undefined;
+}
+
+// --- Page layout ---
+
+interface Column {
+  header: string;
+  width: number;
+  align?: 'left' | 'right' | 'center';
+}
+
+// A cell's first line is printed normally and any notes under it smaller and in grey
+type Cell = string | { text: string; notes: string[] };
+
+interface Layout {
+  pdf: PdfWriter;
+  accent: PdfColor;
+  y: number;
+}
+
+const LINE_HEIGHT = 11;
+const NOTE_HEIGHT = 10;
+
+function startPage(layout: Layout) {
+  layout.pdf.addPage();
+  layout.y = MARGIN;
+}
+
+// Moves to a new page when the next `height` points won't fit; returns whether it did
+function ensureSpace(layout: Layout, height: number): boolean {
+  if (layout.y + height <= BODY_BOTTOM) return false;
+  startPage(layout);
+  return true;
+}
+
+function drawLetterhead(layout: Layout, branding: BrandingSettings, gstin: string | undefined, title: string, details: [string, string][]) {
+  const { pdf, accent } = layout;
+  const leftWidth = CONTENT_WIDTH * 0.55;
+
+  let left = MARGIN + 16;
+  pdf.text(MARGIN, left, branding.companyName, { size: 16, font: 'bold', color: accent });
+  left += 6;
+  const letterheadLines = [
+    ...(branding.address ? branding.address.split(/\r?\n/).flatMap((row) => wrapText(row, leftWidth, 8.5)) : []),
+    [branding.phone, branding.email, branding.website].filter(Boolean).join('  ·  '),
+    gstin ? `GSTIN: ${gstin}` : '',
+  ].filter(Boolean);
+  for (const row of letterheadLines) {
+    left += LINE_HEIGHT;
+    pdf.text(MARGIN, left, row, { size: 8.5, color: GREY });
+  }
+
+  let right = MARGIN + 16;
+  pdf.text(RIGHT, right, title, { size: 15, font: 'bold', align: 'right' });
+  right += 6;
+  for (const [label, value] of details) {
+    right += LINE_HEIGHT;
+    pdf.text(RIGHT - 110, right, label, { size: 8.5, color: GREY, align: 'right' });
+    pdf.text(RIGHT, right, value, { size: 8.5, font: 'bold', align: 'right' });
+  }
+
+  layout.y = Math.max(left, right) + 12;
+  pdf.line(MARGIN, layout.y, RIGHT, layout.y, { width: 1, color: accent });
+  layout.y += 16;
+}
+
+// Address blocks side by side
+function drawParties(layout: Layout, blocks: { heading: string; lines: string[] }[]) {
+  const { pdf, accent } = layout;
+  const blockWidth = CONTENT_WIDTH / blocks.length;
+  let bottom = layout.y;
+  blocks.forEach((block, index) => {
+    const x = MARGIN + index * blockWidth;
+    let y = layout.y;
+    pdf.text(x, y, block.heading.toUpperCase(), { size: 7.5, font: 'bold', color: accent });
+    block.lines.filter(Boolean).forEach((line, lineIndex) => {
+      for (const row of wrapText(line, blockWidth - 12, 9, lineIndex === 0 ? 'bold' : 'regular')) {
+        y += LINE_HEIGHT;
+        pdf.text(x, y, row, { size: 9, font: lineIndex === 0 ? 'bold' : 'regular' });
+      }
+    });
+    bottom = Math.max(bottom, y);
+  });
+  layout.y = bottom + 20;
+}
+
+function drawTableHeader(layout: Layout, columns: Column[]) {
+  const { pdf, accent } = layout;
+  pdf.rect(MARGIN, layout.y, CONTENT_WIDTH, 18, { fill: accent });
+  let x = MARGIN;
+  for (const column of columns) {
+    pdf.text(cellX(x, column), layout.y + 12, column.header, { size: 8, font: 'bold', color: WHITE, align: column.align });
+    x += column.width;
+  }
+  layout.y += 18;
+}
+
+const CELL_PADDING = 4;
+
+function cellX(x: number, column: Column): number {
+  if (column.align === 'right') return x + column.width - CELL_PADDING;
+  if (column.align === 'center') return x + column.width / 2;
+  return x + CELL_PADDING;
+}
+
+// Rows break across pages whole, with the header repeated on the new page
+function drawTable(layout: Layout, columns: Column[], rows: Cell[][]) {
+  const { pdf } = layout;
+  ensureSpace(layout, 18 + 2 * LINE_HEIGHT);
+  drawTableHeader(layout, columns);
+
+  for (const row of rows) {
+    const wrapped = row.map((cell, index) => {
+      const maxWidth = columns[index].width - CELL_PADDING * 2;
+      const text = typeof cell === 'string' ? cell : cell.text;
+      const notes = typeof cell === 'string' ? [] : cell.notes;
+      return {
+        lines: wrapText(text, maxWidth, 8.5, 'regular'),
+        notes: notes.flatMap((note) => wrapText(note, maxWidth, 7.5, 'regular')),
+      };
+    });
+    const height = Math.max(...wrapped.map((cell) => cell.lines.length * LINE_HEIGHT + cell.notes.length * NOTE_HEIGHT)) + 8;
+    if (ensureSpace(layout, height)) drawTableHeader(layout, columns);
+
+    let x = MARGIN;
+    wrapped.forEach((cell, index) => {
+      const column = columns[index];
+      let y = layout.y + 4;
+      for (const line of cell.lines) {
+        y += LINE_HEIGHT;
+        pdf.text(cellX(x, column), y - 2, line, { size: 8.5, align: column.align });
+      }
+      for (const note of cell.notes) {
+        y += NOTE_HEIGHT;
+        pdf.text(cellX(x, column), y - 2, note, { size: 7.5, color: GREY, align: column.align });
+      }
+      x += column.width;
+    });
+    layout.y += height;
+    pdf.line(MARGIN, layout.y, RIGHT, layout.y, { color: RULE });
+  }
+  layout.y += 14;
+}
+
+// Label / amount pairs against the right margin
+function drawTotals(layout: Layout, rows: { label: string; value: string; strong?: boolean }[]) {
+  const { pdf } = layout;
+  ensureSpace(layout, rows.length * 14 + 8);
+  for (const row of rows) {
+    const font: PdfFont = row.strong ? 'bold' : 'regular';
+    if (row.strong) {
+      pdf.line(RIGHT - 220, layout.y - 2, RIGHT, layout.y - 2, { color: RULE });
+      layout.y += 4;
+    }
+    layout.y += 12;
+    pdf.text(RIGHT - 110, layout.y, row.label, { size: row.strong ? 10 : 9, font, align: 'right' });
+    pdf.text(RIGHT, layout.y, row.value, { size: row.strong ? 10 : 9, font, align: 'right' });
+    layout.y += 2;
+  }
+  layout.y += 18;
+}
+
+function drawSectionHeading(layout: Layout, heading: string) {
+  ensureSpace(layout, 40);
+  layout.pdf.text(MARGIN, layout.y, heading.toUpperCase(), { size: 7.5, font: 'bold', color: layout.accent });
+  layout.y += 8;
+}
+
+function drawParagraph(layout: Layout, text: string, options: { size?: number; color?: PdfColor } = {}) {
+  const size = options.size ?? 8.5;
+  for (const row of wrapText(text, CONTENT_WIDTH, size)) {
+    ensureSpace(layout, LINE_HEIGHT);
+    layout.y += LINE_HEIGHT;
+    layout.pdf.text(MARGIN, layout.y, row, { size, color: options.color });
+  }
+  layout.y += 10;
+}
+
+// Page numbers and a reference on every page, drawn once the page count is known
+function drawFooters(layout: Layout, reference: string) {
+  const { pdf } = layout;
+  const total = pdf.pageCount;
+  for (let index = 0; index < total; index += 1) {
+    pdf.setPage(index);
+    pdf.line(MARGIN, PAGE_HEIGHT - 42, RIGHT, PAGE_HEIGHT - 42, { color: RULE });
+    pdf.text(MARGIN, PAGE_HEIGHT - 30, reference, { size: 7.5, color: GREY });
+    pdf.text(RIGHT, PAGE_HEIGHT - 30, `Page ${index + 1} of ${total}`, { size: 7.5, color: GREY, align: 'right' });
+  }
+}
+
+// --- Documents ---
+
+const shortOrderId = (orderId: string) => orderId.substring(0, 8).toUpperCase();
+
+function customerLines(shippingInfo: Record<string, any> | undefined): string[] {
+  if (!shippingInfo) return ['—'];
+  return [
+    shippingInfo.name,
+    shippingInfo.address,
+    [shippingInfo.city, shippingInfo.state, shippingInfo.zipCode].filter(Boolean).join(', '),
+    shippingInfo.phone && `Phone: ${shippingInfo.phone}`,
+    shippingInfo.email,
+  ];
+}
+
+// Order lines with their keys; with a shipment, only the lines it carries at the quantities it carries
+function getDocumentLines(source: OrderDocumentSource): { item: Record<string, any>; quantity: number }[] {
+  const items: Record<string, any>[] = Array.isArray(source.order.items) ? source.order.items : [];
+  const shipmentItems: Record<string, any>[] | undefined = source.shipment?.data.items;
+  if (!shipmentItems) return items.map((item) => ({ item, quantity: item.quantity || 0 }));
+  return items.flatMap((item, index) => {
+    const key = getOrderLineKey(item, index);
+    const quantity = shipmentItems.filter((shipped) => shipped.cartItemId === key).reduce((sum, shipped) => sum + (shipped.quantity || 0), 0);
+    return quantity > 0 ? [{ item, quantity }] : [];
+  });
+}
+
+// Lines at their prices with HSN, discount and GST, as on the invoice and the quote
+function drawPricedLines(layout: Layout, items: Record<string, any>[]) {
+  const columns: Column[] = [
+    { header: '#', width: 20, align: 'center' },
+    { header: 'Item', width: 151.28 },
+    { header: 'HSN', width: 44 },
+    { header: 'Qty', width: 30, align: 'right' },
+    { header: 'Rate', width: 58, align: 'right' },
+    { header: 'Discount', width: 52, align: 'right' },
+    { header: 'Taxable', width: 62, align: 'right' },
+    { header: 'GST', width: 36, align: 'right' },
+    { header: 'Amount', width: 62, align: 'right' },
+  ];
+  const rows: Cell[][] = items.map((item, index) => {
+    const lineDiscount: number = item.discount?.amount ?? 0;
+    const taxableValue: number = item.tax?.taxableValue ?? (item.finalPrice || 0) * (item.quantity || 0) - lineDiscount;
+    const taxAmount = item.tax ? getLineTaxAmount(item.tax) : 0;
+    const customizations = describeCustomizations(item.customizations);
+    return [
+      String(index + 1),
+      {
+        text: item.name || 'Item',
+        notes: [
+          item.sku && `SKU: ${item.sku}`,
+          customizations,
+          item.discount?.promoCode && `Promo ${item.discount.promoCode}`,
+          item.returnedQuantity > 0 && `${item.returnedQuantity} returned`,
+        ].filter((note): note is string => Boolean(note)),
+      },
+      item.tax?.hsnCode || '—',
+      String(item.quantity || 0),
+      formatAmount(item.finalPrice || 0),
+      lineDiscount > 0 ? formatAmount(lineDiscount) : '—',
+      formatAmount(taxableValue),
+      item.tax ? `${item.tax.rate}%` : '—',
+      formatAmount(taxableValue + taxAmount),
+    ];
+  });
+  drawTable(layout, columns, rows);
+}
+
+// Subtotal down to shipping for a stored order or quote; the total rows are added by the caller
+function getPriceTotalRows(record: Record<string, any>): { label: string; value: string; strong?: boolean }[] {
+  const { totals, gst } = record;
+  const totalRows: { label: string; value: string; strong?: boolean }[] = [];
+  if (totals) {
+    totalRows.push({ label: 'Subtotal', value: formatMoney(totals.subtotal) });
+    for (const discount of Array.isArray(record.discounts) ? record.discounts : []) {
+      totalRows.push({ label: discount.promoCode ? `Promo ${discount.promoCode}` : 'Order discount', value: formatMoney(-discount.amount) });
+    }
+    if (gst) {
+      if (gst.cgst > 0 || gst.sgst > 0) {
+        totalRows.push({ label: 'CGST', value: formatMoney(gst.cgst) }, { label: 'SGST', value: formatMoney(gst.sgst) });
+      }
+      if (gst.igst > 0) totalRows.push({ label: 'IGST', value: formatMoney(gst.igst) });
+    } else if (totals.taxTotal > 0) {
+      totalRows.push({ label: 'Tax', value: formatMoney(totals.taxTotal) });
+    }
+    if (totals.shippingTotal > 0) totalRows.push({ label: 'Shipping', value: formatMoney(totals.shippingTotal) });
+  }
+  return totalRows;
+}
+
+function renderInvoice(layout: Layout, source: OrderDocumentSource) {
+  const { order, orderId } = source;
+  const gst = order.gst;
+  const items: Record<string, any>[] = Array.isArray(order.items) ? order.items : [];
+  const placeOfSupply = gst?.placeOfSupplyCode ? `${getStateName(gst.placeOfSupplyCode)} (${gst.placeOfSupplyCode})` : undefined;
+
+  drawLetterhead(layout, source.branding, order.gst?.sellerGstin || source.sellerGstin, gst ? 'TAX INVOICE' : 'INVOICE', [
+    ['Invoice No.', order.invoice?.number ?? '—'],
+    ['Invoice Date', formatDocumentDate(order.invoice?.issuedAt)],
+    ...(order.paymentTerms ? [['Terms', PAYMENT_TERMS_LABELS[order.paymentTerms as PaymentTerms]] as [string, string]] : []),
+    ...(order.invoice?.dueDate ? [['Due Date', formatDocumentDate(order.invoice.dueDate)] as [string, string]] : []),
+    ['Order No.', shortOrderId(orderId)],
+    ['Order Date', formatDocumentDate(order.orderDate)],
+    ...(placeOfSupply ? [['Place of Supply', placeOfSupply] as [string, string]] : []),
+  ]);
+
+  const paymentSummary = getOrderPaymentSummary(order);
+  drawParties(layout, [
+    { heading: 'Bill & Ship To', lines: [...customerLines(order.shippingInfo), gst?.buyerGstin ? `GSTIN: ${gst.buyerGstin}` : ''] },
+    {
+      heading: 'Details',
+      lines: [
+        PAYMENT_STATUS_LABELS[paymentSummary.status],
+        order.shippingMethod ? `Shipping: ${order.shippingMethod}` : '',
+        gst ? (gst.supplyType === 'inter_state' ? 'Inter-state supply (IGST)' : 'Intra-state supply (CGST + SGST)') : '',
+      ],
+    },
+  ]);
+
+  drawPricedLines(layout, items);
+
+  const totalRows = getPriceTotalRows(order);
+  const grandTotal: number = order.totals?.grandTotal ?? order.totalAmount ?? 0;
+  totalRows.push({ label: 'Total', value: formatMoney(grandTotal), strong: true });
+  if (order.returnTotal > 0) {
+    totalRows.push({ label: 'Returned', value: formatMoney(-order.returnTotal) }, { label: 'Net Total', value: formatMoney(grandTotal - order.returnTotal), strong: true });
+  }
+  totalRows.push({ label: 'Paid', value: formatMoney(paymentSummary.amountPaid) }, { label: 'Balance Due', value: formatMoney(paymentSummary.balanceDue), strong: true });
+  drawTotals(layout, totalRows);
+
+  const payments = (Array.isArray(order.payments) ? order.payments : []).map(mapPaymentRecord).filter((payment) => !payment.voided);
+  if (payments.length > 0) {
+    drawSectionHeading(layout, 'Payments');
+    drawTable(layout, [
+      { header: 'Date', width: 90 },
+      { header: 'Type', width: 80 },
+      { header: 'Method', width: 110 },
+      { header: 'Reference', width: 155.28 },
+      { header: 'Amount', width: 80, align: 'right' },
+    ], payments.map((payment) => [
+      formatDocumentDate(payment.paidOn),
+      payment.kind === 'refund' ? 'Refund' : 'Payment',
+      PAYMENT_METHOD_LABELS[payment.method] || payment.method,
+      payment.reference || '—',
+      formatAmount(payment.kind === 'refund' ? -payment.amount : payment.amount),
+    ]));
+  }
+
+  if (source.branding.invoiceTerms) {
+    drawSectionHeading(layout, 'Terms');
+    drawParagraph(layout, source.branding.invoiceTerms);
+  }
+  drawParagraph(layout, 'This is a computer-generated invoice and does not need a signature.', { size: 7.5, color: GREY });
+}
+
+function renderPackingSlip(layout: Layout, source: OrderDocumentSource) {
+  const { order, orderId, shipment } = source;
+  drawLetterhead(layout, source.branding, order.gst?.sellerGstin || source.sellerGstin, 'PACKING SLIP', [
+    ['Order No.', shortOrderId(orderId)],
+    ['Order Date', formatDocumentDate(order.orderDate)],
+    ...(shipment ? [['Shipment', shortOrderId(shipment.id)] as [string, string]] : []),
+  ]);
+  drawParties(layout, [
+    { heading: 'Ship To', lines: customerLines(order.shippingInfo) },
+    { heading: 'Shipping', lines: [order.shippingMethod || 'Standard', shipment?.data.carrier && shipment.data.carrier !== 'TBD' ? `Carrier: ${shipment.data.carrier}` : ''] },
+  ]);
+
+  const lines = getDocumentLines(source);
+  drawTable(layout, [
+    { header: '#', width: 20, align: 'center' },
+    { header: 'Item', width: 255.28 },
+    { header: 'SKU', width: 110 },
+    { header: 'Qty', width: 60, align: 'right' },
+    { header: 'Packed', width: 70, align: 'center' },
+  ], lines.map(({ item, quantity }, index) => [
+    String(index + 1),
+    { text: item.name || 'Item', notes: [describeCustomizations(item.customizations)].filter((note): note is string => Boolean(note)) },
+    item.sku || '—',
+    String(quantity),
+    '[    ]',
+  ]));
+  drawParagraph(layout, `${lines.reduce((sum, line) => sum + line.quantity, 0)} unit(s) in total.`, { size: 9 });
+
+  ensureSpace(layout, 40);
+  layout.y += 20;
+  drawSignatureLines(layout, ['Packed by', 'Checked by', 'Date']);
+}
+
+function renderDeliveryNote(layout: Layout, source: OrderDocumentSource) {
+  const { order, orderId, shipment } = source;
+  const shipmentData = shipment?.data;
+  drawLetterhead(layout, source.branding, order.gst?.sellerGstin || source.sellerGstin, 'DELIVERY NOTE', [
+    ['Order No.', shortOrderId(orderId)],
+    ['Order Date', formatDocumentDate(order.orderDate)],
+    ...(shipment ? [['Shipment', shortOrderId(shipment.id)] as [string, string], ['Dispatched', formatDocumentDate(shipmentData?.createdAt)] as [string, string]] : []),
+  ]);
+  drawParties(layout, [
+    { heading: 'Deliver To', lines: customerLines(order.shippingInfo) },
+    {
+      heading: 'Carrier',
+      lines: [
+        shipmentData?.carrier && shipmentData.carrier !== 'TBD' ? shipmentData.carrier : 'Own delivery',
+        shipmentData?.trackingNumber && shipmentData.trackingNumber !== 'Pending' ? `Tracking: ${shipmentData.trackingNumber}` : '',
+        shipmentData?.pieces ? `${shipmentData.pieces} piece(s)` : '',
+      ],
+    },
+  ]);
+
+  const lines = getDocumentLines(source);
+  drawTable(layout, [
+    { header: '#', width: 20, align: 'center' },
+    { header: 'Item', width: 305.28 },
+    { header: 'SKU', width: 120 },
+    { header: 'Qty', width: 70, align: 'right' },
+  ], lines.map(({ item, quantity }, index) => [
+    String(index + 1),
+    { text: item.name || 'Item', notes: [describeCustomizations(item.customizations)].filter((note): note is string => Boolean(note)) },
+    item.sku || '—',
+    String(quantity),
+  ]));
+
+  // The acknowledgement box is kept on one page
+  ensureSpace(layout, 120);
+  const { pdf } = layout;
+  const top = layout.y;
+  pdf.rect(MARGIN, top, CONTENT_WIDTH, 100, { stroke: RULE, lineWidth: 1 });
+  pdf.text(MARGIN + 10, top + 18, 'Received the above goods in good order and condition.', { size: 9, font: 'bold' });
+  layout.y = top + 70;
+  drawSignatureLines(layout, ["Receiver's name", 'Signature', 'Date & time'], 10);
+  layout.y = top + 120;
+}
+
+function renderQuote(layout: Layout, source: QuoteDocumentSource) {
+  const { quote, quoteId } = source;
+  const gst = quote.gst;
+  const placeOfSupply = gst?.placeOfSupplyCode ? `${getStateName(gst.placeOfSupplyCode)} (${gst.placeOfSupplyCode})` : undefined;
+
+  drawLetterhead(layout, source.branding, gst?.sellerGstin || source.sellerGstin, 'QUOTATION', [
+    ['Quote No.', shortOrderId(quoteId)],
+    ['Revision', String(quote.revision ?? 1)],
+    ['Date', formatDocumentDate(quote.savedAt)],
+    ['Valid Until', formatDocumentDate(quote.validUntil)],
+    ...(placeOfSupply ? [['Place of Supply', placeOfSupply] as [string, string]] : []),
+  ]);
+  drawParties(layout, [
+    { heading: 'Quoted To', lines: [...customerLines(quote.shippingInfo), gst?.buyerGstin ? `GSTIN: ${gst.buyerGstin}` : ''] },
+    {
+      heading: 'Details',
+      lines: [
+        quote.savedBy?.name ? `Prepared by ${quote.savedBy.name}` : '',
+        quote.shippingMethod ? `Shipping: ${quote.shippingMethod}` : '',
+        gst ? (gst.supplyType === 'inter_state' ? 'Inter-state supply (IGST)' : 'Intra-state supply (CGST + SGST)') : '',
+      ],
+    },
+  ]);
+
+  drawPricedLines(layout, Array.isArray(quote.items) ? quote.items : []);
+  drawTotals(layout, [...getPriceTotalRows(quote), { label: 'Total', value: formatMoney(quote.totals?.grandTotal ?? quote.totalAmount ?? 0), strong: true }]);
+
+  if (quote.notes) {
+    drawSectionHeading(layout, 'Notes');
+    drawParagraph(layout, quote.notes);
+  }
+  drawParagraph(layout, `Prices are valid until ${formatDocumentDate(quote.validUntil)} and subject to stock at the time of order.`, { size: 7.5, color: GREY });
+}
+
+// e.g. "Sep 2026"
+function formatPeriod(period: string): string {
+  const [year, month] = period.split('-').map(Number);
+  return `${MONTHS[month - 1]} ${year}`;
+}
+
+function renderAccountStatement(layout: Layout, source: AccountStatementSource) {
+  const { customer, statement } = source;
+  const billingAddress = customer.addresses.find((address) => address.kind === 'billing') ?? customer.addresses[0];
+  const [year, month] = statement.period.split('-').map(Number);
+  const monthEnd = `${statement.period}-${String(new Date(Date.UTC(year, month, 0)).getUTCDate()).padStart(2, '0')}`;
+
+  drawLetterhead(layout, source.branding, source.sellerGstin, 'STATEMENT OF ACCOUNT', [
+    ['Account No.', shortOrderId(customer.id)],
+    ['Period', formatPeriod(statement.period)],
+    ['Statement Date', formatDocumentDate(monthEnd)],
+  ]);
+  drawParties(layout, [
+    {
+      heading: 'Account',
+      lines: [
+        customer.name,
+        billingAddress?.address ?? '',
+        billingAddress ? [billingAddress.city, billingAddress.state, billingAddress.zipCode].filter(Boolean).join(', ') : '',
+        customer.phone ? `Phone: ${customer.phone}` : '',
+        customer.email ?? '',
+        customer.gstin ? `GSTIN: ${customer.gstin}` : '',
+      ],
+    },
+    {
+      heading: 'Terms',
+      lines: [
+        PAYMENT_TERMS_LABELS[customer.paymentTerms],
+        customer.creditLimit > 0 ? `Credit limit: ${formatMoney(customer.creditLimit)}` : '',
+        customer.priceTier !== 'standard' ? `${PRICE_TIERS[customer.priceTier].label} prices` : '',
+      ],
+    },
+  ]);
+
+  drawTable(layout, [
+    { header: 'Date', width: 70 },
+    { header: 'Reference', width: 110 },
+    { header: 'Details', width: 135.28 },
+    { header: 'Debit', width: 65, align: 'right' },
+    { header: 'Credit', width: 65, align: 'right' },
+    { header: 'Balance', width: 70, align: 'right' },
+  ], [
+    [formatDocumentDate(`${statement.period}-01`), '', 'Opening balance', '', '', formatAmount(statement.openingBalance)],
+    ...statement.entries.map((entry) => [
+      formatDocumentDate(entry.date),
+      { text: `Order ${shortOrderId(entry.orderId)}`, notes: entry.reference ? [entry.reference] : [] },
+      entry.description,
+      entry.debit > 0 ? formatAmount(entry.debit) : '',
+      entry.credit > 0 ? formatAmount(entry.credit) : '',
+      formatAmount(entry.balance),
+    ]),
+  ]);
+
+  drawTotals(layout, [
+    { label: 'Opening Balance', value: formatMoney(statement.openingBalance) },
+    { label: 'Charges', value: formatMoney(statement.totalDebits) },
+    { label: 'Payments', value: formatMoney(-statement.totalCredits) },
+    { label: 'Closing Balance', value: formatMoney(statement.closingBalance), strong: true },
+  ]);
+
+  drawParagraph(layout, statement.closingBalance < 0
+    ? `${formatMoney(-statement.closingBalance)} is held to your credit and will be set against your next invoice.`
+    : 'Please pay each invoice by its due date, quoting the invoice number. Payments received after the statement date are not shown.', { size: 7.5, color: GREY });
+}
+
+// Blank lines to write on, labelled underneath
+function drawSignatureLines(layout: Layout, labels: string[], inset = 0) {
+  const { pdf } = layout;
+  const width = (CONTENT_WIDTH - inset * 2) / labels.length;
+  labels.forEach((label, index) => {
+    const x = MARGIN + inset + index * width;
+    pdf.line(x, layout.y, x + width - 20, layout.y, { color: GREY });
+    pdf.text(x, layout.y + 11, label, { size: 8, color: GREY });
+  });
+  layout.y += 24;
+}
+
+const DOCUMENT_RENDERERS: Record<OrderDocumentType, (layout: Layout, source: OrderDocumentSource) => void> = {
+  invoice: renderInvoice,
+  packing_slip: renderPackingSlip,
+  delivery_note: renderDeliveryNote,
+};
+
+// What a document is called on its pages and when downloaded, e.g. "INV-2026-27-00042"
+export function getOrderDocumentReference(type: OrderDocumentType, source: Pick<OrderDocumentSource, 'orderId' | 'order' | 'shipment'>): string {
+  if (type === 'invoice') return (source.order.invoice?.number ?? `INV-${shortOrderId(source.orderId)}`).replace(/\//g, '-');
+  const prefix = type === 'packing_slip' ? 'PS' : 'DN';
+  return [prefix, shortOrderId(source.orderId), source.shipment && shortOrderId(source.shipment.id)].filter(Boolean).join('-');
+}
+
+// e.g. "QT-1A2B3C4D-R2"
+export const getQuoteDocumentReference = (source: Pick<QuoteDocumentSource, 'quoteId' | 'quote'>) =>
+  `QT-${shortOrderId(source.quoteId)}-R${source.quote.revision ?? 1}`;
+
+// e.g. "ST-1A2B3C4D-2026-09"
+export const getAccountStatementReference = (source: Pick<AccountStatementSource, 'customer' | 'statement'>) =>
+  `ST-${shortOrderId(source.customer.id)}-${source.statement.period}`;
+
+function renderDocument(reference: string, branding: BrandingSettings, draw: (layout: Layout) => void): Uint8Array {
+  const layout: Layout = {
+    pdf: createPdfWriter({ title: reference, author: branding.companyName }),
+    accent: hexToColor(branding.accentColor),
+    y: MARGIN,
+  };
+  startPage(layout);
+  draw(layout);
+  drawFooters(layout, `${branding.companyName}  ·  ${reference}`);
+  return layout.pdf.render();
+}
+
+export function renderOrderDocument(type: OrderDocumentType, source: OrderDocumentSource): Uint8Array {
+  return renderDocument(getOrderDocumentReference(type, source), source.branding, (layout) => DOCUMENT_RENDERERS[type](layout, source));
+}
+
+export function renderQuoteDocument(source: QuoteDocumentSource): Uint8Array {
+  return renderDocument(getQuoteDocumentReference(source), source.branding, (layout) => renderQuote(layout, source));
+}
+
+export function renderAccountStatementDocument(source: AccountStatementSource): Uint8Array {
+  return renderDocument(getAccountStatementReference(source), source.branding, (layout) => renderAccountStatement(layout, source));
+}
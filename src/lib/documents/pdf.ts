@@ -0,0 +1,179 @@
+// src/lib/documents/pdf.ts
+// A small PDF writer for the order documents: A4 pages of text, rules and filled boxes in the standard
+// Helvetica fonts, so no font has to be embedded. The output depends only on what was drawn (there is no
+// creation date or random file ID), so drawing the same thing twice gives the same bytes.
+// Coordinates are in points from the top-left corner of the page.
+
+export type PdfFont = 'regular' | 'bold';
+export type PdfColor = [number, number, number]; // RGB, each 0-1
+
+export interface PdfTextOptions {
+  size?: number; // Points; 10 if not given
+  font?: PdfFont;
+  align?: 'left' | 'right' | 'center'; // Relative to x
+  color?: PdfColor;
+}
+
+export const PAGE_WIDTH = 595.28; // A4
+export const PAGE_HEIGHT = 841.89;
+
+export const BLACK: PdfColor = [0, 0, 0];
+
+// Advance widths (per 1000 units of font size) of the printable ASCII characters, space to tilde,
+// from the Helvetica and Helvetica-Bold font metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+const DEFAULT_WIDTH = 556; // Accented and other Latin-1 characters are close enough to this
+
+// Characters outside Latin-1 that WinAnsiEncoding still has a code for
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97,
+};
+
+// The standard fonts only cover WinAnsi, so the rupee sign is spelt out and the minus sign becomes a hyphen
+function toWinAnsiCodes(text: string): number[] {
+  const normalized = text.replace(/₹/g, 'Rs. ').replace(/−/g, '-').replace(/[\r\n\t]+/g, ' ');
+  return Array.from(normalized).map((char) => {
+    const code = char.codePointAt(0)!;
+    if (code >= 32 && code <= 126) return code;
+    if (code >= 0xa0 && code <= 0xff) return code;
+    return WIN_ANSI_EXTRAS[char] ?? 63; // '?'
+  });
+}
+
+export function measureText(text: string, size: number, font: PdfFont = 'regular'): number {
+  const widths = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  const units = toWinAnsiCodes(text).reduce((sum, code) => sum + (code >= 32 && code <= 126 ? widths[code - 32] : DEFAULT_WIDTH), 0);
+  return (units * size) / 1000;
+}
+
+// Splits text into lines no wider than maxWidth, breaking at spaces (and inside words that don't fit)
+export function wrapText(text: string, maxWidth: number, size: number, font: PdfFont = 'regular'): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (measureText(candidate, size, font) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      line = word;
+      while (measureText(line, size, font) > maxWidth && line.length > 1) {
+        let cut = line.length - 1;
+        while (cut > 1 && measureText(line.slice(0, cut), size, font) > maxWidth) cut -= 1;
+        lines.push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+// Numbers in content streams: at most two decimals, no trailing zeros, never exponent notation
+const num = (value: number): string => {
+  const fixed = (Math.round(value * 100) / 100).toFixed(2);
+  return fixed.replace(/\.?0+$/, '') || '0';
+};
+
+const colorOperands = (color: PdfColor) => color.map(num).join(' ');
+
+// A PDF literal string; bytes outside printable ASCII are written as octal escapes so the file stays ASCII
+function pdfString(text: string): string {
+  return `(${toWinAnsiCodes(text).map((code) => {
+    if (code === 40 || code === 41 || code === 92) return `\\${String.fromCharCode(code)}`;
+    if (code < 32 || code > 126) return `\\${code.toString(8).padStart(3, '0')}`;
+    return String.fromCharCode(code);
+  }).join('')})`;
+}
+
+export interface PdfWriter {
+  addPage(): void;
+  setPage(index: number): void; // Go back to an earlier page, e.g. to number the pages at the end
+  readonly pageCount: number;
+  text(x: number, y: number, value: string, options?: PdfTextOptions): void; // y is the baseline
+  line(x1: number, y1: number, x2: number, y2: number, options?: { width?: number; color?: PdfColor }): void;
+  rect(x: number, y: number, width: number, height: number, options: { fill?: PdfColor; stroke?: PdfColor; lineWidth?: number }): void;
+  render(): Uint8Array;
+}
+
+export function createPdfWriter(info: { title: string; author?: string }): PdfWriter {
+  const pages: string[][] = [];
+  let current: string[] = [];
+
+  return {
+    addPage() {
+      current = [];
+      pages.push(current);
+    },
+    setPage(index) {
+      current = pages[index];
+    },
+    get pageCount() {
+      return pages.length;
+    },
+    text(x, y, value, options = {}) {
+      const size = options.size ?? 10;
+      const font = options.font ?? 'regular';
+      const width = measureText(value, size, font);
+      const left = options.align === 'right' ? x - width : options.align === 'center' ? x - width / 2 : x;
+      current.push(`BT /${font === 'bold' ? 'F2' : 'F1'} ${num(size)} Tf ${colorOperands(options.color ?? BLACK)} rg ${num(left)} ${num(PAGE_HEIGHT - y)} Td ${pdfString(value)} Tj ET`);
+    },
+    line(x1, y1, x2, y2, options = {}) {
+      current.push(`${num(options.width ?? 0.5)} w ${colorOperands(options.color ?? BLACK)} RG ${num(x1)} ${num(PAGE_HEIGHT - y1)} m ${num(x2)} ${num(PAGE_HEIGHT - y2)} l S`);
+    },
+    rect(x, y, width, height, options) {
+      const path = `${num(x)} ${num(PAGE_HEIGHT - y - height)} ${num(width)} ${num(height)} re`;
+      const paint = options.fill && options.stroke ? 'B' : options.fill ? 'f' : 'S';
+      current.push([
+        options.fill && `${colorOperands(options.fill)} rg`,
+        options.stroke && `${num(options.lineWidth ?? 0.5)} w ${colorOperands(options.stroke)} RG`,
+        `${path} ${paint}`,
+      ].filter(Boolean).join(' '));
+    },
+    render() {
+      // Objects 1-5 are fixed; each page then takes a page object and a content stream
+      const objects: string[] = [
+        '<< /Type /Catalog /Pages 2 0 R >>',
+        `<< /Type /Pages /Kids [${pages.map((_, index) => `${6 + index * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+        `<< /Title ${pdfString(info.title)}${info.author ? ` /Author ${pdfString(info.author)}` : ''} /Producer (Showroom Manager) >>`,
+      ];
+      pages.forEach((operations, index) => {
+        const content = operations.join('\n');
+        objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(PAGE_WIDTH)} ${num(PAGE_HEIGHT)}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${7 + index * 2} 0 R >>`);
+        objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+      });
+
+      // Everything written is ASCII, so string lengths are byte offsets
+      let output = '%PDF-1.4\n';
+      const offsets = objects.map((body, index) => {
+        const offset = output.length;
+        output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+        return offset;
+      });
+      const xrefOffset = output.length;
+      output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+      output += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+      output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+      return new TextEncoder().encode(output);
+    },
+  };
+}
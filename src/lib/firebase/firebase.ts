@@ -15,9 +15,17 @@ import {
     updateDoc,
     arrayUnion,
     where,
+    and,
+    or,
     limit,
+    limitToLast,
+    startAfter,
+    endBefore,
+    documentId,
     getCountFromServer,
     writeBatch,
+    runTransaction,
+    setDoc,
     type Firestore
 } from 'firebase/firestore';
 // Import Firebase Storage modules
@@ -110,9 +118,17 @@ export {
     updateDoc,
     arrayUnion,
     where,
+    and,
+    or,
     limit,
+    limitToLast,
+    startAfter,
+    endBefore,
+    documentId,
     getCountFromServer,
     writeBatch,
+    runTransaction,
+    setDoc,
 };
 // Export commonly used Storage functions
 export {
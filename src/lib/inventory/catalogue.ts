@@ -0,0 +1,360 @@
+// src/lib/inventory/catalogue.ts
+// The inventory catalogue, read one page at a time with facet counts. Facets, search, sort, view and the
+// page cursor live in the URL (see parseCatalogueParams and getCatalogueHref), and are applied in the
+// Firestore query rather than after downloading every item. Each facet value's count is a count query
+// with the other facets applied, so choosing a value doesn't zero out its siblings.
+// Firestore can't list distinct field values, so the styles and materials to facet on are kept in
+// `settings/catalogueFacets` as items are saved (built from the catalogue the first time it's read).
+// Most combinations need a composite index on `inventory`; Firestore's error links to the one to create.
+
+import {
+  db,
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  query,
+  where,
+  and,
+  or,
+  orderBy,
+  limit,
+  limitToLast,
+  startAfter,
+  endBefore,
+  getCountFromServer,
+  arrayUnion,
+  serverTimestamp,
+  Timestamp,
+} from '@/lib/firebase/firebase';
+import type { Firestore, QueryFilterConstraint } from 'firebase/firestore';
+import { DEFAULT_REORDER_POINT } from '@/lib/inventory/reorder';
+import { getSuppliers } from '@/lib/purchasing/suppliers';
+import type { AddItemInput } from '@/schemas/inventory';
+
+export const CATALOGUE_PAGE_SIZE = 24; // Whole rows of the 2-, 3- and 4-column grids
+
+interface Range {
+  label: string;
+  min: number;
+  max?: number; // Exclusive; open-ended when missing
+}
+
+export const PRICE_BANDS = {
+  under_10k: { label: 'Under ₹10,000', min: 0, max: 10000 },
+  '10k_25k': { label: '₹10,000 – ₹25,000', min: 10000, max: 25000 },
+  '25k_50k': { label: '₹25,000 – ₹50,000', min: 25000, max: 50000 },
+  '50k_1l': { label: '₹50,000 – ₹1,00,000', min: 50000, max: 100000 },
+  over_1l: { label: '₹1,00,000 and over', min: 100000 },
+} satisfies Record<string, Range>;
+
+export type PriceBand = keyof typeof PRICE_BANDS;
+
+// By units on hand. A query can't compare stock with each item's own reorder point, so "low" uses the
+// default one; the item pages and reorder report use the item's.
+export const STOCK_STATES = {
+  out_of_stock: { label: 'Out of stock', min: 0, max: 1 },
+  low: { label: `Low (1–${DEFAULT_REORDER_POINT})`, min: 1, max: DEFAULT_REORDER_POINT + 1 },
+  in_stock: { label: 'In stock', min: DEFAULT_REORDER_POINT + 1 },
+} satisfies Record<string, Range>;
+
+export type StockState = keyof typeof STOCK_STATES;
+
+export const CATALOGUE_SORTS = {
+  newest: { label: 'Newest', field: 'createdAt', dir: 'desc' },
+  price_asc: { label: 'Price: Low to High', field: 'price', dir: 'asc' },
+  price_desc: { label: 'Price: High to Low', field: 'price', dir: 'desc' },
+  stock_asc: { label: 'Stock: Low to High', field: 'stock', dir: 'asc' },
+  stock_desc: { label: 'Stock: High to Low', field: 'stock', dir: 'desc' },
+} as const;
+
+export type CatalogueSort = keyof typeof CATALOGUE_SORTS;
+
+export type CatalogueView = 'grid' | 'table';
+
+export interface CatalogueParams {
+  search?: string; // SKU prefix
+  locationId?: string; // Items with stock at this location
+  styles: string[];
+  materials: string[];
+  priceBands: PriceBand[];
+  stockStates: StockState[];
+  supplierIds: string[];
+  sort: CatalogueSort;
+  view: CatalogueView;
+  after?: string; // The page starts after this item (next page)
+  before?: string; // The page ends before this item (previous page)
+}
+
+export type CatalogueFacetKey = 'styles' | 'materials' | 'priceBands' | 'stockStates' | 'supplierIds';
+
+export const CATALOGUE_FACET_KEYS: CatalogueFacetKey[] = ['styles', 'materials', 'priceBands', 'stockStates', 'supplierIds'];
+
+export const CATALOGUE_FACET_LABELS: Record<CatalogueFacetKey, string> = {
+  styles: 'Style',
+  materials: 'Material',
+  priceBands: 'Price',
+  stockStates: 'Stock',
+  supplierIds: 'Supplier',
+};
+
+// Repeated in the URL once per chosen value, e.g. ?style=Modern&style=Classic
+const FACET_URL_KEYS: Record<CatalogueFacetKey, string> = {
+  styles: 'style',
+  materials: 'material',
+  priceBands: 'price',
+  stockStates: 'stock',
+  supplierIds: 'supplier',
+};
+
+export const DEFAULT_CATALOGUE_PARAMS: CatalogueParams = {
+  styles: [],
+  materials: [],
+  priceBands: [],
+  stockStates: [],
+  supplierIds: [],
+  sort: 'newest',
+  view: 'grid',
+};
+
+// Firestore splits a query into one branch per combination of chosen values, up to this many
+const MAX_QUERY_BRANCHES = 30;
+
+export interface CatalogueItem extends Omit<AddItemInput, 'createdAt' | 'updatedAt'> {
+  id: string;
+  createdAt?: string; // ISO string
+  updatedAt?: string; // ISO string
+  stockByLocation?: Record<string, number>;
+  inTransit?: number;
+}
+
+export interface CatalogueFacetValue {
+  value: string;
+  label: string;
+  count: number; // Items matching this value and every other facet
+  selected: boolean;
+}
+
+export type CatalogueFacets = Record<CatalogueFacetKey, CatalogueFacetValue[]>;
+
+export interface CataloguePage {
+  items: CatalogueItem[];
+  total: number; // Items matching the filters, across all pages
+  nextCursor?: string;
+  previousCursor?: string;
+  error?: string;
+}
+
+const allValues = (value: string | string[] | undefined) =>
+  Array.from(new Set((Array.isArray(value) ? value : value ? [value] : []).map((entry) => entry.trim()).filter(Boolean)));
+
+// Reads the catalogue's URL; anything unrecognised is left out rather than failing the page
+export function parseCatalogueParams(searchParams: Record<string, string | string[] | undefined>): CatalogueParams {
+  const get = (key: string) => allValues(searchParams[key])[0];
+  const sort = get('sort');
+  return {
+    ...(get('q') && { search: get('q')!.toUpperCase() }),
+    ...(get('location') && { locationId: get('location') }),
+    styles: allValues(searchParams[FACET_URL_KEYS.styles]),
+    materials: allValues(searchParams[FACET_URL_KEYS.materials]),
+    priceBands: allValues(searchParams[FACET_URL_KEYS.priceBands]).filter((band): band is PriceBand => band in PRICE_BANDS),
+    stockStates: allValues(searchParams[FACET_URL_KEYS.stockStates]).filter((state): state is StockState => state in STOCK_STATES),
+    supplierIds: allValues(searchParams[FACET_URL_KEYS.supplierIds]),
+    sort: sort && sort in CATALOGUE_SORTS ? (sort as CatalogueSort) : DEFAULT_CATALOGUE_PARAMS.sort,
+    view: get('view') === 'table' ? 'table' : DEFAULT_CATALOGUE_PARAMS.view,
+    ...(get('after') ? { after: get('after') } : get('before') ? { before: get('before') } : {}),
+  };
+}
+
+// The catalogue's URL with `changes` applied. Any change starts again from the first page unless it sets
+// a cursor itself; defaults are left out to keep links short.
+export function getCatalogueHref(params: CatalogueParams, changes: Partial<CatalogueParams> = {}): string {
+  const next: CatalogueParams = { ...params, after: undefined, before: undefined, ...changes };
+  const search = new URLSearchParams();
+  if (next.search) search.set('q', next.search);
+  if (next.locationId) search.set('location', next.locationId);
+  CATALOGUE_FACET_KEYS.forEach((facet) => next[facet].forEach((value) => search.append(FACET_URL_KEYS[facet], value)));
+  if (next.sort !== DEFAULT_CATALOGUE_PARAMS.sort) search.set('sort', next.sort);
+  if (next.view !== DEFAULT_CATALOGUE_PARAMS.view) search.set('view', next.view);
+  if (next.after) search.set('after', next.after);
+  else if (next.before) search.set('before', next.before);
+  const queryString = search.toString();
+  return queryString ? `/inventory?${queryString}` : '/inventory';
+}
+
+export const hasCatalogueFilters = (params: CatalogueParams) =>
+  !!(params.search || params.locationId || CATALOGUE_FACET_KEYS.some((facet) => params[facet].length > 0));
+
+function rangeFilter(field: string, range: Range): QueryFilterConstraint {
+  const from = where(field, '>=', range.min);
+  return range.max === undefined ? from : and(from, where(field, '<', range.max));
+}
+
+// Matches any of the chosen values of one facet
+function facetFilter(facet: CatalogueFacetKey, values: string[]): QueryFilterConstraint {
+  switch (facet) {
+    case 'priceBands':
+    case 'stockStates': {
+      const field = facet === 'priceBands' ? 'price' : 'stock';
+      const ranges: Record<string, Range> = facet === 'priceBands' ? PRICE_BANDS : STOCK_STATES;
+      const filters = values.map((value) => rangeFilter(field, ranges[value]));
+      return filters.length === 1 ? filters[0] : or(...filters);
+    }
+    default: {
+      const field = facet === 'styles' ? 'style' : facet === 'materials' ? 'material' : 'supplierId';
+      return values.length === 1 ? where(field, '==', values[0]) : where(field, 'in', values);
+    }
+  }
+}
+
+// The query's filters, with one facet's chosen values swapped for `override` (used for facet counts)
+function getCatalogueFilters(params: CatalogueParams, override?: { facet: CatalogueFacetKey; values: string[] }): QueryFilterConstraint[] {
+  const filters: QueryFilterConstraint[] = [];
+  // SKUs are stored upper-cased, so a prefix is a range
+  if (params.search) filters.push(where('sku', '>=', params.search), where('sku', '<=', `${params.search}\uf8ff`));
+  // Items from before locations keep their stock outside the map, so they only show under the default
+  // location once their stock has next moved
+  if (params.locationId) filters.push(where(`stockByLocation.${params.locationId}`, '>', 0));
+  CATALOGUE_FACET_KEYS.forEach((facet) => {
+    const values = override?.facet === facet ? override.values : params[facet];
+    if (values.length > 0) filters.push(facetFilter(facet, values));
+  });
+  return filters;
+}
+
+function countQueryBranches(params: CatalogueParams): number {
+  return CATALOGUE_FACET_KEYS.reduce((branches, facet) => branches * Math.max(1, params[facet].length), 1);
+}
+
+function catalogueQuery(firestore: Firestore, filters: QueryFilterConstraint[]) {
+  const inventory = collection(firestore, 'inventory');
+  return filters.length > 0 ? query(inventory, and(...filters)) : query(inventory);
+}
+
+function getQueryErrorMessage(error: unknown, fallback: string): string {
+  const message = error instanceof Error ? error.message : String(error);
+  return message.toLowerCase().includes('index')
+    ? `This combination of filters and sort needs a Firestore index. ${message}`
+    : fallback;
+}
+
+function mapCatalogueItem(id: string, data: Record<string, any>): CatalogueItem {
+  const { createdAt, updatedAt, ...rest } = data;
+  return {
+    ...(rest as Omit<CatalogueItem, 'id' | 'createdAt' | 'updatedAt'>),
+    id,
+    createdAt: createdAt instanceof Timestamp ? createdAt.toDate().toISOString() : new Date(0).toISOString(),
+    updatedAt: updatedAt instanceof Timestamp ? updatedAt.toDate().toISOString() : undefined,
+  };
+}
+
+export async function getCataloguePage(params: CatalogueParams): Promise<CataloguePage> {
+  if (!db) return { items: [], total: 0, error: "Database initialization failed." };
+  const firestore = db;
+  if (countQueryBranches(params) > MAX_QUERY_BRANCHES) {
+    return { items: [], total: 0, error: "Too many facet values are chosen at once; clear some and try again." };
+  }
+
+  try {
+    const filtered = catalogueQuery(firestore, getCatalogueFilters(params));
+    const { field, dir } = CATALOGUE_SORTS[params.sort];
+    const sorted = query(filtered, orderBy(field, dir));
+    // A cursor whose item has since been deleted just starts from the first page
+    const cursorId = params.after ?? params.before;
+    const cursor = cursorId ? await getDoc(doc(firestore, 'inventory', cursorId)) : null;
+    const hasCursor = !!cursor?.exists();
+    const goingBack = hasCursor && !!params.before;
+
+    // One extra item tells whether there's another page beyond this one
+    const pageQuery = goingBack
+      ? query(sorted, endBefore(cursor), limitToLast(CATALOGUE_PAGE_SIZE + 1))
+      : query(sorted, ...(hasCursor ? [startAfter(cursor)] : []), limit(CATALOGUE_PAGE_SIZE + 1));
+    const [snapshot, countSnapshot] = await Promise.all([getDocs(pageQuery), getCountFromServer(filtered)]);
+
+    const hasExtra = snapshot.docs.length > CATALOGUE_PAGE_SIZE;
+    const docs = goingBack
+      ? snapshot.docs.slice(hasExtra ? 1 : 0)
+      : snapshot.docs.slice(0, CATALOGUE_PAGE_SIZE);
+    const hasNext = goingBack || hasExtra;
+    const hasPrevious = goingBack ? hasExtra : hasCursor;
+
+    return {
+      items: docs.map((itemDoc) => mapCatalogueItem(itemDoc.id, itemDoc.data())),
+      total: countSnapshot.data().count,
+      ...(hasNext && docs.length > 0 && { nextCursor: docs[docs.length - 1].id }),
+      ...(hasPrevious && docs.length > 0 && { previousCursor: docs[0].id }),
+    };
+  } catch (error) {
+    console.error("Error fetching the inventory catalogue:", error);
+    return { items: [], total: 0, error: getQueryErrorMessage(error, "Failed to load inventory.") };
+  }
+}
+
+// Adds an item's style and material to the facet values. Values are never removed; ones no item has
+// any more just count 0 and aren't offered.
+export async function recordCatalogueFacetValues(item: { style: string; material: string }): Promise<void> {
+  if (!db) return;
+  try {
+    await setDoc(doc(db, 'settings', 'catalogueFacets'), {
+      styles: arrayUnion(item.style),
+      materials: arrayUnion(item.material),
+      updatedAt: serverTimestamp(),
+    }, { merge: true });
+  } catch (error) {
+    // The item is saved either way; a new value is offered once an item with it is saved again
+    console.error("Error recording catalogue facet values:", error);
+  }
+}
+
+async function getFacetValues(firestore: Firestore): Promise<{ styles: string[]; materials: string[] }> {
+  const valuesRef = doc(firestore, 'settings', 'catalogueFacets');
+  const valuesSnap = await getDoc(valuesRef);
+  const sorted = (values: unknown) => (Array.isArray(values) ? values.filter((value): value is string => typeof value === 'string' && value !== '') : []).sort((a, b) => a.localeCompare(b));
+  if (valuesSnap.exists()) {
+    return { styles: sorted(valuesSnap.data().styles), materials: sorted(valuesSnap.data().materials) };
+  }
+
+  // First read: collect them from the items saved before the facet values were kept
+  const snapshot = await getDocs(collection(firestore, 'inventory'));
+  const styles = sorted(Array.from(new Set(snapshot.docs.map((itemDoc) => itemDoc.data().style))));
+  const materials = sorted(Array.from(new Set(snapshot.docs.map((itemDoc) => itemDoc.data().material))));
+  await setDoc(valuesRef, { styles, materials, updatedAt: serverTimestamp() });
+  return { styles, materials };
+}
+
+export async function getCatalogueFacets(params: CatalogueParams): Promise<{ facets: CatalogueFacets | null; error?: string }> {
+  if (!db) return { facets: null, error: "Database initialization failed." };
+  const firestore = db;
+  if (countQueryBranches(params) > MAX_QUERY_BRANCHES) return { facets: null };
+
+  try {
+    const [{ styles, materials }, { suppliers }] = await Promise.all([getFacetValues(firestore), getSuppliers()]);
+    // Chosen values stay listed even if nothing has them any more, so they can be cleared
+    const withSelected = (values: string[], selected: string[]) => Array.from(new Set([...values, ...selected]));
+    const supplierNames = new Map(suppliers.map((supplier) => [supplier.id, supplier.name]));
+    const options: Record<CatalogueFacetKey, { value: string; label: string }[]> = {
+      styles: withSelected(styles, params.styles).map((value) => ({ value, label: value })),
+      materials: withSelected(materials, params.materials).map((value) => ({ value, label: value })),
+      priceBands: (Object.keys(PRICE_BANDS) as PriceBand[]).map((value) => ({ value, label: PRICE_BANDS[value].label })),
+      stockStates: (Object.keys(STOCK_STATES) as StockState[]).map((value) => ({ value, label: STOCK_STATES[value].label })),
+      supplierIds: withSelected(suppliers.map((supplier) => supplier.id), params.supplierIds)
+        .map((value) => ({ value, label: supplierNames.get(value) ?? 'Removed supplier' })),
+    };
+
+    const counted = await Promise.all(CATALOGUE_FACET_KEYS.map(async (facet) => {
+      const values = await Promise.all(options[facet].map(async ({ value, label }) => {
+        const countQuery = catalogueQuery(firestore, getCatalogueFilters(params, { facet, values: [value] }));
+        const count = (await getCountFromServer(countQuery)).data().count;
+        return { value, label, count, selected: (params[facet] as string[]).includes(value) };
+      }));
+      // Bands are always shown in order; open-ended values only when something has them
+      const shown = facet === 'priceBands' || facet === 'stockStates' ? values : values.filter((value) => value.count > 0 || value.selected);
+      return [facet, shown] as const;
+    }));
+    return { facets: Object.fromEntries(counted) as CatalogueFacets };
+  } catch (error) {
+    console.error("Error counting catalogue facets:", error);
+    return { facets: null, error: getQueryErrorMessage(error, "Failed to count the catalogue's facets.") };
+  }
+}
@@ -0,0 +1,49 @@
+// src/lib/inventory/location-stock.ts
+// Per-location stock. An item's `stockByLocation` map (locationId -> units) splits its `stock` between
+// locations, and every write keeps `stock` equal to the map's total. Stock not in the map - items from
+// before locations existed - counts as the default location's, and is moved into the map on the next
+// write. Units on a dispatched transfer are in no location; they're counted in `inTransit` instead.
+// Mirrored in functions/src/index.ts for the order-driven stock sync.
+
+// Fixed ID so the Cloud Functions and older orders agree on where unlocated stock is
+export const DEFAULT_LOCATION_ID = 'main';
+
+export type LocationStock = Record<string, number>;
+
+interface LocatedItem {
+  stock?: number;
+  stockByLocation?: LocationStock;
+}
+
+export function getLocationStock(item: LocatedItem): LocationStock {
+  const byLocation: LocationStock = {};
+  Object.entries(item.stockByLocation || {}).forEach(([locationId, units]) => {
+    if (typeof units === 'number' && units > 0) byLocation[locationId] = units;
+  });
+  const assigned = Object.values(byLocation).reduce((sum, units) => sum + units, 0);
+  const stock = typeof item.stock === 'number' ? item.stock : 0;
+  if (stock > assigned) {
+    byLocation[DEFAULT_LOCATION_ID] = (byLocation[DEFAULT_LOCATION_ID] || 0) + stock - assigned;
+  }
+  return byLocation;
+}
+
+export function getStockAtLocation(item: LocatedItem, locationId: string): number {
+  return getLocationStock(item)[locationId] || 0;
+}
+
+// The `stock` and `stockByLocation` to write after moving `delta` units in (positive) or out of one location.
+// Callers check the location has enough first.
+export function applyLocationStockDelta(item: LocatedItem, locationId: string, delta: number): { stock: number; stockByLocation: LocationStock } {
+  const byLocation = getLocationStock(item);
+  const units = Math.max(0, (byLocation[locationId] || 0) + delta);
+  if (units > 0) {
+    byLocation[locationId] = units;
+  } else {
+    delete byLocation[locationId];
+  }
+  return {
+    stock: Object.values(byLocation).reduce((sum, value) => sum + value, 0),
+    stockByLocation: byLocation,
+  };
+}
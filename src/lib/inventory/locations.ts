@@ -0,0 +1,44 @@
+// src/lib/inventory/locations.ts
+// Reads for the `locations` collection. Writes go through the inventory server actions.
+// The default location always exists for reading, even before anyone has saved it.
+
+import { db, collection, doc, getDoc, getDocs, Timestamp } from '@/lib/firebase/firebase';
+import { DEFAULT_LOCATION_ID } from '@/lib/inventory/location-stock';
+import type { Location } from '@/schemas/location';
+
+const DEFAULT_LOCATION: Location = { id: DEFAULT_LOCATION_ID, name: 'Showroom', type: 'showroom', isDefault: true };
+
+export function mapLocation(id: string, data: Record<string, any>): Location {
+  return {
+    id,
+    name: data.name || 'Unnamed location',
+    type: data.type || 'warehouse',
+    address: data.address,
+    isDefault: id === DEFAULT_LOCATION_ID,
+    createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate().toISOString() : undefined,
+    updatedAt: data.updatedAt instanceof Timestamp ? data.updatedAt.toDate().toISOString() : undefined,
+    createdBy: data.createdBy,
+    updatedBy: data.updatedBy,
+  };
+}
+
+// The default location first, then the rest by name
+export async function getLocations(): Promise<{ locations: Location[]; error?: string }> {
+  if (!db) return { locations: [DEFAULT_LOCATION], error: "Database initialization failed." };
+  try {
+    const snapshot = await getDocs(collection(db, 'locations'));
+    const stored = snapshot.docs.map((docSnap) => mapLocation(docSnap.id, docSnap.data()));
+    const others = stored.filter((location) => !location.isDefault).sort((a, b) => a.name.localeCompare(b.name));
+    return { locations: [stored.find((location) => location.isDefault) || DEFAULT_LOCATION, ...others] };
+  } catch (error) {
+    console.error("Error fetching locations:", error);
+    return { locations: [DEFAULT_LOCATION], error: "Failed to load locations." };
+  }
+}
+
+export async function getLocation(locationId: string): Promise<Location | null> {
+  if (!db) return null;
+  const docSnap = await getDoc(doc(db, 'locations', locationId));
+  if (docSnap.exists()) return mapLocation(docSnap.id, docSnap.data());
+  return locationId === DEFAULT_LOCATION_ID ? DEFAULT_LOCATION : null;
+}
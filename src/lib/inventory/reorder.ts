@@ -0,0 +1,14 @@
+// src/lib/inventory/reorder.ts
+// Reorder thresholds that don't need order history, for badges on item pages and cards.
+// The replenishment engine (src/lib/purchasing/replenishment.ts) refines these with sales velocity.
+
+// Threshold for items that have neither a reorder point nor any sales to work one out from
+export const DEFAULT_REORDER_POINT = 10;
+
+export function getReorderPoint(item: { reorderPoint?: number }): number {
+  return typeof item.reorderPoint === 'number' ? item.reorderPoint : DEFAULT_REORDER_POINT;
+}
+
+export function isAtReorderPoint(item: { stock: number; reorderPoint?: number }): boolean {
+  return item.stock <= getReorderPoint(item);
+}
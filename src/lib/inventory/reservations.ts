@@ -0,0 +1,358 @@
+// src/lib/inventory/reservations.ts
+// Available-to-promise for new orders. An item's `stock` is what can still be promised; `reserved`
+// counts the part of earlier deductions held for unpaid ('Pending Payment') orders. Creating an order
+// takes its units out of stock in the same transaction that writes the order, so two orders can't
+// both claim the last unit, and an edit that raises a quantity (or reopens a cancelled order) takes its
+// extra units the same way.
+// The Cloud Functions keep `reserved` in step afterwards (payment, cancellation, expiry) using the
+// `stockCommitted` / `stockReserved` maps written here.
+// Lines that can't be covered from stock become backorders, and custom-size lines are made to order;
+// neither takes stock for its waiting units (see src/lib/orders/backorders.ts).
+// Stock is taken from the order's fulfilment location only; `stockLocationId` on the order records
+// where its committed units came from.
+
+import { db, collection, doc, runTransaction, serverTimestamp, Timestamp } from '@/lib/firebase/firebase';
+import { buildStockMovementData } from '@/lib/inventory/stock-ledger';
+import { applyLocationStockDelta, getStockAtLocation, DEFAULT_LOCATION_ID } from '@/lib/inventory/location-stock';
+import { getExpectedReadyDate, getLineFulfillmentState, type LineFulfillmentState } from '@/lib/orders/backorders';
+import { getOrderLineKey } from '@/lib/orders/fulfillment';
+import type { SessionUser } from '@/schemas/user';
+
+export interface ReservationLine {
+  doorId: string;
+  name: string;
+  quantity: number;
+  madeToOrder?: boolean; // Custom line: produced for this order, never taken from stock
+}
+
+export type ReservationResult =
+  | { success: true; orderId: string; backordered: Record<number, number> } // Line index -> backordered units
+  | { success: false; message: string; lineErrors?: Record<number, string> };
+
+// Writes the order and takes its available units out of stock in one transaction.
+// `orderData.items` must be in the same order as `lines`; each gets its `fulfillmentState`, plus
+// `backorderedQuantity` and `expectedReadyDate` when it has to wait for supply.
+export async function createOrderWithReservation(
+  orderData: Record<string, any> & { items: Record<string, any>[]; status: string },
+  lines: ReservationLine[],
+  actor: SessionUser
+): Promise<ReservationResult> {
+  if (!db) return { success: false, message: "Database initialization failed." };
+  const firestore = db;
+  const locationId: string = orderData.fulfillmentLocationId || DEFAULT_LOCATION_ID;
+
+  try {
+    return await runTransaction(firestore, async (transaction): Promise<ReservationResult> => {
+      const doorIds = Array.from(new Set(lines.map((line) => line.doorId)));
+      const itemSnaps = await Promise.all(doorIds.map((doorId) => transaction.get(doc(firestore, 'inventory', doorId))));
+
+      const stockByDoor = new Map<string, { data: Record<string, any>; stock: number; reserved: number; leadTimeDays?: number }>();
+      const lineErrors: Record<number, string> = {};
+      itemSnaps.forEach((itemSnap, index) => {
+        if (!itemSnap.exists()) return;
+        const data = itemSnap.data();
+        stockByDoor.set(doorIds[index], {
+          data,
+          stock: getStockAtLocation(data, locationId),
+          reserved: typeof data.reserved === 'number' ? data.reserved : 0,
+          leadTimeDays: typeof data.leadTimeDays === 'number' ? data.leadTimeDays : undefined,
+        });
+      });
+
+      // Allocate the location's stock to lines in order; lines for the same door share it
+      const remaining = new Map(Array.from(stockByDoor, ([doorId, levels]) => [doorId, levels.stock]));
+      const committed: Record<string, number> = {};
+      const backordered: Record<number, number> = {};
+      lines.forEach((line, index) => {
+        if (!stockByDoor.has(line.doorId)) {
+          lineErrors[index] = `Inventory item '${line.name || 'Unknown'}' (ID: ${line.doorId}) not found. Order cannot be placed.`;
+          return;
+        }
+        if (line.madeToOrder) {
+          backordered[index] = line.quantity;
+          return;
+        }
+        const available = remaining.get(line.doorId) ?? 0;
+        const taken = Math.min(available, line.quantity);
+        const shortfall = line.quantity - taken;
+        remaining.set(line.doorId, available - taken);
+        if (taken > 0) committed[line.doorId] = (committed[line.doorId] || 0) + taken;
+        if (shortfall > 0) backordered[index] = shortfall;
+      });
+
+      if (Object.keys(lineErrors).length > 0) {
+        return { success: false, message: "Some items could not be found.", lineErrors };
+      }
+
+      const orderRef = doc(collection(firestore, 'orders'));
+      const isReservation = orderData.status === 'Pending Payment';
+
+      Object.entries(committed).forEach(([doorId, quantity]) => {
+        const { data, reserved } = stockByDoor.get(doorId)!;
+        const stockBefore = Number.isInteger(data.stock) ? data.stock : 0;
+        const levels = applyLocationStockDelta(data, locationId, -quantity);
+        transaction.update(doc(firestore, 'inventory', doorId), {
+          ...levels,
+          ...(isReservation && { reserved: reserved + quantity }),
+          updatedAt: serverTimestamp(),
+        });
+        transaction.set(doc(collection(firestore, 'stockMovements')), buildStockMovementData({
+          inventoryId: doorId,
+          type: 'sale',
+          quantity: -quantity,
+          actor,
+          locationId,
+          orderId: orderRef.id,
+          orderEvent: 'order_created',
+        }, stockBefore, levels.stock));
+      });
+
+      transaction.set(orderRef, {
+        ...orderData,
+        items: orderData.items.map((item, index) => {
+          if (!backordered[index]) return { ...item, fulfillmentState: 'allocated' };
+          const fulfillmentState: LineFulfillmentState = lines[index].madeToOrder ? 'made_to_order' : 'backordered';
+          const readyDate = getExpectedReadyDate(new Date(), stockByDoor.get(lines[index].doorId)?.leadTimeDays);
+          return {
+            ...item,
+            backorderedQuantity: backordered[index],
+            fulfillmentState,
+            ...(readyDate && { expectedReadyDate: Timestamp.fromDate(readyDate) }),
+          };
+        }),
+        fulfillmentLocationId: locationId,
+        stockLocationId: locationId,
+        stockCommitted: committed,
+        stockReserved: isReservation ? committed : {},
+      });
+      return { success: true, orderId: orderRef.id, backordered };
+    });
+  } catch (error) {
+    console.error("Error reserving stock for new order:", error);
+    return { success: false, message: "Failed to reserve stock due to a database error." };
+  }
+}
+
+// Units a line takes from stock: what isn't waiting on backorder (or being made)
+const getLineStockUnits = (line: Record<string, any>): number =>
+  Math.max(0, (line.quantity || 0) - Math.min(Math.max(line.backorderedQuantity || 0, 0), line.quantity || 0));
+
+export type OrderEditReservationResult =
+  | { success: true; backordered: Record<number, number>; after: Record<string, any> } // Line index -> units newly backordered
+  | { success: false; message: string };
+
+// Saves an order edit and takes the extra units its lines now need out of stock in the same transaction,
+// so raising a quantity can't promise units another order has just taken. Extra units the order's
+// location can't cover are backordered, as when the order was placed, starting with the lines that grew.
+// Units the edit gives back, and a change of pick location, are still moved by the Cloud Functions'
+// stock sync; after a location change the shortfall is worked out against the new location's stock.
+// `orderUpdate.items` are the lines as they'll be saved, with their existing `cartItemId` keys.
+// Reopening a cancelled order goes through here too, with its lines unchanged: it holds nothing, so all
+// of its units are taken again and the ones sold since are backordered.
+export async function updateOrderWithReservation(
+  orderId: string,
+  orderUpdate: Record<string, any> & { items: Record<string, any>[]; status: string },
+  actor: SessionUser,
+  orderEvent: 'order_updated' | 'order_reopened' = 'order_updated'
+): Promise<OrderEditReservationResult> {
+  if (!db) return { success: false, message: "Database initialization failed." };
+  const firestore = db;
+
+  try {
+    return await runTransaction(firestore, async (transaction): Promise<OrderEditReservationResult> => {
+      const orderRef = doc(firestore, 'orders', orderId);
+      const orderSnap = await transaction.get(orderRef);
+      if (!orderSnap.exists()) return { success: false, message: `Order ${orderId} not found.` };
+      const orderData = orderSnap.data();
+
+      // Cancelled orders hold nothing and refunds don't move goods
+      if (['Cancelled', 'Refunded'].includes(orderUpdate.status)) {
+        transaction.update(orderRef, orderUpdate);
+        return { success: true, backordered: {}, after: orderUpdate };
+      }
+
+      const stockLocationId: string = orderData.stockLocationId || orderData.fulfillmentLocationId || DEFAULT_LOCATION_ID;
+      const locationId: string = orderUpdate.fulfillmentLocationId || stockLocationId;
+      const isMove = locationId !== stockLocationId;
+      // Orders from before `stockCommitted` had their lines deducted unless cancelled (see the Cloud Functions)
+      const committed: Record<string, number> = orderData.stockCommitted && typeof orderData.stockCommitted === 'object'
+        ? { ...orderData.stockCommitted }
+        : orderData.status === 'Cancelled' ? {} : (orderData.items || []).reduce((totals: Record<string, number>, line: Record<string, any>) => {
+            if (line?.doorId) totals[line.doorId] = (totals[line.doorId] || 0) + getLineStockUnits(line);
+            return totals;
+          }, {});
+
+      const items = orderUpdate.items.map((item) => ({ ...item }));
+      const existingUnits = new Map<string, number>(
+        (orderData.items || []).map((line: Record<string, any>, index: number) => [getOrderLineKey(line, index), getLineStockUnits(line)])
+      );
+      const needed: Record<string, number> = {};
+      items.forEach((item) => { needed[item.doorId] = (needed[item.doorId] || 0) + getLineStockUnits(item); });
+
+      const doorIds = Object.keys(needed).filter((doorId) => needed[doorId] > (isMove ? 0 : committed[doorId] || 0));
+      const itemSnaps = await Promise.all(doorIds.map((doorId) => transaction.get(doc(firestore, 'inventory', doorId))));
+
+      const isReservation = orderData.status === 'Pending Payment' && orderUpdate.status === 'Pending Payment';
+      const stockCommitted = { ...committed };
+      const stockReserved: Record<string, number> = { ...(orderData.stockReserved || {}) };
+      const backordered: Record<number, number> = {};
+      let hasTakenStock = false;
+
+      itemSnaps.forEach((itemSnap, index) => {
+        const doorId = doorIds[index];
+        const data = itemSnap.exists() ? itemSnap.data() : {};
+        const extra = needed[doorId] - (isMove ? 0 : committed[doorId] || 0);
+        const taken = Math.min(extra, getStockAtLocation(data, locationId));
+        let shortfall = extra - taken;
+
+        // Backorder the shortfall on what the lines grew by first, then on the last lines of the door
+        const readyDate = getExpectedReadyDate(new Date(), typeof data.leadTimeDays === 'number' ? data.leadTimeDays : undefined);
+        const backorderLine = (lineIndex: number, limit: number) => {
+          const units = Math.min(shortfall, limit, getLineStockUnits(items[lineIndex]));
+          if (units <= 0) return;
+          const item = items[lineIndex];
+          items[lineIndex] = {
+            ...item,
+            backorderedQuantity: (item.backorderedQuantity || 0) + units,
+            fulfillmentState: 'backordered',
+            ...(!item.expectedReadyDate && readyDate && { expectedReadyDate: Timestamp.fromDate(readyDate) }),
+          };
+          backordered[lineIndex] = (backordered[lineIndex] || 0) + units;
+          shortfall -= units;
+        };
+        const lineIndexes = items.flatMap((item, lineIndex) => (item.doorId === doorId ? [lineIndex] : []));
+        lineIndexes.forEach((lineIndex) => backorderLine(lineIndex, getLineStockUnits(items[lineIndex]) - (existingUnits.get(items[lineIndex].cartItemId) ?? 0)));
+        lineIndexes.slice().reverse().forEach((lineIndex) => backorderLine(lineIndex, Infinity));
+
+        // A move takes everything at the new location in the stock sync
+        if (isMove || taken === 0) return;
+        const stockBefore = Number.isInteger(data.stock) ? data.stock : 0;
+        const levels = applyLocationStockDelta(data, locationId, -taken);
+        transaction.update(doc(firestore, 'inventory', doorId), {
+          ...levels,
+          ...(isReservation && { reserved: (typeof data.reserved === 'number' ? data.reserved : 0) + taken }),
+          updatedAt: serverTimestamp(),
+        });
+        transaction.set(doc(collection(firestore, 'stockMovements')), buildStockMovementData({
+          inventoryId: doorId,
+          type: 'sale',
+          quantity: -taken,
+          actor,
+          locationId,
+          orderId,
+          orderEvent,
+        }, stockBefore, levels.stock));
+        stockCommitted[doorId] = (stockCommitted[doorId] || 0) + taken;
+        if (isReservation) stockReserved[doorId] = (stockReserved[doorId] || 0) + taken;
+        hasTakenStock = true;
+      });
+
+      const after = {
+        ...orderUpdate,
+        items,
+        ...(hasTakenStock ? { stockCommitted, stockReserved } : {}),
+      };
+      transaction.update(orderRef, after);
+      return { success: true, backordered, after };
+    });
+  } catch (error) {
+    console.error(`Error reserving stock for the edit of order ${orderId}:`, error);
+    return { success: false, message: "Failed to reserve stock due to a database error." };
+  }
+}
+
+// Fills a backordered line from stock that has arrived since the order was placed, taking as much
+// as is available. The line becomes 'allocated' once nothing is left on backorder.
+export async function allocateBackorderedLine(
+  orderId: string,
+  lineKey: string,
+  actor: SessionUser
+): Promise<{ success: boolean; message: string; allocated?: number; before?: Record<string, any>; after?: Record<string, any> }> {
+  if (!db) return { success: false, message: "Database initialization failed." };
+  const firestore = db;
+
+  try {
+    return await runTransaction(firestore, async (transaction) => {
+      const orderRef = doc(firestore, 'orders', orderId);
+      const orderSnap = await transaction.get(orderRef);
+      if (!orderSnap.exists()) {
+        return { success: false, message: `Order ${orderId} not found.` };
+      }
+      const orderData = orderSnap.data();
+      if (['Cancelled', 'Refunded', 'Shipped', 'Delivered'].includes(orderData.status)) {
+        return { success: false, message: `A ${orderData.status} order can't take more stock.` };
+      }
+      const items: any[] = orderData.items || [];
+      const lineIndex = items.findIndex((item, index) => getOrderLineKey(item, index) === lineKey);
+      const line = items[lineIndex];
+      if (!line || getLineFulfillmentState(line) !== 'backordered' || !(line.backorderedQuantity > 0)) {
+        return { success: false, message: "This line has nothing on backorder." };
+      }
+
+      const itemRef = doc(firestore, 'inventory', line.doorId);
+      const itemSnap = await transaction.get(itemRef);
+      if (!itemSnap.exists()) {
+        return { success: false, message: `Inventory item ${line.doorId} not found.` };
+      }
+      const itemData = itemSnap.data();
+      // Same location as the rest of the order's committed stock
+      const locationId: string = orderData.stockLocationId || orderData.fulfillmentLocationId || DEFAULT_LOCATION_ID;
+      const taken = Math.min(getStockAtLocation(itemData, locationId), line.backorderedQuantity);
+      if (taken === 0) {
+        return { success: false, message: `No stock of ${line.name || 'this item'} is available at the order's location yet.` };
+      }
+
+      const isReservation = orderData.status === 'Pending Payment';
+      const stock = Number.isInteger(itemData.stock) ? itemData.stock : 0;
+      const levels = applyLocationStockDelta(itemData, locationId, -taken);
+      transaction.update(itemRef, {
+        ...levels,
+        ...(isReservation && { reserved: (typeof itemData.reserved === 'number' ? itemData.reserved : 0) + taken }),
+        updatedAt: serverTimestamp(),
+      });
+      transaction.set(doc(collection(firestore, 'stockMovements')), buildStockMovementData({
+        inventoryId: line.doorId,
+        type: 'sale',
+        quantity: -taken,
+        actor,
+        locationId,
+        orderId,
+        orderEvent: 'backorder_allocated',
+      }, stock, levels.stock));
+
+      const stillBackordered = line.backorderedQuantity - taken;
+      const updatedItems = items.map((item, index) => {
+        if (index !== lineIndex) return item;
+        return stillBackordered > 0
+          ? { ...item, backorderedQuantity: stillBackordered }
+          : { ...item, backorderedQuantity: 0, fulfillmentState: 'allocated', readyAt: Timestamp.now() };
+      });
+      const stockCommitted: Record<string, number> = { ...(orderData.stockCommitted || {}) };
+      stockCommitted[line.doorId] = (stockCommitted[line.doorId] || 0) + taken;
+      const stockReserved: Record<string, number> = { ...(orderData.stockReserved || {}) };
+      if (isReservation) stockReserved[line.doorId] = (stockReserved[line.doorId] || 0) + taken;
+
+      const after = {
+        items: updatedItems,
+        stockLocationId: locationId,
+        stockCommitted,
+        stockReserved,
+        updatedBy: { id: actor.id, name: actor.name, role: actor.role },
+        updatedAt: serverTimestamp(),
+      };
+      transaction.update(orderRef, after);
+      return {
+        success: true,
+        message: stillBackordered > 0
+          ? `Allocated ${taken} unit(s) of ${line.name}; ${stillBackordered} still on backorder.`
+          : `Allocated ${taken} unit(s) of ${line.name}; the line is no longer backordered.`,
+        allocated: taken,
+        before: orderData,
+        after,
+      };
+    });
+  } catch (error) {
+    console.error(`Error allocating backordered line ${lineKey} of order ${orderId}:`, error);
+    return { success: false, message: "Failed to allocate stock due to a database error." };
+  }
+}
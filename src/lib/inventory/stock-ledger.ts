@@ -0,0 +1,183 @@
+// src/lib/inventory/stock-ledger.ts
+// Append-only stock ledger. The `stock` field on an inventory doc is a cached balance: every change
+// to it is written in the same transaction as a `stockMovements` entry, so the two can be reconciled.
+// The Cloud Functions write the order-driven entries (functions/src/index.ts) in the same shape.
+// Each entry also names the location whose stock it changed (see location-stock.ts).
+
+import {
+  db,
+  collection,
+  doc,
+  addDoc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  runTransaction,
+  serverTimestamp,
+  Timestamp,
+} from '@/lib/firebase/firebase';
+import { applyLocationStockDelta, getStockAtLocation, DEFAULT_LOCATION_ID } from '@/lib/inventory/location-stock';
+import type { StockAdjustmentReason, StockMovement, StockMovementType } from '@/schemas/stock-movement';
+import type { SessionUser } from '@/schemas/user';
+
+export interface StockMovementInput {
+  inventoryId: string;
+  type: StockMovementType;
+  quantity: number; // Signed: positive adds stock, negative removes it
+  actor: SessionUser;
+  locationId?: string; // Defaults to the default location
+  expectedAtLocation?: number; // Refuse the movement unless the location holds exactly this (e.g. a count made from a stale page)
+  reasonCode?: StockAdjustmentReason;
+  transferLocation?: string;
+  note?: string;
+  orderId?: string;
+  orderEvent?: string; // See StockMovement.orderEvent
+  purchaseOrderId?: string;
+  transferOrderId?: string;
+  returnId?: string;
+}
+
+// Firestore data for a movement entry; optional fields are left out rather than stored as undefined
+export function buildStockMovementData(input: StockMovementInput, balanceBefore: number, balanceAfter: number): Record<string, unknown> {
+  return {
+    inventoryId: input.inventoryId,
+    type: input.type,
+    quantity: input.quantity,
+    balanceBefore,
+    balanceAfter,
+    locationId: input.locationId || DEFAULT_LOCATION_ID,
+    ...(input.reasonCode && { reasonCode: input.reasonCode }),
+    ...(input.transferLocation?.trim() && { transferLocation: input.transferLocation.trim() }),
+    ...(input.note?.trim() && { note: input.note.trim() }),
+    ...(input.orderId && { orderId: input.orderId }),
+    ...(input.orderEvent && { orderEvent: input.orderEvent }),
+    ...(input.purchaseOrderId && { purchaseOrderId: input.purchaseOrderId }),
+    ...(input.transferOrderId && { transferOrderId: input.transferOrderId }),
+    ...(input.returnId && { returnId: input.returnId }),
+    actor: { id: input.actor.id, name: input.actor.name, role: input.actor.role },
+    createdAt: serverTimestamp(),
+  };
+}
+
+// Changes an item's stock at one location and appends the matching movement in one transaction.
+// Movements that would take the location's stock below zero are refused.
+export async function applyStockMovement(
+  input: StockMovementInput
+): Promise<{ success: boolean; message: string; balanceBefore?: number; balanceAfter?: number }> {
+  if (!db) return { success: false, message: "Database initialization failed." };
+  if (!Number.isInteger(input.quantity) || input.quantity === 0) {
+    return { success: false, message: "Quantity must be a non-zero whole number." };
+  }
+  const firestore = db;
+
+  try {
+    return await runTransaction(firestore, async (transaction) => {
+      const itemRef = doc(firestore, 'inventory', input.inventoryId);
+      const itemSnap = await transaction.get(itemRef);
+      if (!itemSnap.exists()) {
+        return { success: false, message: `Item with ID ${input.inventoryId} not found.` };
+      }
+
+      const itemData = itemSnap.data();
+      const locationId = input.locationId || DEFAULT_LOCATION_ID;
+      const balanceBefore = typeof itemData.stock === 'number' && Number.isInteger(itemData.stock) ? itemData.stock : 0;
+      const atLocation = getStockAtLocation(itemData, locationId);
+      if (input.expectedAtLocation !== undefined && atLocation !== input.expectedAtLocation) {
+        return { success: false, message: `Stock at this location has changed to ${atLocation} since it was read; check the count and try again.` };
+      }
+      if (atLocation + input.quantity < 0) {
+        return { success: false, message: `Only ${atLocation} unit(s) at this location; can't remove ${-input.quantity}.` };
+      }
+
+      const { stock: balanceAfter, stockByLocation } = applyLocationStockDelta(itemData, locationId, input.quantity);
+      transaction.update(itemRef, { stock: balanceAfter, stockByLocation, updatedBy: input.actor.id, updatedAt: serverTimestamp() });
+      transaction.set(doc(collection(firestore, 'stockMovements')), buildStockMovementData(input, balanceBefore, balanceAfter));
+      return { success: true, message: `Stock changed from ${balanceBefore} to ${balanceAfter}.`, balanceBefore, balanceAfter };
+    });
+  } catch (error) {
+    console.error(`Error applying stock movement for item ${input.inventoryId}:`, error);
+    return { success: false, message: "Failed to record the stock movement due to a database error." };
+  }
+}
+
+export function mapStockMovement(id: string, data: Record<string, any>): StockMovement {
+  return {
+    id,
+    inventoryId: data.inventoryId,
+    type: data.type,
+    quantity: typeof data.quantity === 'number' ? data.quantity : 0,
+    balanceBefore: typeof data.balanceBefore === 'number' ? data.balanceBefore : 0,
+    balanceAfter: typeof data.balanceAfter === 'number' ? data.balanceAfter : 0,
+    reasonCode: data.reasonCode,
+    transferLocation: data.transferLocation,
+    note: data.note,
+    orderId: data.orderId,
+    orderEvent: data.orderEvent,
+    purchaseOrderId: data.purchaseOrderId,
+    transferOrderId: data.transferOrderId,
+    returnId: data.returnId,
+    locationId: data.locationId,
+    actor: data.actor ?? null,
+    createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate().toISOString() : new Date().toISOString(),
+  };
+}
+
+// Movements for one item, oldest first. Equality-only query so no composite index is needed.
+export async function getStockMovements(inventoryId: string): Promise<{ movements: StockMovement[]; error?: string }> {
+  if (!db) return { movements: [], error: "Database initialization failed." };
+  try {
+    const movementsQuery = query(collection(db, 'stockMovements'), where('inventoryId', '==', inventoryId));
+    const snapshot = await getDocs(movementsQuery);
+    const movements = snapshot.docs
+      .map((docSnap) => mapStockMovement(docSnap.id, docSnap.data()))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    return { movements };
+  } catch (error) {
+    console.error(`Error fetching stock movements for item ${inventoryId}:`, error);
+    return { movements: [], error: "Failed to load stock movements." };
+  }
+}
+
+// Stock implied by the ledger alone
+export function getLedgerBalance(movements: StockMovement[]): number {
+  return movements.reduce((total, movement) => total + movement.quantity, 0);
+}
+
+// Appends a ledger-only entry that accounts for the gap between the stock field and the ledger
+// (stock set before the ledger existed, or changed outside it). The stock field is left as it is.
+export async function reconcileStockLedger(
+  inventoryId: string,
+  actor: SessionUser
+): Promise<{ success: boolean; message: string; difference?: number }> {
+  if (!db) return { success: false, message: "Database initialization failed." };
+
+  const { movements, error } = await getStockMovements(inventoryId);
+  if (error) return { success: false, message: error };
+
+  try {
+    const itemSnap = await getDoc(doc(db, 'inventory', inventoryId));
+    if (!itemSnap.exists()) {
+      return { success: false, message: `Item with ID ${inventoryId} not found.` };
+    }
+    const stock = typeof itemSnap.data().stock === 'number' ? itemSnap.data().stock : 0;
+    const ledgerBalance = getLedgerBalance(movements);
+    const difference = stock - ledgerBalance;
+    if (difference === 0) {
+      return { success: true, message: "Stock already matches the ledger.", difference };
+    }
+
+    await addDoc(collection(db, 'stockMovements'), buildStockMovementData({
+      inventoryId,
+      type: 'adjustment',
+      quantity: difference,
+      actor,
+      reasonCode: 'reconciliation',
+      note: movements.length === 0 ? 'Opening balance' : `Ledger showed ${ledgerBalance}, stock was ${stock}`,
+    }, ledgerBalance, stock));
+    return { success: true, message: `Ledger reconciled: recorded ${difference > 0 ? '+' : ''}${difference} to match stock of ${stock}.`, difference };
+  } catch (reconcileError) {
+    console.error(`Error reconciling stock ledger for item ${inventoryId}:`, reconcileError);
+    return { success: false, message: "Failed to reconcile the ledger due to a database error." };
+  }
+}
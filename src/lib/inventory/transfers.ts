@@ -0,0 +1,157 @@
+// src/lib/inventory/transfers.ts
+// Transfer orders move stock between locations in two steps. Dispatching takes the units out of the
+// source location and counts them in the item's `inTransit`; receiving puts them into the destination.
+// Each step writes a 'transfer' movement per line in the same transaction, so the ledger shows the
+// units leaving and arriving.
+
+import { db, collection, doc, getDoc, getDocs, runTransaction, serverTimestamp, Timestamp } from '@/lib/firebase/firebase';
+import { buildStockMovementData } from '@/lib/inventory/stock-ledger';
+import { applyLocationStockDelta, getStockAtLocation } from '@/lib/inventory/location-stock';
+import type { TransferOrder, TransferOrderStatus } from '@/schemas/transfer-order';
+import type { SessionUser } from '@/schemas/user';
+
+const toIsoString = (value: unknown): string | undefined =>
+  value instanceof Timestamp ? value.toDate().toISOString() : undefined;
+
+export function mapTransferOrder(id: string, data: Record<string, any>): TransferOrder {
+  return {
+    id,
+    fromLocationId: data.fromLocationId,
+    fromLocationName: data.fromLocationName || 'Unknown location',
+    toLocationId: data.toLocationId,
+    toLocationName: data.toLocationName || 'Unknown location',
+    status: data.status,
+    items: (data.items || []).map((item: any) => ({
+      inventoryId: item.inventoryId,
+      name: item.name,
+      sku: item.sku,
+      quantity: typeof item.quantity === 'number' ? item.quantity : 0,
+    })),
+    notes: data.notes,
+    createdAt: toIsoString(data.createdAt) || new Date().toISOString(),
+    updatedAt: toIsoString(data.updatedAt),
+    dispatchedAt: toIsoString(data.dispatchedAt),
+    receivedAt: toIsoString(data.receivedAt),
+    createdBy: data.createdBy,
+    dispatchedBy: data.dispatchedBy,
+    receivedBy: data.receivedBy,
+  };
+}
+
+// Newest first
+export async function getTransferOrders(): Promise<{ transferOrders: TransferOrder[]; error?: string }> {
+  if (!db) return { transferOrders: [], error: "Database initialization failed." };
+  try {
+    const snapshot = await getDocs(collection(db, 'transferOrders'));
+    const transferOrders = snapshot.docs
+      .map((docSnap) => mapTransferOrder(docSnap.id, docSnap.data()))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    return { transferOrders };
+  } catch (error) {
+    console.error("Error fetching transfer orders:", error);
+    return { transferOrders: [], error: "Failed to load transfer orders." };
+  }
+}
+
+export async function getTransferOrder(transferId: string): Promise<{ transferOrder: TransferOrder | null; error?: string }> {
+  if (!db) return { transferOrder: null, error: "Database initialization failed." };
+  try {
+    const docSnap = await getDoc(doc(db, 'transferOrders', transferId));
+    return { transferOrder: docSnap.exists() ? mapTransferOrder(docSnap.id, docSnap.data()) : null };
+  } catch (error) {
+    console.error(`Error fetching transfer order ${transferId}:`, error);
+    return { transferOrder: null, error: "Failed to load the transfer order." };
+  }
+}
+
+type TransferStep = 'dispatch' | 'receive';
+
+const STEP_STATUSES: Record<TransferStep, { from: TransferOrderStatus; to: TransferOrderStatus }> = {
+  dispatch: { from: 'Draft', to: 'In Transit' },
+  receive: { from: 'In Transit', to: 'Received' },
+};
+
+// Dispatches or receives a transfer. Dispatch is refused if the source location no longer has enough
+// of any line; nothing moves unless every line can.
+export async function moveTransferOrderStock(
+  transferId: string,
+  step: TransferStep,
+  actor: SessionUser
+): Promise<{ success: boolean; message: string; before?: Record<string, any>; after?: Record<string, any> }> {
+  if (!db) return { success: false, message: "Database initialization failed." };
+  const firestore = db;
+  const { from, to } = STEP_STATUSES[step];
+
+  try {
+    return await runTransaction(firestore, async (transaction) => {
+      const transferRef = doc(firestore, 'transferOrders', transferId);
+      const transferSnap = await transaction.get(transferRef);
+      if (!transferSnap.exists()) {
+        return { success: false, message: `Transfer ${transferId} not found.` };
+      }
+      const transferData = transferSnap.data();
+      if (transferData.status !== from) {
+        return { success: false, message: `Only ${from} transfers can be ${step === 'dispatch' ? 'dispatched' : 'received'}; this one is ${transferData.status}.` };
+      }
+
+      const lines: { inventoryId: string; name: string; quantity: number }[] = transferData.items || [];
+      const itemSnaps = await Promise.all(lines.map((line) => transaction.get(doc(firestore, 'inventory', line.inventoryId))));
+      const missing = itemSnaps.findIndex((itemSnap) => !itemSnap.exists());
+      if (missing !== -1) {
+        return { success: false, message: `Inventory item ${lines[missing].name || lines[missing].inventoryId} no longer exists.` };
+      }
+      if (step === 'dispatch') {
+        const short = lines.findIndex((line, index) => getStockAtLocation(itemSnaps[index].data()!, transferData.fromLocationId) < line.quantity);
+        if (short !== -1) {
+          const available = getStockAtLocation(itemSnaps[short].data()!, transferData.fromLocationId);
+          return { success: false, message: `Only ${available} of ${lines[short].name} at ${transferData.fromLocationName}; the transfer needs ${lines[short].quantity}.` };
+        }
+      }
+
+      lines.forEach((line, index) => {
+        const itemData = itemSnaps[index].data()!;
+        const stockBefore = Number.isInteger(itemData.stock) ? itemData.stock : 0;
+        const inTransit = typeof itemData.inTransit === 'number' ? itemData.inTransit : 0;
+        const levels = step === 'dispatch'
+          ? applyLocationStockDelta(itemData, transferData.fromLocationId, -line.quantity)
+          : applyLocationStockDelta(itemData, transferData.toLocationId, line.quantity);
+        transaction.update(doc(firestore, 'inventory', line.inventoryId), {
+          ...levels,
+          inTransit: Math.max(0, inTransit + (step === 'dispatch' ? line.quantity : -line.quantity)),
+          updatedBy: actor.id,
+          updatedAt: serverTimestamp(),
+        });
+        transaction.set(doc(collection(firestore, 'stockMovements')), buildStockMovementData({
+          inventoryId: line.inventoryId,
+          type: 'transfer',
+          quantity: step === 'dispatch' ? -line.quantity : line.quantity,
+          actor,
+          locationId: step === 'dispatch' ? transferData.fromLocationId : transferData.toLocationId,
+          transferLocation: step === 'dispatch' ? transferData.toLocationName : transferData.fromLocationName,
+          transferOrderId: transferId,
+        }, stockBefore, levels.stock));
+      });
+
+      const stamp = { id: actor.id, name: actor.name, role: actor.role };
+      const after = {
+        status: to,
+        ...(step === 'dispatch' ? { dispatchedAt: serverTimestamp(), dispatchedBy: stamp } : { receivedAt: serverTimestamp(), receivedBy: stamp }),
+        updatedAt: serverTimestamp(),
+      };
+      transaction.update(transferRef, after);
+
+      const units = lines.reduce((sum, line) => sum + line.quantity, 0);
+      return {
+        success: true,
+        message: step === 'dispatch'
+          ? `${units} unit(s) left ${transferData.fromLocationName} and are in transit.`
+          : `${units} unit(s) received at ${transferData.toLocationName}.`,
+        before: transferData,
+        after,
+      };
+    });
+  } catch (error) {
+    console.error(`Error running ${step} on transfer ${transferId}:`, error);
+    return { success: false, message: "Failed to move the transfer's stock due to a database error." };
+  }
+}
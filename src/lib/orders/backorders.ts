@@ -0,0 +1,56 @@
+// src/lib/orders/backorders.ts
+// Supply state of order lines. A line is either allocated from stock, backordered (some units wait on
+// a supplier receipt), made to order (custom size: the whole line waits on production) or ready
+// (a made-to-order line has been finished). Units still waiting can't be put on a shipment.
+
+import type { z } from 'zod';
+import type { LineFulfillmentStateEnum } from '@/schemas/order';
+
+export type LineFulfillmentState = z.infer<typeof LineFulfillmentStateEnum>;
+
+export const LINE_FULFILLMENT_STATE_LABELS: Record<LineFulfillmentState, string> = {
+  allocated: 'In Stock',
+  backordered: 'Backordered',
+  made_to_order: 'Made to Order',
+  ready: 'Ready',
+};
+
+// Minimal line shape so both Firestore data and mapped types can be passed in
+interface SupplyOrderLine {
+  quantity: number;
+  backorderedQuantity?: number;
+  fulfillmentState?: string;
+  customizations?: { size?: { height?: number; width?: number } };
+}
+
+// Lines with a custom size can't come off the shelf
+export function isMadeToOrderLine(line: Pick<SupplyOrderLine, 'customizations'>): boolean {
+  const size = line.customizations?.size;
+  return !!size && (typeof size.height === 'number' || typeof size.width === 'number');
+}
+
+// Older orders have no state; a backordered quantity still means the line is short
+export function getLineFulfillmentState(line: SupplyOrderLine): LineFulfillmentState {
+  if (line.fulfillmentState) return line.fulfillmentState as LineFulfillmentState;
+  return (line.backorderedQuantity || 0) > 0 ? 'backordered' : 'allocated';
+}
+
+// Units of the line that aren't available to ship yet
+export function getAwaitingSupply(line: SupplyOrderLine): number {
+  switch (getLineFulfillmentState(line)) {
+    case 'made_to_order':
+      return line.quantity;
+    case 'backordered':
+      return Math.min(line.backorderedQuantity || 0, line.quantity);
+    default:
+      return 0;
+  }
+}
+
+// Ready date from the item's lead time; null when the item has no structured lead time
+export function getExpectedReadyDate(from: Date, leadTimeDays?: number | null): Date | null {
+  if (typeof leadTimeDays !== 'number' || !Number.isFinite(leadTimeDays)) return null;
+  const ready = new Date(from);
+  ready.setDate(ready.getDate() + leadTimeDays);
+  return ready;
+}
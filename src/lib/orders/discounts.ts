@@ -0,0 +1,96 @@
+// src/lib/orders/discounts.ts
+// Discount amounts for an order. Line discounts come off their own line; order discounts (a hand-entered
+// one and a promo code) come off what the lines add up to after their own discounts. Order discounts are
+// shared out over the lines by value so GST is charged on what each line actually sells for.
+// Used by the order actions (stored) and order forms (preview).
+
+import { MAX_DISCOUNT_PERCENT } from '@/lib/auth/permissions';
+import type { DiscountType, PromoCode } from '@/schemas/discount';
+import type { UserRole } from '@/schemas/user';
+
+const roundToPaise = (amount: number) => Math.round(amount * 100) / 100;
+
+interface DiscountTerms {
+  type: DiscountType;
+  value: number;
+}
+
+// A zero or missing discount is no discount
+export const hasDiscount = (discount: Partial<DiscountTerms> | null | undefined): discount is DiscountTerms =>
+  !!discount && typeof discount.value === 'number' && !Number.isNaN(discount.value) && discount.value > 0;
+
+// ₹ a discount takes off an amount; never more than the amount itself
+export function calculateDiscountAmount(discount: DiscountTerms | null | undefined, base: number): number {
+  if (!hasDiscount(discount) || base <= 0) return 0;
+  const amount = discount.type === 'percentage' ? (base * discount.value) / 100 : discount.value;
+  return roundToPaise(Math.min(amount, base));
+}
+
+export const getDiscountPercent = (amount: number, base: number) => (base > 0 ? (amount / base) * 100 : 0);
+
+export function formatDiscount(discount: DiscountTerms): string {
+  return discount.type === 'percentage' ? `${discount.value}% off` : `₹${discount.value.toFixed(2)} off`;
+}
+
+// Shares an amount out over lines in proportion to their value; the last line takes any rounding paisa
+export function allocateAcrossLines(lineValues: number[], amount: number): number[] {
+  const total = lineValues.reduce((sum, value) => sum + value, 0);
+  if (total <= 0 || amount <= 0) return lineValues.map(() => 0);
+  let allocated = 0;
+  return lineValues.map((value, index) => {
+    if (index === lineValues.length - 1) return roundToPaise(amount - allocated);
+    const share = roundToPaise((amount * value) / total);
+    allocated += share;
+    return share;
+  });
+}
+
+export interface OrderDiscountBreakdown {
+  lineDiscounts: number[]; // ₹ off each line from its own discount
+  orderDiscounts: number[]; // ₹ off the order for each order-level discount, in the order given
+  taxableValues: number[]; // Each line after its own discount and its share of the order discounts
+  discountTotal: number;
+}
+
+export function calculateOrderDiscounts(
+  lines: { unitPrice: number; quantity: number; discount?: DiscountTerms | null }[],
+  orderDiscounts: (DiscountTerms | null | undefined)[]
+): OrderDiscountBreakdown {
+  const lineDiscounts = lines.map((line) => calculateDiscountAmount(line.discount, line.unitPrice * line.quantity));
+  const lineNets = lines.map((line, index) => roundToPaise(line.unitPrice * line.quantity - lineDiscounts[index]));
+  const netTotal = roundToPaise(lineNets.reduce((sum, net) => sum + net, 0));
+
+  // Each order discount is worked out on the same net total; together they can't take it below zero
+  let remaining = netTotal;
+  const orderDiscountAmounts = orderDiscounts.map((discount) => {
+    const amount = Math.min(calculateDiscountAmount(discount, netTotal), remaining);
+    remaining = roundToPaise(remaining - amount);
+    return amount;
+  });
+  const orderDiscountTotal = roundToPaise(netTotal - remaining);
+  const shares = allocateAcrossLines(lineNets, orderDiscountTotal);
+
+  return {
+    lineDiscounts,
+    orderDiscounts: orderDiscountAmounts,
+    taxableValues: lineNets.map((net, index) => roundToPaise(net - shares[index])),
+    discountTotal: roundToPaise(lineDiscounts.reduce((sum, amount) => sum + amount, 0) + orderDiscountTotal),
+  };
+}
+
+// Whether a role may give a hand-entered discount of this size
+export function isWithinDiscountLimit(role: UserRole, amount: number, base: number): boolean {
+  return amount <= 0 || getDiscountPercent(amount, base) <= MAX_DISCOUNT_PERCENT[role] + 1e-9;
+}
+
+// Why a promo code can't be used on an order of this value today, or null if it can
+export function getPromoCodeProblem(promo: PromoCode, orderValue: number, today: string = new Date().toISOString().slice(0, 10)): string | null {
+  if (!promo.active) return `Promo code ${promo.code} is switched off.`;
+  if (promo.validFrom && today < promo.validFrom) return `Promo code ${promo.code} starts on ${promo.validFrom}.`;
+  if (promo.validUntil && today > promo.validUntil) return `Promo code ${promo.code} expired on ${promo.validUntil}.`;
+  if (typeof promo.usageLimit === 'number' && promo.timesUsed >= promo.usageLimit) return `Promo code ${promo.code} has been used up.`;
+  if (typeof promo.minOrderValue === 'number' && orderValue < promo.minOrderValue) {
+    return `Promo code ${promo.code} needs an order of at least ₹${promo.minOrderValue.toFixed(2)}.`;
+  }
+  return null;
+}
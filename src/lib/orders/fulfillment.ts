@@ -0,0 +1,117 @@
+// src/lib/orders/fulfillment.ts
+// Per-line shipping progress for orders that go out in several shipments.
+
+import type { ShipmentItem } from '@/schemas/shipment';
+import { getAwaitingSupply } from '@/lib/orders/backorders';
+
+// Shipment statuses that mean the goods have physically left the showroom
+const DEPARTED_STATUSES = ['Picked Up', 'In Transit', 'Out for Delivery', 'Delivered'];
+
+// Minimal order line / shipment shapes so both Firestore data and mapped types can be passed in
+interface FulfillmentOrderLine {
+  cartItemId?: string;
+  doorId: string;
+  name: string;
+  sku: string;
+  quantity: number;
+  backorderedQuantity?: number;
+  fulfillmentState?: string;
+}
+
+export interface FulfillmentShipment {
+  status: string;
+  history?: { status: string }[];
+  items?: ShipmentItem[]; // Missing on shipments created before split shipments: they carry the whole order
+}
+
+// The fields fulfilment reads from a stored shipment document
+export function mapFulfillmentShipment(data: Record<string, any>): FulfillmentShipment {
+  return {
+    status: typeof data.status === 'string' ? data.status : '',
+    ...(Array.isArray(data.history) && { history: data.history }),
+    ...(Array.isArray(data.items) && { items: data.items }),
+  };
+}
+
+export interface LineFulfillment {
+  lineKey: string;
+  name: string;
+  sku: string;
+  ordered: number;
+  allocated: number; // On any shipment, including ones not yet picked up
+  shipped: number; // On shipments that have left
+  delivered: number;
+  remaining: number; // Still to be put on a shipment
+  awaitingSupply: number; // Backordered or made-to-order units that can't ship yet
+  shippable: number; // Part of `remaining` that can go on a shipment now
+}
+
+// Stable key for an order line. Older orders may lack cartItemId, so fall back to the line index.
+export function getOrderLineKey(item: { cartItemId?: string }, index: number): string {
+  return item.cartItemId || `line-${index}`;
+}
+
+// A shipment counts as departed once picked up, including when it later hits an exception or delay
+export function hasShipmentDeparted(shipment: FulfillmentShipment): boolean {
+  if (DEPARTED_STATUSES.includes(shipment.status)) return true;
+  if (shipment.status === 'Exception' || shipment.status === 'Delayed') {
+    return (shipment.history || []).some((event) => DEPARTED_STATUSES.includes(event.status));
+  }
+  return false;
+}
+
+// Quantity of each order line carried by a shipment
+function getShipmentQuantities(lines: FulfillmentOrderLine[], shipment: FulfillmentShipment): Map<string, number> {
+  const quantities = new Map<string, number>();
+  if (!shipment.items) {
+    lines.forEach((line, index) => quantities.set(getOrderLineKey(line, index), line.quantity));
+    return quantities;
+  }
+  shipment.items.forEach((item) => {
+    quantities.set(item.cartItemId, (quantities.get(item.cartItemId) || 0) + item.quantity);
+  });
+  return quantities;
+}
+
+export function computeLineFulfillment(lines: FulfillmentOrderLine[], shipments: FulfillmentShipment[]): LineFulfillment[] {
+  const result = lines.map((line, index) => ({
+    lineKey: getOrderLineKey(line, index),
+    name: line.name,
+    sku: line.sku,
+    ordered: line.quantity,
+    allocated: 0,
+    shipped: 0,
+    delivered: 0,
+    remaining: line.quantity,
+    awaitingSupply: getAwaitingSupply(line),
+    shippable: 0,
+  }));
+  const byKey = new Map(result.map((line) => [line.lineKey, line]));
+
+  shipments.forEach((shipment) => {
+    const departed = hasShipmentDeparted(shipment);
+    const delivered = shipment.status === 'Delivered';
+    getShipmentQuantities(lines, shipment).forEach((quantity, lineKey) => {
+      const line = byKey.get(lineKey);
+      if (!line) return; // Line was removed from the order after shipping
+      line.allocated += quantity;
+      if (departed) line.shipped += quantity;
+      if (delivered) line.delivered += quantity;
+    });
+  });
+
+  result.forEach((line) => {
+    line.remaining = Math.max(0, line.ordered - line.allocated);
+    line.shippable = Math.max(0, line.remaining - line.awaitingSupply);
+  });
+  return result;
+}
+
+// Order status implied by shipping progress, or null when nothing has left yet
+export function deriveFulfillmentStatus(fulfillment: LineFulfillment[]): 'Delivered' | 'Shipped' | 'Partially Shipped' | null {
+  if (fulfillment.length === 0) return null;
+  if (fulfillment.every((line) => line.delivered >= line.ordered)) return 'Delivered';
+  if (fulfillment.every((line) => line.shipped >= line.ordered)) return 'Shipped';
+  if (fulfillment.some((line) => line.shipped > 0)) return 'Partially Shipped';
+  return null;
+}
@@ -0,0 +1,194 @@
+// src/lib/orders/order-list.ts
+// The orders list, read one page at a time. Filters, sort and the page cursor live in the URL (see
+// parseOrderListParams and getOrderListHref) so a view can be bookmarked or shared, and they're applied
+// in the Firestore query rather than after downloading every order. Most combinations of filters and
+// sort need a composite index on `orders`; Firestore's error links to the index to create. Payment
+// filters use the `payment` summary stored on each order; orders from before payments were recorded get
+// theirs from backfillPaymentSummariesAction. The customer filter uses `customerId`, which older orders
+// get from matchOrdersToCustomersAction; orders nobody could be matched to are found by name instead.
+
+import { db, collection, doc, getDoc, getDocs, query, where, orderBy, limit, limitToLast, startAfter, endBefore, getCountFromServer, Timestamp } from '@/lib/firebase/firebase';
+import type { QueryConstraint } from 'firebase/firestore';
+import { getOrderPaymentSummary } from '@/lib/orders/payments';
+import { OrderStatusEnum } from '@/schemas/order';
+import { PaymentStatusEnum, type PaymentStatus } from '@/schemas/payment';
+
+export const ORDER_LIST_PAGE_SIZE = 25;
+
+// Columns the list can be sorted by, and the field each sorts on
+export const ORDER_SORT_FIELDS = {
+  date: 'orderDate',
+  total: 'totalAmount',
+  customer: 'shippingInfo.name',
+} as const;
+
+export type OrderSortKey = keyof typeof ORDER_SORT_FIELDS;
+
+export interface OrderListParams {
+  status?: string; // One of OrderStatusEnum
+  payment?: PaymentStatus;
+  customerId?: string;
+  search?: string; // Customer name prefix, as typed on the order (case-sensitive)
+  from?: string; // yyyy-mm-dd; ordered on or after
+  to?: string; // yyyy-mm-dd; ordered on or before
+  minTotal?: number;
+  maxTotal?: number;
+  sort: OrderSortKey;
+  dir: 'asc' | 'desc';
+  after?: string; // The page starts after this order (next page)
+  before?: string; // The page ends before this order (previous page)
+}
+
+export const DEFAULT_ORDER_LIST_PARAMS: OrderListParams = { sort: 'date', dir: 'desc' };
+
+export interface OrderListRow {
+  id: string;
+  orderDate: string; // ISO string
+  customerName: string;
+  customerId?: string;
+  status: string;
+  totalAmount: number;
+  itemCount: number;
+  paymentStatus: PaymentStatus;
+  balanceDue: number;
+  trackingNumber?: string;
+}
+
+export interface OrderListPage {
+  orders: OrderListRow[];
+  total: number; // Orders matching the filters, across all pages
+  nextCursor?: string;
+  previousCursor?: string;
+  error?: string;
+}
+
+const IST_OFFSET_MS = 330 * 60 * 1000; // Date filters are days in Indian time, as printed on invoices
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Midnight in India at the start of a yyyy-mm-dd day, plus `days`
+function startOfDay(day: string, days = 0): Date {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, date + days) - IST_OFFSET_MS);
+}
+
+const firstValue = (value: string | string[] | undefined) => (Array.isArray(value) ? value[0] : value)?.trim() || undefined;
+
+function parseAmount(value: string | undefined): number | undefined {
+  const amount = value === undefined ? NaN : Number(value);
+  return Number.isFinite(amount) && amount >= 0 ? amount : undefined;
+}
+
+// Reads the list's URL; anything unrecognised is left out rather than failing the page
+export function parseOrderListParams(searchParams: Record<string, string | string[] | undefined>): OrderListParams {
+  const get = (key: string) => firstValue(searchParams[key]);
+  const status = OrderStatusEnum.safeParse(get('status'));
+  const payment = PaymentStatusEnum.safeParse(get('payment'));
+  const sort = get('sort');
+  const from = get('from');
+  const to = get('to');
+  return {
+    ...(status.success && { status: status.data }),
+    ...(payment.success && { payment: payment.data }),
+    ...(get('customer') && { customerId: get('customer') }),
+    ...(get('q') && { search: get('q') }),
+    ...(from && DATE_PATTERN.test(from) && { from }),
+    ...(to && DATE_PATTERN.test(to) && { to }),
+    ...(parseAmount(get('min')) !== undefined && { minTotal: parseAmount(get('min')) }),
+    ...(parseAmount(get('max')) !== undefined && { maxTotal: parseAmount(get('max')) }),
+    sort: sort && sort in ORDER_SORT_FIELDS ? (sort as OrderSortKey) : DEFAULT_ORDER_LIST_PARAMS.sort,
+    dir: get('dir') === 'asc' ? 'asc' : get('dir') === 'desc' ? 'desc' : DEFAULT_ORDER_LIST_PARAMS.dir,
+    ...(get('after') ? { after: get('after') } : get('before') ? { before: get('before') } : {}),
+  };
+}
+
+// The list's URL with `changes` applied. Any change starts again from the first page unless it sets a
+// cursor itself; defaults are left out to keep links short.
+export function getOrderListHref(params: OrderListParams, changes: Partial<OrderListParams> = {}): string {
+  const next: OrderListParams = { ...params, after: undefined, before: undefined, ...changes };
+  const search = new URLSearchParams();
+  if (next.status) search.set('status', next.status);
+  if (next.payment) search.set('payment', next.payment);
+  if (next.customerId) search.set('customer', next.customerId);
+  if (next.search) search.set('q', next.search);
+  if (next.from) search.set('from', next.from);
+  if (next.to) search.set('to', next.to);
+  if (next.minTotal !== undefined) search.set('min', String(next.minTotal));
+  if (next.maxTotal !== undefined) search.set('max', String(next.maxTotal));
+  if (next.sort !== DEFAULT_ORDER_LIST_PARAMS.sort) search.set('sort', next.sort);
+  if (next.dir !== DEFAULT_ORDER_LIST_PARAMS.dir) search.set('dir', next.dir);
+  if (next.after) search.set('after', next.after);
+  else if (next.before) search.set('before', next.before);
+  const queryString = search.toString();
+  return queryString ? `/orders?${queryString}` : '/orders';
+}
+
+export const hasOrderListFilters = (params: OrderListParams) =>
+  !!(params.status || params.payment || params.customerId || params.search || params.from || params.to || params.minTotal !== undefined || params.maxTotal !== undefined);
+
+function mapOrderListRow(id: string, data: Record<string, any>): OrderListRow {
+  const payment = getOrderPaymentSummary(data);
+  return {
+    id,
+    orderDate: data.orderDate instanceof Timestamp ? data.orderDate.toDate().toISOString() : new Date(0).toISOString(),
+    customerName: data.shippingInfo?.name || 'N/A',
+    customerId: data.customerId,
+    status: data.status || 'Unknown',
+    totalAmount: typeof data.totalAmount === 'number' ? data.totalAmount : 0,
+    itemCount: (Array.isArray(data.items) ? data.items : []).reduce((sum: number, item: { quantity?: number }) => sum + (item.quantity || 0), 0),
+    paymentStatus: payment.status,
+    balanceDue: payment.balanceDue,
+    trackingNumber: data.trackingInfo?.trackingNumber,
+  };
+}
+
+export async function getOrderListPage(params: OrderListParams): Promise<OrderListPage> {
+  if (!db) return { orders: [], total: 0, error: "Database initialization failed." };
+  const firestore = db;
+
+  const filters: QueryConstraint[] = [];
+  if (params.status) filters.push(where('status', '==', params.status));
+  if (params.payment) filters.push(where('payment.status', '==', params.payment));
+  if (params.customerId) filters.push(where('customerId', '==', params.customerId));
+  if (params.search) filters.push(where('shippingInfo.name', '>=', params.search), where('shippingInfo.name', '<=', `${params.search}\uf8ff`));
+  if (params.from) filters.push(where('orderDate', '>=', Timestamp.fromDate(startOfDay(params.from))));
+  if (params.to) filters.push(where('orderDate', '<', Timestamp.fromDate(startOfDay(params.to, 1))));
+  if (params.minTotal !== undefined) filters.push(where('totalAmount', '>=', params.minTotal));
+  if (params.maxTotal !== undefined) filters.push(where('totalAmount', '<=', params.maxTotal));
+
+  try {
+    const filtered = query(collection(firestore, 'orders'), ...filters);
+    const sorted = query(filtered, orderBy(ORDER_SORT_FIELDS[params.sort], params.dir));
+    // A cursor whose order has since been deleted just starts from the first page
+    const cursorId = params.after ?? params.before;
+    const cursor = cursorId ? await getDoc(doc(firestore, 'orders', cursorId)) : null;
+    const hasCursor = !!cursor?.exists();
+    const goingBack = hasCursor && !!params.before;
+
+    // One extra order tells whether there's another page beyond this one
+    const pageQuery = goingBack
+      ? query(sorted, endBefore(cursor), limitToLast(ORDER_LIST_PAGE_SIZE + 1))
+      : query(sorted, ...(hasCursor ? [startAfter(cursor)] : []), limit(ORDER_LIST_PAGE_SIZE + 1));
+    const [snapshot, countSnapshot] = await Promise.all([getDocs(pageQuery), getCountFromServer(filtered)]);
+
+    const hasExtra = snapshot.docs.length > ORDER_LIST_PAGE_SIZE;
+    const docs = goingBack
+      ? snapshot.docs.slice(hasExtra ? 1 : 0)
+      : snapshot.docs.slice(0, ORDER_LIST_PAGE_SIZE);
+    const hasNext = goingBack || hasExtra;
+    const hasPrevious = goingBack ? hasExtra : hasCursor;
+
+    return {
+      orders: docs.map((orderDoc) => mapOrderListRow(orderDoc.id, orderDoc.data())),
+      total: countSnapshot.data().count,
+      ...(hasNext && docs.length > 0 && { nextCursor: docs[docs.length - 1].id }),
+      ...(hasPrevious && docs.length > 0 && { previousCursor: docs[0].id }),
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error("Error fetching the orders list:", error);
+    if (message.toLowerCase().includes('index')) {
+      return { orders: [], total: 0, error: `This combination of filters and sort needs a Firestore index. ${message}` };
+    }
+    return { orders: [], total: 0, error: "Failed to load orders." };
+  }
+}
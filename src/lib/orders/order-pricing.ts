@@ -0,0 +1,297 @@
+// src/lib/orders/order-pricing.ts
+// Server-side pricing shared by the order and quote actions: lines are priced from their inventory item and
+// chosen options (what the form sends is only a preview), hand-set prices and discounts are checked against
+// the user's role, and GST and totals are worked out from the result.
+
+import { db, doc, getDoc } from '@/lib/firebase/firebase';
+import type { OrderInput, OrderTotals, PriceOverride } from '@/schemas/order';
+import { AddItemSchema, ItemOptionsSchema, type AddItemInput } from '@/schemas/inventory';
+import { hasPermission, MAX_DISCOUNT_PERCENT, type AuthError } from '@/lib/auth/permissions';
+import { calculateOrderTotals, isSameLineChoices, priceLine, validateLineChoices, type LinePrice } from '@/lib/orders/pricing';
+import type { SessionUser } from '@/schemas/user';
+import { calculateOrderGst } from '@/lib/orders/tax';
+import { getTaxSettings } from '@/lib/settings/tax-settings';
+import { calculateOrderDiscounts, getDiscountPercent, getPromoCodeProblem, hasDiscount, isWithinDiscountLimit } from '@/lib/orders/discounts';
+import { getPromoCode } from '@/lib/promotions/promo-codes';
+import type { AppliedDiscount, DiscountInput } from '@/schemas/discount';
+import type { PriceTier } from '@/schemas/customer';
+
+// Helper function to fetch current item details (removed stock check specific parts)
+export async function getInventoryItem(itemId: string): Promise<(AddItemInput & { id: string }) | null> {
+    if (!db) {
+        console.error("getInventoryItem: Firestore database is not initialized.");
+        return null;
+    }
+    try {
+        const itemDocRef = doc(db, 'inventory', itemId);
+        const docSnap = await getDoc(itemDocRef);
+        if (docSnap.exists()) {
+            const data = docSnap.data();
+            const validatedData = AddItemSchema.safeParse(data);
+            if (validatedData.success) {
+                return {
+                    id: docSnap.id,
+                    ...validatedData.data,
+                 };
+            } else {
+                console.warn(`Inventory item ${itemId} data validation failed:`, validatedData.error);
+                 const stock = typeof data?.stock === 'number' ? data.stock : 0;
+                 const price = typeof data?.price === 'number' ? data.price : 0;
+                 const name = typeof data?.name === 'string' ? data.name : 'Unknown';
+                 const sku = typeof data?.sku === 'string' ? data.sku : 'Unknown';
+                 const style = typeof data?.style === 'string' ? data.style : 'Unknown';
+                 const material = typeof data?.material === 'string' ? data.material : 'Unknown';
+                 const dimensions = typeof data?.dimensions === 'string' ? data.dimensions : 'Unknown';
+                 const imageUrl = typeof data?.imageUrl === 'string' ? data.imageUrl : undefined;
+                 const options = ItemOptionsSchema.safeParse(data?.options);
+
+                // Construct fallback data more carefully
+                const fallbackData: AddItemInput = {
+                    name, sku, style, material, dimensions, stock, price,
+                    // Only include optional fields if they exist in source data
+                    ...(data?.description && { description: data.description }),
+                    ...(data?.weight && { weight: data.weight }),
+                    ...(data?.leadTime && { leadTime: data.leadTime }),
+                    ...(imageUrl && { imageUrl }),
+                    ...(data?.options && options.success && { options: options.data }),
+                    ...(typeof data?.hsnCode === 'string' && { hsnCode: data.hsnCode }),
+                    ...(typeof data?.gstRate === 'number' && { gstRate: data.gstRate }),
+                };
+                return { id: docSnap.id, ...fallbackData };
+            }
+        }
+        console.log(`getInventoryItem: Item ${itemId} not found.`);
+        return null;
+    } catch (error) {
+        console.error(`Error fetching inventory item ${itemId}:`, error);
+        return null;
+    }
+}
+
+
+// Totals as stored on the order; totalAmount stays the grand total for the dashboard and Cloud Functions
+export function buildOrderTotals(items: { finalPrice: number; quantity: number }[], shippingCharge: number | undefined, tax?: number, discount?: number): { totals: OrderTotals; totalAmount: number } {
+  const totals = calculateOrderTotals(items.map((item) => ({ unitPrice: item.finalPrice, quantity: item.quantity })), { shipping: shippingCharge, tax, discount });
+  return { totals, totalAmount: totals.grandTotal };
+}
+
+// GST for the order's lines at what they sell for after discounts. Rates come from each line's item (or the
+// default rate); nothing is returned while tax settings haven't been saved or for a tax-exempt customer,
+// and the order is stored without GST.
+export async function taxOrderLines(
+  lines: { taxableValue: number; gstRate?: number; hsnCode?: string }[],
+  customer: { state?: string; gstin?: string; taxExempt?: boolean }
+) {
+  if (customer.taxExempt) return null;
+  const { settings } = await getTaxSettings();
+  return calculateOrderGst(
+    lines.map((line) => ({ taxableValue: line.taxableValue, gstRate: line.gstRate, hsnCode: line.hsnCode || undefined })),
+    { settings, shippingState: customer.state, buyerGstin: customer.gstin || undefined }
+  );
+}
+
+// Prices a line from its inventory item, chosen options and the customer's price tier. The price sent by
+// the form is only a preview; what's saved is worked out here. Choices the item doesn't offer fail on that line.
+export function priceOrderLine(
+  inventoryItem: AddItemInput,
+  line: OrderInput['items'][number],
+  index: number,
+  priceTier?: PriceTier
+): { price: LinePrice; message?: undefined; errors?: undefined } | { price?: undefined; message: string; errors: Record<string, any> } {
+  const choiceErrors = Object.values(validateLineChoices(inventoryItem, line.customizations));
+  if (choiceErrors.length > 0) {
+    return {
+      message: `${line.name || inventoryItem.name}: ${choiceErrors[0]}`,
+      errors: { items: { [`${index}.customizations`]: choiceErrors } },
+    };
+  }
+  return { price: priceLine(inventoryItem, line.customizations, priceTier) };
+}
+
+// A hand-set unit price replaces the list price. It needs a reason and the override permission; an
+// override already on the line at the same price and reason is kept without checking again.
+export function resolvePriceOverride(
+  line: OrderInput['items'][number],
+  listPrice: number,
+  index: number,
+  user: SessionUser,
+  existingLine?: { finalPrice?: number; priceOverride?: PriceOverride }
+): { ok: true; finalPrice: number; override?: PriceOverride } | { ok: false; message: string; errors: Record<string, any> | null; error?: AuthError } {
+  if (typeof line.priceOverride !== 'number' || line.priceOverride === listPrice) {
+    return { ok: true, finalPrice: listPrice };
+  }
+  const reason = line.priceOverrideReason?.trim() || '';
+  const existingOverride = existingLine?.priceOverride;
+  if (existingOverride && existingLine?.finalPrice === line.priceOverride && existingOverride.reason === reason) {
+    return { ok: true, finalPrice: line.priceOverride, override: { ...existingOverride, listPrice } };
+  }
+  if (!hasPermission(user.role, 'orders:override_price')) {
+    return {
+      ok: false,
+      message: "You don't have permission to change a line's price.",
+      errors: { items: { [`${index}.priceOverride`]: ["Only the list price is allowed for your role."] } },
+      error: { code: 'forbidden', permission: 'orders:override_price', role: user.role },
+    };
+  }
+  if (!reason) {
+    return { ok: false, message: "Give a reason for the price change.", errors: { items: { [`${index}.priceOverrideReason`]: ["A reason is required to override the price."] } } };
+  }
+  return { ok: true, finalPrice: line.priceOverride, override: { listPrice, reason, by: { id: user.id, name: user.name, role: user.role } } };
+}
+
+export const isSameDiscount = (applied: AppliedDiscount | undefined, input: DiscountInput) =>
+  !!applied && applied.type === input.type && applied.value === input.value && (applied.reason || '') === (input.reason || '');
+
+export type ResolvedOrderDiscounts = {
+  ok: true;
+  lineDiscounts: (AppliedDiscount | undefined)[];
+  orderDiscounts: AppliedDiscount[];
+  taxableValues: number[];
+  discountTotal: number;
+  promo?: { code: string; amount: number; isNew: boolean };
+};
+
+// Works out every discount on the order. Hand-entered discounts must be within the role's limit unless they
+// were already on the order with the same terms, in which case they keep who applied them. A promo code
+// already on the order keeps the terms it was redeemed with; a new one must be usable today.
+export async function resolveOrderDiscounts(
+  lines: { finalPrice: number; quantity: number; discount?: DiscountInput; existingDiscount?: AppliedDiscount }[],
+  input: { orderDiscount?: DiscountInput; promoCode?: string },
+  user: SessionUser,
+  existingDiscounts: AppliedDiscount[] = []
+): Promise<ResolvedOrderDiscounts | { ok: false; message: string; errors: Record<string, any> | null }> {
+  const stamp = { id: user.id, name: user.name, role: user.role };
+  const maxPercent = MAX_DISCOUNT_PERCENT[user.role];
+  const subtotal = lines.reduce((sum, line) => sum + line.finalPrice * line.quantity, 0);
+
+  const existingManual = existingDiscounts.find((discount) => !discount.promoCode);
+  const existingPromo = existingDiscounts.find((discount) => discount.promoCode);
+  let promoTerms: { code: string; type: AppliedDiscount['type']; value: number; isNew: boolean } | undefined;
+  if (input.promoCode) {
+    if (existingPromo?.promoCode === input.promoCode) {
+      promoTerms = { code: input.promoCode, type: existingPromo.type, value: existingPromo.value, isNew: false };
+    } else {
+      const { promoCode, error } = await getPromoCode(input.promoCode);
+      if (!promoCode) {
+        const message = error || `Promo code ${input.promoCode} doesn't exist.`;
+        return { ok: false, message, errors: { promoCode: [message] } };
+      }
+      const problem = getPromoCodeProblem(promoCode, subtotal);
+      if (problem) return { ok: false, message: problem, errors: { promoCode: [problem] } };
+      promoTerms = { code: promoCode.code, type: promoCode.type, value: promoCode.value, isNew: true };
+    }
+  }
+
+  const orderDiscount = hasDiscount(input.orderDiscount) ? input.orderDiscount : undefined;
+  const breakdown = calculateOrderDiscounts(
+    lines.map((line) => ({ unitPrice: line.finalPrice, quantity: line.quantity, discount: line.discount })),
+    [orderDiscount, promoTerms]
+  );
+
+  let manualChanged = false;
+  const lineDiscounts: (AppliedDiscount | undefined)[] = [];
+  for (const [index, line] of lines.entries()) {
+    const amount = breakdown.lineDiscounts[index];
+    if (!hasDiscount(line.discount) || amount <= 0) {
+      lineDiscounts.push(undefined);
+      continue;
+    }
+    const kept = isSameDiscount(line.existingDiscount, line.discount);
+    if (!kept && !isWithinDiscountLimit(user.role, amount, line.finalPrice * line.quantity)) {
+      const message = `Your role can give at most ${maxPercent}% off a line.`;
+      return { ok: false, message, errors: { items: { [`${index}.discount`]: [message] } } };
+    }
+    manualChanged ||= !kept;
+    lineDiscounts.push({
+      type: line.discount.type,
+      value: line.discount.value,
+      amount,
+      ...(line.discount.reason && { reason: line.discount.reason }),
+      appliedBy: kept ? line.existingDiscount!.appliedBy : stamp,
+    });
+  }
+
+  const orderDiscounts: AppliedDiscount[] = [];
+  const lineNetTotal = subtotal - breakdown.lineDiscounts.reduce((sum, amount) => sum + amount, 0);
+  if (orderDiscount && breakdown.orderDiscounts[0] > 0) {
+    const kept = isSameDiscount(existingManual, orderDiscount);
+    if (!kept && !isWithinDiscountLimit(user.role, breakdown.orderDiscounts[0], lineNetTotal)) {
+      const message = `Your role can give at most ${maxPercent}% off an order.`;
+      return { ok: false, message, errors: { orderDiscount: [message] } };
+    }
+    manualChanged ||= !kept;
+    orderDiscounts.push({
+      type: orderDiscount.type,
+      value: orderDiscount.value,
+      amount: breakdown.orderDiscounts[0],
+      ...(orderDiscount.reason && { reason: orderDiscount.reason }),
+      appliedBy: kept ? existingManual!.appliedBy : stamp,
+    });
+  }
+
+  // Line and order discounts together count against the same limit
+  const manualTotal = lineDiscounts.reduce((sum, discount) => sum + (discount?.amount || 0), 0) + (orderDiscounts[0]?.amount || 0);
+  if (manualChanged && !isWithinDiscountLimit(user.role, manualTotal, subtotal)) {
+    const message = `Discounts come to ${getDiscountPercent(manualTotal, subtotal).toFixed(1)}% of the order; your role can give at most ${maxPercent}%.`;
+    return { ok: false, message, errors: { orderDiscount: [message] } };
+  }
+
+  let promo: ResolvedOrderDiscounts['promo'];
+  if (promoTerms) {
+    const amount = breakdown.orderDiscounts[1];
+    promo = { code: promoTerms.code, amount, isNew: promoTerms.isNew };
+    orderDiscounts.push({
+      type: promoTerms.type,
+      value: promoTerms.value,
+      amount,
+      promoCode: promoTerms.code,
+      appliedBy: promoTerms.isNew ? stamp : existingPromo!.appliedBy,
+    });
+  }
+
+  return { ok: true, lineDiscounts, orderDiscounts, taxableValues: breakdown.taxableValues, discountTotal: breakdown.discountTotal, promo };
+}
+
+export type PricedFormLine = LinePrice & { finalPrice: number; override?: PriceOverride; gstRate?: number; hsnCode?: string; pricedLine?: Record<string, any> };
+
+// Prices every line of an order or quote form. `pricedLines` are lines priced before, e.g. those of the quote
+// an order is made from: a form line for the same item with the same choices keeps the list price, GST rate,
+// hand-set price and discount it was given then (pricedLine is returned for the discount check). Other lines
+// are priced at the customer's price tier.
+export async function priceFormLines(
+  items: OrderInput['items'],
+  user: SessionUser,
+  pricedLines: Record<string, any>[] = [],
+  priceTier?: PriceTier
+): Promise<{ ok: true; lines: PricedFormLine[] } | { ok: false; message: string; errors: Record<string, any> | null; error?: AuthError }> {
+  const usedIndexes = new Set<number>();
+  const lines: PricedFormLine[] = [];
+  for (const [index, item] of items.entries()) {
+    const inventoryItem = await getInventoryItem(item.itemId);
+    if (!inventoryItem) {
+      const message = `Inventory item '${item.name || 'Unknown'}' (ID: ${item.itemId}) not found.`;
+      return { ok: false, message, errors: { items: { [`${index}.itemId`]: [message] } } };
+    }
+    const matchIndex = pricedLines.findIndex((line, lineIndex) =>
+      !usedIndexes.has(lineIndex) && line.doorId === item.itemId && typeof line.finalPrice === 'number' && isSameLineChoices(line.customizations, item.customizations));
+    const pricedLine = matchIndex === -1 ? undefined : pricedLines[matchIndex];
+    if (pricedLine) usedIndexes.add(matchIndex);
+
+    let price: LinePrice;
+    let rates: { gstRate?: number; hsnCode?: string };
+    if (pricedLine) {
+      const listPrice = pricedLine.priceOverride?.listPrice ?? pricedLine.finalPrice;
+      price = { basePrice: pricedLine.basePrice ?? listPrice, unitPrice: listPrice, adjustments: pricedLine.priceAdjustments ?? [] };
+      rates = pricedLine.tax ? { gstRate: pricedLine.tax.rate, hsnCode: pricedLine.tax.hsnCode } : { gstRate: inventoryItem.gstRate, hsnCode: inventoryItem.hsnCode };
+    } else {
+      const priced = priceOrderLine(inventoryItem, item, index, priceTier);
+      if (!priced.price) return { ok: false, message: priced.message, errors: priced.errors };
+      price = priced.price;
+      rates = { gstRate: inventoryItem.gstRate, hsnCode: inventoryItem.hsnCode };
+    }
+    const override = resolvePriceOverride(item, price.unitPrice, index, user, pricedLine);
+    if (!override.ok) return { ok: false, message: override.message, errors: override.errors, error: override.error };
+    lines.push({ ...price, finalPrice: override.finalPrice, override: override.override, ...rates, pricedLine });
+  }
+  return { ok: true, lines };
+}
@@ -0,0 +1,81 @@
+// src/lib/orders/payments.ts
+// An order's payment status and balance, worked out from its payment records. Orders saved before
+// payments were recorded only have `paymentInfo.paymentMethod`, which mixed methods and states;
+// those are read as best we can until a payment is recorded against them.
+// Used by the order actions (stored summary, status guards) and the order pages. The stored summary
+// is also written by the shipment actions and the Cloud Functions (mirrored in functions/src/index.ts;
+// keep both in sync) whenever they change an order's status.
+
+import { Timestamp } from '@/lib/firebase/firebase';
+import type { OrderPaymentSummary, PaymentRecord, PaymentStatus } from '@/schemas/payment';
+
+const roundToPaise = (amount: number) => Math.round(amount * 100) / 100;
+
+// Share of the order taken up front on custom doors
+export const DEPOSIT_PERCENT = 50;
+
+export const getDepositAmount = (orderTotal: number) => roundToPaise((orderTotal * DEPOSIT_PERCENT) / 100);
+
+// Statuses that mean money has been taken and not given back
+export const PAID_PAYMENT_STATUSES: PaymentStatus[] = ['partially_paid', 'paid', 'overpaid'];
+
+const LEGACY_PAID_METHODS = ['Paid', 'Completed', 'Delivered'];
+
+// Cancelled and refunded orders owe nothing, so anything still held on them shows as overpaid
+const NOTHING_OWED_ORDER_STATUSES = ['Cancelled', 'Refunded'];
+
+// Goods sent back on a received return (see returns.ts) come off what's owed
+export const getAmountOwed = (orderData: { status?: string; totalAmount?: number; returnTotal?: number }) =>
+  NOTHING_OWED_ORDER_STATUSES.includes(orderData.status || '') || typeof orderData.totalAmount !== 'number'
+    ? 0
+    : roundToPaise(Math.max(0, orderData.totalAmount - (orderData.returnTotal || 0)));
+
+const toIsoString = (value: unknown) => (value instanceof Timestamp ? value.toDate().toISOString() : typeof value === 'string' ? value : new Date(0).toISOString());
+
+export function mapPaymentRecord(data: Record<string, any>): PaymentRecord {
+  return {
+    id: data.id,
+    kind: data.kind === 'refund' ? 'refund' : 'payment',
+    amount: typeof data.amount === 'number' ? data.amount : 0,
+    method: data.method,
+    reference: data.reference || undefined,
+    paidOn: data.paidOn,
+    recordedBy: data.recordedBy,
+    recordedAt: toIsoString(data.recordedAt),
+    ...(data.returnId && { returnId: data.returnId }),
+    ...(data.voided && { voided: { by: data.voided.by, at: toIsoString(data.voided.at), reason: data.voided.reason } }),
+  };
+}
+
+export function summarizePayments(payments: Pick<PaymentRecord, 'kind' | 'amount' | 'voided'>[], amountOwed: number): OrderPaymentSummary {
+  const active = payments.filter((payment) => !payment.voided);
+  const received = active.filter((payment) => payment.kind === 'payment').reduce((sum, payment) => sum + payment.amount, 0);
+  const refunded = active.filter((payment) => payment.kind === 'refund').reduce((sum, payment) => sum + payment.amount, 0);
+  const amountPaid = roundToPaise(received - refunded);
+  const balanceDue = roundToPaise(Math.max(0, amountOwed - amountPaid));
+
+  let status: PaymentStatus;
+  if (refunded > 0 && amountPaid <= 0) status = 'refunded';
+  else if (amountPaid <= 0) status = 'unpaid';
+  else if (amountPaid < amountOwed) status = 'partially_paid';
+  else if (amountPaid > amountOwed) status = 'overpaid';
+  else status = 'paid';
+  return { status, amountPaid, balanceDue };
+}
+
+// Payment summary for an order document, whether or not it has payment records yet
+export function getOrderPaymentSummary(orderData: Record<string, any>): OrderPaymentSummary {
+  const amountOwed = getAmountOwed(orderData);
+  if (Array.isArray(orderData.payments)) {
+    return summarizePayments(orderData.payments.map(mapPaymentRecord), amountOwed);
+  }
+
+  const legacyMethod = orderData.paymentInfo?.paymentMethod;
+  if (legacyMethod === 'Refunded') return { status: 'refunded', amountPaid: 0, balanceDue: 0 };
+  // A COD order was paid when it was delivered
+  if (LEGACY_PAID_METHODS.includes(legacyMethod) || (legacyMethod === 'COD' && orderData.status === 'Delivered')) {
+    const orderTotal = typeof orderData.totalAmount === 'number' ? orderData.totalAmount : 0;
+    return { status: 'paid', amountPaid: orderTotal, balanceDue: 0 };
+  }
+  return { status: 'unpaid', amountPaid: 0, balanceDue: amountOwed };
+}
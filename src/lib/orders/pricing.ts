@@ -0,0 +1,177 @@
+// src/lib/orders/pricing.ts
+// Unit prices for order lines. An item's `price` covers its standard build; each option chosen on the
+// line (material, finish, hardware, a custom size) adds its modifier on top. Both order forms and the
+// order actions price lines here, and the server's result is what gets saved.
+
+import type { ItemOptions, OptionChoice, PriceModifier, SizeOption } from '@/schemas/inventory';
+import type { OrderTotals, PriceAdjustment } from '@/schemas/order';
+import { PRICE_TIERS, type PriceTier } from '@/schemas/customer';
+
+// Minimal shapes so inventory items, form values and Firestore data can all be passed in
+interface PricedItem {
+  price: number;
+  options?: ItemOptions;
+}
+
+interface LineChoices {
+  material?: string;
+  finish?: string;
+  hardware?: string;
+  size?: { height?: number; width?: number };
+}
+
+export interface LinePrice {
+  basePrice: number;
+  unitPrice: number;
+  adjustments: PriceAdjustment[];
+}
+
+type ChoiceGroup = 'materials' | 'finishes' | 'hardware';
+
+// Which customization each option group is chosen through, and how it's labelled
+const CHOICE_GROUPS: { group: ChoiceGroup; field: 'material' | 'finish' | 'hardware'; label: string }[] = [
+  { group: 'materials', field: 'material', label: 'Material' },
+  { group: 'finishes', field: 'finish', label: 'Finish' },
+  { group: 'hardware', field: 'hardware', label: 'Hardware' },
+];
+
+const SQ_INCHES_PER_SQ_FT = 144;
+
+const roundToPaise = (amount: number) => Math.round(amount * 100) / 100;
+
+// A line has a custom size once either dimension is given (see isMadeToOrderLine)
+const hasCustomSize = (choices: LineChoices) =>
+  typeof choices.size?.height === 'number' || typeof choices.size?.width === 'number';
+
+// Door area the line is built at: the custom size if one was chosen, otherwise the standard size
+export function getDoorAreaSqFt(size: SizeOption, choices: LineChoices): number {
+  const height = choices.size?.height ?? size.standardHeight;
+  const width = choices.size?.width ?? size.standardWidth;
+  return (height * width) / SQ_INCHES_PER_SQ_FT;
+}
+
+function getModifierAmount(modifier: PriceModifier, basePrice: number, areaSqFt: number): number {
+  switch (modifier.type) {
+    case 'flat':
+      return modifier.amount;
+    case 'per_sq_ft':
+      return modifier.amount * areaSqFt;
+    case 'percentage':
+      return (basePrice * modifier.amount) / 100;
+  }
+}
+
+// Describes a modifier for option pickers, e.g. "+₹1,200", "+₹85/sq ft" or "-5%"
+export function formatPriceModifier(modifier: PriceModifier): string {
+  if (modifier.amount === 0) return 'no charge';
+  const sign = modifier.amount > 0 ? '+' : '-';
+  const amount = Math.abs(modifier.amount);
+  switch (modifier.type) {
+    case 'flat':
+      return `${sign}₹${amount.toLocaleString('en-IN')}`;
+    case 'per_sq_ft':
+      return `${sign}₹${amount.toLocaleString('en-IN')}/sq ft`;
+    case 'percentage':
+      return `${sign}${amount}%`;
+  }
+}
+
+function findChoice(choices: OptionChoice[] | undefined, value: string): OptionChoice | undefined {
+  return choices?.find((choice) => choice.value === value);
+}
+
+// Checks the line's choices against what the item offers. Returns a message per customization field
+// that isn't allowed; an empty object means the line can be priced.
+export function validateLineChoices(item: PricedItem, choices: LineChoices | undefined): Record<string, string> {
+  const errors: Record<string, string> = {};
+  if (!choices) return errors;
+
+  CHOICE_GROUPS.forEach(({ group, field, label }) => {
+    const value = choices[field];
+    if (value && !findChoice(item.options?.[group], value)) {
+      errors[field] = `${label} "${value}" isn't offered for this item.`;
+    }
+  });
+
+  if (hasCustomSize(choices)) {
+    const size = item.options?.size;
+    const { height, width } = choices.size || {};
+    if (!size) {
+      errors.size = "This item isn't made in custom sizes.";
+    } else if (typeof height !== 'number' || typeof width !== 'number') {
+      errors.size = "Give both height and width for a custom size.";
+    } else if (height < size.minHeight || height > size.maxHeight) {
+      errors.size = `Height must be ${size.minHeight}–${size.maxHeight} in.`;
+    } else if (width < size.minWidth || width > size.maxWidth) {
+      errors.size = `Width must be ${size.minWidth}–${size.maxWidth} in.`;
+    }
+  }
+  return errors;
+}
+
+// Prices one unit of the line. Choices the item doesn't offer are ignored here; run
+// validateLineChoices first. A per sq ft size modifier only charges for area beyond the standard size.
+// A trade customer's price tier comes off last, on the price with its options.
+export function priceLine(item: PricedItem, choices: LineChoices | undefined, priceTier?: PriceTier): LinePrice {
+  const basePrice = item.price;
+  const adjustments: PriceAdjustment[] = [];
+  const size = item.options?.size;
+  const areaSqFt = size && choices ? getDoorAreaSqFt(size, choices) : 0;
+
+  CHOICE_GROUPS.forEach(({ group, field, label }) => {
+    const value = choices?.[field];
+    const choice = value ? findChoice(item.options?.[group], value) : undefined;
+    if (choice) {
+      adjustments.push({ label: `${label}: ${choice.value}`, amount: roundToPaise(getModifierAmount(choice.modifier, basePrice, areaSqFt)) });
+    }
+  });
+
+  if (size && choices && hasCustomSize(choices)) {
+    const extraAreaSqFt = Math.max(0, areaSqFt - (size.standardHeight * size.standardWidth) / SQ_INCHES_PER_SQ_FT);
+    const amount = size.modifier.type === 'per_sq_ft'
+      ? size.modifier.amount * extraAreaSqFt
+      : getModifierAmount(size.modifier, basePrice, areaSqFt);
+    adjustments.push({ label: `Custom size: ${choices.size?.width}×${choices.size?.height} in`, amount: roundToPaise(amount) });
+  }
+
+  const tierPercent = priceTier ? PRICE_TIERS[priceTier]?.percentOff ?? 0 : 0;
+  if (tierPercent > 0) {
+    const optionPrice = Math.max(0, adjustments.reduce((sum, adjustment) => sum + adjustment.amount, basePrice));
+    adjustments.push({ label: `${PRICE_TIERS[priceTier!].label} price: ${tierPercent}% off`, amount: -roundToPaise((optionPrice * tierPercent) / 100) });
+  }
+
+  const unitPrice = Math.max(0, roundToPaise(adjustments.reduce((sum, adjustment) => sum + adjustment.amount, basePrice)));
+  return { basePrice, unitPrice, adjustments: adjustments.filter((adjustment) => adjustment.amount !== 0) };
+}
+
+// Whether two lines were customized the same way, so a line kept on an edited order keeps its price
+export function isSameLineChoices(a: LineChoices | undefined, b: LineChoices | undefined): boolean {
+  return (a?.material || '') === (b?.material || '')
+    && (a?.finish || '') === (b?.finish || '')
+    && (a?.hardware || '') === (b?.hardware || '')
+    && a?.size?.height === b?.size?.height
+    && a?.size?.width === b?.size?.width;
+}
+
+// What a form line sells at: the hand-set price if there is one, otherwise the list price
+export function getLineSellingPrice(line: { price: number; priceOverride?: number }): number {
+  return typeof line.priceOverride === 'number' && !Number.isNaN(line.priceOverride) ? line.priceOverride : line.price;
+}
+
+// Breaks an order's total down. Discounts come off the subtotal before tax; shipping is added last.
+export function calculateOrderTotals(
+  lines: { unitPrice: number; quantity: number }[],
+  charges: { discount?: number; tax?: number; shipping?: number } = {}
+): OrderTotals {
+  const subtotal = roundToPaise(lines.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0));
+  const discountTotal = roundToPaise(Math.min(charges.discount || 0, subtotal));
+  const taxTotal = roundToPaise(charges.tax || 0);
+  const shippingTotal = roundToPaise(charges.shipping || 0);
+  return {
+    subtotal,
+    discountTotal,
+    taxTotal,
+    shippingTotal,
+    grandTotal: roundToPaise(subtotal - discountTotal + taxTotal + shippingTotal),
+  };
+}
@@ -0,0 +1,100 @@
+// src/lib/orders/quotes.ts
+// Reads for the `quotes` collection. Quotes are written by the quote server actions and turned into orders
+// through the order form (see createOrderAction), which keeps the quoted prices and discounts.
+// Expiry isn't stored: a draft or sent quote reads as expired once its valid-until date has passed.
+
+import { db, collection, doc, getDoc, getDocs, query, where, Timestamp } from '@/lib/firebase/firebase';
+import type { Quote, QuoteRevision, QuoteStatus } from '@/schemas/quote';
+
+const toIsoString = (value: unknown): string | undefined =>
+  value instanceof Timestamp ? value.toDate().toISOString() : typeof value === 'string' ? value : undefined;
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+// Statuses a quote can still be revised, sent, accepted or declined from
+export const OPEN_QUOTE_STATUSES: QuoteStatus[] = ['draft', 'sent'];
+
+export function getQuoteStatus(data: { status?: string; validUntil?: string }, on: string = today()): QuoteStatus {
+  const status = (data.status || 'draft') as QuoteStatus;
+  return OPEN_QUOTE_STATUSES.includes(status) && !!data.validUntil && data.validUntil < on ? 'expired' : status;
+}
+
+// An expired quote can be revised with a new date; accepted and declined ones are closed
+export const canReviseQuote = (status: QuoteStatus) => status !== 'accepted' && status !== 'declined';
+
+export const getQuoteStatusVariant = (status: QuoteStatus): "default" | "secondary" | "outline" | "destructive" => {
+  switch (status) {
+    case 'sent':
+      return 'secondary';
+    case 'accepted':
+      return 'default';
+    case 'expired':
+    case 'declined':
+      return 'destructive';
+    default:
+      return 'outline';
+  }
+};
+
+function mapRevision(data: Record<string, any>): QuoteRevision {
+  return {
+    revision: typeof data.revision === 'number' ? data.revision : 1,
+    items: Array.isArray(data.items) ? data.items : [],
+    totals: data.totals,
+    gst: data.gst,
+    discounts: Array.isArray(data.discounts) ? data.discounts : undefined,
+    shippingMethod: data.shippingMethod || undefined,
+    validUntil: data.validUntil,
+    notes: data.notes || undefined,
+    savedAt: toIsoString(data.savedAt) ?? new Date(0).toISOString(),
+    savedBy: data.savedBy,
+  };
+}
+
+export function mapQuote(id: string, data: Record<string, any>): Quote {
+  return {
+    ...mapRevision(data),
+    id,
+    status: getQuoteStatus(data),
+    shippingInfo: data.shippingInfo,
+    totalAmount: typeof data.totalAmount === 'number' ? data.totalAmount : 0,
+    revisions: Array.isArray(data.revisions) ? data.revisions.map(mapRevision) : [],
+    customerId: data.customerId || undefined,
+    orderId: data.orderId,
+    declineReason: data.declineReason,
+    createdBy: data.createdBy,
+    createdAt: toIsoString(data.createdAt) ?? new Date(0).toISOString(),
+    updatedAt: toIsoString(data.updatedAt),
+    sentAt: toIsoString(data.sentAt),
+    acceptedAt: toIsoString(data.acceptedAt),
+    declinedAt: toIsoString(data.declinedAt),
+  };
+}
+
+export async function getQuote(quoteId: string): Promise<{ quote: Quote | null; error?: string }> {
+  if (!db) return { quote: null, error: "Database initialization failed." };
+  try {
+    const quoteSnap = await getDoc(doc(db, 'quotes', quoteId));
+    return { quote: quoteSnap.exists() ? mapQuote(quoteSnap.id, quoteSnap.data()) : null };
+  } catch (error) {
+    console.error(`Error fetching quote ${quoteId}:`, error);
+    return { quote: null, error: "Failed to load the quote." };
+  }
+}
+
+// Newest first; with a status, only quotes in it (expired ones are worked out after reading)
+export async function getQuotes(status?: QuoteStatus): Promise<{ quotes: Quote[]; error?: string }> {
+  if (!db) return { quotes: [], error: "Database initialization failed." };
+  try {
+    const quotesRef = collection(db, 'quotes');
+    const snapshot = await getDocs(status && status !== 'expired' && !OPEN_QUOTE_STATUSES.includes(status) ? query(quotesRef, where('status', '==', status)) : quotesRef);
+    const quotes = snapshot.docs
+      .map((quoteDoc) => mapQuote(quoteDoc.id, quoteDoc.data()))
+      .filter((quote) => !status || quote.status === status)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    return { quotes };
+  } catch (error) {
+    console.error("Error fetching quotes:", error);
+    return { quotes: [], error: "Failed to load quotes." };
+  }
+}
@@ -0,0 +1,390 @@
+// src/lib/orders/returns.ts
+// Customer returns (RMAs) against delivered order lines. A return is authorised for some units of some
+// lines, checked in when the goods come back, then refunded against the order's payments. Only units
+// checked in as restockable go back into stock, through 'return_restock' movements (see stock-ledger.ts)
+// written in the same transaction as the return and the order. Received returns are counted on the order
+// (items[].returnedQuantity, returnTotal) so its net total and balance follow.
+
+import { db, collection, doc, getDoc, getDocs, addDoc, query, where, runTransaction, serverTimestamp, Timestamp } from '@/lib/firebase/firebase';
+import { buildStockMovementData } from '@/lib/inventory/stock-ledger';
+import { applyLocationStockDelta } from '@/lib/inventory/location-stock';
+import { computeLineFulfillment, getOrderLineKey } from '@/lib/orders/fulfillment';
+import { getAmountOwed, getOrderPaymentSummary } from '@/lib/orders/payments';
+import { getLineTaxAmount } from '@/lib/orders/tax';
+import type { OrderReturn, ReceiveReturnInput, ReturnAuthorisationInput, ReturnLine, ReturnRefundInput, ReturnStatus } from '@/schemas/return';
+import type { SessionUser } from '@/schemas/user';
+
+// Orders nothing can be returned on: their money has already been dealt with as a whole
+const NON_RETURNABLE_ORDER_STATUSES = ['Cancelled', 'Refunded'];
+
+const roundToPaise = (amount: number) => Math.round(amount * 100) / 100;
+
+const toIsoString = (value: unknown): string | undefined =>
+  value instanceof Timestamp ? value.toDate().toISOString() : undefined;
+
+const toUserStamp = (user: SessionUser) => ({ id: user.id, name: user.name, role: user.role });
+
+export const getReturnStatusVariant = (status: ReturnStatus): "default" | "secondary" | "outline" | "destructive" => {
+  switch (status) {
+    case 'Authorised':
+      return 'secondary';
+    case 'Received':
+      return 'default';
+    case 'Cancelled':
+      return 'destructive';
+    default:
+      return 'outline';
+  }
+};
+
+export function mapReturn(id: string, data: Record<string, any>): OrderReturn {
+  return {
+    id,
+    orderId: data.orderId,
+    customerName: data.customerName || 'N/A',
+    status: data.status,
+    reason: data.reason,
+    note: data.note,
+    lines: (data.lines || []).map((line: any) => ({
+      lineKey: line.lineKey,
+      doorId: line.doorId,
+      name: line.name,
+      sku: line.sku,
+      quantity: typeof line.quantity === 'number' ? line.quantity : 0,
+      unitValue: typeof line.unitValue === 'number' ? line.unitValue : 0,
+      restockable: line.restockable,
+      damaged: line.damaged,
+    })),
+    value: typeof data.value === 'number' ? data.value : 0,
+    locationId: data.locationId,
+    receiptNote: data.receiptNote,
+    refundPaymentId: data.refundPaymentId,
+    refundAmount: data.refundAmount,
+    authorisedBy: data.authorisedBy,
+    authorisedAt: toIsoString(data.authorisedAt) || new Date().toISOString(),
+    receivedBy: data.receivedBy,
+    receivedAt: toIsoString(data.receivedAt),
+    refundedBy: data.refundedBy,
+    refundedAt: toIsoString(data.refundedAt),
+    cancelledBy: data.cancelledBy,
+    cancelledAt: toIsoString(data.cancelledAt),
+  };
+}
+
+// Newest first; optionally one order's. Equality-only query so no composite index is needed.
+export async function getReturns(orderId?: string): Promise<{ returns: OrderReturn[]; error?: string }> {
+  if (!db) return { returns: [], error: "Database initialization failed." };
+  try {
+    const returnsCollection = collection(db, 'returns');
+    const snapshot = await getDocs(orderId ? query(returnsCollection, where('orderId', '==', orderId)) : returnsCollection);
+    const returns = snapshot.docs
+      .map((docSnap) => mapReturn(docSnap.id, docSnap.data()))
+      .sort((a, b) => b.authorisedAt.localeCompare(a.authorisedAt));
+    return { returns };
+  } catch (error) {
+    console.error("Error fetching returns:", error);
+    return { returns: [], error: "Failed to load returns." };
+  }
+}
+
+// What one unit of a line cost the customer: its share of the taxable value (after line and order
+// discounts) plus GST. Orders saved before GST have no tax facts, so only the line discount comes off.
+export function getLineUnitValue(line: { quantity: number; finalPrice: number; discount?: { amount: number }; tax?: { taxableValue: number; cgst: number; sgst: number; igst: number } }): number {
+  if (line.quantity <= 0) return 0;
+  const lineValue = line.tax
+    ? line.tax.taxableValue + getLineTaxAmount(line.tax)
+    : line.finalPrice * line.quantity - (line.discount?.amount ?? 0);
+  return roundToPaise(lineValue / line.quantity);
+}
+
+export interface ReturnableLine {
+  lineKey: string;
+  doorId: string;
+  name: string;
+  sku: string;
+  delivered: number;
+  onReturns: number; // Authorised or received on returns that weren't cancelled
+  returnable: number;
+  unitValue: number;
+}
+
+// Units of each line the customer has and could still send back. An order marked Delivered counts
+// every unit as delivered, even where the shipments weren't all updated (or it had none).
+export function getReturnableLines(
+  orderData: { status: string; items?: any[] },
+  shipments: any[],
+  returns: Pick<OrderReturn, 'status' | 'lines'>[]
+): ReturnableLine[] {
+  const items: any[] = orderData.items || [];
+  const fulfillment = computeLineFulfillment(items, shipments);
+  return items.map((item, index) => {
+    const lineKey = getOrderLineKey(item, index);
+    const delivered = orderData.status === 'Delivered' ? item.quantity : fulfillment[index]?.delivered ?? 0;
+    const onReturns = returns
+      .filter((orderReturn) => orderReturn.status !== 'Cancelled')
+      .flatMap((orderReturn) => orderReturn.lines)
+      .filter((line) => line.lineKey === lineKey)
+      .reduce((sum, line) => sum + line.quantity, 0);
+    return {
+      lineKey,
+      doorId: item.doorId,
+      name: item.name,
+      sku: item.sku,
+      delivered,
+      onReturns,
+      returnable: NON_RETURNABLE_ORDER_STATUSES.includes(orderData.status) ? 0 : Math.max(0, delivered - onReturns),
+      unitValue: getLineUnitValue(item),
+    };
+  });
+}
+
+// Most that can be refunded on a received return: its value, but never more than the order is now overpaid by
+export function getRefundDue(orderReturn: Pick<OrderReturn, 'value'>, orderData: Record<string, any>): number {
+  const { amountPaid } = getOrderPaymentSummary(orderData);
+  const overpaid = amountPaid - getAmountOwed(orderData);
+  return roundToPaise(Math.max(0, Math.min(orderReturn.value, overpaid)));
+}
+
+// Authorises the return of delivered units. Quantities above what the customer still has are refused.
+export async function authoriseReturn(
+  orderId: string,
+  input: ReturnAuthorisationInput,
+  actor: SessionUser
+): Promise<{ success: boolean; message: string; returnId?: string; after?: Record<string, any> }> {
+  if (!db) return { success: false, message: "Database initialization failed." };
+
+  try {
+    const orderSnap = await getDoc(doc(db, 'orders', orderId));
+    if (!orderSnap.exists()) return { success: false, message: `Order ${orderId} not found.` };
+    const orderData = orderSnap.data();
+    if (NON_RETURNABLE_ORDER_STATUSES.includes(orderData.status)) {
+      return { success: false, message: `Returns can't be taken on a ${orderData.status.toLowerCase()} order.` };
+    }
+
+    const [shipmentsSnap, { returns, error }] = await Promise.all([
+      getDocs(query(collection(db, 'shipments'), where('orderId', '==', orderId))),
+      getReturns(orderId),
+    ]);
+    if (error) return { success: false, message: error };
+    const returnable = getReturnableLines(orderData as { status: string; items?: any[] }, shipmentsSnap.docs.map((shipmentDoc) => shipmentDoc.data()), returns);
+
+    // Each line is checked against what's returnable on its own, so listing one twice could return more than was delivered
+    const requestedKeys = input.lines.map((line) => line.lineKey);
+    if (new Set(requestedKeys).size !== requestedKeys.length) {
+      return { success: false, message: "Each order line can only be listed once on a return." };
+    }
+
+    const lines: ReturnLine[] = [];
+    for (const requested of input.lines.filter((line) => line.quantity > 0)) {
+      const line = returnable.find((candidate) => candidate.lineKey === requested.lineKey);
+      if (!line) return { success: false, message: "One of the lines is no longer on the order." };
+      if (requested.quantity > line.returnable) {
+        return { success: false, message: `Only ${line.returnable} of ${line.name} can be returned (${line.delivered} delivered, ${line.onReturns} already on returns).` };
+      }
+      lines.push({ lineKey: line.lineKey, doorId: line.doorId, name: line.name, sku: line.sku, quantity: requested.quantity, unitValue: line.unitValue });
+    }
+
+    const after = {
+      orderId,
+      customerName: orderData.shippingInfo?.name || 'N/A',
+      status: 'Authorised',
+      reason: input.reason,
+      ...(input.note && { note: input.note }),
+      lines,
+      value: roundToPaise(lines.reduce((sum, line) => sum + line.quantity * line.unitValue, 0)),
+      authorisedBy: toUserStamp(actor),
+      authorisedAt: serverTimestamp(),
+    };
+    const returnRef = await addDoc(collection(db, 'returns'), after);
+    const units = lines.reduce((sum, line) => sum + line.quantity, 0);
+    return { success: true, message: `Return authorised for ${units} unit(s) worth ₹${after.value.toFixed(2)}.`, returnId: returnRef.id, after };
+  } catch (error) {
+    console.error(`Error authorising a return on order ${orderId}:`, error);
+    return { success: false, message: "Failed to authorise the return due to a database error." };
+  }
+}
+
+// Checks an authorised return in: restockable units go back into stock at the chosen location, damaged
+// ones don't. The order's returned quantities and return total go up, and with them its balance.
+export async function receiveReturn(
+  returnId: string,
+  input: ReceiveReturnInput,
+  actor: SessionUser
+): Promise<{ success: boolean; message: string; orderId?: string; before?: Record<string, any>; after?: Record<string, any> }> {
+  if (!db) return { success: false, message: "Database initialization failed." };
+  const firestore = db;
+
+  try {
+    return await runTransaction(firestore, async (transaction) => {
+      const returnRef = doc(firestore, 'returns', returnId);
+      const returnSnap = await transaction.get(returnRef);
+      if (!returnSnap.exists()) return { success: false, message: `Return ${returnId} not found.` };
+      const returnData = returnSnap.data();
+      if (returnData.status !== 'Authorised') {
+        return { success: false, message: `This return is already ${String(returnData.status).toLowerCase()}.` };
+      }
+
+      const lines: any[] = returnData.lines || [];
+      for (const line of lines) {
+        const received = input.lines.find((candidate) => candidate.lineKey === line.lineKey);
+        if (!received || received.restockable + received.damaged !== line.quantity) {
+          return { success: false, message: `Check in all ${line.quantity} of ${line.name} as restockable or damaged.` };
+        }
+      }
+
+      const orderRef = doc(firestore, 'orders', returnData.orderId);
+      const orderSnap = await transaction.get(orderRef);
+      if (!orderSnap.exists()) return { success: false, message: `Order ${returnData.orderId} not found.` };
+      const orderData = orderSnap.data();
+
+      const restockLines = lines
+        .map((line) => ({ line, quantity: input.lines.find((candidate) => candidate.lineKey === line.lineKey)!.restockable }))
+        .filter(({ quantity }) => quantity > 0);
+      // Several order lines can be the same item, so each item is read once and its lines applied in turn
+      const doorIds = Array.from(new Set(restockLines.map(({ line }) => line.doorId as string)));
+      const itemSnaps = await Promise.all(doorIds.map((doorId) => transaction.get(doc(firestore, 'inventory', doorId))));
+      const missing = itemSnaps.findIndex((itemSnap) => !itemSnap.exists());
+      if (missing !== -1) {
+        const name = restockLines.find(({ line }) => line.doorId === doorIds[missing])!.line.name;
+        return { success: false, message: `${name} is no longer in inventory, so it can't be restocked.` };
+      }
+      const itemLevels = new Map(doorIds.map((doorId, index) => [doorId, itemSnaps[index].data()!]));
+
+      restockLines.forEach(({ line, quantity }) => {
+        const itemData = itemLevels.get(line.doorId)!;
+        const stockBefore = Number.isInteger(itemData.stock) ? itemData.stock : 0;
+        const levels = applyLocationStockDelta(itemData, input.locationId, quantity);
+        itemLevels.set(line.doorId, { ...itemData, ...levels });
+        transaction.set(doc(collection(firestore, 'stockMovements')), buildStockMovementData({
+          inventoryId: line.doorId,
+          type: 'return_restock',
+          quantity,
+          actor,
+          locationId: input.locationId,
+          orderId: returnData.orderId,
+          returnId,
+          note: input.note,
+        }, stockBefore, levels.stock));
+      });
+      itemLevels.forEach(({ stock, stockByLocation }, doorId) => {
+        transaction.update(doc(firestore, 'inventory', doorId), { stock, stockByLocation, updatedBy: actor.id, updatedAt: serverTimestamp() });
+      });
+
+      const value = typeof returnData.value === 'number' ? returnData.value : 0;
+      const items = (orderData.items || []).map((item: any, index: number) => {
+        const line = lines.find((candidate) => candidate.lineKey === getOrderLineKey(item, index));
+        return line ? { ...item, returnedQuantity: (item.returnedQuantity || 0) + line.quantity } : item;
+      });
+      const returnTotal = roundToPaise((orderData.returnTotal || 0) + value);
+      const orderUpdate = {
+        items,
+        returnTotal,
+        payment: getOrderPaymentSummary({ ...orderData, returnTotal }),
+        updatedBy: toUserStamp(actor),
+        updatedAt: serverTimestamp(),
+      };
+      transaction.update(orderRef, orderUpdate);
+
+      const after = {
+        status: 'Received',
+        lines: lines.map((line) => {
+          const received = input.lines.find((candidate) => candidate.lineKey === line.lineKey)!;
+          return { ...line, restockable: received.restockable, damaged: received.damaged };
+        }),
+        locationId: input.locationId,
+        ...(input.note && { receiptNote: input.note }),
+        receivedBy: toUserStamp(actor),
+        receivedAt: serverTimestamp(),
+      };
+      transaction.update(returnRef, after);
+
+      const restocked = restockLines.reduce((sum, { quantity }) => sum + quantity, 0);
+      const damaged = input.lines.reduce((sum, line) => sum + line.damaged, 0);
+      const refundDue = getRefundDue({ value }, { ...orderData, returnTotal });
+      return {
+        success: true,
+        message: `Return received: ${restocked} unit(s) restocked${damaged > 0 ? `, ${damaged} damaged` : ''}. ${refundDue > 0 ? `₹${refundDue.toFixed(2)} can be refunded.` : 'Nothing paid needs refunding.'}`,
+        orderId: returnData.orderId,
+        before: returnData,
+        after,
+      };
+    });
+  } catch (error) {
+    console.error(`Error receiving return ${returnId}:`, error);
+    return { success: false, message: "Failed to record the return due to a database error." };
+  }
+}
+
+// Gives money back for a received return: a refund record in the order's payments (linked to the return),
+// plus an entry in `refunds` like the ones written when a whole order is refunded.
+export async function refundReturn(
+  returnId: string,
+  input: ReturnRefundInput,
+  actor: SessionUser
+): Promise<{ success: boolean; message: string; orderId?: string; before?: Record<string, any>; after?: Record<string, any> }> {
+  if (!db) return { success: false, message: "Database initialization failed." };
+  const firestore = db;
+
+  try {
+    return await runTransaction(firestore, async (transaction) => {
+      const returnRef = doc(firestore, 'returns', returnId);
+      const returnSnap = await transaction.get(returnRef);
+      if (!returnSnap.exists()) return { success: false, message: `Return ${returnId} not found.` };
+      const returnData = returnSnap.data();
+      if (returnData.status !== 'Received') {
+        return { success: false, message: returnData.status === 'Authorised' ? "Check the goods in before refunding the return." : `This return is already ${String(returnData.status).toLowerCase()}.` };
+      }
+
+      const orderRef = doc(firestore, 'orders', returnData.orderId);
+      const orderSnap = await transaction.get(orderRef);
+      if (!orderSnap.exists()) return { success: false, message: `Order ${returnData.orderId} not found.` };
+      const orderData = orderSnap.data();
+
+      const refundDue = getRefundDue(mapReturn(returnId, returnData), orderData);
+      if (input.amount > refundDue) {
+        return { success: false, message: refundDue > 0 ? `At most ₹${refundDue.toFixed(2)} can be refunded on this return.` : "Nothing paid on the order needs refunding." };
+      }
+
+      const refund = {
+        id: crypto.randomUUID(),
+        kind: 'refund',
+        amount: input.amount,
+        method: input.method,
+        ...(input.reference && { reference: input.reference }),
+        paidOn: new Date().toISOString().slice(0, 10),
+        recordedBy: toUserStamp(actor),
+        recordedAt: Timestamp.now(),
+        returnId,
+      };
+      const payments = [...(Array.isArray(orderData.payments) ? orderData.payments : []), refund];
+      transaction.update(orderRef, {
+        payments,
+        payment: getOrderPaymentSummary({ ...orderData, payments }),
+        updatedBy: toUserStamp(actor),
+        updatedAt: serverTimestamp(),
+      });
+      transaction.set(doc(collection(firestore, 'refunds')), {
+        orderId: returnData.orderId,
+        returnId,
+        amount: input.amount,
+        previousPaymentStatus: getOrderPaymentSummary(orderData).status,
+        fromStatus: orderData.status,
+        createdBy: toUserStamp(actor),
+        createdAt: serverTimestamp(),
+      });
+
+      const after = {
+        status: 'Refunded',
+        refundPaymentId: refund.id,
+        refundAmount: input.amount,
+        refundedBy: toUserStamp(actor),
+        refundedAt: serverTimestamp(),
+      };
+      transaction.update(returnRef, after);
+      return { success: true, message: `₹${input.amount.toFixed(2)} refunded on the return.`, orderId: returnData.orderId, before: returnData, after };
+    });
+  } catch (error) {
+    console.error(`Error refunding return ${returnId}:`, error);
+    return { success: false, message: "Failed to record the refund due to a database error." };
+  }
+}
@@ -0,0 +1,122 @@
+// src/lib/orders/status-machine.ts
+// Declared transition graph for order statuses. Server actions enforce it; the UI uses it to
+// offer only legal next states. The Cloud Functions keep a copy of the edges (functions/src/index.ts).
+
+import type { z } from 'zod';
+import type { OrderStatusEnum } from '@/schemas/order';
+import type { Permission } from '@/lib/auth/permissions';
+import type { PaymentStatus } from '@/schemas/payment';
+import { PAID_PAYMENT_STATUSES } from '@/lib/orders/payments';
+
+export type OrderStatus = z.infer<typeof OrderStatusEnum>;
+
+// Work that has to happen when a manual transition is applied
+//  - restock: return the order's items to inventory (done by the Cloud Function's stock sync)
+//  - deduct_stock: take the order's items out of inventory again, backordering what's no longer there
+//  - refund_record: write a document to `refunds` and record a refund of what was paid
+//  - create_shipment: put everything not yet on a shipment onto a new shipment
+export type OrderTransitionEffect = 'restock' | 'deduct_stock' | 'refund_record' | 'create_shipment';
+
+// Facts about the order that guards depend on
+export interface OrderTransitionContext {
+  paymentStatus: PaymentStatus; // From the order's payment records (see getOrderPaymentSummary)
+  shipmentCount: number;
+  hasUnshippedItems: boolean; // Some quantity isn't on any shipment yet
+  hasShippableItems: boolean; // Some of that quantity isn't waiting on a backorder or production
+}
+
+export interface OrderStatusTransition {
+  from: OrderStatus;
+  to: OrderStatus;
+  // Manual transitions are offered to staff. Non-manual ones are only applied by the system
+  // when shipments change (see getOrderStatusUpdate in the logistics actions).
+  manual: boolean;
+  permission?: Permission; // Needed in addition to orders:update_status
+  effects: OrderTransitionEffect[];
+  guard?: (context: OrderTransitionContext) => string | null; // Returns why the transition is blocked
+  label?: string; // Button label in OrderStatusUpdater
+}
+
+// Statuses a new order may start in
+export const INITIAL_ORDER_STATUSES: OrderStatus[] = ['Pending Payment', 'Processing'];
+
+// Once goods are on a shipment the order can no longer simply be cancelled
+const requireNoShipments = (context: OrderTransitionContext): string | null =>
+  context.shipmentCount === 0 ? null : "Orders with shipments can't be cancelled.";
+
+// Refunds need money to have been taken and not already given back
+const requirePriorPayment = (context: OrderTransitionContext): string | null =>
+  PAID_PAYMENT_STATUSES.includes(context.paymentStatus) ? null : "Only orders that have been paid can be refunded.";
+
+export const ORDER_STATUS_TRANSITIONS: OrderStatusTransition[] = [
+  { from: 'Pending Payment', to: 'Processing', manual: true, effects: [], label: 'Start Processing' },
+  { from: 'Pending Payment', to: 'Cancelled', manual: true, permission: 'orders:cancel', effects: ['restock'], guard: requireNoShipments, label: 'Cancel Order' },
+
+  { from: 'Processing', to: 'Pending Payment', manual: true, effects: [], label: 'Back to Pending Payment' },
+  {
+    from: 'Processing', to: 'Shipped', manual: true, permission: 'shipments:create', effects: ['create_shipment'], label: 'Ship Remaining Items',
+    guard: (context) => {
+      if (!context.hasUnshippedItems) return "Every item is already on a shipment; update those shipments instead.";
+      return context.hasShippableItems ? null : "The remaining items are still backordered or being made to order.";
+    },
+  },
+  { from: 'Processing', to: 'Partially Shipped', manual: false, effects: [] },
+  { from: 'Processing', to: 'Delivered', manual: false, effects: [] },
+  { from: 'Processing', to: 'Cancelled', manual: true, permission: 'orders:cancel', effects: ['restock'], guard: requireNoShipments, label: 'Cancel Order' },
+
+  { from: 'Partially Shipped', to: 'Shipped', manual: false, effects: [] },
+  { from: 'Partially Shipped', to: 'Delivered', manual: false, effects: [] },
+  { from: 'Partially Shipped', to: 'Processing', manual: false, effects: [] },
+
+  {
+    from: 'Shipped', to: 'Delivered', manual: true, effects: [], label: 'Mark Delivered',
+    // Orders with shipment documents are marked delivered from the shipment pages
+    guard: (context) => (context.shipmentCount === 0 ? null : "Delivery is recorded on each shipment."),
+  },
+  { from: 'Shipped', to: 'Partially Shipped', manual: false, effects: [] },
+  { from: 'Shipped', to: 'Processing', manual: false, effects: [] },
+
+  { from: 'Delivered', to: 'Shipped', manual: false, effects: [] },
+  { from: 'Delivered', to: 'Partially Shipped', manual: false, effects: [] },
+  { from: 'Delivered', to: 'Refunded', manual: true, permission: 'orders:cancel', effects: ['refund_record'], guard: requirePriorPayment, label: 'Refund Order' },
+
+  {
+    from: 'Cancelled', to: 'Pending Payment', manual: true, permission: 'orders:cancel', effects: ['deduct_stock'], label: 'Reopen Order',
+    guard: (context) => (context.paymentStatus === 'refunded' ? "The payment for this order was refunded, so it can't be reopened." : null),
+  },
+  { from: 'Cancelled', to: 'Refunded', manual: true, permission: 'orders:cancel', effects: ['refund_record'], guard: requirePriorPayment, label: 'Refund Payment' },
+];
+
+export function getOrderStatusTransition(from: string, to: string): OrderStatusTransition | undefined {
+  return ORDER_STATUS_TRANSITIONS.find((transition) => transition.from === from && transition.to === to);
+}
+
+export type OrderTransitionCheck =
+  | { ok: true; transition: OrderStatusTransition }
+  | { ok: false; message: string };
+
+// Validates a transition requested by staff: it must be a declared manual edge whose guard passes
+export function checkManualOrderTransition(from: string, to: string, context: OrderTransitionContext): OrderTransitionCheck {
+  const transition = getOrderStatusTransition(from, to);
+  if (!transition) {
+    return { ok: false, message: `An order can't go from ${from} to ${to}.` };
+  }
+  if (!transition.manual) {
+    return { ok: false, message: `${to} is set automatically from the order's shipments.` };
+  }
+  const blocked = transition.guard?.(context);
+  if (blocked) return { ok: false, message: blocked };
+  return { ok: true, transition };
+}
+
+// System transitions (driven by shipments) only need the edge to exist
+export function isSystemOrderTransitionAllowed(from: string, to: string): boolean {
+  return !!getOrderStatusTransition(from, to);
+}
+
+// Manual next states whose guards pass, for the status controls
+export function getAvailableOrderTransitions(from: string, context: OrderTransitionContext): OrderStatusTransition[] {
+  return ORDER_STATUS_TRANSITIONS.filter(
+    (transition) => transition.from === from && transition.manual && !transition.guard?.(context)
+  );
+}
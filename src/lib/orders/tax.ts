@@ -0,0 +1,78 @@
+// src/lib/orders/tax.ts
+// GST on order lines. The place of supply is the shipping state: when it's the showroom's home state
+// the tax is split equally into CGST and SGST, otherwise the whole amount is IGST. Line values are
+// before tax, so tax is added on top. Used by the order actions (stored) and order forms (preview).
+
+import { INDIAN_STATES, type LineTax, type OrderGst, type SupplyType, type TaxSettings } from '@/schemas/tax';
+
+const roundToPaise = (amount: number) => Math.round(amount * 100) / 100;
+
+const normalizeStateName = (name: string) => name.toLowerCase().replace(/&/g, 'and').replace(/[^a-z]/g, '');
+
+// Matches a free-text state (as typed on the shipping address) or a two-digit state code
+export function resolveStateCode(state: string | undefined): string | undefined {
+  if (!state?.trim()) return undefined;
+  const trimmed = state.trim();
+  if (/^\d{2}$/.test(trimmed)) {
+    return INDIAN_STATES.find((candidate) => candidate.code === trimmed)?.code;
+  }
+  const normalized = normalizeStateName(trimmed);
+  return INDIAN_STATES.find((candidate) => normalizeStateName(candidate.name) === normalized)?.code;
+}
+
+export function getStateName(code: string | undefined): string | undefined {
+  return INDIAN_STATES.find((state) => state.code === code)?.name;
+}
+
+// A shipping state that can't be matched is treated as a local sale
+export function getSupplyType(homeStateCode: string, placeOfSupplyCode: string | undefined): SupplyType {
+  return placeOfSupplyCode && placeOfSupplyCode !== homeStateCode ? 'inter_state' : 'intra_state';
+}
+
+export function calculateLineTax(taxableValue: number, rate: number, supplyType: SupplyType, hsnCode?: string): LineTax {
+  const tax = roundToPaise((taxableValue * rate) / 100);
+  // CGST and SGST are half each; any odd paisa goes to SGST so the two always add up to the full tax
+  const cgst = supplyType === 'intra_state' ? roundToPaise(Math.floor((tax * 100) / 2) / 100) : 0;
+  return {
+    ...(hsnCode && { hsnCode }),
+    rate,
+    taxableValue: roundToPaise(taxableValue),
+    cgst,
+    sgst: supplyType === 'intra_state' ? roundToPaise(tax - cgst) : 0,
+    igst: supplyType === 'inter_state' ? tax : 0,
+  };
+}
+
+export const getLineTaxAmount = (tax: Pick<LineTax, 'cgst' | 'sgst' | 'igst'>) => roundToPaise(tax.cgst + tax.sgst + tax.igst);
+
+interface TaxableLine {
+  taxableValue: number;
+  gstRate?: number; // The item's rate; the default rate from settings if missing
+  hsnCode?: string;
+}
+
+// Taxes every line of an order and sums them. Returns nothing to store when GST hasn't been set up.
+export function calculateOrderGst(
+  lines: TaxableLine[],
+  context: { settings: TaxSettings | null; shippingState?: string; buyerGstin?: string }
+): { lineTaxes: LineTax[]; gst: OrderGst } | null {
+  const { settings } = context;
+  if (!settings) return null;
+  const placeOfSupplyCode = resolveStateCode(context.shippingState);
+  const supplyType = getSupplyType(settings.homeStateCode, placeOfSupplyCode);
+  const lineTaxes = lines.map((line) => calculateLineTax(line.taxableValue, line.gstRate ?? settings.defaultGstRate, supplyType, line.hsnCode));
+  const sum = (field: 'cgst' | 'sgst' | 'igst') => roundToPaise(lineTaxes.reduce((total, tax) => total + tax[field], 0));
+  return {
+    lineTaxes,
+    gst: {
+      supplyType,
+      ...(placeOfSupplyCode && { placeOfSupplyCode }),
+      homeStateCode: settings.homeStateCode,
+      ...(settings.gstin && { sellerGstin: settings.gstin }),
+      ...(context.buyerGstin && { buyerGstin: context.buyerGstin }),
+      cgst: sum('cgst'),
+      sgst: sum('sgst'),
+      igst: sum('igst'),
+    },
+  };
+}
@@ -0,0 +1,101 @@
+// src/lib/promotions/promo-codes.ts
+// Reads for the `promoCodes` collection, plus the usage counters orders keep on each code.
+// Codes are created and changed through the promotions server actions.
+
+import { db, collection, doc, getDoc, getDocs, runTransaction, serverTimestamp, Timestamp } from '@/lib/firebase/firebase';
+import { getPromoCodeProblem } from '@/lib/orders/discounts';
+import type { PromoCode } from '@/schemas/discount';
+
+const roundToPaise = (amount: number) => Math.round(amount * 100) / 100;
+
+// Codes are stored upper-case and used as the document ID
+export const normalizePromoCode = (code: string) => code.trim().toUpperCase();
+
+export function mapPromoCode(id: string, data: Record<string, any>): PromoCode {
+  return {
+    id,
+    code: data.code || id,
+    description: data.description,
+    type: data.type === 'fixed' ? 'fixed' : 'percentage',
+    value: typeof data.value === 'number' ? data.value : 0,
+    validFrom: data.validFrom || undefined,
+    validUntil: data.validUntil || undefined,
+    usageLimit: typeof data.usageLimit === 'number' ? data.usageLimit : undefined,
+    minOrderValue: typeof data.minOrderValue === 'number' ? data.minOrderValue : undefined,
+    active: data.active !== false,
+    timesUsed: typeof data.timesUsed === 'number' ? data.timesUsed : 0,
+    discountGiven: typeof data.discountGiven === 'number' ? data.discountGiven : 0,
+    createdBy: data.createdBy,
+    createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate().toISOString() : undefined,
+    updatedAt: data.updatedAt instanceof Timestamp ? data.updatedAt.toDate().toISOString() : undefined,
+  };
+}
+
+// All promo codes, newest first
+export async function getPromoCodes(): Promise<{ promoCodes: PromoCode[]; error?: string }> {
+  if (!db) return { promoCodes: [], error: "Database initialization failed." };
+  try {
+    const snapshot = await getDocs(collection(db, 'promoCodes'));
+    const promoCodes = snapshot.docs
+      .map((docSnap) => mapPromoCode(docSnap.id, docSnap.data()))
+      .sort((a, b) => (b.createdAt || '').localeCompare(a.createdAt || ''));
+    return { promoCodes };
+  } catch (error) {
+    console.error("Error fetching promo codes:", error);
+    return { promoCodes: [], error: "Failed to load promo codes." };
+  }
+}
+
+export async function getPromoCode(code: string): Promise<{ promoCode: PromoCode | null; error?: string }> {
+  if (!db) return { promoCode: null, error: "Database initialization failed." };
+  const id = normalizePromoCode(code);
+  if (!id || id.includes('/')) return { promoCode: null };
+  try {
+    const docSnap = await getDoc(doc(db, 'promoCodes', id));
+    return { promoCode: docSnap.exists() ? mapPromoCode(docSnap.id, docSnap.data()) : null };
+  } catch (error) {
+    console.error(`Error fetching promo code ${id}:`, error);
+    return { promoCode: null, error: "Failed to load the promo code." };
+  }
+}
+
+// Moves a code's counters; `check` re-validates it first, inside the transaction, so two orders can't
+// both take the last use
+async function changePromoCodeUsage(
+  code: string,
+  change: { uses: number; discount: number; check?: { orderValue: number } }
+): Promise<{ success: boolean; message: string }> {
+  if (!db) return { success: false, message: "Database initialization failed." };
+  const firestore = db;
+  const promoRef = doc(firestore, 'promoCodes', normalizePromoCode(code));
+  try {
+    return await runTransaction(firestore, async (transaction) => {
+      const promoSnap = await transaction.get(promoRef);
+      if (!promoSnap.exists()) return { success: false, message: `Promo code ${normalizePromoCode(code)} doesn't exist.` };
+      const promo = mapPromoCode(promoSnap.id, promoSnap.data());
+      const problem = change.check ? getPromoCodeProblem(promo, change.check.orderValue) : null;
+      if (problem) return { success: false, message: problem };
+      transaction.update(promoRef, {
+        timesUsed: Math.max(0, promo.timesUsed + change.uses),
+        discountGiven: Math.max(0, roundToPaise(promo.discountGiven + change.discount)),
+        updatedAt: serverTimestamp(),
+      });
+      return { success: true, message: "Promo code usage updated." };
+    });
+  } catch (error) {
+    console.error(`Error updating usage of promo code ${code}:`, error);
+    return { success: false, message: "Failed to apply the promo code." };
+  }
+}
+
+// Counts one order's use of a code
+export const redeemPromoCode = (code: string, orderValue: number, discountAmount: number) =>
+  changePromoCodeUsage(code, { uses: 1, discount: discountAmount, check: { orderValue } });
+
+// Gives a use back: the order couldn't be saved, or the code was taken off it
+export const releasePromoCode = (code: string, discountAmount: number) =>
+  changePromoCodeUsage(code, { uses: -1, discount: -discountAmount });
+
+// Keeps the ₹ given total right when an order already using the code changes value
+export const adjustPromoCodeDiscount = (code: string, discountDelta: number) =>
+  changePromoCodeUsage(code, { uses: 0, discount: discountDelta });
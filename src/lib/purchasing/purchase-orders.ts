@@ -0,0 +1,205 @@
+// src/lib/purchasing/purchase-orders.ts
+// Purchase orders and receiving. Goods received against a PO go into stock through 'receipt'
+// movements (see stock-ledger.ts) written in the same transaction as the PO update, and move the
+// item's landed cost: unit cost plus its share of the PO's freight, averaged with the stock on hand.
+
+import { db, collection, doc, getDoc, getDocs, query, where, runTransaction, serverTimestamp, Timestamp } from '@/lib/firebase/firebase';
+import { buildStockMovementData } from '@/lib/inventory/stock-ledger';
+import { applyLocationStockDelta } from '@/lib/inventory/location-stock';
+import type { PurchaseOrder, PurchaseOrderLine, PurchaseOrderStatus, ReceivePurchaseOrderInput } from '@/schemas/purchase-order';
+import type { SessionUser } from '@/schemas/user';
+
+// Statuses goods can still be received in
+export const RECEIVABLE_PO_STATUSES: PurchaseOrderStatus[] = ['Sent', 'Partially Received'];
+
+const toIsoString = (value: unknown): string | undefined =>
+  value instanceof Timestamp ? value.toDate().toISOString() : undefined;
+
+export function mapPurchaseOrder(id: string, data: Record<string, any>): PurchaseOrder {
+  return {
+    id,
+    supplierId: data.supplierId,
+    supplierName: data.supplierName || 'Unknown supplier',
+    status: data.status,
+    items: (data.items || []).map((item: any) => ({
+      inventoryId: item.inventoryId,
+      name: item.name,
+      sku: item.sku,
+      supplierSku: item.supplierSku,
+      quantityOrdered: typeof item.quantityOrdered === 'number' ? item.quantityOrdered : 0,
+      quantityReceived: typeof item.quantityReceived === 'number' ? item.quantityReceived : 0,
+      unitCost: typeof item.unitCost === 'number' ? item.unitCost : 0,
+    })),
+    freightCost: typeof data.freightCost === 'number' ? data.freightCost : 0,
+    subtotal: typeof data.subtotal === 'number' ? data.subtotal : 0,
+    expectedDate: toIsoString(data.expectedDate),
+    notes: data.notes,
+    receipts: (data.receipts || []).map((receipt: any) => ({
+      receivedAt: toIsoString(receipt.receivedAt) || new Date().toISOString(),
+      receivedBy: receipt.receivedBy,
+      lines: receipt.lines || [],
+      locationId: receipt.locationId,
+      note: receipt.note,
+    })),
+    createdAt: toIsoString(data.createdAt) || new Date().toISOString(),
+    updatedAt: toIsoString(data.updatedAt),
+    sentAt: toIsoString(data.sentAt),
+    closedAt: toIsoString(data.closedAt),
+    createdBy: data.createdBy,
+    updatedBy: data.updatedBy,
+  };
+}
+
+// Newest first; optionally one supplier's. Equality-only query so no composite index is needed.
+export async function getPurchaseOrders(supplierId?: string): Promise<{ purchaseOrders: PurchaseOrder[]; error?: string }> {
+  if (!db) return { purchaseOrders: [], error: "Database initialization failed." };
+  try {
+    const poCollection = collection(db, 'purchaseOrders');
+    const snapshot = await getDocs(supplierId ? query(poCollection, where('supplierId', '==', supplierId)) : poCollection);
+    const purchaseOrders = snapshot.docs
+      .map((docSnap) => mapPurchaseOrder(docSnap.id, docSnap.data()))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    return { purchaseOrders };
+  } catch (error) {
+    console.error("Error fetching purchase orders:", error);
+    return { purchaseOrders: [], error: "Failed to load purchase orders." };
+  }
+}
+
+export async function getPurchaseOrder(poId: string): Promise<{ purchaseOrder: PurchaseOrder | null; error?: string }> {
+  if (!db) return { purchaseOrder: null, error: "Database initialization failed." };
+  try {
+    const docSnap = await getDoc(doc(db, 'purchaseOrders', poId));
+    return { purchaseOrder: docSnap.exists() ? mapPurchaseOrder(docSnap.id, docSnap.data()) : null };
+  } catch (error) {
+    console.error(`Error fetching purchase order ${poId}:`, error);
+    return { purchaseOrder: null, error: "Failed to load the purchase order." };
+  }
+}
+
+export function getOutstandingQuantity(line: Pick<PurchaseOrderLine, 'quantityOrdered' | 'quantityReceived'>): number {
+  return Math.max(0, line.quantityOrdered - line.quantityReceived);
+}
+
+// Unit cost plus the line's share of freight, spread over the PO by value
+export function getLandedUnitCost(unitCost: number, subtotal: number, freightCost: number): number {
+  if (subtotal <= 0) return unitCost;
+  return unitCost * (1 + freightCost / subtotal);
+}
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+// Records a delivery against a PO: adds the units to stock at the receiving location, updates landed cost and the PO's
+// received quantities and status. Quantities above what is still outstanding are refused.
+export async function receivePurchaseOrder(
+  poId: string,
+  input: ReceivePurchaseOrderInput,
+  actor: SessionUser
+): Promise<{ success: boolean; message: string; status?: PurchaseOrderStatus; before?: Record<string, any>; after?: Record<string, any> }> {
+  if (!db) return { success: false, message: "Database initialization failed." };
+  const firestore = db;
+  const receivedLines = input.lines.filter((line) => line.quantity > 0);
+  // Each line is checked and written on its own, so a repeated item would be received twice from one snapshot
+  if (new Set(receivedLines.map((line) => line.inventoryId)).size !== receivedLines.length) {
+    return { success: false, message: "Each item can only be listed once on a delivery." };
+  }
+
+  try {
+    return await runTransaction(firestore, async (transaction) => {
+      const poRef = doc(firestore, 'purchaseOrders', poId);
+      const poSnap = await transaction.get(poRef);
+      if (!poSnap.exists()) {
+        return { success: false, message: `Purchase order ${poId} not found.` };
+      }
+      const poData = poSnap.data();
+      if (!RECEIVABLE_PO_STATUSES.includes(poData.status)) {
+        return { success: false, message: `Goods can't be received on a ${poData.status} purchase order.` };
+      }
+
+      const items: any[] = poData.items || [];
+      for (const received of receivedLines) {
+        const line = items.find((item) => item.inventoryId === received.inventoryId);
+        if (!line) {
+          return { success: false, message: `Item ${received.inventoryId} is not on this purchase order.` };
+        }
+        const outstanding = getOutstandingQuantity(line);
+        if (received.quantity > outstanding) {
+          return { success: false, message: `Only ${outstanding} of ${line.name} still to receive (entered ${received.quantity}).` };
+        }
+      }
+
+      const itemSnaps = await Promise.all(receivedLines.map((line) => transaction.get(doc(firestore, 'inventory', line.inventoryId))));
+      const missing = itemSnaps.findIndex((itemSnap) => !itemSnap.exists());
+      if (missing !== -1) {
+        return { success: false, message: `Inventory item ${receivedLines[missing].inventoryId} no longer exists.` };
+      }
+
+      const subtotal = typeof poData.subtotal === 'number' ? poData.subtotal : 0;
+      const freightCost = typeof poData.freightCost === 'number' ? poData.freightCost : 0;
+      receivedLines.forEach((received, index) => {
+        const itemData = itemSnaps[index].data()!;
+        const line = items.find((item) => item.inventoryId === received.inventoryId);
+        const stockBefore = Number.isInteger(itemData.stock) ? itemData.stock : 0;
+        const levels = applyLocationStockDelta(itemData, input.locationId, received.quantity);
+
+        // Moving average over what was on hand and what just arrived
+        const receivedCost = getLandedUnitCost(line.unitCost, subtotal, freightCost);
+        const onHand = Math.max(stockBefore, 0);
+        const landedCost = typeof itemData.landedCost === 'number' && onHand > 0
+          ? (itemData.landedCost * onHand + receivedCost * received.quantity) / (onHand + received.quantity)
+          : receivedCost;
+
+        transaction.update(doc(firestore, 'inventory', received.inventoryId), {
+          ...levels,
+          landedCost: roundCurrency(landedCost),
+          updatedBy: actor.id,
+          updatedAt: serverTimestamp(),
+        });
+        transaction.set(doc(collection(firestore, 'stockMovements')), buildStockMovementData({
+          inventoryId: received.inventoryId,
+          type: 'receipt',
+          quantity: received.quantity,
+          actor,
+          locationId: input.locationId,
+          purchaseOrderId: poId,
+          note: input.note,
+        }, stockBefore, levels.stock));
+      });
+
+      const updatedItems = items.map((item) => {
+        const received = receivedLines.find((line) => line.inventoryId === item.inventoryId);
+        return received ? { ...item, quantityReceived: (item.quantityReceived || 0) + received.quantity } : item;
+      });
+      const status: PurchaseOrderStatus = updatedItems.every((item) => getOutstandingQuantity(item) === 0) ? 'Received' : 'Partially Received';
+      const after = {
+        items: updatedItems,
+        status,
+        receipts: [
+          ...(poData.receipts || []),
+          {
+            receivedAt: Timestamp.now(),
+            receivedBy: { id: actor.id, name: actor.name, role: actor.role },
+            lines: receivedLines,
+            locationId: input.locationId,
+            ...(input.note?.trim() && { note: input.note.trim() }),
+          },
+        ],
+        updatedBy: { id: actor.id, name: actor.name, role: actor.role },
+        updatedAt: serverTimestamp(),
+      };
+      transaction.update(poRef, after);
+
+      const units = receivedLines.reduce((sum, line) => sum + line.quantity, 0);
+      return {
+        success: true,
+        message: `Received ${units} unit(s); the purchase order is now ${status}.`,
+        status,
+        before: poData,
+        after,
+      };
+    });
+  } catch (error) {
+    console.error(`Error receiving purchase order ${poId}:`, error);
+    return { success: false, message: "Failed to record the receipt due to a database error." };
+  }
+}
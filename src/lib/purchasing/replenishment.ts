@@ -0,0 +1,174 @@
+// src/lib/purchasing/replenishment.ts
+// Reorder suggestions. An item needs reordering when its stock position - available stock plus units
+// still to arrive on open purchase orders, less units owed to backordered customer lines - is at or
+// below its reorder point. Items without a set reorder point get one from sales velocity: the units
+// expected to sell over the lead time plus a few days of safety stock.
+
+import { db, collection, getDocs, Timestamp } from '@/lib/firebase/firebase';
+import { DEFAULT_REORDER_POINT } from '@/lib/inventory/reorder';
+import { getLineFulfillmentState } from '@/lib/orders/backorders';
+import { getOutstandingQuantity, mapPurchaseOrder } from '@/lib/purchasing/purchase-orders';
+import type { Order } from '@/schemas/order';
+import type { PurchaseOrderStatus } from '@/schemas/purchase-order';
+
+// Sales over this many days set the velocity
+export const SALES_VELOCITY_WINDOW_DAYS = 90;
+// Used when an item has no lead time in days
+export const DEFAULT_REPLENISHMENT_LEAD_TIME_DAYS = 14;
+// Extra days of sales kept in hand against late deliveries or a busy spell
+const SAFETY_STOCK_DAYS = 7;
+// Without a reorder quantity, buy this many days of sales at a time
+const REORDER_COVER_DAYS = 30;
+
+// Orders that never turned into sales don't count towards velocity
+const NON_SALE_ORDER_STATUSES: Order['status'][] = ['Cancelled', 'Refunded'];
+// Orders whose backordered lines still wait on supply
+const OPEN_ORDER_STATUSES: Order['status'][] = ['Pending Payment', 'Processing', 'Partially Shipped'];
+// Units on these POs are counted as on order (drafts too, so a second draft isn't suggested)
+const ON_ORDER_PO_STATUSES: PurchaseOrderStatus[] = ['Draft', 'Sent', 'Partially Received'];
+
+export interface ReplenishmentSuggestion {
+  inventoryId: string;
+  name: string;
+  sku: string;
+  supplierId?: string;
+  supplierSku?: string;
+  stock: number;
+  onOrder: number;
+  backordered: number;
+  position: number;
+  dailyVelocity: number;
+  leadTimeDays: number;
+  reorderPoint: number;
+  reorderPointSource: 'item' | 'velocity' | 'default';
+  suggestedQuantity: number;
+  estimatedUnitCost: number; // Last price paid, else landed cost, else 0
+  daysOfCover: number | null; // Days the stock position lasts at the current velocity; null with no sales
+}
+
+interface ItemStockFacts {
+  stock: number;
+  onOrder: number;
+  backordered: number;
+  unitsSold: number;
+  reorderPoint?: number;
+  reorderQuantity?: number;
+  leadTimeDays?: number;
+}
+
+// The suggestion numbers for one item, or null when it doesn't need reordering
+export function getReorderSuggestion(facts: ItemStockFacts): Omit<ReplenishmentSuggestion, 'inventoryId' | 'name' | 'sku' | 'supplierId' | 'supplierSku' | 'estimatedUnitCost'> | null {
+  const dailyVelocity = facts.unitsSold / SALES_VELOCITY_WINDOW_DAYS;
+  const leadTimeDays = typeof facts.leadTimeDays === 'number' ? facts.leadTimeDays : DEFAULT_REPLENISHMENT_LEAD_TIME_DAYS;
+  const position = facts.stock + facts.onOrder - facts.backordered;
+
+  let reorderPoint: number;
+  let reorderPointSource: ReplenishmentSuggestion['reorderPointSource'];
+  if (typeof facts.reorderPoint === 'number') {
+    reorderPoint = facts.reorderPoint;
+    reorderPointSource = 'item';
+  } else if (dailyVelocity > 0) {
+    reorderPoint = Math.ceil(dailyVelocity * (leadTimeDays + SAFETY_STOCK_DAYS));
+    reorderPointSource = 'velocity';
+  } else {
+    reorderPoint = DEFAULT_REORDER_POINT;
+    reorderPointSource = 'default';
+  }
+  if (position > reorderPoint) return null;
+
+  const batchQuantity = facts.reorderQuantity ?? Math.max(1, Math.ceil(dailyVelocity * REORDER_COVER_DAYS));
+  // Never less than what lifts the position back above the reorder point
+  const suggestedQuantity = Math.max(batchQuantity, reorderPoint - position + 1);
+
+  return {
+    stock: facts.stock,
+    onOrder: facts.onOrder,
+    backordered: facts.backordered,
+    position,
+    dailyVelocity,
+    leadTimeDays,
+    reorderPoint,
+    reorderPointSource,
+    suggestedQuantity,
+    daysOfCover: dailyVelocity > 0 ? Math.max(0, position) / dailyVelocity : null,
+  };
+}
+
+// Everything that needs reordering, most urgent (least cover, then furthest below its point) first
+export async function getReplenishmentSuggestions(): Promise<{ suggestions: ReplenishmentSuggestion[]; error?: string }> {
+  if (!db) return { suggestions: [], error: "Database initialization failed." };
+  try {
+    const [inventorySnapshot, ordersSnapshot, poSnapshot] = await Promise.all([
+      getDocs(collection(db, 'inventory')),
+      getDocs(collection(db, 'orders')),
+      getDocs(collection(db, 'purchaseOrders')),
+    ]);
+
+    const windowStart = Date.now() - SALES_VELOCITY_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+    const unitsSold = new Map<string, number>();
+    const backordered = new Map<string, number>();
+    ordersSnapshot.forEach((orderDoc) => {
+      const order = orderDoc.data();
+      if (NON_SALE_ORDER_STATUSES.includes(order.status)) return;
+      const createdAt = order.createdAt instanceof Timestamp ? order.createdAt.toMillis() : 0;
+      const isOpen = OPEN_ORDER_STATUSES.includes(order.status);
+      (order.items || []).forEach((line: { doorId?: string; quantity?: number; backorderedQuantity?: number; fulfillmentState?: string }) => {
+        if (!line.doorId || typeof line.quantity !== 'number') return;
+        if (createdAt >= windowStart) {
+          unitsSold.set(line.doorId, (unitsSold.get(line.doorId) || 0) + line.quantity);
+        }
+        // Made-to-order lines are produced, not bought, so only stock backorders add demand
+        if (isOpen && getLineFulfillmentState({ ...line, quantity: line.quantity }) === 'backordered') {
+          backordered.set(line.doorId, (backordered.get(line.doorId) || 0) + Math.min(line.backorderedQuantity || 0, line.quantity));
+        }
+      });
+    });
+
+    const onOrder = new Map<string, number>();
+    const lastUnitCost = new Map<string, { cost: number; at: string }>();
+    poSnapshot.forEach((poDoc) => {
+      const po = mapPurchaseOrder(poDoc.id, poDoc.data());
+      po.items.forEach((line) => {
+        if (ON_ORDER_PO_STATUSES.includes(po.status)) {
+          onOrder.set(line.inventoryId, (onOrder.get(line.inventoryId) || 0) + getOutstandingQuantity(line));
+        }
+        const previous = lastUnitCost.get(line.inventoryId);
+        if (po.status !== 'Cancelled' && (!previous || po.createdAt > previous.at)) {
+          lastUnitCost.set(line.inventoryId, { cost: line.unitCost, at: po.createdAt });
+        }
+      });
+    });
+
+    const suggestions: ReplenishmentSuggestion[] = [];
+    inventorySnapshot.forEach((itemDoc) => {
+      const data = itemDoc.data();
+      const numbers = getReorderSuggestion({
+        stock: typeof data.stock === 'number' ? data.stock : 0,
+        onOrder: onOrder.get(itemDoc.id) || 0,
+        backordered: backordered.get(itemDoc.id) || 0,
+        unitsSold: unitsSold.get(itemDoc.id) || 0,
+        reorderPoint: typeof data.reorderPoint === 'number' ? data.reorderPoint : undefined,
+        reorderQuantity: typeof data.reorderQuantity === 'number' ? data.reorderQuantity : undefined,
+        leadTimeDays: typeof data.leadTimeDays === 'number' ? data.leadTimeDays : undefined,
+      });
+      if (!numbers) return;
+      suggestions.push({
+        inventoryId: itemDoc.id,
+        name: data.name || 'Unknown',
+        sku: data.sku || '',
+        supplierId: data.supplierId || undefined,
+        supplierSku: data.supplierSku || undefined,
+        estimatedUnitCost: lastUnitCost.get(itemDoc.id)?.cost ?? (typeof data.landedCost === 'number' ? data.landedCost : 0),
+        ...numbers,
+      });
+    });
+
+    suggestions.sort((a, b) =>
+      (a.daysOfCover ?? Infinity) - (b.daysOfCover ?? Infinity) || (a.position - a.reorderPoint) - (b.position - b.reorderPoint)
+    );
+    return { suggestions };
+  } catch (error) {
+    console.error("Error building replenishment suggestions:", error);
+    return { suggestions: [], error: "Failed to work out replenishment suggestions." };
+  }
+}
@@ -0,0 +1,48 @@
+// src/lib/purchasing/suppliers.ts
+// Reads for the `suppliers` collection. Writes go through the purchasing server actions.
+
+import { db, collection, doc, getDoc, getDocs, Timestamp } from '@/lib/firebase/firebase';
+import type { Supplier } from '@/schemas/supplier';
+
+export function mapSupplier(id: string, data: Record<string, any>): Supplier {
+  return {
+    id,
+    name: data.name || 'Unnamed supplier',
+    contactName: data.contactName,
+    email: data.email,
+    phone: data.phone,
+    address: data.address,
+    paymentTerms: data.paymentTerms,
+    notes: data.notes,
+    createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate().toISOString() : undefined,
+    updatedAt: data.updatedAt instanceof Timestamp ? data.updatedAt.toDate().toISOString() : undefined,
+    createdBy: data.createdBy,
+    updatedBy: data.updatedBy,
+  };
+}
+
+// All suppliers, by name
+export async function getSuppliers(): Promise<{ suppliers: Supplier[]; error?: string }> {
+  if (!db) return { suppliers: [], error: "Database initialization failed." };
+  try {
+    const snapshot = await getDocs(collection(db, 'suppliers'));
+    const suppliers = snapshot.docs
+      .map((docSnap) => mapSupplier(docSnap.id, docSnap.data()))
+      .sort((a, b) => a.name.localeCompare(b.name));
+    return { suppliers };
+  } catch (error) {
+    console.error("Error fetching suppliers:", error);
+    return { suppliers: [], error: "Failed to load suppliers." };
+  }
+}
+
+export async function getSupplier(supplierId: string): Promise<{ supplier: Supplier | null; error?: string }> {
+  if (!db) return { supplier: null, error: "Database initialization failed." };
+  try {
+    const docSnap = await getDoc(doc(db, 'suppliers', supplierId));
+    return { supplier: docSnap.exists() ? mapSupplier(docSnap.id, docSnap.data()) : null };
+  } catch (error) {
+    console.error(`Error fetching supplier ${supplierId}:`, error);
+    return { supplier: null, error: "Failed to load the supplier." };
+  }
+}
@@ -0,0 +1,191 @@
+// src/lib/reports/gstr1.ts
+// Outward supplies for a month, laid out like GSTR-1: B2B invoices (buyer has a GSTIN), large
+// inter-state B2C invoices (B2CL), other B2C sales summed by place of supply and rate (B2CS), and an
+// HSN-wise summary. Built from the GST stored on each order when it was saved; orders saved before
+// GST was set up are counted but left out of the figures.
+
+import { db, collection, getDocs, query, where, Timestamp } from '@/lib/firebase/firebase';
+import type { LineTax, OrderGst } from '@/schemas/tax';
+import type { Order } from '@/schemas/order';
+
+// Inter-state B2C invoices above this value are reported one by one (B2CL)
+export const B2CL_INVOICE_THRESHOLD = 100000;
+
+// Orders that never became a sale aren't outward supplies
+const NON_SUPPLY_ORDER_STATUSES: Order['status'][] = ['Cancelled', 'Refunded'];
+
+const roundToPaise = (amount: number) => Math.round(amount * 100) / 100;
+
+export interface Gstr1TaxAmounts {
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+}
+
+export interface Gstr1RateRow extends Gstr1TaxAmounts {
+  rate: number;
+}
+
+export interface Gstr1Invoice {
+  orderId: string;
+  invoiceDate: string; // ISO string
+  customerName: string;
+  buyerGstin?: string;
+  placeOfSupplyCode?: string;
+  invoiceValue: number; // Grand total, shipping included
+  rates: Gstr1RateRow[];
+}
+
+export interface Gstr1B2csRow extends Gstr1RateRow {
+  placeOfSupplyCode?: string;
+  supplyType: OrderGst['supplyType'];
+}
+
+export interface Gstr1HsnRow extends Gstr1TaxAmounts {
+  hsnCode?: string;
+  quantity: number;
+}
+
+export interface Gstr1Report {
+  period: string; // YYYY-MM
+  b2b: Gstr1Invoice[];
+  b2cl: Gstr1Invoice[];
+  b2cs: Gstr1B2csRow[];
+  hsn: Gstr1HsnRow[];
+  totals: Gstr1TaxAmounts;
+  discountTotal: number; // Line, order and promo code discounts already taken out of the taxable value
+  untaxedOrderCount: number;
+}
+
+const emptyAmounts = (): Gstr1TaxAmounts => ({ taxableValue: 0, cgst: 0, sgst: 0, igst: 0 });
+
+function addTax(target: Gstr1TaxAmounts, tax: Gstr1TaxAmounts) {
+  target.taxableValue = roundToPaise(target.taxableValue + tax.taxableValue);
+  target.cgst = roundToPaise(target.cgst + tax.cgst);
+  target.sgst = roundToPaise(target.sgst + tax.sgst);
+  target.igst = roundToPaise(target.igst + tax.igst);
+}
+
+// Reads `YYYY-MM`; anything else falls back to the current month
+export function parseReportPeriod(period: string | undefined): { period: string; start: Date; end: Date } {
+  const match = period?.match(/^(\d{4})-(0[1-9]|1[0-2])$/);
+  const now = new Date();
+  const year = match ? Number(match[1]) : now.getFullYear();
+  const month = match ? Number(match[2]) - 1 : now.getMonth();
+  return {
+    period: `${year}-${String(month + 1).padStart(2, '0')}`,
+    start: new Date(year, month, 1),
+    end: new Date(year, month + 1, 1),
+  };
+}
+
+interface TaxedOrder {
+  id: string;
+  orderDate: string;
+  customerName: string;
+  invoiceValue: number;
+  gst: OrderGst;
+  discountTotal: number;
+  lines: { quantity: number; tax: LineTax }[];
+}
+
+// Sorts one month's taxed orders into the GSTR-1 tables
+export function buildGstr1Report(period: string, orders: TaxedOrder[], untaxedOrderCount: number): Gstr1Report {
+  const b2b: Gstr1Invoice[] = [];
+  const b2cl: Gstr1Invoice[] = [];
+  const b2cs = new Map<string, Gstr1B2csRow>();
+  const hsn = new Map<string, Gstr1HsnRow>();
+  const totals = emptyAmounts();
+  let discountTotal = 0;
+
+  orders.forEach((order) => {
+    discountTotal = roundToPaise(discountTotal + order.discountTotal);
+    const rates = new Map<number, Gstr1RateRow>();
+    order.lines.forEach(({ quantity, tax }) => {
+      const rateRow = rates.get(tax.rate) || { rate: tax.rate, ...emptyAmounts() };
+      addTax(rateRow, tax);
+      rates.set(tax.rate, rateRow);
+
+      const hsnKey = tax.hsnCode || '';
+      const hsnRow = hsn.get(hsnKey) || { ...(tax.hsnCode && { hsnCode: tax.hsnCode }), quantity: 0, ...emptyAmounts() };
+      hsnRow.quantity += quantity;
+      addTax(hsnRow, tax);
+      hsn.set(hsnKey, hsnRow);
+
+      addTax(totals, tax);
+    });
+
+    const invoice: Gstr1Invoice = {
+      orderId: order.id,
+      invoiceDate: order.orderDate,
+      customerName: order.customerName,
+      ...(order.gst.buyerGstin && { buyerGstin: order.gst.buyerGstin }),
+      ...(order.gst.placeOfSupplyCode && { placeOfSupplyCode: order.gst.placeOfSupplyCode }),
+      invoiceValue: order.invoiceValue,
+      rates: [...rates.values()].sort((a, b) => a.rate - b.rate),
+    };
+    if (order.gst.buyerGstin) {
+      b2b.push(invoice);
+    } else if (order.gst.supplyType === 'inter_state' && order.invoiceValue > B2CL_INVOICE_THRESHOLD) {
+      b2cl.push(invoice);
+    } else {
+      invoice.rates.forEach((rateRow) => {
+        const key = `${order.gst.placeOfSupplyCode || ''}|${rateRow.rate}`;
+        const row = b2cs.get(key) || { placeOfSupplyCode: order.gst.placeOfSupplyCode, supplyType: order.gst.supplyType, rate: rateRow.rate, ...emptyAmounts() };
+        addTax(row, rateRow);
+        b2cs.set(key, row);
+      });
+    }
+  });
+
+  const byDate = (a: Gstr1Invoice, b: Gstr1Invoice) => a.invoiceDate.localeCompare(b.invoiceDate);
+  return {
+    period,
+    b2b: b2b.sort(byDate),
+    b2cl: b2cl.sort(byDate),
+    b2cs: [...b2cs.values()].sort((a, b) => (a.placeOfSupplyCode || '').localeCompare(b.placeOfSupplyCode || '') || a.rate - b.rate),
+    hsn: [...hsn.values()].sort((a, b) => (a.hsnCode || '~').localeCompare(b.hsnCode || '~')),
+    totals,
+    discountTotal,
+    untaxedOrderCount,
+  };
+}
+
+export async function getGstr1Report(periodParam: string | undefined): Promise<{ report: Gstr1Report | null; error?: string }> {
+  if (!db) return { report: null, error: "Database initialization failed." };
+  const { period, start, end } = parseReportPeriod(periodParam);
+  try {
+    const ordersSnapshot = await getDocs(query(
+      collection(db, 'orders'),
+      where('orderDate', '>=', Timestamp.fromDate(start)),
+      where('orderDate', '<', Timestamp.fromDate(end))
+    ));
+
+    const orders: TaxedOrder[] = [];
+    let untaxedOrderCount = 0;
+    ordersSnapshot.forEach((orderDoc) => {
+      const data = orderDoc.data();
+      if (NON_SUPPLY_ORDER_STATUSES.includes(data.status)) return;
+      const lines = (data.items || []).filter((line: { tax?: LineTax }) => line.tax);
+      if (!data.gst || lines.length === 0) {
+        untaxedOrderCount += 1;
+        return;
+      }
+      orders.push({
+        id: orderDoc.id,
+        orderDate: data.orderDate instanceof Timestamp ? data.orderDate.toDate().toISOString() : start.toISOString(),
+        customerName: data.shippingInfo?.name || 'N/A',
+        invoiceValue: typeof data.totalAmount === 'number' ? data.totalAmount : 0,
+        gst: data.gst,
+        discountTotal: typeof data.totals?.discountTotal === 'number' ? data.totals.discountTotal : 0,
+        lines: lines.map((line: { quantity?: number; tax: LineTax }) => ({ quantity: line.quantity || 0, tax: line.tax })),
+      });
+    });
+
+    return { report: buildGstr1Report(period, orders, untaxedOrderCount) };
+  } catch (error) {
+    console.error(`Error building the GSTR-1 report for ${period}:`, error);
+    return { report: null, error: "Failed to build the GST report." };
+  }
+}
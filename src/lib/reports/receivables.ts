@@ -0,0 +1,141 @@
+// src/lib/reports/receivables.ts
+// Aged receivables: what customers still owe on their orders, grouped by customer and by how far past
+// its due date each invoice is. An invoice on a trade account falls due on the date stored with it; any
+// other invoice is due on its invoice date. Orders not invoiced yet are shown apart, since they aren't
+// due. Orders still waiting on payment before they go ahead aren't receivables, and cancelled and
+// refunded orders owe nothing.
+
+import { db, collection, getDocs, Timestamp } from '@/lib/firebase/firebase';
+import { mapCustomer } from '@/lib/customers/customers';
+import { getOrderPaymentSummary } from '@/lib/orders/payments';
+import type { PaymentTerms } from '@/schemas/customer';
+
+const NOT_RECEIVABLE_ORDER_STATUSES = ['Pending Payment', 'Cancelled', 'Refunded'];
+
+export const AGING_BUCKETS = ['not_invoiced', 'current', 'days_1_30', 'days_31_60', 'days_61_90', 'days_over_90'] as const;
+
+export type AgingBucket = (typeof AGING_BUCKETS)[number];
+
+export const AGING_BUCKET_LABELS: Record<AgingBucket, string> = {
+  not_invoiced: 'Not Invoiced',
+  current: 'Current',
+  days_1_30: '1–30 Days',
+  days_31_60: '31–60 Days',
+  days_61_90: '61–90 Days',
+  days_over_90: 'Over 90 Days',
+};
+
+const roundToPaise = (amount: number) => Math.round(amount * 100) / 100;
+
+const IST_OFFSET_MS = 330 * 60 * 1000; // Days are counted in Indian time, like invoice dates
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// yyyy-mm-dd in Indian time
+function toLocalDate(value: unknown): string | undefined {
+  const date = value instanceof Timestamp ? value.toDate() : typeof value === 'string' ? new Date(value) : null;
+  if (!date || isNaN(date.getTime())) return undefined;
+  return new Date(date.getTime() + IST_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+export function getAgingBucket(daysOverdue: number | undefined): AgingBucket {
+  if (daysOverdue === undefined) return 'not_invoiced';
+  if (daysOverdue <= 0) return 'current';
+  if (daysOverdue <= 30) return 'days_1_30';
+  if (daysOverdue <= 60) return 'days_31_60';
+  if (daysOverdue <= 90) return 'days_61_90';
+  return 'days_over_90';
+}
+
+const emptyBuckets = (): Record<AgingBucket, number> =>
+  Object.fromEntries(AGING_BUCKETS.map((bucket) => [bucket, 0])) as Record<AgingBucket, number>;
+
+export interface ReceivableOrder {
+  orderId: string;
+  orderDate: string; // ISO string
+  status: string;
+  invoiceNumber?: string;
+  dueDate?: string; // yyyy-mm-dd; not set until invoiced
+  daysOverdue?: number;
+  bucket: AgingBucket;
+  balanceDue: number;
+}
+
+export interface ReceivableAccount {
+  key: string; // The customer ID, or the order's customer name for orders without a customer
+  customerId?: string;
+  name: string;
+  paymentTerms?: PaymentTerms;
+  creditLimit?: number;
+  orders: ReceivableOrder[]; // Oldest due first
+  buckets: Record<AgingBucket, number>;
+  total: number;
+}
+
+export interface AgedReceivablesReport {
+  asOf: string; // yyyy-mm-dd
+  accounts: ReceivableAccount[]; // Most owed first
+  buckets: Record<AgingBucket, number>;
+  total: number;
+}
+
+export async function getAgedReceivables(): Promise<{ report: AgedReceivablesReport | null; error?: string }> {
+  if (!db) return { report: null, error: "Database initialization failed." };
+  const asOf = new Date(Date.now() + IST_OFFSET_MS).toISOString().slice(0, 10); // Today
+  try {
+    const [ordersSnapshot, customersSnapshot] = await Promise.all([getDocs(collection(db, 'orders')), getDocs(collection(db, 'customers'))]);
+    const customers = new Map(customersSnapshot.docs.map((docSnap) => [docSnap.id, mapCustomer(docSnap.id, docSnap.data())]));
+    const accounts = new Map<string, ReceivableAccount>();
+    const buckets = emptyBuckets();
+
+    ordersSnapshot.forEach((orderDoc) => {
+      const data = orderDoc.data();
+      if (NOT_RECEIVABLE_ORDER_STATUSES.includes(data.status)) return;
+      const { balanceDue } = getOrderPaymentSummary(data);
+      if (balanceDue <= 0) return;
+
+      const dueDate: string | undefined = data.invoice?.number ? data.invoice.dueDate ?? toLocalDate(data.invoice.issuedAt) : undefined;
+      const daysOverdue = dueDate ? Math.round((Date.parse(asOf) - Date.parse(dueDate)) / DAY_MS) : undefined;
+      const bucket = getAgingBucket(daysOverdue);
+
+      const customer = data.customerId ? customers.get(data.customerId) : undefined;
+      const name: string = customer?.name || data.shippingInfo?.name || 'Unknown customer';
+      const key = customer?.id ?? `name:${name.trim().toLowerCase()}`;
+      const account = accounts.get(key) || {
+        key,
+        name,
+        ...(customer && { customerId: customer.id, paymentTerms: customer.paymentTerms, creditLimit: customer.creditLimit }),
+        orders: [],
+        buckets: emptyBuckets(),
+        total: 0,
+      };
+      account.orders.push({
+        orderId: orderDoc.id,
+        orderDate: data.orderDate instanceof Timestamp ? data.orderDate.toDate().toISOString() : new Date(0).toISOString(),
+        status: data.status || 'Unknown',
+        ...(data.invoice?.number && { invoiceNumber: data.invoice.number }),
+        ...(dueDate && { dueDate, daysOverdue }),
+        bucket,
+        balanceDue,
+      });
+      account.buckets[bucket] = roundToPaise(account.buckets[bucket] + balanceDue);
+      account.total = roundToPaise(account.total + balanceDue);
+      accounts.set(key, account);
+      buckets[bucket] = roundToPaise(buckets[bucket] + balanceDue);
+    });
+
+    const sortedAccounts = [...accounts.values()]
+      .map((account) => ({ ...account, orders: account.orders.sort((a, b) => (b.daysOverdue ?? -Infinity) - (a.daysOverdue ?? -Infinity) || a.orderDate.localeCompare(b.orderDate)) }))
+      .sort((a, b) => b.total - a.total);
+    return {
+      report: {
+        asOf,
+        accounts: sortedAccounts,
+        buckets,
+        total: roundToPaise(sortedAccounts.reduce((sum, account) => sum + account.total, 0)),
+      },
+    };
+  } catch (error) {
+    console.error("Error building the aged receivables report:", error);
+    return { report: null, error: "Failed to build the receivables report." };
+  }
+}
@@ -0,0 +1,35 @@
+// src/lib/settings/branding-settings.ts
+// Reads the letterhead for order documents from `settings/branding`. Writes go through the settings
+// server actions. Until it's saved, documents are printed with DEFAULT_BRANDING.
+
+import { db, doc, getDoc, Timestamp } from '@/lib/firebase/firebase';
+import { BrandingSettingsSchema, type BrandingSettings } from '@/schemas/document';
+
+export const DEFAULT_BRANDING: BrandingSettings = {
+  companyName: 'Showroom Manager',
+  accentColor: '#1f2937',
+};
+
+export async function getBrandingSettings(): Promise<{ settings: BrandingSettings | null; error?: string }> {
+  if (!db) return { settings: null, error: "Database initialization failed." };
+  try {
+    const docSnap = await getDoc(doc(db, 'settings', 'branding'));
+    if (!docSnap.exists()) return { settings: null };
+    const data = docSnap.data();
+    const parsed = BrandingSettingsSchema.safeParse(data);
+    if (!parsed.success) {
+      console.warn("Stored branding settings are invalid:", parsed.error.flatten().fieldErrors);
+      return { settings: null, error: "The saved branding settings are invalid; save them again." };
+    }
+    return {
+      settings: {
+        ...parsed.data,
+        updatedAt: data.updatedAt instanceof Timestamp ? data.updatedAt.toDate().toISOString() : undefined,
+        updatedBy: data.updatedBy,
+      },
+    };
+  } catch (error) {
+    console.error("Error fetching branding settings:", error);
+    return { settings: null, error: "Failed to load branding settings." };
+  }
+}
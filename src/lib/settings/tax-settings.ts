@@ -0,0 +1,30 @@
+// src/lib/settings/tax-settings.ts
+// Reads the showroom's tax settings from `settings/tax`. Writes go through the settings server actions.
+// Until the home state is saved, orders are stored without GST.
+
+import { db, doc, getDoc, Timestamp } from '@/lib/firebase/firebase';
+import { TaxSettingsSchema, type TaxSettings } from '@/schemas/tax';
+
+export async function getTaxSettings(): Promise<{ settings: TaxSettings | null; error?: string }> {
+  if (!db) return { settings: null, error: "Database initialization failed." };
+  try {
+    const docSnap = await getDoc(doc(db, 'settings', 'tax'));
+    if (!docSnap.exists()) return { settings: null };
+    const data = docSnap.data();
+    const parsed = TaxSettingsSchema.safeParse(data);
+    if (!parsed.success) {
+      console.warn("Stored tax settings are invalid:", parsed.error.flatten().fieldErrors);
+      return { settings: null, error: "The saved tax settings are invalid; save them again." };
+    }
+    return {
+      settings: {
+        ...parsed.data,
+        updatedAt: data.updatedAt instanceof Timestamp ? data.updatedAt.toDate().toISOString() : undefined,
+        updatedBy: data.updatedBy,
+      },
+    };
+  } catch (error) {
+    console.error("Error fetching tax settings:", error);
+    return { settings: null, error: "Failed to load tax settings." };
+  }
+}
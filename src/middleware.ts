@@ -1,30 +1,64 @@
-
 import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
+import { SESSION_COOKIE_NAME, verifySessionToken } from '@/lib/auth/session'
+import { hasAnyPermission, INVENTORY_EDIT_PERMISSIONS, type Permission } from '@/lib/auth/permissions'
 
 // Define the paths that require authentication
-const protectedPaths = ['/', '/inventory', '/orders', '/logistics'];
+const protectedPaths = ['/', '/inventory', '/orders', '/quotes', '/customers', '/logistics', '/purchasing', '/users', '/audit', '/settings', '/reports', '/promotions'];
+
+// Pages that need a permission from the role table (checked after authentication).
+// A role needs any one of the listed permissions to open the page.
+const permissionRestrictedPaths: { pattern: RegExp; permissions: Permission[] }[] = [
+  { pattern: /^\/users(\/|$)/, permissions: ['users:manage'] },
+  { pattern: /^\/audit(\/|$)/, permissions: ['audit:view'] },
+  { pattern: /^\/settings(\/|$)/, permissions: ['settings:manage'] },
+  { pattern: /^\/reports(\/|$)/, permissions: ['reports:view'] },
+  { pattern: /^\/promotions(\/|$)/, permissions: ['promotions:manage'] },
+  { pattern: /^\/inventory\/new$/, permissions: ['inventory:create'] },
+  { pattern: /^\/inventory\/transfers\/new$/, permissions: ['inventory:transfer'] },
+  { pattern: /^\/inventory\/[^/]+\/edit$/, permissions: INVENTORY_EDIT_PERMISSIONS },
+  { pattern: /^\/orders\/new$/, permissions: ['orders:create'] },
+  { pattern: /^\/orders\/[^/]+\/edit$/, permissions: ['orders:edit'] },
+  { pattern: /^\/quotes\/(new|[^/]+\/edit)$/, permissions: ['quotes:manage'] },
+  { pattern: /^\/customers\/(new|[^/]+\/edit)$/, permissions: ['customers:manage'] },
+  { pattern: /^\/logistics\/new$/, permissions: ['shipments:create'] },
+  { pattern: /^\/purchasing\/new$/, permissions: ['purchasing:manage'] },
+];
 
-export function middleware(request: NextRequest) {
+export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
-  const sessionToken = request.cookies.get('session-token');
+  const sessionToken = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  // Verify signature and expiry, not just the cookie's presence
+  const sessionUser = await verifySessionToken(sessionToken);
 
   const isProtected = protectedPaths.some((path) => {
     if (path === '/') return pathname === path; // Exact match for root
     return pathname.startsWith(path); // StartsWith for nested routes
   });
 
-  // If trying to access a protected route without a session token, redirect to login
-  if (isProtected && !sessionToken) {
-    console.log(`Middleware: No session token, redirecting from ${pathname} to /login`);
+  // If trying to access a protected route without a valid session, redirect to login
+  if (isProtected && !sessionUser) {
+    console.log(`Middleware: No valid session, redirecting from ${pathname} to /login`);
     const url = request.nextUrl.clone();
     url.pathname = '/login';
+    const response = NextResponse.redirect(url);
+    // Clear a stale/forged cookie so the login page doesn't bounce back
+    if (sessionToken) response.cookies.delete(SESSION_COOKIE_NAME);
+    return response;
+  }
+
+  // If logged in but the role lacks the permission for this page, send them to the dashboard
+  const restriction = permissionRestrictedPaths.find(({ pattern }) => pattern.test(pathname));
+  if (sessionUser && restriction && !hasAnyPermission(sessionUser.role, restriction.permissions)) {
+    console.log(`Middleware: Role ${sessionUser.role} not allowed on ${pathname}, redirecting to /`);
+    const url = request.nextUrl.clone();
+    url.pathname = '/';
     return NextResponse.redirect(url);
   }
 
   // If logged in and trying to access login page, redirect to dashboard
-  if (sessionToken && pathname === '/login') {
-     console.log(`Middleware: Session token exists, redirecting from /login to /`);
+  if (sessionUser && pathname === '/login') {
+     console.log(`Middleware: Valid session exists, redirecting from /login to /`);
      const url = request.nextUrl.clone();
      url.pathname = '/';
     return NextResponse.redirect(url);
@@ -0,0 +1,43 @@
+import { z } from 'zod';
+import type { UserStamp } from './user';
+
+// Entities whose mutations are recorded in the `auditLog` collection
+export const AuditEntityTypeEnum = z.enum(['inventory', 'order', 'shipment', 'user', 'supplier', 'purchase_order', 'location', 'transfer_order', 'settings', 'promo_code', 'return', 'quote', 'customer']);
+
+export type AuditEntityType = z.infer<typeof AuditEntityTypeEnum>;
+
+// What happened to the entity
+export const AuditActionEnum = z.enum([
+  'create',
+  'update',
+  'delete',
+  'status_change',
+  'cancel',
+  'link_shipment',
+  'receive',
+  'record_payment',
+  'void_payment',
+  'refund',
+  'issue_invoice',
+]);
+
+export type AuditAction = z.infer<typeof AuditActionEnum>;
+
+// A single field-level change; nested fields use dot paths (e.g. "shippingInfo.city")
+export interface AuditFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+// Structure of an audit entry READ FROM Firestore (timestamp serialized for components)
+export interface AuditEntry {
+  id: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  entityLabel?: string; // Human readable name at the time of the change (item name, customer...)
+  action: AuditAction;
+  actor: UserStamp;
+  changes: AuditFieldChange[];
+  timestamp: string; // ISO string
+}
@@ -0,0 +1,96 @@
+import { z } from 'zod';
+import type { UserStamp } from './user';
+import { GstinSchema } from './tax';
+
+export const CustomerTypeEnum = z.enum(['retail', 'contractor', 'designer']);
+
+export type CustomerType = z.infer<typeof CustomerTypeEnum>;
+
+export const CUSTOMER_TYPE_LABELS: Record<CustomerType, string> = {
+  retail: 'Retail',
+  contractor: 'Contractor',
+  designer: 'Designer',
+};
+
+// Trade prices: a tier takes a fixed percentage off each line's list price (options included)
+export const PriceTierEnum = z.enum(['standard', 'trade', 'trade_plus']);
+
+export type PriceTier = z.infer<typeof PriceTierEnum>;
+
+export const PRICE_TIERS: Record<PriceTier, { label: string; percentOff: number }> = {
+  standard: { label: 'Standard', percentOff: 0 },
+  trade: { label: 'Trade', percentOff: 10 },
+  trade_plus: { label: 'Trade Plus', percentOff: 15 },
+};
+
+// When the customer pays. Anything but due_on_order is a trade account: orders are delivered on credit
+// and the invoice falls due the given number of days after its date.
+export const PaymentTermsEnum = z.enum(['due_on_order', 'net_15', 'net_30']);
+
+export type PaymentTerms = z.infer<typeof PaymentTermsEnum>;
+
+export const PAYMENT_TERMS_LABELS: Record<PaymentTerms, string> = {
+  due_on_order: 'Due on order',
+  net_15: 'Net 15',
+  net_30: 'Net 30',
+};
+
+export const AddressKindEnum = z.enum(['billing', 'shipping']);
+
+// A saved address; the first of each kind is the one orders default to
+export const CustomerAddressSchema = z.object({
+  kind: AddressKindEnum,
+  label: z.string().trim().max(50, "Keep the label under 50 characters.").optional().or(z.literal('')), // e.g. "Site office"
+  address: z.string().trim().min(1, "Address is required."),
+  city: z.string().trim().min(1, "City is required."),
+  state: z.string().trim().min(1, "State is required."),
+  zipCode: z.string().trim().min(1, "Zip code is required."),
+});
+
+// Someone else to deal with at the customer, e.g. a contractor's site manager
+export const CustomerContactSchema = z.object({
+  name: z.string().trim().min(1, "Contact name is required."),
+  role: z.string().trim().max(50).optional().or(z.literal('')),
+  email: z.string().trim().email("Invalid email address.").optional().or(z.literal('')),
+  phone: z.string().trim().optional().or(z.literal('')),
+});
+
+// Schema for adding/editing a customer. Email and phone are what existing orders are matched on.
+export const CustomerSchema = z.object({
+  name: z.string().trim().min(1, "Customer name is required."),
+  email: z.string().trim().email("Invalid email address.").optional().or(z.literal('')),
+  phone: z.string().trim().optional().or(z.literal('')),
+  gstin: GstinSchema.optional().or(z.literal('')), // Printed on their invoices for input tax credit
+  type: CustomerTypeEnum,
+  taxExempt: z.boolean(), // Orders for them are saved without GST
+  notes: z.string().trim().max(2000, "Keep the notes under 2000 characters.").optional().or(z.literal('')),
+  contacts: z.array(CustomerContactSchema).max(10, "Add at most 10 contacts."),
+  addresses: z.array(CustomerAddressSchema).max(10, "Add at most 10 addresses."),
+  // Trade terms; changing them needs accounts:manage
+  priceTier: PriceTierEnum,
+  paymentTerms: PaymentTermsEnum,
+  creditLimit: z.coerce.number({ invalid_type_error: "Credit limit must be a number." }).min(0, "Credit limit can't be negative."), // ₹ they may owe across open orders
+}).refine((values) => values.paymentTerms === 'due_on_order' || values.creditLimit > 0, {
+  message: "Set a credit limit for a customer who pays on account.",
+  path: ['creditLimit'],
+});
+
+export type CustomerInput = z.infer<typeof CustomerSchema>;
+export type CustomerAddress = z.infer<typeof CustomerAddressSchema>;
+
+// Structure of a customer READ FROM Firestore (`customers`)
+export interface Customer extends CustomerInput {
+  id: string;
+  createdAt?: string; // ISO string
+  updatedAt?: string; // ISO string
+  createdBy?: UserStamp;
+  updatedBy?: UserStamp;
+}
+
+// Worked out from the customer's orders when their page is opened
+export interface CustomerStats {
+  orderCount: number;
+  lifetimeValue: number; // What their orders are worth now: totals less returns, leaving out cancelled orders
+  openBalance: number; // Still to be paid across those orders
+  lastOrderDate?: string; // ISO string
+}
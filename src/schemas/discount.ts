@@ -0,0 +1,58 @@
+import { z } from 'zod';
+import type { UserStamp } from './user';
+
+// A discount takes a percentage off, or a fixed amount in ₹
+export const DiscountTypeEnum = z.enum(['percentage', 'fixed']);
+
+export type DiscountType = z.infer<typeof DiscountTypeEnum>;
+
+export const DISCOUNT_TYPE_LABELS: Record<DiscountType, string> = {
+  percentage: 'Percent (%)',
+  fixed: 'Amount (₹)',
+};
+
+// A discount entered by hand on an order line or on the whole order
+export const DiscountInputSchema = z.object({
+  type: DiscountTypeEnum,
+  value: z.coerce.number({ invalid_type_error: "Discount must be a number." }).min(0, { message: "Discount can't be negative." }),
+  reason: z.string().trim().max(200, { message: "Keep the reason under 200 characters." }).optional(),
+}).refine((discount) => discount.type !== 'percentage' || discount.value <= 100, { message: "A percentage can't be over 100.", path: ['value'] });
+
+export type DiscountInput = z.infer<typeof DiscountInputSchema>;
+
+// A discount as stored on an order line or the order. The amount is in ₹ for the whole line (or order).
+export interface AppliedDiscount {
+  type: DiscountType;
+  value: number;
+  amount: number;
+  reason?: string;
+  promoCode?: string; // Set when the discount came from a promo code
+  appliedBy: UserStamp;
+}
+
+// Promo codes are kept in `promoCodes`, keyed by the code itself
+export const PromoCodeSchema = z.object({
+  code: z.string().trim().toUpperCase().regex(/^[A-Z0-9_-]{3,20}$/, { message: "Use 3–20 letters, numbers, dashes or underscores." }),
+  description: z.string().trim().max(200).optional(),
+  type: DiscountTypeEnum,
+  value: z.coerce.number({ invalid_type_error: "Discount must be a number." }).positive({ message: "Discount must be more than zero." }),
+  validFrom: z.string().optional().or(z.literal('')), // yyyy-mm-dd, inclusive
+  validUntil: z.string().optional().or(z.literal('')), // yyyy-mm-dd, inclusive
+  usageLimit: z.coerce.number().int().min(1, { message: "Allow at least one use." }).optional(), // Orders that can use the code; unlimited if empty
+  minOrderValue: z.coerce.number().min(0, { message: "Minimum order value can't be negative." }).optional(),
+  active: z.boolean().default(true),
+})
+  .refine((promo) => promo.type !== 'percentage' || promo.value <= 100, { message: "A percentage can't be over 100.", path: ['value'] })
+  .refine((promo) => !promo.validFrom || !promo.validUntil || promo.validFrom <= promo.validUntil, { message: "The end date must be on or after the start date.", path: ['validUntil'] });
+
+export type PromoCodeInput = z.infer<typeof PromoCodeSchema>;
+
+// Structure of a promo code READ FROM Firestore
+export interface PromoCode extends PromoCodeInput {
+  id: string; // Same as the code
+  timesUsed: number; // Orders the code has been redeemed on
+  discountGiven: number; // ₹ taken off across those orders
+  createdBy?: UserStamp;
+  createdAt?: string; // ISO string
+  updatedAt?: string; // ISO string
+}
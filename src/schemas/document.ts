@@ -0,0 +1,41 @@
+import { z } from 'zod';
+import type { UserStamp } from './user';
+
+// PDF documents that can be downloaded for an order
+export const OrderDocumentTypeEnum = z.enum(['invoice', 'packing_slip', 'delivery_note']);
+
+export type OrderDocumentType = z.infer<typeof OrderDocumentTypeEnum>;
+
+export const ORDER_DOCUMENT_LABELS: Record<OrderDocumentType, string> = {
+  invoice: 'Invoice',
+  packing_slip: 'Packing Slip',
+  delivery_note: 'Delivery Note',
+};
+
+// Letterhead printed on the order documents, kept in the `settings/branding` document.
+// The GSTIN comes from the tax settings.
+export const BrandingSettingsSchema = z.object({
+  companyName: z.string().trim().min(1, "Enter the name to print on documents.").max(100),
+  address: z.string().trim().max(300, "Keep the address under 300 characters.").optional().or(z.literal('')), // One line per row
+  phone: z.string().trim().max(30).optional().or(z.literal('')),
+  email: z.string().trim().email("Invalid email address.").optional().or(z.literal('')),
+  website: z.string().trim().max(100).optional().or(z.literal('')),
+  accentColor: z.string().regex(/^#[0-9a-fA-F]{6}$/, { message: "Use a hex colour such as #1f2937." }), // Headings and table headers
+  invoiceTerms: z.string().trim().max(1000, "Keep the terms under 1000 characters.").optional().or(z.literal('')), // Printed at the foot of invoices
+});
+
+export type BrandingSettingsInput = z.infer<typeof BrandingSettingsSchema>;
+
+export interface BrandingSettings extends BrandingSettingsInput {
+  updatedAt?: string; // ISO string
+  updatedBy?: UserStamp;
+}
+
+// Issued from the order page (issueInvoiceAction); never changes afterwards. The stored invoice also keeps a
+// snapshot of what it prints (see lib/documents/invoices.ts), which is left server-side
+export interface OrderInvoice {
+  number: string; // e.g. INV/2026-27/00042, sequential within the financial year
+  issuedAt: string; // ISO string; the invoice date
+  dueDate?: string; // yyyy-mm-dd; on orders placed on a trade account, the invoice date plus the payment terms
+  issuedBy: UserStamp;
+}
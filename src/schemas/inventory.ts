@@ -1,4 +1,81 @@
 import { z } from 'zod';
+import { GST_RATES } from './tax';
+
+// --- Options and option pricing (prices worked out in src/lib/pricing.ts) ---
+// How a chosen option changes the unit price: a flat amount, an amount per square foot of door, or a
+// percentage of the item's base price. Negative amounts make a choice cheaper.
+export const PriceModifierTypeEnum = z.enum(['flat', 'per_sq_ft', 'percentage']);
+
+export type PriceModifierType = z.infer<typeof PriceModifierTypeEnum>;
+
+export const PRICE_MODIFIER_TYPE_LABELS: Record<PriceModifierType, string> = {
+  flat: '₹ per door',
+  per_sq_ft: '₹ per sq ft',
+  percentage: '% of price',
+};
+
+export const PriceModifierSchema = z.object({
+  type: PriceModifierTypeEnum,
+  amount: z.coerce.number({ invalid_type_error: "Amount must be a number." }),
+});
+
+export type PriceModifier = z.infer<typeof PriceModifierSchema>;
+
+// One choice in an option group, e.g. the "Teak" material or "Brass lever" hardware
+export const OptionChoiceSchema = z.object({
+  value: z.string().trim().min(1, { message: "Name the choice." }),
+  modifier: PriceModifierSchema,
+});
+
+export type OptionChoice = z.infer<typeof OptionChoiceSchema>;
+
+const inches = (label: string) => z.coerce.number({ invalid_type_error: `${label} must be a number.` }).positive({ message: `${label} must be more than 0.` });
+
+// Custom sizes the item can be made in, in inches. The base price covers the standard size; the
+// modifier applies to any custom size (per sq ft: for the area beyond the standard size).
+export const SizeOptionSchema = z.object({
+  standardHeight: inches("Standard height"),
+  standardWidth: inches("Standard width"),
+  minHeight: inches("Minimum height"),
+  maxHeight: inches("Maximum height"),
+  minWidth: inches("Minimum width"),
+  maxWidth: inches("Maximum width"),
+  modifier: PriceModifierSchema,
+}).superRefine((size, ctx) => {
+  if (size.minHeight > size.maxHeight) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['maxHeight'], message: "Maximum height is below the minimum." });
+  }
+  if (size.minWidth > size.maxWidth) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['maxWidth'], message: "Maximum width is below the minimum." });
+  }
+});
+
+export type SizeOption = z.infer<typeof SizeOptionSchema>;
+
+// Option groups offered on order lines; an empty group isn't offered
+export const ItemOptionsSchema = z.object({
+  materials: z.array(OptionChoiceSchema).optional(),
+  finishes: z.array(OptionChoiceSchema).optional(),
+  hardware: z.array(OptionChoiceSchema).optional(),
+  size: SizeOptionSchema.optional(),
+}).superRefine((options, ctx) => {
+  (['materials', 'finishes', 'hardware'] as const).forEach((group) => {
+    const seen = new Set<string>();
+    (options[group] || []).forEach((choice, index) => {
+      const key = choice.value.toLowerCase();
+      if (seen.has(key)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [group, index, 'value'], message: "This choice is listed twice." });
+      }
+      seen.add(key);
+      // Per sq ft needs a door area, which comes from the standard or custom size
+      if (choice.modifier.type === 'per_sq_ft' && !options.size) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [group, index, 'modifier', 'type'], message: "Per sq ft pricing needs the item's sizes set up." });
+      }
+    });
+  });
+});
+
+export type ItemOptions = z.infer<typeof ItemOptionsSchema>;
 
 // Define the schema for adding/editing an inventory item
 export const AddItemSchema = z.object({
@@ -13,10 +90,33 @@ export const AddItemSchema = z.object({
   price: z.coerce.number({invalid_type_error: "Price must be a number."})
            .min(0, { message: "Price cannot be negative." })
            .default(0),
+  // GST: the HSN code printed on invoices and the rate the item is taxed at (the default rate if empty)
+  hsnCode: z.string().trim().regex(/^(\d{4}|\d{6}|\d{8})$/, { message: "HSN codes are 4, 6 or 8 digits." }).optional().or(z.literal('')),
+  gstRate: z.coerce.number({invalid_type_error: "GST rate must be a number."})
+           .refine((rate) => (GST_RATES as readonly number[]).includes(rate), { message: "Choose a GST rate." })
+           .optional(),
   description: z.string().optional(),
   sku: z.string().min(1, { message: "SKU is required." }).toUpperCase(),
   weight: z.string().optional(),
-  leadTime: z.string().optional(),
+  leadTime: z.string().optional(), // Free-text note shown to staff
+  // Days to get more from the supplier or make one to order; used for expected ready dates
+  leadTimeDays: z.coerce.number({invalid_type_error: "Lead time must be a number of days."})
+           .int({message: "Lead time must be a whole number of days."})
+           .min(0, { message: "Lead time cannot be negative." })
+           .optional(),
+  // Reorder when available plus on-order stock falls to this; left empty, it's worked out from sales velocity
+  reorderPoint: z.coerce.number({invalid_type_error: "Reorder point must be a number."})
+           .int({message: "Reorder point must be a whole number."})
+           .min(0, { message: "Reorder point cannot be negative." })
+           .optional(),
+  // Usual quantity to buy at a time (e.g. the supplier's minimum or a full pallet)
+  reorderQuantity: z.coerce.number({invalid_type_error: "Reorder quantity must be a number."})
+           .int({message: "Reorder quantity must be a whole number."})
+           .min(1, { message: "Reorder quantity must be at least 1." })
+           .optional(),
+  supplierId: z.string().optional(), // Preferred supplier (suppliers collection); '' when none
+  supplierSku: z.string().optional(), // The supplier's own code for the item, printed on purchase orders
+  options: ItemOptionsSchema.optional(), // Choices priced on top of `price` when the item is ordered
   // imageUrl is optional but must be a valid URL (like Google Drive share link) if provided.
   imageUrl: z.string().url("Must be a valid URL.").optional().or(z.literal('')), // Allow empty string or valid URL
   // Removed imageHint
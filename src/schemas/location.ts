@@ -0,0 +1,32 @@
+import { z } from 'zod';
+import type { UserStamp } from './user';
+
+// Places stock is kept. Stock moving between them is on a transfer order until it's received.
+export const LocationTypeEnum = z.enum(['showroom', 'warehouse', 'store']);
+
+export type LocationType = z.infer<typeof LocationTypeEnum>;
+
+export const LOCATION_TYPE_LABELS: Record<LocationType, string> = {
+  showroom: 'Showroom',
+  warehouse: 'Warehouse',
+  store: 'Store',
+};
+
+// Schema for adding/editing a location
+export const LocationSchema = z.object({
+  name: z.string().trim().min(2, { message: "Name must be at least 2 characters." }),
+  type: LocationTypeEnum,
+  address: z.string().trim().optional(),
+});
+
+export type LocationInput = z.infer<typeof LocationSchema>;
+
+// Structure of a location READ FROM Firestore (timestamps serialized for components)
+export interface Location extends LocationInput {
+  id: string;
+  isDefault: boolean; // Where stock from before locations, opening stock and unlocated orders are counted
+  createdAt?: string; // ISO string
+  updatedAt?: string; // ISO string
+  createdBy?: UserStamp;
+  updatedBy?: UserStamp;
+}
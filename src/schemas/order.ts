@@ -1,13 +1,22 @@
 import { z } from 'zod';
+import type { UserStamp } from './user';
+import { GstinSchema, type LineTax, type OrderGst } from './tax';
+import { DiscountInputSchema, type AppliedDiscount } from './discount';
+import { PaymentInputSchema, type OrderPaymentSummary, type PaymentRecord } from './payment';
+import type { OrderInvoice } from './document';
+import type { PaymentTerms } from './customer';
 
 // Define possible statuses
-export const OrderStatusEnum = z.enum(['Pending Payment', 'Processing', 'Shipped', 'Delivered', 'Cancelled', 'Refunded']);
-// Updated PaymentStatusEnum
-export const PaymentStatusEnum = z.enum(['Pending', 'Paid', 'COD', 'Refunded', 'Failed', 'Completed', 'Delivered']);
+export const OrderStatusEnum = z.enum(['Pending Payment', 'Processing', 'Partially Shipped', 'Shipped', 'Delivered', 'Cancelled', 'Refunded']);
+// Where a line's units come from (see src/lib/orders/backorders.ts)
+export const LineFulfillmentStateEnum = z.enum(['allocated', 'backordered', 'made_to_order', 'ready']);
+// What older orders kept in paymentInfo.paymentMethod, a mix of methods and states. New orders record
+// payments instead (see src/schemas/payment.ts).
+export const LegacyPaymentMethodEnum = z.enum(['Pending', 'Paid', 'COD', 'Refunded', 'Failed', 'Completed', 'Delivered']);
 
 
 // Schema for customer/shipping details based on Firestore's shippingInfo
-const ShippingInfoSchema = z.object({
+export const ShippingInfoSchema = z.object({
   name: z.string().min(1, "Customer name is required."),
   email: z.string().email("Invalid email address.").optional().or(z.literal('')),
   phone: z.string().optional(),
@@ -15,11 +24,45 @@ const ShippingInfoSchema = z.object({
   city: z.string().min(1, "City is required."),
   state: z.string().min(1, "State is required."),
   zipCode: z.string().min(1, "Zip code is required."),
+  gstin: GstinSchema.optional().or(z.literal('')), // Buyer's GSTIN on B2B sales
 });
 
+// A per-unit amount a chosen option adds to (or takes off) the item's base price
+export interface PriceAdjustment {
+    label: string; // e.g. "Material: Teak"
+    amount: number;
+}
+
+// A unit price set by hand instead of the list price (needs the orders:override_price permission)
+export interface PriceOverride {
+    listPrice: number; // What the line would have cost from the item and its options
+    reason: string;
+    by: UserStamp;
+}
+
+// Approval to take a trade account over its credit limit (needs the accounts:manage permission)
+export interface CreditApproval {
+    creditLimit: number;
+    exposure: number; // What the customer owed across their orders once this one was added
+    reason: string;
+    by: UserStamp;
+}
+
+// Order totals as stored; totalAmount mirrors grandTotal for older readers
+export interface OrderTotals {
+    subtotal: number; // Lines at the price they're sold at
+    discountTotal: number; // Line discounts plus order discounts (see src/lib/orders/discounts.ts)
+    taxTotal: number;
+    shippingTotal: number;
+    grandTotal: number;
+}
+
 // Schema for item customizations based on Firestore
-const ItemCustomizationsSchema = z.object({
+// Choices come from the inventory item's options; a custom size (in inches) makes the line made to order
+export const ItemCustomizationsSchema = z.object({
     material: z.string().optional(),
+    finish: z.string().optional(),
+    hardware: z.string().optional(),
     size: z.object({
         height: z.number().optional(),
         width: z.number().optional(),
@@ -27,7 +70,7 @@ const ItemCustomizationsSchema = z.object({
 });
 
 // Schema for an item within an order based on Firestore
-const OrderItemSchema = z.object({
+export const OrderItemSchema = z.object({
   itemId: z.string().min(1, "Product must be selected."), // Reference to the inventory item ID
   name: z.string(), // Denormalized product name (set when item is selected)
   sku: z.string(), // Denormalized product SKU (set when item is selected)
@@ -35,28 +78,41 @@ const OrderItemSchema = z.object({
   price: z.coerce.number().min(0, "Price cannot be negative."), // Price per unit at the time of order
   image: z.string().url("Invalid image URL.").optional().or(z.literal('')), // Denormalized product image URL
   customizations: ItemCustomizationsSchema.optional(),
+  priceOverride: z.coerce.number().min(0, "Price cannot be negative.").optional(), // Unit price agreed by hand; replaces the list price
+  priceOverrideReason: z.string().trim().max(200, "Keep the reason under 200 characters.").optional(),
+  discount: DiscountInputSchema.optional(), // Off this line only
 });
 
-// Schema for payment info based on Firestore
-const PaymentInfoSchema = z.object({
-    paymentMethod: PaymentStatusEnum, // Use enum
+// Schema for payment info on older orders
+export const PaymentInfoSchema = z.object({
+    paymentMethod: LegacyPaymentMethodEnum,
 });
 
 // Schema for tracking info based on Firestore
-const TrackingInfoSchema = z.object({
+export const TrackingInfoSchema = z.object({
     carrier: z.string().optional(),
     status: z.string().optional(),
     trackingNumber: z.string().optional(),
+    shipmentId: z.string().optional(), // Most recently created or updated shipment in `shipments`
+    estimatedDelivery: z.string().optional(),
+    actualDelivery: z.string().optional().nullable(), // ISO string, mirrored from the shipment
 });
 
 // --- Main Order Input Schema (for Forms) ---
 // This defines the structure expected from the Create/Edit Order forms.
 export const OrderSchema = z.object({
+  customerId: z.string().optional(), // Picked from the customer directory; the customer details are still copied onto the order
   customer: ShippingInfoSchema,
   items: z.array(OrderItemSchema).min(1, "Order must contain at least one item."),
   status: OrderStatusEnum,
-  paymentStatus: PaymentStatusEnum, // Use the updated enum for input
   shippingMethod: z.string().optional().or(z.literal('')),
+  shippingCharge: z.coerce.number().min(0, "Shipping can't be negative.").optional(), // Charged to the customer on top of the lines
+  fulfillmentLocationId: z.string().optional(), // Location stock is picked from; the default location if not given
+  orderDiscount: DiscountInputSchema.optional(), // Off the whole order, after line discounts
+  promoCode: z.string().trim().toUpperCase().optional().or(z.literal('')),
+  initialPayment: PaymentInputSchema.optional(), // A deposit or full payment taken when the order is created
+  quoteId: z.string().optional(), // The quote the order is made from; its prices and discounts carry over
+  creditApprovalReason: z.string().trim().max(200, "Keep the reason under 200 characters.").optional(), // Approves taking a trade account over its credit limit
 });
 
 // Type for validating input FORM data (Create/Edit)
@@ -71,19 +127,50 @@ export interface Order {
     name: string;
     sku: string;
     quantity: number;
-    finalPrice: number;
+    finalPrice: number; // Unit price including option adjustments
+    basePrice?: number; // The item's price when the line was priced (missing on older orders)
+    priceAdjustments?: PriceAdjustment[]; // Per-unit amounts the chosen options added
+    priceOverride?: PriceOverride; // Set when finalPrice was agreed by hand
+    discount?: AppliedDiscount; // Off the line total (finalPrice × quantity)
+    tax?: LineTax; // GST on the line (missing on orders saved before GST was set up)
     imageUrl?: string;
     customizations?: z.infer<typeof ItemCustomizationsSchema>;
+    backorderedQuantity?: number; // Units not taken from stock: waiting on supplier receipt, or the whole line if made to order
+    fulfillmentState?: z.infer<typeof LineFulfillmentStateEnum>; // Missing on older orders: treated as allocated
+    expectedReadyDate?: string; // ISO string; order date plus the item's lead time for backordered / made-to-order lines
+    readyAt?: string; // ISO string; when a made-to-order line was finished or a backorder was filled
+    returnedQuantity?: number; // Units received back on returns (see src/lib/orders/returns.ts)
   }[];
   orderDate: string; // ISO string
-  paymentInfo: {
-    paymentMethod: string; // Actual DB value is likely a string
+  paymentInfo?: {
+    paymentMethod: string; // Only on orders saved before payments were recorded
   };
+  payments?: PaymentRecord[]; // Oldest first, including voided ones
+  payment?: OrderPaymentSummary; // Worked out from `payments` whenever they or the total change
   shippingInfo: z.infer<typeof ShippingInfoSchema>;
   status: string; // Actual DB value is likely a string
   totalAmount: number;
-  trackingInfo?: z.infer<typeof TrackingInfoSchema>;
-  userId: string;
+  totals?: OrderTotals; // Missing on older orders: totalAmount is the lines' sum
+  gst?: OrderGst; // Place of supply and CGST/SGST/IGST split behind totals.taxTotal
+  discounts?: AppliedDiscount[]; // Order-level discounts: a hand-entered one and/or a promo code
+  invoice?: OrderInvoice; // Set by issueInvoiceAction; the order is locked against edits from then on
+  quoteId?: string; // The quote the order was converted from
+  customerId?: string; // The customer in `customers`, when one was picked or matched
+  paymentTerms?: Exclude<PaymentTerms, 'due_on_order'>; // Set when the order was placed on a trade account
+  creditApproval?: CreditApproval; // Set when the order took the account over its credit limit
+  returnTotal?: number; // Value of goods received back on returns; totalAmount less this is what the order is worth now
+  trackingInfo?: z.infer<typeof TrackingInfoSchema>; // Mirrors the most recently created or updated shipment
+  shipmentIds?: string[]; // All shipments for the order (an order can ship in several loads)
+  stockCommitted?: Record<string, number>; // doorId -> units taken from stock (kept in sync by the Cloud Functions)
+  stockReserved?: Record<string, number>; // Part of stockCommitted held as a reservation while Pending Payment
+  fulfillmentLocationId?: string; // Location the order is picked from (missing on older orders: the default location)
+  stockLocationId?: string; // Location stockCommitted was taken from; differs from fulfillmentLocationId until the sync moves it
+  reservationExpiresAt?: string; // ISO string; an unpaid order's stock is released after this
+  reservationReleasedAt?: string; // ISO string; when the expired reservation's stock went back and the lines were backordered
+  cancellationReason?: string; // e.g. 'reservation_expired' (orders cancelled on expiry before reservations were only released)
+  userId: string; // ID of the staff member who created the order
+  createdBy?: UserStamp;
+  updatedBy?: UserStamp;
 
   // Compatibility mappings for potential UI use (optional)
   createdAt?: string;
@@ -99,7 +186,7 @@ export interface Order {
       zipCode?: string;
   };
   total?: number; // Map from totalAmount
-  paymentStatus?: string; // Map from paymentInfo.paymentMethod or status
+  paymentStatus?: string; // Label of payment.status
   shippingMethod?: string; // Map from trackingInfo.carrier
 }
 
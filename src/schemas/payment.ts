@@ -0,0 +1,60 @@
+import { z } from 'zod';
+import type { UserStamp } from './user';
+
+// How the customer paid
+export const PaymentMethodEnum = z.enum(['cash', 'card', 'bank_transfer', 'cod', 'cheque']);
+
+export type PaymentMethod = z.infer<typeof PaymentMethodEnum>;
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: 'Cash',
+  card: 'Card',
+  bank_transfer: 'Bank Transfer',
+  cod: 'Cash on Delivery',
+  cheque: 'Cheque',
+};
+
+// Where an order's payments leave it; worked out from its payment records, never set by hand
+export const PaymentStatusEnum = z.enum(['unpaid', 'partially_paid', 'paid', 'overpaid', 'refunded']);
+
+export type PaymentStatus = z.infer<typeof PaymentStatusEnum>;
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  unpaid: 'Unpaid',
+  partially_paid: 'Partially Paid',
+  paid: 'Paid',
+  overpaid: 'Overpaid',
+  refunded: 'Refunded',
+};
+
+// Schema for recording a payment (the payment dialog, or a deposit taken with a new order)
+export const PaymentInputSchema = z.object({
+  amount: z.coerce.number({ invalid_type_error: "Amount must be a number." }).positive({ message: "Amount must be more than zero." }),
+  method: PaymentMethodEnum,
+  reference: z.string().trim().max(100, { message: "Keep the reference under 100 characters." }).optional(), // Card slip, UTR or cheque number
+  paidOn: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: "Pick the date the money was received." }), // yyyy-mm-dd
+});
+
+export type PaymentInput = z.infer<typeof PaymentInputSchema>;
+
+// A payment record kept in the order's `payments` list. Records are never deleted: a mistake is voided,
+// which leaves it on the order but out of the totals. Refunds are recorded as their own entries.
+export interface PaymentRecord {
+  id: string;
+  kind: 'payment' | 'refund';
+  amount: number; // Always positive; refunds are subtracted
+  method: PaymentMethod;
+  reference?: string;
+  paidOn: string; // yyyy-mm-dd
+  recordedBy: UserStamp;
+  recordedAt: string; // ISO string
+  returnId?: string; // Set on refunds for a customer return
+  voided?: { by: UserStamp; at: string; reason: string };
+}
+
+// Stored on the order next to `payments` so lists can show and filter by it without the records
+export interface OrderPaymentSummary {
+  status: PaymentStatus;
+  amountPaid: number; // Payments less refunds, ignoring voided records
+  balanceDue: number; // What's still owed; never negative
+}
@@ -0,0 +1,79 @@
+import { z } from 'zod';
+import type { UserStamp } from './user';
+
+// Draft -> Sent -> Partially Received -> Received -> Closed. Receiving sets the received statuses;
+// closing a partially received PO gives up on the rest. Only POs with nothing received can be cancelled.
+export const PurchaseOrderStatusEnum = z.enum(['Draft', 'Sent', 'Partially Received', 'Received', 'Closed', 'Cancelled']);
+
+export type PurchaseOrderStatus = z.infer<typeof PurchaseOrderStatusEnum>;
+
+// Schema for a PO line as entered on the form
+export const PurchaseOrderLineSchema = z.object({
+  inventoryId: z.string().min(1, "Item must be selected."),
+  quantity: z.coerce.number().int().min(1, "Quantity must be at least 1."),
+  unitCost: z.coerce.number({ invalid_type_error: "Unit cost must be a number." }).min(0, "Unit cost cannot be negative."),
+});
+
+// Schema for drafting a purchase order
+export const PurchaseOrderSchema = z.object({
+  supplierId: z.string().min(1, "Supplier must be selected."),
+  expectedDate: z.string().optional().or(z.literal('')), // yyyy-mm-dd from a date input
+  freightCost: z.coerce.number({ invalid_type_error: "Freight must be a number." }).min(0, "Freight cannot be negative.").default(0),
+  notes: z.string().optional(),
+  items: z.array(PurchaseOrderLineSchema).min(1, "Add at least one item."),
+});
+
+export type PurchaseOrderInput = z.infer<typeof PurchaseOrderSchema>;
+
+// Schema for recording goods received against a PO
+export const ReceivePurchaseOrderSchema = z.object({
+  lines: z.array(z.object({
+    inventoryId: z.string().min(1),
+    quantity: z.coerce.number().int().min(0, "Quantity cannot be negative."),
+  })).refine((lines) => lines.some((line) => line.quantity > 0), { message: "Enter a received quantity for at least one item." })
+    .refine((lines) => new Set(lines.map((line) => line.inventoryId)).size === lines.length, { message: "Each item can only be listed once on a delivery." }),
+  locationId: z.string().min(1, "Choose where the goods were delivered."),
+  note: z.string().max(500).optional(),
+});
+
+export type ReceivePurchaseOrderInput = z.infer<typeof ReceivePurchaseOrderSchema>;
+
+// A PO line as stored; name/SKU are copied from the item when the PO is drafted
+export interface PurchaseOrderLine {
+  inventoryId: string;
+  name: string;
+  sku: string;
+  supplierSku?: string;
+  quantityOrdered: number;
+  quantityReceived: number;
+  unitCost: number;
+}
+
+// One delivery recorded against the PO
+export interface PurchaseOrderReceipt {
+  receivedAt: string; // ISO string
+  receivedBy: UserStamp;
+  lines: { inventoryId: string; quantity: number }[];
+  locationId?: string; // Where the goods went into stock; older receipts have none (the default location)
+  note?: string;
+}
+
+// Structure of a purchase order READ FROM Firestore (timestamps serialized for components)
+export interface PurchaseOrder {
+  id: string;
+  supplierId: string;
+  supplierName: string; // Denormalized at drafting time
+  status: PurchaseOrderStatus;
+  items: PurchaseOrderLine[];
+  freightCost: number; // Spread over the lines by value to give landed cost
+  subtotal: number; // Sum of quantityOrdered * unitCost
+  expectedDate?: string; // ISO string
+  notes?: string;
+  receipts: PurchaseOrderReceipt[]; // Oldest first
+  createdAt: string; // ISO string
+  updatedAt?: string; // ISO string
+  sentAt?: string; // ISO string
+  closedAt?: string; // ISO string
+  createdBy?: UserStamp;
+  updatedBy?: UserStamp;
+}
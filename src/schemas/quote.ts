@@ -0,0 +1,74 @@
+import { z } from 'zod';
+import type { UserStamp } from './user';
+import type { OrderGst } from './tax';
+import type { AppliedDiscount } from './discount';
+import { OrderSchema, type Order, type OrderTotals, type ShippingInfoSchema } from './order';
+
+// draft -> sent -> accepted (when it becomes an order) or declined. A draft or sent quote past its
+// valid-until date reads as expired; revising it with a new date brings it back as a draft.
+export const QuoteStatusEnum = z.enum(['draft', 'sent', 'accepted', 'expired', 'declined']);
+
+export type QuoteStatus = z.infer<typeof QuoteStatusEnum>;
+
+export const QUOTE_STATUS_LABELS: Record<QuoteStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  accepted: 'Accepted',
+  expired: 'Expired',
+  declined: 'Declined',
+};
+
+export const QUOTE_VALIDITY_DAYS = 30; // Default valid-until date on a new quote, from today
+
+// Schema for the quote form: the order form's customer, lines, shipping and discounts, without a status,
+// pick location or payment, plus how long the prices hold
+export const QuoteSchema = OrderSchema.pick({
+  customerId: true,
+  customer: true,
+  items: true,
+  shippingMethod: true,
+  shippingCharge: true,
+  orderDiscount: true,
+  promoCode: true,
+}).extend({
+  validUntil: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: "Choose the date the quote is valid until." }), // yyyy-mm-dd, inclusive
+  notes: z.string().trim().max(1000, "Keep the notes under 1000 characters.").optional().or(z.literal('')), // Printed on the quote
+});
+
+export type QuoteInput = z.infer<typeof QuoteSchema>;
+
+export const DeclineQuoteSchema = z.object({
+  reason: z.string().trim().max(500, "Keep the reason under 500 characters.").optional(),
+});
+
+// The priced part of a quote. The current one is on the quote itself; earlier ones are kept in `revisions`.
+export interface QuoteRevision {
+  revision: number; // 1 for the first version
+  items: Order['items'];
+  totals: OrderTotals;
+  gst?: OrderGst;
+  discounts?: AppliedDiscount[]; // Order-level; a promo code is only checked, and counted when the quote becomes an order
+  shippingMethod?: string;
+  validUntil: string;
+  notes?: string;
+  savedAt: string; // ISO string
+  savedBy: UserStamp;
+}
+
+// Structure of a quote READ FROM Firestore (`quotes`)
+export interface Quote extends QuoteRevision {
+  id: string;
+  status: QuoteStatus; // Already expired if the valid-until date has passed
+  shippingInfo: z.infer<typeof ShippingInfoSchema>;
+  totalAmount: number;
+  revisions: QuoteRevision[]; // Earlier revisions, oldest first
+  customerId?: string;
+  orderId?: string; // The order it was converted into
+  declineReason?: string;
+  createdBy?: UserStamp;
+  createdAt: string; // ISO string
+  updatedAt?: string; // ISO string
+  sentAt?: string; // ISO string
+  acceptedAt?: string; // ISO string
+  declinedAt?: string; // ISO string
+}
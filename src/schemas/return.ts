@@ -0,0 +1,105 @@
+import { z } from 'zod';
+import type { UserStamp } from './user';
+import { PaymentMethodEnum } from './payment';
+
+// Authorised -> Received -> Refunded. An authorisation can be cancelled until the goods come back;
+// a received return stays Received when nothing was paid that needs giving back.
+export const ReturnStatusEnum = z.enum(['Authorised', 'Received', 'Refunded', 'Cancelled']);
+
+export type ReturnStatus = z.infer<typeof ReturnStatusEnum>;
+
+// Why the customer is sending the goods back
+export const ReturnReasonEnum = z.enum([
+  'damaged_in_transit',
+  'defective',
+  'wrong_item',
+  'not_as_described',
+  'changed_mind',
+  'other',
+]);
+
+export type ReturnReason = z.infer<typeof ReturnReasonEnum>;
+
+export const RETURN_REASON_LABELS: Record<ReturnReason, string> = {
+  damaged_in_transit: 'Damaged in transit',
+  defective: 'Defective',
+  wrong_item: 'Wrong item sent',
+  not_as_described: 'Not as described',
+  changed_mind: 'Changed mind',
+  other: 'Other',
+};
+
+// Schema for authorising a return from the order page
+export const ReturnAuthorisationSchema = z.object({
+  lines: z.array(z.object({
+    lineKey: z.string().min(1), // Order line key (see getOrderLineKey)
+    quantity: z.coerce.number().int().min(0, "Quantity cannot be negative."),
+  })).refine((lines) => lines.some((line) => line.quantity > 0), { message: "Enter a quantity to return for at least one item." }),
+  reason: ReturnReasonEnum,
+  note: z.string().trim().max(500, "Keep the note under 500 characters.").optional(),
+}).superRefine((data, ctx) => {
+  if (data.reason === 'other' && !data.note) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['note'], message: "Say why the goods are coming back." });
+  }
+});
+
+export type ReturnAuthorisationInput = z.infer<typeof ReturnAuthorisationSchema>;
+
+// Schema for checking returned goods in. Every authorised unit is either fit to sell again or damaged;
+// only restockable units go back into stock.
+export const ReceiveReturnSchema = z.object({
+  lines: z.array(z.object({
+    lineKey: z.string().min(1),
+    restockable: z.coerce.number().int().min(0, "Quantity cannot be negative."),
+    damaged: z.coerce.number().int().min(0, "Quantity cannot be negative."),
+  })).min(1),
+  locationId: z.string().min(1, "Choose where restockable goods are put away."),
+  note: z.string().trim().max(500, "Keep the note under 500 characters.").optional(),
+});
+
+export type ReceiveReturnInput = z.infer<typeof ReceiveReturnSchema>;
+
+// Schema for refunding a received return against the order's payments
+export const ReturnRefundSchema = z.object({
+  amount: z.coerce.number({ invalid_type_error: "Amount must be a number." }).positive({ message: "Amount must be more than zero." }),
+  method: PaymentMethodEnum,
+  reference: z.string().trim().max(100, { message: "Keep the reference under 100 characters." }).optional(),
+});
+
+export type ReturnRefundInput = z.infer<typeof ReturnRefundSchema>;
+
+// A returned order line. unitValue is what one unit cost the customer after discounts, GST included.
+export interface ReturnLine {
+  lineKey: string;
+  doorId: string;
+  name: string;
+  sku: string;
+  quantity: number; // Authorised
+  unitValue: number;
+  restockable?: number; // Set when received
+  damaged?: number;
+}
+
+// Structure of a return READ FROM Firestore (`returns` collection)
+export interface OrderReturn {
+  id: string;
+  orderId: string;
+  customerName: string;
+  status: ReturnStatus;
+  reason: ReturnReason;
+  note?: string;
+  lines: ReturnLine[];
+  value: number; // Sum of quantity × unitValue; comes off what the order is owed once received
+  locationId?: string; // Where restockable units went back into stock
+  receiptNote?: string;
+  refundPaymentId?: string; // Refund record in the order's payments
+  refundAmount?: number;
+  authorisedBy: UserStamp;
+  authorisedAt: string; // ISO string
+  receivedBy?: UserStamp;
+  receivedAt?: string; // ISO string
+  refundedBy?: UserStamp;
+  refundedAt?: string; // ISO string
+  cancelledBy?: UserStamp;
+  cancelledAt?: string; // ISO string
+}
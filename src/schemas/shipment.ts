@@ -1,24 +1,44 @@
 
 import { z } from 'zod';
+import type { Timestamp } from 'firebase/firestore';
+import type { UserStamp } from './user';
 
-// Schema for shipment history events - Keep as is
-const ShipmentHistoryEventSchema = z.object({
+// Schema for shipment history events
+export const ShipmentHistoryEventSchema = z.object({
   timestamp: z.string(), // ISO string representation of Timestamp
   status: z.string(),
   location: z.string().optional(),
   notes: z.string().optional(),
+  recordedBy: z.string().optional(), // Name of the staff member who recorded the event
 });
 
 // Define possible shipment statuses, including the initial one
 const shipmentStatuses = ['Label Created', 'Picked Up', 'In Transit', 'Out for Delivery', 'Delivered', 'Exception', 'Delayed'] as const;
 
+export const ShipmentStatusEnum = z.enum(shipmentStatuses);
+
+export type ShipmentStatus = z.infer<typeof ShipmentStatusEnum>;
+
+export type ShipmentHistoryEvent = z.infer<typeof ShipmentHistoryEventSchema>;
+
+// Schema for an order line (or part of one) carried by a shipment
+export const ShipmentItemSchema = z.object({
+  cartItemId: z.string().min(1), // Order line key (see getOrderLineKey)
+  doorId: z.string().optional(),
+  name: z.string(),
+  sku: z.string(),
+  quantity: z.coerce.number().int().min(1, "Quantity must be at least 1."),
+});
+
+export type ShipmentItem = z.infer<typeof ShipmentItemSchema>;
+
 // Schema for creating/updating a shipment
 export const ShipmentSchema = z.object({
   orderId: z.string().min(1, "Order ID is required."),
   customerName: z.string().min(1, "Customer name is required."),
   carrier: z.string().min(1, "Carrier name is required.").optional().or(z.literal('TBD')), // Allow 'TBD' initially
   trackingNumber: z.string().min(1, "Tracking number is required.").optional().or(z.literal('Pending')), // Allow 'Pending' initially
-  status: z.enum(shipmentStatuses),
+  status: ShipmentStatusEnum,
   origin: z.string().min(1, "Origin address is required."),
   destination: z.string().min(1, "Destination address is required."),
   estimatedDelivery: z.string().optional().or(z.literal('')), // Allow empty string
@@ -26,6 +46,8 @@ export const ShipmentSchema = z.object({
   weight: z.string().optional().or(z.literal('')), // Allow empty string
   dimensions: z.string().optional().or(z.literal('')), // Allow empty string
   notes: z.string().optional(),
+  items: z.array(ShipmentItemSchema).min(1, "Select at least one item to ship.")
+    .refine((items) => new Set(items.map((item) => item.cartItemId)).size === items.length, { message: "Each order line can only be listed once on a shipment." }),
   // history: z.array(ShipmentHistoryEventSchema).optional(), // Defined in interface, managed server-side
   // actualDelivery: z.string().optional(), // Defined in interface, managed server-side
   // createdAt: z.string(), // Defined in interface
@@ -34,21 +56,34 @@ export const ShipmentSchema = z.object({
 
 export type ShipmentInput = z.infer<typeof ShipmentSchema>;
 
+// Schema for a status update recorded from the shipment detail page
+export const UpdateShipmentStatusSchema = z.object({
+  status: ShipmentStatusEnum,
+  location: z.string().max(200).optional(),
+  notes: z.string().max(500).optional(),
+});
+
+export type UpdateShipmentStatusInput = z.infer<typeof UpdateShipmentStatusSchema>;
+
 // Define the structure of a Shipment document stored in Firestore, including ID and Timestamps
-export interface Shipment extends ShipmentInput {
+export interface Shipment extends Omit<ShipmentInput, 'items'> {
   id: string;
+  items?: ShipmentItem[]; // Missing on shipments created before split shipments (they carry the whole order)
   createdAt: string; // ISO string representation of Timestamp
   updatedAt?: string; // ISO string representation of Timestamp
   actualDelivery?: string | null; // ISO string representation of Timestamp or null
-  history: z.infer<typeof ShipmentHistoryEventSchema>[]; // Array of history events
+  history: ShipmentHistoryEvent[]; // Array of history events, oldest first
+  createdBy?: UserStamp;
+  updatedBy?: UserStamp;
 }
 
-// Define the structure for creating a new shipment (used internally by createOrderAction)
+// Define the structure for creating a new shipment (used internally by createShipmentAction)
 // This should match the data structure being written to Firestore in the action
 export interface CreateShipmentInternal extends ShipmentInput {
     createdAt: Timestamp; // Use Firestore Timestamp type here
     updatedAt: Timestamp; // Use Firestore Timestamp type here
-    history: { timestamp: string; status: string; location?: string; notes?: string }[]; // Match event structure
+    history: ShipmentHistoryEvent[]; // Match event structure
     actualDelivery: null; // Explicitly null
+    createdBy: UserStamp;
 }
 
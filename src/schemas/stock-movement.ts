@@ -0,0 +1,98 @@
+import { z } from 'zod';
+import type { UserStamp } from './user';
+
+// Every change to an item's stock is one entry in the append-only `stockMovements` collection.
+// sale / cancellation_restock are written by the Cloud Functions from orders; return_restock when a
+// customer return is checked in; the rest are recorded by staff.
+export const StockMovementTypeEnum = z.enum([
+  'receipt',
+  'sale',
+  'cancellation_restock',
+  'adjustment',
+  'damage',
+  'transfer',
+  'return_restock',
+]);
+
+export type StockMovementType = z.infer<typeof StockMovementTypeEnum>;
+
+// Why a manual adjustment was made. 'reconciliation' is used when the stock field is brought in line with the ledger.
+export const StockAdjustmentReasonEnum = z.enum([
+  'count_correction',
+  'found',
+  'lost',
+  'data_entry_error',
+  'reconciliation',
+  'other',
+]);
+
+export type StockAdjustmentReason = z.infer<typeof StockAdjustmentReasonEnum>;
+
+export const STOCK_MOVEMENT_TYPE_LABELS: Record<StockMovementType, string> = {
+  receipt: 'Receipt',
+  sale: 'Sale',
+  cancellation_restock: 'Cancellation Restock',
+  adjustment: 'Adjustment',
+  damage: 'Damage',
+  transfer: 'Transfer',
+  return_restock: 'Return Restock',
+};
+
+export const STOCK_ADJUSTMENT_REASON_LABELS: Record<StockAdjustmentReason, string> = {
+  count_correction: 'Stock count correction',
+  found: 'Found stock',
+  lost: 'Lost / missing',
+  data_entry_error: 'Data entry error',
+  reconciliation: 'Ledger reconciliation',
+  other: 'Other',
+};
+
+// Movement types staff can record by hand (the order types come from the Cloud Functions)
+export const ManualStockMovementTypeEnum = z.enum(['receipt', 'adjustment', 'damage', 'transfer']);
+
+// Form input for a manual movement. Quantity is always positive; receipts add stock, damage removes it,
+// and adjustments/transfers say which way they go.
+export const ManualStockMovementSchema = z.object({
+  type: ManualStockMovementTypeEnum,
+  direction: z.enum(['in', 'out']).default('in'),
+  quantity: z.coerce.number({ invalid_type_error: "Quantity must be a number." })
+    .int({ message: "Quantity must be a whole number." })
+    .positive({ message: "Quantity must be at least 1." }),
+  locationId: z.string().min(1, "Choose a location."),
+  reasonCode: StockAdjustmentReasonEnum.optional(),
+  transferLocation: z.string().optional(), // Somewhere outside our locations; moves between locations use transfer orders
+  note: z.string().optional(),
+}).superRefine((data, ctx) => {
+  if (data.type === 'adjustment' && !data.reasonCode) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['reasonCode'], message: "Choose a reason for the adjustment." });
+  }
+  if (data.type === 'adjustment' && data.reasonCode === 'reconciliation') {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['reasonCode'], message: "Use Reconcile on the item page to reconcile against the ledger." });
+  }
+  if (data.type === 'transfer' && !data.transferLocation?.trim()) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['transferLocation'], message: "Enter where the stock is going to or coming from." });
+  }
+});
+
+export type ManualStockMovementInput = z.infer<typeof ManualStockMovementSchema>;
+
+// Structure of a movement READ FROM Firestore (timestamp serialized for components)
+export interface StockMovement {
+  id: string;
+  inventoryId: string;
+  type: StockMovementType;
+  quantity: number; // Signed: positive adds stock, negative removes it
+  balanceBefore: number;
+  balanceAfter: number; // The item's stock right after this movement
+  locationId?: string; // Location whose stock changed; older entries have none (the default location)
+  reasonCode?: StockAdjustmentReason;
+  transferLocation?: string;
+  note?: string;
+  orderId?: string; // Source order for sale / cancellation_restock / return_restock
+  returnId?: string; // Set on return_restock
+  purchaseOrderId?: string; // Set on receipts recorded against a purchase order
+  transferOrderId?: string; // Set on transfers between locations
+  orderEvent?: string; // order_created, order_updated, order_cancelled, order_reopened, order_deleted, backorder_allocated, reservation_released
+  actor: UserStamp | null; // Who recorded it, or who last changed the source order
+  createdAt: string; // ISO string
+}
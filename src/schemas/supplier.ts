@@ -0,0 +1,24 @@
+import { z } from 'zod';
+import type { UserStamp } from './user';
+
+// Schema for adding/editing a supplier
+export const SupplierSchema = z.object({
+  name: z.string().trim().min(2, { message: "Name must be at least 2 characters." }),
+  contactName: z.string().trim().optional(),
+  email: z.string().trim().email("Must be a valid email.").optional().or(z.literal('')),
+  phone: z.string().trim().optional(),
+  address: z.string().trim().optional(),
+  paymentTerms: z.string().trim().optional(), // Free text, e.g. "50% advance, balance on delivery"
+  notes: z.string().trim().optional(),
+});
+
+export type SupplierInput = z.infer<typeof SupplierSchema>;
+
+// Structure of a supplier READ FROM Firestore (timestamps serialized for components)
+export interface Supplier extends SupplierInput {
+  id: string;
+  createdAt?: string; // ISO string
+  updatedAt?: string; // ISO string
+  createdBy?: UserStamp;
+  updatedBy?: UserStamp;
+}
@@ -0,0 +1,91 @@
+import { z } from 'zod';
+import type { UserStamp } from './user';
+
+// GST slabs an item can be taxed at, in percent
+export const GST_RATES = [0, 0.25, 3, 5, 12, 18, 28] as const;
+
+// States and union territories with their GST state codes (the first two digits of a GSTIN)
+export const INDIAN_STATES: { code: string; name: string }[] = [
+  { code: '01', name: 'Jammu and Kashmir' },
+  { code: '02', name: 'Himachal Pradesh' },
+  { code: '03', name: 'Punjab' },
+  { code: '04', name: 'Chandigarh' },
+  { code: '05', name: 'Uttarakhand' },
+  { code: '06', name: 'Haryana' },
+  { code: '07', name: 'Delhi' },
+  { code: '08', name: 'Rajasthan' },
+  { code: '09', name: 'Uttar Pradesh' },
+  { code: '10', name: 'Bihar' },
+  { code: '11', name: 'Sikkim' },
+  { code: '12', name: 'Arunachal Pradesh' },
+  { code: '13', name: 'Nagaland' },
+  { code: '14', name: 'Manipur' },
+  { code: '15', name: 'Mizoram' },
+  { code: '16', name: 'Tripura' },
+  { code: '17', name: 'Meghalaya' },
+  { code: '18', name: 'Assam' },
+  { code: '19', name: 'West Bengal' },
+  { code: '20', name: 'Jharkhand' },
+  { code: '21', name: 'Odisha' },
+  { code: '22', name: 'Chhattisgarh' },
+  { code: '23', name: 'Madhya Pradesh' },
+  { code: '24', name: 'Gujarat' },
+  { code: '26', name: 'Dadra and Nagar Haveli and Daman and Diu' },
+  { code: '27', name: 'Maharashtra' },
+  { code: '29', name: 'Karnataka' },
+  { code: '30', name: 'Goa' },
+  { code: '31', name: 'Lakshadweep' },
+  { code: '32', name: 'Kerala' },
+  { code: '33', name: 'Tamil Nadu' },
+  { code: '34', name: 'Puducherry' },
+  { code: '35', name: 'Andaman and Nicobar Islands' },
+  { code: '36', name: 'Telangana' },
+  { code: '37', name: 'Andhra Pradesh' },
+  { code: '38', name: 'Ladakh' },
+];
+
+// 15 characters: state code, PAN, entity number, 'Z', checksum
+export const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+export const GstinSchema = z.string().trim().toUpperCase()
+  .regex(GSTIN_PATTERN, { message: "Enter a valid 15-character GSTIN." })
+  .refine((gstin) => INDIAN_STATES.some((state) => state.code === gstin.slice(0, 2)), { message: "The GSTIN's state code isn't recognised." });
+
+// Showroom-wide tax settings, kept in the `settings/tax` document
+export const TaxSettingsSchema = z.object({
+  homeStateCode: z.string().refine((code) => INDIAN_STATES.some((state) => state.code === code), { message: "Choose the showroom's state." }),
+  gstin: GstinSchema.optional().or(z.literal('')), // The showroom's own GSTIN, printed on invoices
+  defaultGstRate: z.coerce.number().refine((rate) => (GST_RATES as readonly number[]).includes(rate), { message: "Choose a GST rate." }), // For items without their own rate
+});
+
+export type TaxSettingsInput = z.infer<typeof TaxSettingsSchema>;
+
+export interface TaxSettings extends TaxSettingsInput {
+  updatedAt?: string; // ISO string
+  updatedBy?: UserStamp;
+}
+
+// Intra-state supplies are split into CGST and SGST; inter-state ones are charged IGST
+export type SupplyType = 'intra_state' | 'inter_state';
+
+// Tax worked out for one order line, stored on the line
+export interface LineTax {
+  hsnCode?: string;
+  rate: number; // Percent
+  taxableValue: number; // Line value the tax is charged on
+  cgst: number;
+  sgst: number;
+  igst: number;
+}
+
+// GST facts stored on an order when it's saved; taxTotal in the order's totals is cgst + sgst + igst
+export interface OrderGst {
+  supplyType: SupplyType;
+  placeOfSupplyCode?: string; // Missing when the shipping state couldn't be matched to a state
+  homeStateCode: string;
+  sellerGstin?: string;
+  buyerGstin?: string; // Present on B2B sales
+  cgst: number;
+  sgst: number;
+  igst: number;
+}
@@ -0,0 +1,51 @@
+import { z } from 'zod';
+import type { UserStamp } from './user';
+
+// Draft -> In Transit (units leave the source location) -> Received (units arrive at the destination).
+// Only drafts can be cancelled; nothing has moved yet.
+export const TransferOrderStatusEnum = z.enum(['Draft', 'In Transit', 'Received', 'Cancelled']);
+
+export type TransferOrderStatus = z.infer<typeof TransferOrderStatusEnum>;
+
+// Schema for drafting a transfer between two locations
+export const TransferOrderSchema = z.object({
+  fromLocationId: z.string().min(1, "Choose where the stock is coming from."),
+  toLocationId: z.string().min(1, "Choose where the stock is going."),
+  notes: z.string().optional(),
+  items: z.array(z.object({
+    inventoryId: z.string().min(1, "Item must be selected."),
+    quantity: z.coerce.number().int().min(1, "Quantity must be at least 1."),
+  })).min(1, "Add at least one item."),
+}).refine((data) => data.fromLocationId !== data.toLocationId, {
+  path: ['toLocationId'],
+  message: "The destination must differ from the source.",
+});
+
+export type TransferOrderInput = z.infer<typeof TransferOrderSchema>;
+
+// A transfer line as stored; name/SKU are copied from the item when the transfer is drafted
+export interface TransferOrderLine {
+  inventoryId: string;
+  name: string;
+  sku: string;
+  quantity: number;
+}
+
+// Structure of a transfer order READ FROM Firestore (timestamps serialized for components)
+export interface TransferOrder {
+  id: string;
+  fromLocationId: string;
+  fromLocationName: string; // Denormalized at drafting time
+  toLocationId: string;
+  toLocationName: string;
+  status: TransferOrderStatus;
+  items: TransferOrderLine[];
+  notes?: string;
+  createdAt: string; // ISO string
+  updatedAt?: string; // ISO string
+  dispatchedAt?: string; // ISO string
+  receivedAt?: string; // ISO string
+  createdBy?: UserStamp;
+  dispatchedBy?: UserStamp;
+  receivedBy?: UserStamp;
+}
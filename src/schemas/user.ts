@@ -0,0 +1,50 @@
+import { z } from 'zod';
+
+// Roles a staff member can hold. Every server action checks the acting user's role.
+export const UserRoleEnum = z.enum(['owner', 'sales', 'warehouse', 'driver']);
+
+export type UserRole = z.infer<typeof UserRoleEnum>;
+
+// Schema for the login form / login action
+export const LoginSchema = z.object({
+  email: z.string().min(1, { message: "Email is required." }).email("Invalid email address."),
+  password: z.string().min(1, { message: "Password is required." }),
+});
+
+export type LoginInput = z.infer<typeof LoginSchema>;
+
+// Schema for creating a new staff account (owner only)
+export const CreateUserSchema = z.object({
+  name: z.string().min(2, { message: "Name must be at least 2 characters." }),
+  email: z.string().email("Invalid email address.").toLowerCase(),
+  password: z.string().min(8, { message: "Password must be at least 8 characters." }),
+  role: UserRoleEnum,
+});
+
+export type CreateUserInput = z.infer<typeof CreateUserSchema>;
+
+// Structure of a user document READ FROM Firestore (passwordHash is never sent to the client)
+export interface User {
+  id: string;
+  name: string;
+  email: string;
+  role: UserRole;
+  active: boolean;
+  createdAt?: string; // ISO string
+  lastLoginAt?: string; // ISO string
+}
+
+// The identity carried inside the signed session token
+export interface SessionUser {
+  id: string;
+  name: string;
+  email: string;
+  role: UserRole;
+}
+
+// Staff member stamped onto documents (orders, audit entries) when they create or change them
+export interface UserStamp {
+  id: string;
+  name: string;
+  role: UserRole;
+}